@@ -9,11 +9,15 @@ import PageTransition from "@/components/PageTransition";
 import Index from "./pages/Index";
 import Login from "./pages/Login";
 import Signup from "./pages/Signup";
+import AcceptInvitation from "./pages/AcceptInvitation";
+import AlertResponse from "./pages/AlertResponse";
 import CaregiverDashboard from "./pages/CaregiverDashboard";
+import Dashboard from "./pages/Dashboard";
 import SeniorView from "./pages/SeniorView";
 import SeniorChat from "./pages/SeniorChat";
 import PatientDashboard from "./pages/PatientDashboard";
 import HistoryView from "./pages/HistoryView";
+import HealthView from "./pages/HealthView";
 import Features from "./pages/Features";
 import About from "./pages/About";
 import Privacy from "./pages/Privacy";
@@ -24,6 +28,7 @@ import {
   AdminUsers,
   AdminCareRelationships,
   AdminAlerts,
+  AdminDevices,
   AdminAuditLog,
   AdminSettings,
 } from "./pages/admin";
@@ -49,6 +54,8 @@ const App = () => (
             {/* Auth Routes */}
             <Route path="/login" element={<Login />} />
             <Route path="/signup" element={<Signup />} />
+            <Route path="/invite" element={<AcceptInvitation />} />
+            <Route path="/alert-response" element={<AlertResponse />} />
 
             {/* Protected Senior Routes */}
             <Route
@@ -84,6 +91,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/senior/health"
+              element={
+                <ProtectedRoute requiredRole="senior">
+                  <HealthView />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Protected Caregiver Routes */}
             <Route
@@ -94,6 +109,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/overview"
+              element={
+                <ProtectedRoute requiredRole={["caregiver", "family_member", "admin"]}>
+                  <Dashboard />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/dashboard/history"
               element={
@@ -102,6 +125,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/dashboard/health"
+              element={
+                <ProtectedRoute requiredRole={["caregiver", "family_member", "admin"]}>
+                  <HealthView />
+                </ProtectedRoute>
+              }
+            />
 
             {/* Protected Admin Routes */}
             <Route
@@ -136,6 +167,14 @@ const App = () => (
                 </ProtectedRoute>
               }
             />
+            <Route
+              path="/admin/devices"
+              element={
+                <ProtectedRoute requiredRole="admin">
+                  <AdminDevices />
+                </ProtectedRoute>
+              }
+            />
             <Route
               path="/admin/audit-log"
               element={
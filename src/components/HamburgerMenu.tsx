@@ -38,7 +38,8 @@ const HamburgerMenu = () => {
     if (isSenior) {
       protectedItems.push(
         { label: "My Dashboard", path: "/senior/dashboard" },
-        { label: "My History", path: "/senior/history" }
+        { label: "My History", path: "/senior/history" },
+        { label: "My Health", path: "/senior/health" }
       );
     }
 
@@ -46,8 +47,10 @@ const HamburgerMenu = () => {
     if (isCaregiver || isFamilyMember || isAdmin) {
       protectedItems.push(
         { label: "Caregiver Dashboard", path: "/dashboard" },
+        { label: "Care Overview", path: "/dashboard/overview" },
         // QA: UI/UX fix 2025-10-15 - Changed "Patient History" to "Independent History" per design spec
-        { label: "Independent History", path: "/dashboard/history" }
+        { label: "Independent History", path: "/dashboard/history" },
+        { label: "Health", path: "/dashboard/health" }
       );
     }
 
@@ -10,6 +10,7 @@ import {
   DialogHeader,
   DialogTitle,
 } from "@/components/ui/dialog";
+import { ESCALATION_TARGET_LABELS, formatEscalationChannels, type EscalationTarget } from "@/lib/escalation";
 
 interface HistoryEntry {
   date: string;
@@ -28,7 +29,18 @@ interface Alert {
   status: string;
   alert_message: string;
   created_at: string;
-  resolved_at?: string;
+  resolved_at?: string | null;
+  escalations?: AlertEscalation[];
+}
+
+/** One step of the escalation ladder that was contacted about an alert */
+interface AlertEscalation {
+  step_order: number;
+  target: string;
+  recipient_name: string;
+  channels: string[];
+  delivered_channels: string[];
+  notified_at: string;
 }
 
 interface HistoryDetailModalProps {
@@ -219,6 +231,22 @@ const HistoryDetailModal = ({ entry, isOpen, onClose, onExport, alerts }: Histor
                           </span>
                         )}
                       </p>
+                      {alert.escalations && alert.escalations.length > 0 && (
+                        <ul className="mt-2 ml-6 space-y-1">
+                          {[...alert.escalations]
+                            .sort((a, b) => a.notified_at.localeCompare(b.notified_at))
+                            .map((escalation, index) => (
+                              <li key={index} className="text-xs text-muted-foreground">
+                                {new Date(escalation.notified_at).toLocaleTimeString()} · Step {escalation.step_order}:
+                                contacted {escalation.recipient_name} (
+                                {ESCALATION_TARGET_LABELS[escalation.target as EscalationTarget] || escalation.target})
+                                {escalation.delivered_channels.length > 0
+                                  ? ` by ${formatEscalationChannels(escalation.delivered_channels)}`
+                                  : " but no message could be delivered"}
+                              </li>
+                            ))}
+                        </ul>
+                      )}
                     </div>
                   ))}
                 </div>
@@ -0,0 +1,171 @@
+/**
+ * Patient Memories Component
+ *
+ * Lists what Parra remembers about a patient from past conversations
+ * (preferred name, family, hobbies, medication schedule, routines) and
+ * lets the senior or their caregivers delete anything that is wrong or
+ * that they would rather Parra forgot.
+ *
+ * Memories are written by the analyze-check-in Edge Function; RLS limits
+ * access to the patient, their active caregivers and admins.
+ */
+
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+type PatientMemory = Database["public"]["Tables"]["patient_memories"]["Row"];
+
+interface PatientMemoriesProps {
+  patientId: string;
+  patientName: string;
+  /** "senior" shows first-person copy for the patient's own dashboard */
+  viewer?: "senior" | "caregiver";
+  /** Caregivers need permission to change settings to delete memories */
+  canDelete?: boolean;
+}
+
+const CATEGORY_LABELS: Record<PatientMemory["category"], string> = {
+  preferred_name: "Name",
+  family: "Family",
+  hobby: "Hobbies",
+  medication: "Medication",
+  routine: "Routine",
+  preference: "Likes & dislikes",
+  health: "Health",
+  other: "Other",
+};
+
+const PatientMemories = ({ patientId, patientName, viewer = "caregiver", canDelete = true }: PatientMemoriesProps) => {
+  const queryClient = useQueryClient();
+  const [memoryToDelete, setMemoryToDelete] = useState<PatientMemory | null>(null);
+  const isSenior = viewer === "senior";
+
+  const { data: memories, isLoading } = useQuery({
+    queryKey: ["patient-memories", patientId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("patient_memories")
+        .select("*")
+        .eq("patient_id", patientId)
+        .order("category")
+        .order("last_mentioned_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as PatientMemory[];
+    },
+    enabled: !!patientId,
+  });
+
+  const deleteMemory = useMutation({
+    mutationFn: async (memoryId: string) => {
+      const { error } = await supabase
+        .from("patient_memories")
+        .delete()
+        .eq("id", memoryId)
+        .eq("patient_id", patientId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["patient-memories", patientId] });
+      toast.success("Parra will no longer remember that");
+    },
+    onError: (error) => {
+      console.error("Error deleting memory:", error);
+      toast.error("Failed to delete memory");
+    },
+  });
+
+  const handleConfirmDelete = () => {
+    if (memoryToDelete) {
+      deleteMemory.mutate(memoryToDelete.id);
+    }
+    setMemoryToDelete(null);
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-heading font-bold text-secondary mb-2">
+        What Parra Remembers
+      </h2>
+      <p className="text-muted-foreground mb-4">
+        {isSenior
+          ? "Things you've told Parra that it brings up in later conversations."
+          : `Things ${patientName} has told Parra that it brings up in later conversations.`}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : memories && memories.length > 0 ? (
+        <div className="space-y-3 max-h-[300px] overflow-y-auto">
+          {memories.map((memory) => (
+            <Card key={memory.id} className="p-4 flex items-start justify-between gap-4">
+              <div>
+                <span className="inline-block mb-1 px-2 py-1 text-xs bg-primary/10 text-primary rounded">
+                  {CATEGORY_LABELS[memory.category]}
+                </span>
+                <p className="text-base text-foreground">{memory.content}</p>
+              </div>
+              {canDelete && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="shrink-0"
+                  onClick={() => setMemoryToDelete(memory)}
+                  disabled={deleteMemory.isPending}
+                  aria-label={`Forget "${memory.content}"`}
+                >
+                  <Trash2 className="w-5 h-5 text-muted-foreground" />
+                </Button>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="p-6 text-center border-2 border-dashed border-secondary/30 rounded-lg">
+          <p className="text-muted-foreground">
+            {isSenior
+              ? "Parra hasn't remembered anything yet."
+              : `Parra hasn't remembered anything about ${patientName} yet.`}
+          </p>
+        </div>
+      )}
+
+      <AlertDialog open={!!memoryToDelete} onOpenChange={(open) => !open && setMemoryToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Forget this?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Parra will stop bringing up "{memoryToDelete?.content}" in conversations.
+              It may remember it again if it comes up in a future chat.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Forget</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default PatientMemories;
@@ -13,6 +13,7 @@ import {
   Users,
   Link as LinkIcon,
   AlertCircle,
+  Radio,
   Activity,
   Settings,
   Shield,
@@ -50,6 +51,12 @@ const navItems: NavItem[] = [
     icon: AlertCircle,
     description: 'View and manage alerts',
   },
+  {
+    label: 'Devices',
+    href: '/admin/devices',
+    icon: Radio,
+    description: 'Manage motion sensors',
+  },
   {
     label: 'Audit Log',
     href: '/admin/audit-log',
@@ -0,0 +1,160 @@
+/**
+ * Alert Inbox Panel
+ *
+ * Caregiver dashboard section listing the patient's alerts from the last
+ * week, open ones first. Caregivers can acknowledge an alert (which stops
+ * Parra contacting the rest of the escalation ladder), resolve it or mark
+ * it a false alarm, and see who already answered and how. Only shown to
+ * caregivers who receive the patient's alerts.
+ */
+
+import { useState } from "react";
+import { useAlertInbox, useRespondToAlert } from "@/hooks/useAlertInbox";
+import { AlertResponseDialog } from "@/components/alerts/AlertResponseDialog";
+import TelegramLinkCard from "@/components/alerts/TelegramLinkCard";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ALERT_RESPONSE_LABELS,
+  ALERT_STATUS_LABELS,
+  getAlertReference,
+  isOpenAlert,
+  type AlertResponseAction,
+  type AlertStatus,
+  type InboxAlert,
+} from "@/lib/alert-responses";
+
+interface AlertInboxPanelProps {
+  patientId: string;
+  patientName: string;
+}
+
+const STATUS_VARIANTS: Record<AlertStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  active: "destructive",
+  acknowledged: "secondary",
+  resolved: "default",
+  false_alarm: "outline",
+};
+
+const AlertInboxPanel = ({ patientId, patientName }: AlertInboxPanelProps) => {
+  const [pendingResponse, setPendingResponse] = useState<{
+    alert: InboxAlert;
+    action: Exclude<AlertResponseAction, "acknowledge">;
+  } | null>(null);
+
+  const { data: alerts, isLoading } = useAlertInbox(patientId);
+  const respondToAlert = useRespondToAlert(patientId);
+
+  const openCount = (alerts || []).filter(isOpenAlert).length;
+
+  const respond = async (alert: InboxAlert, action: AlertResponseAction, note?: string) => {
+    try {
+      await respondToAlert.mutateAsync({ alertId: alert.id, action, note });
+      toast.success(
+        action === "acknowledge"
+          ? "Alert acknowledged. No one else will be contacted."
+          : action === "resolve"
+          ? "Alert resolved"
+          : "Alert marked as a false alarm"
+      );
+      setPendingResponse(null);
+    } catch (error) {
+      console.error("Error responding to alert:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update the alert");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Alerts</h2>
+        {openCount > 0 && <Badge variant="destructive">{openCount} open</Badge>}
+      </div>
+      <p className="text-muted-foreground mb-4">
+        Alerts about {patientName} from the last week. Acknowledge an alert to let the others know you're handling
+        it; you can also answer straight from the alert email, WhatsApp or Telegram message.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : !alerts || alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground mb-4">No alerts in the last week.</p>
+      ) : (
+        <div className="space-y-3 mb-4">
+          {alerts.map((alert) => {
+            const acknowledger = alert.acknowledger?.display_name || alert.acknowledger?.full_name;
+            return (
+              <Card key={alert.id} className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={STATUS_VARIANTS[alert.status]}>{ALERT_STATUS_LABELS[alert.status]}</Badge>
+                    <span className="text-xs text-muted-foreground font-mono">Ref {getAlertReference(alert.id)}</span>
+                  </div>
+                  <span className="text-sm text-muted-foreground">{new Date(alert.created_at).toLocaleString()}</span>
+                </div>
+
+                <p className="text-foreground">{alert.alert_message}</p>
+
+                {alert.acknowledged_at && (
+                  <p className="text-sm text-muted-foreground">
+                    {acknowledger ? `${acknowledger} responded` : "Responded"} at{" "}
+                    {new Date(alert.acknowledged_at).toLocaleString()}
+                  </p>
+                )}
+                {alert.resolution_notes && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-line">{alert.resolution_notes}</p>
+                )}
+
+                {isOpenAlert(alert) && (
+                  <div className="flex flex-wrap gap-2">
+                    {alert.status === "active" && (
+                      <Button size="sm" onClick={() => respond(alert, "acknowledge")} disabled={respondToAlert.isPending}>
+                        {ALERT_RESPONSE_LABELS.acknowledge}
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => setPendingResponse({ alert, action: "resolve" })}
+                      disabled={respondToAlert.isPending}
+                    >
+                      {ALERT_RESPONSE_LABELS.resolve}
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setPendingResponse({ alert, action: "false_alarm" })}
+                      disabled={respondToAlert.isPending}
+                    >
+                      {ALERT_RESPONSE_LABELS.false_alarm}
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <TelegramLinkCard />
+
+      {pendingResponse && (
+        <AlertResponseDialog
+          open={!!pendingResponse}
+          onOpenChange={(open) => !open && setPendingResponse(null)}
+          action={pendingResponse.action}
+          alertMessage={pendingResponse.alert.alert_message}
+          onSubmit={(note) => respond(pendingResponse.alert, pendingResponse.action, note)}
+          isSaving={respondToAlert.isPending}
+        />
+      )}
+    </div>
+  );
+};
+
+export default AlertInboxPanel;
@@ -0,0 +1,104 @@
+/**
+ * AlertResponseDialog Component
+ *
+ * Confirms resolving an alert or marking it a false alarm, with an optional
+ * note for the rest of the care circle. Saving is left to the caller.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { ALERT_RESPONSE_LABELS, alertResponseNoteSchema, type AlertResponseAction } from '@/lib/alert-responses';
+
+interface AlertResponseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  action: Exclude<AlertResponseAction, 'acknowledge'>;
+  alertMessage: string;
+  onSubmit: (note: string) => Promise<void>;
+  isSaving: boolean;
+}
+
+export const AlertResponseDialog: React.FC<AlertResponseDialogProps> = ({
+  open,
+  onOpenChange,
+  action,
+  alertMessage,
+  onSubmit,
+  isSaving,
+}) => {
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setNote('');
+      setFormError(null);
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = alertResponseNoteSchema.safeParse(note);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    await onSubmit(validation.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{action === 'resolve' ? 'Resolve Alert' : 'Mark as False Alarm'}</DialogTitle>
+          <DialogDescription>{alertMessage}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="alert_response_note">Note for the care circle (optional)</Label>
+            <Textarea
+              id="alert_response_note"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              placeholder={action === 'resolve' ? 'e.g. Was out in the garden and is fine' : 'e.g. Sensor battery was low'}
+              rows={3}
+              disabled={isSaving}
+            />
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : ALERT_RESPONSE_LABELS[action]}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AlertResponseDialog;
@@ -0,0 +1,84 @@
+/**
+ * Telegram Link Card
+ *
+ * Lets a caregiver connect their Telegram account so they can answer alerts
+ * in the Parra Telegram chat with /ack, /resolved or /falsealarm. Shows the
+ * code to send to the bot until telegram-webhook completes the link.
+ */
+
+import { useAuth } from "@/contexts/AuthContext";
+import { useCreateTelegramLinkCode, useDisconnectTelegram, useTelegramLink } from "@/hooks/useTelegramLink";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { toast } from "sonner";
+
+const TelegramLinkCard = () => {
+  const { user } = useAuth();
+  const userId = user?.id || "";
+  const { data: link, refetch } = useTelegramLink(user?.id);
+  const createCode = useCreateTelegramLinkCode(userId);
+  const disconnect = useDisconnectTelegram(userId);
+
+  const pendingCode =
+    link?.link_code && link.link_code_expires_at && new Date(link.link_code_expires_at) > new Date()
+      ? link.link_code
+      : null;
+
+  const handleCreateCode = async () => {
+    try {
+      await createCode.mutateAsync();
+    } catch (error) {
+      console.error("Error creating Telegram link code:", error);
+      toast.error("Failed to create a Telegram code");
+    }
+  };
+
+  const handleDisconnect = async () => {
+    try {
+      await disconnect.mutateAsync();
+      toast.success("Telegram disconnected");
+    } catch (error) {
+      console.error("Error disconnecting Telegram:", error);
+      toast.error("Failed to disconnect Telegram");
+    }
+  };
+
+  if (!user) return null;
+
+  return (
+    <Card className="p-4 space-y-2">
+      <p className="font-medium text-foreground">Answer alerts on Telegram</p>
+      {link?.telegram_user_id ? (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Your Telegram account is connected. Reply /ack, /resolved or /falsealarm to an alert in the Parra chat.
+          </p>
+          <Button variant="ghost" size="sm" onClick={handleDisconnect} disabled={disconnect.isPending}>
+            Disconnect
+          </Button>
+        </div>
+      ) : pendingCode ? (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Send <span className="font-mono font-medium text-foreground">/link {pendingCode}</span> to the Parra bot
+            on Telegram within 30 minutes.
+          </p>
+          <Button variant="outline" size="sm" onClick={() => refetch()}>
+            I've sent it
+          </Button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Connect your Telegram account to acknowledge alerts straight from the Parra chat.
+          </p>
+          <Button variant="outline" size="sm" onClick={handleCreateCode} disabled={createCode.isPending}>
+            Connect Telegram
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default TelegramLinkCard;
@@ -0,0 +1,193 @@
+/**
+ * CheckInScheduleDialog Component
+ *
+ * Form for adding or editing a time at which Parra starts a check-in: the
+ * senior's local time, the channel and how long they have to reply before
+ * the care team is alerted. Times closer than MIN_CHECKIN_SPACING_HOURS to
+ * another check-in are rejected. Saving is left to the caller.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  CHECKIN_CHANNEL_LABELS,
+  MIN_CHECKIN_SPACING_HOURS,
+  RESPONSE_WINDOW_DEFAULT,
+  RESPONSE_WINDOW_MAX,
+  RESPONSE_WINDOW_MIN,
+  checkInScheduleSchema,
+  findSpacingConflict,
+  type CheckInChannel,
+  type CheckInScheduleInput,
+} from '@/lib/checkin-schedules';
+import { formatDoseTime } from '@/lib/medications';
+import type { CheckInSchedule } from '@/hooks/useCheckInSchedules';
+
+interface CheckInScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Schedule to edit; omit to add a new one */
+  schedule?: CheckInSchedule | null;
+  /** Times of the patient's other active check-ins, for the spacing rule */
+  otherTimes: string[];
+  patientName: string;
+  onSubmit: (input: CheckInScheduleInput) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface ScheduleFormState {
+  check_in_time: string;
+  channel: CheckInChannel;
+  response_window_minutes: string;
+}
+
+function initialFormState(schedule: CheckInSchedule | null | undefined): ScheduleFormState {
+  return {
+    check_in_time: schedule?.check_in_time.slice(0, 5) || '09:00',
+    channel: schedule?.channel || 'whatsapp',
+    response_window_minutes: String(schedule?.response_window_minutes ?? RESPONSE_WINDOW_DEFAULT),
+  };
+}
+
+export const CheckInScheduleDialog: React.FC<CheckInScheduleDialogProps> = ({
+  open,
+  onOpenChange,
+  schedule,
+  otherTimes,
+  patientName,
+  onSubmit,
+  isSaving,
+}) => {
+  const isEdit = !!schedule;
+  const [formData, setFormData] = useState<ScheduleFormState>(() => initialFormState(schedule));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(initialFormState(schedule));
+      setFormError(null);
+    }
+  }, [open, schedule]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = checkInScheduleSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    const conflict = findSpacingConflict(validation.data.check_in_time, otherTimes);
+    if (conflict) {
+      setFormError(
+        `Check-ins need to be at least ${MIN_CHECKIN_SPACING_HOURS} hours apart. There is already one at ${formatDoseTime(conflict)}.`
+      );
+      return;
+    }
+
+    setFormError(null);
+    await onSubmit(validation.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit Check-in' : 'Add Check-in'}</DialogTitle>
+          <DialogDescription>
+            Parra starts the conversation at this time in {patientName}'s time zone.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="check_in_time">Time</Label>
+              <Input
+                id="check_in_time"
+                type="time"
+                value={formData.check_in_time}
+                onChange={(e) => setFormData({ ...formData, check_in_time: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="check_in_channel">Send by</Label>
+              <Select
+                value={formData.channel}
+                onValueChange={(value) => setFormData({ ...formData, channel: value as CheckInChannel })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="check_in_channel">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CHECKIN_CHANNEL_LABELS) as CheckInChannel[]).map((channel) => (
+                    <SelectItem key={channel} value={channel}>
+                      {CHECKIN_CHANNEL_LABELS[channel]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="response_window_minutes">Alert if no reply after (minutes)</Label>
+            <Input
+              id="response_window_minutes"
+              type="number"
+              min={RESPONSE_WINDOW_MIN}
+              max={RESPONSE_WINDOW_MAX}
+              value={formData.response_window_minutes}
+              onChange={(e) => setFormData({ ...formData, response_window_minutes: e.target.value })}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">
+              {RESPONSE_WINDOW_MIN}-{RESPONSE_WINDOW_MAX} minutes, for WhatsApp check-ins only. Parra app
+              check-ins send no notification: they wait until {patientName} opens Parra chat and never raise an
+              alert. WhatsApp check-ins go to the Parra app, without an alert, if {patientName} has no WhatsApp
+              number.
+            </p>
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Check-in'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckInScheduleDialog;
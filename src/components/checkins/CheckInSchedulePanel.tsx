@@ -0,0 +1,230 @@
+/**
+ * Check-in Schedule Panel
+ *
+ * Caregiver dashboard section listing the times Parra starts a check-in
+ * with the patient and how recent check-ins went (answered, missed or
+ * skipped). Caregivers with permission to modify settings can add, edit,
+ * pause and remove check-in times; others see a read-only list.
+ */
+
+import { useState } from "react";
+import {
+  useCheckInSchedules,
+  useRecentCheckIns,
+  useCreateCheckInSchedule,
+  useUpdateCheckInSchedule,
+  useDeleteCheckInSchedule,
+  type CheckInSchedule,
+} from "@/hooks/useCheckInSchedules";
+import { useAuth } from "@/contexts/AuthContext";
+import { CheckInScheduleDialog } from "@/components/checkins/CheckInScheduleDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CHECKIN_CHANNEL_LABELS,
+  CHECKIN_STATUS_LABELS,
+  type CheckInScheduleInput,
+  type ScheduledCheckInStatus,
+} from "@/lib/checkin-schedules";
+import { formatReminderSchedule } from "@/lib/reminders";
+import { formatDoseTime } from "@/lib/medications";
+
+interface CheckInSchedulePanelProps {
+  patientId: string;
+  patientName: string;
+  /** From the care relationship's can_modify_settings flag */
+  canEdit: boolean;
+}
+
+const STATUS_VARIANTS: Record<ScheduledCheckInStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  sent: "secondary",
+  answered: "default",
+  missed: "destructive",
+  skipped: "outline",
+  failed: "destructive",
+};
+
+const CheckInSchedulePanel = ({ patientId, patientName, canEdit }: CheckInSchedulePanelProps) => {
+  const { user } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingSchedule, setEditingSchedule] = useState<CheckInSchedule | null>(null);
+  const [scheduleToDelete, setScheduleToDelete] = useState<CheckInSchedule | null>(null);
+
+  const { data: schedules, isLoading } = useCheckInSchedules(patientId);
+  const { data: recentCheckIns } = useRecentCheckIns(patientId);
+  const createSchedule = useCreateCheckInSchedule();
+  const updateSchedule = useUpdateCheckInSchedule();
+  const deleteSchedule = useDeleteCheckInSchedule();
+
+  const otherTimes = (schedules || [])
+    .filter((s) => s.is_active && s.id !== editingSchedule?.id)
+    .map((s) => s.check_in_time);
+
+  const openDialog = (schedule: CheckInSchedule | null) => {
+    setEditingSchedule(schedule);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: CheckInScheduleInput) => {
+    try {
+      if (editingSchedule) {
+        await updateSchedule.mutateAsync({ id: editingSchedule.id, ...input });
+        toast.success("Check-in updated");
+      } else {
+        await createSchedule.mutateAsync({ ...input, patientId, createdBy: user!.id });
+        toast.success("Check-in added");
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving check-in schedule:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save check-in");
+    }
+  };
+
+  const handleToggleActive = async (schedule: CheckInSchedule, isActive: boolean) => {
+    try {
+      await updateSchedule.mutateAsync({ id: schedule.id, is_active: isActive });
+      toast.success(isActive ? "Check-in resumed" : "Check-in paused");
+    } catch (error) {
+      console.error("Error updating check-in schedule:", error);
+      toast.error("Failed to update check-in");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!scheduleToDelete) return;
+
+    try {
+      await deleteSchedule.mutateAsync(scheduleToDelete.id);
+      toast.success("Check-in removed");
+    } catch (error) {
+      console.error("Error deleting check-in schedule:", error);
+      toast.error("Failed to remove check-in");
+    }
+    setScheduleToDelete(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Scheduled Check-ins</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Check-in
+          </Button>
+        )}
+      </div>
+      <p className="text-muted-foreground mb-4">
+        Parra reaches out to {patientName} at these times. You're alerted if {patientName} doesn't reply on
+        WhatsApp. Parra app check-ins wait until {patientName} opens Parra chat, so they never raise an alert.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : schedules && schedules.length > 0 ? (
+        <div className="space-y-3">
+          {schedules.map((schedule) => (
+            <Card key={schedule.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="font-medium text-foreground">{formatDoseTime(schedule.check_in_time)}</p>
+                  {!schedule.is_active && <Badge variant="outline">Paused</Badge>}
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {CHECKIN_CHANNEL_LABELS[schedule.channel]} ·{" "}
+                  {schedule.channel === "whatsapp"
+                    ? `alert after ${schedule.response_window_minutes} min without a reply`
+                    : "waits for the next chat, no alert"}
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={schedule.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(schedule, checked)}
+                    disabled={updateSchedule.isPending}
+                    aria-label={schedule.is_active ? "Pause check-in" : "Resume check-in"}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(schedule)}>
+                    <Edit className="w-4 h-4" />
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setScheduleToDelete(schedule)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic py-4">
+          No check-ins scheduled. Parra only talks with {patientName} when they start the conversation.
+        </p>
+      )}
+
+      {recentCheckIns && recentCheckIns.length > 0 && (
+        <div className="mt-6 space-y-2">
+          <h3 className="text-lg font-medium text-foreground">Recent check-ins</h3>
+          {recentCheckIns.map((checkIn) => (
+            <div key={checkIn.id} className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {formatReminderSchedule(checkIn.scheduled_date, checkIn.scheduled_time)} ·{" "}
+                {CHECKIN_CHANNEL_LABELS[checkIn.channel]}
+                {checkIn.status_reason && ` · ${checkIn.status_reason}`}
+              </span>
+              <Badge variant={STATUS_VARIANTS[checkIn.status]}>{CHECKIN_STATUS_LABELS[checkIn.status]}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <CheckInScheduleDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        schedule={editingSchedule}
+        otherTimes={otherTimes}
+        patientName={patientName}
+        onSubmit={handleSave}
+        isSaving={createSchedule.isPending || updateSchedule.isPending}
+      />
+
+      <AlertDialog open={!!scheduleToDelete} onOpenChange={(open) => !open && setScheduleToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this check-in?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Parra will stop reaching out at{" "}
+              {scheduleToDelete ? formatDoseTime(scheduleToDelete.check_in_time) : ""}, and its history will be
+              deleted. To stop it temporarily, pause it instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CheckInSchedulePanel;
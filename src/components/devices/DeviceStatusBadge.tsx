@@ -0,0 +1,34 @@
+/**
+ * DeviceStatusBadge Component
+ *
+ * Shows whether a motion sensor is monitoring, paused or offline.
+ */
+
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { isDeviceOffline } from '@/lib/devices';
+import type { SwitchbotDevice } from '@/hooks/useSwitchbotDevices';
+
+interface DeviceStatusBadgeProps {
+  device: Pick<SwitchbotDevice, 'is_active' | 'last_event_at'>;
+}
+
+export const DeviceStatusBadge: React.FC<DeviceStatusBadgeProps> = ({ device }) => {
+  if (!device.is_active) {
+    return <Badge variant="secondary">Paused</Badge>;
+  }
+
+  if (isDeviceOffline(device)) {
+    return (
+      <Badge variant="destructive" title="No motion reported recently - check the sensor battery and hub">
+        Offline
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge style={{ backgroundColor: '#C9EBC0', color: '#2F4733' }}>Online</Badge>
+  );
+};
+
+export default DeviceStatusBadge;
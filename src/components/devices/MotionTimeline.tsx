@@ -0,0 +1,145 @@
+/**
+ * Motion Timeline Component
+ *
+ * Room-by-room view of today's movement from a patient's SwitchBot motion
+ * sensors: when each room was occupied, how long since movement was last
+ * seen there, and any open inactivity episodes. Updates live via the
+ * useMotionTimeline realtime subscription.
+ */
+
+import { useMotionTimeline, type InactivityEpisode } from "@/hooks/useMotionTimeline";
+import { DeviceStatusBadge } from "@/components/devices/DeviceStatusBadge";
+import { Card } from "@/components/ui/card";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import { dayPercent, formatTimeSince } from "@/lib/motion-timeline";
+
+interface MotionTimelineProps {
+  patientId: string;
+  patientName: string;
+  /** "senior" shows first-person copy for the patient's own history */
+  viewer?: "senior" | "caregiver";
+}
+
+const EPISODE_LABELS: Record<InactivityEpisode["status"], string> = {
+  monitoring: "No movement detected",
+  check_in_sent: "Check-in sent, waiting for a reply",
+  escalated: "No reply - caregivers alerted",
+  resolved: "Resolved",
+  false_alarm: "False alarm",
+};
+
+const HOUR_MARKERS = [
+  { hour: 6, label: "6am" },
+  { hour: 12, label: "12pm" },
+  { hour: 18, label: "6pm" },
+];
+
+const MotionTimeline = ({ patientId, patientName, viewer = "caregiver" }: MotionTimelineProps) => {
+  const { devices, rooms, episodes, dayStart, dayEnd, now, isLoading } = useMotionTimeline(patientId);
+  const nowPercent = dayPercent(now, dayStart, dayEnd);
+
+  const roomName = (deviceId: string) => {
+    const device = devices.find((d) => d.id === deviceId);
+    return device?.location || device?.device_name || "Unknown room";
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-heading font-bold text-secondary mb-2">Movement Today</h2>
+      <p className="text-muted-foreground mb-4">
+        {viewer === "senior"
+          ? "Where you've been moving around the home today. Updates live."
+          : `Where ${patientName} has been moving around the home today. Updates live.`}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : devices.length === 0 ? (
+        <p className="text-muted-foreground italic py-4">No motion sensors registered yet.</p>
+      ) : (
+        <div className="space-y-3">
+          {episodes.map((episode) => (
+            <Card
+              key={episode.id}
+              className="p-4 flex items-start gap-3 border-destructive/50 bg-destructive/5"
+              role="status"
+            >
+              <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-foreground">
+                  {EPISODE_LABELS[episode.status]} in {roomName(episode.device_id)}
+                </p>
+                <p className="text-sm text-muted-foreground">
+                  Still since {new Date(episode.inactivity_started_at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}
+                  {" "}({formatTimeSince(new Date(episode.inactivity_started_at), now)})
+                </p>
+              </div>
+            </Card>
+          ))}
+
+          {rooms.map((room) => {
+            const device = devices.find((d) => d.id === room.deviceId);
+            if (!device) return null;
+
+            return (
+              <Card key={room.deviceId} className="p-4">
+                <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                  <div className="flex items-center gap-2">
+                    <p className="font-medium text-foreground">{roomName(room.deviceId)}</p>
+                    <DeviceStatusBadge device={device} />
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {room.isOccupied
+                      ? "Moving now"
+                      : room.lastMovementAt
+                        ? `Last movement ${formatTimeSince(room.lastMovementAt, now)}`
+                        : "No movement today"}
+                  </p>
+                </div>
+
+                {/* Day bar: midnight to midnight */}
+                <div
+                  className="relative h-4 rounded bg-muted overflow-hidden"
+                  aria-label={`${roomName(room.deviceId)} presence today`}
+                >
+                  {room.segments.map((segment) => {
+                    const left = dayPercent(segment.start, dayStart, dayEnd);
+                    const width = Math.max(0.3, dayPercent(segment.end, dayStart, dayEnd) - left);
+                    return (
+                      <div
+                        key={segment.start.toISOString()}
+                        className="absolute inset-y-0 bg-primary"
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                        title={`${segment.start.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })} - ${segment.end.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" })}`}
+                      />
+                    );
+                  })}
+                  <div
+                    className="absolute inset-y-0 w-0.5 bg-secondary"
+                    style={{ left: `${nowPercent}%` }}
+                    aria-hidden="true"
+                  />
+                </div>
+                <div className="relative h-4 mt-1 text-xs text-muted-foreground" aria-hidden="true">
+                  {HOUR_MARKERS.map(({ hour, label }) => (
+                    <span
+                      key={hour}
+                      className="absolute -translate-x-1/2"
+                      style={{ left: `${(hour / 24) * 100}%` }}
+                    >
+                      {label}
+                    </span>
+                  ))}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MotionTimeline;
@@ -0,0 +1,256 @@
+/**
+ * SwitchbotDeviceDialog Component
+ *
+ * Form for registering or editing a SwitchBot motion sensor: MAC address,
+ * patient and room assignment, and the inactivity thresholds used for fall
+ * detection. Validation errors are shown inline; saving is left to the
+ * caller so the admin page and caregiver dashboard can use their own
+ * mutations and toasts.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ESCALATION_MINUTES_DEFAULT,
+  ESCALATION_MINUTES_MAX,
+  ESCALATION_MINUTES_MIN,
+  SENSITIVITY_SECONDS_DEFAULT,
+  SENSITIVITY_SECONDS_MAX,
+  SENSITIVITY_SECONDS_MIN,
+  switchbotDeviceSchema,
+  type SwitchbotDeviceInput,
+} from '@/lib/devices';
+import type { SwitchbotDevice } from '@/hooks/useSwitchbotDevices';
+
+interface PatientOption {
+  id: string;
+  label: string;
+}
+
+interface SwitchbotDeviceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Device to edit; omit to register a new one */
+  device?: SwitchbotDevice | null;
+  /** Patients the device can be assigned to; the select is hidden when there is only one */
+  patients: PatientOption[];
+  onSubmit: (input: SwitchbotDeviceInput) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface DeviceFormState {
+  patient_id: string;
+  device_mac: string;
+  device_name: string;
+  location: string;
+  sensitivity_seconds: string;
+  escalation_minutes: string;
+  is_active: boolean;
+}
+
+function initialFormState(device: SwitchbotDevice | null | undefined, patients: PatientOption[]): DeviceFormState {
+  return {
+    patient_id: device?.patient_id || (patients.length === 1 ? patients[0].id : ''),
+    device_mac: device?.device_mac || '',
+    device_name: device?.device_name || '',
+    location: device?.location || '',
+    sensitivity_seconds: String(device?.sensitivity_seconds ?? SENSITIVITY_SECONDS_DEFAULT),
+    escalation_minutes: String(device?.escalation_minutes ?? ESCALATION_MINUTES_DEFAULT),
+    is_active: device?.is_active ?? true,
+  };
+}
+
+export const SwitchbotDeviceDialog: React.FC<SwitchbotDeviceDialogProps> = ({
+  open,
+  onOpenChange,
+  device,
+  patients,
+  onSubmit,
+  isSaving,
+}) => {
+  const isEdit = !!device;
+  const [formData, setFormData] = useState<DeviceFormState>(() => initialFormState(device, patients));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(initialFormState(device, patients));
+      setFormError(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open, device]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = switchbotDeviceSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    await onSubmit(validation.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit Motion Sensor' : 'Register Motion Sensor'}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? 'Update where this sensor is and how quickly inactivity is flagged.'
+              : 'Add a SwitchBot motion sensor using the MAC address shown in the SwitchBot app.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {patients.length > 1 && (
+            <div className="space-y-2">
+              <Label htmlFor="device_patient_id">
+                Patient <span className="text-destructive">*</span>
+              </Label>
+              <Select
+                value={formData.patient_id}
+                onValueChange={(value) => setFormData({ ...formData, patient_id: value })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="device_patient_id">
+                  <SelectValue placeholder="Select a patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="device_mac">
+              MAC Address <span className="text-destructive">*</span>
+            </Label>
+            <Input
+              id="device_mac"
+              value={formData.device_mac}
+              onChange={(e) => setFormData({ ...formData, device_mac: e.target.value })}
+              placeholder="AA:BB:CC:DD:EE:FF"
+              className="font-mono"
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="device_name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="device_name"
+                value={formData.device_name}
+                onChange={(e) => setFormData({ ...formData, device_name: e.target.value })}
+                placeholder="e.g., Bathroom Sensor"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="device_location">Room</Label>
+              <Input
+                id="device_location"
+                value={formData.location}
+                onChange={(e) => setFormData({ ...formData, location: e.target.value })}
+                placeholder="e.g., Bathroom"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sensitivity_seconds">Inactivity threshold (seconds)</Label>
+              <Input
+                id="sensitivity_seconds"
+                type="number"
+                min={SENSITIVITY_SECONDS_MIN}
+                max={SENSITIVITY_SECONDS_MAX}
+                value={formData.sensitivity_seconds}
+                onChange={(e) => setFormData({ ...formData, sensitivity_seconds: e.target.value })}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-muted-foreground">
+                {SENSITIVITY_SECONDS_MIN}-{SENSITIVITY_SECONDS_MAX} seconds without motion before a check-in starts
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="escalation_minutes">Escalate after (minutes)</Label>
+              <Input
+                id="escalation_minutes"
+                type="number"
+                min={ESCALATION_MINUTES_MIN}
+                max={ESCALATION_MINUTES_MAX}
+                value={formData.escalation_minutes}
+                onChange={(e) => setFormData({ ...formData, escalation_minutes: e.target.value })}
+                disabled={isSaving}
+              />
+              <p className="text-xs text-muted-foreground">
+                {ESCALATION_MINUTES_MIN}-{ESCALATION_MINUTES_MAX} minutes without a reply before caregivers are alerted
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="device_is_active" className="font-normal">
+              Monitoring enabled
+            </Label>
+            <Switch
+              id="device_is_active"
+              checked={formData.is_active}
+              onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              disabled={isSaving}
+            />
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : isEdit ? 'Save Changes' : 'Register Sensor'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SwitchbotDeviceDialog;
@@ -0,0 +1,189 @@
+/**
+ * Switchbot Devices Panel
+ *
+ * Caregiver dashboard section listing a patient's SwitchBot motion sensors
+ * with their room, last reported motion and online status. Caregivers with
+ * permission to modify settings can register sensors, tune thresholds,
+ * pause monitoring and remove sensors; others see a read-only list.
+ */
+
+import { useState } from "react";
+import {
+  useSwitchbotDevices,
+  useCreateSwitchbotDevice,
+  useUpdateSwitchbotDevice,
+  useDeleteSwitchbotDevice,
+  type SwitchbotDevice,
+} from "@/hooks/useSwitchbotDevices";
+import { SwitchbotDeviceDialog } from "@/components/devices/SwitchbotDeviceDialog";
+import { DeviceStatusBadge } from "@/components/devices/DeviceStatusBadge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import { formatAdminDate } from "@/lib/admin/utils";
+import type { SwitchbotDeviceInput } from "@/lib/devices";
+
+interface SwitchbotDevicesPanelProps {
+  patientId: string;
+  patientName: string;
+  /** From the care relationship's can_modify_settings flag */
+  canEdit: boolean;
+}
+
+const SwitchbotDevicesPanel = ({ patientId, patientName, canEdit }: SwitchbotDevicesPanelProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<SwitchbotDevice | null>(null);
+  const [deviceToDelete, setDeviceToDelete] = useState<SwitchbotDevice | null>(null);
+
+  const { data: devices, isLoading } = useSwitchbotDevices(patientId);
+  const createDevice = useCreateSwitchbotDevice();
+  const updateDevice = useUpdateSwitchbotDevice();
+  const deleteDevice = useDeleteSwitchbotDevice();
+
+  const openDialog = (device: SwitchbotDevice | null) => {
+    setEditingDevice(device);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: SwitchbotDeviceInput) => {
+    try {
+      if (editingDevice) {
+        await updateDevice.mutateAsync({ id: editingDevice.id, ...input });
+        toast.success("Sensor updated");
+      } else {
+        await createDevice.mutateAsync(input);
+        toast.success("Sensor registered");
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving sensor:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save sensor");
+    }
+  };
+
+  const handleToggleActive = async (device: SwitchbotDevice, isActive: boolean) => {
+    try {
+      await updateDevice.mutateAsync({ id: device.id, is_active: isActive });
+      toast.success(isActive ? `${device.device_name} is monitoring again` : `${device.device_name} paused`);
+    } catch (error) {
+      console.error("Error updating sensor:", error);
+      toast.error("Failed to update sensor");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deviceToDelete) return;
+
+    try {
+      await deleteDevice.mutateAsync(deviceToDelete.id);
+      toast.success("Sensor removed");
+    } catch (error) {
+      console.error("Error deleting sensor:", error);
+      toast.error("Failed to remove sensor");
+    }
+    setDeviceToDelete(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Motion Sensors</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Sensor
+          </Button>
+        )}
+      </div>
+      <p className="text-muted-foreground mb-4">
+        Sensors in {patientName}'s home that start a check-in when there's no movement.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : devices && devices.length > 0 ? (
+        <div className="space-y-3">
+          {devices.map((device) => (
+            <Card key={device.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <p className="font-medium text-foreground">{device.device_name}</p>
+                  <DeviceStatusBadge device={device} />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {device.location || "No room set"} · Last motion: {formatAdminDate(device.last_event_at)}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Check-in after {device.sensitivity_seconds}s still · escalate after {device.escalation_minutes} min
+                </p>
+              </div>
+              {canEdit && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={device.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(device, checked)}
+                    disabled={updateDevice.isPending}
+                    aria-label={device.is_active ? "Pause monitoring" : "Resume monitoring"}
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(device)}>
+                    <Edit className="w-4 h-4" />
+                    <span className="sr-only">Edit</span>
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => setDeviceToDelete(device)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                    <span className="sr-only">Remove</span>
+                  </Button>
+                </div>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic py-4">
+          No motion sensors registered yet.
+        </p>
+      )}
+
+      <SwitchbotDeviceDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        device={editingDevice}
+        patients={[{ id: patientId, label: patientName }]}
+        onSubmit={handleSave}
+        isSaving={createDevice.isPending || updateDevice.isPending}
+      />
+
+      <AlertDialog open={!!deviceToDelete} onOpenChange={(open) => !open && setDeviceToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this sensor?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{deviceToDelete?.device_name}" and its motion history will be deleted. To stop
+              monitoring temporarily, pause the sensor instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SwitchbotDevicesPanel;
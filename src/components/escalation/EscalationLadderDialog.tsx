@@ -0,0 +1,258 @@
+/**
+ * EscalationLadderDialog Component
+ *
+ * Editor for a patient's alert escalation ladder: the steps in order, who
+ * each one contacts, how long it waits after the previous step and which
+ * channels it uses. The first step is always contacted immediately.
+ * Saving is left to the caller.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import {
+  ESCALATION_CHANNEL_LABELS,
+  ESCALATION_TARGET_LABELS,
+  ESCALATION_WAIT_MAX,
+  MAX_ESCALATION_STEPS,
+  escalationLadderSchema,
+  type EscalationChannel,
+  type EscalationStepInput,
+  type EscalationTarget,
+} from '@/lib/escalation';
+
+interface EscalationLadderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  steps: EscalationStepInput[];
+  patientName: string;
+  onSubmit: (steps: EscalationStepInput[]) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface StepFormState {
+  target: EscalationTarget;
+  wait_minutes: string;
+  channels: EscalationChannel[];
+}
+
+function toFormState(steps: EscalationStepInput[]): StepFormState[] {
+  return steps.map((step) => ({ ...step, wait_minutes: String(step.wait_minutes) }));
+}
+
+export const EscalationLadderDialog: React.FC<EscalationLadderDialogProps> = ({
+  open,
+  onOpenChange,
+  steps,
+  patientName,
+  onSubmit,
+  isSaving,
+}) => {
+  const [formSteps, setFormSteps] = useState<StepFormState[]>(() => toFormState(steps));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormSteps(toFormState(steps));
+      setFormError(null);
+    }
+  }, [open, steps]);
+
+  const updateStep = (index: number, changes: Partial<StepFormState>) => {
+    setFormSteps(formSteps.map((step, i) => (i === index ? { ...step, ...changes } : step)));
+  };
+
+  const toggleChannel = (index: number, channel: EscalationChannel, checked: boolean) => {
+    const current = formSteps[index].channels;
+    updateStep(index, {
+      channels: checked ? [...current, channel] : current.filter((c) => c !== channel),
+    });
+  };
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const next = [...formSteps];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    setFormSteps(next);
+  };
+
+  const addStep = () => {
+    setFormSteps([...formSteps, { target: 'family_member', wait_minutes: '10', channels: ['email', 'whatsapp'] }]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The first step always goes out as soon as the alert is raised
+    const validation = escalationLadderSchema.safeParse(
+      formSteps.map((step, index) => ({ ...step, wait_minutes: index === 0 ? 0 : step.wait_minutes }))
+    );
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    await onSubmit(validation.data as EscalationStepInput[]);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Escalation Ladder</DialogTitle>
+          <DialogDescription>
+            When an alert about {patientName} is raised, Parra contacts each step in turn until someone
+            acknowledges it. Only people allowed to receive alerts are contacted.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {formSteps.map((step, index) => (
+            <div key={index} className="rounded-lg border p-4 space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">Step {index + 1}</p>
+                <div className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveStep(index, -1)}
+                    disabled={isSaving || index === 0}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                    <span className="sr-only">Move up</span>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => moveStep(index, 1)}
+                    disabled={isSaving || index === formSteps.length - 1}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                    <span className="sr-only">Move down</span>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setFormSteps(formSteps.filter((_, i) => i !== index))}
+                    disabled={isSaving || formSteps.length === 1}
+                  >
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                    <span className="sr-only">Remove step</span>
+                  </Button>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor={`escalation_target_${index}`}>Contact</Label>
+                  <Select
+                    value={step.target}
+                    onValueChange={(value) => {
+                      const target = value as EscalationTarget;
+                      updateStep(index, {
+                        target,
+                        // Only a phone number is known for the emergency contact
+                        channels:
+                          target === 'emergency_contact' ? step.channels.filter((c) => c !== 'email') : step.channels,
+                      });
+                    }}
+                    disabled={isSaving}
+                  >
+                    <SelectTrigger id={`escalation_target_${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(ESCALATION_TARGET_LABELS) as EscalationTarget[]).map((target) => (
+                        <SelectItem key={target} value={target}>
+                          {ESCALATION_TARGET_LABELS[target]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`escalation_wait_${index}`}>Wait after previous step (minutes)</Label>
+                  <Input
+                    id={`escalation_wait_${index}`}
+                    type="number"
+                    min={index === 0 ? 0 : 1}
+                    max={ESCALATION_WAIT_MAX}
+                    value={index === 0 ? '0' : step.wait_minutes}
+                    onChange={(e) => updateStep(index, { wait_minutes: e.target.value })}
+                    disabled={isSaving || index === 0}
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(ESCALATION_CHANNEL_LABELS) as EscalationChannel[]).map((channel) => {
+                  const id = `escalation_${index}_${channel}`;
+                  const unavailable = channel === 'email' && step.target === 'emergency_contact';
+                  return (
+                    <div key={channel} className="flex items-center gap-2">
+                      <Checkbox
+                        id={id}
+                        checked={step.channels.includes(channel)}
+                        onCheckedChange={(checked) => toggleChannel(index, channel, checked === true)}
+                        disabled={isSaving || unavailable}
+                      />
+                      <Label htmlFor={id} className="font-normal">
+                        {ESCALATION_CHANNEL_LABELS[channel]}
+                      </Label>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+
+          {formSteps.length < MAX_ESCALATION_STEPS && (
+            <Button type="button" variant="outline" size="sm" onClick={addStep} disabled={isSaving}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Step
+            </Button>
+          )}
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save Ladder'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EscalationLadderDialog;
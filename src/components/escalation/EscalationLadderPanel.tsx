@@ -0,0 +1,118 @@
+/**
+ * Escalation Ladder Panel
+ *
+ * Caregiver dashboard section showing who Parra contacts about an alert,
+ * in what order and how, until someone acknowledges it. Caregivers with
+ * permission to modify settings can edit the ladder or go back to the
+ * default one; others see it read-only.
+ */
+
+import { useState } from "react";
+import { useEscalationLadder, useSaveEscalationLadder } from "@/hooks/useEscalationLadder";
+import { EscalationLadderDialog } from "@/components/escalation/EscalationLadderDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Edit, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ESCALATION_TARGET_LABELS,
+  formatEscalationChannels,
+  formatEscalationWait,
+  type EscalationStepInput,
+} from "@/lib/escalation";
+
+interface EscalationLadderPanelProps {
+  patientId: string;
+  patientName: string;
+  /** From the care relationship's can_modify_settings flag */
+  canEdit: boolean;
+}
+
+const EscalationLadderPanel = ({ patientId, patientName, canEdit }: EscalationLadderPanelProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const { data: ladder, isLoading } = useEscalationLadder(patientId);
+  const saveLadder = useSaveEscalationLadder(patientId);
+
+  const handleSave = async (steps: EscalationStepInput[]) => {
+    try {
+      await saveLadder.mutateAsync(steps);
+      toast.success("Escalation ladder saved");
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving escalation ladder:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save escalation ladder");
+    }
+  };
+
+  const handleRestoreDefault = async () => {
+    try {
+      await saveLadder.mutateAsync([]);
+      toast.success("Default escalation ladder restored");
+    } catch (error) {
+      console.error("Error restoring escalation ladder:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to restore the default ladder");
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Alert Escalation</h2>
+        {canEdit && ladder && (
+          <div className="flex items-center gap-2">
+            {!ladder.isDefault && (
+              <Button variant="ghost" size="sm" onClick={handleRestoreDefault} disabled={saveLadder.isPending}>
+                Use Default
+              </Button>
+            )}
+            <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+              <Edit className="w-4 h-4 mr-2" />
+              Edit Ladder
+            </Button>
+          </div>
+        )}
+      </div>
+      <p className="text-muted-foreground mb-4">
+        When something is wrong with {patientName}, Parra contacts these people in order until someone
+        acknowledges the alert. Steps with nobody to reach are skipped.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : ladder ? (
+        <div className="space-y-3">
+          {ladder.isDefault && <Badge variant="outline">Default ladder</Badge>}
+          {ladder.steps.map((step, index) => (
+            <Card key={index} className="p-4 flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <p className="font-medium text-foreground">
+                  {index + 1}. {ESCALATION_TARGET_LABELS[step.target]}
+                </p>
+                <p className="text-sm text-muted-foreground">by {formatEscalationChannels(step.channels)}</p>
+              </div>
+              <span className="text-sm text-muted-foreground">
+                {index === 0 ? "Immediately" : `${formatEscalationWait(step.wait_minutes)} without a reply`}
+              </span>
+            </Card>
+          ))}
+        </div>
+      ) : null}
+
+      {ladder && (
+        <EscalationLadderDialog
+          open={dialogOpen}
+          onOpenChange={setDialogOpen}
+          steps={ladder.steps}
+          patientName={patientName}
+          onSubmit={handleSave}
+          isSaving={saveLadder.isPending}
+        />
+      )}
+    </div>
+  );
+};
+
+export default EscalationLadderPanel;
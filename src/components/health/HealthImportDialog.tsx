@@ -0,0 +1,207 @@
+/**
+ * Health Import Dialog Component
+ *
+ * Backfills health history from Samsung Health CSV exports or Google Takeout
+ * Fit JSON files. Selected files are parsed in the browser (daily step totals
+ * by the patient's timezone), previewed with a dry run (new / already
+ * imported / invalid), then imported on confirmation.
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { useImportHealthRecords, usePreviewHealthImport } from "@/hooks/useHealthImport";
+import { HEALTH_CHARTS } from "@/lib/health-metrics";
+import {
+  parseHealthExport,
+  summarizeImport,
+  type ParsedHealthExport,
+} from "@/lib/health-import";
+
+interface HealthImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  patientName: string;
+  /** The patient's profile timezone */
+  timeZone: string | null | undefined;
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" });
+
+const metricLabel = (type: string) =>
+  HEALTH_CHARTS.find((chart) => chart.type === type)?.label ||
+  type.replace(/_/g, " ").replace(/^\w/, (c) => c.toUpperCase());
+
+const HealthImportDialog = ({ open, onOpenChange, patientId, patientName, timeZone }: HealthImportDialogProps) => {
+  const [parsed, setParsed] = useState<ParsedHealthExport[]>([]);
+  const [fileErrors, setFileErrors] = useState<string[]>([]);
+  const [isReading, setIsReading] = useState(false);
+  const previewImport = usePreviewHealthImport();
+  const importRecords = useImportHealthRecords();
+
+  const records = parsed.flatMap((file) => file.records);
+  const summary = summarizeImport(records);
+  const preview = previewImport.data;
+
+  const reset = () => {
+    setParsed([]);
+    setFileErrors([]);
+    previewImport.reset();
+    importRecords.reset();
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFiles = async (fileList: FileList | null) => {
+    reset();
+    if (!fileList || fileList.length === 0) return;
+
+    setIsReading(true);
+    const results: ParsedHealthExport[] = [];
+    const errors: string[] = [];
+
+    for (const file of Array.from(fileList)) {
+      try {
+        results.push(parseHealthExport(file.name, await file.text(), timeZone));
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Could not read ${file.name}`);
+      }
+    }
+
+    setParsed(results);
+    setFileErrors(errors);
+    setIsReading(false);
+
+    const parsedRecords = results.flatMap((file) => file.records);
+    if (parsedRecords.length > 0) {
+      previewImport.mutate({ patientId, records: parsedRecords });
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      const result = await importRecords.mutateAsync({ patientId, records });
+      toast.success(
+        `Imported ${result.accepted.toLocaleString()} records` +
+          (result.duplicates > 0 ? ` (${result.duplicates.toLocaleString()} already imported)` : "")
+      );
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Import failed");
+    }
+  };
+
+  const isBusy = isReading || previewImport.isPending || importRecords.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import Health Data</DialogTitle>
+          <DialogDescription>
+            Add past readings for {patientName} from a Samsung Health export (unzip it and choose the CSV
+            files) or Google Takeout Fit JSON files. Records that were already imported are skipped.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="health_import_files">Export files</Label>
+            <Input
+              id="health_import_files"
+              type="file"
+              accept=".csv,.json"
+              multiple
+              onChange={(e) => handleFiles(e.target.files)}
+              disabled={isBusy}
+            />
+          </div>
+
+          {fileErrors.length > 0 && (
+            <div className="space-y-1">
+              {fileErrors.map((error) => (
+                <p key={error} className="text-sm text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+
+          {parsed.length > 0 && records.length === 0 && (
+            <p className="text-sm text-muted-foreground">No readings were found in the selected files.</p>
+          )}
+
+          {summary.length > 0 && (
+            <Card className="p-4 space-y-2">
+              {summary.map((row) => (
+                <div key={row.metricType} className="flex justify-between gap-4 text-sm">
+                  <span className="font-medium text-foreground">{metricLabel(row.metricType)}</span>
+                  <span className="text-muted-foreground">
+                    {row.count.toLocaleString()} · {formatDate(row.from)} – {formatDate(row.to)}
+                  </span>
+                </div>
+              ))}
+            </Card>
+          )}
+
+          {previewImport.isPending && (
+            <p className="text-sm text-muted-foreground flex items-center gap-2">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Checking for records already imported...
+            </p>
+          )}
+
+          {previewImport.isError && (
+            <p className="text-sm text-destructive">
+              Could not check the import: {previewImport.error.message}
+            </p>
+          )}
+
+          {preview && (
+            <div className="space-y-1 text-sm">
+              <p className="text-foreground">
+                <span className="font-medium">{preview.accepted.toLocaleString()} new</span>
+                {" · "}
+                {preview.duplicates.toLocaleString()} already imported
+                {" · "}
+                {preview.rejected.toLocaleString()} invalid
+              </p>
+              {preview.errors.map((error) => (
+                <p key={error} className="text-muted-foreground">{error}</p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)} disabled={importRecords.isPending}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isBusy || !preview || preview.accepted === 0}>
+            {importRecords.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {preview && preview.accepted > 0
+              ? `Import ${preview.accepted.toLocaleString()} records`
+              : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HealthImportDialog;
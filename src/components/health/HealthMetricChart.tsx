@@ -0,0 +1,128 @@
+/**
+ * Health Metric Chart Component
+ *
+ * Charts one health metric's daily values. Days with readings flagged as
+ * anomalies are drawn in the destructive color.
+ */
+
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Card } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { HealthChartConfig, HealthChartPoint } from "@/lib/health-metrics";
+
+interface HealthMetricChartProps {
+  config: HealthChartConfig;
+  points: HealthChartPoint[];
+}
+
+const ANOMALY_COLOR = "hsl(var(--destructive))";
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+
+interface DotProps {
+  cx?: number;
+  cy?: number;
+  payload?: HealthChartPoint;
+}
+
+const AnomalyDot = ({ cx, cy, payload }: DotProps) => {
+  if (cx === undefined || cy === undefined || !payload) return null;
+  const isAnomaly = payload.anomalies > 0;
+
+  return (
+    <circle
+      cx={cx}
+      cy={cy}
+      r={isAnomaly ? 5 : 3}
+      fill={isAnomaly ? ANOMALY_COLOR : "var(--color-value)"}
+      stroke="none"
+    />
+  );
+};
+
+const HealthMetricChart = ({ config, points }: HealthMetricChartProps) => {
+  const chartConfig: ChartConfig = {
+    value: {
+      label: config.type === "blood_pressure" ? "Systolic" : config.label,
+      color: "hsl(var(--primary))",
+    },
+    diastolic: {
+      label: "Diastolic",
+      color: "hsl(var(--secondary))",
+    },
+  };
+
+  const latest = [...points].reverse().find((point) => point.value !== null);
+  const latestLabel = latest
+    ? config.type === "blood_pressure" && latest.diastolic !== null
+      ? `${latest.value}/${latest.diastolic} ${config.unit}`
+      : `${latest.value?.toLocaleString()} ${config.unit}`
+    : "No data";
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-baseline justify-between mb-2">
+        <h3 className="text-lg font-heading font-bold text-secondary">{config.label}</h3>
+        <p className="text-sm text-muted-foreground">{latestLabel}</p>
+      </div>
+
+      {points.length === 0 ? (
+        <p className="text-sm text-muted-foreground italic py-12 text-center">
+          No {config.label.toLowerCase()} data in this range
+        </p>
+      ) : (
+        <ChartContainer config={chartConfig} className="aspect-auto h-48 w-full">
+          {config.chart === "bar" ? (
+            <BarChart data={points} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis width={44} tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <Bar dataKey="value" radius={4}>
+                {points.map((point) => (
+                  <Cell
+                    key={point.date}
+                    fill={point.anomalies > 0 ? ANOMALY_COLOR : "var(--color-value)"}
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          ) : (
+            <LineChart data={points} margin={{ left: 0, right: 8 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickFormatter={formatDay} tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis width={44} tickLine={false} axisLine={false} domain={["auto", "auto"]} />
+              <ChartTooltip content={<ChartTooltipContent labelFormatter={formatDay} />} />
+              <Line
+                dataKey="value"
+                type="monotone"
+                stroke="var(--color-value)"
+                strokeWidth={2}
+                dot={<AnomalyDot />}
+                connectNulls
+              />
+              {config.type === "blood_pressure" && (
+                <Line
+                  dataKey="diastolic"
+                  type="monotone"
+                  stroke="var(--color-diastolic)"
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              )}
+            </LineChart>
+          )}
+        </ChartContainer>
+      )}
+    </Card>
+  );
+};
+
+export default HealthMetricChart;
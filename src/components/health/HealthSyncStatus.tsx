@@ -0,0 +1,68 @@
+/**
+ * Health Sync Status Component
+ *
+ * Shows when each of a patient's devices last synced Health Connect data,
+ * so caregivers know whether the charts are up to date. Export file imports
+ * are listed as imports rather than as devices that have stopped syncing.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { formatAdminDate } from "@/lib/admin/utils";
+import { getSyncFreshness, type SyncFreshness } from "@/lib/health-metrics";
+import { IMPORT_DEVICE_IDS } from "@/lib/health-import";
+import type { HealthSyncStatus as HealthSyncStatusRow } from "@/hooks/useHealthMetrics";
+
+interface HealthSyncStatusProps {
+  statuses: HealthSyncStatusRow[];
+}
+
+const FRESHNESS_BADGES: Record<SyncFreshness, { label: string; variant: "default" | "secondary" | "destructive" }> = {
+  fresh: { label: "Up to date", variant: "default" },
+  stale: { label: "Out of date", variant: "destructive" },
+  never: { label: "Never synced", variant: "secondary" },
+};
+
+const IMPORTED_BADGE = { label: "Imported", variant: "secondary" as const };
+
+const HealthSyncStatus = ({ statuses }: HealthSyncStatusProps) => {
+  if (statuses.length === 0) {
+    return (
+      <Card className="p-4">
+        <p className="text-sm text-muted-foreground">
+          No phone is syncing health data yet. Health Connect sync is set up from the Parra app.
+        </p>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {statuses.map((status) => {
+        const isImport = Object.values(IMPORT_DEVICE_IDS).includes(status.device_id);
+        const badge = isImport ? IMPORTED_BADGE : FRESHNESS_BADGES[getSyncFreshness(status)];
+
+        return (
+          <Card key={status.id} className="p-4 flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <p className="font-medium text-foreground">{status.device_name || status.device_id}</p>
+              <p className="text-sm text-muted-foreground">
+                {isImport ? "Last imported" : "Last synced"}: {formatAdminDate(status.last_successful_sync_at)}
+                {!status.sync_enabled && " · Sync turned off"}
+              </p>
+              {status.last_sync_status === "failed" && status.last_sync_error && (
+                <p className="text-sm text-destructive">Last attempt failed: {status.last_sync_error}</p>
+              )}
+              {status.last_sync_status === "partial" && status.last_sync_error && (
+                <p className="text-sm text-muted-foreground">Last sync was incomplete: {status.last_sync_error}</p>
+              )}
+            </div>
+            <Badge variant={badge.variant}>{badge.label}</Badge>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default HealthSyncStatus;
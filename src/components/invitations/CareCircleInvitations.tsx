@@ -0,0 +1,146 @@
+/**
+ * Care Circle Invitations
+ *
+ * Section for the patient and their primary caregiver: invite someone to
+ * the care circle by email or WhatsApp and see the invitations sent so far.
+ * Pending invitations can be revoked, after which the link stops working.
+ */
+
+import { useState } from "react";
+import { useCareInvitations, useRevokeInvitation } from "@/hooks/useCareInvitations";
+import { InviteFamilyDialog } from "@/components/invitations/InviteFamilyDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Mail, MessageCircle, UserPlus, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  getInvitationContact,
+  getInvitationStatus,
+  INVITATION_STATUS_LABELS,
+  RELATIONSHIP_TYPE_LABELS,
+  type CareInvitation,
+  type InvitationStatus,
+} from "@/lib/invitations";
+
+interface CareCircleInvitationsProps {
+  patientId: string;
+  patientName: string;
+}
+
+const STATUS_VARIANTS: Record<InvitationStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  accepted: "default",
+  revoked: "outline",
+  expired: "outline",
+};
+
+const CareCircleInvitations = ({ patientId, patientName }: CareCircleInvitationsProps) => {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [invitationToRevoke, setInvitationToRevoke] = useState<CareInvitation | null>(null);
+
+  const { data: invitations, isLoading } = useCareInvitations(patientId);
+  const revokeInvitation = useRevokeInvitation(patientId);
+
+  const handleConfirmRevoke = async () => {
+    if (!invitationToRevoke) return;
+
+    try {
+      await revokeInvitation.mutateAsync(invitationToRevoke.id);
+      toast.success("Invitation revoked");
+    } catch (error) {
+      console.error("Error revoking invitation:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke invitation");
+    }
+    setInvitationToRevoke(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Care Circle Invitations</h2>
+        <Button variant="outline" size="sm" onClick={() => setDialogOpen(true)}>
+          <UserPlus className="w-4 h-4 mr-2" />
+          Invite
+        </Button>
+      </div>
+      <p className="text-muted-foreground mb-4">
+        Invite family and friends to help look after {patientName}. Links expire after 7 days.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : invitations && invitations.length > 0 ? (
+        <div className="space-y-3">
+          {invitations.map((invitation) => {
+            const status = getInvitationStatus(invitation);
+            const ChannelIcon = invitation.channel === "email" ? Mail : MessageCircle;
+
+            return (
+              <Card key={invitation.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <ChannelIcon className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">{getInvitationContact(invitation)}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {invitation.relationship_label || RELATIONSHIP_TYPE_LABELS[invitation.relationship_type]} ·
+                      sent {new Date(invitation.created_at).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[status]}>{INVITATION_STATUS_LABELS[status]}</Badge>
+                  {status === "pending" && (
+                    <Button variant="ghost" size="sm" onClick={() => setInvitationToRevoke(invitation)}>
+                      <X className="w-4 h-4 text-destructive" />
+                      <span className="sr-only">Revoke</span>
+                    </Button>
+                  )}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic py-4">No invitations sent yet.</p>
+      )}
+
+      <InviteFamilyDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        patientId={patientId}
+        patientName={patientName}
+      />
+
+      <AlertDialog open={!!invitationToRevoke} onOpenChange={(open) => !open && setInvitationToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke this invitation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The link sent to {invitationToRevoke ? getInvitationContact(invitationToRevoke) : ""} will stop
+              working. You can send a new invitation later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmRevoke}>Revoke</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default CareCircleInvitations;
@@ -0,0 +1,225 @@
+/**
+ * InviteFamilyDialog Component
+ *
+ * Invites someone to a patient's care circle by email or WhatsApp
+ * (send-care-invitation). The inviter chooses the relationship and the
+ * permissions the invitee gets when they accept; the link is valid for
+ * 7 days.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useSendInvitation } from '@/hooks/useCareInvitations';
+import { CARE_PERMISSIONS } from '@/lib/care-permissions';
+import {
+  invitationSchema,
+  RELATIONSHIP_TYPE_LABELS,
+  type InvitationInput,
+  type RelationshipType,
+} from '@/lib/invitations';
+
+interface InviteFamilyDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  patientId: string;
+  patientName: string;
+}
+
+const emptyForm = (patientId: string): InvitationInput => ({
+  patientId,
+  channel: 'email',
+  email: '',
+  phone: '',
+  relationshipType: 'family_member',
+  relationshipLabel: '',
+  canViewHealthData: true,
+  canReceiveAlerts: true,
+  canModifySettings: false,
+});
+
+export const InviteFamilyDialog: React.FC<InviteFamilyDialogProps> = ({
+  open,
+  onOpenChange,
+  patientId,
+  patientName,
+}) => {
+  const sendInvitation = useSendInvitation();
+  const [formData, setFormData] = useState<InvitationInput>(emptyForm(patientId));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(emptyForm(patientId));
+      setFormError(null);
+    }
+  }, [open, patientId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = invitationSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await sendInvitation.mutateAsync(validation.data);
+      const contact = validation.data.channel === 'email' ? validation.data.email : validation.data.phone;
+      toast.success(`Invitation sent to ${contact}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error sending invitation:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to send invitation');
+    }
+  };
+
+  const isSaving = sendInvitation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invite to Care Circle</DialogTitle>
+          <DialogDescription>
+            Send a link to join {patientName}'s care circle. It works for 7 days, and they can create a Parra
+            account when they accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="invite_channel">Send by</Label>
+            <Select
+              value={formData.channel}
+              onValueChange={(value) => setFormData({ ...formData, channel: value as InvitationInput['channel'] })}
+              disabled={isSaving}
+            >
+              <SelectTrigger id="invite_channel">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="email">Email</SelectItem>
+                <SelectItem value="whatsapp">WhatsApp</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {formData.channel === 'email' ? (
+            <div className="space-y-2">
+              <Label htmlFor="invite_email">Email address *</Label>
+              <Input
+                id="invite_email"
+                type="email"
+                placeholder="name@example.com"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="invite_phone">WhatsApp number *</Label>
+              <Input
+                id="invite_phone"
+                type="tel"
+                placeholder="+49 170 1234567"
+                value={formData.phone}
+                onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="invite_type">Role</Label>
+              <Select
+                value={formData.relationshipType}
+                onValueChange={(value) => setFormData({ ...formData, relationshipType: value as RelationshipType })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="invite_type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(RELATIONSHIP_TYPE_LABELS) as RelationshipType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {RELATIONSHIP_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="invite_label">Relationship</Label>
+              <Input
+                id="invite_label"
+                placeholder="e.g., Daughter"
+                value={formData.relationshipLabel}
+                onChange={(e) => setFormData({ ...formData, relationshipLabel: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Permissions</Label>
+            {CARE_PERMISSIONS.map((permission) => (
+              <div key={permission.key} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium">{permission.label}</p>
+                  <p className="text-xs text-muted-foreground">{permission.description}</p>
+                </div>
+                <Switch
+                  checked={formData[permission.key]}
+                  onCheckedChange={(checked) => setFormData({ ...formData, [permission.key]: checked })}
+                  disabled={isSaving}
+                  aria-label={permission.label}
+                />
+              </div>
+            ))}
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Sending...' : 'Send Invitation'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InviteFamilyDialog;
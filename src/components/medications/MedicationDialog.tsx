@@ -0,0 +1,230 @@
+/**
+ * MedicationDialog Component
+ *
+ * Form for adding or editing a medication schedule: name, dose, daily dose
+ * times (the senior's local time) and how long after each dose time it
+ * counts as missed. Saving is left to the caller.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Plus, X } from 'lucide-react';
+import {
+  GRACE_MINUTES_DEFAULT,
+  GRACE_MINUTES_MAX,
+  GRACE_MINUTES_MIN,
+  MAX_DOSE_TIMES,
+  medicationSchema,
+  type MedicationInput,
+} from '@/lib/medications';
+import type { Medication } from '@/hooks/useMedications';
+
+interface MedicationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Medication to edit; omit to add a new one */
+  medication?: Medication | null;
+  patientName: string;
+  onSubmit: (input: MedicationInput) => Promise<void>;
+  isSaving: boolean;
+}
+
+interface MedicationFormState {
+  name: string;
+  dose: string;
+  instructions: string;
+  dose_times: string[];
+  grace_minutes: string;
+}
+
+function initialFormState(medication: Medication | null | undefined): MedicationFormState {
+  return {
+    name: medication?.name || '',
+    dose: medication?.dose || '',
+    instructions: medication?.instructions || '',
+    dose_times: medication?.dose_times.map((time) => time.slice(0, 5)) || ['08:00'],
+    grace_minutes: String(medication?.grace_minutes ?? GRACE_MINUTES_DEFAULT),
+  };
+}
+
+export const MedicationDialog: React.FC<MedicationDialogProps> = ({
+  open,
+  onOpenChange,
+  medication,
+  patientName,
+  onSubmit,
+  isSaving,
+}) => {
+  const isEdit = !!medication;
+  const [formData, setFormData] = useState<MedicationFormState>(() => initialFormState(medication));
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData(initialFormState(medication));
+      setFormError(null);
+    }
+  }, [open, medication]);
+
+  const setDoseTime = (index: number, value: string) => {
+    setFormData({ ...formData, dose_times: formData.dose_times.map((time, i) => (i === index ? value : time)) });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = medicationSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    await onSubmit(validation.data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? 'Edit Medication' : 'Add Medication'}</DialogTitle>
+          <DialogDescription>
+            Dose times are in {patientName}'s time zone. You're alerted when a dose isn't confirmed within
+            the alert window.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="medication_name">
+                Name <span className="text-destructive">*</span>
+              </Label>
+              <Input
+                id="medication_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g., Lisinopril"
+                disabled={isSaving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="medication_dose">Dose</Label>
+              <Input
+                id="medication_dose"
+                value={formData.dose}
+                onChange={(e) => setFormData({ ...formData, dose: e.target.value })}
+                placeholder="e.g., 10 mg"
+                disabled={isSaving}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>
+              Dose times <span className="text-destructive">*</span>
+            </Label>
+            <div className="flex flex-wrap gap-2">
+              {formData.dose_times.map((time, index) => (
+                <div key={index} className="flex items-center gap-1">
+                  <Input
+                    type="time"
+                    value={time}
+                    onChange={(e) => setDoseTime(index, e.target.value)}
+                    className="w-32"
+                    aria-label={`Dose time ${index + 1}`}
+                    disabled={isSaving}
+                  />
+                  {formData.dose_times.length > 1 && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setFormData({ ...formData, dose_times: formData.dose_times.filter((_, i) => i !== index) })
+                      }
+                      disabled={isSaving}
+                    >
+                      <X className="w-4 h-4" />
+                      <span className="sr-only">Remove time</span>
+                    </Button>
+                  )}
+                </div>
+              ))}
+              {formData.dose_times.length < MAX_DOSE_TIMES && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setFormData({ ...formData, dose_times: [...formData.dose_times, ''] })}
+                  disabled={isSaving}
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Add time
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="grace_minutes">Alert after (minutes)</Label>
+            <Input
+              id="grace_minutes"
+              type="number"
+              min={GRACE_MINUTES_MIN}
+              max={GRACE_MINUTES_MAX}
+              value={formData.grace_minutes}
+              onChange={(e) => setFormData({ ...formData, grace_minutes: e.target.value })}
+              disabled={isSaving}
+            />
+            <p className="text-xs text-muted-foreground">
+              {GRACE_MINUTES_MIN}-{GRACE_MINUTES_MAX} minutes after a dose time without confirmation before it
+              counts as missed
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="medication_instructions">Instructions</Label>
+            <Textarea
+              id="medication_instructions"
+              value={formData.instructions}
+              onChange={(e) => setFormData({ ...formData, instructions: e.target.value })}
+              placeholder="e.g., Take with food"
+              rows={2}
+              disabled={isSaving}
+            />
+          </div>
+
+          {formError && (
+            <p className="text-sm text-destructive" role="alert">
+              {formError}
+            </p>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? 'Saving...' : isEdit ? 'Save Changes' : 'Add Medication'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MedicationDialog;
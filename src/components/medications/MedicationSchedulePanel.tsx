@@ -0,0 +1,231 @@
+/**
+ * Medication Schedule Panel
+ *
+ * Caregiver dashboard section listing a patient's medications with their
+ * dose times and how many doses were taken over the last 7 and 30 days.
+ * Caregivers with permission to modify settings can add, edit, pause and
+ * remove medications; others see a read-only list.
+ */
+
+import { useState } from "react";
+import {
+  useMedications,
+  useMedicationDoses,
+  useCreateMedication,
+  useUpdateMedication,
+  useDeleteMedication,
+  type Medication,
+} from "@/hooks/useMedications";
+import { useAuth } from "@/contexts/AuthContext";
+import { MedicationDialog } from "@/components/medications/MedicationDialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Edit, Loader2, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  calculateAdherence,
+  formatDoseTime,
+  getLocalDateString,
+  type Adherence,
+  type MedicationInput,
+} from "@/lib/medications";
+
+interface MedicationSchedulePanelProps {
+  patientId: string;
+  patientName: string;
+  /** From the care relationship's can_modify_settings flag */
+  canEdit: boolean;
+}
+
+function formatAdherence(adherence: Adherence): string {
+  if (adherence.percentage === null) return "No doses due yet";
+  return `${adherence.percentage}% (${adherence.taken} of ${adherence.taken + adherence.missed} doses)`;
+}
+
+const MedicationSchedulePanel = ({ patientId, patientName, canEdit }: MedicationSchedulePanelProps) => {
+  const { user } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingMedication, setEditingMedication] = useState<Medication | null>(null);
+  const [medicationToDelete, setMedicationToDelete] = useState<Medication | null>(null);
+
+  const weekStart = getLocalDateString(6);
+  const monthStart = getLocalDateString(29);
+
+  const { data: medications, isLoading } = useMedications(patientId);
+  const { data: doses } = useMedicationDoses(patientId, monthStart);
+  const createMedication = useCreateMedication();
+  const updateMedication = useUpdateMedication();
+  const deleteMedication = useDeleteMedication();
+
+  const monthDoses = doses || [];
+  const weekDoses = monthDoses.filter((d) => d.scheduled_date >= weekStart);
+
+  const openDialog = (medication: Medication | null) => {
+    setEditingMedication(medication);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async (input: MedicationInput) => {
+    try {
+      if (editingMedication) {
+        await updateMedication.mutateAsync({ id: editingMedication.id, ...input });
+        toast.success("Medication updated");
+      } else {
+        await createMedication.mutateAsync({ ...input, patientId, createdBy: user!.id });
+        toast.success("Medication added");
+      }
+      setDialogOpen(false);
+    } catch (error) {
+      console.error("Error saving medication:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save medication");
+    }
+  };
+
+  const handleToggleActive = async (medication: Medication, isActive: boolean) => {
+    try {
+      await updateMedication.mutateAsync({ id: medication.id, is_active: isActive });
+      toast.success(isActive ? `${medication.name} resumed` : `${medication.name} paused`);
+    } catch (error) {
+      console.error("Error updating medication:", error);
+      toast.error("Failed to update medication");
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!medicationToDelete) return;
+
+    try {
+      await deleteMedication.mutateAsync(medicationToDelete.id);
+      toast.success("Medication removed");
+    } catch (error) {
+      console.error("Error deleting medication:", error);
+      toast.error("Failed to remove medication");
+    }
+    setMedicationToDelete(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <h2 className="text-2xl font-heading font-bold text-secondary">Medications</h2>
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Medication
+          </Button>
+        )}
+      </div>
+      <p className="text-muted-foreground mb-4">
+        {patientName} confirms doses in Parra chat, on WhatsApp or in the app. You're alerted when a dose
+        isn't confirmed in time.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : medications && medications.length > 0 ? (
+        <div className="space-y-3">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <Card className="p-4">
+              <p className="text-sm text-muted-foreground">Taken, last 7 days</p>
+              <p className="text-lg font-medium text-foreground">{formatAdherence(calculateAdherence(weekDoses))}</p>
+            </Card>
+            <Card className="p-4">
+              <p className="text-sm text-muted-foreground">Taken, last 30 days</p>
+              <p className="text-lg font-medium text-foreground">{formatAdherence(calculateAdherence(monthDoses))}</p>
+            </Card>
+          </div>
+
+          {medications.map((medication) => {
+            const adherence = calculateAdherence(weekDoses.filter((d) => d.medication_id === medication.id));
+
+            return (
+              <Card key={medication.id} className="p-4 flex flex-wrap items-center justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <p className="font-medium text-foreground">
+                      {medication.name}
+                      {medication.dose && ` · ${medication.dose}`}
+                    </p>
+                    {!medication.is_active && <Badge variant="outline">Paused</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {medication.dose_times.map(formatDoseTime).join(", ")} · alert after {medication.grace_minutes} min
+                  </p>
+                  {medication.instructions && (
+                    <p className="text-sm text-muted-foreground">{medication.instructions}</p>
+                  )}
+                  {adherence.percentage !== null && (
+                    <p className="text-xs text-muted-foreground">{adherence.percentage}% taken this week</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={medication.is_active}
+                      onCheckedChange={(checked) => handleToggleActive(medication, checked)}
+                      disabled={updateMedication.isPending}
+                      aria-label={medication.is_active ? "Pause medication" : "Resume medication"}
+                    />
+                    <Button variant="ghost" size="sm" onClick={() => openDialog(medication)}>
+                      <Edit className="w-4 h-4" />
+                      <span className="sr-only">Edit</span>
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setMedicationToDelete(medication)}>
+                      <Trash2 className="w-4 h-4 text-destructive" />
+                      <span className="sr-only">Remove</span>
+                    </Button>
+                  </div>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic py-4">
+          No medications scheduled yet.
+        </p>
+      )}
+
+      <MedicationDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        medication={editingMedication}
+        patientName={patientName}
+        onSubmit={handleSave}
+        isSaving={createMedication.isPending || updateMedication.isPending}
+      />
+
+      <AlertDialog open={!!medicationToDelete} onOpenChange={(open) => !open && setMedicationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove this medication?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{medicationToDelete?.name}" and its dose history will be deleted. To stop reminders
+              temporarily, pause the medication instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default MedicationSchedulePanel;
@@ -0,0 +1,112 @@
+/**
+ * Today's Medications
+ *
+ * The senior's list of today's scheduled doses with a large "Mark taken"
+ * button for each one that is due. Doses confirmed in Parra chat or on
+ * WhatsApp show up here as taken.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Check, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useConfirmDose, useMedicationDoses, useMedications } from "@/hooks/useMedications";
+import {
+  DOSE_STATUS_LABELS,
+  formatDoseTime,
+  getLocalDateString,
+  getTodaysDoses,
+  type TodayDose,
+  type TodayDoseStatus,
+} from "@/lib/medications";
+
+interface TodaysMedicationsProps {
+  patientId: string;
+}
+
+const STATUS_VARIANTS: Record<TodayDoseStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  taken: "default",
+  skipped: "secondary",
+  missed: "destructive",
+  due: "secondary",
+  upcoming: "outline",
+};
+
+const TodaysMedications = ({ patientId }: TodaysMedicationsProps) => {
+  const today = getLocalDateString();
+  const { data: medications, isLoading } = useMedications(patientId);
+  const { data: doses } = useMedicationDoses(patientId, today);
+  const confirmDose = useConfirmDose();
+
+  const activeMedications = (medications || []).filter((m) => m.is_active);
+  const todaysDoses = getTodaysDoses(activeMedications, doses || [], today);
+
+  const handleMarkTaken = async (dose: TodayDose) => {
+    try {
+      await confirmDose.mutateAsync({
+        patientId,
+        medicationId: dose.medication.id,
+        scheduledDate: today,
+        scheduledTime: dose.time,
+        confirmedBy: patientId,
+        confirmedVia: "app",
+      });
+      toast.success(`${dose.medication.name} marked as taken`);
+    } catch (error) {
+      console.error("Error confirming dose:", error);
+      toast.error("Failed to save. Please try again.");
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-heading font-bold text-secondary mb-4">Today's Medications</h2>
+
+      {isLoading ? (
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      ) : todaysDoses.length > 0 ? (
+        <div className="space-y-3">
+          {todaysDoses.map((dose) => (
+            <Card
+              key={`${dose.medication.id}-${dose.time}`}
+              className="p-4 flex flex-wrap items-center justify-between gap-4"
+            >
+              <div>
+                <p className="text-lg font-medium text-foreground">
+                  {dose.medication.name}
+                  {dose.medication.dose && ` · ${dose.medication.dose}`}
+                </p>
+                <p className="text-muted-foreground">
+                  {formatDoseTime(dose.time)}
+                  {dose.medication.instructions && ` · ${dose.medication.instructions}`}
+                </p>
+              </div>
+              {dose.status === "taken" || dose.status === "skipped" || dose.status === "upcoming" ? (
+                <Badge variant={STATUS_VARIANTS[dose.status]} className="text-sm">
+                  {DOSE_STATUS_LABELS[dose.status]}
+                </Badge>
+              ) : (
+                <Button
+                  size="lg"
+                  onClick={() => handleMarkTaken(dose)}
+                  disabled={confirmDose.isPending}
+                  className="text-lg"
+                >
+                  <Check className="w-5 h-5 mr-2" />
+                  Mark taken
+                </Button>
+              )}
+            </Card>
+          ))}
+        </div>
+      ) : (
+        <div className="p-6 text-center border-2 border-dashed border-secondary/30 rounded-lg">
+          <p className="text-muted-foreground">No medications scheduled for today.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TodaysMedications;
@@ -0,0 +1,156 @@
+/**
+ * AddFamilyMemberDialog Component
+ *
+ * Adds someone with a Parra account to a patient's care circle as a pending
+ * care relationship (add_care_circle_member). Only patients whose care
+ * relationship has can_modify_settings are offered.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { toast } from 'sonner';
+import { useAddFamilyMember, type OverviewPatient } from '@/hooks/useCareOverview';
+import { familyMemberSchema } from '@/lib/care-overview';
+
+interface AddFamilyMemberDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Patients the caregiver can modify settings for */
+  patients: OverviewPatient[];
+}
+
+export const AddFamilyMemberDialog: React.FC<AddFamilyMemberDialogProps> = ({ open, onOpenChange, patients }) => {
+  const addFamilyMember = useAddFamilyMember();
+  const [formData, setFormData] = useState({ patientId: '', email: '', relationshipLabel: '' });
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setFormData({ patientId: patients.length === 1 ? patients[0].patientId : '', email: '', relationshipLabel: '' });
+      setFormError(null);
+    }
+  }, [open, patients]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validation = familyMemberSchema.safeParse(formData);
+    if (!validation.success) {
+      setFormError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setFormError(null);
+    try {
+      await addFamilyMember.mutateAsync(validation.data);
+      const patientName = patients.find((p) => p.patientId === validation.data.patientId)?.name;
+      toast.success(`Added to ${patientName}'s care circle. They'll get access once they accept.`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error adding family member:', error);
+      setFormError(error instanceof Error ? error.message : 'Failed to add family member');
+    }
+  };
+
+  const isSaving = addFamilyMember.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Family Member</DialogTitle>
+          <DialogDescription>
+            Add someone with a Parra account to a care circle. They'll see updates and receive alerts once they
+            accept.
+          </DialogDescription>
+        </DialogHeader>
+
+        {patients.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            You need permission to change settings for a patient before you can add to their care circle.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="member_patient">Care circle</Label>
+              <Select
+                value={formData.patientId}
+                onValueChange={(value) => setFormData({ ...formData, patientId: value })}
+                disabled={isSaving}
+              >
+                <SelectTrigger id="member_patient">
+                  <SelectValue placeholder="Choose a person" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.patientId} value={patient.patientId}>
+                      {patient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="member_email">Email address *</Label>
+              <Input
+                id="member_email"
+                type="email"
+                placeholder="Email they use for Parra"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="member_relationship">Relationship</Label>
+              <Input
+                id="member_relationship"
+                placeholder="e.g., Daughter, Son, Sibling"
+                value={formData.relationshipLabel}
+                onChange={(e) => setFormData({ ...formData, relationshipLabel: e.target.value })}
+                disabled={isSaving}
+              />
+            </div>
+
+            {formError && (
+              <p className="text-sm text-destructive" role="alert">
+                {formError}
+              </p>
+            )}
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Adding...' : 'Add Member'}
+              </Button>
+            </DialogFooter>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AddFamilyMemberDialog;
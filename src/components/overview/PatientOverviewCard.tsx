@@ -0,0 +1,176 @@
+/**
+ * Patient Overview Card
+ *
+ * One patient on the caregiver overview: today's status and mood from
+ * daily_summaries, last check-in, open alerts, and medication, activity and
+ * sleep for the day. Links to the full caregiver dashboard for the patient.
+ */
+
+import { Link } from "react-router-dom";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { AlertCircle, AlertTriangle, Bell, CheckCircle2 } from "lucide-react";
+import type { OverviewPatient } from "@/hooks/useCareOverview";
+import { getLocalDateString } from "@/lib/medications";
+import {
+  OVERVIEW_STATUS_LABELS,
+  TREND_DAYS,
+  countActiveDays,
+  formatLastCheckIn,
+  type OverviewStatus,
+} from "@/lib/care-overview";
+
+interface PatientOverviewCardProps {
+  patient: OverviewPatient;
+}
+
+const STATUS_COLORS: Record<OverviewStatus, string> = {
+  ok: "#C9EBC0",
+  warning: "#FFEBA1",
+  alert: "#FF8882",
+};
+
+const MOOD_EMOJIS: Record<string, string> = {
+  happy: "🙂",
+  neutral: "😐",
+  sad: "😢",
+  concerned: "🙁",
+};
+
+const StatusIcon = ({ status }: { status: OverviewStatus }) => {
+  switch (status) {
+    case "alert":
+      return <AlertCircle className="h-5 w-5" />;
+    case "warning":
+      return <AlertTriangle className="h-5 w-5" />;
+    default:
+      return <CheckCircle2 className="h-5 w-5" />;
+  }
+};
+
+function initials(name: string): string {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+const Metric = ({ label, value, ok }: { label: string; value: string; ok: boolean | null }) => (
+  <div
+    className="text-center p-2 rounded"
+    style={{ backgroundColor: ok === null ? "#f3f3f3" : ok ? "#C9EBC0" : "#FFEBA1" }}
+  >
+    <div className="text-xs mb-1" style={{ color: "#2F4733" }}>
+      {label}
+    </div>
+    <div className="text-sm font-medium" style={{ color: "#2F4733" }}>
+      {value}
+    </div>
+  </div>
+);
+
+const PatientOverviewCard = ({ patient }: PatientOverviewCardProps) => {
+  const today = patient.summaries.find((summary) => summary.summary_date === getLocalDateString());
+  const status: OverviewStatus = today?.overall_status || "ok";
+  const activeDays = countActiveDays(patient.summaries);
+  const medicationTaken = today?.medication_taken ?? null;
+  const sleep = today?.sleep_quality && today.sleep_quality !== "not_reported" ? today.sleep_quality : null;
+  const nameId = `patient-name-${patient.patientId}`;
+
+  return (
+    <Card className="p-6 flex flex-col" style={{ backgroundColor: "white" }} role="article" aria-labelledby={nameId}>
+      <div className="flex items-start justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <Avatar className="h-12 w-12" style={{ backgroundColor: STATUS_COLORS[status] }}>
+            <AvatarFallback style={{ color: "#2F4733", backgroundColor: STATUS_COLORS[status] }} aria-hidden="true">
+              {initials(patient.name)}
+            </AvatarFallback>
+          </Avatar>
+          <h3 id={nameId} className="font-heading font-bold text-lg" style={{ color: "#2F4733" }}>
+            {patient.name}
+          </h3>
+        </div>
+        <div
+          className="flex items-center gap-1 px-3 py-1 rounded-full text-sm"
+          style={{ backgroundColor: STATUS_COLORS[status], color: "#2F4733" }}
+          role="status"
+          aria-label={`Status: ${OVERVIEW_STATUS_LABELS[status]}`}
+        >
+          <StatusIcon status={status} />
+          <span>{OVERVIEW_STATUS_LABELS[status]}</span>
+        </div>
+      </div>
+
+      {!patient.canViewHealthData ? (
+        <p className="text-sm italic mb-4" style={{ color: "rgba(47, 71, 51, 0.7)" }}>
+          {patient.name} hasn't shared check-ins and health data with you.
+        </p>
+      ) : (
+        <div className="space-y-2 mb-4">
+          {today?.status_reason && status !== "ok" && (
+            <p className="text-sm" style={{ color: "#2F4733" }}>
+              {today.status_reason}
+            </p>
+          )}
+          <div className="flex justify-between items-center">
+            <span className="text-sm" style={{ color: "rgba(47, 71, 51, 0.7)" }}>
+              Last check-in:
+            </span>
+            <span className="text-sm font-medium" style={{ color: "#2F4733" }}>
+              {formatLastCheckIn(patient.lastCheckInAt)}
+            </span>
+          </div>
+          <div className="flex justify-between items-center">
+            <span className="text-sm" style={{ color: "rgba(47, 71, 51, 0.7)" }}>
+              Mood today:
+            </span>
+            <span className={today?.overall_mood ? "text-2xl" : "text-sm"} style={{ color: "#2F4733" }}>
+              {today?.overall_mood ? (
+                <span role="img" aria-label={today.overall_mood}>
+                  {MOOD_EMOJIS[today.overall_mood] || "😐"}
+                </span>
+              ) : (
+                "Not known yet"
+              )}
+            </span>
+          </div>
+          <div className="grid grid-cols-3 gap-2 pt-2">
+            <Metric
+              label="Medication"
+              value={medicationTaken === null ? "—" : medicationTaken ? "Taken" : "Missed"}
+              ok={medicationTaken}
+            />
+            <Metric label="Active days" value={`${activeDays} of ${TREND_DAYS}`} ok={activeDays > 0} />
+            <Metric
+              label="Sleep"
+              value={sleep ? sleep[0].toUpperCase() + sleep.slice(1) : "—"}
+              ok={sleep ? sleep !== "poor" : null}
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="mt-auto flex items-center justify-between gap-2">
+        {patient.activeAlerts > 0 ? (
+          <Badge style={{ backgroundColor: "#FF8882", color: "#2F4733" }}>
+            <Bell className="h-3 w-3 mr-1" />
+            {patient.activeAlerts} open alert{patient.activeAlerts === 1 ? "" : "s"}
+          </Badge>
+        ) : (
+          <span className="text-sm" style={{ color: "rgba(47, 71, 51, 0.6)" }}>
+            No open alerts
+          </span>
+        )}
+        <Button variant="outline" size="sm" asChild>
+          <Link to={`/dashboard?patient=${patient.patientId}`}>Open dashboard</Link>
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default PatientOverviewCard;
@@ -0,0 +1,115 @@
+/**
+ * Care Permissions Panel
+ *
+ * Permission editor for the patient and their primary caregiver: everyone
+ * in the care circle with switches for viewing health data, receiving
+ * alerts and changing settings. Each switch saves immediately. Primary
+ * caregivers can't change their own permissions.
+ */
+
+import { useCareCircleMembers, useUpdateCarePermissions, type CareCircleMember } from "@/hooks/useCarePermissions";
+import { useAuth } from "@/contexts/AuthContext";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CARE_PERMISSIONS,
+  describePermissionChange,
+  getCarePermissions,
+  type CarePermissionKey,
+} from "@/lib/care-permissions";
+import { RELATIONSHIP_TYPE_LABELS, type RelationshipType } from "@/lib/invitations";
+
+interface CarePermissionsPanelProps {
+  patientId: string;
+  patientName: string;
+}
+
+const CarePermissionsPanel = ({ patientId, patientName }: CarePermissionsPanelProps) => {
+  const { user } = useAuth();
+  const { data: members, isLoading } = useCareCircleMembers(patientId);
+  const updatePermissions = useUpdateCarePermissions(patientId);
+
+  const handleToggle = async (member: CareCircleMember, key: CarePermissionKey, value: boolean) => {
+    const before = getCarePermissions(member);
+    const after = { ...before, [key]: value };
+    const memberName = member.caregiver_name || member.caregiver_email || "this member";
+
+    try {
+      await updatePermissions.mutateAsync({ relationshipId: member.relationship_id, permissions: after });
+      toast.success(`${describePermissionChange(before, after)} for ${memberName}`);
+    } catch (error) {
+      console.error("Error updating permissions:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update permissions");
+    }
+  };
+
+  return (
+    <div>
+      <h2 className="text-2xl font-heading font-bold text-secondary mb-2">Care Circle Permissions</h2>
+      <p className="text-muted-foreground mb-4">
+        Choose what each person helping {patientName} can see and do. Changes take effect immediately.
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : members && members.length > 0 ? (
+        <div className="space-y-3">
+          {members.map((member) => {
+            const permissions = getCarePermissions(member);
+            const isSelf = member.caregiver_id === user?.id;
+
+            return (
+              <Card key={member.relationship_id} className="p-4 space-y-3">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-foreground truncate">
+                      {member.caregiver_name || member.caregiver_email}
+                      {isSelf && " (you)"}
+                    </p>
+                    <p className="text-sm text-muted-foreground">
+                      {member.relationship_label ||
+                        RELATIONSHIP_TYPE_LABELS[member.relationship_type as RelationshipType] ||
+                        member.relationship_type}
+                    </p>
+                  </div>
+                  {member.status === "pending" && <Badge variant="outline">Not accepted yet</Badge>}
+                </div>
+
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  {CARE_PERMISSIONS.map((permission) => (
+                    <div key={permission.key} className="flex items-center justify-between gap-3">
+                      <span className="text-sm">{permission.label}</span>
+                      <Switch
+                        checked={permissions[permission.key]}
+                        onCheckedChange={(checked) => handleToggle(member, permission.key, checked)}
+                        disabled={isSelf || updatePermissions.isPending}
+                        aria-label={`${permission.label} for ${member.caregiver_name || member.caregiver_email}`}
+                      />
+                    </div>
+                  ))}
+                </div>
+
+                {isSelf && (
+                  <p className="text-xs text-muted-foreground">
+                    Only {patientName} can change your own permissions.
+                  </p>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-muted-foreground italic py-4">
+          No one else is in {patientName}'s care circle yet. Send an invitation to add someone.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CarePermissionsPanel;
@@ -0,0 +1,87 @@
+/**
+ * Caregiver Reminders
+ *
+ * Lists a patient's upcoming and recent reminders with how each one is
+ * delivered (WhatsApp, email or Parra chat), whether it has been sent and
+ * whether the senior acknowledged it.
+ */
+
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+import { useCaregiverReminders } from "@/hooks/useCaregiverReminders";
+import { formatAdminDate } from "@/lib/admin/utils";
+import {
+  REMINDER_CHANNEL_LABELS,
+  REMINDER_STATUS_LABELS,
+  formatReminderSchedule,
+  getReminderStatus,
+  type ReminderStatus,
+} from "@/lib/reminders";
+
+interface CaregiverRemindersProps {
+  patientId: string;
+  patientName: string;
+}
+
+const STATUS_VARIANTS: Record<ReminderStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  scheduled: "outline",
+  retrying: "secondary",
+  sent: "secondary",
+  acknowledged: "default",
+  not_sent: "destructive",
+};
+
+const CaregiverReminders = ({ patientId, patientName }: CaregiverRemindersProps) => {
+  const { data: reminders, isLoading } = useCaregiverReminders(patientId);
+
+  if (isLoading) {
+    return <Loader2 className="w-6 h-6 animate-spin text-primary" />;
+  }
+
+  if (!reminders || reminders.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No reminders yet. Turn on "Send as a reminder" to have Parra pass a note on to {patientName}.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {reminders.map((reminder) => {
+        const status = getReminderStatus(reminder);
+
+        return (
+          <Card key={reminder.id} className="p-4 space-y-1">
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-foreground">
+                {reminder.created_by === "parra" ? `Parra follow-up: ${reminder.note_text}` : reminder.note_text}
+              </p>
+              <Badge variant={STATUS_VARIANTS[status]} className="shrink-0">
+                {REMINDER_STATUS_LABELS[status]}
+              </Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              {formatReminderSchedule(reminder.reminder_date, reminder.reminder_time)} ·{" "}
+              {REMINDER_CHANNEL_LABELS[reminder.reminder_channel]}
+            </p>
+            {status === "acknowledged" && reminder.reminder_acknowledged_at && (
+              <p className="text-sm text-muted-foreground">
+                Confirmed by {patientName} · {formatAdminDate(reminder.reminder_acknowledged_at)}
+              </p>
+            )}
+            {status === "sent" && reminder.reminder_channel !== "email" && (
+              <p className="text-sm text-muted-foreground">Waiting for {patientName} to confirm</p>
+            )}
+            {(status === "retrying" || status === "not_sent") && reminder.reminder_error && (
+              <p className="text-sm text-destructive">{reminder.reminder_error}</p>
+            )}
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default CaregiverReminders;
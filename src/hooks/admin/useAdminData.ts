@@ -7,7 +7,9 @@
 
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import { callSupabaseFunction } from '@/lib/supabase-functions';
 import { createUser, validateUserInput } from '@/lib/admin/createUser';
+import { parseStoredSystemSettings, DEFAULT_SYSTEM_SETTINGS } from '@/lib/admin/validation';
 import type {
   AdminUserProfile,
   AdminCareRelationship,
@@ -23,6 +25,9 @@ import type {
   AlertFilterOptions,
   RelationshipFilterOptions,
   ActivityLogFilterOptions,
+  StoredSystemSettings,
+  SystemSettings,
+  SystemSettingsVersion,
 } from '@/lib/admin/types';
 import type { Tables } from '@/integrations/supabase/types';
 
@@ -45,6 +50,8 @@ export const adminKeys = {
   activityLog: () => [...adminKeys.all, 'activityLog'] as const,
   activityLogList: (filters: ActivityLogFilterOptions) =>
     [...adminKeys.activityLog(), filters] as const,
+  settings: () => [...adminKeys.all, 'settings'] as const,
+  settingsHistory: () => [...adminKeys.settings(), 'history'] as const,
 };
 
 /**
@@ -528,7 +535,7 @@ export function useAdminAlerts(filters: AlertFilterOptions = {}) {
       const { data, error } = await query;
 
       if (error) throw error;
-      return data || [];
+      return (data || []) as AdminAlert[];
     },
   });
 }
@@ -613,3 +620,88 @@ export function useAdminActivityLog(filters: ActivityLogFilterOptions = {}) {
     },
   });
 }
+
+/**
+ * System Settings Hook
+ * The latest saved version, or the defaults before the first save
+ */
+export function useSystemSettings() {
+  return useQuery({
+    queryKey: adminKeys.settings(),
+    queryFn: async (): Promise<StoredSystemSettings> => {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('version, settings, created_at')
+        .order('version', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      const row = data as Pick<Tables<'system_settings'>, 'version' | 'settings' | 'created_at'> | null;
+      if (!row) {
+        return { version: 0, settings: { ...DEFAULT_SYSTEM_SETTINGS }, updatedAt: null };
+      }
+
+      return {
+        version: row.version,
+        settings: parseStoredSystemSettings(row.settings),
+        updatedAt: row.created_at,
+      };
+    },
+  });
+}
+
+/**
+ * System Settings History Hook
+ */
+export function useSystemSettingsHistory(limit = 10) {
+  return useQuery({
+    queryKey: [...adminKeys.settingsHistory(), limit],
+    queryFn: async (): Promise<SystemSettingsVersion[]> => {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select(
+          `
+          version, changed_keys, created_at,
+          updater:profiles!system_settings_updated_by_fkey(full_name, email)
+        `
+        )
+        .order('version', { ascending: false })
+        .limit(limit);
+
+      if (error) throw error;
+      return ((data || []) as unknown as Array<{
+        version: number;
+        changed_keys: string[];
+        created_at: string;
+        updater: { full_name: string | null; email: string } | null;
+      }>).map((row) => ({
+        version: row.version,
+        changedKeys: row.changed_keys as (keyof SystemSettings)[],
+        createdAt: row.created_at,
+        updatedBy: row.updater,
+      }));
+    },
+  });
+}
+
+/**
+ * Update System Settings Mutation
+ * Saved as a new version by the update-system-settings edge function;
+ * fails with status 409 if another admin saved since expectedVersion
+ */
+export function useUpdateSystemSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: { settings: SystemSettings; expectedVersion: number }) =>
+      callSupabaseFunction<typeof input, StoredSystemSettings & { changedKeys: (keyof SystemSettings)[] }>({
+        functionName: 'update-system-settings',
+        body: input,
+      }),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: adminKeys.settings() });
+      queryClient.invalidateQueries({ queryKey: adminKeys.activityLog() });
+    },
+  });
+}
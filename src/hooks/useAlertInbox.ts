@@ -0,0 +1,126 @@
+/**
+ * Alert Inbox Hooks
+ *
+ * TanStack Query hooks for answering alerts: the caregiver dashboard inbox
+ * (a patient's alerts from the last week), responding from the dashboard,
+ * and responding through a signed link from an alert email on the public
+ * /alert-response page. Every response goes through respond_to_alert(),
+ * which records who answered and stops the escalation ladder.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { callSupabaseFunction } from '@/lib/supabase-functions';
+import { careOverviewKeys } from '@/hooks/useCareOverview';
+import type { AlertResponseAction, AlertStatus, InboxAlert } from '@/lib/alert-responses';
+import { sortInboxAlerts } from '@/lib/alert-responses';
+
+/** How far back the inbox goes */
+const INBOX_DAYS = 7;
+
+export interface LinkResponseResult {
+  success: boolean;
+  alert: {
+    reference: string;
+    patientName: string;
+    message: string;
+    status: AlertStatus;
+    createdAt: string;
+    acknowledgedAt: string | null;
+    resolvedAt: string | null;
+  };
+}
+
+/**
+ * Query Keys
+ */
+export const alertInboxKeys = {
+  all: ['alert-inbox'] as const,
+  list: (patientId: string) => [...alertInboxKeys.all, patientId] as const,
+};
+
+/**
+ * Alert Inbox Hook
+ * Open alerts first, then the rest of the week's
+ */
+export function useAlertInbox(patientId: string | undefined) {
+  return useQuery({
+    queryKey: alertInboxKeys.list(patientId || ''),
+    queryFn: async (): Promise<InboxAlert[]> => {
+      const since = new Date();
+      since.setDate(since.getDate() - INBOX_DAYS);
+
+      const { data, error } = await supabase
+        .from('alerts')
+        .select(
+          `
+          id, alert_type, severity, status, alert_message, created_at,
+          acknowledged_at, resolved_at, resolution_notes,
+          acknowledger:acknowledged_by(full_name, display_name)
+        `
+        )
+        .eq('patient_id', patientId!)
+        .gte('created_at', since.toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return sortInboxAlerts((data || []) as unknown as InboxAlert[]);
+    },
+    enabled: !!patientId,
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Respond To Alert Mutation
+ * From the dashboard, as the signed-in caregiver
+ */
+export function useRespondToAlert(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      alertId,
+      action,
+      note,
+    }: {
+      alertId: string;
+      action: AlertResponseAction;
+      note?: string;
+    }) => {
+      const { data, error } = await supabase.rpc('respond_to_alert', {
+        p_alert_id: alertId,
+        p_action: action,
+        p_channel: 'dashboard',
+        p_notes: note || null,
+      });
+
+      if (error) {
+        if (error.code === '42501') {
+          throw new Error("You don't receive alerts for this person, so you can't respond to them.");
+        }
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: alertInboxKeys.list(patientId) });
+      queryClient.invalidateQueries({ queryKey: ['alerts', patientId] });
+      queryClient.invalidateQueries({ queryKey: careOverviewKeys.all });
+    },
+  });
+}
+
+/**
+ * Link Response Mutation
+ * Works without signing in; the token names the caregiver
+ */
+export function useAlertLinkResponse() {
+  return useMutation({
+    mutationFn: ({ token, action, note }: { token: string; action: AlertResponseAction; note?: string }) =>
+      callSupabaseFunction<unknown, LinkResponseResult>({
+        functionName: 'respond-to-alert',
+        body: { token, action, note: note || undefined },
+      }),
+  });
+}
@@ -0,0 +1,155 @@
+/**
+ * Care Invitation Hooks
+ *
+ * TanStack Query hooks for care circle invitations: the list shown to the
+ * patient and their primary caregiver, sending and revoking invitations,
+ * and previewing and accepting an invitation link on the public /invite
+ * page. Sending and accepting go through edge functions, which sign and
+ * check the invitation token.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { callSupabaseFunction } from '@/lib/supabase-functions';
+import type { CareInvitation, InvitationInput, InviteeAccountInput, RelationshipType } from '@/lib/invitations';
+import { careOverviewKeys } from '@/hooks/useCareOverview';
+
+export interface InvitationPreview {
+  patientName: string;
+  inviterName: string | null;
+  channel: CareInvitation['channel'];
+  email: string | null;
+  relationshipType: RelationshipType;
+  relationshipLabel: string | null;
+  canViewHealthData: boolean;
+  canReceiveAlerts: boolean;
+  canModifySettings: boolean;
+  expiresAt: string;
+}
+
+export interface AcceptInvitationResult {
+  success: boolean;
+  relationshipId: string;
+  patientName: string;
+  accountCreated: boolean;
+}
+
+/**
+ * Query Keys
+ */
+export const careInvitationKeys = {
+  all: ['care-invitations'] as const,
+  list: (patientId: string) => [...careInvitationKeys.all, 'list', patientId] as const,
+  preview: (token: string) => [...careInvitationKeys.all, 'preview', token] as const,
+};
+
+/**
+ * Care Invitations Hook
+ * Newest first
+ */
+export function useCareInvitations(patientId: string | undefined) {
+  return useQuery({
+    queryKey: careInvitationKeys.list(patientId || ''),
+    queryFn: async (): Promise<CareInvitation[]> => {
+      const { data, error } = await supabase
+        .from('care_invitations')
+        .select('*')
+        .eq('patient_id', patientId!)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as CareInvitation[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Send Invitation Mutation
+ */
+export function useSendInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: InvitationInput) => {
+      await callSupabaseFunction({
+        functionName: 'send-care-invitation',
+        body: {
+          patientId: input.patientId,
+          channel: input.channel,
+          email: input.channel === 'email' ? input.email : undefined,
+          phone: input.channel === 'whatsapp' ? input.phone : undefined,
+          relationshipType: input.relationshipType,
+          relationshipLabel: input.relationshipLabel || undefined,
+          canViewHealthData: input.canViewHealthData,
+          canReceiveAlerts: input.canReceiveAlerts,
+          canModifySettings: input.canModifySettings,
+        },
+      });
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: careInvitationKeys.list(input.patientId) });
+    },
+  });
+}
+
+/**
+ * Revoke Invitation Mutation
+ */
+export function useRevokeInvitation(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { error } = await supabase.rpc('revoke_care_invitation', { p_invitation_id: invitationId });
+
+      if (error) {
+        if (error.code === '42501') {
+          throw new Error('Only the patient or their primary caregiver can revoke invitations.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: careInvitationKeys.list(patientId) });
+    },
+  });
+}
+
+/**
+ * Invitation Preview Hook
+ * Works without signing in; fails for expired, revoked and used links
+ */
+export function useInvitationPreview(token: string | null) {
+  return useQuery({
+    queryKey: careInvitationKeys.preview(token || ''),
+    queryFn: async (): Promise<InvitationPreview> => {
+      const response = await callSupabaseFunction<unknown, { invitation: InvitationPreview }>({
+        functionName: 'accept-care-invitation',
+        body: { token, action: 'preview' },
+      });
+      return response.invitation;
+    },
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+/**
+ * Accept Invitation Mutation
+ * As the signed-in user, or with a new account when `account` is given
+ */
+export function useAcceptInvitation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ token, account }: { token: string; account?: InviteeAccountInput }) =>
+      callSupabaseFunction<unknown, AcceptInvitationResult>({
+        functionName: 'accept-care-invitation',
+        body: { token, action: 'accept', account },
+      }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: careOverviewKeys.all });
+    },
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Care Overview Hooks
+ *
+ * TanStack Query hooks for the caregiver overview: every patient the
+ * caregiver has an active care relationship with, their last 7 days of
+ * daily_summaries, last check-in and open alerts, plus adding a family
+ * member to a patient's care circle. RLS hides summaries and check-ins of
+ * patients whose relationship lacks can_view_health_data.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { getLocalDateString } from '@/lib/medications';
+import { TREND_DAYS, type FamilyMemberInput, type OverviewSummary } from '@/lib/care-overview';
+
+export interface OverviewPatient {
+  relationshipId: string;
+  patientId: string;
+  name: string;
+  canModifySettings: boolean;
+  canViewHealthData: boolean;
+  /** Oldest first, days without a summary omitted */
+  summaries: OverviewSummary[];
+  lastCheckInAt: string | null;
+  activeAlerts: number;
+}
+
+interface RelationshipRow {
+  id: string;
+  patient_id: string;
+  can_modify_settings: boolean;
+  can_view_health_data: boolean;
+  patient: { full_name: string | null; display_name: string | null } | null;
+}
+
+/**
+ * Query Keys
+ */
+export const careOverviewKeys = {
+  all: ['care-overview'] as const,
+  patients: (caregiverId: string) => [...careOverviewKeys.all, 'patients', caregiverId] as const,
+};
+
+const SUMMARY_COLUMNS =
+  'patient_id, summary_date, check_in_count, overall_mood, average_sentiment_score, medication_taken, activity_reported, sleep_quality, overall_status, status_reason, summary_text';
+
+async function fetchLastCheckIn(patientId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('check_ins')
+    .select('started_at')
+    .eq('patient_id', patientId)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as { started_at: string } | null)?.started_at ?? null;
+}
+
+/**
+ * Care Overview Hook
+ * One entry per active care relationship of the caregiver
+ */
+export function useCareOverview(caregiverId: string | undefined) {
+  return useQuery({
+    queryKey: careOverviewKeys.patients(caregiverId || ''),
+    queryFn: async (): Promise<OverviewPatient[]> => {
+      const { data: relationships, error } = await supabase
+        .from('care_relationships')
+        .select(
+          'id, patient_id, can_modify_settings, can_view_health_data, patient:profiles!care_relationships_patient_id_fkey(full_name, display_name)'
+        )
+        .eq('caregiver_id', caregiverId!)
+        .eq('status', 'active');
+
+      if (error) throw error;
+
+      const rows = (relationships || []) as unknown as RelationshipRow[];
+      if (rows.length === 0) return [];
+
+      const patientIds = rows.map((row) => row.patient_id);
+
+      const [summariesResult, alertsResult, lastCheckIns] = await Promise.all([
+        supabase
+          .from('daily_summaries')
+          .select(SUMMARY_COLUMNS)
+          .in('patient_id', patientIds)
+          .gte('summary_date', getLocalDateString(TREND_DAYS - 1))
+          .order('summary_date', { ascending: true }),
+        supabase.from('alerts').select('patient_id').in('patient_id', patientIds).eq('status', 'active'),
+        Promise.all(patientIds.map(fetchLastCheckIn)),
+      ]);
+
+      if (summariesResult.error) throw summariesResult.error;
+      if (alertsResult.error) throw alertsResult.error;
+
+      const summaries = (summariesResult.data || []) as OverviewSummary[];
+      const alerts = (alertsResult.data || []) as { patient_id: string }[];
+
+      return rows.map((row, index) => ({
+        relationshipId: row.id,
+        patientId: row.patient_id,
+        name: row.patient?.display_name || row.patient?.full_name || 'Patient',
+        canModifySettings: row.can_modify_settings,
+        canViewHealthData: row.can_view_health_data,
+        summaries: summaries.filter((summary) => summary.patient_id === row.patient_id),
+        lastCheckInAt: lastCheckIns[index],
+        activeAlerts: alerts.filter((alert) => alert.patient_id === row.patient_id).length,
+      }));
+    },
+    enabled: !!caregiverId,
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Add Family Member Mutation
+ * Creates a pending care relationship for an existing account
+ */
+export function useAddFamilyMember() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: FamilyMemberInput) => {
+      const { error } = await supabase.rpc('add_care_circle_member', {
+        p_patient_id: input.patientId,
+        p_email: input.email,
+        p_relationship_label: input.relationshipLabel || null,
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('This person is already in the care circle.');
+        }
+        if (error.code === 'P0002') {
+          throw new Error('No Parra account uses this email. Ask them to sign up first.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: careOverviewKeys.all });
+    },
+  });
+}
@@ -0,0 +1,71 @@
+/**
+ * Care Permission Hooks
+ *
+ * TanStack Query hooks for the permission editor: the members of a
+ * patient's care circle and changing what each of them may do. Both go
+ * through RPCs restricted to the patient, their primary caregiver and
+ * admins; every change is written to activity_log by the database.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { CarePermissions } from '@/lib/care-permissions';
+import { careOverviewKeys } from '@/hooks/useCareOverview';
+
+export type CareCircleMember = Database['public']['Functions']['get_care_circle_members']['Returns'][number];
+
+/**
+ * Query Keys
+ */
+export const carePermissionKeys = {
+  all: ['care-permissions'] as const,
+  members: (patientId: string) => [...carePermissionKeys.all, 'members', patientId] as const,
+};
+
+/**
+ * Care Circle Members Hook
+ * Primary caregivers first
+ */
+export function useCareCircleMembers(patientId: string | undefined) {
+  return useQuery({
+    queryKey: carePermissionKeys.members(patientId || ''),
+    queryFn: async (): Promise<CareCircleMember[]> => {
+      const { data, error } = await supabase.rpc('get_care_circle_members', { p_patient_id: patientId! });
+
+      if (error) throw error;
+      return (data || []) as CareCircleMember[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Update Permissions Mutation
+ */
+export function useUpdateCarePermissions(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ relationshipId, permissions }: { relationshipId: string; permissions: CarePermissions }) => {
+      const { error } = await supabase.rpc('update_care_permissions', {
+        p_relationship_id: relationshipId,
+        p_can_view_health_data: permissions.canViewHealthData,
+        p_can_receive_alerts: permissions.canReceiveAlerts,
+        p_can_modify_settings: permissions.canModifySettings,
+      });
+
+      if (error) {
+        if (error.code === '42501') {
+          throw new Error('Only the patient or their primary caregiver can change permissions.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: carePermissionKeys.members(patientId) });
+      queryClient.invalidateQueries({ queryKey: careOverviewKeys.all });
+      queryClient.invalidateQueries({ queryKey: ['care-relationships'] });
+    },
+  });
+}
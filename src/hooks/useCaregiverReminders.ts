@@ -0,0 +1,101 @@
+/**
+ * Caregiver Reminder Hooks
+ *
+ * TanStack Query hooks for reminder notes: the list shown on the caregiver
+ * dashboard (with delivery and acknowledgement status) and creating a new
+ * reminder for dispatch-reminders to deliver.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ReminderScheduleInput } from '@/lib/reminders';
+
+export type CaregiverReminder = Pick<
+  Tables<'caregiver_notes'>,
+  | 'id'
+  | 'note_text'
+  | 'created_by'
+  | 'reminder_date'
+  | 'reminder_time'
+  | 'reminder_channel'
+  | 'reminder_sent'
+  | 'reminder_sent_at'
+  | 'reminder_attempts'
+  | 'reminder_error'
+  | 'reminder_acknowledged'
+  | 'reminder_acknowledged_at'
+>;
+
+export interface CreateReminderInput extends ReminderScheduleInput {
+  patientId: string;
+  caregiverId: string;
+  noteText: string;
+}
+
+/** Most recent reminders shown on the dashboard */
+const REMINDER_LIST_LIMIT = 10;
+
+/**
+ * Query Keys
+ */
+export const reminderKeys = {
+  all: ['caregiver-reminders'] as const,
+  list: (patientId: string) => [...reminderKeys.all, patientId] as const,
+};
+
+/**
+ * Reminders List Hook
+ * Upcoming and recently delivered reminders for one patient
+ */
+export function useCaregiverReminders(patientId: string | undefined) {
+  return useQuery({
+    queryKey: reminderKeys.list(patientId || ''),
+    queryFn: async (): Promise<CaregiverReminder[]> => {
+      const { data, error } = await supabase
+        .from('caregiver_notes')
+        .select(
+          'id, note_text, created_by, reminder_date, reminder_time, reminder_channel, reminder_sent, reminder_sent_at, reminder_attempts, reminder_error, reminder_acknowledged, reminder_acknowledged_at'
+        )
+        .eq('patient_id', patientId!)
+        .eq('is_reminder', true)
+        .order('reminder_date', { ascending: false })
+        .order('reminder_time', { ascending: false })
+        .limit(REMINDER_LIST_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as CaregiverReminder[];
+    },
+    enabled: !!patientId,
+    // Pick up delivery and acknowledgement without a reload
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Create Reminder Mutation
+ */
+export function useCreateReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CreateReminderInput) => {
+      const { error } = await supabase.from('caregiver_notes').insert({
+        patient_id: input.patientId,
+        caregiver_id: input.caregiverId,
+        note_type: 'reminder',
+        note_text: input.noteText,
+        is_reminder: true,
+        reminder_date: input.reminder_date,
+        reminder_time: input.reminder_time,
+        reminder_channel: input.reminder_channel,
+        shared_with_patient: true,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: reminderKeys.list(input.patientId) });
+    },
+  });
+}
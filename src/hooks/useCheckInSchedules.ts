@@ -0,0 +1,183 @@
+/**
+ * Check-in Schedule Hooks
+ *
+ * TanStack Query hooks for the check-ins Parra starts on its own: the
+ * caregiver dashboard's schedule editor and recent check-in history, and
+ * the senior's waiting in-app check-in. RLS limits schedule changes to
+ * caregivers with can_modify_settings; scheduled_checkins rows are written
+ * by dispatch-checkins.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CheckInScheduleInput } from '@/lib/checkin-schedules';
+
+export type CheckInSchedule = Tables<'checkin_schedules'>;
+
+export type ScheduledCheckIn = Pick<
+  Tables<'scheduled_checkins'>,
+  | 'id'
+  | 'scheduled_date'
+  | 'scheduled_time'
+  | 'status'
+  | 'channel'
+  | 'message'
+  | 'sent_at'
+  | 'answered_at'
+  | 'status_reason'
+>;
+
+/** Most recent check-ins shown on the dashboard */
+const RECENT_CHECKIN_LIMIT = 10;
+
+/**
+ * Query Keys
+ */
+export const checkInScheduleKeys = {
+  all: ['checkin-schedules'] as const,
+  list: (patientId: string) => [...checkInScheduleKeys.all, 'list', patientId] as const,
+  recent: (patientId: string) => [...checkInScheduleKeys.all, 'recent', patientId] as const,
+  pending: (patientId: string) => [...checkInScheduleKeys.all, 'pending', patientId] as const,
+};
+
+const SCHEDULED_CHECKIN_COLUMNS =
+  'id, scheduled_date, scheduled_time, status, channel, message, sent_at, answered_at, status_reason';
+
+/**
+ * Check-in Schedules Hook
+ */
+export function useCheckInSchedules(patientId: string | undefined) {
+  return useQuery({
+    queryKey: checkInScheduleKeys.list(patientId || ''),
+    queryFn: async (): Promise<CheckInSchedule[]> => {
+      const { data, error } = await supabase
+        .from('checkin_schedules')
+        .select('*')
+        .eq('patient_id', patientId!)
+        .order('check_in_time');
+
+      if (error) throw error;
+      return (data || []) as CheckInSchedule[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Recent Check-ins Hook
+ * Latest scheduled check-ins and whether the senior answered
+ */
+export function useRecentCheckIns(patientId: string | undefined) {
+  return useQuery({
+    queryKey: checkInScheduleKeys.recent(patientId || ''),
+    queryFn: async (): Promise<ScheduledCheckIn[]> => {
+      const { data, error } = await supabase
+        .from('scheduled_checkins')
+        .select(SCHEDULED_CHECKIN_COLUMNS)
+        .eq('patient_id', patientId!)
+        .order('created_at', { ascending: false })
+        .limit(RECENT_CHECKIN_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as ScheduledCheckIn[];
+    },
+    enabled: !!patientId,
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Pending In-app Check-in Hook
+ * The latest check-in waiting for the senior in the Parra app, if any
+ */
+export function usePendingCheckIn(patientId: string | undefined) {
+  return useQuery({
+    queryKey: checkInScheduleKeys.pending(patientId || ''),
+    queryFn: async (): Promise<ScheduledCheckIn | null> => {
+      const { data, error } = await supabase
+        .from('scheduled_checkins')
+        .select(SCHEDULED_CHECKIN_COLUMNS)
+        .eq('patient_id', patientId!)
+        .eq('status', 'sent')
+        .eq('channel', 'app')
+        .order('sent_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as ScheduledCheckIn | null;
+    },
+    enabled: !!patientId,
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Create Schedule Mutation
+ */
+export function useCreateCheckInSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: CheckInScheduleInput & { patientId: string; createdBy: string }) => {
+      const { patientId, createdBy, ...schedule } = input;
+      const { error } = await supabase.from('checkin_schedules').insert({
+        ...schedule,
+        patient_id: patientId,
+        created_by: createdBy,
+      });
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('There is already a check-in at this time.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: checkInScheduleKeys.list(input.patientId) });
+    },
+  });
+}
+
+/**
+ * Update Schedule Mutation
+ */
+export function useUpdateCheckInSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<CheckInScheduleInput> & { id: string; is_active?: boolean }) => {
+      const { error } = await supabase.from('checkin_schedules').update(input).eq('id', id);
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('There is already a check-in at this time.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: checkInScheduleKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete Schedule Mutation
+ */
+export function useDeleteCheckInSchedule() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('checkin_schedules').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: checkInScheduleKeys.all });
+    },
+  });
+}
@@ -0,0 +1,84 @@
+/**
+ * Escalation Ladder Hooks
+ *
+ * TanStack Query hooks for a patient's alert escalation ladder: who is
+ * contacted about an alert, in what order and how. Patients without their
+ * own ladder use the default one. Changes go through
+ * save_escalation_ladder(), which is limited to caregivers with
+ * can_modify_settings.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { DEFAULT_ESCALATION_LADDER, type EscalationStepInput } from '@/lib/escalation';
+
+export interface EscalationLadder {
+  steps: EscalationStepInput[];
+  /** No ladder saved for the patient, so the default applies */
+  isDefault: boolean;
+}
+
+/**
+ * Query Keys
+ */
+export const escalationLadderKeys = {
+  all: ['escalation-ladder'] as const,
+  detail: (patientId: string) => [...escalationLadderKeys.all, patientId] as const,
+};
+
+/**
+ * Escalation Ladder Hook
+ */
+export function useEscalationLadder(patientId: string | undefined) {
+  return useQuery({
+    queryKey: escalationLadderKeys.detail(patientId || ''),
+    queryFn: async (): Promise<EscalationLadder> => {
+      const { data, error } = await supabase
+        .from('escalation_steps')
+        .select('step_order, target, wait_minutes, channels')
+        .eq('patient_id', patientId!)
+        .order('step_order');
+
+      if (error) throw error;
+
+      const rows = (data || []) as Pick<Tables<'escalation_steps'>, 'target' | 'wait_minutes' | 'channels'>[];
+      if (rows.length === 0) {
+        return { steps: DEFAULT_ESCALATION_LADDER, isDefault: true };
+      }
+
+      return {
+        steps: rows.map(({ target, wait_minutes, channels }) => ({ target, wait_minutes, channels })),
+        isDefault: false,
+      };
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Save Ladder Mutation
+ * An empty list restores the default ladder
+ */
+export function useSaveEscalationLadder(patientId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (steps: EscalationStepInput[]) => {
+      const { error } = await supabase.rpc('save_escalation_ladder', {
+        p_patient_id: patientId,
+        p_steps: steps,
+      });
+
+      if (error) {
+        if (error.code === '42501') {
+          throw new Error('You need permission to change settings to edit the escalation ladder.');
+        }
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: escalationLadderKeys.detail(patientId) });
+    },
+  });
+}
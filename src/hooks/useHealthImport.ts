@@ -0,0 +1,102 @@
+/**
+ * Health Import Hooks
+ *
+ * Sends records parsed from Samsung Health / Google Fit export files to the
+ * health-sync Edge Function in batches. The preview is a dry run that reports
+ * how many records are new, already imported or invalid without storing
+ * anything.
+ */
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { callSupabaseFunction } from '@/lib/supabase-functions';
+import { IMPORT_DEVICE_IDS, type HealthImportSource, type ImportedHealthRecord } from '@/lib/health-import';
+import { healthKeys } from '@/hooks/useHealthMetrics';
+
+/** Matches the health-sync per-request record limit */
+const IMPORT_BATCH_SIZE = 500;
+
+/** Rejection reasons shown in the preview */
+const MAX_ERRORS_SHOWN = 5;
+
+interface HealthSyncResponse {
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  results: Array<{ status: 'accepted' | 'duplicate' | 'rejected'; error?: string }>;
+}
+
+export interface HealthImportResult {
+  /** New records (imported, or that would be imported in a preview) */
+  accepted: number;
+  duplicates: number;
+  rejected: number;
+  /** Distinct rejection reasons */
+  errors: string[];
+}
+
+interface HealthImportVariables {
+  patientId: string;
+  records: ImportedHealthRecord[];
+}
+
+async function sendRecords(
+  { patientId, records }: HealthImportVariables,
+  dryRun: boolean
+): Promise<HealthImportResult> {
+  const total: HealthImportResult = { accepted: 0, duplicates: 0, rejected: 0, errors: [] };
+
+  const bySource = new Map<HealthImportSource, ImportedHealthRecord[]>();
+  for (const record of records) {
+    bySource.set(record.dataSource, [...(bySource.get(record.dataSource) || []), record]);
+  }
+
+  for (const [source, sourceRecords] of bySource) {
+    for (let i = 0; i < sourceRecords.length; i += IMPORT_BATCH_SIZE) {
+      const response = await callSupabaseFunction<unknown, HealthSyncResponse>({
+        functionName: 'health-sync',
+        body: {
+          patientId,
+          deviceId: IMPORT_DEVICE_IDS[source],
+          deviceName: `${source} export`,
+          records: sourceRecords.slice(i, i + IMPORT_BATCH_SIZE),
+          dryRun,
+        },
+      });
+
+      total.accepted += response.accepted;
+      total.duplicates += response.duplicates;
+      total.rejected += response.rejected;
+
+      for (const result of response.results) {
+        if (result.error && !total.errors.includes(result.error) && total.errors.length < MAX_ERRORS_SHOWN) {
+          total.errors.push(result.error);
+        }
+      }
+    }
+  }
+
+  return total;
+}
+
+/**
+ * Dry run: count new, duplicate and invalid records
+ */
+export function usePreviewHealthImport() {
+  return useMutation({
+    mutationFn: (variables: HealthImportVariables) => sendRecords(variables, true),
+  });
+}
+
+/**
+ * Import the records and refresh the health dashboard
+ */
+export function useImportHealthRecords() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (variables: HealthImportVariables) => sendRecords(variables, false),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: healthKeys.all });
+    },
+  });
+}
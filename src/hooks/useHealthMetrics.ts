@@ -0,0 +1,106 @@
+/**
+ * Health Metrics Hooks
+ *
+ * TanStack Query hooks for the health dashboard: daily aggregates over a
+ * selectable range, readings flagged as anomalies, and Health Connect sync
+ * status per device. RLS limits caregivers to patients whose care
+ * relationship has can_view_health_data.
+ */
+
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { HEALTH_CHARTS, type HealthRange } from '@/lib/health-metrics';
+
+export type HealthAggregate = Tables<'health_metric_aggregates'>;
+export type HealthAnomaly = Pick<
+  Tables<'health_metrics'>,
+  'id' | 'metric_type' | 'recorded_at' | 'value_numeric' | 'value_json' | 'unit' | 'anomaly_reason'
+>;
+export type HealthSyncStatus = Tables<'health_sync_status'>;
+
+/** Most recent anomalies listed on the dashboard */
+const ANOMALY_LIMIT = 20;
+
+/**
+ * Query Keys
+ */
+export const healthKeys = {
+  all: ['health'] as const,
+  aggregates: (patientId: string, range: HealthRange) => [...healthKeys.all, 'aggregates', patientId, range] as const,
+  anomalies: (patientId: string, range: HealthRange) => [...healthKeys.all, 'anomalies', patientId, range] as const,
+  syncStatus: (patientId: string) => [...healthKeys.all, 'sync-status', patientId] as const,
+};
+
+function rangeStart(range: HealthRange): string {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (range - 1));
+  return start.toISOString();
+}
+
+/**
+ * Daily aggregates for the charted metrics
+ */
+export function useHealthAggregates(patientId: string | undefined, range: HealthRange) {
+  return useQuery({
+    queryKey: healthKeys.aggregates(patientId || '', range),
+    queryFn: async (): Promise<HealthAggregate[]> => {
+      const { data, error } = await supabase
+        .from('health_metric_aggregates')
+        .select('*')
+        .eq('patient_id', patientId!)
+        .eq('aggregation_period', 'daily')
+        .in('metric_type', HEALTH_CHARTS.map((chart) => chart.type))
+        .gte('period_start', rangeStart(range))
+        .order('period_start', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as HealthAggregate[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Readings flagged as anomalies, newest first
+ */
+export function useHealthAnomalies(patientId: string | undefined, range: HealthRange) {
+  return useQuery({
+    queryKey: healthKeys.anomalies(patientId || '', range),
+    queryFn: async (): Promise<HealthAnomaly[]> => {
+      const { data, error } = await supabase
+        .from('health_metrics')
+        .select('id, metric_type, recorded_at, value_numeric, value_json, unit, anomaly_reason')
+        .eq('patient_id', patientId!)
+        .eq('is_anomaly', true)
+        .gte('recorded_at', rangeStart(range))
+        .order('recorded_at', { ascending: false })
+        .limit(ANOMALY_LIMIT);
+
+      if (error) throw error;
+      return (data || []) as HealthAnomaly[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Health Connect sync status for each of the patient's devices
+ */
+export function useHealthSyncStatus(patientId: string | undefined) {
+  return useQuery({
+    queryKey: healthKeys.syncStatus(patientId || ''),
+    queryFn: async (): Promise<HealthSyncStatus[]> => {
+      const { data, error } = await supabase
+        .from('health_sync_status')
+        .select('*')
+        .eq('patient_id', patientId!)
+        .order('last_successful_sync_at', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      return (data || []) as HealthSyncStatus[];
+    },
+    enabled: !!patientId,
+  });
+}
@@ -0,0 +1,178 @@
+/**
+ * Medication Hooks
+ *
+ * TanStack Query hooks for medication schedules and dose records: the
+ * caregiver dashboard's schedule editor and adherence figures, and the
+ * senior's "Mark taken" list. RLS limits schedule changes to caregivers
+ * with can_modify_settings; patients can record their own doses.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { MedicationInput } from '@/lib/medications';
+
+export type Medication = Tables<'medications'>;
+
+export type MedicationDose = Pick<
+  Tables<'medication_doses'>,
+  'id' | 'medication_id' | 'scheduled_date' | 'scheduled_time' | 'status' | 'taken_at' | 'confirmed_via'
+>;
+
+export interface ConfirmDoseInput {
+  patientId: string;
+  medicationId: string;
+  scheduledDate: string;
+  /** HH:MM */
+  scheduledTime: string;
+  /** Who is confirming: the senior themselves or a caregiver */
+  confirmedBy: string;
+  confirmedVia: 'app' | 'caregiver';
+}
+
+/**
+ * Query Keys
+ */
+export const medicationKeys = {
+  all: ['medications'] as const,
+  list: (patientId: string) => [...medicationKeys.all, 'list', patientId] as const,
+  doses: (patientId: string, sinceDate: string) => [...medicationKeys.all, 'doses', patientId, sinceDate] as const,
+};
+
+/**
+ * Medications List Hook
+ * Active and paused schedules for one patient
+ */
+export function useMedications(patientId: string | undefined) {
+  return useQuery({
+    queryKey: medicationKeys.list(patientId || ''),
+    queryFn: async (): Promise<Medication[]> => {
+      const { data, error } = await supabase
+        .from('medications')
+        .select('*')
+        .eq('patient_id', patientId!)
+        .order('is_active', { ascending: false })
+        .order('name');
+
+      if (error) throw error;
+      return (data || []) as Medication[];
+    },
+    enabled: !!patientId,
+  });
+}
+
+/**
+ * Dose Records Hook
+ * Recorded doses on or after a local date
+ */
+export function useMedicationDoses(patientId: string | undefined, sinceDate: string) {
+  return useQuery({
+    queryKey: medicationKeys.doses(patientId || '', sinceDate),
+    queryFn: async (): Promise<MedicationDose[]> => {
+      const { data, error } = await supabase
+        .from('medication_doses')
+        .select('id, medication_id, scheduled_date, scheduled_time, status, taken_at, confirmed_via')
+        .eq('patient_id', patientId!)
+        .gte('scheduled_date', sinceDate)
+        .order('scheduled_date', { ascending: false })
+        .order('scheduled_time', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as MedicationDose[];
+    },
+    enabled: !!patientId,
+    // Pick up confirmations from chat and WhatsApp without a reload
+    refetchInterval: 60000,
+  });
+}
+
+/**
+ * Create Medication Mutation
+ */
+export function useCreateMedication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: MedicationInput & { patientId: string; createdBy: string }) => {
+      const { patientId, createdBy, ...medication } = input;
+      const { error } = await supabase.from('medications').insert({
+        ...medication,
+        patient_id: patientId,
+        created_by: createdBy,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: medicationKeys.list(input.patientId) });
+    },
+  });
+}
+
+/**
+ * Update Medication Mutation
+ */
+export function useUpdateMedication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<MedicationInput> & { id: string; is_active?: boolean }) => {
+      const { error } = await supabase.from('medications').update(input).eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: medicationKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete Medication Mutation
+ * Also removes the medication's dose history
+ */
+export function useDeleteMedication() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('medications').delete().eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: medicationKeys.all });
+    },
+  });
+}
+
+/**
+ * Confirm Dose Mutation
+ * Marks a scheduled dose taken, including one already marked missed
+ */
+export function useConfirmDose() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ConfirmDoseInput) => {
+      const { error } = await supabase.from('medication_doses').upsert(
+        {
+          medication_id: input.medicationId,
+          patient_id: input.patientId,
+          scheduled_date: input.scheduledDate,
+          scheduled_time: input.scheduledTime,
+          status: 'taken',
+          taken_at: new Date().toISOString(),
+          confirmed_via: input.confirmedVia,
+          confirmed_by: input.confirmedBy,
+        },
+        { onConflict: 'medication_id,scheduled_date,scheduled_time' }
+      );
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: medicationKeys.all });
+    },
+  });
+}
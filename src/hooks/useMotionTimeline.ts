@@ -0,0 +1,134 @@
+/**
+ * Motion Timeline Hook
+ *
+ * Loads a patient's motion sensors, today's motion events and any open
+ * inactivity episodes, and keeps them current through Supabase realtime
+ * so caregivers see movement as it happens rather than waiting for an alert.
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useSwitchbotDevices, switchbotDeviceKeys } from '@/hooks/useSwitchbotDevices';
+import { buildRoomTimelines, type MotionEvent } from '@/lib/motion-timeline';
+
+export type InactivityEpisode = Tables<'inactivity_monitoring'>;
+
+/** How often relative times ("12 min ago") are refreshed */
+const CLOCK_TICK_MS = 60 * 1000;
+
+export const motionTimelineKeys = {
+  all: ['motion-timeline'] as const,
+  events: (patientId: string, day: string) => [...motionTimelineKeys.all, 'events', patientId, day] as const,
+  episodes: (patientId: string) => [...motionTimelineKeys.all, 'episodes', patientId] as const,
+};
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  return start;
+}
+
+export function useMotionTimeline(patientId: string) {
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(() => new Date());
+
+  const dayStart = startOfDay(now);
+  const dayKey = dayStart.toISOString();
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  // Keep "time since last movement" and the now marker moving
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), CLOCK_TICK_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { data: devices, isLoading: devicesLoading } = useSwitchbotDevices(patientId);
+
+  const { data: events, isLoading: eventsLoading } = useQuery({
+    queryKey: motionTimelineKeys.events(patientId, dayKey),
+    queryFn: async (): Promise<MotionEvent[]> => {
+      const { data, error } = await supabase
+        .from('motion_sensor_events')
+        .select('device_id, detection_state, recorded_at')
+        .eq('patient_id', patientId)
+        .gte('recorded_at', dayKey)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      return (data || []) as MotionEvent[];
+    },
+    enabled: !!patientId,
+  });
+
+  const { data: episodes, isLoading: episodesLoading } = useQuery({
+    queryKey: motionTimelineKeys.episodes(patientId),
+    queryFn: async (): Promise<InactivityEpisode[]> => {
+      const { data, error } = await supabase
+        .from('inactivity_monitoring')
+        .select('*')
+        .eq('patient_id', patientId)
+        .is('resolved_at', null)
+        .order('inactivity_started_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as InactivityEpisode[];
+    },
+    enabled: !!patientId,
+  });
+
+  // Live updates
+  useEffect(() => {
+    if (!patientId) return;
+
+    const filter = `patient_id=eq.${patientId}`;
+    const channel = supabase
+      .channel(`motion-timeline-${patientId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'motion_sensor_events', filter },
+        () => queryClient.invalidateQueries({ queryKey: motionTimelineKeys.events(patientId, dayKey) })
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'inactivity_monitoring', filter },
+        () => queryClient.invalidateQueries({ queryKey: motionTimelineKeys.episodes(patientId) })
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'switchbot_devices', filter },
+        () => queryClient.invalidateQueries({ queryKey: switchbotDeviceKeys.all })
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [patientId, dayKey, queryClient]);
+
+  const rooms = useMemo(
+    () =>
+      buildRoomTimelines(
+        (devices || []).map((device) => device.id),
+        events || [],
+        dayStart,
+        dayEnd,
+        now
+      ),
+    // dayStart/dayEnd are derived from dayKey
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [devices, events, dayKey, now]
+  );
+
+  return {
+    devices: devices || [],
+    rooms,
+    episodes: episodes || [],
+    dayStart,
+    dayEnd,
+    now,
+    isLoading: devicesLoading || eventsLoading || episodesLoading,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * SwitchBot Device Hooks
+ *
+ * TanStack Query hooks for listing and managing SwitchBot motion sensors.
+ * Shared by the admin Devices page (all patients) and the caregiver
+ * dashboard (one patient); RLS decides which rows each user can change.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { SwitchbotDeviceInput } from '@/lib/devices';
+
+export type SwitchbotDevice = Tables<'switchbot_devices'> & {
+  // Joined data
+  patient?: Pick<Tables<'profiles'>, 'id' | 'full_name' | 'email'>;
+};
+
+/**
+ * Query Keys
+ */
+export const switchbotDeviceKeys = {
+  all: ['switchbot-devices'] as const,
+  list: (patientId?: string) => [...switchbotDeviceKeys.all, patientId ?? 'all'] as const,
+};
+
+/**
+ * Devices List Hook
+ * Lists every device the user can see, or one patient's devices
+ */
+export function useSwitchbotDevices(patientId?: string) {
+  return useQuery({
+    queryKey: switchbotDeviceKeys.list(patientId),
+    queryFn: async (): Promise<SwitchbotDevice[]> => {
+      let query = supabase
+        .from('switchbot_devices')
+        .select(
+          `
+          *,
+          patient:profiles!switchbot_devices_patient_id_fkey(id, full_name, email)
+        `
+        );
+
+      if (patientId) {
+        query = query.eq('patient_id', patientId);
+      }
+
+      query = query.order('device_name');
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []) as SwitchbotDevice[];
+    },
+  });
+}
+
+/**
+ * Create Device Mutation
+ */
+export function useCreateSwitchbotDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: SwitchbotDeviceInput) => {
+      const { data, error } = await supabase
+        .from('switchbot_devices')
+        .insert(input)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A sensor with this MAC address is already registered.');
+        }
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: switchbotDeviceKeys.all });
+    },
+  });
+}
+
+/**
+ * Update Device Mutation
+ */
+export function useUpdateSwitchbotDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...input }: Partial<SwitchbotDeviceInput> & { id: string }) => {
+      const { data, error } = await supabase
+        .from('switchbot_devices')
+        .update(input)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('A sensor with this MAC address is already registered.');
+        }
+        throw error;
+      }
+      return data;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: switchbotDeviceKeys.all });
+    },
+  });
+}
+
+/**
+ * Delete Device Mutation
+ */
+export function useDeleteSwitchbotDevice() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('switchbot_devices')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: switchbotDeviceKeys.all });
+    },
+  });
+}
@@ -0,0 +1,81 @@
+/**
+ * Telegram Link Hooks
+ *
+ * TanStack Query hooks for connecting the signed-in user's Telegram account,
+ * so their replies to alerts in the Parra Telegram chat are attributed to
+ * them. create_telegram_link_code() issues a code the user sends to the bot
+ * as "/link <code>"; telegram-webhook completes the link.
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type TelegramLink = Tables<'telegram_links'>;
+
+/**
+ * Query Keys
+ */
+export const telegramLinkKeys = {
+  all: ['telegram-link'] as const,
+  detail: (userId: string) => [...telegramLinkKeys.all, userId] as const,
+};
+
+/**
+ * Telegram Link Hook
+ * Null until the user has asked for a code
+ */
+export function useTelegramLink(userId: string | undefined) {
+  return useQuery({
+    queryKey: telegramLinkKeys.detail(userId || ''),
+    queryFn: async (): Promise<TelegramLink | null> => {
+      const { data, error } = await supabase
+        .from('telegram_links')
+        .select('*')
+        .eq('user_id', userId!)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as TelegramLink | null;
+    },
+    enabled: !!userId,
+  });
+}
+
+/**
+ * Create Link Code Mutation
+ * Replaces any earlier code; valid for 30 minutes
+ */
+export function useCreateTelegramLinkCode(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (): Promise<string> => {
+      const { data, error } = await supabase.rpc('create_telegram_link_code');
+
+      if (error) throw error;
+      return data as string;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: telegramLinkKeys.detail(userId) });
+    },
+  });
+}
+
+/**
+ * Disconnect Telegram Mutation
+ */
+export function useDisconnectTelegram(userId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.from('telegram_links').delete().eq('user_id', userId);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: telegramLinkKeys.detail(userId) });
+    },
+  });
+}
@@ -3,6 +3,8 @@
  *
  * Manages voice conversations using OpenAI pipeline (Whisper + GPT-4 + TTS)
  * Replaces the problematic Realtime API with a reliable, proven approach.
+ * The conversation is saved by the voice chat function as a session; only
+ * the session id and the new recording are sent.
  *
  * @returns Voice chat state and controls
  */
@@ -10,14 +12,10 @@
 import { useState, useRef, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 
-interface Message {
-  role: 'user' | 'assistant';
-  content: string;
-}
-
 interface UseVoiceChatOptions {
   onTranscript?: (text: string) => void;
-  onResponse?: (text: string) => void;
+  /** promptVersion is the Parra persona version that produced the reply */
+  onResponse?: (text: string, promptVersion?: string) => void;
   onError?: (error: Error) => void;
 }
 
@@ -29,7 +27,7 @@ export const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
-  const conversationHistoryRef = useRef<Message[]>([]);
+  const sessionIdRef = useRef<string | null>(null);
   const currentAudioRef = useRef<HTMLAudioElement | null>(null);
 
   /**
@@ -123,9 +121,9 @@ export const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       const formData = new FormData();
       formData.append('audio', audioBlob, 'recording.webm');
 
-      // Include conversation history for context
-      if (conversationHistoryRef.current.length > 0) {
-        formData.append('history', JSON.stringify(conversationHistoryRef.current));
+      // Continue the saved conversation
+      if (sessionIdRef.current) {
+        formData.append('sessionId', sessionIdRef.current);
       }
 
       console.log('📤 Sending to quick-service function...');
@@ -143,16 +141,13 @@ export const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
         throw new Error('No response from voice chat');
       }
 
-      const { transcript, responseText, audio } = data;
+      const { transcript, responseText, promptVersion, sessionId, audio } = data;
 
       console.log('📝 Transcript:', transcript);
       console.log('💬 Response:', responseText);
 
-      // Update conversation history
-      conversationHistoryRef.current.push(
-        { role: 'user', content: transcript },
-        { role: 'assistant', content: responseText }
-      );
+      // A closed session is replaced by a new one
+      if (sessionId) sessionIdRef.current = sessionId;
 
       // Notify callbacks
       if (options.onTranscript) {
@@ -160,11 +155,13 @@ export const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
       }
 
       if (options.onResponse) {
-        options.onResponse(responseText);
+        options.onResponse(responseText, promptVersion);
       }
 
-      // Play response audio
-      await playAudio(audio);
+      // Play response audio (a crisis reply that couldn't be spoken has none)
+      if (audio) {
+        await playAudio(audio);
+      }
 
     } catch (err) {
       console.error('❌ Error processing audio:', err);
@@ -234,10 +231,10 @@ export const useVoiceChat = (options: UseVoiceChatOptions = {}) => {
   }, []);
 
   /**
-   * Clear conversation history
+   * Start a new conversation with the next recording
    */
   const clearHistory = useCallback(() => {
-    conversationHistoryRef.current = [];
+    sessionIdRef.current = null;
     console.log('🗑️  Conversation history cleared');
   }, []);
 
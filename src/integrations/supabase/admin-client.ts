@@ -57,7 +57,7 @@ export const adminOperations = {
     email: string;
     password?: string;
     full_name: string;
-    role: 'admin' | 'caregiver' | 'senior';
+    role: 'admin' | 'caregiver' | 'senior' | 'family_member';
     phone_number?: string;
     date_of_birth?: string;
     emergency_contact_name?: string;
@@ -21,6 +21,7 @@ export type Database = {
           emergency_contact_name: string | null
           emergency_contact_phone: string | null
           notification_preferences: Json | null
+          timezone: string | null
           created_at: string
           updated_at: string
           last_active_at: string | null
@@ -36,6 +37,7 @@ export type Database = {
           emergency_contact_name?: string | null
           emergency_contact_phone?: string | null
           notification_preferences?: Json | null
+          timezone?: string | null
           created_at?: string
           updated_at?: string
           last_active_at?: string | null
@@ -51,10 +53,12 @@ export type Database = {
           emergency_contact_name?: string | null
           emergency_contact_phone?: string | null
           notification_preferences?: Json | null
+          timezone?: string | null
           created_at?: string
           updated_at?: string
           last_active_at?: string | null
         }
+        Relationships: []
       }
       care_relationships: {
         Row: {
@@ -99,6 +103,22 @@ export type Database = {
           updated_at?: string
           accepted_at?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: 'care_relationships_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'care_relationships_caregiver_id_fkey'
+            columns: ['caregiver_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       check_ins: {
         Row: {
@@ -118,6 +138,9 @@ export type Database = {
           alert_sent: boolean
           alert_sent_at: string | null
           commitments: Json | null
+          purged_at: string | null
+          prompt_version: string | null
+          last_message_at: string | null
           created_at: string
           updated_at: string
         }
@@ -138,6 +161,9 @@ export type Database = {
           alert_sent?: boolean
           alert_sent_at?: string | null
           commitments?: Json | null
+          purged_at?: string | null
+          prompt_version?: string | null
+          last_message_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -158,9 +184,21 @@ export type Database = {
           alert_sent?: boolean
           alert_sent_at?: string | null
           commitments?: Json | null
+          purged_at?: string | null
+          prompt_version?: string | null
+          last_message_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'check_ins_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       daily_summaries: {
         Row: {
@@ -229,6 +267,15 @@ export type Database = {
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'daily_summaries_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       alerts: {
         Row: {
@@ -245,8 +292,11 @@ export type Database = {
           acknowledged_by: string | null
           acknowledged_at: string | null
           resolution_notes: string | null
+          resolved_at: string | null
           escalation_countdown_started: string | null
           escalated: boolean
+          escalation_step: number
+          next_escalation_at: string | null
           created_at: string
           updated_at: string
         }
@@ -264,8 +314,11 @@ export type Database = {
           acknowledged_by?: string | null
           acknowledged_at?: string | null
           resolution_notes?: string | null
+          resolved_at?: string | null
           escalation_countdown_started?: string | null
           escalated?: boolean
+          escalation_step?: number
+          next_escalation_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -283,55 +336,584 @@ export type Database = {
           acknowledged_by?: string | null
           acknowledged_at?: string | null
           resolution_notes?: string | null
+          resolved_at?: string | null
           escalation_countdown_started?: string | null
           escalated?: boolean
+          escalation_step?: number
+          next_escalation_at?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'alerts_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_check_in_id_fkey'
+            columns: ['check_in_id']
+            isOneToOne: false
+            referencedRelation: 'check_ins'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_acknowledged_by_fkey'
+            columns: ['acknowledged_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_health_metric_id_fkey'
+            columns: ['health_metric_id']
+            isOneToOne: false
+            referencedRelation: 'health_metrics'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_motion_device_id_fkey'
+            columns: ['motion_device_id']
+            isOneToOne: false
+            referencedRelation: 'switchbot_devices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_inactivity_monitoring_id_fkey'
+            columns: ['inactivity_monitoring_id']
+            isOneToOne: false
+            referencedRelation: 'inactivity_monitoring'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alerts_resolved_by_fkey'
+            columns: ['resolved_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       caregiver_notes: {
         Row: {
           id: string
           patient_id: string
-          caregiver_id: string
+          caregiver_id: string | null
           note_type: string
           note_text: string
           is_reminder: boolean
           reminder_date: string | null
           reminder_time: string | null
+          reminder_sent: boolean
+          reminder_channel: 'whatsapp' | 'email' | 'chat'
+          reminder_sent_at: string | null
+          reminder_attempts: number
+          reminder_error: string | null
+          reminder_acknowledged: boolean
+          reminder_acknowledged_at: string | null
           shared_with_patient: boolean
           shared_with_care_team: boolean
+          created_by: 'caregiver' | 'parra'
+          check_in_id: string | null
           created_at: string
           updated_at: string
         }
         Insert: {
           id?: string
           patient_id: string
-          caregiver_id: string
+          caregiver_id?: string | null
           note_type?: string
           note_text: string
           is_reminder?: boolean
           reminder_date?: string | null
           reminder_time?: string | null
+          reminder_sent?: boolean
+          reminder_channel?: 'whatsapp' | 'email' | 'chat'
+          reminder_sent_at?: string | null
+          reminder_attempts?: number
+          reminder_error?: string | null
+          reminder_acknowledged?: boolean
+          reminder_acknowledged_at?: string | null
           shared_with_patient?: boolean
           shared_with_care_team?: boolean
+          created_by?: 'caregiver' | 'parra'
+          check_in_id?: string | null
           created_at?: string
           updated_at?: string
         }
         Update: {
           id?: string
           patient_id?: string
-          caregiver_id?: string
+          caregiver_id?: string | null
           note_type?: string
           note_text?: string
           is_reminder?: boolean
           reminder_date?: string | null
           reminder_time?: string | null
+          reminder_sent?: boolean
+          reminder_channel?: 'whatsapp' | 'email' | 'chat'
+          reminder_sent_at?: string | null
+          reminder_attempts?: number
+          reminder_error?: string | null
+          reminder_acknowledged?: boolean
+          reminder_acknowledged_at?: string | null
           shared_with_patient?: boolean
           shared_with_care_team?: boolean
+          created_by?: 'caregiver' | 'parra'
+          check_in_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'caregiver_notes_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'caregiver_notes_caregiver_id_fkey'
+            columns: ['caregiver_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'caregiver_notes_check_in_id_fkey'
+            columns: ['check_in_id']
+            isOneToOne: false
+            referencedRelation: 'check_ins'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      patient_memories: {
+        Row: {
+          id: string
+          patient_id: string
+          category: 'preferred_name' | 'family' | 'hobby' | 'medication' | 'routine' | 'preference' | 'health' | 'other'
+          content: string
+          content_key: string
+          source_check_in_id: string | null
+          times_mentioned: number
+          last_mentioned_at: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          category: 'preferred_name' | 'family' | 'hobby' | 'medication' | 'routine' | 'preference' | 'health' | 'other'
+          content: string
+          source_check_in_id?: string | null
+          times_mentioned?: number
+          last_mentioned_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          category?: 'preferred_name' | 'family' | 'hobby' | 'medication' | 'routine' | 'preference' | 'health' | 'other'
+          content?: string
+          source_check_in_id?: string | null
+          times_mentioned?: number
+          last_mentioned_at?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'patient_memories_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'patient_memories_source_check_in_id_fkey'
+            columns: ['source_check_in_id']
+            isOneToOne: false
+            referencedRelation: 'check_ins'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      medications: {
+        Row: {
+          id: string
+          patient_id: string
+          name: string
+          dose: string | null
+          instructions: string | null
+          dose_times: string[]
+          grace_minutes: number
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          name: string
+          dose?: string | null
+          instructions?: string | null
+          dose_times: string[]
+          grace_minutes?: number
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          name?: string
+          dose?: string | null
+          instructions?: string | null
+          dose_times?: string[]
+          grace_minutes?: number
+          is_active?: boolean
+          created_by?: string | null
           created_at?: string
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'medications_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'medications_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      medication_doses: {
+        Row: {
+          id: string
+          medication_id: string
+          patient_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status: 'taken' | 'skipped' | 'missed'
+          taken_at: string | null
+          confirmed_via: 'chat' | 'whatsapp' | 'app' | 'caregiver' | null
+          confirmed_by: string | null
+          alert_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          medication_id: string
+          patient_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status: 'taken' | 'skipped' | 'missed'
+          taken_at?: string | null
+          confirmed_via?: 'chat' | 'whatsapp' | 'app' | 'caregiver' | null
+          confirmed_by?: string | null
+          alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          medication_id?: string
+          patient_id?: string
+          scheduled_date?: string
+          scheduled_time?: string
+          status?: 'taken' | 'skipped' | 'missed'
+          taken_at?: string | null
+          confirmed_via?: 'chat' | 'whatsapp' | 'app' | 'caregiver' | null
+          confirmed_by?: string | null
+          alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'medication_doses_medication_id_fkey'
+            columns: ['medication_id']
+            isOneToOne: false
+            referencedRelation: 'medications'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'medication_doses_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'medication_doses_confirmed_by_fkey'
+            columns: ['confirmed_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'medication_doses_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      checkin_schedules: {
+        Row: {
+          id: string
+          patient_id: string
+          check_in_time: string
+          channel: 'whatsapp' | 'app'
+          response_window_minutes: number
+          is_active: boolean
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          check_in_time: string
+          channel?: 'whatsapp' | 'app'
+          response_window_minutes?: number
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          check_in_time?: string
+          channel?: 'whatsapp' | 'app'
+          response_window_minutes?: number
+          is_active?: boolean
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'checkin_schedules_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'checkin_schedules_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      scheduled_checkins: {
+        Row: {
+          id: string
+          schedule_id: string
+          patient_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status: 'sent' | 'answered' | 'missed' | 'skipped' | 'failed'
+          channel: 'whatsapp' | 'app'
+          message: string | null
+          sent_at: string | null
+          respond_by: string | null
+          answered_at: string | null
+          status_reason: string | null
+          check_in_id: string | null
+          alert_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          schedule_id: string
+          patient_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status: 'sent' | 'answered' | 'missed' | 'skipped' | 'failed'
+          channel: 'whatsapp' | 'app'
+          message?: string | null
+          sent_at?: string | null
+          respond_by?: string | null
+          answered_at?: string | null
+          status_reason?: string | null
+          check_in_id?: string | null
+          alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          schedule_id?: string
+          patient_id?: string
+          scheduled_date?: string
+          scheduled_time?: string
+          status?: 'sent' | 'answered' | 'missed' | 'skipped' | 'failed'
+          channel?: 'whatsapp' | 'app'
+          message?: string | null
+          sent_at?: string | null
+          respond_by?: string | null
+          answered_at?: string | null
+          status_reason?: string | null
+          check_in_id?: string | null
+          alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'scheduled_checkins_schedule_id_fkey'
+            columns: ['schedule_id']
+            isOneToOne: false
+            referencedRelation: 'checkin_schedules'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'scheduled_checkins_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'scheduled_checkins_check_in_id_fkey'
+            columns: ['check_in_id']
+            isOneToOne: false
+            referencedRelation: 'check_ins'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'scheduled_checkins_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      care_invitations: {
+        Row: {
+          id: string
+          patient_id: string
+          invited_by: string | null
+          channel: 'email' | 'whatsapp'
+          invitee_email: string | null
+          invitee_phone: string | null
+          relationship_type: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other'
+          relationship_label: string | null
+          can_view_health_data: boolean
+          can_receive_alerts: boolean
+          can_modify_settings: boolean
+          status: 'pending' | 'accepted' | 'revoked'
+          expires_at: string
+          accepted_by: string | null
+          accepted_at: string | null
+          relationship_id: string | null
+          revoked_by: string | null
+          revoked_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          invited_by?: string | null
+          channel: 'email' | 'whatsapp'
+          invitee_email?: string | null
+          invitee_phone?: string | null
+          relationship_type?: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other'
+          relationship_label?: string | null
+          can_view_health_data?: boolean
+          can_receive_alerts?: boolean
+          can_modify_settings?: boolean
+          status?: 'pending' | 'accepted' | 'revoked'
+          expires_at: string
+          accepted_by?: string | null
+          accepted_at?: string | null
+          relationship_id?: string | null
+          revoked_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          invited_by?: string | null
+          channel?: 'email' | 'whatsapp'
+          invitee_email?: string | null
+          invitee_phone?: string | null
+          relationship_type?: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other'
+          relationship_label?: string | null
+          can_view_health_data?: boolean
+          can_receive_alerts?: boolean
+          can_modify_settings?: boolean
+          status?: 'pending' | 'accepted' | 'revoked'
+          expires_at?: string
+          accepted_by?: string | null
+          accepted_at?: string | null
+          relationship_id?: string | null
+          revoked_by?: string | null
+          revoked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'care_invitations_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'care_invitations_invited_by_fkey'
+            columns: ['invited_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'care_invitations_accepted_by_fkey'
+            columns: ['accepted_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'care_invitations_relationship_id_fkey'
+            columns: ['relationship_id']
+            isOneToOne: false
+            referencedRelation: 'care_relationships'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'care_invitations_revoked_by_fkey'
+            columns: ['revoked_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       activity_log: {
         Row: {
@@ -364,6 +946,15 @@ export type Database = {
           user_agent?: string | null
           created_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: 'activity_log_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
       waitlist_signups: {
         Row: {
@@ -390,13 +981,723 @@ export type Database = {
           message?: string | null
           created_at?: string
         }
+        Relationships: []
+      }
+      switchbot_devices: {
+        Row: {
+          id: string
+          patient_id: string
+          device_mac: string
+          device_name: string
+          device_type: 'WoPresence'
+          location: string | null
+          is_active: boolean
+          sensitivity_seconds: number
+          escalation_minutes: number
+          last_event_at: string | null
+          metadata: Json
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          device_mac: string
+          device_name: string
+          device_type?: 'WoPresence'
+          location?: string | null
+          is_active?: boolean
+          sensitivity_seconds?: number
+          escalation_minutes?: number
+          last_event_at?: string | null
+          metadata?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          device_mac?: string
+          device_name?: string
+          device_type?: 'WoPresence'
+          location?: string | null
+          is_active?: boolean
+          sensitivity_seconds?: number
+          escalation_minutes?: number
+          last_event_at?: string | null
+          metadata?: Json
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'switchbot_devices_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      motion_sensor_events: {
+        Row: {
+          id: string
+          device_id: string
+          patient_id: string
+          event_type: 'changeReport'
+          detection_state: 'DETECTED' | 'NOT_DETECTED'
+          time_of_sample: number
+          recorded_at: string
+          device_mac: string
+          raw_payload: Json | null
+          processed: boolean
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          device_id: string
+          patient_id: string
+          event_type: 'changeReport'
+          detection_state: 'DETECTED' | 'NOT_DETECTED'
+          time_of_sample: number
+          recorded_at?: string
+          device_mac: string
+          raw_payload?: Json | null
+          processed?: boolean
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          device_id?: string
+          patient_id?: string
+          event_type?: 'changeReport'
+          detection_state?: 'DETECTED' | 'NOT_DETECTED'
+          time_of_sample?: number
+          recorded_at?: string
+          device_mac?: string
+          raw_payload?: Json | null
+          processed?: boolean
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'motion_sensor_events_device_id_fkey'
+            columns: ['device_id']
+            isOneToOne: false
+            referencedRelation: 'switchbot_devices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'motion_sensor_events_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      inactivity_monitoring: {
+        Row: {
+          id: string
+          device_id: string
+          patient_id: string
+          inactivity_started_at: string
+          inactivity_threshold_seconds: number
+          escalation_threshold_minutes: number
+          alert_created_at: string | null
+          check_in_sent_at: string | null
+          check_in_response_at: string | null
+          escalation_sent_at: string | null
+          resolved_at: string | null
+          status: 'monitoring' | 'check_in_sent' | 'escalated' | 'resolved' | 'false_alarm'
+          resolution_method: 'motion_resumed' | 'patient_response' | 'caregiver_dismissed' | 'admin_dismissed' | null
+          related_alert_id: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          device_id: string
+          patient_id: string
+          inactivity_started_at: string
+          inactivity_threshold_seconds: number
+          escalation_threshold_minutes: number
+          alert_created_at?: string | null
+          check_in_sent_at?: string | null
+          check_in_response_at?: string | null
+          escalation_sent_at?: string | null
+          resolved_at?: string | null
+          status?: 'monitoring' | 'check_in_sent' | 'escalated' | 'resolved' | 'false_alarm'
+          resolution_method?: 'motion_resumed' | 'patient_response' | 'caregiver_dismissed' | 'admin_dismissed' | null
+          related_alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          device_id?: string
+          patient_id?: string
+          inactivity_started_at?: string
+          inactivity_threshold_seconds?: number
+          escalation_threshold_minutes?: number
+          alert_created_at?: string | null
+          check_in_sent_at?: string | null
+          check_in_response_at?: string | null
+          escalation_sent_at?: string | null
+          resolved_at?: string | null
+          status?: 'monitoring' | 'check_in_sent' | 'escalated' | 'resolved' | 'false_alarm'
+          resolution_method?: 'motion_resumed' | 'patient_response' | 'caregiver_dismissed' | 'admin_dismissed' | null
+          related_alert_id?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'inactivity_monitoring_device_id_fkey'
+            columns: ['device_id']
+            isOneToOne: false
+            referencedRelation: 'switchbot_devices'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'inactivity_monitoring_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'inactivity_monitoring_related_alert_id_fkey'
+            columns: ['related_alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      health_metrics: {
+        Row: {
+          id: string
+          patient_id: string
+          metric_type: string
+          recorded_at: string
+          recorded_date: string
+          value_numeric: number | null
+          value_json: Json | null
+          unit: string | null
+          measurement_context: string | null
+          body_position: string | null
+          measurement_location: string | null
+          data_source: string | null
+          health_connect_id: string | null
+          recording_method: 'automatic' | 'manual' | null
+          device_info: Json | null
+          synced_from_device_at: string | null
+          synced_to_server_at: string
+          is_anomaly: boolean
+          anomaly_reason: string | null
+          alert_generated: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          metric_type: string
+          recorded_at: string
+          value_numeric?: number | null
+          value_json?: Json | null
+          unit?: string | null
+          measurement_context?: string | null
+          body_position?: string | null
+          measurement_location?: string | null
+          data_source?: string | null
+          health_connect_id?: string | null
+          recording_method?: 'automatic' | 'manual' | null
+          device_info?: Json | null
+          synced_from_device_at?: string | null
+          synced_to_server_at?: string
+          is_anomaly?: boolean
+          anomaly_reason?: string | null
+          alert_generated?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          metric_type?: string
+          recorded_at?: string
+          value_numeric?: number | null
+          value_json?: Json | null
+          unit?: string | null
+          measurement_context?: string | null
+          body_position?: string | null
+          measurement_location?: string | null
+          data_source?: string | null
+          health_connect_id?: string | null
+          recording_method?: 'automatic' | 'manual' | null
+          device_info?: Json | null
+          synced_from_device_at?: string | null
+          synced_to_server_at?: string
+          is_anomaly?: boolean
+          anomaly_reason?: string | null
+          alert_generated?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'health_metrics_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      health_sync_status: {
+        Row: {
+          id: string
+          patient_id: string
+          device_id: string
+          device_name: string | null
+          health_connect_available: boolean
+          health_connect_version: string | null
+          sync_enabled: boolean
+          sync_frequency_minutes: number
+          background_sync_enabled: boolean
+          enabled_metrics: string[] | null
+          last_successful_sync_at: string | null
+          last_sync_attempt_at: string | null
+          last_sync_status: 'success' | 'partial' | 'failed' | 'never' | null
+          last_sync_error: string | null
+          consecutive_failures: number
+          total_syncs: number
+          total_records_synced: number
+          last_records_count: number
+          permissions_granted: string[] | null
+          permissions_denied: string[] | null
+          last_permission_request_at: string | null
+          battery_optimization_disabled: boolean | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          device_id: string
+          device_name?: string | null
+          health_connect_available?: boolean
+          health_connect_version?: string | null
+          sync_enabled?: boolean
+          sync_frequency_minutes?: number
+          background_sync_enabled?: boolean
+          enabled_metrics?: string[] | null
+          last_successful_sync_at?: string | null
+          last_sync_attempt_at?: string | null
+          last_sync_status?: 'success' | 'partial' | 'failed' | 'never' | null
+          last_sync_error?: string | null
+          consecutive_failures?: number
+          total_syncs?: number
+          total_records_synced?: number
+          last_records_count?: number
+          permissions_granted?: string[] | null
+          permissions_denied?: string[] | null
+          last_permission_request_at?: string | null
+          battery_optimization_disabled?: boolean | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          device_id?: string
+          device_name?: string | null
+          health_connect_available?: boolean
+          health_connect_version?: string | null
+          sync_enabled?: boolean
+          sync_frequency_minutes?: number
+          background_sync_enabled?: boolean
+          enabled_metrics?: string[] | null
+          last_successful_sync_at?: string | null
+          last_sync_attempt_at?: string | null
+          last_sync_status?: 'success' | 'partial' | 'failed' | 'never' | null
+          last_sync_error?: string | null
+          consecutive_failures?: number
+          total_syncs?: number
+          total_records_synced?: number
+          last_records_count?: number
+          permissions_granted?: string[] | null
+          permissions_denied?: string[] | null
+          last_permission_request_at?: string | null
+          battery_optimization_disabled?: boolean | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'health_sync_status_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      health_metric_aggregates: {
+        Row: {
+          id: string
+          patient_id: string
+          metric_type: string
+          aggregation_period: 'hourly' | 'daily' | 'weekly' | 'monthly'
+          period_start: string
+          period_end: string
+          count: number
+          min_value: number | null
+          max_value: number | null
+          avg_value: number | null
+          sum_value: number | null
+          median_value: number | null
+          std_dev: number | null
+          percentiles: Json | null
+          time_in_range: Json | null
+          distribution: Json | null
+          trend_direction: 'up' | 'down' | 'stable' | 'volatile' | null
+          trend_percentage: number | null
+          anomaly_count: number
+          alert_count: number
+          data_quality_score: number | null
+          missing_data_points: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          metric_type: string
+          aggregation_period: 'hourly' | 'daily' | 'weekly' | 'monthly'
+          period_start: string
+          period_end: string
+          count?: number
+          min_value?: number | null
+          max_value?: number | null
+          avg_value?: number | null
+          sum_value?: number | null
+          median_value?: number | null
+          std_dev?: number | null
+          percentiles?: Json | null
+          time_in_range?: Json | null
+          distribution?: Json | null
+          trend_direction?: 'up' | 'down' | 'stable' | 'volatile' | null
+          trend_percentage?: number | null
+          anomaly_count?: number
+          alert_count?: number
+          data_quality_score?: number | null
+          missing_data_points?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          metric_type?: string
+          aggregation_period?: 'hourly' | 'daily' | 'weekly' | 'monthly'
+          period_start?: string
+          period_end?: string
+          count?: number
+          min_value?: number | null
+          max_value?: number | null
+          avg_value?: number | null
+          sum_value?: number | null
+          median_value?: number | null
+          std_dev?: number | null
+          percentiles?: Json | null
+          time_in_range?: Json | null
+          distribution?: Json | null
+          trend_direction?: 'up' | 'down' | 'stable' | 'volatile' | null
+          trend_percentage?: number | null
+          anomaly_count?: number
+          alert_count?: number
+          data_quality_score?: number | null
+          missing_data_points?: number
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'health_metric_aggregates_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      escalation_steps: {
+        Row: {
+          id: string
+          patient_id: string
+          step_order: number
+          target: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other' | 'emergency_contact'
+          wait_minutes: number
+          channels: ('email' | 'whatsapp' | 'sms')[]
+          created_by: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          step_order: number
+          target: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other' | 'emergency_contact'
+          wait_minutes?: number
+          channels?: ('email' | 'whatsapp' | 'sms')[]
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          step_order?: number
+          target?: 'primary_caregiver' | 'family_member' | 'healthcare_provider' | 'friend' | 'other' | 'emergency_contact'
+          wait_minutes?: number
+          channels?: ('email' | 'whatsapp' | 'sms')[]
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'escalation_steps_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'escalation_steps_created_by_fkey'
+            columns: ['created_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      alert_escalations: {
+        Row: {
+          id: string
+          alert_id: string
+          patient_id: string
+          step_order: number
+          target: string
+          recipient_id: string | null
+          recipient_name: string
+          channels: string[]
+          delivered_channels: string[]
+          notified_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          alert_id: string
+          patient_id: string
+          step_order: number
+          target: string
+          recipient_id?: string | null
+          recipient_name: string
+          channels: string[]
+          delivered_channels?: string[]
+          notified_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          alert_id?: string
+          patient_id?: string
+          step_order?: number
+          target?: string
+          recipient_id?: string | null
+          recipient_name?: string
+          channels?: string[]
+          delivered_channels?: string[]
+          notified_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'alert_escalations_alert_id_fkey'
+            columns: ['alert_id']
+            isOneToOne: false
+            referencedRelation: 'alerts'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alert_escalations_patient_id_fkey'
+            columns: ['patient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'alert_escalations_recipient_id_fkey'
+            columns: ['recipient_id']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      telegram_links: {
+        Row: {
+          user_id: string
+          telegram_user_id: number | null
+          link_code: string | null
+          link_code_expires_at: string | null
+          linked_at: string | null
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          telegram_user_id?: number | null
+          link_code?: string | null
+          link_code_expires_at?: string | null
+          linked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          telegram_user_id?: number | null
+          link_code?: string | null
+          link_code_expires_at?: string | null
+          linked_at?: string | null
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'telegram_links_user_id_fkey'
+            columns: ['user_id']
+            isOneToOne: true
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      system_settings: {
+        Row: {
+          version: number
+          settings: Json
+          changed_keys: string[]
+          updated_by: string | null
+          created_at: string
+        }
+        Insert: {
+          version: number
+          settings: Json
+          changed_keys?: string[]
+          updated_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          version?: number
+          settings?: Json
+          changed_keys?: string[]
+          updated_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'system_settings_updated_by_fkey'
+            columns: ['updated_by']
+            isOneToOne: false
+            referencedRelation: 'profiles'
+            referencedColumns: ['id']
+          },
+        ]
       }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      admin_create_user: {
+        Args: {
+          p_email: string
+          p_password?: string | null
+          p_full_name?: string | null
+          p_role?: string
+          p_phone_number?: string | null
+          p_date_of_birth?: string | null
+          p_emergency_contact_name?: string | null
+          p_emergency_contact_phone?: string | null
+        }
+        Returns: Json
+      }
+      add_care_circle_member: {
+        Args: {
+          p_patient_id: string
+          p_email: string
+          p_relationship_label?: string | null
+        }
+        Returns: string
+      }
+      revoke_care_invitation: {
+        Args: {
+          p_invitation_id: string
+        }
+        Returns: undefined
+      }
+      get_care_circle_members: {
+        Args: {
+          p_patient_id: string
+        }
+        Returns: {
+          relationship_id: string
+          caregiver_id: string
+          caregiver_name: string | null
+          caregiver_email: string | null
+          relationship_type: string
+          relationship_label: string | null
+          status: 'active' | 'inactive' | 'pending'
+          can_view_health_data: boolean
+          can_receive_alerts: boolean
+          can_modify_settings: boolean
+        }[]
+      }
+      update_care_permissions: {
+        Args: {
+          p_relationship_id: string
+          p_can_view_health_data: boolean
+          p_can_receive_alerts: boolean
+          p_can_modify_settings: boolean
+        }
+        Returns: undefined
+      }
+      save_escalation_ladder: {
+        Args: {
+          p_patient_id: string
+          p_steps: Pick<Database['public']['Tables']['escalation_steps']['Row'], 'target' | 'wait_minutes' | 'channels'>[]
+        }
+        Returns: undefined
+      }
+      respond_to_alert: {
+        Args: {
+          p_alert_id: string
+          p_action: 'acknowledge' | 'resolve' | 'false_alarm'
+          p_channel?: 'dashboard' | 'email' | 'whatsapp' | 'telegram'
+          p_notes?: string | null
+          p_responder_id?: string | null
+        }
+        Returns: Database['public']['Tables']['alerts']['Row']
+      }
+      create_telegram_link_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
@@ -15,7 +15,7 @@ export interface CreateUserInput {
   password?: string;
   full_name: string;
   display_name?: string;
-  role: 'admin' | 'caregiver' | 'senior';
+  role: 'admin' | 'caregiver' | 'senior' | 'family_member';
   phone_number?: string;
   date_of_birth?: string;
   emergency_contact_name?: string;
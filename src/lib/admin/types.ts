@@ -83,7 +83,7 @@ export interface RecentActivity {
  * User Filter Options
  */
 export interface UserFilterOptions {
-  role?: string;
+  role?: Tables<'profiles'>['role'];
   status?: 'active' | 'inactive';
   search?: string;
   sortBy?: 'created_at' | 'last_active_at' | 'full_name';
@@ -153,6 +153,26 @@ export interface SystemSettings {
   dataRetentionDays: number;
 }
 
+/**
+ * Current System Settings
+ * version is 0 until settings are first saved
+ */
+export interface StoredSystemSettings {
+  version: number;
+  settings: SystemSettings;
+  updatedAt: string | null;
+}
+
+/**
+ * System Settings Version (change history)
+ */
+export interface SystemSettingsVersion {
+  version: number;
+  changedKeys: (keyof SystemSettings)[];
+  createdAt: string;
+  updatedBy: { full_name: string | null; email: string } | null;
+}
+
 /**
  * Pagination Response
  */
@@ -5,7 +5,7 @@
  * data formatting, calculations, and common operations.
  */
 
-import type { AdminDashboardStats, RecentActivity } from './types';
+import type { AdminDashboardStats, RecentActivity, SystemSettings } from './types';
 import type { Tables } from '@/integrations/supabase/types';
 
 /**
@@ -350,3 +350,21 @@ export function formatPermissionLabel(permission: string): string {
     .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
     .join(' ');
 }
+
+/**
+ * System setting labels, as on the settings page
+ */
+export const SYSTEM_SETTING_LABELS: Record<keyof SystemSettings, string> = {
+  enableBetaFeatures: 'Beta Features',
+  enableVoiceCheckins: 'Voice Check-ins',
+  enableWhatsAppIntegration: 'WhatsApp Integration',
+  alertNotificationDelay: 'Alert Notification Delay',
+  escalationThreshold: 'Escalation Threshold',
+  dailySummaryTime: 'Daily Summary Time',
+  sessionTimeout: 'Session Timeout',
+  requireMFA: 'Require MFA',
+  passwordMinLength: 'Minimum Password Length',
+  maintenanceMode: 'Maintenance Mode',
+  maxCheckInsPerDay: 'Maximum Check-ins Per Day',
+  dataRetentionDays: 'Data Retention Period',
+};
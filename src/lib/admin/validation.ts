@@ -210,6 +210,26 @@ export const systemSettingsSchema = z.object({
 
 export type SystemSettingsInput = z.infer<typeof systemSettingsSchema>;
 
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettingsInput = systemSettingsSchema.parse({});
+
+/**
+ * Read a stored settings version, keeping each valid value and using the
+ * default for anything missing or invalid
+ */
+export function parseStoredSystemSettings(raw: unknown): SystemSettingsInput {
+  const stored = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const settings: Record<string, unknown> = { ...DEFAULT_SYSTEM_SETTINGS };
+
+  for (const [key, schema] of Object.entries(systemSettingsSchema.shape)) {
+    const result = schema.safeParse(stored[key]);
+    if (result.success) {
+      settings[key] = result.data;
+    }
+  }
+
+  return settings as SystemSettingsInput;
+}
+
 /**
  * Validation helper functions
  */
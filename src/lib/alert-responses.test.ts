@@ -0,0 +1,41 @@
+/**
+ * Unit Tests for Alert Response Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { alertResponseNoteSchema, getAlertReference, isOpenAlert, sortInboxAlerts } from './alert-responses';
+
+describe('getAlertReference', () => {
+  it('uses the start of the alert id', () => {
+    expect(getAlertReference('3f9a1c2e-5a4d-4e7f-9b6a-1c2d3e4f5a6b')).toBe('3F9A1C');
+  });
+});
+
+describe('isOpenAlert', () => {
+  it('treats active and acknowledged alerts as open', () => {
+    expect(isOpenAlert({ status: 'active' })).toBe(true);
+    expect(isOpenAlert({ status: 'acknowledged' })).toBe(true);
+    expect(isOpenAlert({ status: 'resolved' })).toBe(false);
+    expect(isOpenAlert({ status: 'false_alarm' })).toBe(false);
+  });
+});
+
+describe('sortInboxAlerts', () => {
+  it('puts alerts needing attention first, newest first within each group', () => {
+    const alerts = [
+      { id: 'resolved', status: 'resolved' as const, created_at: '2025-11-04T10:00:00Z' },
+      { id: 'handled', status: 'acknowledged' as const, created_at: '2025-11-04T09:00:00Z' },
+      { id: 'older', status: 'active' as const, created_at: '2025-11-04T07:00:00Z' },
+      { id: 'newer', status: 'active' as const, created_at: '2025-11-04T08:00:00Z' },
+    ];
+
+    expect(sortInboxAlerts(alerts).map((alert) => alert.id)).toEqual(['newer', 'older', 'handled', 'resolved']);
+  });
+});
+
+describe('alertResponseNoteSchema', () => {
+  it('limits notes to 500 characters', () => {
+    expect(alertResponseNoteSchema.safeParse('  She was in the garden  ').data).toBe('She was in the garden');
+    expect(alertResponseNoteSchema.safeParse('a'.repeat(501)).success).toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Alert Response Utilities
+ *
+ * Labels, validation and ordering for the caregiver alerts inbox and the
+ * /alert-response page. Alerts are answered through respond_to_alert();
+ * the reference matches the one quoted in WhatsApp and Telegram alerts
+ * (see the alert-responses edge function module).
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type AlertResponseAction = 'acknowledge' | 'resolve' | 'false_alarm';
+
+export type AlertStatus = Tables<'alerts'>['status'];
+
+export interface InboxAlert {
+  id: string;
+  alert_type: string;
+  severity: string;
+  status: AlertStatus;
+  alert_message: string;
+  created_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+  resolution_notes: string | null;
+  acknowledger: { full_name: string | null; display_name: string | null } | null;
+}
+
+export const ALERT_RESPONSE_LABELS: Record<AlertResponseAction, string> = {
+  acknowledge: "I'm handling it",
+  resolve: 'Resolved',
+  false_alarm: 'False alarm',
+};
+
+export const ALERT_STATUS_LABELS: Record<AlertStatus, string> = {
+  active: 'Needs attention',
+  acknowledged: 'Being handled',
+  resolved: 'Resolved',
+  false_alarm: 'False alarm',
+};
+
+/**
+ * Optional note when resolving or dismissing an alert
+ */
+export const alertResponseNoteSchema = z
+  .string()
+  .trim()
+  .max(500, 'Note must be less than 500 characters');
+
+/**
+ * Short reference quoted in WhatsApp and Telegram alerts
+ */
+export function getAlertReference(alertId: string): string {
+  return alertId.slice(0, 6).toUpperCase();
+}
+
+export function isOpenAlert(alert: Pick<InboxAlert, 'status'>): boolean {
+  return alert.status === 'active' || alert.status === 'acknowledged';
+}
+
+/**
+ * Alerts needing attention first, then ones being handled, then closed
+ * ones; newest first within each group
+ */
+export function sortInboxAlerts<T extends Pick<InboxAlert, 'status' | 'created_at'>>(alerts: T[]): T[] {
+  const rank = (status: string) => (status === 'active' ? 0 : status === 'acknowledged' ? 1 : 2);
+  return [...alerts].sort(
+    (a, b) => rank(a.status) - rank(b.status) || b.created_at.localeCompare(a.created_at)
+  );
+}
@@ -0,0 +1,67 @@
+/**
+ * Unit Tests for Care Overview Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildWeeklyTrend,
+  formatLastCheckIn,
+  getMoodScore,
+  summariesToCsv,
+  type OverviewSummary,
+} from './care-overview';
+
+const summary = (overrides: Partial<OverviewSummary>): OverviewSummary => ({
+  patient_id: 'patient-1',
+  summary_date: '2025-10-30',
+  check_in_count: 1,
+  overall_mood: null,
+  average_sentiment_score: null,
+  medication_taken: null,
+  activity_reported: false,
+  sleep_quality: null,
+  overall_status: 'ok',
+  status_reason: null,
+  summary_text: null,
+  ...overrides,
+});
+
+describe('getMoodScore', () => {
+  it('prefers sentiment and falls back to the overall mood', () => {
+    expect(getMoodScore({ average_sentiment_score: 0.4, overall_mood: 'sad' })).toBe(7);
+    expect(getMoodScore({ average_sentiment_score: null, overall_mood: 'happy' })).toBe(8);
+    expect(getMoodScore({ average_sentiment_score: null, overall_mood: null })).toBeNull();
+  });
+});
+
+describe('buildWeeklyTrend', () => {
+  it('has one point per day, oldest first, with gaps for missing summaries', () => {
+    const trend = buildWeeklyTrend(
+      [summary({ summary_date: '2025-10-30', check_in_count: 3, overall_mood: 'neutral' })],
+      new Date(2025, 9, 30, 12)
+    );
+
+    expect(trend).toHaveLength(7);
+    expect(trend[0]).toEqual({ date: '2025-10-24', day: 'Fri', mood: null, checkIns: 0 });
+    expect(trend[6]).toEqual({ date: '2025-10-30', day: 'Thu', mood: 5, checkIns: 3 });
+  });
+});
+
+describe('formatLastCheckIn', () => {
+  it('uses hours within a day and days after that', () => {
+    const now = new Date('2025-10-30T12:00:00Z');
+    expect(formatLastCheckIn('2025-10-30T10:00:00Z', now)).toBe('2 hr ago');
+    expect(formatLastCheckIn('2025-10-27T11:00:00Z', now)).toBe('3 days ago');
+    expect(formatLastCheckIn(null, now)).toBe('No check-ins yet');
+  });
+});
+
+describe('summariesToCsv', () => {
+  it('quotes cells containing commas or quotes', () => {
+    const csv = summariesToCsv(
+      [summary({ summary_text: 'Walked, then said "hi".' })],
+      { 'patient-1': 'Margaret' }
+    );
+    expect(csv.split('\n')[1]).toBe('2025-10-30,Margaret,ok,1,,"Walked, then said ""hi""."');
+  });
+});
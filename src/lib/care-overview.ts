@@ -0,0 +1,145 @@
+/**
+ * Care Overview Utilities
+ *
+ * Helpers for the multi-patient caregiver overview (/dashboard/overview):
+ * mood scores and 7-day trends from daily_summaries, last check-in labels,
+ * the CSV export, and the add-family-member form.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+import { getLocalDateString } from '@/lib/medications';
+import { formatTimeSince } from '@/lib/motion-timeline';
+
+export type OverviewStatus = Tables<'daily_summaries'>['overall_status'];
+
+export type OverviewSummary = Pick<
+  Tables<'daily_summaries'>,
+  | 'patient_id'
+  | 'summary_date'
+  | 'check_in_count'
+  | 'overall_mood'
+  | 'average_sentiment_score'
+  | 'medication_taken'
+  | 'activity_reported'
+  | 'sleep_quality'
+  | 'overall_status'
+  | 'status_reason'
+  | 'summary_text'
+>;
+
+export interface TrendPoint {
+  date: string;
+  day: string;
+  /** 0-10, null when there is no summary or mood for the day */
+  mood: number | null;
+  checkIns: number;
+}
+
+export const TREND_DAYS = 7;
+
+/** Mood scores for summaries without a sentiment score */
+const MOOD_SCORES: Record<string, number> = {
+  happy: 8,
+  neutral: 5,
+  sad: 3,
+  concerned: 2,
+};
+
+export const OVERVIEW_STATUS_LABELS: Record<OverviewStatus, string> = {
+  ok: 'Doing well',
+  warning: 'Needs attention',
+  alert: 'Alert',
+};
+
+/**
+ * Mood on a 0-10 scale: the day's average sentiment (-1 to 1) when there is
+ * one, otherwise the summary's overall mood
+ */
+export function getMoodScore(summary: Pick<OverviewSummary, 'average_sentiment_score' | 'overall_mood'>): number | null {
+  if (summary.average_sentiment_score !== null) {
+    return Math.round((summary.average_sentiment_score + 1) * 50) / 10;
+  }
+  if (summary.overall_mood && summary.overall_mood in MOOD_SCORES) {
+    return MOOD_SCORES[summary.overall_mood];
+  }
+  return null;
+}
+
+/**
+ * One point per day for the last TREND_DAYS days, oldest first. Days without
+ * a summary have no mood and no check-ins.
+ */
+export function buildWeeklyTrend(summaries: OverviewSummary[], now: Date = new Date()): TrendPoint[] {
+  const byDate = new Map(summaries.map((summary) => [summary.summary_date, summary]));
+
+  return Array.from({ length: TREND_DAYS }, (_, index) => {
+    const date = getLocalDateString(TREND_DAYS - 1 - index, now);
+    const [year, month, day] = date.split('-').map(Number);
+    const summary = byDate.get(date);
+
+    return {
+      date,
+      day: new Date(year, month - 1, day).toLocaleDateString('en-US', { weekday: 'short' }),
+      mood: summary ? getMoodScore(summary) : null,
+      checkIns: summary?.check_in_count ?? 0,
+    };
+  });
+}
+
+/**
+ * Days in the summaries with movement or steps recorded
+ */
+export function countActiveDays(summaries: Pick<OverviewSummary, 'activity_reported'>[]): number {
+  return summaries.filter((summary) => summary.activity_reported).length;
+}
+
+/**
+ * "2 hr 10 min ago" within a day, "3 days ago" after that
+ */
+export function formatLastCheckIn(startedAt: string | null, now: Date = new Date()): string {
+  if (!startedAt) return 'No check-ins yet';
+
+  const since = new Date(startedAt);
+  const days = Math.floor((now.getTime() - since.getTime()) / 86400000);
+  if (days < 1) return formatTimeSince(since, now);
+  return days === 1 ? '1 day ago' : `${days} days ago`;
+}
+
+function csvCell(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * CSV of daily summaries, one row per patient and day
+ */
+export function summariesToCsv(
+  summaries: OverviewSummary[],
+  patientNames: Record<string, string>
+): string {
+  const header = 'Date,Patient,Status,Check-ins,Mood,Summary';
+  const rows = summaries.map((summary) =>
+    [
+      summary.summary_date,
+      patientNames[summary.patient_id] || 'Unknown',
+      summary.overall_status,
+      String(summary.check_in_count),
+      summary.overall_mood || '',
+      summary.summary_text || '',
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [header, ...rows].join('\n');
+}
+
+/**
+ * Add family member form schema
+ */
+export const familyMemberSchema = z.object({
+  patientId: z.string().uuid('Choose who they will help care for'),
+  email: z.string().trim().email('Enter a valid email address'),
+  relationshipLabel: z.string().trim().max(50, 'Relationship must be 50 characters or less'),
+});
+
+export type FamilyMemberInput = z.infer<typeof familyMemberSchema>;
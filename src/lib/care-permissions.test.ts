@@ -0,0 +1,33 @@
+/**
+ * Unit Tests for Care Relationship Permission Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describePermissionChange, getCarePermissions } from './care-permissions';
+
+describe('getCarePermissions', () => {
+  it('grants nothing without a relationship', () => {
+    expect(getCarePermissions(undefined)).toEqual({
+      canViewHealthData: false,
+      canReceiveAlerts: false,
+      canModifySettings: false,
+    });
+    expect(
+      getCarePermissions({ can_view_health_data: true, can_receive_alerts: false, can_modify_settings: true })
+    ).toEqual({ canViewHealthData: true, canReceiveAlerts: false, canModifySettings: true });
+  });
+});
+
+describe('describePermissionChange', () => {
+  it('lists what was turned on and off', () => {
+    const before = { canViewHealthData: false, canReceiveAlerts: true, canModifySettings: false };
+
+    expect(describePermissionChange(before, { ...before, canReceiveAlerts: false })).toBe(
+      'Receive alerts turned off'
+    );
+    expect(
+      describePermissionChange(before, { canViewHealthData: true, canReceiveAlerts: false, canModifySettings: true })
+    ).toBe('View health data and Change settings turned on, Receive alerts turned off');
+    expect(describePermissionChange(before, before)).toBe('No changes');
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Care Relationship Permission Utilities
+ *
+ * The three permissions a care relationship grants, as shown in the
+ * invitation form, the permission editor and the caregiver dashboard. RLS
+ * and the edge functions enforce them; the UI hides or disables what a
+ * caregiver isn't allowed to see or change.
+ */
+
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CarePermissionKey = 'canViewHealthData' | 'canReceiveAlerts' | 'canModifySettings';
+
+export type CarePermissions = Record<CarePermissionKey, boolean>;
+
+type RelationshipFlags = Pick<
+  Tables<'care_relationships'>,
+  'can_view_health_data' | 'can_receive_alerts' | 'can_modify_settings'
+>;
+
+export const CARE_PERMISSIONS: { key: CarePermissionKey; label: string; description: string }[] = [
+  { key: 'canViewHealthData', label: 'View health data', description: 'Check-ins, summaries and health metrics' },
+  { key: 'canReceiveAlerts', label: 'Receive alerts', description: 'Emergency and missed check-in notifications' },
+  { key: 'canModifySettings', label: 'Change settings', description: 'Reminders, medications and check-in times' },
+];
+
+/**
+ * Permissions of a care relationship; nothing is granted without one
+ */
+export function getCarePermissions(relationship: Partial<RelationshipFlags> | null | undefined): CarePermissions {
+  return {
+    canViewHealthData: !!relationship?.can_view_health_data,
+    canReceiveAlerts: !!relationship?.can_receive_alerts,
+    canModifySettings: !!relationship?.can_modify_settings,
+  };
+}
+
+/**
+ * "Receive alerts turned off", "View health data and Change settings turned on"
+ */
+export function describePermissionChange(before: CarePermissions, after: CarePermissions): string {
+  const changed = CARE_PERMISSIONS.filter(({ key }) => before[key] !== after[key]);
+  if (changed.length === 0) return 'No changes';
+
+  const describe = (items: typeof changed, state: string) =>
+    items.length > 0 ? `${items.map((item) => item.label).join(' and ')} turned ${state}` : null;
+
+  return [
+    describe(changed.filter(({ key }) => after[key]), 'on'),
+    describe(changed.filter(({ key }) => !after[key]), 'off'),
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
@@ -0,0 +1,28 @@
+/**
+ * Unit Tests for Check-in Schedule Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkInScheduleSchema, findSpacingConflict } from './checkin-schedules';
+
+describe('checkInScheduleSchema', () => {
+  it('requires a 24-hour time, a channel and a reply window in range', () => {
+    expect(
+      checkInScheduleSchema.parse({ check_in_time: '09:00', channel: 'whatsapp', response_window_minutes: '60' })
+    ).toEqual({ check_in_time: '09:00', channel: 'whatsapp', response_window_minutes: 60 });
+    expect(
+      checkInScheduleSchema.safeParse({ check_in_time: '9am', channel: 'app', response_window_minutes: 60 }).success
+    ).toBe(false);
+    expect(
+      checkInScheduleSchema.safeParse({ check_in_time: '09:00', channel: 'app', response_window_minutes: 5 }).success
+    ).toBe(false);
+  });
+});
+
+describe('findSpacingConflict', () => {
+  it('keeps check-ins at least 3 hours apart', () => {
+    expect(findSpacingConflict('11:30', ['09:00:00', '18:00:00'])).toBe('09:00:00');
+    expect(findSpacingConflict('12:00', ['09:00:00', '18:00:00'])).toBeNull();
+    expect(findSpacingConflict('09:00', [])).toBeNull();
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Check-in Schedule Utilities
+ *
+ * Form validation and display helpers for the check-ins Parra starts on its
+ * own (dispatch-checkins). Times are the senior's local time. Bounds mirror
+ * the CHECK constraints on checkin_schedules.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CheckInChannel = Tables<'checkin_schedules'>['channel'];
+
+export type ScheduledCheckInStatus = Tables<'scheduled_checkins'>['status'];
+
+/** Matches MIN_CHECKIN_SPACING_HOURS in the dispatcher */
+export const MIN_CHECKIN_SPACING_HOURS = 3;
+
+export const RESPONSE_WINDOW_MIN = 15;
+export const RESPONSE_WINDOW_MAX = 240;
+export const RESPONSE_WINDOW_DEFAULT = 60;
+
+export const CHECKIN_CHANNEL_LABELS: Record<CheckInChannel, string> = {
+  whatsapp: 'WhatsApp',
+  app: 'Parra app',
+};
+
+export const CHECKIN_STATUS_LABELS: Record<ScheduledCheckInStatus, string> = {
+  sent: 'Waiting for reply',
+  answered: 'Answered',
+  missed: 'Missed',
+  skipped: 'Skipped',
+  failed: 'Not sent',
+};
+
+/**
+ * Check-in schedule form schema
+ */
+export const checkInScheduleSchema = z.object({
+  check_in_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Choose a time'),
+  channel: z.enum(['whatsapp', 'app']),
+  response_window_minutes: z.coerce
+    .number()
+    .int('Reply window must be a whole number of minutes')
+    .min(RESPONSE_WINDOW_MIN, `Reply window must be at least ${RESPONSE_WINDOW_MIN} minutes`)
+    .max(RESPONSE_WINDOW_MAX, `Reply window must be at most ${RESPONSE_WINDOW_MAX} minutes`),
+});
+
+export type CheckInScheduleInput = z.infer<typeof checkInScheduleSchema>;
+
+function toMinutes(time: string): number {
+  const [hour, minute] = time.split(':').map(Number);
+  return hour * 60 + minute;
+}
+
+/**
+ * An existing check-in time less than MIN_CHECKIN_SPACING_HOURS from `time`
+ * on the same day, or null when the new time is far enough from all of them
+ */
+export function findSpacingConflict(time: string, existingTimes: string[]): string | null {
+  const minutes = toMinutes(time);
+  return (
+    existingTimes.find((existing) => Math.abs(toMinutes(existing) - minutes) < MIN_CHECKIN_SPACING_HOURS * 60) ??
+    null
+  );
+}
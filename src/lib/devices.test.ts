@@ -0,0 +1,63 @@
+/**
+ * Unit Tests for SwitchBot Device Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { isDeviceOffline, normalizeMacAddress, switchbotDeviceSchema } from './devices';
+
+describe('normalizeMacAddress', () => {
+  it('normalizes separators and case', () => {
+    expect(normalizeMacAddress('aa:bb:cc:dd:ee:ff')).toBe('AA:BB:CC:DD:EE:FF');
+    expect(normalizeMacAddress('AA-BB-CC-DD-EE-FF')).toBe('AA:BB:CC:DD:EE:FF');
+    expect(normalizeMacAddress(' aabbccddeeff ')).toBe('AA:BB:CC:DD:EE:FF');
+  });
+
+  it('rejects invalid addresses', () => {
+    expect(normalizeMacAddress('AA:BB:CC:DD:EE')).toBeNull();
+    expect(normalizeMacAddress('GG:BB:CC:DD:EE:FF')).toBeNull();
+    expect(normalizeMacAddress('')).toBeNull();
+  });
+});
+
+describe('isDeviceOffline', () => {
+  const now = new Date('2025-10-24T12:00:00Z');
+
+  it('treats active sensors that never reported as offline', () => {
+    expect(isDeviceOffline({ is_active: true, last_event_at: null }, now)).toBe(true);
+  });
+
+  it('uses the offline threshold', () => {
+    expect(isDeviceOffline({ is_active: true, last_event_at: '2025-10-24T08:00:00Z' }, now)).toBe(false);
+    expect(isDeviceOffline({ is_active: true, last_event_at: '2025-10-23T08:00:00Z' }, now)).toBe(true);
+  });
+
+  it('never reports paused sensors as offline', () => {
+    expect(isDeviceOffline({ is_active: false, last_event_at: null }, now)).toBe(false);
+  });
+});
+
+describe('switchbotDeviceSchema', () => {
+  const valid = {
+    patient_id: '123e4567-e89b-12d3-a456-426614174000',
+    device_mac: 'aa-bb-cc-dd-ee-ff',
+    device_name: 'Bathroom Sensor',
+    location: '',
+    sensitivity_seconds: '30',
+    escalation_minutes: 10,
+    is_active: true,
+  };
+
+  it('normalizes valid input', () => {
+    const result = switchbotDeviceSchema.parse(valid);
+    expect(result.device_mac).toBe('AA:BB:CC:DD:EE:FF');
+    expect(result.location).toBeNull();
+    expect(result.sensitivity_seconds).toBe(30);
+  });
+
+  it('enforces the database threshold bounds', () => {
+    expect(switchbotDeviceSchema.safeParse({ ...valid, sensitivity_seconds: 5 }).success).toBe(false);
+    expect(switchbotDeviceSchema.safeParse({ ...valid, sensitivity_seconds: 301 }).success).toBe(false);
+    expect(switchbotDeviceSchema.safeParse({ ...valid, escalation_minutes: 4 }).success).toBe(false);
+    expect(switchbotDeviceSchema.safeParse({ ...valid, escalation_minutes: 61 }).success).toBe(false);
+  });
+});
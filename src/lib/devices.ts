@@ -0,0 +1,98 @@
+/**
+ * SwitchBot Device Utilities
+ *
+ * Validation and display helpers for the SwitchBot motion sensors used for
+ * fall detection. Threshold bounds mirror the CHECK constraints on
+ * switchbot_devices so the form rejects values the database would refuse.
+ */
+
+import { z } from 'zod';
+
+export const SENSITIVITY_SECONDS_MIN = 10;
+export const SENSITIVITY_SECONDS_MAX = 300;
+export const SENSITIVITY_SECONDS_DEFAULT = 30;
+
+export const ESCALATION_MINUTES_MIN = 5;
+export const ESCALATION_MINUTES_MAX = 60;
+export const ESCALATION_MINUTES_DEFAULT = 10;
+
+/**
+ * Sensors report on every motion change, so a sensor in an occupied home
+ * that has been silent this long is most likely offline (battery, Wi-Fi hub)
+ */
+export const DEVICE_OFFLINE_AFTER_HOURS = 24;
+
+/**
+ * Normalize a MAC address to the stored AA:BB:CC:DD:EE:FF form.
+ * Accepts colons, dashes or no separators; returns null if the input
+ * is not 12 hex digits.
+ */
+export function normalizeMacAddress(mac: string): string | null {
+  const trimmed = mac.trim();
+  if (!/^[0-9a-f:\-\s]+$/i.test(trimmed)) return null;
+
+  const hex = trimmed.replace(/[^0-9a-f]/gi, '').toUpperCase();
+  if (hex.length !== 12) return null;
+
+  return hex.match(/.{2}/g)!.join(':');
+}
+
+/**
+ * Whether a sensor should be shown as offline.
+ * A sensor that has never reported is offline; paused sensors are not.
+ */
+export function isDeviceOffline(
+  device: { is_active: boolean; last_event_at: string | null },
+  now: Date = new Date()
+): boolean {
+  if (!device.is_active) return false;
+  if (!device.last_event_at) return true;
+
+  const lastEvent = new Date(device.last_event_at).getTime();
+  return now.getTime() - lastEvent > DEVICE_OFFLINE_AFTER_HOURS * 60 * 60 * 1000;
+}
+
+/**
+ * Device form schema
+ */
+export const switchbotDeviceSchema = z.object({
+  patient_id: z.string().uuid('Select a patient'),
+  device_mac: z
+    .string()
+    .trim()
+    .min(1, 'MAC address is required')
+    .transform((value, ctx) => {
+      const normalized = normalizeMacAddress(value);
+      if (!normalized) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: 'MAC address must look like AA:BB:CC:DD:EE:FF',
+        });
+        return z.NEVER;
+      }
+      return normalized;
+    }),
+  device_name: z
+    .string()
+    .trim()
+    .min(1, 'Device name is required')
+    .max(100, 'Device name must be less than 100 characters'),
+  location: z
+    .string()
+    .trim()
+    .max(100, 'Location must be less than 100 characters')
+    .transform((value) => value || null),
+  sensitivity_seconds: z.coerce
+    .number()
+    .int('Sensitivity must be a whole number of seconds')
+    .min(SENSITIVITY_SECONDS_MIN, `Sensitivity must be at least ${SENSITIVITY_SECONDS_MIN} seconds`)
+    .max(SENSITIVITY_SECONDS_MAX, `Sensitivity must be at most ${SENSITIVITY_SECONDS_MAX} seconds`),
+  escalation_minutes: z.coerce
+    .number()
+    .int('Escalation must be a whole number of minutes')
+    .min(ESCALATION_MINUTES_MIN, `Escalation must be at least ${ESCALATION_MINUTES_MIN} minutes`)
+    .max(ESCALATION_MINUTES_MAX, `Escalation must be at most ${ESCALATION_MINUTES_MAX} minutes`),
+  is_active: z.boolean(),
+});
+
+export type SwitchbotDeviceInput = z.infer<typeof switchbotDeviceSchema>;
@@ -0,0 +1,57 @@
+/**
+ * Unit Tests for Escalation Ladder Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ESCALATION_LADDER,
+  escalationLadderSchema,
+  formatEscalationChannels,
+  formatEscalationWait,
+} from './escalation';
+
+describe('escalationLadderSchema', () => {
+  it('accepts the default ladder', () => {
+    expect(escalationLadderSchema.safeParse(DEFAULT_ESCALATION_LADDER).success).toBe(true);
+  });
+
+  it('requires a wait after the first step and a channel for each step', () => {
+    const noWait = escalationLadderSchema.safeParse([
+      { target: 'primary_caregiver', wait_minutes: 0, channels: ['email'] },
+      { target: 'family_member', wait_minutes: 0, channels: ['email'] },
+    ]);
+    expect(noWait.success).toBe(false);
+    expect(noWait.error?.errors[0].message).toBe('Step 2 needs a wait time of at least 1 minute');
+
+    expect(
+      escalationLadderSchema.safeParse([{ target: 'primary_caregiver', wait_minutes: 0, channels: [] }]).success
+    ).toBe(false);
+    expect(escalationLadderSchema.safeParse([]).success).toBe(false);
+  });
+
+  it('only reaches the emergency contact by phone', () => {
+    const result = escalationLadderSchema.safeParse([
+      { target: 'emergency_contact', wait_minutes: 0, channels: ['email', 'sms'] },
+    ]);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.errors[0].message).toBe('The emergency contact can only be reached by WhatsApp or SMS');
+  });
+});
+
+describe('formatEscalationWait', () => {
+  it('describes the wait before a step', () => {
+    expect(formatEscalationWait(0)).toBe('Immediately');
+    expect(formatEscalationWait(1)).toBe('After 1 minute');
+    expect(formatEscalationWait(60)).toBe('After 1 hour');
+    expect(formatEscalationWait(90)).toBe('After 1 hour 30 minutes');
+  });
+});
+
+describe('formatEscalationChannels', () => {
+  it('joins channel labels', () => {
+    expect(formatEscalationChannels(['email'])).toBe('Email');
+    expect(formatEscalationChannels(['email', 'whatsapp', 'sms'])).toBe('Email, WhatsApp and SMS');
+    expect(formatEscalationChannels([])).toBe('');
+  });
+});
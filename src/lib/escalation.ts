@@ -0,0 +1,112 @@
+/**
+ * Escalation Ladder Utilities
+ *
+ * Form validation and display helpers for a patient's alert escalation
+ * ladder (escalation_steps). The default ladder and bounds mirror the
+ * escalation module used by send-whatsapp-notification and the CHECK
+ * constraints on escalation_steps.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type EscalationTarget = Tables<'escalation_steps'>['target'];
+
+export type EscalationChannel = Tables<'escalation_steps'>['channels'][number];
+
+export interface EscalationStepInput {
+  target: EscalationTarget;
+  wait_minutes: number;
+  channels: EscalationChannel[];
+}
+
+export const MAX_ESCALATION_STEPS = 6;
+export const ESCALATION_WAIT_MAX = 240;
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  primary_caregiver: 'Primary caregiver',
+  family_member: 'Family members',
+  healthcare_provider: 'Healthcare providers',
+  friend: 'Friends',
+  other: 'Others in the care circle',
+  emergency_contact: 'Emergency contact',
+};
+
+export const ESCALATION_CHANNEL_LABELS: Record<EscalationChannel, string> = {
+  email: 'Email',
+  whatsapp: 'WhatsApp',
+  sms: 'SMS',
+};
+
+/** Matches DEFAULT_ESCALATION_LADDER in the notification function */
+export const DEFAULT_ESCALATION_LADDER: EscalationStepInput[] = [
+  { target: 'primary_caregiver', wait_minutes: 0, channels: ['email', 'whatsapp'] },
+  { target: 'family_member', wait_minutes: 10, channels: ['email', 'whatsapp'] },
+  { target: 'emergency_contact', wait_minutes: 15, channels: ['whatsapp', 'sms'] },
+];
+
+const escalationStepSchema = z
+  .object({
+    target: z.enum([
+      'primary_caregiver',
+      'family_member',
+      'healthcare_provider',
+      'friend',
+      'other',
+      'emergency_contact',
+    ]),
+    wait_minutes: z.coerce
+      .number()
+      .int('Wait time must be a whole number of minutes')
+      .min(0, 'Wait time cannot be negative')
+      .max(ESCALATION_WAIT_MAX, `Wait time must be at most ${ESCALATION_WAIT_MAX} minutes`),
+    channels: z.array(z.enum(['email', 'whatsapp', 'sms'])).min(1, 'Choose at least one way to contact each step'),
+  })
+  .refine((step) => step.target !== 'emergency_contact' || !step.channels.includes('email'), {
+    message: 'The emergency contact can only be reached by WhatsApp or SMS',
+    path: ['channels'],
+  });
+
+/**
+ * Escalation ladder form schema
+ */
+export const escalationLadderSchema = z
+  .array(escalationStepSchema)
+  .min(1, 'Add at least one step')
+  .max(MAX_ESCALATION_STEPS, `A ladder can have at most ${MAX_ESCALATION_STEPS} steps`)
+  .superRefine((steps, ctx) => {
+    steps.forEach((step, index) => {
+      if (index > 0 && step.wait_minutes < 1) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Step ${index + 1} needs a wait time of at least 1 minute`,
+          path: [index, 'wait_minutes'],
+        });
+      }
+    });
+  });
+
+/**
+ * "Immediately", "After 10 minutes", "After 1 hour 30 minutes"
+ */
+export function formatEscalationWait(minutes: number): string {
+  if (minutes <= 0) return 'Immediately';
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  const parts = [
+    hours > 0 ? `${hours} hour${hours === 1 ? '' : 's'}` : null,
+    rest > 0 ? `${rest} minute${rest === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+
+  return `After ${parts.join(' ')}`;
+}
+
+/**
+ * "Email and WhatsApp", "WhatsApp, SMS and Email"
+ */
+export function formatEscalationChannels(channels: string[]): string {
+  const labels = channels.map((channel) => ESCALATION_CHANNEL_LABELS[channel as EscalationChannel] || channel);
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
@@ -0,0 +1,195 @@
+/**
+ * Health Export Import Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { parseHealthExport, splitCsvLine, summarizeImport } from './health-import';
+
+const TIME_ZONE = 'America/New_York';
+
+const HEART_RATE_CSV = [
+  'com.samsung.health.heart_rate,6313001,2',
+  'start_time,end_time,heart_rate,heart_beat_count,comment,custom,update_time,device_uuid,create_time,datauuid',
+  '2025-10-17 08:30:00,2025-10-17 08:30:00,72.0,,,{"device_manufacturer":"Samsung","device_model":"SM-R930"},2025-10-17 08:30:05,abc123,2025-10-17 08:30:05,uuid-1',
+  '2025-10-17 09:00:00.000,2025-10-17 09:00:00,,,,,2025-10-17 09:00:05,abc123,2025-10-17 09:00:05,uuid-2',
+].join('\n');
+
+function fitPoint(dataTypeName: string, startMs: number, endMs: number, values: Array<{ fpVal?: number; intVal?: number }>) {
+  return {
+    dataTypeName,
+    startTimeNanos: String(startMs * 1e6),
+    endTimeNanos: String(endMs * 1e6),
+    fitValue: values.map((value) => ({ value })),
+  };
+}
+
+describe('splitCsvLine', () => {
+  it('should keep quoted fields and unquoted JSON together', () => {
+    expect(splitCsvLine('a,"b, c",{"x":1,"y":2},')).toEqual(['a', 'b, c', '{"x":1,"y":2}', '']);
+    expect(splitCsvLine('"say ""hi""",2')).toEqual(['say "hi"', '2']);
+  });
+});
+
+describe('parseHealthExport (Samsung Health)', () => {
+  it('should parse heart rate readings and skip rows without a value', () => {
+    const result = parseHealthExport('com.samsung.health.heart_rate.20251017123456.csv', HEART_RATE_CSV, TIME_ZONE);
+
+    expect(result.source).toBe('Samsung Health');
+    expect(result.skippedRows).toBe(1);
+    expect(result.records).toEqual([
+      {
+        metricType: 'heart_rate',
+        recordedAt: '2025-10-17T08:30:00.000Z',
+        healthConnectId: 'samsung:uuid-1',
+        value: 72,
+        unit: 'bpm',
+        dataSource: 'Samsung Health',
+        deviceInfo: { device_manufacturer: 'Samsung', device_model: 'SM-R930' },
+      },
+    ]);
+  });
+
+  it('should read columns prefixed with the data type and detect the type from the file name', () => {
+    const csv = [
+      'com.samsung.health.blood_pressure.start_time,com.samsung.health.blood_pressure.systolic,com.samsung.health.blood_pressure.diastolic,com.samsung.health.blood_pressure.pulse',
+      '2025-10-17 07:45:00,128,82,66',
+    ].join('\n');
+
+    expect(parseHealthExport('com.samsung.health.blood_pressure.csv', csv, TIME_ZONE).records).toEqual([
+      {
+        metricType: 'blood_pressure',
+        recordedAt: '2025-10-17T07:45:00.000Z',
+        healthConnectId: 'samsung:blood_pressure:2025-10-17T07:45:00.000Z',
+        valueJson: { systolic: 128, diastolic: 82, pulse: 66 },
+        unit: 'mmHg',
+        dataSource: 'Samsung Health',
+      },
+    ]);
+  });
+
+  it('should turn sleep rows into sessions with a duration', () => {
+    const csv = [
+      'com.samsung.health.sleep',
+      'start_time,end_time,sleep_stage,comment',
+      '2025-10-16 23:00:00,2025-10-17 06:06:00,40001,',
+    ].join('\n');
+
+    expect(parseHealthExport('sleep.csv', csv, TIME_ZONE).records[0]).toMatchObject({
+      metricType: 'sleep_session',
+      recordedAt: '2025-10-16T23:00:00.000Z',
+      valueJson: { duration_minutes: 426 },
+    });
+  });
+
+  it('should keep one step total per day', () => {
+    const csv = [
+      'com.samsung.shealth.tracker.pedometer_day_summary',
+      'day_time,step_count,distance,calorie,speed',
+      '1760659200000,8456,6834.5,487.2,4.5',
+      '1760659200000,3120,2500,180,4.1',
+    ].join('\n');
+
+    const { records } = parseHealthExport('pedometer.csv', csv, TIME_ZONE);
+    expect(records).toHaveLength(1);
+    expect(records[0]).toMatchObject({
+      metricType: 'steps',
+      healthConnectId: 'samsung:steps:2025-10-17',
+      recordedAt: '2025-10-17T04:00:00.000Z',
+      value: 8456,
+    });
+  });
+
+  it('should reject files that are not supported Samsung exports', () => {
+    expect(() => parseHealthExport('notes.csv', 'a,b\n1,2', TIME_ZONE)).toThrow('not a supported Samsung Health export');
+    expect(() => parseHealthExport('export.zip', '', TIME_ZONE)).toThrow('not a CSV or JSON file');
+  });
+});
+
+describe('parseHealthExport (Google Fit)', () => {
+  const dayStart = Date.UTC(2025, 9, 17);
+  const hour = 60 * 60 * 1000;
+
+  it('should parse readings, daily steps and blood pressure', () => {
+    const json = JSON.stringify({
+      'Data Source': 'derived:com.google.heart_rate.bpm:merged',
+      'Data Points': [
+        fitPoint('com.google.heart_rate.bpm', dayStart + 8 * hour, dayStart + 8 * hour, [{ fpVal: 71 }]),
+        fitPoint('com.google.step_count.delta', dayStart + 9 * hour, dayStart + 10 * hour, [{ intVal: 1200 }]),
+        fitPoint('com.google.step_count.delta', dayStart + 11 * hour, dayStart + 12 * hour, [{ intVal: 800 }]),
+        fitPoint('com.google.blood_pressure', dayStart + 7 * hour, dayStart + 7 * hour, [{ fpVal: 131.4 }, { fpVal: 84.6 }]),
+        fitPoint('com.google.heart_rate.bpm', dayStart, dayStart, []),
+      ],
+    });
+
+    const result = parseHealthExport('Fit/All Data/derived_com.google.heart_rate.bpm.json', json, TIME_ZONE);
+
+    expect(result.source).toBe('Google Fit');
+    expect(result.skippedRows).toBe(1);
+    expect(result.records).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ metricType: 'heart_rate', value: 71, unit: 'bpm', recordedAt: '2025-10-17T08:00:00.000Z' }),
+        expect.objectContaining({ metricType: 'steps', value: 2000, healthConnectId: 'googlefit:steps:2025-10-17' }),
+        expect.objectContaining({ metricType: 'blood_pressure', valueJson: { systolic: 131, diastolic: 85 } }),
+      ])
+    );
+  });
+
+  it('should total steps by the patient\'s local day', () => {
+    const json = JSON.stringify({
+      'Data Points': [
+        fitPoint('com.google.step_count.delta', dayStart + 2 * hour, dayStart + 3 * hour, [{ intVal: 500 }]),
+        fitPoint('com.google.step_count.delta', dayStart + 14 * hour, dayStart + 15 * hour, [{ intVal: 1500 }]),
+      ],
+    });
+
+    const { records } = parseHealthExport('steps.json', json, TIME_ZONE);
+    expect(records).toEqual([
+      expect.objectContaining({ healthConnectId: 'googlefit:steps:2025-10-16', recordedAt: '2025-10-16T04:00:00.000Z', value: 500 }),
+      expect.objectContaining({ healthConnectId: 'googlefit:steps:2025-10-17', recordedAt: '2025-10-17T04:00:00.000Z', value: 1500 }),
+    ]);
+  });
+
+  it('should fall back to the default timezone for an unknown one', () => {
+    const json = JSON.stringify({
+      'Data Points': [fitPoint('com.google.step_count.delta', dayStart + 2 * hour, dayStart + 3 * hour, [{ intVal: 500 }])],
+    });
+
+    expect(parseHealthExport('steps.json', json, 'Not/AZone').records[0]).toMatchObject({
+      healthConnectId: 'googlefit:steps:2025-10-16',
+    });
+  });
+
+  it('should merge sleep segments into nights without awake time', () => {
+    const night = dayStart - 2 * hour;
+    const json = JSON.stringify({
+      'Data Points': [
+        fitPoint('com.google.sleep.segment', night, night + 3 * hour, [{ intVal: 4 }]),
+        fitPoint('com.google.sleep.segment', night + 3 * hour, night + 3.5 * hour, [{ intVal: 1 }]),
+        fitPoint('com.google.sleep.segment', night + 3.5 * hour, night + 7 * hour, [{ intVal: 5 }]),
+      ],
+    });
+
+    const { records } = parseHealthExport('sleep.json', json, TIME_ZONE);
+    expect(records).toEqual([
+      expect.objectContaining({
+        metricType: 'sleep_session',
+        valueJson: expect.objectContaining({ duration_minutes: 390 }),
+      }),
+    ]);
+  });
+
+  it('should reject JSON that is not a Fit export', () => {
+    expect(() => parseHealthExport('data.json', '{"foo":1}', TIME_ZONE)).toThrow('not a Google Fit data export');
+    expect(() => parseHealthExport('data.json', '{', TIME_ZONE)).toThrow('not valid JSON');
+  });
+});
+
+describe('summarizeImport', () => {
+  it('should count records and date ranges per metric', () => {
+    const { records } = parseHealthExport('com.samsung.health.heart_rate.csv', HEART_RATE_CSV.replace(',,,,,2025-10-17 09:00:05', ',75,,,,2025-10-17 09:00:05'), TIME_ZONE);
+
+    expect(summarizeImport(records)).toEqual([
+      { metricType: 'heart_rate', count: 2, from: '2025-10-17T08:30:00.000Z', to: '2025-10-17T09:00:00.000Z' },
+    ]);
+  });
+});
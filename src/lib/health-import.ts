@@ -0,0 +1,589 @@
+/**
+ * Health Export Import
+ *
+ * Parses Samsung Health CSV exports and Google Takeout Fit JSON files into
+ * records for the health-sync Edge Function, which validates units, skips
+ * records that were already imported and stores the rest in health_metrics.
+ *
+ * Record ids are derived from the export (Samsung datauuid, Fit timestamps),
+ * so importing the same file twice reports every record as a duplicate.
+ *
+ * Daily step totals belong to the patient's local day (their profile
+ * timezone) and are recorded at that day's local midnight.
+ */
+
+export type HealthImportSource = 'Samsung Health' | 'Google Fit';
+
+/**
+ * Record in the shape accepted by the health-sync Edge Function
+ */
+export interface ImportedHealthRecord {
+  metricType: string;
+  recordedAt: string;
+  healthConnectId: string;
+  value?: number;
+  valueJson?: Record<string, unknown>;
+  unit?: string;
+  dataSource: HealthImportSource;
+  deviceInfo?: Record<string, unknown>;
+}
+
+export interface ParsedHealthExport {
+  fileName: string;
+  source: HealthImportSource;
+  records: ImportedHealthRecord[];
+  /** Rows that could not be read (missing values, bad timestamps) */
+  skippedRows: number;
+}
+
+export interface HealthImportSummary {
+  metricType: string;
+  count: number;
+  /** ISO timestamps of the earliest and latest record */
+  from: string;
+  to: string;
+}
+
+/** health-sync device ids used for imported files */
+export const IMPORT_DEVICE_IDS: Record<HealthImportSource, string> = {
+  'Samsung Health': 'import:samsung-health',
+  'Google Fit': 'import:google-fit',
+};
+
+/** Gap between Google Fit sleep segments that starts a new night */
+const SLEEP_SESSION_GAP_MS = 60 * 60 * 1000;
+
+/** profiles.timezone default, for patients without a valid timezone */
+const DEFAULT_TIME_ZONE = 'America/New_York';
+
+// ============================================================================
+// Shared helpers
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) return DEFAULT_TIME_ZONE;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    return DEFAULT_TIME_ZONE;
+  }
+}
+
+/** YYYY-MM-DD (UTC) */
+function utcDay(iso: string): string {
+  return iso.slice(0, 10);
+}
+
+/** YYYY-MM-DD in the patient's timezone, for grouping daily totals */
+function localDay(iso: string, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(
+    new Date(iso)
+  );
+}
+
+/** Offset of the timezone from UTC at an instant, in ms */
+function timeZoneOffsetMs(time: number, timeZone: string): number {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+      .formatToParts(new Date(time))
+      .map((part) => [part.type, Number(part.value)])
+  );
+  const local = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return local - Math.floor(time / 1000) * 1000;
+}
+
+/** ISO timestamp of the start of a local day (YYYY-MM-DD) in the timezone */
+function localMidnight(day: string, timeZone: string): string {
+  const utcMidnight = Date.parse(`${day}T00:00:00.000Z`);
+  const guess = utcMidnight - timeZoneOffsetMs(utcMidnight, timeZone);
+  return new Date(utcMidnight - timeZoneOffsetMs(guess, timeZone)).toISOString();
+}
+
+/**
+ * Keep the largest daily value per day (exports can repeat a day per source)
+ */
+function dailyMax(records: ImportedHealthRecord[]): ImportedHealthRecord[] {
+  const byId = new Map<string, ImportedHealthRecord>();
+  for (const record of records) {
+    const current = byId.get(record.healthConnectId);
+    if (!current || (record.value ?? 0) > (current.value ?? 0)) {
+      byId.set(record.healthConnectId, record);
+    }
+  }
+  return [...byId.values()];
+}
+
+// ============================================================================
+// Samsung Health CSV
+// ============================================================================
+
+interface SamsungRow {
+  get: (column: string) => string | undefined;
+}
+
+/**
+ * Split a CSV line into fields. Besides quoted fields, Samsung exports embed
+ * unquoted JSON in the "custom" column, so commas inside braces are kept.
+ */
+export function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let braceDepth = 0;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '' && braceDepth === 0) {
+      inQuotes = true;
+    } else if (char === ',' && braceDepth === 0) {
+      fields.push(field);
+      field = '';
+    } else {
+      if (char === '{') braceDepth++;
+      if (char === '}') braceDepth = Math.max(0, braceDepth - 1);
+      field += char;
+    }
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+/**
+ * Samsung timestamps are UTC, either "2025-10-17 08:30:00(.000)" or epoch ms
+ */
+function parseSamsungTime(value: string | undefined): string | null {
+  if (!value) return null;
+  const trimmed = value.trim();
+  const date = /^\d+$/.test(trimmed)
+    ? new Date(Number(trimmed))
+    : new Date(`${trimmed.replace(' ', 'T')}${/[zZ]|[+-]\d{2}:?\d{2}$/.test(trimmed) ? '' : 'Z'}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+function parseCustomJson(value: string | undefined): Record<string, unknown> | undefined {
+  if (!value || !value.trim().startsWith('{')) return undefined;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isObject(parsed) ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+type SamsungParser = (row: SamsungRow, type: string, timeZone: string) => ImportedHealthRecord | null;
+
+function samsungId(row: SamsungRow, type: string, recordedAt: string): string {
+  const uuid = row.get('datauuid');
+  return uuid ? `samsung:${uuid}` : `samsung:${type}:${recordedAt}`;
+}
+
+function samsungReading(
+  metricType: string,
+  valueColumns: string[],
+  unit: string
+): SamsungParser {
+  return (row, type) => {
+    const recordedAt = parseSamsungTime(row.get('start_time'));
+    const value = valueColumns.map((column) => toNumber(row.get(column))).find((v) => v !== null);
+    if (!recordedAt || value === null || value === undefined) return null;
+
+    return {
+      metricType,
+      recordedAt,
+      healthConnectId: samsungId(row, type, recordedAt),
+      value,
+      unit,
+      dataSource: 'Samsung Health',
+      deviceInfo: parseCustomJson(row.get('custom')),
+    };
+  };
+}
+
+const SAMSUNG_PARSERS: Record<string, SamsungParser> = {
+  heart_rate: samsungReading('heart_rate', ['heart_rate'], 'bpm'),
+  oxygen_saturation: samsungReading('oxygen_saturation', ['spo2', 'oxygen_saturation'], '%'),
+  weight: samsungReading('weight', ['weight'], 'kg'),
+  blood_glucose: samsungReading('blood_glucose', ['glucose'], 'mmol/L'),
+  water_intake: samsungReading('hydration', ['amount'], 'mL'),
+
+  blood_pressure: (row, type) => {
+    const recordedAt = parseSamsungTime(row.get('start_time'));
+    const systolic = toNumber(row.get('systolic'));
+    const diastolic = toNumber(row.get('diastolic'));
+    if (!recordedAt || systolic === null || diastolic === null) return null;
+
+    const pulse = toNumber(row.get('pulse'));
+    return {
+      metricType: 'blood_pressure',
+      recordedAt,
+      healthConnectId: samsungId(row, type, recordedAt),
+      valueJson: pulse === null ? { systolic, diastolic } : { systolic, diastolic, pulse },
+      unit: 'mmHg',
+      dataSource: 'Samsung Health',
+    };
+  },
+
+  sleep: (row, type) => {
+    const start = parseSamsungTime(row.get('start_time'));
+    const end = parseSamsungTime(row.get('end_time'));
+    if (!start || !end) return null;
+
+    const durationMinutes = Math.round((new Date(end).getTime() - new Date(start).getTime()) / 60000);
+    if (durationMinutes <= 0) return null;
+
+    return {
+      metricType: 'sleep_session',
+      recordedAt: start,
+      healthConnectId: samsungId(row, type, start),
+      valueJson: { duration_minutes: durationMinutes, start_time: start, end_time: end },
+      dataSource: 'Samsung Health',
+    };
+  },
+
+  pedometer_day_summary: (row, _type, timeZone) => {
+    const dayTime = parseSamsungTime(row.get('day_time'));
+    const steps = toNumber(row.get('step_count'));
+    if (!dayTime || steps === null) return null;
+
+    // day_time is midnight UTC of the local day the total is for
+    const day = utcDay(dayTime);
+    return {
+      metricType: 'steps',
+      recordedAt: localMidnight(day, timeZone),
+      healthConnectId: `samsung:steps:${day}`,
+      value: steps,
+      unit: 'steps',
+      dataSource: 'Samsung Health',
+    };
+  },
+};
+
+/**
+ * Data type of a Samsung export, from the first line ("com.samsung.health.heart_rate,...")
+ * or the file name ("com.samsung.shealth.tracker.heart_rate.20251017123456.csv")
+ */
+function samsungDataType(fileName: string, firstLine: string): string | null {
+  const candidates = [splitCsvLine(firstLine)[0], fileName.replace(/(\.\d{8,})?\.csv$/i, '')];
+
+  for (const candidate of candidates) {
+    if (!candidate?.startsWith('com.samsung.')) continue;
+    const type = Object.keys(SAMSUNG_PARSERS).find((key) => candidate.endsWith(`.${key}`));
+    if (type) return type;
+  }
+
+  return null;
+}
+
+function parseSamsungCsv(fileName: string, text: string, timeZone: string): ParsedHealthExport {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim() !== '');
+  const type = samsungDataType(fileName, lines[0] || '');
+
+  if (!type) {
+    throw new Error(`${fileName} is not a supported Samsung Health export`);
+  }
+
+  // The first line usually names the data type ("com.samsung.health.heart_rate,6313001,5");
+  // column headers follow
+  const [, ...metadata] = splitCsvLine(lines[0]);
+  const headerIndex = metadata.length <= 2 && metadata.every((field) => /^\d*$/.test(field.trim())) ? 1 : 0;
+  // Columns may be prefixed with the data type ("com.samsung.health.heart_rate.heart_rate")
+  const columns = splitCsvLine(lines[headerIndex] || '').map((column) => column.trim().split('.').pop() || '');
+  const parse = SAMSUNG_PARSERS[type];
+
+  let records: ImportedHealthRecord[] = [];
+  let skippedRows = 0;
+
+  for (const line of lines.slice(headerIndex + 1)) {
+    const fields = splitCsvLine(line);
+    const row: SamsungRow = {
+      get: (column) => {
+        const index = columns.indexOf(column);
+        return index === -1 ? undefined : fields[index];
+      },
+    };
+
+    const record = parse(row, type, timeZone);
+    if (record) {
+      records.push(record);
+    } else {
+      skippedRows++;
+    }
+  }
+
+  if (type === 'pedometer_day_summary') {
+    records = dailyMax(records);
+  }
+
+  return { fileName, source: 'Samsung Health', records, skippedRows };
+}
+
+// ============================================================================
+// Google Takeout Fit JSON
+// ============================================================================
+
+interface FitDataPoint {
+  dataTypeName?: string;
+  startTimeNanos?: string | number;
+  endTimeNanos?: string | number;
+  fitValue?: Array<{ value?: { fpVal?: number; intVal?: number } }>;
+}
+
+/** Google Fit sleep stages that are not sleep: awake, out of bed */
+const FIT_AWAKE_STAGES = [1, 3];
+
+function nanosToIso(nanos: string | number | undefined): string | null {
+  if (nanos === undefined) return null;
+  const ms = Math.floor(Number(nanos) / 1e6);
+  if (!Number.isFinite(ms) || ms <= 0) return null;
+  return new Date(ms).toISOString();
+}
+
+function fitValue(point: FitDataPoint, index = 0): number | null {
+  const value = point.fitValue?.[index]?.value;
+  const number = value?.fpVal ?? value?.intVal;
+  return typeof number === 'number' && Number.isFinite(number) ? number : null;
+}
+
+const FIT_READINGS: Record<string, { metricType: string; unit: string }> = {
+  'com.google.heart_rate.bpm': { metricType: 'heart_rate', unit: 'bpm' },
+  'com.google.weight': { metricType: 'weight', unit: 'kg' },
+  'com.google.oxygen_saturation': { metricType: 'oxygen_saturation', unit: '%' },
+  'com.google.blood_glucose': { metricType: 'blood_glucose', unit: 'mmol/L' },
+  'com.google.hydration': { metricType: 'hydration', unit: 'L' },
+};
+
+/**
+ * Merge sleep segments into nights, counting only time asleep
+ */
+function fitSleepSessions(points: FitDataPoint[]): ImportedHealthRecord[] {
+  const segments = points
+    .map((point) => ({
+      start: Number(point.startTimeNanos) / 1e6,
+      end: Number(point.endTimeNanos) / 1e6,
+      stage: fitValue(point),
+    }))
+    .filter((segment) => Number.isFinite(segment.start) && segment.end > segment.start)
+    .sort((a, b) => a.start - b.start);
+
+  const sessions: Array<{ start: number; end: number; asleepMs: number }> = [];
+  for (const segment of segments) {
+    const asleepMs = FIT_AWAKE_STAGES.includes(segment.stage ?? 0) ? 0 : segment.end - segment.start;
+    const current = sessions[sessions.length - 1];
+
+    if (current && segment.start - current.end <= SLEEP_SESSION_GAP_MS) {
+      current.end = Math.max(current.end, segment.end);
+      current.asleepMs += asleepMs;
+    } else {
+      sessions.push({ start: segment.start, end: segment.end, asleepMs });
+    }
+  }
+
+  return sessions
+    .filter((session) => session.asleepMs > 0)
+    .map((session) => {
+      const start = new Date(session.start).toISOString();
+      return {
+        metricType: 'sleep_session',
+        recordedAt: start,
+        healthConnectId: `googlefit:sleep:${start}`,
+        valueJson: {
+          duration_minutes: Math.round(session.asleepMs / 60000),
+          start_time: start,
+          end_time: new Date(session.end).toISOString(),
+        },
+        dataSource: 'Google Fit',
+      };
+    });
+}
+
+/**
+ * Sum step deltas into the patient's local daily totals
+ */
+function fitDailySteps(
+  points: FitDataPoint[],
+  timeZone: string
+): { records: ImportedHealthRecord[]; skipped: number } {
+  const totals = new Map<string, number>();
+  let skipped = 0;
+
+  for (const point of points) {
+    const start = nanosToIso(point.startTimeNanos);
+    const steps = fitValue(point);
+    if (!start || steps === null) {
+      skipped++;
+      continue;
+    }
+    const day = localDay(start, timeZone);
+    totals.set(day, (totals.get(day) ?? 0) + steps);
+  }
+
+  const records = [...totals.entries()].map(([day, steps]) => ({
+    metricType: 'steps',
+    recordedAt: localMidnight(day, timeZone),
+    healthConnectId: `googlefit:steps:${day}`,
+    value: steps,
+    unit: 'steps',
+    dataSource: 'Google Fit' as const,
+  }));
+
+  return { records, skipped };
+}
+
+function parseGoogleFitJson(fileName: string, text: string, timeZone: string): ParsedHealthExport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error(`${fileName} is not valid JSON`);
+  }
+
+  const points = isObject(data) && Array.isArray(data['Data Points'])
+    ? (data['Data Points'] as FitDataPoint[])
+    : null;
+
+  if (!points) {
+    throw new Error(`${fileName} is not a Google Fit data export`);
+  }
+
+  const records: ImportedHealthRecord[] = [];
+  let skippedRows = 0;
+
+  const byType = new Map<string, FitDataPoint[]>();
+  for (const point of points) {
+    const type = point.dataTypeName || '';
+    byType.set(type, [...(byType.get(type) || []), point]);
+  }
+
+  for (const [type, typePoints] of byType) {
+    if (type === 'com.google.step_count.delta') {
+      const steps = fitDailySteps(typePoints, timeZone);
+      records.push(...steps.records);
+      skippedRows += steps.skipped;
+      continue;
+    }
+
+    if (type === 'com.google.sleep.segment') {
+      records.push(...fitSleepSessions(typePoints));
+      continue;
+    }
+
+    for (const point of typePoints) {
+      const recordedAt = nanosToIso(point.startTimeNanos);
+      const id = `googlefit:${type}:${point.startTimeNanos}`;
+
+      if (type === 'com.google.blood_pressure') {
+        const systolic = fitValue(point, 0);
+        const diastolic = fitValue(point, 1);
+        if (!recordedAt || systolic === null || diastolic === null) {
+          skippedRows++;
+          continue;
+        }
+        records.push({
+          metricType: 'blood_pressure',
+          recordedAt,
+          healthConnectId: id,
+          valueJson: { systolic: Math.round(systolic), diastolic: Math.round(diastolic) },
+          unit: 'mmHg',
+          dataSource: 'Google Fit',
+        });
+        continue;
+      }
+
+      const reading = FIT_READINGS[type];
+      const value = fitValue(point);
+      if (!reading || !recordedAt || value === null) {
+        skippedRows++;
+        continue;
+      }
+      records.push({
+        metricType: reading.metricType,
+        recordedAt,
+        healthConnectId: id,
+        value,
+        unit: reading.unit,
+        dataSource: 'Google Fit',
+      });
+    }
+  }
+
+  return { fileName, source: 'Google Fit', records, skippedRows };
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Parse one export file for a patient in the given timezone (their profile
+ * timezone). Throws when the file is not a supported export.
+ */
+export function parseHealthExport(
+  fileName: string,
+  text: string,
+  timeZone: string | null | undefined
+): ParsedHealthExport {
+  const zone = resolveTimeZone(timeZone);
+  if (/\.json$/i.test(fileName)) {
+    return parseGoogleFitJson(fileName, text, zone);
+  }
+  if (/\.csv$/i.test(fileName)) {
+    return parseSamsungCsv(fileName, text, zone);
+  }
+  throw new Error(`${fileName} is not a CSV or JSON file`);
+}
+
+/**
+ * Record counts and date ranges per metric, for the import preview
+ */
+export function summarizeImport(records: ImportedHealthRecord[]): HealthImportSummary[] {
+  const summaries = new Map<string, HealthImportSummary>();
+
+  for (const record of records) {
+    const summary = summaries.get(record.metricType);
+    if (!summary) {
+      summaries.set(record.metricType, {
+        metricType: record.metricType,
+        count: 1,
+        from: record.recordedAt,
+        to: record.recordedAt,
+      });
+      continue;
+    }
+    summary.count++;
+    if (record.recordedAt < summary.from) summary.from = record.recordedAt;
+    if (record.recordedAt > summary.to) summary.to = record.recordedAt;
+  }
+
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+}
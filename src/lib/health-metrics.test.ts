@@ -0,0 +1,82 @@
+/**
+ * Unit Tests for Health Metrics Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Tables } from '@/integrations/supabase/types';
+import { HEALTH_CHARTS, formatReading, getSyncFreshness, toChartPoints } from './health-metrics';
+
+const chart = (type: string) => HEALTH_CHARTS.find((c) => c.type === type)!;
+
+const aggregate = (overrides: Partial<Tables<'health_metric_aggregates'>>): Tables<'health_metric_aggregates'> => ({
+  id: 'agg',
+  patient_id: 'patient',
+  metric_type: 'heart_rate',
+  aggregation_period: 'daily',
+  period_start: '2025-10-20T00:00:00+00:00',
+  period_end: '2025-10-21T00:00:00+00:00',
+  count: 1,
+  min_value: null,
+  max_value: null,
+  avg_value: null,
+  sum_value: null,
+  median_value: null,
+  std_dev: null,
+  percentiles: null,
+  time_in_range: null,
+  distribution: null,
+  trend_direction: null,
+  trend_percentage: null,
+  anomaly_count: 0,
+  alert_count: 0,
+  data_quality_score: null,
+  missing_data_points: 0,
+  created_at: '2025-10-20T00:00:00+00:00',
+  updated_at: '2025-10-20T00:00:00+00:00',
+  ...overrides,
+});
+
+describe('toChartPoints', () => {
+  it('sorts daily points and keeps anomaly counts', () => {
+    const points = toChartPoints(chart('heart_rate'), [
+      aggregate({ period_start: '2025-10-21T00:00:00+00:00', avg_value: 71.6, min_value: 60, max_value: 104, anomaly_count: 1 }),
+      aggregate({ period_start: '2025-10-20T00:00:00+00:00', avg_value: 68.2 }),
+      aggregate({ metric_type: 'steps', sum_value: 5000 }),
+    ]);
+
+    expect(points.map((p) => p.date)).toEqual(['2025-10-20', '2025-10-21']);
+    expect(points[1]).toMatchObject({ value: 72, min: 60, max: 104, anomalies: 1 });
+  });
+
+  it('charts sleep as hours from summed minutes', () => {
+    const [point] = toChartPoints(chart('sleep_session'), [
+      aggregate({ metric_type: 'sleep_session', sum_value: 426 }),
+    ]);
+    expect(point.value).toBe(7.1);
+  });
+
+  it('reads diastolic averages for blood pressure', () => {
+    const [point] = toChartPoints(chart('blood_pressure'), [
+      aggregate({ metric_type: 'blood_pressure', avg_value: 121, distribution: { diastolic: { min: 76, max: 80, avg: 78.4 } } }),
+    ]);
+    expect(point).toMatchObject({ value: 121, diastolic: 78 });
+  });
+});
+
+describe('formatReading', () => {
+  it('formats blood pressure and numeric readings', () => {
+    expect(formatReading({ metric_type: 'blood_pressure', value_numeric: null, value_json: { systolic: 142, diastolic: 91 }, unit: 'mmHg' })).toBe('142/91 mmHg');
+    expect(formatReading({ metric_type: 'oxygen_saturation', value_numeric: 88, value_json: null, unit: '%' })).toBe('88 %');
+  });
+});
+
+describe('getSyncFreshness', () => {
+  const now = new Date('2025-10-25T12:00:00Z');
+
+  it('classifies sync age', () => {
+    expect(getSyncFreshness({ last_successful_sync_at: null, sync_frequency_minutes: 60 }, now)).toBe('never');
+    expect(getSyncFreshness({ last_successful_sync_at: '2025-10-25T08:00:00Z', sync_frequency_minutes: 60 }, now)).toBe('fresh');
+    expect(getSyncFreshness({ last_successful_sync_at: '2025-10-24T12:00:00Z', sync_frequency_minutes: 60 }, now)).toBe('stale');
+    expect(getSyncFreshness({ last_successful_sync_at: '2025-10-24T12:00:00Z', sync_frequency_minutes: 1440 }, now)).toBe('fresh');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Health Metrics Utilities
+ *
+ * Chart configuration and formatting for the health dashboard. Daily values
+ * come from health_metric_aggregates, where blood pressure is aggregated on
+ * systolic (diastolic in distribution.diastolic) and sleep on minutes.
+ */
+
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+type HealthAggregate = Tables<'health_metric_aggregates'>;
+type HealthMetric = Tables<'health_metrics'>;
+
+export type ChartedMetricType =
+  | 'heart_rate'
+  | 'blood_pressure'
+  | 'oxygen_saturation'
+  | 'steps'
+  | 'weight'
+  | 'sleep_session';
+
+export interface HealthChartConfig {
+  type: ChartedMetricType;
+  label: string;
+  unit: string;
+  /** Totals are charted as bars, readings as lines */
+  chart: 'line' | 'bar';
+  /** Which aggregate column is the day's value */
+  aggregate: 'avg' | 'sum';
+  /** Converts the stored value to the charted unit */
+  scale?: number;
+  decimals: number;
+}
+
+export const HEALTH_CHARTS: HealthChartConfig[] = [
+  { type: 'heart_rate', label: 'Heart Rate', unit: 'bpm', chart: 'line', aggregate: 'avg', decimals: 0 },
+  { type: 'blood_pressure', label: 'Blood Pressure', unit: 'mmHg', chart: 'line', aggregate: 'avg', decimals: 0 },
+  { type: 'oxygen_saturation', label: 'Blood Oxygen', unit: '%', chart: 'line', aggregate: 'avg', decimals: 0 },
+  { type: 'steps', label: 'Steps', unit: 'steps', chart: 'bar', aggregate: 'sum', decimals: 0 },
+  { type: 'weight', label: 'Weight', unit: 'kg', chart: 'line', aggregate: 'avg', decimals: 1 },
+  { type: 'sleep_session', label: 'Sleep', unit: 'hours', chart: 'bar', aggregate: 'sum', scale: 1 / 60, decimals: 1 },
+];
+
+export const HEALTH_RANGES = [7, 30, 90] as const;
+export type HealthRange = (typeof HEALTH_RANGES)[number];
+
+export interface HealthChartPoint {
+  /** YYYY-MM-DD */
+  date: string;
+  value: number | null;
+  min: number | null;
+  max: number | null;
+  /** Blood pressure only */
+  diastolic: number | null;
+  anomalies: number;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function scaled(value: number | null, config: HealthChartConfig): number | null {
+  if (value === null || value === undefined) return null;
+  return round(Number(value) * (config.scale ?? 1), config.decimals);
+}
+
+function diastolicAverage(distribution: Json | null): number | null {
+  if (!distribution || typeof distribution !== 'object' || Array.isArray(distribution)) return null;
+  const diastolic = distribution.diastolic;
+  if (!diastolic || typeof diastolic !== 'object' || Array.isArray(diastolic)) return null;
+  return typeof diastolic.avg === 'number' ? Math.round(diastolic.avg) : null;
+}
+
+/**
+ * Turn daily aggregates for one metric into chart points, oldest first
+ */
+export function toChartPoints(config: HealthChartConfig, aggregates: HealthAggregate[]): HealthChartPoint[] {
+  return aggregates
+    .filter((row) => row.metric_type === config.type && row.aggregation_period === 'daily')
+    .sort((a, b) => a.period_start.localeCompare(b.period_start))
+    .map((row) => ({
+      date: row.period_start.slice(0, 10),
+      value: scaled(config.aggregate === 'sum' ? row.sum_value : row.avg_value, config),
+      min: scaled(row.min_value, config),
+      max: scaled(row.max_value, config),
+      diastolic: config.type === 'blood_pressure' ? diastolicAverage(row.distribution) : null,
+      anomalies: row.anomaly_count ?? 0,
+    }));
+}
+
+/**
+ * Display value of a single reading, e.g. "142/91 mmHg" or "88 %"
+ */
+export function formatReading(metric: Pick<HealthMetric, 'metric_type' | 'value_numeric' | 'value_json' | 'unit'>): string {
+  const json =
+    metric.value_json && typeof metric.value_json === 'object' && !Array.isArray(metric.value_json)
+      ? metric.value_json
+      : null;
+
+  if (metric.metric_type === 'blood_pressure' && json) {
+    return `${json.systolic}/${json.diastolic} mmHg`;
+  }
+
+  if (metric.value_numeric !== null) {
+    return `${Number(metric.value_numeric)}${metric.unit ? ` ${metric.unit}` : ''}`;
+  }
+
+  return '—';
+}
+
+export type SyncFreshness = 'fresh' | 'stale' | 'never';
+
+/**
+ * Whether a device's last successful sync is recent enough to trust.
+ * A sync counts as fresh within twice the device's sync interval
+ * (with a floor of six hours, since phones defer background work).
+ */
+export function getSyncFreshness(
+  status: Pick<Tables<'health_sync_status'>, 'last_successful_sync_at' | 'sync_frequency_minutes'>,
+  now: Date = new Date()
+): SyncFreshness {
+  if (!status.last_successful_sync_at) return 'never';
+
+  const allowedMinutes = Math.max(6 * 60, (status.sync_frequency_minutes || 60) * 2);
+  const ageMinutes = (now.getTime() - new Date(status.last_successful_sync_at).getTime()) / 60000;
+
+  return ageMinutes <= allowedMinutes ? 'fresh' : 'stale';
+}
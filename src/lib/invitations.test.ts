@@ -0,0 +1,46 @@
+/**
+ * Unit Tests for Care Circle Invitation Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getInvitationContact, getInvitationStatus, invitationSchema, type InvitationInput } from './invitations';
+
+describe('getInvitationStatus', () => {
+  const now = new Date('2025-11-05T12:00:00Z');
+
+  it('marks pending invitations past their expiry as expired', () => {
+    expect(getInvitationStatus({ status: 'pending', expires_at: '2025-11-08T12:00:00Z' }, now)).toBe('pending');
+    expect(getInvitationStatus({ status: 'pending', expires_at: '2025-11-05T12:00:00Z' }, now)).toBe('expired');
+    expect(getInvitationStatus({ status: 'accepted', expires_at: '2025-11-01T12:00:00Z' }, now)).toBe('accepted');
+  });
+});
+
+describe('getInvitationContact', () => {
+  it('returns the address for the channel used', () => {
+    expect(getInvitationContact({ channel: 'whatsapp', invitee_email: null, invitee_phone: '+491701234567' })).toBe(
+      '+491701234567'
+    );
+  });
+});
+
+describe('invitationSchema', () => {
+  const input: InvitationInput = {
+    patientId: '3f2b8c1e-5a4d-4e7f-9b6a-1c2d3e4f5a6b',
+    channel: 'email',
+    email: 'anna@example.com',
+    phone: '',
+    relationshipType: 'family_member',
+    relationshipLabel: 'Daughter',
+    canViewHealthData: true,
+    canReceiveAlerts: true,
+    canModifySettings: false,
+  };
+
+  it('only requires the contact for the chosen channel', () => {
+    expect(invitationSchema.safeParse(input).success).toBe(true);
+    expect(invitationSchema.safeParse({ ...input, channel: 'whatsapp' }).success).toBe(false);
+    expect(invitationSchema.safeParse({ ...input, channel: 'whatsapp', email: '', phone: '+49 170 1234567' }).success).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Care Circle Invitation Utilities
+ *
+ * Labels, status and the invite form schema for care_invitations. The link
+ * itself is signed and checked by the send-care-invitation and
+ * accept-care-invitation edge functions.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CareInvitation = Tables<'care_invitations'>;
+
+export type RelationshipType = CareInvitation['relationship_type'];
+
+/** Stored status, plus pending invitations whose link has expired */
+export type InvitationStatus = CareInvitation['status'] | 'expired';
+
+export const RELATIONSHIP_TYPE_LABELS: Record<RelationshipType, string> = {
+  primary_caregiver: 'Primary caregiver',
+  family_member: 'Family member',
+  healthcare_provider: 'Healthcare provider',
+  friend: 'Friend',
+  other: 'Other',
+};
+
+export const INVITATION_STATUS_LABELS: Record<InvitationStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  revoked: 'Revoked',
+  expired: 'Expired',
+};
+
+/**
+ * Status to show: a pending invitation past expires_at can no longer be
+ * accepted
+ */
+export function getInvitationStatus(
+  invitation: Pick<CareInvitation, 'status' | 'expires_at'>,
+  now: Date = new Date()
+): InvitationStatus {
+  if (invitation.status === 'pending' && new Date(invitation.expires_at).getTime() <= now.getTime()) {
+    return 'expired';
+  }
+  return invitation.status;
+}
+
+/**
+ * Email address or WhatsApp number the invitation was sent to
+ */
+export function getInvitationContact(invitation: Pick<CareInvitation, 'channel' | 'invitee_email' | 'invitee_phone'>): string {
+  return (invitation.channel === 'email' ? invitation.invitee_email : invitation.invitee_phone) || '';
+}
+
+/**
+ * Invite form schema
+ */
+export const invitationSchema = z
+  .object({
+    patientId: z.string().uuid(),
+    channel: z.enum(['email', 'whatsapp']),
+    email: z.string().trim(),
+    phone: z.string().trim(),
+    relationshipType: z.enum(['primary_caregiver', 'family_member', 'healthcare_provider', 'friend', 'other']),
+    relationshipLabel: z.string().trim().max(50, 'Relationship must be 50 characters or less'),
+    canViewHealthData: z.boolean(),
+    canReceiveAlerts: z.boolean(),
+    canModifySettings: z.boolean(),
+  })
+  .superRefine((input, ctx) => {
+    if (input.channel === 'email' && !z.string().email().safeParse(input.email).success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['email'], message: 'Enter a valid email address' });
+    }
+    if (input.channel === 'whatsapp' && !/^\+?[\d\s()-]{7,20}$/.test(input.phone)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['phone'],
+        message: 'Enter a WhatsApp number with country code, e.g. +49 170 1234567',
+      });
+    }
+  });
+
+export type InvitationInput = z.infer<typeof invitationSchema>;
+
+/**
+ * Account form on the accept page for invitees without a Parra account
+ */
+export const inviteeAccountSchema = z.object({
+  fullName: z.string().trim().min(1, 'Enter your name').max(100, 'Name must be 100 characters or less'),
+  email: z.string().trim().email('Enter a valid email address'),
+  password: z.string().min(8, 'Password must be at least 8 characters').max(128),
+});
+
+export type InviteeAccountInput = z.infer<typeof inviteeAccountSchema>;
@@ -0,0 +1,69 @@
+/**
+ * Unit Tests for Medication Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAdherence,
+  formatDoseTime,
+  getLocalDateString,
+  getTodaysDoses,
+  medicationSchema,
+} from './medications';
+
+describe('medicationSchema', () => {
+  const valid = { name: ' Lisinopril ', dose: '', instructions: '', dose_times: ['20:00', '08:00', '08:00'], grace_minutes: '60' };
+
+  it('trims text, sorts and de-duplicates dose times', () => {
+    expect(medicationSchema.parse(valid)).toEqual({
+      name: 'Lisinopril',
+      dose: null,
+      instructions: null,
+      dose_times: ['08:00', '20:00'],
+      grace_minutes: 60,
+    });
+  });
+
+  it('rejects missing times and out-of-range grace periods', () => {
+    expect(medicationSchema.safeParse({ ...valid, dose_times: [] }).success).toBe(false);
+    expect(medicationSchema.safeParse({ ...valid, dose_times: [''] }).success).toBe(false);
+    expect(medicationSchema.safeParse({ ...valid, grace_minutes: '5' }).success).toBe(false);
+  });
+});
+
+describe('calculateAdherence', () => {
+  it('does not count skipped doses against adherence', () => {
+    expect(calculateAdherence([{ status: 'taken' }, { status: 'missed' }, { status: 'skipped' }])).toEqual({
+      taken: 1,
+      missed: 1,
+      skipped: 1,
+      percentage: 50,
+    });
+    expect(calculateAdherence([]).percentage).toBeNull();
+  });
+});
+
+describe('getTodaysDoses', () => {
+  it('orders doses by time and marks unrecorded ones due or upcoming', () => {
+    const medications = [
+      { id: 'a', name: 'Metformin', dose: null, instructions: null, dose_times: ['20:00:00'] },
+      { id: 'b', name: 'Lisinopril', dose: '10 mg', instructions: null, dose_times: ['08:00:00', '12:00:00'] },
+    ];
+    const doses = [{ medication_id: 'b', scheduled_date: '2025-10-20', scheduled_time: '08:00:00', status: 'taken' as const }];
+    const now = new Date(2025, 9, 20, 13, 0);
+
+    expect(getTodaysDoses(medications, doses, '2025-10-20', now).map((d) => `${d.time} ${d.status}`)).toEqual([
+      '08:00 taken',
+      '12:00 due',
+      '20:00 upcoming',
+    ]);
+  });
+});
+
+describe('formatting', () => {
+  it('formats dose times and local dates', () => {
+    expect(formatDoseTime('08:05:00')).toBe('8:05 AM');
+    expect(formatDoseTime('00:00')).toBe('12:00 AM');
+    expect(getLocalDateString(1, new Date(2025, 0, 1, 9))).toBe('2024-12-31');
+  });
+});
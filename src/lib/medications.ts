@@ -0,0 +1,144 @@
+/**
+ * Medication Utilities
+ *
+ * Form validation and adherence helpers for medication schedules. Bounds
+ * mirror the CHECK constraints on medications; adherence matches
+ * calculateAdherence in the edge functions' _shared/medications.ts so the
+ * dashboard and the missed-dose alerts agree.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type DoseStatus = Tables<'medication_doses'>['status'];
+
+/** A dose on today's list: recorded outcome, or not recorded yet */
+export type TodayDoseStatus = DoseStatus | 'due' | 'upcoming';
+
+export const GRACE_MINUTES_MIN = 15;
+export const GRACE_MINUTES_MAX = 720;
+export const GRACE_MINUTES_DEFAULT = 60;
+
+export const MAX_DOSE_TIMES = 8;
+
+export const DOSE_STATUS_LABELS: Record<TodayDoseStatus, string> = {
+  taken: 'Taken',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  due: 'Due now',
+  upcoming: 'Later today',
+};
+
+const doseTimeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Choose a time for each dose');
+
+/**
+ * Medication form schema
+ */
+export const medicationSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, 'Medication name is required')
+    .max(200, 'Medication name must be less than 200 characters'),
+  dose: z
+    .string()
+    .trim()
+    .max(100, 'Dose must be less than 100 characters')
+    .transform((value) => value || null),
+  instructions: z
+    .string()
+    .trim()
+    .max(500, 'Instructions must be less than 500 characters')
+    .transform((value) => value || null),
+  dose_times: z
+    .array(doseTimeSchema)
+    .min(1, 'Add at least one dose time')
+    .max(MAX_DOSE_TIMES, `At most ${MAX_DOSE_TIMES} doses a day`)
+    .transform((times) => [...new Set(times)].sort()),
+  grace_minutes: z.coerce
+    .number()
+    .int('Grace period must be a whole number of minutes')
+    .min(GRACE_MINUTES_MIN, `Grace period must be at least ${GRACE_MINUTES_MIN} minutes`)
+    .max(GRACE_MINUTES_MAX, `Grace period must be at most ${GRACE_MINUTES_MAX} minutes`),
+});
+
+export type MedicationInput = z.infer<typeof medicationSchema>;
+
+export interface Adherence {
+  taken: number;
+  missed: number;
+  skipped: number;
+  /** Taken out of taken + missed, or null when no dose has been due */
+  percentage: number | null;
+}
+
+/**
+ * Share of due doses that were taken; skipped doses don't count against it
+ */
+export function calculateAdherence(doses: Pick<Tables<'medication_doses'>, 'status'>[]): Adherence {
+  const taken = doses.filter((d) => d.status === 'taken').length;
+  const missed = doses.filter((d) => d.status === 'missed').length;
+  const skipped = doses.filter((d) => d.status === 'skipped').length;
+  const due = taken + missed;
+
+  return {
+    taken,
+    missed,
+    skipped,
+    percentage: due > 0 ? Math.round((taken / due) * 100) : null,
+  };
+}
+
+export interface TodayDose {
+  medication: Pick<Tables<'medications'>, 'id' | 'name' | 'dose' | 'instructions'>;
+  /** HH:MM */
+  time: string;
+  status: TodayDoseStatus;
+}
+
+/**
+ * Today's doses in time order with their status. Uses the device clock, so
+ * it is meant for the senior's own view.
+ */
+export function getTodaysDoses(
+  medications: Pick<Tables<'medications'>, 'id' | 'name' | 'dose' | 'instructions' | 'dose_times'>[],
+  doses: Pick<Tables<'medication_doses'>, 'medication_id' | 'scheduled_date' | 'scheduled_time' | 'status'>[],
+  today: string,
+  now: Date = new Date()
+): TodayDose[] {
+  const currentTime = `${String(now.getHours()).padStart(2, '0')}:${String(now.getMinutes()).padStart(2, '0')}`;
+  const list: TodayDose[] = [];
+
+  for (const medication of medications) {
+    const times = [...new Set(medication.dose_times.map((time) => time.slice(0, 5)))];
+    for (const time of times) {
+      const record = doses.find(
+        (d) => d.medication_id === medication.id && d.scheduled_date === today && d.scheduled_time.slice(0, 5) === time
+      );
+      list.push({
+        medication,
+        time,
+        status: record?.status ?? (time <= currentTime ? 'due' : 'upcoming'),
+      });
+    }
+  }
+
+  return list.sort((a, b) => a.time.localeCompare(b.time) || a.medication.name.localeCompare(b.medication.name));
+}
+
+/**
+ * "08:00:00" -> "8:00 AM"
+ */
+export function formatDoseTime(time: string): string {
+  const [hour, minute] = time.split(':').map(Number);
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  return `${hour % 12 || 12}:${String(minute).padStart(2, '0')} ${suffix}`;
+}
+
+/**
+ * Local YYYY-MM-DD for a date, `daysAgo` days back
+ */
+export function getLocalDateString(daysAgo = 0, now: Date = new Date()): string {
+  const date = new Date(now.getFullYear(), now.getMonth(), now.getDate() - daysAgo);
+  return [date.getFullYear(), String(date.getMonth() + 1).padStart(2, '0'), String(date.getDate()).padStart(2, '0')].join('-');
+}
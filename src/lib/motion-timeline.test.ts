@@ -0,0 +1,81 @@
+/**
+ * Unit Tests for Motion Timeline Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildRoomTimelines, dayPercent, formatTimeSince, type MotionEvent } from './motion-timeline';
+
+const dayStart = new Date('2025-10-25T00:00:00Z');
+const dayEnd = new Date('2025-10-26T00:00:00Z');
+
+const event = (
+  device_id: string,
+  detection_state: MotionEvent['detection_state'],
+  time: string
+): MotionEvent => ({ device_id, detection_state, recorded_at: `2025-10-25T${time}:00Z` });
+
+describe('buildRoomTimelines', () => {
+  it('pairs DETECTED and NOT_DETECTED events into segments per room', () => {
+    const [kitchen, bedroom] = buildRoomTimelines(
+      ['kitchen', 'bedroom'],
+      [
+        event('kitchen', 'DETECTED', '08:00'),
+        event('bedroom', 'DETECTED', '09:00'),
+        event('kitchen', 'NOT_DETECTED', '08:30'),
+        event('kitchen', 'DETECTED', '08:10'),
+      ],
+      dayStart,
+      dayEnd,
+      new Date('2025-10-25T10:00:00Z')
+    );
+
+    expect(kitchen.segments).toEqual([
+      { start: new Date('2025-10-25T08:00:00Z'), end: new Date('2025-10-25T08:30:00Z') },
+    ]);
+    expect(kitchen.isOccupied).toBe(false);
+    expect(kitchen.lastMovementAt).toEqual(new Date('2025-10-25T08:10:00Z'));
+
+    // Still occupied: the segment runs until now
+    expect(bedroom.segments).toEqual([
+      { start: new Date('2025-10-25T09:00:00Z'), end: new Date('2025-10-25T10:00:00Z') },
+    ]);
+    expect(bedroom.isOccupied).toBe(true);
+  });
+
+  it('assumes presence from the start of the day when the first event is NOT_DETECTED', () => {
+    const [room] = buildRoomTimelines(
+      ['bedroom'],
+      [event('bedroom', 'NOT_DETECTED', '06:45')],
+      dayStart,
+      dayEnd,
+      new Date('2025-10-25T12:00:00Z')
+    );
+
+    expect(room.segments).toEqual([{ start: dayStart, end: new Date('2025-10-25T06:45:00Z') }]);
+    expect(room.lastMovementAt).toBeNull();
+  });
+
+  it('returns empty timelines for rooms without events', () => {
+    const [room] = buildRoomTimelines(['hall'], [], dayStart, dayEnd);
+    expect(room).toEqual({ deviceId: 'hall', segments: [], isOccupied: false, lastMovementAt: null });
+  });
+});
+
+describe('dayPercent', () => {
+  it('clamps to the day', () => {
+    expect(dayPercent(new Date('2025-10-25T12:00:00Z'), dayStart, dayEnd)).toBe(50);
+    expect(dayPercent(new Date('2025-10-24T12:00:00Z'), dayStart, dayEnd)).toBe(0);
+    expect(dayPercent(new Date('2025-10-27T12:00:00Z'), dayStart, dayEnd)).toBe(100);
+  });
+});
+
+describe('formatTimeSince', () => {
+  const now = new Date('2025-10-25T12:00:00Z');
+
+  it('formats minutes and hours', () => {
+    expect(formatTimeSince(new Date('2025-10-25T11:59:30Z'), now)).toBe('just now');
+    expect(formatTimeSince(new Date('2025-10-25T11:55:00Z'), now)).toBe('5 min ago');
+    expect(formatTimeSince(new Date('2025-10-25T10:00:00Z'), now)).toBe('2 hr ago');
+    expect(formatTimeSince(new Date('2025-10-25T09:50:00Z'), now)).toBe('2 hr 10 min ago');
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Motion Timeline Utilities
+ *
+ * Turns the DETECTED / NOT_DETECTED transitions recorded by switchbot-webhook
+ * into per-room presence segments for a single day. A room counts as
+ * occupied from a DETECTED event until the next NOT_DETECTED event from the
+ * same sensor.
+ */
+
+export type DetectionState = 'DETECTED' | 'NOT_DETECTED';
+
+export interface MotionEvent {
+  device_id: string;
+  detection_state: DetectionState;
+  recorded_at: string;
+}
+
+export interface PresenceSegment {
+  start: Date;
+  end: Date;
+}
+
+export interface RoomTimeline {
+  deviceId: string;
+  segments: PresenceSegment[];
+  /** Whether the sensor's latest event says someone is there */
+  isOccupied: boolean;
+  /** Most recent DETECTED event in the range */
+  lastMovementAt: Date | null;
+}
+
+/**
+ * Build presence segments for each device between dayStart and dayEnd.
+ *
+ * Events before the first one of the day are unknown; if a sensor's first
+ * event of the day is NOT_DETECTED, the room is assumed occupied from the
+ * start of the day. Segments still open are closed at `now` (or dayEnd for
+ * past days).
+ */
+export function buildRoomTimelines(
+  deviceIds: string[],
+  events: MotionEvent[],
+  dayStart: Date,
+  dayEnd: Date,
+  now: Date = new Date()
+): RoomTimeline[] {
+  const rangeEnd = now < dayEnd ? now : dayEnd;
+  const sorted = [...events].sort(
+    (a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime()
+  );
+
+  return deviceIds.map((deviceId) => {
+    const deviceEvents = sorted.filter((event) => event.device_id === deviceId);
+    const segments: PresenceSegment[] = [];
+    let openedAt: Date | null = null;
+    let lastMovementAt: Date | null = null;
+
+    for (const [index, event] of deviceEvents.entries()) {
+      const at = new Date(event.recorded_at);
+
+      if (event.detection_state === 'DETECTED') {
+        lastMovementAt = at;
+        if (!openedAt) openedAt = at;
+        continue;
+      }
+
+      const start = openedAt ?? (index === 0 ? dayStart : null);
+      if (start && at > start) {
+        segments.push({ start, end: at });
+      }
+      openedAt = null;
+    }
+
+    if (openedAt && rangeEnd > openedAt) {
+      segments.push({ start: openedAt, end: rangeEnd });
+    }
+
+    const lastEvent = deviceEvents[deviceEvents.length - 1];
+
+    return {
+      deviceId,
+      segments,
+      isOccupied: lastEvent?.detection_state === 'DETECTED',
+      lastMovementAt,
+    };
+  });
+}
+
+/**
+ * Position of a time within the day as a percentage (0-100)
+ */
+export function dayPercent(time: Date, dayStart: Date, dayEnd: Date): number {
+  const span = dayEnd.getTime() - dayStart.getTime();
+  const offset = time.getTime() - dayStart.getTime();
+  return Math.min(100, Math.max(0, (offset / span) * 100));
+}
+
+/**
+ * Human-readable time since a moment, e.g. "5 min ago", "2 hr 10 min ago"
+ */
+export function formatTimeSince(since: Date, now: Date = new Date()): string {
+  const minutes = Math.max(0, Math.floor((now.getTime() - since.getTime()) / 60000));
+
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} hr ${rest} min ago` : `${hours} hr ago`;
+}
@@ -0,0 +1,43 @@
+/**
+ * Unit Tests for Caregiver Reminder Utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import { formatReminderSchedule, getReminderStatus, reminderScheduleSchema } from './reminders';
+
+describe('getReminderStatus', () => {
+  const pending = { reminder_sent: false, reminder_acknowledged: false, reminder_attempts: 0 };
+
+  it('tracks delivery and acknowledgement', () => {
+    expect(getReminderStatus(pending)).toBe('scheduled');
+    expect(getReminderStatus({ ...pending, reminder_sent: true, reminder_attempts: 1 })).toBe('sent');
+    expect(getReminderStatus({ ...pending, reminder_sent: true, reminder_acknowledged: true })).toBe('acknowledged');
+  });
+
+  it('distinguishes failed attempts from reminders that gave up', () => {
+    expect(getReminderStatus({ ...pending, reminder_attempts: 1 })).toBe('retrying');
+    expect(getReminderStatus({ ...pending, reminder_attempts: 3 })).toBe('not_sent');
+  });
+});
+
+describe('reminderScheduleSchema', () => {
+  it('requires a date, a 24-hour time and a channel', () => {
+    expect(
+      reminderScheduleSchema.safeParse({ reminder_date: '2025-10-20', reminder_time: '14:30', reminder_channel: 'chat' }).success
+    ).toBe(true);
+    expect(
+      reminderScheduleSchema.safeParse({ reminder_date: '', reminder_time: '14:30', reminder_channel: 'chat' }).success
+    ).toBe(false);
+    expect(
+      reminderScheduleSchema.safeParse({ reminder_date: '2025-10-20', reminder_time: '25:00', reminder_channel: 'sms' }).success
+    ).toBe(false);
+  });
+});
+
+describe('formatReminderSchedule', () => {
+  it('formats the local date and time', () => {
+    expect(formatReminderSchedule('2025-10-20', '14:30:00')).toBe('Mon, Oct 20 at 2:30 PM');
+    expect(formatReminderSchedule('2025-10-20', null)).toBe('Mon, Oct 20 at 9:00 AM');
+    expect(formatReminderSchedule(null, null)).toBe('No date set');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Caregiver Reminder Utilities
+ *
+ * Form validation and status helpers for reminder notes that the
+ * dispatch-reminders Edge Function delivers to the senior. Reminder dates and
+ * times are the senior's local time; the dispatcher applies their timezone.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ReminderChannel = Tables<'caregiver_notes'>['reminder_channel'];
+
+export type ReminderStatus = 'scheduled' | 'retrying' | 'sent' | 'acknowledged' | 'not_sent';
+
+export const REMINDER_CHANNEL_LABELS: Record<ReminderChannel, string> = {
+  whatsapp: 'WhatsApp',
+  email: 'Email',
+  chat: 'Parra chat',
+};
+
+export const REMINDER_STATUS_LABELS: Record<ReminderStatus, string> = {
+  scheduled: 'Scheduled',
+  retrying: 'Retrying',
+  sent: 'Sent',
+  acknowledged: 'Acknowledged',
+  not_sent: 'Not sent',
+};
+
+/** Matches MAX_REMINDER_ATTEMPTS in the dispatcher */
+export const MAX_REMINDER_ATTEMPTS = 3;
+
+/**
+ * Reminder form schema (note text is validated with noteTextSchema)
+ */
+export const reminderScheduleSchema = z.object({
+  reminder_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Choose a date'),
+  reminder_time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Choose a time'),
+  reminder_channel: z.enum(['whatsapp', 'email', 'chat']),
+});
+
+export type ReminderScheduleInput = z.infer<typeof reminderScheduleSchema>;
+
+/**
+ * Delivery status of a reminder as shown to caregivers
+ */
+export function getReminderStatus(
+  reminder: Pick<Tables<'caregiver_notes'>, 'reminder_sent' | 'reminder_acknowledged' | 'reminder_attempts'>
+): ReminderStatus {
+  if (reminder.reminder_acknowledged) return 'acknowledged';
+  if (reminder.reminder_sent) return 'sent';
+  if (reminder.reminder_attempts >= MAX_REMINDER_ATTEMPTS) return 'not_sent';
+  if (reminder.reminder_attempts > 0) return 'retrying';
+  return 'scheduled';
+}
+
+/**
+ * "Mon, Oct 20 at 2:30 PM" for a local reminder date and HH:MM(:SS) time
+ */
+export function formatReminderSchedule(date: string | null, time: string | null): string {
+  if (!date) return 'No date set';
+
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = (time || '09:00').split(':').map(Number);
+  const local = new Date(year, month - 1, day, hour, minute);
+
+  const dayLabel = local.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+  const timeLabel = local.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' });
+  return `${dayLabel} at ${timeLabel}`;
+}
@@ -57,7 +57,7 @@ interface FunctionCallOptions<T = unknown> {
  * ```typescript
  * const result = await callSupabaseFunction({
  *   functionName: 'senior-chat',
- *   body: { messages: [...] }
+ *   body: { sessionId, message: 'Good morning' }
  * });
  * ```
  */
@@ -151,7 +151,7 @@ export async function callSupabaseFunction<TRequest = unknown, TResponse = unkno
  * ```typescript
  * const response = await callSupabaseFunctionStreaming({
  *   functionName: 'senior-chat',
- *   body: { messages: [...] }
+ *   body: { sessionId, message: 'Good morning' }
  * });
  *
  * const reader = response.body?.getReader();
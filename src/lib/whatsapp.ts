@@ -100,11 +100,11 @@ Please check the Parra dashboard for more details.`;
  * Format daily summary for WhatsApp sharing
  */
 export function formatSummaryForWhatsApp(summary: {
-  summary_text?: string;
-  overall_mood?: string;
-  overall_status?: string;
+  summary_text?: string | null;
+  overall_mood?: string | null;
+  overall_status?: string | null;
   summary_date: string;
-  patient?: { full_name?: string; display_name?: string };
+  patient?: { full_name?: string | null; display_name?: string | null };
 }): string {
   const patientName = summary.patient?.display_name || summary.patient?.full_name || 'Patient';
   const date = new Date(summary.summary_date).toLocaleDateString();
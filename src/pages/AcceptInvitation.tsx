@@ -0,0 +1,227 @@
+/**
+ * Accept Invitation Page Component
+ *
+ * Public landing page for care circle invitation links (/invite?token=...).
+ * Shows who sent the invitation and the permissions it grants, then:
+ * - signed in: accepts it for the current account
+ * - not signed in: creates a family member account and accepts it in one
+ *   step, or sends the invitee to /login and back here
+ *
+ * The token is checked by the accept-care-invitation edge function; expired,
+ * revoked and already used links show an explanation instead of the form.
+ */
+
+import { useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useAuth } from '@/contexts/AuthContext';
+import { useAcceptInvitation, useInvitationPreview } from '@/hooks/useCareInvitations';
+import { inviteeAccountSchema, RELATIONSHIP_TYPE_LABELS } from '@/lib/invitations';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Check, Loader2, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+export const AcceptInvitation = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const { user, isInitializing, signIn } = useAuth();
+
+  const { data: invitation, isLoading, error: previewError } = useInvitationPreview(token);
+  const acceptInvitation = useAcceptInvitation();
+
+  const [account, setAccount] = useState({ fullName: '', email: '', password: '' });
+  const [error, setError] = useState<string | null>(null);
+
+  // Email invitations can only be accepted with the invited address
+  const accountEmail = invitation?.email ?? account.email;
+
+  const handleAccept = async () => {
+    if (!token) return;
+
+    setError(null);
+    try {
+      const result = await acceptInvitation.mutateAsync({ token });
+      toast.success(`You're now part of ${result.patientName}'s care circle`);
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+    }
+  };
+
+  const handleCreateAccount = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!token) return;
+
+    const validation = inviteeAccountSchema.safeParse({ ...account, email: accountEmail });
+    if (!validation.success) {
+      setError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    setError(null);
+    try {
+      const result = await acceptInvitation.mutateAsync({ token, account: validation.data });
+      const { error: signInError } = await signIn(validation.data.email, validation.data.password);
+
+      if (signInError) {
+        toast.success(`Account created. Confirm your email address, then sign in to see ${result.patientName}.`);
+        navigate('/login', { replace: true });
+        return;
+      }
+
+      toast.success(`Welcome to ${result.patientName}'s care circle`);
+      navigate('/dashboard', { replace: true });
+    } catch (err) {
+      console.error('Error accepting invitation:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept the invitation');
+    }
+  };
+
+  const isSubmitting = acceptInvitation.isPending;
+
+  if (!token || previewError) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-3xl font-heading font-bold text-center">Invitation unavailable</CardTitle>
+            <CardDescription className="text-center">
+              {previewError instanceof Error ? previewError.message : 'This invitation link is incomplete.'} Ask
+              the person who invited you to send a new invitation.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="justify-center">
+            <Link to="/" className="text-sm text-primary hover:underline">
+              Go to Parra
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isLoading || isInitializing || !invitation) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const permissions = [
+    { granted: invitation.canViewHealthData, label: 'See check-ins, daily summaries and health data' },
+    { granted: invitation.canReceiveAlerts, label: 'Receive alerts when something may be wrong' },
+    { granted: invitation.canModifySettings, label: 'Change reminders, medications and check-in times' },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-3xl font-heading font-bold text-center">
+            Join {invitation.patientName}'s care circle
+          </CardTitle>
+          <CardDescription className="text-center">
+            {invitation.inviterName ? `${invitation.inviterName} invited you` : 'You were invited'} as{' '}
+            {invitation.relationshipLabel || RELATIONSHIP_TYPE_LABELS[invitation.relationshipType].toLowerCase()}.
+            This invitation is valid until {new Date(invitation.expiresAt).toLocaleDateString()}.
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <ul className="space-y-2">
+            {permissions.map((permission) => (
+              <li key={permission.label} className="flex items-start gap-2 text-sm">
+                {permission.granted ? (
+                  <Check className="h-4 w-4 mt-0.5 text-primary shrink-0" />
+                ) : (
+                  <X className="h-4 w-4 mt-0.5 text-muted-foreground shrink-0" />
+                )}
+                <span className={permission.granted ? 'text-foreground' : 'text-muted-foreground'}>
+                  {permission.label}
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          {user ? (
+            <Button className="w-full" onClick={handleAccept} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Accept Invitation
+            </Button>
+          ) : (
+            <form onSubmit={handleCreateAccount} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="invitee_name">Your name</Label>
+                <Input
+                  id="invitee_name"
+                  value={account.fullName}
+                  onChange={(e) => setAccount({ ...account, fullName: e.target.value })}
+                  disabled={isSubmitting}
+                  autoComplete="name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invitee_email">Email</Label>
+                <Input
+                  id="invitee_email"
+                  type="email"
+                  placeholder="you@example.com"
+                  value={accountEmail}
+                  onChange={(e) => setAccount({ ...account, email: e.target.value })}
+                  disabled={isSubmitting || !!invitation.email}
+                  autoComplete="email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invitee_password">Password</Label>
+                <Input
+                  id="invitee_password"
+                  type="password"
+                  placeholder="At least 8 characters"
+                  value={account.password}
+                  onChange={(e) => setAccount({ ...account, password: e.target.value })}
+                  disabled={isSubmitting}
+                  autoComplete="new-password"
+                />
+              </div>
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Create Account & Accept
+              </Button>
+            </form>
+          )}
+        </CardContent>
+
+        {!user && (
+          <CardFooter className="justify-center">
+            <p className="text-sm text-muted-foreground">
+              Already have an account?{' '}
+              <Link
+                to="/login"
+                state={{ from: `/invite?token=${encodeURIComponent(token)}` }}
+                className="text-primary hover:underline"
+              >
+                Sign in to accept
+              </Link>
+            </p>
+          </CardFooter>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptInvitation;
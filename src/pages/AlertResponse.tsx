@@ -0,0 +1,233 @@
+/**
+ * Alert Response Page Component
+ *
+ * Public landing page for the one-tap links in alert emails
+ * (/alert-response?token=...&action=...). An acknowledge link is submitted
+ * as soon as the page opens, so a single tap tells the care circle someone is
+ * handling the alert. Link scanners that run scripts can trigger this too,
+ * so resolve and false alarm links, which close the alert, wait for the
+ * caregiver to confirm. While the alert is still open the caregiver can
+ * follow up with a resolve or false alarm and a note for the care circle.
+ *
+ * The token is checked by the respond-to-alert edge function and names the
+ * caregiver the email was sent to, so no sign-in is needed.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useAlertLinkResponse, type LinkResponseResult } from '@/hooks/useAlertInbox';
+import {
+  ALERT_RESPONSE_LABELS,
+  ALERT_STATUS_LABELS,
+  alertResponseNoteSchema,
+  isOpenAlert,
+  type AlertResponseAction,
+} from '@/lib/alert-responses';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+const isResponseAction = (value: string | null): value is AlertResponseAction =>
+  !!value && value in ALERT_RESPONSE_LABELS;
+
+const CONFIRM_TITLES: Record<Exclude<AlertResponseAction, 'acknowledge'>, string> = {
+  resolve: 'Mark this alert resolved?',
+  false_alarm: 'Mark this alert a false alarm?',
+};
+
+export const AlertResponse = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const linkAction = searchParams.get('action');
+
+  const respond = useAlertLinkResponse();
+  const submitted = useRef(false);
+
+  const [result, setResult] = useState<LinkResponseResult['alert'] | null>(null);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async (action: AlertResponseAction, responseNote?: string) => {
+    if (!token) return;
+
+    setError(null);
+    try {
+      const response = await respond.mutateAsync({ token, action, note: responseNote });
+      setResult(response.alert);
+      setNote('');
+    } catch (err) {
+      console.error('Error responding to alert:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update the alert');
+    }
+  };
+
+  // Submit an acknowledge link once, when the page opens
+  useEffect(() => {
+    if (submitted.current || !token || linkAction !== 'acknowledge') return;
+    submitted.current = true;
+    void submit(linkAction);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token, linkAction]);
+
+  const handleFollowUp = async (action: Exclude<AlertResponseAction, 'acknowledge'>) => {
+    const validation = alertResponseNoteSchema.safeParse(note);
+    if (!validation.success) {
+      setError(validation.error.errors[0]?.message || 'Please check your inputs');
+      return;
+    }
+
+    await submit(action, validation.data);
+  };
+
+  const isSubmitting = respond.isPending;
+
+  if (!token || !isResponseAction(linkAction) || (error && !result && linkAction === 'acknowledge')) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-3xl font-heading font-bold text-center">Alert link unavailable</CardTitle>
+            <CardDescription className="text-center">
+              {error || 'This alert link is incomplete.'} You can still respond from the alerts section of your
+              dashboard.
+            </CardDescription>
+          </CardHeader>
+          <CardFooter className="justify-center">
+            <Link to="/login" className="text-sm text-primary hover:underline">
+              Sign in to Parra
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!result && linkAction !== 'acknowledge') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-3xl font-heading font-bold text-center">{CONFIRM_TITLES[linkAction]}</CardTitle>
+            <CardDescription className="text-center">
+              This closes the alert for the whole care circle.
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="alert_response_note">Note for the care circle (optional)</Label>
+              <Textarea
+                id="alert_response_note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                rows={3}
+                disabled={isSubmitting}
+              />
+            </div>
+            <Button className="w-full" onClick={() => handleFollowUp(linkAction)} disabled={isSubmitting}>
+              {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {ALERT_RESPONSE_LABELS[linkAction]}
+            </Button>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </CardContent>
+
+          <CardFooter className="justify-center">
+            <Link to="/login" className="text-sm text-primary hover:underline">
+              Open the dashboard
+            </Link>
+          </CardFooter>
+        </Card>
+      </div>
+    );
+  }
+
+  if (!result) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center px-4 py-12">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1">
+          <CardTitle className="text-3xl font-heading font-bold text-center">
+            {ALERT_STATUS_LABELS[result.status]}
+          </CardTitle>
+          <CardDescription className="text-center">
+            Alert about {result.patientName} from {new Date(result.createdAt).toLocaleString()} (ref{' '}
+            {result.reference}).
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <p className="text-foreground">{result.message}</p>
+
+          {isOpenAlert(result) ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                Thanks. The rest of the care circle can see you're handling this, and no one else will be contacted.
+                Let them know how it ended once it's sorted.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="alert_response_note">Note for the care circle (optional)</Label>
+                <Textarea
+                  id="alert_response_note"
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  rows={3}
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Button className="flex-1" onClick={() => handleFollowUp('resolve')} disabled={isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {ALERT_RESPONSE_LABELS.resolve}
+                </Button>
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => handleFollowUp('false_alarm')}
+                  disabled={isSubmitting}
+                >
+                  {ALERT_RESPONSE_LABELS.false_alarm}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              This alert is closed{result.resolvedAt ? ` as of ${new Date(result.resolvedAt).toLocaleString()}` : ''}.
+              Nothing more is needed.
+            </p>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+
+        <CardFooter className="justify-center">
+          <Link to="/login" className="text-sm text-primary hover:underline">
+            Open the dashboard
+          </Link>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default AlertResponse;
@@ -1,7 +1,9 @@
 /**
  * Caregiver Dashboard Component
  *
- * Secure dashboard for caregivers with validated note input.
+ * Secure dashboard for caregivers with validated note input. A note can be
+ * sent as a reminder that dispatch-reminders delivers to the senior at the
+ * chosen time (their local time) by WhatsApp, email or Parra chat.
  *
  * Security Features:
  * - Note validation using Zod schemas
@@ -15,7 +17,7 @@
  */
 
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
@@ -23,14 +25,35 @@ import StatusIndicator from "@/components/StatusIndicator";
 import InteractionTimeline from "@/components/InteractionTimeline";
 import MoodIndicator from "@/components/MoodIndicator";
 import HamburgerMenu from "@/components/HamburgerMenu";
+import PatientMemories from "@/components/PatientMemories";
+import SwitchbotDevicesPanel from "@/components/devices/SwitchbotDevicesPanel";
+import MotionTimeline from "@/components/devices/MotionTimeline";
+import CaregiverReminders from "@/components/reminders/CaregiverReminders";
+import MedicationSchedulePanel from "@/components/medications/MedicationSchedulePanel";
+import CheckInSchedulePanel from "@/components/checkins/CheckInSchedulePanel";
+import CareCircleInvitations from "@/components/invitations/CareCircleInvitations";
+import CarePermissionsPanel from "@/components/permissions/CarePermissionsPanel";
+import EscalationLadderPanel from "@/components/escalation/EscalationLadderPanel";
+import AlertInboxPanel from "@/components/alerts/AlertInboxPanel";
+import { useCreateReminder } from "@/hooks/useCaregiverReminders";
 import { Button } from "@/components/ui/button";
 import { Mic, Loader2, MessageCircle } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { openWhatsAppChat, formatSummaryForWhatsApp } from "@/lib/whatsapp";
 import { toast } from "sonner";
 import { noteTextSchema } from "@/lib/validation/schemas";
 import { sanitizeText } from "@/lib/validation/sanitization";
 import { checkRateLimit, recordRateLimitedAction, RATE_LIMITS } from "@/lib/validation/rate-limiting";
+import { getCarePermissions } from "@/lib/care-permissions";
+import {
+  REMINDER_CHANNEL_LABELS,
+  formatReminderSchedule,
+  reminderScheduleSchema,
+  type ReminderChannel,
+} from "@/lib/reminders";
 import {
   Select,
   SelectContent,
@@ -43,7 +66,14 @@ const CaregiverDashboard = () => {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
   const [notes, setNotes] = useState("");
-  const [selectedPatientId, setSelectedPatientId] = useState<string>("");
+  const [isReminder, setIsReminder] = useState(false);
+  const [reminderDate, setReminderDate] = useState("");
+  const [reminderTime, setReminderTime] = useState("09:00");
+  const [reminderChannel, setReminderChannel] = useState<ReminderChannel>("whatsapp");
+  const [searchParams] = useSearchParams();
+  // ?patient= preselects a patient, e.g. from the care overview
+  const [selectedPatientId, setSelectedPatientId] = useState<string>(searchParams.get("patient") || "");
+  const createReminder = useCreateReminder();
 
   // Fetch all active care relationships for this caregiver
   const { data: careRelationships, isLoading: relationshipsLoading } = useQuery({
@@ -57,6 +87,9 @@ const CaregiverDashboard = () => {
           patient_id,
           relationship_type,
           status,
+          can_view_health_data,
+          can_receive_alerts,
+          can_modify_settings,
           patient:profiles!care_relationships_patient_id_fkey(id, full_name, display_name, email)
         `)
         .eq("caregiver_id", user.id)
@@ -76,6 +109,8 @@ const CaregiverDashboard = () => {
   }, [careRelationships, selectedPatientId]);
 
   const patientId = selectedPatientId || careRelationships?.[0]?.patient_id;
+  const selectedRelationship = careRelationships?.find((r) => r.patient_id === patientId);
+  const permissions = getCarePermissions(selectedRelationship);
 
   // Fetch patient profile
   const { data: patient, isLoading: patientLoading } = useQuery({
@@ -112,7 +147,7 @@ const CaregiverDashboard = () => {
       if (error && error.code !== 'PGRST116') throw error; // PGRST116 is "no rows returned"
       return data;
     },
-    enabled: !!patientId,
+    enabled: !!patientId && permissions.canViewHealthData,
   });
 
   const isLoading = relationshipsLoading || patientLoading || summaryLoading;
@@ -138,6 +173,16 @@ const CaregiverDashboard = () => {
       return;
     }
 
+    const schedule = reminderScheduleSchema.safeParse({
+      reminder_date: reminderDate,
+      reminder_time: reminderTime,
+      reminder_channel: reminderChannel,
+    });
+    if (isReminder && !schedule.success) {
+      toast.error(schedule.error.errors[0]?.message || "Invalid reminder time");
+      return;
+    }
+
     // Check rate limit
     const rateLimitCheck = checkRateLimit('note_create', user.id, RATE_LIMITS.NOTE_CREATE);
     if (!rateLimitCheck.allowed) {
@@ -152,6 +197,22 @@ const CaregiverDashboard = () => {
       // Record rate limit action
       recordRateLimitedAction('note_create', user.id);
 
+      if (isReminder && schedule.success) {
+        await createReminder.mutateAsync({
+          patientId,
+          caregiverId: user.id,
+          noteText: sanitizedNote,
+          ...schedule.data,
+        });
+
+        toast.success(
+          `Reminder set for ${formatReminderSchedule(schedule.data.reminder_date, schedule.data.reminder_time)}`
+        );
+        setNotes("");
+        setIsReminder(false);
+        return;
+      }
+
       const { error } = await supabase
         .from("caregiver_notes")
         .insert({
@@ -168,7 +229,7 @@ const CaregiverDashboard = () => {
       setNotes("");
     } catch (error) {
       console.error("Error saving note:", error);
-      toast.error("Failed to save note");
+      toast.error(isReminder ? "Failed to set reminder" : "Failed to save note");
     }
   };
 
@@ -289,36 +350,54 @@ const CaregiverDashboard = () => {
             </div>
           </div>
 
+          {/* Alert Inbox */}
+          {permissions.canReceiveAlerts && (
+            <div className="border-b border-secondary pb-8 mb-8">
+              <AlertInboxPanel patientId={patientId} patientName={patientName} />
+            </div>
+          )}
+
           {/* Top Grid: Status, Interactions, Mood, Notes */}
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-8">
             {/* Left Column: Status and Interactions */}
-            <div className="space-y-8">
-              {/* Status Section */}
-              <div className="border-b border-secondary pb-6">
-                <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
-                  Status
-                </h2>
-                <StatusIndicator status={status} size="lg" />
-              </div>
+            {permissions.canViewHealthData ? (
+              <div className="space-y-8">
+                {/* Status Section */}
+                <div className="border-b border-secondary pb-6">
+                  <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
+                    Status
+                  </h2>
+                  <StatusIndicator status={status} size="lg" />
+                </div>
 
-              {/* Interactions Section */}
-              <div>
-                <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
-                  Interactions
-                </h2>
-                <InteractionTimeline count={interactionCount} />
+                {/* Interactions Section */}
+                <div>
+                  <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
+                    Interactions
+                  </h2>
+                  <InteractionTimeline count={interactionCount} />
+                </div>
               </div>
-            </div>
+            ) : (
+              <div className="p-6 border-2 border-dashed border-secondary/30 rounded-lg">
+                <p className="text-muted-foreground">
+                  {patientName} hasn't shared their health data with you. Ask {patientName} or their primary
+                  caregiver to turn on "View health data" for you.
+                </p>
+              </div>
+            )}
 
             {/* Right Column: Mood and Notes */}
             <div className="space-y-8">
               {/* Mood Section */}
-              <div className="border-b border-secondary pb-6">
-                <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
-                  Mood
-                </h2>
-                <MoodIndicator mood={mood} size="lg" />
-              </div>
+              {permissions.canViewHealthData && (
+                <div className="border-b border-secondary pb-6">
+                  <h2 className="text-2xl font-heading font-bold text-secondary mb-4">
+                    Mood
+                  </h2>
+                  <MoodIndicator mood={mood} size="lg" />
+                </div>
+              )}
 
               {/* Notes Section */}
               <div>
@@ -341,20 +420,140 @@ const CaregiverDashboard = () => {
                       className="flex-1 min-h-[120px] text-lg border-secondary"
                     />
                   </div>
+                  <div className="flex items-center gap-3">
+                    <Switch id="note_is_reminder" checked={isReminder} onCheckedChange={setIsReminder} />
+                    <Label htmlFor="note_is_reminder">Send as a reminder</Label>
+                  </div>
+                  {isReminder && (
+                    <div className="space-y-2">
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        <div className="space-y-1">
+                          <Label htmlFor="reminder_date">Date</Label>
+                          <Input
+                            id="reminder_date"
+                            type="date"
+                            value={reminderDate}
+                            onChange={(e) => setReminderDate(e.target.value)}
+                            className="border-secondary"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="reminder_time">Time</Label>
+                          <Input
+                            id="reminder_time"
+                            type="time"
+                            value={reminderTime}
+                            onChange={(e) => setReminderTime(e.target.value)}
+                            className="border-secondary"
+                          />
+                        </div>
+                        <div className="space-y-1">
+                          <Label htmlFor="reminder_channel">Send by</Label>
+                          <Select
+                            value={reminderChannel}
+                            onValueChange={(value) => setReminderChannel(value as ReminderChannel)}
+                          >
+                            <SelectTrigger id="reminder_channel" className="border-secondary">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(REMINDER_CHANNEL_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>
+                                  {label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        Sent at this time in {patientName}'s time zone. WhatsApp reminders go to Parra chat
+                        instead if {patientName} has no WhatsApp number.
+                      </p>
+                    </div>
+                  )}
                   <div className="flex justify-end">
                     <Button
                       onClick={handleSaveNote}
-                      disabled={!notes.trim()}
+                      disabled={!notes.trim() || createReminder.isPending}
                       className="bg-primary hover:bg-primary/90"
                     >
-                      Save Note
+                      {isReminder ? "Set Reminder" : "Save Note"}
                     </Button>
                   </div>
+                  <CaregiverReminders patientId={patientId} patientName={patientName} />
                 </div>
               </div>
             </div>
           </div>
 
+          {/* Check-ins and Medications are visible to caregivers who can change them */}
+          {(permissions.canViewHealthData || permissions.canModifySettings) && (
+            <>
+              {/* Check-ins Section */}
+              <div className="border-t border-secondary pt-8 mb-8">
+                <CheckInSchedulePanel
+                  patientId={patientId}
+                  patientName={patientName}
+                  canEdit={permissions.canModifySettings}
+                />
+              </div>
+
+              {/* Medications Section */}
+              <div className="border-t border-secondary pt-8 mb-8">
+                <MedicationSchedulePanel
+                  patientId={patientId}
+                  patientName={patientName}
+                  canEdit={permissions.canModifySettings}
+                />
+              </div>
+            </>
+          )}
+
+          {/* Alert Escalation Section */}
+          <div className="border-t border-secondary pt-8 mb-8">
+            <EscalationLadderPanel
+              patientId={patientId}
+              patientName={patientName}
+              canEdit={permissions.canModifySettings}
+            />
+          </div>
+
+          {permissions.canViewHealthData && (
+            <>
+              {/* Movement Section */}
+              <div className="border-t border-secondary pt-8 mb-8">
+                <MotionTimeline patientId={patientId} patientName={patientName} />
+              </div>
+
+              {/* Memory Section */}
+              <div className="border-t border-secondary pt-8 mb-8">
+                <PatientMemories
+                  patientId={patientId}
+                  patientName={patientName}
+                  canDelete={permissions.canModifySettings}
+                />
+              </div>
+
+              {/* Motion Sensors Section */}
+              <div className="border-t border-secondary pt-8 mb-8">
+                <SwitchbotDevicesPanel
+                  patientId={patientId}
+                  patientName={patientName}
+                  canEdit={permissions.canModifySettings}
+                />
+              </div>
+            </>
+          )}
+
+          {/* Care Circle Section */}
+          {selectedRelationship?.relationship_type === "primary_caregiver" && (
+            <div className="border-t border-secondary pt-8 mb-8 space-y-8">
+              <CareCircleInvitations patientId={patientId} patientName={patientName} />
+              <CarePermissionsPanel patientId={patientId} patientName={patientName} />
+            </div>
+          )}
+
           {/* Analysis Section */}
           {/* QA: UI/UX fix 2025-10-15 - Removed three green horizontal lines per user request */}
           <div className="border-t border-secondary pt-8 mb-8">
@@ -362,7 +561,11 @@ const CaregiverDashboard = () => {
               Analysis (updated at {lastUpdateTime})
             </h2>
             <div className="space-y-2">
-              <p className="text-lg text-foreground mt-4">{analysisText}</p>
+              <p className="text-lg text-foreground mt-4">
+                {permissions.canViewHealthData
+                  ? analysisText
+                  : `${patientName}'s daily analysis is only shared with caregivers who can view health data.`}
+              </p>
             </div>
 
             {/* WhatsApp Quick Actions */}
@@ -401,13 +604,24 @@ const CaregiverDashboard = () => {
             >
               Chat
             </Button>
-            <Button
-              size="lg"
-              className="bg-accent hover:bg-accent/90 text-background text-2xl px-16 py-8 h-auto rounded-3xl"
-              onClick={() => navigate("/dashboard/history")}
-            >
-              Recap
-            </Button>
+            {permissions.canViewHealthData && (
+              <>
+                <Button
+                  size="lg"
+                  className="bg-accent hover:bg-accent/90 text-background text-2xl px-16 py-8 h-auto rounded-3xl"
+                  onClick={() => navigate(`/dashboard/history?patient=${patientId}`)}
+                >
+                  Recap
+                </Button>
+                <Button
+                  size="lg"
+                  className="bg-accent hover:bg-accent/90 text-background text-2xl px-16 py-8 h-auto rounded-3xl"
+                  onClick={() => navigate(`/dashboard/health?patient=${patientId}`)}
+                >
+                  Health
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </main>
@@ -0,0 +1,257 @@
+/**
+ * Health View
+ *
+ * Health Connect data for a senior: daily charts of heart rate, blood
+ * pressure, blood oxygen, steps, weight and sleep over a selectable range,
+ * readings flagged as anomalies, and how recently each device synced.
+ *
+ * Seniors see their own data at /senior/health. Caregivers see patients
+ * whose care relationship grants can_view_health_data at /dashboard/health
+ * (optionally ?patient=<id>). Seniors, and caregivers who can also modify the
+ * patient's settings, can backfill history from Samsung Health or Google Fit
+ * export files.
+ */
+
+import React, { useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import HamburgerMenu from "@/components/HamburgerMenu";
+import HealthMetricChart from "@/components/health/HealthMetricChart";
+import HealthSyncStatus from "@/components/health/HealthSyncStatus";
+import HealthImportDialog from "@/components/health/HealthImportDialog";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AlertTriangle, Loader2, Upload } from "lucide-react";
+import { useHealthAggregates, useHealthAnomalies, useHealthSyncStatus } from "@/hooks/useHealthMetrics";
+import {
+  HEALTH_CHARTS,
+  HEALTH_RANGES,
+  formatReading,
+  toChartPoints,
+  type HealthRange,
+} from "@/lib/health-metrics";
+
+interface HealthPatient {
+  patient_id: string;
+  can_modify_settings: boolean;
+  patient: { full_name: string | null; display_name: string | null; email: string; timezone: string | null } | null;
+}
+
+const HealthView = () => {
+  const [searchParams] = useSearchParams();
+  const { user, profile, isSenior } = useAuth();
+  const [range, setRange] = useState<HealthRange>(7);
+  const [selectedPatientId, setSelectedPatientId] = useState<string>(searchParams.get("patient") || "");
+  const [importOpen, setImportOpen] = useState(false);
+
+  // Patients this caregiver may view health data for
+  const { data: patients, isLoading: patientsLoading } = useQuery({
+    queryKey: ["health-patients", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("care_relationships")
+        .select(`
+          patient_id,
+          can_modify_settings,
+          patient:profiles!care_relationships_patient_id_fkey(full_name, display_name, email, timezone)
+        `)
+        .eq("caregiver_id", user!.id)
+        .eq("status", "active")
+        .eq("can_view_health_data", true);
+
+      if (error) throw error;
+      return (data || []) as unknown as HealthPatient[];
+    },
+    enabled: !!user?.id && !isSenior,
+  });
+
+  const patientId = isSenior
+    ? user?.id
+    : patients?.some((p) => p.patient_id === selectedPatientId)
+      ? selectedPatientId
+      : patients?.[0]?.patient_id;
+
+  const selectedPatient = patients?.find((p) => p.patient_id === patientId);
+  const patientName = isSenior
+    ? profile?.display_name || profile?.full_name || "You"
+    : selectedPatient?.patient?.display_name || selectedPatient?.patient?.full_name || "Patient";
+  // Imported readings can raise alerts, so caregivers need can_modify_settings
+  const canImport = isSenior || !!selectedPatient?.can_modify_settings;
+
+  const { data: aggregates, isLoading: aggregatesLoading } = useHealthAggregates(patientId, range);
+  const { data: anomalies } = useHealthAnomalies(patientId, range);
+  const { data: syncStatuses } = useHealthSyncStatus(patientId);
+
+  const header = (
+    <header className="fixed top-0 left-0 right-0 bg-background border-b border-secondary z-50 px-6 py-4">
+      <div className="max-w-7xl mx-auto flex items-center justify-between">
+        <h1 className="text-3xl font-heading font-bold text-secondary">parra</h1>
+        <HamburgerMenu />
+      </div>
+    </header>
+  );
+
+  if (!isSenior && patientsLoading) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <main className="flex-1 pt-24 pb-12 px-6 flex items-center justify-center">
+          <Loader2 className="w-12 h-12 animate-spin text-primary" />
+        </main>
+      </div>
+    );
+  }
+
+  if (!patientId) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col">
+        {header}
+        <main className="flex-1 pt-24 pb-12 px-6 flex items-center justify-center">
+          <div className="text-center space-y-4 max-w-md">
+            <h2 className="text-2xl font-heading font-bold text-secondary">No Health Data Access</h2>
+            <p className="text-muted-foreground">
+              None of your care relationships include permission to view health data. Ask your
+              administrator to enable it.
+            </p>
+          </div>
+        </main>
+      </div>
+    );
+  }
+
+  const chartLabel = (type: string) => HEALTH_CHARTS.find((c) => c.type === type)?.label || type;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      {header}
+
+      <main className="flex-1 pt-24 pb-12 px-6">
+        <div className="max-w-7xl mx-auto">
+          {/* Title, patient selector and range */}
+          <div className="mb-8 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <h1 className="text-4xl font-heading font-bold text-secondary">
+              {isSenior ? "My Health" : `${patientName}'s Health`}
+            </h1>
+            <div className="flex items-center gap-4">
+              {!isSenior && patients && patients.length > 1 && (
+                <div className="w-56">
+                  <Select value={patientId} onValueChange={setSelectedPatientId}>
+                    <SelectTrigger className="border-secondary">
+                      <SelectValue placeholder="Select a senior" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {patients.map((p) => (
+                        <SelectItem key={p.patient_id} value={p.patient_id}>
+                          {p.patient?.display_name || p.patient?.full_name || p.patient?.email || "Unknown Senior"}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex gap-4 text-xl font-heading font-bold text-secondary">
+                {HEALTH_RANGES.map((days, index) => (
+                  <React.Fragment key={days}>
+                    {index > 0 && <span>|</span>}
+                    <button
+                      onClick={() => setRange(days)}
+                      className={range === days ? "underline" : ""}
+                      aria-pressed={range === days}
+                    >
+                      {days}d
+                    </button>
+                  </React.Fragment>
+                ))}
+              </div>
+              {canImport && (
+                <Button variant="outline" className="border-secondary" onClick={() => setImportOpen(true)}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Import Data
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+            {/* Charts */}
+            <div className="lg:col-span-2">
+              {aggregatesLoading ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="w-8 h-8 animate-spin text-primary" />
+                </div>
+              ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {HEALTH_CHARTS.map((config) => (
+                    <HealthMetricChart
+                      key={config.type}
+                      config={config}
+                      points={toChartPoints(config, aggregates || [])}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Sync status and anomalies */}
+            <div className="space-y-8">
+              <div>
+                <h2 className="text-2xl font-heading font-bold text-secondary mb-4">Sync Status</h2>
+                <HealthSyncStatus statuses={syncStatuses || []} />
+              </div>
+
+              <div>
+                <h2 className="text-2xl font-heading font-bold text-secondary mb-4">Unusual Readings</h2>
+                {anomalies && anomalies.length > 0 ? (
+                  <div className="space-y-2">
+                    {anomalies.map((reading) => (
+                      <Card key={reading.id} className="p-4 flex items-start gap-3 border-destructive/50">
+                        <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                        <div>
+                          <p className="font-medium text-foreground">
+                            {chartLabel(reading.metric_type)}: {formatReading(reading)}
+                          </p>
+                          {reading.anomaly_reason && (
+                            <p className="text-sm text-foreground">{reading.anomaly_reason}</p>
+                          )}
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(reading.recorded_at).toLocaleString("en-US", {
+                              month: "short",
+                              day: "numeric",
+                              hour: "numeric",
+                              minute: "2-digit",
+                            })}
+                          </p>
+                        </div>
+                      </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-muted-foreground italic">No unusual readings in the last {range} days.</p>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </main>
+
+      <HealthImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        patientId={patientId}
+        patientName={isSenior ? "your account" : patientName}
+        timeZone={isSenior ? profile?.timezone : selectedPatient?.patient?.timezone}
+      />
+    </div>
+  );
+};
+
+export default HealthView;
@@ -8,6 +8,7 @@ import InteractionTimeline from "@/components/InteractionTimeline";
 import MoodIndicator from "@/components/MoodIndicator";
 import HistoryDetailModal from "@/components/HistoryDetailModal";
 import HamburgerMenu from "@/components/HamburgerMenu";
+import MotionTimeline from "@/components/devices/MotionTimeline";
 import { Button } from "@/components/ui/button";
 import { Upload, Loader2 } from "lucide-react";
 import { Input } from "@/components/ui/input";
@@ -30,8 +31,8 @@ const HistoryView = () => {
   const [timePeriod, setTimePeriod] = useState<7 | 14 | 30>(7);
   const { user } = useAuth();
 
-  // Use the authenticated user's ID as the patient ID
-  const patientId = user?.id;
+  // Caregivers pass the patient they are viewing; seniors see their own history
+  const patientId = searchParams.get("patient") || user?.id;
 
   // Fetch daily summaries
   const { data: summaries, isLoading } = useQuery({
@@ -66,9 +67,11 @@ const HistoryView = () => {
 
       const { data, error } = await supabase
         .from("alerts")
-        .select("*")
+        .select(
+          "*, escalations:alert_escalations(step_order, target, recipient_name, channels, delivered_channels, notified_at)"
+        )
         .eq("patient_id", patientId)
-        .eq("alert_type", "prolonged_inactivity")
+        .in("alert_type", ["prolonged_inactivity", "fall_escalation_required"])
         .gte("created_at", startDate.toISOString())
         .order("created_at", { ascending: false });
 
@@ -213,6 +216,16 @@ const HistoryView = () => {
             </div>
           </div>
 
+          {/* Today's movement from motion sensors */}
+          {patientId && (
+            <div className="bg-background rounded-3xl p-6 mt-12">
+              <MotionTimeline
+                patientId={patientId}
+                patientName="your loved one"
+                viewer={patientId === user?.id ? "senior" : "caregiver"}
+              />
+            </div>
+          )}
         </div>
 
         {/* History Detail Modal */}
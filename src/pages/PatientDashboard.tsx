@@ -7,6 +7,10 @@ import StatusIndicator from "@/components/StatusIndicator";
 import InteractionTimeline from "@/components/InteractionTimeline";
 import MoodIndicator from "@/components/MoodIndicator";
 import HamburgerMenu from "@/components/HamburgerMenu";
+import PatientMemories from "@/components/PatientMemories";
+import TodaysMedications from "@/components/medications/TodaysMedications";
+import CareCircleInvitations from "@/components/invitations/CareCircleInvitations";
+import CarePermissionsPanel from "@/components/permissions/CarePermissionsPanel";
 import { Button } from "@/components/ui/button";
 import { Mic, Loader2, Clock } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
@@ -55,6 +59,7 @@ const PatientDashboard = () => {
           id,
           note_text,
           note_type,
+          created_by,
           created_at,
           caregiver:profiles!caregiver_notes_caregiver_id_fkey(full_name, display_name)
         `)
@@ -151,7 +156,9 @@ const PatientDashboard = () => {
                       <Card key={note.id} className="p-4 border-l-4 border-primary">
                         <div className="flex items-start justify-between gap-2 mb-2">
                           <span className="text-sm font-medium text-secondary">
-                            {(note.caregiver as any)?.display_name || (note.caregiver as any)?.full_name || "Your Caregiver"}
+                            {note.created_by === "parra"
+                              ? "Parra"
+                              : (note.caregiver as any)?.display_name || (note.caregiver as any)?.full_name || "Your Caregiver"}
                           </span>
                           <div className="flex items-center gap-1 text-xs text-muted-foreground">
                             <Clock className="w-3 h-3" />
@@ -178,6 +185,28 @@ const PatientDashboard = () => {
             </div>
           </div>
 
+          {/* Medications Section */}
+          {patientId && (
+            <div className="border-t border-secondary pt-8 mb-8">
+              <TodaysMedications patientId={patientId} />
+            </div>
+          )}
+
+          {/* Memory Section */}
+          {patientId && (
+            <div className="border-t border-secondary pt-8 mb-8">
+              <PatientMemories patientId={patientId} patientName={patientName} viewer="senior" />
+            </div>
+          )}
+
+          {/* Care Circle Section */}
+          {patientId && (
+            <div className="border-t border-secondary pt-8 mb-8 space-y-8">
+              <CareCircleInvitations patientId={patientId} patientName={patientName} />
+              <CarePermissionsPanel patientId={patientId} patientName={patientName} />
+            </div>
+          )}
+
           {/* Analysis Section */}
           {/* QA: UI/UX fix 2025-10-15 - Removed three green horizontal lines per user request */}
           <div className="border-t border-secondary pt-8 mb-8">
@@ -6,23 +6,32 @@
  * - Talk: Voice-based interaction using Web Speech API
  * - Type: Text-based interaction
  *
+ * Actions Parra takes during the conversation (logging medication, alerting
+ * the care team, scheduling a follow-up) arrive as tool_result events in the
+ * senior-chat stream and are shown as confirmations under the latest message.
+ *
+ * When Parra has started a scheduled check-in in the app, its greeting
+ * replaces the default one so the senior can simply reply to it.
+ *
+ * The page never writes the conversation itself: senior-chat and voice-chat
+ * save every turn to the session as it happens.
+ *
  * @example
  * Navigate to /senior/chat to access this page
  */
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { useSearchParams, useNavigate } from "react-router-dom";
-import { supabase } from "@/integrations/supabase/client";
 import { callSupabaseFunctionStreaming } from "@/lib/supabase-functions";
 import { useAuth } from "@/contexts/AuthContext";
 import { useVoiceChat } from "@/hooks/useVoiceChat";
+import { usePendingCheckIn } from "@/hooks/useCheckInSchedules";
 import HamburgerMenu from "@/components/HamburgerMenu";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Send, Mic, Save, Type as TypeIcon, MicOff, Loader2 } from "lucide-react";
+import { Send, Mic, Type as TypeIcon, MicOff, Loader2, CheckCircle2, AlertCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { toast as sonnerToast } from "sonner";
 import { chatMessageSchema } from "@/lib/validation/schemas";
 import { sanitizeChatMessage } from "@/lib/validation/sanitization";
 import { checkRateLimit, recordRateLimitedAction, RATE_LIMITS } from "@/lib/validation/rate-limiting";
@@ -33,6 +42,16 @@ interface Message {
   timestamp?: string;
 }
 
+/**
+ * tool_result event streamed by senior-chat after Parra runs a tool
+ */
+interface ToolConfirmation {
+  tool_call_id: string;
+  name: string;
+  status: "success" | "error";
+  message: string;
+}
+
 const SeniorChat = () => {
   const [searchParams, setSearchParams] = useSearchParams();
   const navigate = useNavigate();
@@ -50,8 +69,9 @@ const SeniorChat = () => {
   ]);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
-  const [checkInStarted] = useState(new Date().toISOString());
-  const [checkInId, setCheckInId] = useState<string | null>(null);
+  // Conversations are saved by senior-chat (typed) and voice-chat (voice)
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [toolConfirmations, setToolConfirmations] = useState<ToolConfirmation[]>([]);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -94,6 +114,19 @@ const SeniorChat = () => {
   // Use authenticated user's ID
   const patientId = user?.id;
 
+  // Open with Parra's scheduled check-in if one is waiting in the app
+  const { data: pendingCheckIn } = usePendingCheckIn(patientId);
+
+  useEffect(() => {
+    if (!pendingCheckIn?.message) return;
+    const greeting = pendingCheckIn.message;
+    setMessages((prev) =>
+      prev.length === 1 && prev[0].role === "assistant"
+        ? [{ ...prev[0], content: greeting }]
+        : prev
+    );
+  }, [pendingCheckIn?.message]);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   };
@@ -105,74 +138,25 @@ const SeniorChat = () => {
   // Ref to track if we should auto-send
   const autoSendRef = useRef(false);
 
-  const saveCheckIn = async () => {
-    if (!patientId) {
-      sonnerToast.error("Unable to save: User not authenticated");
-      return;
-    }
-
-    try {
-      const messagesWithTimestamps = messages.map((msg, idx) => ({
-        ...msg,
-        timestamp: msg.timestamp || new Date(Date.now() - (messages.length - idx) * 1000).toISOString()
-      }));
-
-      const checkInData = {
-        patient_id: patientId,
-        interaction_type: mode === "talk" ? "voice" as const : "text" as const,
-        started_at: checkInStarted,
-        ended_at: new Date().toISOString(),
-        messages: messagesWithTimestamps,
-        sentiment_score: null,
-        mood_detected: null,
-        topics_discussed: [],
-        safety_concern_detected: false,
-      };
-
-      if (checkInId) {
-        const { error } = await supabase
-          .from("check_ins")
-          .update(checkInData)
-          .eq("id", checkInId)
-          .eq("patient_id", patientId);
-
-        if (error) throw error;
-      } else {
-        const { data, error } = await supabase
-          .from("check_ins")
-          .insert(checkInData)
-          .select()
-          .single();
-
-        if (error) throw error;
-        if (data) setCheckInId(data.id);
-      }
-
-      sonnerToast.success("Check-in saved successfully");
-    } catch (error) {
-      console.error("Error saving check-in:", error);
-      sonnerToast.error("Failed to save check-in");
-    }
-  };
-
-  useEffect(() => {
-    if (messages.length > 1 && messages.length % 5 === 0) {
-      void saveCheckIn();
-    }
-  }, [messages.length]);
-
   const streamChat = async (userMessage: Message) => {
+    setToolConfirmations([]);
+
     try {
       const resp = await callSupabaseFunctionStreaming({
         functionName: "senior-chat",
         body: {
-          messages: [...messages, userMessage],
-          mode: mode || 'type' // Send the interaction mode to backend
+          message: userMessage.content,
+          mode: mode || 'type', // Send the interaction mode to backend
+          ...(sessionId ? { sessionId } : {}),
         },
       });
 
       if (!resp.body) throw new Error("No response body");
 
+      // senior-chat saves the conversation; a closed session is replaced by a new one
+      const session = resp.headers.get("X-Session-Id");
+      if (session) setSessionId(session);
+
       const reader = resp.body.getReader();
       const decoder = new TextDecoder();
       let textBuffer = "";
@@ -198,6 +182,20 @@ const SeniorChat = () => {
 
           try {
             const parsed = JSON.parse(jsonStr);
+
+            if (parsed.type === "tool_result") {
+              setToolConfirmations((prev) => [
+                ...prev,
+                {
+                  tool_call_id: parsed.tool_call_id,
+                  name: parsed.name,
+                  status: parsed.status,
+                  message: parsed.message,
+                },
+              ]);
+              continue;
+            }
+
             const content = parsed.choices?.[0]?.delta?.content as string | undefined;
 
             if (content) {
@@ -402,6 +400,27 @@ const SeniorChat = () => {
               <p className="text-white/80 text-lg max-w-2xl mx-auto line-clamp-3">
                 {messages[messages.length - 1].content}
               </p>
+              {toolConfirmations.length > 0 && (
+                <div className="mt-3 flex flex-wrap justify-center gap-2">
+                  {toolConfirmations.map((confirmation) => (
+                    <span
+                      key={confirmation.tool_call_id}
+                      className={`inline-flex items-center gap-1 rounded-full px-3 py-1 text-sm ${
+                        confirmation.status === "success"
+                          ? "bg-white/10 text-white/80"
+                          : "bg-red-500/20 text-red-300"
+                      }`}
+                    >
+                      {confirmation.status === "success" ? (
+                        <CheckCircle2 className="w-4 h-4" />
+                      ) : (
+                        <AlertCircle className="w-4 h-4" />
+                      )}
+                      {confirmation.message}
+                    </span>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
@@ -428,17 +447,6 @@ const SeniorChat = () => {
                     <Mic className="h-10 w-10 text-white" />
                   )}
                 </Button>
-
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={saveCheckIn}
-                  disabled={messages.length <= 1}
-                  className="text-white/70 hover:text-white hover:bg-white/10"
-                >
-                  <Save className="h-5 w-5 mr-2" />
-                  Save
-                </Button>
               </div>
             ) : (
               /* Type Mode Controls */
@@ -459,15 +467,6 @@ const SeniorChat = () => {
                 >
                   <Send className="h-6 w-6" />
                 </Button>
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  onClick={saveCheckIn}
-                  disabled={messages.length <= 1}
-                  className="text-white/70 hover:text-white hover:bg-white/10"
-                >
-                  <Save className="h-5 w-5" />
-                </Button>
               </div>
             )}
 
@@ -0,0 +1,378 @@
+/**
+ * AdminDevices Page
+ *
+ * Manage SwitchBot motion sensors used for fall detection.
+ * Register sensors, assign them to patients and rooms, tune
+ * inactivity thresholds, and pause or remove sensors.
+ */
+
+import React, { useState } from 'react';
+import { AdminLayout } from '@/components/admin/AdminLayout';
+import { useAdminUsers } from '@/hooks/admin/useAdminData';
+import {
+  useSwitchbotDevices,
+  useCreateSwitchbotDevice,
+  useUpdateSwitchbotDevice,
+  useDeleteSwitchbotDevice,
+  type SwitchbotDevice,
+} from '@/hooks/useSwitchbotDevices';
+import { SwitchbotDeviceDialog } from '@/components/devices/SwitchbotDeviceDialog';
+import { DeviceStatusBadge } from '@/components/devices/DeviceStatusBadge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { Radio, AlertCircle, Edit, Filter, Plus, Trash2 } from 'lucide-react';
+import { formatAdminDate, formatDateTime } from '@/lib/admin/utils';
+import { isDeviceOffline, type SwitchbotDeviceInput } from '@/lib/devices';
+
+/**
+ * AdminDevices Page Component
+ */
+export const AdminDevices: React.FC = () => {
+  const [patientFilter, setPatientFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [selectedDevice, setSelectedDevice] = useState<SwitchbotDevice | null>(null);
+  const [formDialogOpen, setFormDialogOpen] = useState(false);
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+
+  const { data: devices, isLoading, error } = useSwitchbotDevices(
+    patientFilter !== 'all' ? patientFilter : undefined
+  );
+  const { data: users } = useAdminUsers();
+  const createMutation = useCreateSwitchbotDevice();
+  const updateMutation = useUpdateSwitchbotDevice();
+  const deleteMutation = useDeleteSwitchbotDevice();
+  const { toast } = useToast();
+
+  const seniors = users?.filter((u) => u.role === 'senior') || [];
+  const patientOptions = seniors.map((user) => ({
+    id: user.id,
+    label: `${user.full_name} (${user.email})`,
+  }));
+
+  const filteredDevices = devices?.filter((device) => {
+    if (statusFilter === 'paused') return !device.is_active;
+    if (statusFilter === 'offline') return isDeviceOffline(device);
+    if (statusFilter === 'online') return device.is_active && !isDeviceOffline(device);
+    return true;
+  });
+
+  const handleSave = async (input: SwitchbotDeviceInput) => {
+    try {
+      if (selectedDevice) {
+        await updateMutation.mutateAsync({ id: selectedDevice.id, ...input });
+        toast({
+          title: 'Sensor updated',
+          description: `${input.device_name} has been updated.`,
+        });
+      } else {
+        await createMutation.mutateAsync(input);
+        toast({
+          title: 'Sensor registered',
+          description: `${input.device_name} is now monitoring for inactivity.`,
+        });
+      }
+      setFormDialogOpen(false);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save sensor',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleToggleActive = async (device: SwitchbotDevice, isActive: boolean) => {
+    try {
+      await updateMutation.mutateAsync({ id: device.id, is_active: isActive });
+      toast({
+        title: isActive ? 'Monitoring resumed' : 'Monitoring paused',
+        description: `${device.device_name} ${isActive ? 'will flag inactivity again' : 'will not trigger check-ins'}.`,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to update sensor',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedDevice) return;
+
+    try {
+      await deleteMutation.mutateAsync(selectedDevice.id);
+      toast({
+        title: 'Sensor removed',
+        description: `${selectedDevice.device_name} has been permanently removed.`,
+      });
+      setDeleteDialogOpen(false);
+      setSelectedDevice(null);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: 'Failed to remove sensor',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <AdminLayout
+      title="Devices"
+      description="Manage SwitchBot motion sensors for fall detection"
+      breadcrumbs={[{ label: 'Devices' }]}
+    >
+      <div className="space-y-6">
+        {/* Header Actions */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <p className="text-sm text-muted-foreground">
+              {filteredDevices
+                ? `${filteredDevices.length} sensor${filteredDevices.length !== 1 ? 's' : ''} found`
+                : 'Loading...'}
+            </p>
+            <Select value={patientFilter} onValueChange={setPatientFilter}>
+              <SelectTrigger className="w-56" aria-label="Filter by patient">
+                <Filter className="h-4 w-4 mr-2" aria-hidden="true" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Patients</SelectItem>
+                {seniors.map((user) => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.full_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="online">Online</SelectItem>
+                <SelectItem value="offline">Offline</SelectItem>
+                <SelectItem value="paused">Paused</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            onClick={() => {
+              setSelectedDevice(null);
+              setFormDialogOpen(true);
+            }}
+          >
+            <Plus className="h-4 w-4 mr-2" aria-hidden="true" />
+            Register Sensor
+          </Button>
+        </div>
+
+        {/* Error State */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" aria-hidden="true" />
+            <AlertDescription>Failed to load devices. Please try again.</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Devices Table */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Motion Sensors</CardTitle>
+            <CardDescription>
+              Paused sensors keep their settings but do not start inactivity check-ins
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="space-y-3">
+                {[...Array(5)].map((_, i) => (
+                  <Skeleton key={i} className="h-16 w-full" />
+                ))}
+              </div>
+            ) : filteredDevices && filteredDevices.length > 0 ? (
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Sensor</TableHead>
+                      <TableHead>Patient</TableHead>
+                      <TableHead>Room</TableHead>
+                      <TableHead>Thresholds</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Last Event</TableHead>
+                      <TableHead>Monitoring</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredDevices.map((device) => (
+                      <TableRow key={device.id}>
+                        <TableCell>
+                          <div>
+                            <p className="font-medium" style={{ color: '#2F4733' }}>
+                              {device.device_name}
+                            </p>
+                            <p className="text-sm text-muted-foreground font-mono">
+                              {device.device_mac}
+                            </p>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <div>
+                            <p className="font-medium" style={{ color: '#2F4733' }}>
+                              {device.patient?.full_name || 'Unknown'}
+                            </p>
+                            <p className="text-sm text-muted-foreground">{device.patient?.email}</p>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-sm">{device.location || '—'}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">
+                          {device.sensitivity_seconds}s / {device.escalation_minutes} min
+                        </TableCell>
+                        <TableCell>
+                          <DeviceStatusBadge device={device} />
+                        </TableCell>
+                        <TableCell
+                          className="text-sm text-muted-foreground"
+                          title={formatDateTime(device.last_event_at)}
+                        >
+                          {formatAdminDate(device.last_event_at)}
+                        </TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={device.is_active}
+                            onCheckedChange={(checked) => handleToggleActive(device, checked)}
+                            disabled={updateMutation.isPending}
+                            aria-label={device.is_active ? 'Pause monitoring' : 'Resume monitoring'}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setSelectedDevice(device);
+                                setFormDialogOpen(true);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" aria-hidden="true" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                setSelectedDevice(device);
+                                setDeleteDialogOpen(true);
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" aria-hidden="true" />
+                              <span className="sr-only">Delete</span>
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <div className="text-center py-12">
+                <Radio className="h-12 w-12 mx-auto mb-4 text-muted-foreground" aria-hidden="true" />
+                <p className="text-lg font-medium mb-2">No sensors found</p>
+                <p className="text-sm text-muted-foreground mb-4">
+                  {patientFilter !== 'all' || statusFilter !== 'all'
+                    ? 'Try adjusting your filters'
+                    : 'Register a SwitchBot motion sensor to start fall detection'}
+                </p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Dialogs */}
+      <SwitchbotDeviceDialog
+        open={formDialogOpen}
+        onOpenChange={setFormDialogOpen}
+        device={selectedDevice}
+        patients={patientOptions}
+        onSubmit={handleSave}
+        isSaving={createMutation.isPending || updateMutation.isPending}
+      />
+
+      <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Remove Sensor</DialogTitle>
+            <DialogDescription>
+              This deletes the sensor and its motion history. To stop monitoring temporarily,
+              pause the sensor instead.
+            </DialogDescription>
+          </DialogHeader>
+
+          {selectedDevice && (
+            <div className="space-y-2 py-4">
+              <p className="text-sm font-medium">{selectedDevice.device_name}</p>
+              <p className="text-sm text-muted-foreground">
+                {selectedDevice.device_mac} · {selectedDevice.patient?.full_name || 'Unknown'}
+              </p>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setDeleteDialogOpen(false)}
+              disabled={deleteMutation.isPending}
+            >
+              Cancel
+            </Button>
+            <Button
+              type="button"
+              variant="destructive"
+              onClick={handleDelete}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? 'Removing...' : 'Remove'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </AdminLayout>
+  );
+};
+
+export default AdminDevices;
@@ -3,9 +3,11 @@
  *
  * System configuration and settings management.
  * Configure feature flags, notifications, security, and system settings.
+ * Each save is stored as a new settings version (see update-system-settings);
+ * the edge functions that apply the settings read the latest one.
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AdminLayout } from '@/components/admin/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -25,39 +27,36 @@ import {
   AlertCircle,
   CheckCircle2,
 } from 'lucide-react';
-import { systemSettingsSchema } from '@/lib/admin/validation';
+import { DEFAULT_SYSTEM_SETTINGS, systemSettingsSchema } from '@/lib/admin/validation';
+import { formatDateTime, SYSTEM_SETTING_LABELS } from '@/lib/admin/utils';
 import type { SystemSettings } from '@/lib/admin/types';
+import {
+  useSystemSettings,
+  useSystemSettingsHistory,
+  useUpdateSystemSettings,
+} from '@/hooks/admin/useAdminData';
+import { SupabaseFunctionError } from '@/lib/supabase-functions';
 
 /**
  * AdminSettings Page Component
  */
 export const AdminSettings: React.FC = () => {
   const { toast } = useToast();
-  const [isSaving, setIsSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
+  const [settings, setSettings] = useState<SystemSettings>(DEFAULT_SYSTEM_SETTINGS);
 
-  // Initialize with default settings
-  const [settings, setSettings] = useState<SystemSettings>({
-    // Feature flags
-    enableBetaFeatures: false,
-    enableVoiceCheckins: true,
-    enableWhatsAppIntegration: false,
-
-    // Notification settings
-    alertNotificationDelay: 5,
-    escalationThreshold: 30,
-    dailySummaryTime: '08:00',
-
-    // Security settings
-    sessionTimeout: 60,
-    requireMFA: false,
-    passwordMinLength: 8,
+  const { data: stored, isLoading } = useSystemSettings();
+  const { data: history } = useSystemSettingsHistory();
+  const updateSettings = useUpdateSystemSettings();
+  const isSaving = updateSettings.isPending;
 
-    // System settings
-    maintenanceMode: false,
-    maxCheckInsPerDay: 20,
-    dataRetentionDays: 365,
-  });
+  // Show the saved settings, and again whenever a new version arrives
+  useEffect(() => {
+    if (stored) {
+      setSettings(stored.settings);
+      setHasChanges(false);
+    }
+  }, [stored]);
 
   const updateSetting = <K extends keyof SystemSettings>(
     key: K,
@@ -68,65 +67,51 @@ export const AdminSettings: React.FC = () => {
   };
 
   const handleSave = async () => {
-    setIsSaving(true);
+    // Validate settings
+    const validation = systemSettingsSchema.safeParse(settings);
+    if (!validation.success) {
+      toast({
+        title: 'Validation Error',
+        description: validation.error.errors[0]?.message || 'Invalid settings',
+        variant: 'destructive',
+      });
+      return;
+    }
 
     try {
-      // Validate settings
-      const validation = systemSettingsSchema.safeParse(settings);
-      if (!validation.success) {
-        toast({
-          title: 'Validation Error',
-          description: validation.error.errors[0]?.message || 'Invalid settings',
-          variant: 'destructive',
-        });
-        setIsSaving(false);
-        return;
-      }
-
-      // In a real app, save to backend
-      // await saveSystemSettings(validation.data);
-
-      // Simulate API call
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const result = await updateSettings.mutateAsync({
+        settings: validation.data,
+        expectedVersion: stored?.version ?? 0,
+      });
 
       toast({
         title: 'Settings saved',
-        description: 'System settings have been updated successfully.',
+        description:
+          result.changedKeys.length > 0
+            ? `System settings have been updated (version ${result.version}).`
+            : 'Nothing had changed.',
       });
 
       setHasChanges(false);
     } catch (error) {
+      // Someone else saved first: the latest settings are reloaded
+      const conflict = error instanceof SupabaseFunctionError && error.statusCode === 409;
       toast({
-        title: 'Error',
+        title: conflict ? 'Settings changed elsewhere' : 'Error',
         description: error instanceof Error ? error.message : 'Failed to save settings',
         variant: 'destructive',
       });
-    } finally {
-      setIsSaving(false);
     }
   };
 
   const handleReset = () => {
-    // Reset to default values
-    setSettings({
-      enableBetaFeatures: false,
-      enableVoiceCheckins: true,
-      enableWhatsAppIntegration: false,
-      alertNotificationDelay: 5,
-      escalationThreshold: 30,
-      dailySummaryTime: '08:00',
-      sessionTimeout: 60,
-      requireMFA: false,
-      passwordMinLength: 8,
-      maintenanceMode: false,
-      maxCheckInsPerDay: 20,
-      dataRetentionDays: 365,
-    });
-    setHasChanges(false);
+    // Reset the form to default values; saving applies them
+    setSettings(DEFAULT_SYSTEM_SETTINGS);
+    setHasChanges(true);
 
     toast({
-      title: 'Settings reset',
-      description: 'All settings have been reset to defaults.',
+      title: 'Defaults restored',
+      description: 'Save your settings to apply the defaults.',
     });
   };
 
@@ -263,7 +248,7 @@ export const AdminSettings: React.FC = () => {
                 <div className="space-y-2">
                   <Label htmlFor="escalationThreshold">Escalation Threshold (minutes)</Label>
                   <p className="text-sm text-muted-foreground">
-                    Time before escalating unacknowledged alerts
+                    Longest an unanswered fall check-in waits before the care circle is alerted
                   </p>
                   <Input
                     id="escalationThreshold"
@@ -280,7 +265,7 @@ export const AdminSettings: React.FC = () => {
                 <div className="space-y-2">
                   <Label htmlFor="dailySummaryTime">Daily Summary Time</Label>
                   <p className="text-sm text-muted-foreground">
-                    Time to send daily summary emails (24-hour format)
+                    Local time by which each senior's summary of the previous day is final (24-hour format)
                   </p>
                   <Input
                     id="dailySummaryTime"
@@ -376,7 +361,7 @@ export const AdminSettings: React.FC = () => {
                       Maintenance Mode
                     </Label>
                     <p className="text-sm text-muted-foreground">
-                      Temporarily disable the system for maintenance
+                      Only admins can chat with Parra; alerts and escalations keep running
                     </p>
                   </div>
                   <Switch
@@ -389,7 +374,7 @@ export const AdminSettings: React.FC = () => {
                 <div className="space-y-2">
                   <Label htmlFor="maxCheckInsPerDay">Maximum Check-ins Per Day</Label>
                   <p className="text-sm text-muted-foreground">
-                    Maximum number of check-ins allowed per senior per day
+                    Maximum number of conversations a senior can start with Parra per day
                   </p>
                   <Input
                     id="maxCheckInsPerDay"
@@ -404,7 +389,8 @@ export const AdminSettings: React.FC = () => {
                 <div className="space-y-2">
                   <Label htmlFor="dataRetentionDays">Data Retention Period (days)</Label>
                   <p className="text-sm text-muted-foreground">
-                    Number of days to retain historical data
+                    Conversation content, voice messages, motion events and health readings older than this are
+                    removed nightly. Daily summaries and health trends are kept.
                   </p>
                   <Input
                     id="dataRetentionDays"
@@ -424,7 +410,7 @@ export const AdminSettings: React.FC = () => {
         <Card>
           <CardContent className="pt-6">
             <div className="flex items-center justify-between">
-              <Button variant="outline" onClick={handleReset} disabled={isSaving || !hasChanges}>
+              <Button variant="outline" onClick={handleReset} disabled={isSaving || isLoading}>
                 Reset to Defaults
               </Button>
               <div className="flex gap-2">
@@ -434,7 +420,7 @@ export const AdminSettings: React.FC = () => {
                     Unsaved changes
                   </div>
                 )}
-                <Button onClick={handleSave} disabled={isSaving || !hasChanges}>
+                <Button onClick={handleSave} disabled={isSaving || isLoading || !hasChanges}>
                   {isSaving ? (
                     <>Saving...</>
                   ) : (
@@ -466,7 +452,7 @@ export const AdminSettings: React.FC = () => {
                 <div className="flex items-center gap-2 mt-1">
                   <CheckCircle2 className="h-4 w-4 text-green-600" aria-hidden="true" />
                   <span className="text-sm font-medium">
-                    {settings.maintenanceMode ? 'Maintenance Mode' : 'Operational'}
+                    {stored?.settings.maintenanceMode ? 'Maintenance Mode' : 'Operational'}
                   </span>
                 </div>
               </div>
@@ -476,11 +462,51 @@ export const AdminSettings: React.FC = () => {
               </div>
               <div>
                 <Label className="text-muted-foreground">Last Updated</Label>
-                <p className="text-sm font-medium mt-1">{new Date().toLocaleString()}</p>
+                <p className="text-sm font-medium mt-1">
+                  {stored?.updatedAt ? formatDateTime(stored.updatedAt) : 'Never'}
+                  {stored && stored.version > 0 && ` (version ${stored.version})`}
+                </p>
               </div>
             </div>
           </CardContent>
         </Card>
+
+        {/* Change History */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Change History</CardTitle>
+            <CardDescription>Recent settings versions and who saved them</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!history || history.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No settings have been saved yet.</p>
+            ) : (
+              <ul className="space-y-3">
+                {history.map((entry) => (
+                  <li key={entry.version} className="flex flex-col gap-1 sm:flex-row sm:justify-between">
+                    <div>
+                      <p className="text-sm font-medium">
+                        Version {entry.version}
+                        {entry.updatedBy && (
+                          <span className="text-muted-foreground font-normal">
+                            {' '}
+                            by {entry.updatedBy.full_name || entry.updatedBy.email}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {entry.changedKeys.length > 0
+                          ? entry.changedKeys.map((key) => SYSTEM_SETTING_LABELS[key] ?? key).join(', ')
+                          : 'Initial settings'}
+                      </p>
+                    </div>
+                    <span className="text-sm text-muted-foreground">{formatDateTime(entry.createdAt)}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </AdminLayout>
   );
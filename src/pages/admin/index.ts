@@ -8,5 +8,6 @@ export { default as AdminDashboard } from './AdminDashboard';
 export { default as AdminUsers } from './AdminUsers';
 export { default as AdminCareRelationships } from './AdminCareRelationships';
 export { default as AdminAlerts } from './AdminAlerts';
+export { default as AdminDevices } from './AdminDevices';
 export { default as AdminAuditLog } from './AdminAuditLog';
 export { default as AdminSettings } from './AdminSettings';
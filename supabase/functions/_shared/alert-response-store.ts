@@ -0,0 +1,120 @@
+/**
+ * Alert Response Store
+ *
+ * Finds the alert a caregiver's WhatsApp or Telegram reply is about and
+ * records their response through respond_to_alert(), for whatsapp-webhook,
+ * telegram-webhook and respond-to-alert. Expects a service role client.
+ *
+ * @module edge-functions/alert-response-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+  getAlertReference,
+  type AlertResponseAction,
+  type AlertResponseChannel,
+} from "./alert-responses.ts";
+
+/** How far back a reply without a reference looks for open alerts */
+const OPEN_ALERT_WINDOW_DAYS = 7;
+
+export interface RespondedAlert {
+  id: string;
+  patient_id: string;
+  status: string;
+  alert_message: string;
+  created_at: string;
+  acknowledged_at: string | null;
+  resolved_at: string | null;
+}
+
+export type AlertMatch =
+  | { status: "found"; alertId: string; reference: string }
+  | { status: "ambiguous"; references: string[] }
+  | { status: "none" };
+
+/**
+ * The open alert a caregiver is replying to: the one with `reference`, or
+ * otherwise their only open alert (preferring alerts they were notified
+ * about). Only patients whose alerts the caregiver may receive count.
+ */
+export async function findAlertForReply(
+  supabase: SupabaseClient,
+  responderId: string,
+  reference: string | null,
+  now: Date = new Date()
+): Promise<AlertMatch> {
+  const { data: relationships, error: relationshipsError } = await supabase
+    .from("care_relationships")
+    .select("patient_id")
+    .eq("caregiver_id", responderId)
+    .eq("status", "active")
+    .eq("can_receive_alerts", true);
+
+  if (relationshipsError) {
+    throw new Error(`Failed to load care relationships: ${relationshipsError.message}`);
+  }
+
+  const patientIds = (relationships || []).map((row) => row.patient_id as string);
+  if (patientIds.length === 0) return { status: "none" };
+
+  const since = new Date(now.getTime() - OPEN_ALERT_WINDOW_DAYS * 86400000);
+  const { data: alerts, error: alertsError } = await supabase
+    .from("alerts")
+    .select("id, notified_caregivers")
+    .in("patient_id", patientIds)
+    .in("status", ["active", "acknowledged"])
+    .gte("created_at", since.toISOString())
+    .order("created_at", { ascending: false })
+    .limit(50);
+
+  if (alertsError) {
+    throw new Error(`Failed to load open alerts: ${alertsError.message}`);
+  }
+
+  const open = (alerts || []) as { id: string; notified_caregivers: string[] | null }[];
+
+  if (reference) {
+    const match = open.find((alert) => getAlertReference(alert.id) === reference);
+    return match ? { status: "found", alertId: match.id, reference } : { status: "none" };
+  }
+
+  const notified = open.filter((alert) => alert.notified_caregivers?.includes(responderId));
+  const candidates = notified.length > 0 ? notified : open;
+
+  if (candidates.length === 0) return { status: "none" };
+  if (candidates.length > 1) {
+    return { status: "ambiguous", references: candidates.map((alert) => getAlertReference(alert.id)) };
+  }
+  return { status: "found", alertId: candidates[0].id, reference: getAlertReference(candidates[0].id) };
+}
+
+/**
+ * Acknowledge, resolve or dismiss an alert on behalf of a caregiver. Throws
+ * with the database error code ("42501" when they may not respond,
+ * "P0002" for an unknown alert).
+ */
+export async function respondToAlert(
+  supabase: SupabaseClient,
+  input: {
+    alertId: string;
+    responderId: string;
+    action: AlertResponseAction;
+    channel: AlertResponseChannel;
+    note?: string | null;
+  }
+): Promise<RespondedAlert> {
+  const { data, error } = await supabase.rpc("respond_to_alert", {
+    p_alert_id: input.alertId,
+    p_action: input.action,
+    p_channel: input.channel,
+    p_notes: input.note ?? null,
+    p_responder_id: input.responderId,
+  });
+
+  if (error) {
+    throw Object.assign(new Error(`Failed to respond to alert: ${error.message}`), { code: error.code });
+  }
+
+  return data as RespondedAlert;
+}
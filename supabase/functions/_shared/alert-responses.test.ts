@@ -0,0 +1,132 @@
+/**
+ * Alert Response Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildAlertResponseUrl,
+  findAlertReference,
+  formatAmbiguousReply,
+  formatResponseConfirmation,
+  getAlertLinkExpiry,
+  getAlertReference,
+  parseAlertReply,
+  parseTelegramLinkCommand,
+  signAlertResponseToken,
+  verifyAlertResponseToken,
+} from './alert-responses';
+
+const SECRET = 'test-signing-secret';
+const ALERT_ID = '3f9a1c2e-5a4d-4e7f-9b6a-1c2d3e4f5a6b';
+const CAREGIVER_ID = '8b7c6d5e-4f3a-4b2c-8d1e-0f9a8b7c6d5e';
+
+describe('alert response tokens', () => {
+  const now = new Date('2025-11-04T08:00:00Z');
+  const expiresAt = getAlertLinkExpiry(now);
+
+  it('should accept a token it signed until it expires', async () => {
+    const token = await signAlertResponseToken(SECRET, ALERT_ID, CAREGIVER_ID, expiresAt);
+
+    expect(await verifyAlertResponseToken(SECRET, token, now)).toEqual({
+      ok: true,
+      alertId: ALERT_ID,
+      responderId: CAREGIVER_ID,
+      expiresAt: new Date('2025-11-07T08:00:00Z'),
+    });
+    expect(await verifyAlertResponseToken(SECRET, token, new Date('2025-11-07T08:00:00Z'))).toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+
+  it('should reject tokens that were changed or signed with another secret', async () => {
+    const token = await signAlertResponseToken(SECRET, ALERT_ID, CAREGIVER_ID, expiresAt);
+    const [, , expiry, signature] = token.split('.');
+    const otherCaregiver = `${ALERT_ID}.${'1'.repeat(8)}-1111-4111-8111-${'1'.repeat(12)}.${expiry}.${signature}`;
+
+    expect(await verifyAlertResponseToken(SECRET, otherCaregiver, now)).toEqual({ ok: false, reason: 'bad_signature' });
+    expect(await verifyAlertResponseToken('other-secret', token, now)).toEqual({ ok: false, reason: 'bad_signature' });
+    expect(await verifyAlertResponseToken(SECRET, 'not-a-token', now)).toEqual({ ok: false, reason: 'malformed' });
+  });
+
+  it('should build links to the alert response page', () => {
+    expect(buildAlertResponseUrl('https://app.example.com/', 'a.b+c', 'false_alarm')).toBe(
+      'https://app.example.com/alert-response?token=a.b%2Bc&action=false_alarm'
+    );
+  });
+});
+
+describe('parseAlertReply', () => {
+  it('should recognise each keyword with or without a reference', () => {
+    expect(parseAlertReply('ACK 3F9A1C')).toEqual({ action: 'acknowledge', reference: '3F9A1C', note: null });
+    expect(parseAlertReply('acknowledged')).toEqual({ action: 'acknowledge', reference: null, note: null });
+    expect(parseAlertReply('Resolved 3f9a1c')).toEqual({ action: 'resolve', reference: '3F9A1C', note: null });
+    expect(parseAlertReply('FALSE ALARM 3F9A1C')).toEqual({ action: 'false_alarm', reference: '3F9A1C', note: null });
+  });
+
+  it('should accept Telegram commands', () => {
+    expect(parseAlertReply('/ack')).toEqual({ action: 'acknowledge', reference: null, note: null });
+    expect(parseAlertReply('/falsealarm@ParraBot 3F9A1C')).toEqual({
+      action: 'false_alarm',
+      reference: '3F9A1C',
+      note: null,
+    });
+  });
+
+  it('should keep anything after the keyword as a note', () => {
+    expect(parseAlertReply('RESOLVED 3F9A1C - she was in the garden')).toEqual({
+      action: 'resolve',
+      reference: '3F9A1C',
+      note: 'she was in the garden',
+    });
+    expect(parseAlertReply('resolved, sensor battery was flat')).toEqual({
+      action: 'resolve',
+      reference: null,
+      note: 'sensor battery was flat',
+    });
+  });
+
+  it('should ignore other messages', () => {
+    expect(parseAlertReply('Is she okay?')).toBeNull();
+    expect(parseAlertReply('acknowledgement received')).toBeNull();
+    expect(parseAlertReply('')).toBeNull();
+  });
+});
+
+describe('alert references', () => {
+  it('should use the start of the alert id', () => {
+    expect(getAlertReference(ALERT_ID)).toBe('3F9A1C');
+  });
+
+  it('should find the reference quoted in a notification', () => {
+    expect(findAlertReference('Reply /ack, /resolved or /falsealarm to this message (ref 3F9A1C).')).toBe('3F9A1C');
+    expect(findAlertReference('No one has responded to this alert yet.')).toBeNull();
+  });
+});
+
+describe('reply messages', () => {
+  it('should confirm the alert status after a response', () => {
+    expect(formatResponseConfirmation('3F9A1C', 'acknowledged')).toContain('no one else will be contacted');
+    expect(formatResponseConfirmation('3F9A1C', 'resolved')).toBe('Alert 3F9A1C is resolved. Thank you.');
+    expect(formatResponseConfirmation('3F9A1C', 'false_alarm')).toBe('Alert 3F9A1C is marked as a false alarm. Thank you.');
+  });
+
+  it('should ask for a reference when several alerts are open', () => {
+    expect(formatAmbiguousReply(['3F9A1C', '4B2D11'])).toBe(
+      'You have 2 open alerts (3F9A1C, 4B2D11). Add the reference to your reply, e.g. ACK 3F9A1C.'
+    );
+  });
+});
+
+describe('parseTelegramLinkCommand', () => {
+  it('should read the code from /link and /start', () => {
+    expect(parseTelegramLinkCommand('/link abcd1234')).toBe('ABCD1234');
+    expect(parseTelegramLinkCommand('/start@ParraBot ABCD1234')).toBe('ABCD1234');
+  });
+
+  it('should ignore anything else', () => {
+    expect(parseTelegramLinkCommand('/link')).toBeNull();
+    expect(parseTelegramLinkCommand('link ABCD1234')).toBeNull();
+    expect(parseTelegramLinkCommand('/ack 3F9A1C')).toBeNull();
+  });
+});
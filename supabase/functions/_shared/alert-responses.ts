@@ -0,0 +1,212 @@
+/**
+ * Alert Responses
+ *
+ * How caregivers acknowledge, resolve or dismiss an alert from the
+ * notification itself:
+ * - Email: signed, expiring links to the /alert-response page. A token is
+ *   "<alert id>.<caregiver id>.<expiry in unix seconds>.<signature>", so a
+ *   link only ever acts for the caregiver it was sent to.
+ * - WhatsApp and Telegram: reply keywords ("ACK 3F9A1C", "/resolved"),
+ *   where 3F9A1C is the alert's short reference.
+ *
+ * The change itself is made by the respond_to_alert() database function.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/alert-responses
+ */
+
+import { safeEqual, signPayload } from "./signing.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const ALERT_RESPONSE_ACTIONS = ["acknowledge", "resolve", "false_alarm"] as const;
+
+export type AlertResponseAction = (typeof ALERT_RESPONSE_ACTIONS)[number];
+
+export type AlertResponseChannel = "dashboard" | "email" | "whatsapp" | "telegram";
+
+export type AlertTokenCheck =
+  | { ok: true; alertId: string; responderId: string; expiresAt: Date }
+  | { ok: false; reason: "malformed" | "bad_signature" | "expired" };
+
+export interface AlertReply {
+  action: AlertResponseAction;
+  /** Short alert reference, upper case; null when the reply didn't name one */
+  reference: string | null;
+  /** Anything written after the keyword and reference */
+  note: string | null;
+}
+
+/** How long the links in an alert email keep working */
+export const ALERT_LINK_TTL_HOURS = 72;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Keyword (optionally as a Telegram command, "/ack@ParraBot"), then an
+ * optional reference, then an optional note
+ */
+const REPLY_PATTERN =
+  /^\s*\/?(acknowledged?|ack|resolved?|false[\s_-]?alarm|false)(?:@\w+)?(?![a-z])[\s:,.!-]*(?:#?([0-9a-f]{6})(?![0-9a-z]))?[\s:,.!-]*([\s\S]*)$/i;
+
+const REFERENCE_PATTERN = /\bref(?:erence)?:?\s*#?([0-9a-f]{6})\b/i;
+
+const LINK_COMMAND_PATTERN = /^\s*\/(?:link|start)(?:@\w+)?\s+([a-z0-9]{8})\s*$/i;
+
+// ============================================================================
+// Signed Links
+// ============================================================================
+
+/**
+ * Expiry for links sent at `now`
+ */
+export function getAlertLinkExpiry(now: Date): Date {
+  return new Date(now.getTime() + ALERT_LINK_TTL_HOURS * 3600000);
+}
+
+/**
+ * Token for a caregiver's response links to an alert
+ */
+export async function signAlertResponseToken(
+  secret: string,
+  alertId: string,
+  responderId: string,
+  expiresAt: Date
+): Promise<string> {
+  const payload = `${alertId}.${responderId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await signPayload(secret, payload)}`;
+}
+
+/**
+ * Check a token's shape, signature and expiry
+ */
+export async function verifyAlertResponseToken(secret: string, token: string, now: Date): Promise<AlertTokenCheck> {
+  const parts = token.split(".");
+  if (
+    parts.length !== 4 ||
+    !UUID_PATTERN.test(parts[0]) ||
+    !UUID_PATTERN.test(parts[1]) ||
+    !/^\d+$/.test(parts[2])
+  ) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const [alertId, responderId, expiry, signature] = parts;
+  if (!safeEqual(signature, await signPayload(secret, `${alertId}.${responderId}.${expiry}`))) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  const expiresAt = new Date(Number(expiry) * 1000);
+  if (now.getTime() >= expiresAt.getTime()) {
+    return { ok: false, reason: "expired" };
+  }
+
+  return { ok: true, alertId, responderId, expiresAt };
+}
+
+/**
+ * Link to the /alert-response page that takes `action` when opened
+ */
+export function buildAlertResponseUrl(appUrl: string, token: string, action: AlertResponseAction): string {
+  return `${appUrl.replace(/\/$/, "")}/alert-response?token=${encodeURIComponent(token)}&action=${action}`;
+}
+
+// ============================================================================
+// Reply Keywords
+// ============================================================================
+
+/**
+ * Short reference caregivers quote when replying: the first 6 characters
+ * of the alert id
+ */
+export function getAlertReference(alertId: string): string {
+  return alertId.slice(0, 6).toUpperCase();
+}
+
+/**
+ * Recognise a caregiver's reply to an alert: ACK, RESOLVED or FALSE ALARM,
+ * optionally followed by the alert reference and a note
+ */
+export function parseAlertReply(text: string): AlertReply | null {
+  const match = text.match(REPLY_PATTERN);
+  if (!match) return null;
+
+  const keyword = match[1].toLowerCase();
+  const action: AlertResponseAction = keyword.startsWith("ack")
+    ? "acknowledge"
+    : keyword.startsWith("resolve")
+    ? "resolve"
+    : "false_alarm";
+  const note = match[3].trim();
+
+  return {
+    action,
+    reference: match[2] ? match[2].toUpperCase() : null,
+    note: note.length > 0 ? note : null,
+  };
+}
+
+/**
+ * The alert reference quoted in a notification ("ref 3F9A1C"), e.g. the
+ * Telegram message a caregiver replied to
+ */
+export function findAlertReference(text: string): string | null {
+  const match = text.match(REFERENCE_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * How to respond, appended to WhatsApp and SMS alerts
+ */
+export function formatReplyInstructions(reference: string): string {
+  return `Reply ACK ${reference} if you're handling this, RESOLVED ${reference} once they're safe, or FALSE ALARM ${reference}.`;
+}
+
+/**
+ * How to respond, appended to the Telegram alert. Works as a reply to the
+ * message or with the reference after the command.
+ */
+export function formatTelegramReplyInstructions(reference: string): string {
+  return `Reply /ack, /resolved or /falsealarm to this message (ref ${reference}).`;
+}
+
+/**
+ * Reply after a caregiver answered an alert, from the alert's status
+ * afterwards (an alert answered elsewhere first keeps its status)
+ */
+export function formatResponseConfirmation(reference: string, status: string): string {
+  switch (status) {
+    case "acknowledged":
+      return `Thanks. Alert ${reference} is acknowledged, so no one else will be contacted about it. Reply RESOLVED ${reference} once everything is okay.`;
+    case "resolved":
+      return `Alert ${reference} is resolved. Thank you.`;
+    case "false_alarm":
+      return `Alert ${reference} is marked as a false alarm. Thank you.`;
+    default:
+      return `Alert ${reference} is still open.`;
+  }
+}
+
+/**
+ * Reply when a caregiver with several open alerts didn't say which one
+ */
+export function formatAmbiguousReply(references: string[]): string {
+  return `You have ${references.length} open alerts (${references.join(", ")}). Add the reference to your reply, e.g. ACK ${references[0]}.`;
+}
+
+// ============================================================================
+// Telegram Accounts
+// ============================================================================
+
+/**
+ * The code in a "/link ABCD1234" message (or the bot's "/start ABCD1234"
+ * deep link) that connects a Telegram account to a Parra account
+ */
+export function parseTelegramLinkCommand(text: string): string | null {
+  const match = text.match(LINK_COMMAND_PATTERN);
+  return match ? match[1].toUpperCase() : null;
+}
@@ -0,0 +1,64 @@
+/**
+ * Care Circle Invitation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatInvitationMessage,
+  getInvitationExpiry,
+  signInvitationToken,
+  verifyInvitationToken,
+} from './care-invitations';
+
+const SECRET = 'test-signing-secret';
+const INVITATION_ID = '3f2b8c1e-5a4d-4e7f-9b6a-1c2d3e4f5a6b';
+
+describe('invitation tokens', () => {
+  const now = new Date('2025-11-01T12:00:00Z');
+  const expiresAt = getInvitationExpiry(now);
+
+  it('should accept a token it signed until it expires', async () => {
+    const token = await signInvitationToken(SECRET, INVITATION_ID, expiresAt);
+
+    expect(await verifyInvitationToken(SECRET, token, now)).toEqual({
+      ok: true,
+      invitationId: INVITATION_ID,
+      expiresAt: new Date('2025-11-08T12:00:00Z'),
+    });
+    expect(await verifyInvitationToken(SECRET, token, new Date('2025-11-08T12:00:00Z'))).toEqual({
+      ok: false,
+      reason: 'expired',
+    });
+  });
+
+  it('should reject tampered, foreign and malformed tokens', async () => {
+    const token = await signInvitationToken(SECRET, INVITATION_ID, expiresAt);
+    const [id, , signature] = token.split('.');
+    const extended = `${id}.${Math.floor(expiresAt.getTime() / 1000) + 86400}.${signature}`;
+
+    expect(await verifyInvitationToken(SECRET, extended, now)).toEqual({ ok: false, reason: 'bad_signature' });
+    expect(await verifyInvitationToken('another-secret', token, now)).toEqual({ ok: false, reason: 'bad_signature' });
+    expect(await verifyInvitationToken(SECRET, 'not-a-token', now)).toEqual({ ok: false, reason: 'malformed' });
+  });
+});
+
+describe('formatInvitationMessage', () => {
+  const input = {
+    patientName: 'Margaret',
+    inviterName: 'Anna',
+    acceptUrl: 'https://parra.example/invite?token=abc',
+    expiresAt: new Date('2025-11-08T12:00:00Z'),
+  };
+
+  it("should name the patient's care circle and include the link", () => {
+    const message = formatInvitationMessage(input);
+    expect(message).toContain("Anna has invited you to join Margaret's care circle on Parra.");
+    expect(message).toContain('valid until November 8): https://parra.example/invite?token=abc');
+  });
+
+  it('should word an invitation from the senior themselves', () => {
+    expect(formatInvitationMessage({ ...input, inviterName: 'Margaret' })).toContain(
+      'Margaret has invited you to join their care circle on Parra.'
+    );
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Care Circle Invitations
+ *
+ * Signed, expiring tokens for care_invitations and the invitation message.
+ * A token is "<invitation id>.<expiry in unix seconds>.<signature>", where
+ * the signature is an HMAC-SHA256 of the first two parts. The signature
+ * proves the link was issued by Parra; whether the invitation is still
+ * pending (not accepted or revoked) is checked against the database.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/care-invitations
+ */
+
+import { safeEqual, signPayload } from "./signing.ts";
+
+export type InvitationChannel = "email" | "whatsapp";
+
+export type TokenCheck =
+  | { ok: true; invitationId: string; expiresAt: Date }
+  | { ok: false; reason: "malformed" | "bad_signature" | "expired" };
+
+/** How long an invitation link stays valid */
+export const INVITATION_TTL_DAYS = 7;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Expiry for an invitation created at `now`
+ */
+export function getInvitationExpiry(now: Date): Date {
+  return new Date(now.getTime() + INVITATION_TTL_DAYS * 86400000);
+}
+
+/**
+ * Token for the accept link of an invitation
+ */
+export async function signInvitationToken(secret: string, invitationId: string, expiresAt: Date): Promise<string> {
+  const payload = `${invitationId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${await signPayload(secret, payload)}`;
+}
+
+/**
+ * Check a token's shape, signature and expiry
+ */
+export async function verifyInvitationToken(secret: string, token: string, now: Date): Promise<TokenCheck> {
+  const parts = token.split(".");
+  if (parts.length !== 3 || !UUID_PATTERN.test(parts[0]) || !/^\d+$/.test(parts[1])) {
+    return { ok: false, reason: "malformed" };
+  }
+
+  const [invitationId, expiry, signature] = parts;
+  if (!safeEqual(signature, await signPayload(secret, `${invitationId}.${expiry}`))) {
+    return { ok: false, reason: "bad_signature" };
+  }
+
+  const expiresAt = new Date(Number(expiry) * 1000);
+  if (now.getTime() >= expiresAt.getTime()) {
+    return { ok: false, reason: "expired" };
+  }
+
+  return { ok: true, invitationId, expiresAt };
+}
+
+/**
+ * Invitation text for email or WhatsApp
+ */
+export function formatInvitationMessage(input: {
+  patientName: string;
+  inviterName: string;
+  acceptUrl: string;
+  expiresAt: Date;
+}): string {
+  const { patientName, inviterName, acceptUrl, expiresAt } = input;
+  const until = expiresAt.toLocaleDateString("en-US", { month: "long", day: "numeric" });
+  const circle = inviterName === patientName ? "their" : `${patientName}'s`;
+
+  return [
+    `${inviterName} has invited you to join ${circle} care circle on Parra.`,
+    `You'll see how ${patientName} is doing and can be alerted if they need help.`,
+    `Accept the invitation here (valid until ${until}): ${acceptUrl}`,
+  ].join("\n\n");
+}
@@ -0,0 +1,109 @@
+/**
+ * Chat Session Store
+ *
+ * Loads, creates and appends to senior-chat sessions (check_ins rows, see
+ * chat-sessions.ts). Expects a service role client.
+ *
+ * @module edge-functions/chat-session-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import type { ConversationMessage } from "./checkin-analysis.ts";
+import { isSessionOpen, type ChatSession } from "./chat-sessions.ts";
+
+const SESSION_COLUMNS = "id, started_at, ended_at, last_message_at, messages";
+
+interface NewSession {
+  interactionType: "voice" | "text";
+  now?: Date;
+}
+
+/**
+ * The patient's session, if it exists and is still open
+ */
+export async function loadOpenSession(
+  supabase: SupabaseClient,
+  patientId: string,
+  sessionId: string,
+  now: Date = new Date()
+): Promise<ChatSession | null> {
+  const { data, error } = await supabase
+    .from("check_ins")
+    .select(SESSION_COLUMNS)
+    .eq("id", sessionId)
+    .eq("patient_id", patientId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load chat session: ${error.message}`);
+  if (!data) return null;
+
+  const session = { ...data, messages: Array.isArray(data.messages) ? data.messages : [] } as ChatSession;
+  return isSessionOpen(session, now) ? session : null;
+}
+
+/**
+ * Start a session for the patient's first message
+ */
+export async function createSession(
+  supabase: SupabaseClient,
+  patientId: string,
+  { interactionType, now = new Date() }: NewSession
+): Promise<ChatSession> {
+  const { data, error } = await supabase
+    .from("check_ins")
+    .insert({
+      patient_id: patientId,
+      interaction_type: interactionType,
+      started_at: now.toISOString(),
+      last_message_at: now.toISOString(),
+      messages: [],
+    })
+    .select(SESSION_COLUMNS)
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create chat session: ${error?.message ?? "no row returned"}`);
+  }
+
+  return { ...data, messages: [] } as ChatSession;
+}
+
+/**
+ * Append turns to an open session. The append happens in one statement, so
+ * concurrent requests don't overwrite each other's turns. A prompt version
+ * is recorded on the session when given.
+ *
+ * @returns Whether the session was still open
+ */
+export async function appendSessionMessages(
+  supabase: SupabaseClient,
+  sessionId: string,
+  messages: ConversationMessage[],
+  promptVersion: string | null = null
+): Promise<boolean> {
+  if (messages.length === 0) return true;
+
+  const { data, error } = await supabase.rpc("append_check_in_messages", {
+    p_check_in_id: sessionId,
+    p_messages: messages,
+    p_prompt_version: promptVersion,
+  });
+
+  if (error) throw new Error(`Failed to save chat messages: ${error.message}`);
+  return data === true;
+}
+
+/**
+ * Close sessions with no message since the cutoff; ended_at is set to their
+ * last message
+ *
+ * @returns Ids of the sessions closed
+ */
+export async function closeIdleSessions(supabase: SupabaseClient, idleBefore: Date): Promise<string[]> {
+  const { data, error } = await supabase.rpc("close_idle_check_ins", {
+    p_idle_before: idleBefore.toISOString(),
+  });
+
+  if (error) throw new Error(`Failed to close idle chat sessions: ${error.message}`);
+  return ((data || []) as Array<{ check_in_id: string }>).map((row) => row.check_in_id);
+}
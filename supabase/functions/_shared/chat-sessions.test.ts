@@ -0,0 +1,89 @@
+/**
+ * Chat Sessions Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSessionMessage,
+  getIdleCutoff,
+  getSessionHistory,
+  isSessionOpen,
+  type ChatSession,
+} from './chat-sessions';
+import type { ConversationMessage } from './checkin-analysis';
+
+const now = new Date('2025-11-08T15:00:00Z');
+
+const session = (overrides: Partial<ChatSession> = {}): ChatSession => ({
+  id: 'session-1',
+  started_at: '2025-11-08T14:00:00Z',
+  ended_at: null,
+  last_message_at: '2025-11-08T14:45:00Z',
+  messages: [],
+  ...overrides,
+});
+
+describe('isSessionOpen', () => {
+  it('should keep a session open until it has been idle for 30 minutes', () => {
+    expect(isSessionOpen(session(), now)).toBe(true);
+    expect(isSessionOpen(session({ last_message_at: '2025-11-08T14:30:00Z' }), now)).toBe(false);
+  });
+
+  it('should treat ended sessions as closed', () => {
+    expect(isSessionOpen(session({ ended_at: '2025-11-08T14:45:00Z' }), now)).toBe(false);
+  });
+
+  it('should fall back to the start time before any message', () => {
+    expect(isSessionOpen(session({ last_message_at: null, started_at: '2025-11-08T14:50:00Z' }), now)).toBe(true);
+    expect(isSessionOpen(session({ last_message_at: null }), now)).toBe(false);
+  });
+});
+
+describe('getIdleCutoff', () => {
+  it('should go back the idle timeout', () => {
+    expect(getIdleCutoff(now).toISOString()).toBe('2025-11-08T14:30:00.000Z');
+  });
+});
+
+describe('createSessionMessage', () => {
+  it('should timestamp the turn', () => {
+    expect(createSessionMessage('user', 'Morning!', now)).toEqual({
+      role: 'user',
+      content: 'Morning!',
+      timestamp: '2025-11-08T15:00:00.000Z',
+    });
+  });
+});
+
+describe('getSessionHistory', () => {
+  const turns = (count: number): ConversationMessage[] =>
+    Array.from({ length: count }, (_, i) => ({
+      role: i % 2 === 0 ? 'assistant' : 'user',
+      content: `turn ${i}`,
+      timestamp: now.toISOString(),
+    }));
+
+  it('should send every turn of a short conversation without timestamps', () => {
+    expect(getSessionHistory(turns(3))).toEqual([
+      { role: 'assistant', content: 'turn 0' },
+      { role: 'user', content: 'turn 1' },
+      { role: 'assistant', content: 'turn 2' },
+    ]);
+  });
+
+  it('should keep the latest turns, starting with a user turn', () => {
+    const history = getSessionHistory(turns(10), 4);
+
+    expect(history.map((message) => message.content)).toEqual(['turn 7', 'turn 8', 'turn 9']);
+  });
+
+  it('should drop system and empty messages', () => {
+    expect(
+      getSessionHistory([
+        { role: 'system', content: 'Prompt' },
+        { role: 'assistant', content: ' ' },
+        { role: 'user', content: 'Hi' },
+      ])
+    ).toEqual([{ role: 'user', content: 'Hi' }]);
+  });
+});
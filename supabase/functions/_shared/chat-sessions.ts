@@ -0,0 +1,90 @@
+/**
+ * Chat Sessions
+ *
+ * senior-chat keeps each conversation as a session: a check_ins row created
+ * on the first message, with every user and assistant turn appended
+ * server-side. The client only sends the session id and its new message. A
+ * session nobody has written to for CHAT_SESSION_IDLE_MINUTES is closed (by
+ * close-idle-chat-sessions, which sets ended_at to the last message), and a
+ * message for a closed session starts a new one.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/chat-sessions
+ */
+
+import type { ConversationMessage } from "./checkin-analysis.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** A session with no new message for this long is closed */
+export const CHAT_SESSION_IDLE_MINUTES = 30;
+
+/** Most recent turns sent to the model; the full conversation stays saved */
+export const MAX_SESSION_HISTORY = 40;
+
+export interface ChatSession {
+  id: string;
+  started_at: string;
+  ended_at: string | null;
+  last_message_at: string | null;
+  messages: ConversationMessage[];
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/**
+ * Whether the session can take another message
+ */
+export function isSessionOpen(session: ChatSession, now: Date): boolean {
+  if (session.ended_at) return false;
+
+  const lastActivity = new Date(session.last_message_at ?? session.started_at).getTime();
+  return now.getTime() - lastActivity < CHAT_SESSION_IDLE_MINUTES * 60 * 1000;
+}
+
+/**
+ * Sessions last written to before this instant are closed
+ */
+export function getIdleCutoff(now: Date): Date {
+  return new Date(now.getTime() - CHAT_SESSION_IDLE_MINUTES * 60 * 1000);
+}
+
+/**
+ * A turn as saved to check_ins.messages
+ */
+export function createSessionMessage(
+  role: ConversationMessage["role"],
+  content: string,
+  now: Date = new Date()
+): ConversationMessage {
+  return { role, content, timestamp: now.toISOString() };
+}
+
+/**
+ * The turns sent to the model: the latest MAX_SESSION_HISTORY user and
+ * assistant messages, starting with a user turn where possible
+ */
+export function getSessionHistory(
+  messages: ConversationMessage[],
+  limit: number = MAX_SESSION_HISTORY
+): Array<{ role: "user" | "assistant"; content: string }> {
+  const turns = messages
+    .filter((message): message is ConversationMessage & { role: "user" | "assistant" } =>
+      message.role === "user" || message.role === "assistant"
+    )
+    .filter((message) => message.content.trim().length > 0);
+
+  let history = turns.slice(-limit);
+  if (history.length < turns.length) {
+    const firstUser = history.findIndex((message) => message.role === "user");
+    if (firstUser > 0) history = history.slice(firstUser);
+  }
+
+  return history.map(({ role, content }) => ({ role, content }));
+}
@@ -0,0 +1,320 @@
+/**
+ * Chat Tool Executor
+ *
+ * Runs the tools defined in chat-tools.ts against the database on behalf of
+ * the patient in a senior-chat conversation. Results are written to
+ * check_ins (commitments on the conversation's session), alerts, medication_doses (confirmed doses) and
+ * caregiver_notes (medication log and follow-up reminders, authored by
+ * Parra; acknowledging reminders from the care team). Expects a service
+ * role client.
+ *
+ * @module edge-functions/chat-tool-executor
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { CONCERN_ALERT_TYPES, CONCERN_LABELS } from "./checkin-analysis.ts";
+import {
+  parseToolCall,
+  type AcknowledgeReminderArgs,
+  type LogMedicationArgs,
+  type RaiseAlertArgs,
+  type RecordCommitmentArgs,
+  type ScheduleFollowUpArgs,
+  type ToolCall,
+  type ToolResultEvent,
+} from "./chat-tools.ts";
+import { confirmDosesTaken } from "./medication-store.ts";
+import { describeDose } from "./medications.ts";
+import { notifyCaregivers } from "./notifications.ts";
+import { getLocalDateString, getLocalParts } from "./timezone.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatToolContext {
+  supabase: SupabaseClient;
+  supabaseUrl: string;
+  serviceKey: string;
+  patientId: string;
+  patientName: string;
+  timeZone: string;
+  /** Session (check_ins row) the conversation is saved to */
+  checkInId: string;
+}
+
+export interface ToolExecution {
+  event: ToolResultEvent;
+  /** JSON sent back to the model as the tool message content */
+  output: string;
+}
+
+interface ToolOutcome {
+  message: string;
+  result: Record<string, unknown>;
+  checkInId?: string;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function formatLocalTime(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", minute: "2-digit" }).format(date);
+}
+
+// ============================================================================
+// Tools
+// ============================================================================
+
+async function logMedicationTaken(context: ChatToolContext, args: LogMedicationArgs): Promise<ToolOutcome> {
+  const now = new Date();
+  const doses = await confirmDosesTaken(
+    context.supabase,
+    context.patientId,
+    context.timeZone,
+    args.medication_name,
+    "chat",
+    now
+  );
+  const medication = args.medication_name || (doses.length > 0 ? doses.map((d) => d.name).join(", ") : "their medication");
+  const noteText =
+    `${context.patientName} took ${medication} at ${formatLocalTime(now, context.timeZone)}.` +
+    (args.notes ? ` ${args.notes}` : "");
+
+  const { error } = await context.supabase.from("caregiver_notes").insert({
+    patient_id: context.patientId,
+    created_by: "parra",
+    check_in_id: context.checkInId,
+    note_type: "medication",
+    note_text: noteText,
+    shared_with_patient: true,
+    shared_with_care_team: true,
+  });
+
+  if (error) throw new Error(`Failed to log medication: ${error.message}`);
+
+  return {
+    message: args.medication_name ? `Logged ${args.medication_name} as taken` : "Logged your medication as taken",
+    result: {
+      logged_at: now.toISOString(),
+      medication: args.medication_name,
+      scheduled_doses_confirmed: doses.map(describeDose),
+    },
+  };
+}
+
+async function recordCommitment(context: ChatToolContext, args: RecordCommitmentArgs): Promise<ToolOutcome> {
+  const { checkInId } = context;
+
+  const { data: checkIn, error: loadError } = await context.supabase
+    .from("check_ins")
+    .select("commitments")
+    .eq("id", checkInId)
+    .single();
+
+  if (loadError) throw new Error(`Failed to load commitments: ${loadError.message}`);
+
+  const commitments = Array.isArray(checkIn?.commitments) ? checkIn.commitments : [];
+  const alreadyRecorded = commitments.some(
+    (c: { action?: unknown }) => typeof c.action === "string" && c.action.toLowerCase() === args.action.toLowerCase()
+  );
+
+  if (!alreadyRecorded) {
+    const { error } = await context.supabase
+      .from("check_ins")
+      .update({
+        commitments: [...commitments, { action: args.action, time: args.time, completed: false, source: "parra" }],
+      })
+      .eq("id", checkInId);
+
+    if (error) throw new Error(`Failed to record commitment: ${error.message}`);
+  }
+
+  return {
+    message: `Noted: ${args.action}${args.time ? ` (${args.time})` : ""}`,
+    result: { action: args.action, time: args.time },
+    checkInId,
+  };
+}
+
+async function raiseCaregiverAlert(context: ChatToolContext, args: RaiseAlertArgs): Promise<ToolOutcome> {
+  const { checkInId } = context;
+  const alertMessage = `${CONCERN_LABELS[args.category]} reported by ${context.patientName} while talking with Parra. ${args.reason}`;
+
+  const { data: alert, error } = await context.supabase
+    .from("alerts")
+    .insert({
+      patient_id: context.patientId,
+      check_in_id: checkInId,
+      alert_type: CONCERN_ALERT_TYPES[args.category],
+      severity: args.severity,
+      status: "active",
+      alert_message: alertMessage,
+      alert_details: {
+        source: "senior_chat_tool",
+        concern_type: args.category,
+        details: args.reason,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (error || !alert) throw new Error(`Failed to create alert: ${error?.message ?? "no row returned"}`);
+
+  await context.supabase
+    .from("check_ins")
+    .update({
+      safety_concern_detected: true,
+      safety_concern_type: args.category,
+      safety_concern_details: args.reason,
+      alert_sent: true,
+      alert_sent_at: new Date().toISOString(),
+    })
+    .eq("id", checkInId);
+
+  const notified = args.severity === "high" || args.severity === "critical"
+    ? await notifyCaregivers(context.supabaseUrl, context.serviceKey, alert.id, alertMessage)
+    : false;
+
+  return {
+    message: "Let your care team know",
+    result: { alert_id: alert.id, caregivers_notified: notified },
+    checkInId,
+  };
+}
+
+async function scheduleFollowUp(context: ChatToolContext, args: ScheduleFollowUpArgs): Promise<ToolOutcome> {
+  const followUpAt = new Date(Date.now() + args.minutes_from_now * 60000);
+  const local = getLocalParts(followUpAt, context.timeZone);
+  const reminderTime = `${String(local.hour).padStart(2, "0")}:${String(local.minute).padStart(2, "0")}`;
+  const displayTime = formatLocalTime(followUpAt, context.timeZone);
+
+  const { error } = await context.supabase.from("caregiver_notes").insert({
+    patient_id: context.patientId,
+    created_by: "parra",
+    check_in_id: context.checkInId,
+    note_type: "reminder",
+    note_text: `Parra will check in with ${context.patientName} at ${displayTime}: ${args.reason}`,
+    is_reminder: true,
+    reminder_date: getLocalDateString(followUpAt, context.timeZone),
+    reminder_time: reminderTime,
+    reminder_channel: "chat",
+    shared_with_patient: true,
+    shared_with_care_team: true,
+  });
+
+  if (error) throw new Error(`Failed to schedule follow-up: ${error.message}`);
+
+  return {
+    message: `I'll check in again at ${displayTime}`,
+    result: { follow_up_at: followUpAt.toISOString(), local_time: displayTime },
+  };
+}
+
+async function getTodaySummary(context: ChatToolContext): Promise<ToolOutcome> {
+  const today = getLocalDateString(new Date(), context.timeZone);
+
+  const { data: summary, error } = await context.supabase
+    .from("daily_summaries")
+    .select(
+      "summary_date, check_in_count, overall_mood, medication_taken, sleep_quality, activity_reported, overall_status, summary_text, highlights, concerns"
+    )
+    .eq("patient_id", context.patientId)
+    .eq("summary_date", today)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load today's summary: ${error.message}`);
+
+  return {
+    message: "Checked today's summary",
+    result: summary ? { summary } : { summary: null, note: "No summary has been generated for today yet." },
+  };
+}
+
+async function acknowledgeReminder(context: ChatToolContext, args: AcknowledgeReminderArgs): Promise<ToolOutcome> {
+  const { data: reminder, error } = await context.supabase
+    .from("caregiver_notes")
+    .update({ reminder_acknowledged: true, reminder_acknowledged_at: new Date().toISOString() })
+    .eq("id", args.reminder_id)
+    .eq("patient_id", context.patientId)
+    .eq("is_reminder", true)
+    .eq("reminder_sent", true)
+    .select("id")
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to acknowledge reminder: ${error.message}`);
+  if (!reminder) throw new Error("Reminder not found");
+
+  return {
+    message: "Let your care team know you got their reminder",
+    result: { reminder_id: reminder.id },
+  };
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/**
+ * Validate and run one tool call. Failures are reported to the model and the
+ * client as an error result rather than thrown.
+ */
+export async function executeToolCall(call: ToolCall, context: ChatToolContext): Promise<ToolExecution> {
+  const parsed = parseToolCall(call.name, call.arguments);
+
+  if (!parsed.ok) {
+    return {
+      event: { type: "tool_result", tool_call_id: call.id, name: call.name, status: "error", message: parsed.error },
+      output: JSON.stringify({ error: parsed.error }),
+    };
+  }
+
+  try {
+    let outcome: ToolOutcome;
+    switch (parsed.name) {
+      case "log_medication_taken":
+        outcome = await logMedicationTaken(context, parsed.args);
+        break;
+      case "record_commitment":
+        outcome = await recordCommitment(context, parsed.args);
+        break;
+      case "raise_caregiver_alert":
+        outcome = await raiseCaregiverAlert(context, parsed.args);
+        break;
+      case "schedule_follow_up":
+        outcome = await scheduleFollowUp(context, parsed.args);
+        break;
+      case "get_today_summary":
+        outcome = await getTodaySummary(context);
+        break;
+      case "acknowledge_reminder":
+        outcome = await acknowledgeReminder(context, parsed.args);
+        break;
+    }
+
+    return {
+      event: {
+        type: "tool_result",
+        tool_call_id: call.id,
+        name: call.name,
+        status: "success",
+        message: outcome.message,
+        ...(outcome.checkInId ? { check_in_id: outcome.checkInId } : {}),
+      },
+      output: JSON.stringify({ success: true, ...outcome.result }),
+    };
+  } catch (error) {
+    console.error(`Tool ${call.name} failed:`, error);
+    return {
+      event: {
+        type: "tool_result",
+        tool_call_id: call.id,
+        name: call.name,
+        status: "error",
+        message: "Something went wrong saving that",
+      },
+      output: JSON.stringify({ error: error instanceof Error ? error.message : "Tool failed" }),
+    };
+  }
+}
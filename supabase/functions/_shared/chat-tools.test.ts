@@ -0,0 +1,133 @@
+/**
+ * Chat Tools Tests
+ *
+ * Covers tool argument validation and the streaming helpers used by
+ * senior-chat.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CHAT_TOOLS,
+  MAX_FOLLOW_UP_MINUTES,
+  MIN_FOLLOW_UP_MINUTES,
+  accumulateToolCallDeltas,
+  formatToolEvent,
+  parseToolCall,
+  type ToolCall,
+} from './chat-tools';
+
+describe('CHAT_TOOLS', () => {
+  it('should define every tool once', () => {
+    expect(CHAT_TOOLS.map((tool) => tool.function.name)).toEqual([
+      'log_medication_taken',
+      'record_commitment',
+      'raise_caregiver_alert',
+      'schedule_follow_up',
+      'get_today_summary',
+      'acknowledge_reminder',
+    ]);
+  });
+});
+
+describe('parseToolCall', () => {
+  it('should accept medication logs without arguments', () => {
+    expect(parseToolCall('log_medication_taken', '')).toEqual({
+      ok: true,
+      name: 'log_medication_taken',
+      args: { medication_name: null, notes: null },
+    });
+  });
+
+  it('should trim text arguments', () => {
+    expect(parseToolCall('record_commitment', '{"action": "  call Susan ", "time": "tonight"}')).toEqual({
+      ok: true,
+      name: 'record_commitment',
+      args: { action: 'call Susan', time: 'tonight' },
+    });
+  });
+
+  it('should require a commitment action', () => {
+    expect(parseToolCall('record_commitment', '{"time": "tonight"}')).toEqual({
+      ok: false,
+      error: 'action is required',
+    });
+  });
+
+  it('should validate alert severity and default unknown categories', () => {
+    expect(parseToolCall('raise_caregiver_alert', '{"reason": "Fell", "severity": "urgent", "category": "fall"}')).toMatchObject({
+      ok: false,
+    });
+
+    expect(
+      parseToolCall('raise_caregiver_alert', '{"reason": "Feels faint", "severity": "high", "category": "dizzy"}')
+    ).toEqual({
+      ok: true,
+      name: 'raise_caregiver_alert',
+      args: { reason: 'Feels faint', severity: 'high', category: 'other' },
+    });
+  });
+
+  it('should clamp follow-up delays', () => {
+    const soon = parseToolCall('schedule_follow_up', '{"minutes_from_now": 1, "reason": "Dizzy"}');
+    const late = parseToolCall('schedule_follow_up', '{"minutes_from_now": 99999, "reason": "Dizzy"}');
+
+    expect(soon).toMatchObject({ ok: true, args: { minutes_from_now: MIN_FOLLOW_UP_MINUTES } });
+    expect(late).toMatchObject({ ok: true, args: { minutes_from_now: MAX_FOLLOW_UP_MINUTES } });
+  });
+
+  it('should only acknowledge reminders by id', () => {
+    expect(parseToolCall('acknowledge_reminder', '{"reminder_id": "6f1c2a9e-3b4d-4e5f-8a7b-1c2d3e4f5a6b"}')).toEqual({
+      ok: true,
+      name: 'acknowledge_reminder',
+      args: { reminder_id: '6f1c2a9e-3b4d-4e5f-8a7b-1c2d3e4f5a6b' },
+    });
+    expect(parseToolCall('acknowledge_reminder', '{"reminder_id": "the dentist one"}')).toMatchObject({ ok: false });
+  });
+
+  it('should reject invalid JSON and unknown tools', () => {
+    expect(parseToolCall('record_commitment', '{"action":')).toEqual({
+      ok: false,
+      error: 'Arguments are not valid JSON',
+    });
+    expect(parseToolCall('delete_everything', '{}')).toEqual({
+      ok: false,
+      error: 'Unknown tool: delete_everything',
+    });
+  });
+});
+
+describe('accumulateToolCallDeltas', () => {
+  it('should assemble tool calls streamed in pieces', () => {
+    const calls: ToolCall[] = [];
+
+    accumulateToolCallDeltas(calls, [
+      { index: 0, id: 'call_1', type: 'function', function: { name: 'record_commitment', arguments: '' } },
+    ]);
+    accumulateToolCallDeltas(calls, [{ index: 0, function: { arguments: '{"action":' } }]);
+    accumulateToolCallDeltas(calls, [
+      { index: 0, function: { arguments: '"walk"}' } },
+      { index: 1, id: 'call_2', function: { name: 'get_today_summary', arguments: '{}' } },
+    ]);
+
+    expect(calls).toEqual([
+      { id: 'call_1', name: 'record_commitment', arguments: '{"action":"walk"}' },
+      { id: 'call_2', name: 'get_today_summary', arguments: '{}' },
+    ]);
+  });
+});
+
+describe('formatToolEvent', () => {
+  it('should encode a server-sent event', () => {
+    expect(
+      formatToolEvent({
+        type: 'tool_result',
+        tool_call_id: 'call_1',
+        name: 'log_medication_taken',
+        status: 'success',
+        message: 'Logged your medication as taken',
+      })
+    ).toBe(
+      'data: {"type":"tool_result","tool_call_id":"call_1","name":"log_medication_taken","status":"success","message":"Logged your medication as taken"}\n\n'
+    );
+  });
+});
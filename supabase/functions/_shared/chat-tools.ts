@@ -0,0 +1,365 @@
+/**
+ * Chat Tools
+ *
+ * Tools the senior-chat model can call during a conversation: logging a
+ * medication dose, recording a commitment, raising an alert to caregivers,
+ * scheduling a follow-up check-in, reading today's summary and confirming a
+ * reminder from the care team was passed on.
+ *
+ * This module holds the OpenAI tool definitions, argument validation and the
+ * streaming helpers (tool-call delta accumulation, tool_result events). The
+ * database side lives in chat-tool-executor.ts. It has no runtime
+ * dependencies so it can be imported from both Deno edge functions and the
+ * Vitest suite.
+ *
+ * @module edge-functions/chat-tools
+ */
+
+import { CONCERN_SEVERITIES, SAFETY_CONCERN_TYPES, type ConcernSeverity, type SafetyConcernType } from "./checkin-analysis.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ChatToolName =
+  | "log_medication_taken"
+  | "record_commitment"
+  | "raise_caregiver_alert"
+  | "schedule_follow_up"
+  | "get_today_summary"
+  | "acknowledge_reminder";
+
+export interface ChatToolDefinition {
+  type: "function";
+  function: {
+    name: ChatToolName;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface LogMedicationArgs {
+  medication_name: string | null;
+  notes: string | null;
+}
+
+export interface RecordCommitmentArgs {
+  action: string;
+  time: string | null;
+}
+
+export interface RaiseAlertArgs {
+  reason: string;
+  severity: ConcernSeverity;
+  category: SafetyConcernType;
+}
+
+export interface ScheduleFollowUpArgs {
+  minutes_from_now: number;
+  reason: string;
+}
+
+export interface AcknowledgeReminderArgs {
+  reminder_id: string;
+}
+
+export type ChatToolArgs =
+  | { name: "log_medication_taken"; args: LogMedicationArgs }
+  | { name: "record_commitment"; args: RecordCommitmentArgs }
+  | { name: "raise_caregiver_alert"; args: RaiseAlertArgs }
+  | { name: "schedule_follow_up"; args: ScheduleFollowUpArgs }
+  | { name: "get_today_summary"; args: Record<string, never> }
+  | { name: "acknowledge_reminder"; args: AcknowledgeReminderArgs };
+
+export type ParsedToolCall = ({ ok: true } & ChatToolArgs) | { ok: false; error: string };
+
+/**
+ * A complete tool call assembled from streamed deltas
+ */
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+/**
+ * Shape of choices[0].delta.tool_calls entries in an OpenAI stream chunk
+ */
+export interface ToolCallDelta {
+  index: number;
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * Event sent to the client after a tool has run
+ */
+export interface ToolResultEvent {
+  type: "tool_result";
+  tool_call_id: string;
+  name: string;
+  status: "success" | "error";
+  /** Short confirmation shown under the conversation */
+  message: string;
+  /** Set when the tool created the check-in the conversation is saved to */
+  check_in_id?: string;
+}
+
+export const MAX_TEXT_LENGTH = 500;
+export const MIN_FOLLOW_UP_MINUTES = 15;
+export const MAX_FOLLOW_UP_MINUTES = 24 * 60;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// ============================================================================
+// Tool Definitions
+// ============================================================================
+
+export const CHAT_TOOLS: ChatToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "log_medication_taken",
+      description:
+        "Record that the user has just taken their medication. Only call this after they confirm they took it.",
+      parameters: {
+        type: "object",
+        properties: {
+          medication_name: {
+            type: "string",
+            description: "Name of the medication, if the user mentioned it",
+          },
+          notes: {
+            type: "string",
+            description: "Anything else worth noting, e.g. 'took with breakfast'",
+          },
+        },
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "record_commitment",
+      description:
+        "Record something the user said they will do (call their daughter, go for a walk) so Parra can follow up later.",
+      parameters: {
+        type: "object",
+        properties: {
+          action: {
+            type: "string",
+            description: "What the user plans to do, in a few words",
+          },
+          time: {
+            type: "string",
+            description: "When they plan to do it, as they said it (e.g. 'this afternoon', 'at 3pm')",
+          },
+        },
+        required: ["action"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "raise_caregiver_alert",
+      description:
+        "Alert the user's caregivers. Use immediately for emergencies (fall with injury, chest pain, trouble breathing, suicidal thoughts); otherwise only after the user agrees.",
+      parameters: {
+        type: "object",
+        properties: {
+          reason: {
+            type: "string",
+            description: "What happened, written for the caregiver",
+          },
+          severity: {
+            type: "string",
+            enum: [...CONCERN_SEVERITIES],
+          },
+          category: {
+            type: "string",
+            enum: [...SAFETY_CONCERN_TYPES],
+          },
+        },
+        required: ["reason", "severity", "category"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "schedule_follow_up",
+      description:
+        "Schedule Parra to check in with the user again later, e.g. 30 minutes after they reported feeling dizzy.",
+      parameters: {
+        type: "object",
+        properties: {
+          minutes_from_now: {
+            type: "integer",
+            minimum: MIN_FOLLOW_UP_MINUTES,
+            maximum: MAX_FOLLOW_UP_MINUTES,
+          },
+          reason: {
+            type: "string",
+            description: "Why Parra is checking back in",
+          },
+        },
+        required: ["minutes_from_now", "reason"],
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_today_summary",
+      description:
+        "Read today's wellness summary for the user (check-ins, mood, medication, alerts) before answering questions about their day.",
+      parameters: {
+        type: "object",
+        properties: {},
+        additionalProperties: false,
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "acknowledge_reminder",
+      description:
+        "Mark a reminder from the user's care team as passed on, once the user has confirmed they got it.",
+      parameters: {
+        type: "object",
+        properties: {
+          reminder_id: {
+            type: "string",
+            description: "Id of the reminder, as listed in the reminders section",
+          },
+        },
+        required: ["reminder_id"],
+        additionalProperties: false,
+      },
+    },
+  },
+];
+
+// ============================================================================
+// Argument Validation
+// ============================================================================
+
+function optionalText(value: unknown): string | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().slice(0, MAX_TEXT_LENGTH);
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+/**
+ * Validate the JSON arguments the model sent for a tool call
+ */
+export function parseToolCall(name: string, rawArguments: string): ParsedToolCall {
+  let args: Record<string, unknown>;
+  try {
+    const parsed = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+      return { ok: false, error: "Arguments must be a JSON object" };
+    }
+    args = parsed as Record<string, unknown>;
+  } catch {
+    return { ok: false, error: "Arguments are not valid JSON" };
+  }
+
+  switch (name) {
+    case "log_medication_taken":
+      return {
+        ok: true,
+        name,
+        args: {
+          medication_name: optionalText(args.medication_name),
+          notes: optionalText(args.notes),
+        },
+      };
+
+    case "record_commitment": {
+      const action = optionalText(args.action);
+      if (!action) return { ok: false, error: "action is required" };
+      return { ok: true, name, args: { action, time: optionalText(args.time) } };
+    }
+
+    case "raise_caregiver_alert": {
+      const reason = optionalText(args.reason);
+      if (!reason) return { ok: false, error: "reason is required" };
+      if (!CONCERN_SEVERITIES.includes(args.severity as ConcernSeverity)) {
+        return { ok: false, error: `severity must be one of ${CONCERN_SEVERITIES.join(", ")}` };
+      }
+      const category = SAFETY_CONCERN_TYPES.includes(args.category as SafetyConcernType)
+        ? (args.category as SafetyConcernType)
+        : "other";
+      return {
+        ok: true,
+        name,
+        args: { reason, severity: args.severity as ConcernSeverity, category },
+      };
+    }
+
+    case "schedule_follow_up": {
+      const reason = optionalText(args.reason);
+      if (!reason) return { ok: false, error: "reason is required" };
+      const minutes = Number(args.minutes_from_now);
+      if (!Number.isFinite(minutes)) return { ok: false, error: "minutes_from_now must be a number" };
+      return {
+        ok: true,
+        name,
+        args: {
+          minutes_from_now: Math.round(Math.min(MAX_FOLLOW_UP_MINUTES, Math.max(MIN_FOLLOW_UP_MINUTES, minutes))),
+          reason,
+        },
+      };
+    }
+
+    case "get_today_summary":
+      return { ok: true, name, args: {} };
+
+    case "acknowledge_reminder": {
+      const reminderId = optionalText(args.reminder_id);
+      if (!reminderId || !UUID_PATTERN.test(reminderId)) {
+        return { ok: false, error: "reminder_id must be a reminder id" };
+      }
+      return { ok: true, name, args: { reminder_id: reminderId } };
+    }
+
+    default:
+      return { ok: false, error: `Unknown tool: ${name}` };
+  }
+}
+
+// ============================================================================
+// Streaming Helpers
+// ============================================================================
+
+/**
+ * Merge streamed tool-call deltas into complete calls. OpenAI sends the id
+ * and name in the first delta for each index and the arguments in pieces.
+ */
+export function accumulateToolCallDeltas(calls: ToolCall[], deltas: ToolCallDelta[]): ToolCall[] {
+  for (const delta of deltas) {
+    const call = calls[delta.index] ?? (calls[delta.index] = { id: "", name: "", arguments: "" });
+    if (delta.id) call.id = delta.id;
+    if (delta.function?.name) call.name += delta.function.name;
+    if (delta.function?.arguments) call.arguments += delta.function.arguments;
+  }
+  return calls;
+}
+
+/**
+ * Encode a tool_result event as a server-sent event line
+ */
+export function formatToolEvent(event: ToolResultEvent): string {
+  return `data: ${JSON.stringify(event)}\n\n`;
+}
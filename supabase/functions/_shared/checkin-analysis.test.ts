@@ -0,0 +1,284 @@
+/**
+ * Check-In Analysis Tests
+ *
+ * Exercises the deterministic local analyzer and the normalization applied
+ * to LLM analyzer output.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createLLMAnalyzer,
+  createLocalAnalyzer,
+  detectMood,
+  detectSafetyConcern,
+  detectTopics,
+  extractCommitments,
+  isMoreSevere,
+  mergeCommitments,
+  normalizeAnalysis,
+  scoreSentiment,
+  type ConversationMessage,
+} from './checkin-analysis';
+import { createMockProvider, type ChatRequest } from './llm-provider';
+
+const conversation = (...userMessages: string[]): ConversationMessage[] =>
+  userMessages.flatMap((content) => [
+    { role: 'assistant' as const, content: 'How are you today?' },
+    { role: 'user' as const, content },
+  ]);
+
+describe('Local check-in analyzer', () => {
+  const analyzer = createLocalAnalyzer();
+
+  it('should analyze a cheerful conversation', async () => {
+    const result = await analyzer.analyze(
+      conversation(
+        'I had a lovely walk in the garden this morning',
+        'My daughter called and we laughed a lot. I took my pills after breakfast.'
+      )
+    );
+
+    expect(result.analyzer).toBe('local');
+    expect(result.mood).toBe('happy');
+    expect(result.sentimentScore).toBeGreaterThan(0);
+    expect(result.topics).toEqual(expect.arrayContaining(['activity', 'family', 'medication', 'meals']));
+    expect(result.safetyConcern).toBeNull();
+    expect(result.memories).toEqual([]);
+  });
+
+  it('should return empty results when the senior said nothing', async () => {
+    const result = await analyzer.analyze([{ role: 'assistant', content: 'Hello there!' }]);
+
+    expect(result.mood).toBeNull();
+    expect(result.sentimentScore).toBeNull();
+    expect(result.topics).toEqual([]);
+    expect(result.safetyConcern).toBeNull();
+    expect(result.commitments).toEqual([]);
+    expect(result.memories).toEqual([]);
+  });
+
+  it('should only analyze what the senior said', async () => {
+    const result = await analyzer.analyze([
+      { role: 'assistant', content: 'Have you fallen or do you need help?' },
+      { role: 'user', content: 'Everything is fine thanks' },
+    ]);
+
+    expect(result.safetyConcern).toBeNull();
+  });
+
+  it('should be deterministic', async () => {
+    const messages = conversation('I feel dizzy and a bit worried', "I'll call the doctor tomorrow morning");
+
+    expect(await analyzer.analyze(messages)).toEqual(await analyzer.analyze(messages));
+  });
+});
+
+describe('Safety concern detection', () => {
+  it('should flag a fall where the senior cannot get up as critical', () => {
+    const concern = detectSafetyConcern(["I fell in the kitchen and I can't get up"]);
+
+    expect(concern?.type).toBe('fall');
+    expect(concern?.severity).toBe('critical');
+    expect(concern?.details).toContain('kitchen');
+  });
+
+  it('should flag a fall', () => {
+    expect(detectSafetyConcern(['I slipped and fell in the bathroom yesterday'])).toMatchObject({
+      type: 'fall',
+      severity: 'high',
+    });
+  });
+
+  it('should flag medical emergencies', () => {
+    expect(detectSafetyConcern(["I'm short of breath"])?.type).toBe('medical');
+    expect(detectSafetyConcern(["I've got chest pain"])).toMatchObject({
+      type: 'medical',
+      severity: 'critical',
+    });
+  });
+
+  it('should flag missed medication', () => {
+    expect(detectSafetyConcern(['Oh dear, I forgot to take my pills this morning'])).toMatchObject({
+      type: 'missed_medication',
+      severity: 'medium',
+    });
+  });
+
+  it('should flag distress', () => {
+    expect(detectSafetyConcern(['Please help me, I am frightened'])?.type).toBe('distress');
+  });
+
+  it('should ignore negated statements', () => {
+    expect(detectSafetyConcern(["I didn't fall, I just sat down"])).toBeNull();
+    expect(detectSafetyConcern(['No chest pain today'])).toBeNull();
+  });
+
+  it('should not treat ordinary requests for help as distress', () => {
+    expect(detectSafetyConcern(['I need help with the crossword'])).toBeNull();
+  });
+
+  it('should prefer the most severe concern', () => {
+    const concern = detectSafetyConcern([
+      'I forgot my meds',
+      "and then I fell and couldn't... I can't get up",
+    ]);
+
+    expect(concern?.severity).toBe('critical');
+  });
+
+  it('should alert again only when a concern escalates', () => {
+    expect(isMoreSevere('medium', null)).toBe(true);
+    expect(isMoreSevere('high', 'medium')).toBe(true);
+    expect(isMoreSevere('medium', 'medium')).toBe(false);
+    expect(isMoreSevere('high', 'critical')).toBe(false);
+  });
+});
+
+describe('Mood and sentiment', () => {
+  it('should score positive and negative language', () => {
+    expect(scoreSentiment(['What a wonderful day, I feel great'])).toBe(1);
+    expect(scoreSentiment(['I feel awful and tired'])).toBe(-1);
+    expect(scoreSentiment(['I watered the plants'])).toBe(0);
+    expect(scoreSentiment([])).toBeNull();
+  });
+
+  it('should invert negated sentiment', () => {
+    expect(scoreSentiment(['I am not feeling good'])).toBeLessThan(0);
+  });
+
+  it('should detect moods from keywords before sentiment', () => {
+    expect(detectMood(["I'm worried about the results"], 0)).toBe('anxious');
+    expect(detectMood(['I feel so lonely since he passed'], -0.5)).toBe('sad');
+    expect(detectMood(["I can't remember if I locked the door"], 0)).toBe('confused');
+  });
+
+  it('should fall back to sentiment when no mood keyword matches', () => {
+    expect(detectMood(['Lovely day'], 1)).toBe('happy');
+    expect(detectMood(['Bad day'], -1)).toBe('sad');
+    expect(detectMood(['Watered the plants'], 0)).toBe('neutral');
+  });
+
+  it('should ignore negated mood keywords', () => {
+    expect(detectMood(["I'm not worried at all"], 0.5)).toBe('happy');
+  });
+});
+
+describe('Topics and commitments', () => {
+  it('should detect topics', () => {
+    expect(detectTopics(['I slept badly and skipped lunch'])).toEqual(['sleep', 'meals']);
+  });
+
+  it('should extract commitments with times', () => {
+    expect(extractCommitments(["I'll take my medication after lunch. I will call Susan tonight!"])).toEqual([
+      { action: 'take my medication after lunch', time: 'after lunch', completed: false },
+      { action: 'call Susan tonight', time: 'tonight', completed: false },
+    ]);
+  });
+
+  it('should extract commitments without times', () => {
+    expect(extractCommitments(["I'm going to water the roses"])).toEqual([
+      { action: 'water the roses', time: null, completed: false },
+    ]);
+  });
+
+  it('should not duplicate commitments', () => {
+    expect(extractCommitments(["I'll go for a walk", "Yes I'll go for a walk"])).toHaveLength(1);
+  });
+
+  it('should keep commitments recorded by Parra when merging', () => {
+    const stored = [
+      { action: 'Call Susan', time: 'tonight', completed: false, source: 'parra' },
+      { action: 'old extracted commitment', time: null, completed: false },
+    ];
+
+    expect(
+      mergeCommitments(stored, [
+        { action: 'call susan', time: 'tonight', completed: false },
+        { action: 'water the roses', time: null, completed: false },
+      ])
+    ).toEqual([
+      { action: 'Call Susan', time: 'tonight', completed: false, source: 'parra' },
+      { action: 'water the roses', time: null, completed: false },
+    ]);
+  });
+});
+
+describe('normalizeAnalysis', () => {
+  it('should keep valid values', () => {
+    const result = normalizeAnalysis(
+      {
+        mood: 'anxious',
+        sentimentScore: -0.456,
+        topics: ['Sleep', 'sleep', 'family'],
+        safetyConcern: { type: 'medical', severity: 'high', details: 'Reports dizziness' },
+        commitments: [{ action: 'Call the doctor', time: 'tomorrow', completed: false }],
+        memories: [{ category: 'family', content: 'Daughter: Susan' }],
+      },
+      'openai:test'
+    );
+
+    expect(result).toEqual({
+      mood: 'anxious',
+      sentimentScore: -0.46,
+      topics: ['sleep', 'family'],
+      safetyConcern: { type: 'medical', severity: 'high', details: 'Reports dizziness' },
+      commitments: [{ action: 'Call the doctor', time: 'tomorrow', completed: false }],
+      memories: [{ category: 'family', content: 'Daughter: Susan' }],
+      analyzer: 'openai:test',
+    });
+  });
+
+  it('should coerce invalid values to safe defaults', () => {
+    const result = normalizeAnalysis(
+      {
+        mood: 'ecstatic',
+        sentimentScore: 7,
+        topics: 'sleep',
+        safetyConcern: { type: 'burglary', severity: 'extreme' },
+        commitments: [{ action: '' }, null, { action: 'Walk', time: 5 }],
+      },
+      'openai:test'
+    );
+
+    expect(result.mood).toBeNull();
+    expect(result.sentimentScore).toBe(1);
+    expect(result.topics).toEqual([]);
+    expect(result.safetyConcern).toEqual({ type: 'other', severity: 'medium', details: '' });
+    expect(result.commitments).toEqual([{ action: 'Walk', time: null, completed: false }]);
+  });
+
+  it('should handle non-object input', () => {
+    expect(normalizeAnalysis('nonsense', 'x')).toEqual({
+      mood: null,
+      sentimentScore: null,
+      topics: [],
+      safetyConcern: null,
+      commitments: [],
+      memories: [],
+      analyzer: 'x',
+    });
+  });
+});
+
+describe('LLM check-in analyzer', () => {
+  it('should ask the provider for JSON and normalize the reply', async () => {
+    const requests: ChatRequest[] = [];
+    const llm = createMockProvider({
+      reply: (request) => {
+        requests.push(request);
+        return JSON.stringify({ mood: 'happy', sentimentScore: 3, topics: ['Family'] });
+      },
+    });
+
+    const analysis = await createLLMAnalyzer(llm, { model: 'analysis-model' }).analyze(
+      conversation('My granddaughter visited today')
+    );
+
+    expect(requests[0].json).toBe(true);
+    expect(requests[0].model).toBe('analysis-model');
+    expect(requests[0].messages[1].content).toContain('Senior: My granddaughter visited today');
+    expect(analysis.analyzer).toBe('mock:analysis-model');
+    expect(analysis.mood).toBe('happy');
+    expect(analysis.sentimentScore).toBe(1);
+  });
+});
@@ -0,0 +1,469 @@
+/**
+ * Check-In Analysis
+ *
+ * Post-conversation analysis of a check-in transcript: mood, sentiment,
+ * topics, safety concerns, commitments and memories. Analyzers are pluggable so the
+ * edge function can use an LLM in production while tests use the
+ * deterministic keyword-based local analyzer.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/checkin-analysis
+ */
+
+import { extractMemories, normalizeMemories, MEMORY_CATEGORIES, type ExtractedMemory } from "./patient-memory.ts";
+import type { LLMProvider } from "./llm-provider.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ConversationMessage {
+  role: "user" | "assistant" | "system";
+  content: string;
+  timestamp?: string;
+}
+
+/**
+ * Mirrors the check_ins.mood_detected CHECK constraint
+ */
+export type CheckInMood = "happy" | "neutral" | "sad" | "concerned" | "anxious" | "confused";
+
+/**
+ * Mirrors the check_ins.safety_concern_type CHECK constraint
+ */
+export type SafetyConcernType =
+  | "fall"
+  | "distress"
+  | "medical"
+  | "missed_medication"
+  | "inactivity"
+  | "other";
+
+export type ConcernSeverity = "low" | "medium" | "high" | "critical";
+
+export interface SafetyConcern {
+  type: SafetyConcernType;
+  severity: ConcernSeverity;
+  details: string;
+}
+
+/**
+ * Shape stored in check_ins.commitments
+ */
+export interface CheckInCommitment {
+  action: string;
+  time: string | null;
+  completed: boolean;
+  /** "parra" when recorded by a senior-chat tool during the conversation */
+  source?: "parra";
+}
+
+export interface CheckInAnalysis {
+  mood: CheckInMood | null;
+  sentimentScore: number | null; // -1.0 to 1.0
+  topics: string[];
+  safetyConcern: SafetyConcern | null;
+  commitments: CheckInCommitment[];
+  memories: ExtractedMemory[];
+  analyzer: string;
+}
+
+export interface CheckInAnalyzer {
+  readonly name: string;
+  analyze(messages: ConversationMessage[]): Promise<CheckInAnalysis>;
+}
+
+export const CHECK_IN_MOODS: readonly CheckInMood[] = [
+  "happy",
+  "neutral",
+  "sad",
+  "concerned",
+  "anxious",
+  "confused",
+];
+
+export const SAFETY_CONCERN_TYPES: readonly SafetyConcernType[] = [
+  "fall",
+  "distress",
+  "medical",
+  "missed_medication",
+  "inactivity",
+  "other",
+];
+
+export const CONCERN_SEVERITIES: readonly ConcernSeverity[] = ["low", "medium", "high", "critical"];
+
+/**
+ * alerts.alert_type raised for each check_ins.safety_concern_type
+ */
+export const CONCERN_ALERT_TYPES: Record<SafetyConcernType, string> = {
+  fall: "fall_detected",
+  distress: "distress_signal",
+  medical: "health_concern",
+  missed_medication: "medication_missed",
+  inactivity: "prolonged_inactivity",
+  other: "manual",
+};
+
+export const CONCERN_LABELS: Record<SafetyConcernType, string> = {
+  fall: "Possible fall",
+  distress: "Signs of distress",
+  medical: "Possible medical issue",
+  missed_medication: "Missed medication",
+  inactivity: "Unusual inactivity",
+  other: "Safety concern",
+};
+
+// ============================================================================
+// Local Analyzer Rules
+// ============================================================================
+
+const POSITIVE_WORDS = [
+  "good", "great", "wonderful", "lovely", "happy", "glad", "nice", "enjoyed",
+  "fun", "fine", "well", "better", "excited", "grateful", "beautiful", "love",
+  "laughed", "delicious", "rested", "fantastic",
+];
+
+const NEGATIVE_WORDS = [
+  "bad", "sad", "lonely", "tired", "awful", "terrible", "worried", "scared",
+  "afraid", "hurt", "hurts", "pain", "sick", "upset", "miss", "anxious",
+  "nervous", "confused", "exhausted", "depressed", "cry", "crying", "worse",
+];
+
+const MOOD_KEYWORDS: Record<Exclude<CheckInMood, "happy" | "neutral">, RegExp> = {
+  confused: /\b(confused|can'?t remember|don'?t remember|forgot where|where am i|what day is it|mixed up|lost track)\b/i,
+  anxious: /\b(anxious|nervous|worried|worrying|scared|afraid|panic|on edge|uneasy)\b/i,
+  sad: /\b(sad|lonely|alone|depressed|down in the dumps|feeling down|crying|cry|miss (him|her|them|my))\b/i,
+  concerned: /\b(concerned|not sure about|bothering me|trouble with|problem with)\b/i,
+};
+
+const TOPIC_KEYWORDS: Record<string, RegExp> = {
+  medication: /\b(medications?|meds|pills?|tablets?|prescriptions?|dose|pharmacy)\b/i,
+  sleep: /\b(sleep|slept|sleeping|nap|napped|insomnia|bed ?time|woke up)\b/i,
+  meals: /\b(breakfast|lunch|dinner|supper|meals?|ate|eating|food|hungry|snack|cook(ed|ing)?)\b/i,
+  family: /\b(daughter|son|grand(kids|children|son|daughter)|family|husband|wife|sister|brother|niece|nephew)\b/i,
+  health: /\b(doctor|pain|ache|blood pressure|dizzy|sick|health|hurts?|nurse|hospital)\b/i,
+  activity: /\b(walk(ed|ing)?|exercise|garden(ing)?|stretch(ed|ing)?|yoga|swim(ming)?|steps)\b/i,
+  appointments: /\b(appointment|check-?up|visit(ing)? the|clinic|dentist)\b/i,
+  social: /\b(friends?|neighbou?rs?|church|club|visitors?|called me|phone call)\b/i,
+  hobbies: /\b(read(ing)?|book|puzzle|crossword|knit(ting)?|paint(ing)?|music|tv|television|cards|bingo)\b/i,
+  weather: /\b(weather|rain(ing)?|sunny|snow(ing)?|cold outside|hot outside)\b/i,
+};
+
+interface ConcernRule {
+  type: SafetyConcernType;
+  severity: ConcernSeverity;
+  pattern: RegExp;
+}
+
+/**
+ * Ordered from most to least severe; the first match wins
+ */
+const CONCERN_RULES: ConcernRule[] = [
+  { type: "fall", severity: "critical", pattern: /\b(can'?t|cannot|unable to) (get|stand) up\b/i },
+  { type: "medical", severity: "critical", pattern: /\b(chest pains?|can'?t breathe|trouble breathing|short of breath|heart attack|having a stroke|passed out|fainted)\b/i },
+  { type: "fall", severity: "high", pattern: /\b(i fell|i'?ve fallen|i have fallen|i had a fall|took a fall|slipped and fell|tripped and fell|fell (down|over|out of))\b/i },
+  { type: "distress", severity: "high", pattern: /\b(please help me|help me please|i need help(?! with)|somebody help|someone help|emergency|call (an ambulance|911))\b/i },
+  { type: "medical", severity: "high", pattern: /\b(bleeding|very dizzy|really dizzy|room is spinning|severe pain|can'?t feel my)\b/i },
+  { type: "missed_medication", severity: "medium", pattern: /\b(forgot (to take )?my (pills?|meds|medications?|medicine|tablets?)|didn'?t take my (pills?|meds|medications?|medicine|tablets?)|ran out of my (pills?|meds|medications?|medicine|tablets?)|skipped my (pills?|meds|medications?|medicine|tablets?))\b/i },
+  { type: "inactivity", severity: "medium", pattern: /\b(haven'?t (got|gotten|been) out of bed|stayed in bed all day|haven'?t left (my|the) (bed|chair))\b/i },
+  { type: "medical", severity: "medium", pattern: /\b(dizzy|feel(ing)? (sick|faint|unwell|ill)|throwing up|vomit(ing)?|fever)\b/i },
+];
+
+/**
+ * A match preceded by one of these within a few words is treated as negated
+ * ("I didn't fall", "no chest pain")
+ */
+const NEGATION_PATTERN = /\b(not|no|never|didn'?t|don'?t|haven'?t|wasn'?t|isn'?t|without)\b(\s+\w+){0,2}\s*$/i;
+
+const COMMITMENT_PATTERN =
+  /\b(?:i'?ll|i will|i'?m going to|i am going to|i plan to|i promise to)\s+([^.!?\n]+)/gi;
+
+const COMMITMENT_TIME_PATTERN =
+  /\b(at \d{1,2}(?::\d{2})?\s*(?:am|pm)?|(?:this|tomorrow) (?:morning|afternoon|evening)|tonight|tomorrow|later today|later|after (?:breakfast|lunch|dinner|supper)|before (?:bed|breakfast|lunch|dinner|supper))\b/i;
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function userText(messages: ConversationMessage[]): string[] {
+  return messages
+    .filter((message) => message.role === "user" && typeof message.content === "string")
+    .map((message) => message.content.trim())
+    .filter((content) => content.length > 0);
+}
+
+function roundScore(value: number): number {
+  return Math.round(Math.max(-1, Math.min(1, value)) * 100) / 100;
+}
+
+function isNegated(text: string, matchIndex: number): boolean {
+  return NEGATION_PATTERN.test(text.slice(0, matchIndex));
+}
+
+function countWords(text: string, words: string[]): number {
+  let count = 0;
+  for (const token of text.toLowerCase().match(/[a-z']+/g) || []) {
+    if (words.includes(token)) count++;
+  }
+  return count;
+}
+
+/**
+ * Score sentiment from -1.0 (negative) to 1.0 (positive) using word lists
+ */
+export function scoreSentiment(texts: string[]): number | null {
+  if (texts.length === 0) return null;
+
+  let positive = 0;
+  let negative = 0;
+
+  for (const text of texts) {
+    // Split into clauses so "not good" counts against, not for
+    for (const clause of text.split(/[,.;!?]/)) {
+      const hits = { positive: countWords(clause, POSITIVE_WORDS), negative: countWords(clause, NEGATIVE_WORDS) };
+      if (/\b(not|never|didn'?t|don'?t|isn'?t|wasn'?t)\b/i.test(clause)) {
+        positive += hits.negative;
+        negative += hits.positive;
+      } else {
+        positive += hits.positive;
+        negative += hits.negative;
+      }
+    }
+  }
+
+  if (positive + negative === 0) return 0;
+  return roundScore((positive - negative) / (positive + negative));
+}
+
+/**
+ * Pick a mood from explicit keywords, falling back to sentiment
+ */
+export function detectMood(texts: string[], sentimentScore: number | null): CheckInMood | null {
+  if (texts.length === 0) return null;
+
+  const joined = texts.join(" \n ");
+  let bestMood: CheckInMood | null = null;
+  let bestCount = 0;
+
+  for (const [mood, pattern] of Object.entries(MOOD_KEYWORDS)) {
+    const flags = pattern.flags.includes("g") ? pattern.flags : `${pattern.flags}g`;
+    const matches = [...joined.matchAll(new RegExp(pattern.source, flags))]
+      .filter((match) => !isNegated(joined, match.index ?? 0));
+    if (matches.length > bestCount) {
+      bestMood = mood as CheckInMood;
+      bestCount = matches.length;
+    }
+  }
+
+  if (bestMood) return bestMood;
+  if (sentimentScore !== null && sentimentScore >= 0.3) return "happy";
+  if (sentimentScore !== null && sentimentScore <= -0.3) return "sad";
+  return "neutral";
+}
+
+/**
+ * List the topics mentioned by the senior
+ */
+export function detectTopics(texts: string[]): string[] {
+  const joined = texts.join(" \n ");
+  return Object.entries(TOPIC_KEYWORDS)
+    .filter(([, pattern]) => pattern.test(joined))
+    .map(([topic]) => topic);
+}
+
+/**
+ * Find the most severe safety concern raised by the senior
+ */
+export function detectSafetyConcern(texts: string[]): SafetyConcern | null {
+  for (const rule of CONCERN_RULES) {
+    for (const text of texts) {
+      const match = rule.pattern.exec(text);
+      if (match && !isNegated(text, match.index)) {
+        return {
+          type: rule.type,
+          severity: rule.severity,
+          details: `Senior said: "${text.length > 200 ? `${text.slice(0, 197)}...` : text}"`,
+        };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Whether a concern is serious enough to alert again for a check-in that
+ * already raised an alert of the given severity (null: none yet). Re-running
+ * the analysis as a conversation goes on must not re-alert the same concern,
+ * but must alert when it escalates.
+ */
+export function isMoreSevere(severity: ConcernSeverity, than: ConcernSeverity | null): boolean {
+  return than === null || CONCERN_SEVERITIES.indexOf(severity) > CONCERN_SEVERITIES.indexOf(than);
+}
+
+/**
+ * Combine commitments already stored on a check-in with freshly extracted
+ * ones. Commitments recorded by Parra's tools are kept; extracted
+ * commitments are added unless the same action is already present.
+ */
+export function mergeCommitments(stored: unknown, extracted: CheckInCommitment[]): CheckInCommitment[] {
+  const recorded = (Array.isArray(stored) ? stored : []).filter(
+    (c): c is CheckInCommitment => !!c && c.source === "parra" && typeof c.action === "string"
+  );
+  const merged = [...recorded];
+
+  for (const commitment of extracted) {
+    if (!merged.some((c) => c.action.toLowerCase() === commitment.action.toLowerCase())) {
+      merged.push(commitment);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Extract things the senior said they would do ("I'll take my pills after lunch")
+ */
+export function extractCommitments(texts: string[]): CheckInCommitment[] {
+  const commitments: CheckInCommitment[] = [];
+
+  for (const text of texts) {
+    for (const match of text.matchAll(COMMITMENT_PATTERN)) {
+      const action = match[1].trim().replace(/\s+/g, " ");
+      if (action.length < 3) continue;
+
+      const time = action.match(COMMITMENT_TIME_PATTERN)?.[1] ?? null;
+      if (!commitments.some((c) => c.action.toLowerCase() === action.toLowerCase())) {
+        commitments.push({ action, time, completed: false });
+      }
+    }
+  }
+
+  return commitments;
+}
+
+/**
+ * Coerce untrusted analyzer output (e.g. LLM JSON) into a valid analysis
+ */
+export function normalizeAnalysis(raw: unknown, analyzer: string): CheckInAnalysis {
+  const value = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+
+  const mood = CHECK_IN_MOODS.includes(value.mood as CheckInMood) ? (value.mood as CheckInMood) : null;
+
+  const score = typeof value.sentimentScore === "number" && Number.isFinite(value.sentimentScore)
+    ? roundScore(value.sentimentScore)
+    : null;
+
+  const topics = Array.isArray(value.topics)
+    ? [...new Set(value.topics.filter((t): t is string => typeof t === "string").map((t) => t.trim().toLowerCase()))]
+        .filter((t) => t.length > 0)
+        .slice(0, 10)
+    : [];
+
+  let safetyConcern: SafetyConcern | null = null;
+  const concern = value.safetyConcern as Record<string, unknown> | null | undefined;
+  if (concern && typeof concern === "object") {
+    const type = SAFETY_CONCERN_TYPES.includes(concern.type as SafetyConcernType)
+      ? (concern.type as SafetyConcernType)
+      : "other";
+    const severity = CONCERN_SEVERITIES.includes(concern.severity as ConcernSeverity)
+      ? (concern.severity as ConcernSeverity)
+      : "medium";
+    const details = typeof concern.details === "string" ? concern.details.slice(0, 1000) : "";
+    safetyConcern = { type, severity, details };
+  }
+
+  const commitments = Array.isArray(value.commitments)
+    ? value.commitments
+        .filter((c): c is Record<string, unknown> => !!c && typeof c === "object")
+        .filter((c) => typeof c.action === "string" && c.action.trim().length > 0)
+        .map((c) => ({
+          action: (c.action as string).trim().slice(0, 500),
+          time: typeof c.time === "string" && c.time.trim() ? c.time.trim() : null,
+          completed: c.completed === true,
+        }))
+    : [];
+
+  const memories = normalizeMemories(value.memories);
+
+  return { mood, sentimentScore: score, topics, safetyConcern, commitments, memories, analyzer };
+}
+
+// ============================================================================
+// Analyzers
+// ============================================================================
+
+/**
+ * Deterministic keyword-based analyzer. Used in tests, as the fallback when
+ * the LLM analyzer fails, and when no API key is configured.
+ */
+export function createLocalAnalyzer(): CheckInAnalyzer {
+  return {
+    name: "local",
+    analyze(messages: ConversationMessage[]): Promise<CheckInAnalysis> {
+      const texts = userText(messages);
+      const sentimentScore = scoreSentiment(texts);
+
+      return Promise.resolve({
+        mood: detectMood(texts, sentimentScore),
+        sentimentScore,
+        topics: detectTopics(texts),
+        safetyConcern: detectSafetyConcern(texts),
+        commitments: extractCommitments(texts),
+        memories: extractMemories(texts),
+        analyzer: "local",
+      });
+    },
+  };
+}
+
+const OPENAI_ANALYSIS_PROMPT = `You review a finished conversation between Parra, a companion assistant, and an older adult.
+Return ONLY a JSON object with these fields:
+- "mood": one of ${CHECK_IN_MOODS.map((m) => `"${m}"`).join(", ")}, or null if the senior said nothing
+- "sentimentScore": number from -1.0 (very negative) to 1.0 (very positive)
+- "topics": short lowercase topics the senior talked about, e.g. "medication", "sleep", "meals", "family"
+- "safetyConcern": null, or { "type": one of ${SAFETY_CONCERN_TYPES.map((t) => `"${t}"`).join(", ")}, "severity": "low" | "medium" | "high" | "critical", "details": one sentence for a caregiver }
+- "commitments": things the senior said they would do, as [{ "action": string, "time": string or null, "completed": false }]
+- "memories": lasting facts worth remembering for future conversations (preferred name, family members, hobbies, medication schedule, routines, likes/dislikes, ongoing health issues), as [{ "category": one of ${MEMORY_CATEGORIES.map((c) => `"${c}"`).join(", ")}, "content": short third-person fact, e.g. "Daughter: Susan" or "Enjoys gardening" }]
+Only report a safety concern when the senior's own words describe one. Negated statements ("I didn't fall") are not concerns.`;
+
+export interface LLMAnalyzerOptions {
+  /** Overrides the provider's chat model */
+  model?: string;
+}
+
+/**
+ * LLM analyzer using any configured provider (see llm-provider.ts)
+ */
+export function createLLMAnalyzer(llm: LLMProvider, options: LLMAnalyzerOptions = {}): CheckInAnalyzer {
+  const model = options.model || llm.models.chat;
+  const name = `${llm.type}:${model}`;
+
+  return {
+    name,
+    async analyze(messages: ConversationMessage[]): Promise<CheckInAnalysis> {
+      const transcript = messages
+        .filter((message) => message.role !== "system")
+        .map((message) => `${message.role === "user" ? "Senior" : "Parra"}: ${message.content}`)
+        .join("\n");
+
+      const { content } = await llm.chat({
+        model,
+        temperature: 0,
+        json: true,
+        messages: [
+          { role: "system", content: OPENAI_ANALYSIS_PROMPT },
+          { role: "user", content: transcript },
+        ],
+      });
+
+      if (!content) {
+        throw new Error("Analysis response had no content");
+      }
+
+      return normalizeAnalysis(JSON.parse(content), name);
+    },
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Check-In Reply Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { classifyCheckInReply } from './checkin-replies';
+
+describe('classifyCheckInReply', () => {
+  it('should treat ordinary replies as okay', () => {
+    expect(classifyCheckInReply("I'm fine, just reading in my chair")).toEqual({ kind: 'ok', concern: null });
+    expect(classifyCheckInReply('yes all good thanks')).toMatchObject({ kind: 'ok' });
+  });
+
+  it('should not escalate when a fall is denied', () => {
+    expect(classifyCheckInReply("No need to worry, I didn't fall")).toMatchObject({ kind: 'ok' });
+  });
+
+  it('should escalate falls and requests for help', () => {
+    expect(classifyCheckInReply("I fell in the kitchen and can't get up")).toMatchObject({
+      kind: 'needs_help',
+      concern: { type: 'fall', severity: 'critical' },
+    });
+    expect(classifyCheckInReply('please help me')).toMatchObject({
+      kind: 'needs_help',
+      concern: { type: 'distress' },
+    });
+  });
+
+  it('should escalate replies saying the senior is not okay', () => {
+    expect(classifyCheckInReply("I'm not okay")).toMatchObject({ kind: 'needs_help' });
+    expect(classifyCheckInReply('HELP!')).toMatchObject({ kind: 'needs_help' });
+  });
+
+  it('should keep lower-severity concerns without escalating', () => {
+    expect(classifyCheckInReply("I'm fine, just a bit dizzy")).toEqual({
+      kind: 'ok',
+      concern: expect.objectContaining({ type: 'medical', severity: 'medium' }),
+    });
+  });
+});
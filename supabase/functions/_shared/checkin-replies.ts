@@ -0,0 +1,47 @@
+/**
+ * Check-In Replies
+ *
+ * Classifies a senior's text reply to a safety check-in ("Just checking in -
+ * are you okay?"). Any reply shows the senior is responsive, but a reply that
+ * asks for help must escalate rather than resolve the check-in.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/checkin-replies
+ */
+
+import { detectSafetyConcern, type SafetyConcern } from "./checkin-analysis.ts";
+
+export type CheckInReplyKind = "ok" | "needs_help";
+
+export interface CheckInReply {
+  kind: CheckInReplyKind;
+  /** Concern detected in the reply, if any */
+  concern: SafetyConcern | null;
+}
+
+const NOT_OK_PATTERN =
+  /\b(?:not|isn'?t|am not|i'?m not)\s+(?:ok|okay|fine|alright|all right|good|well)\b|\b(?:i'?m hurt|i am hurt|i hurt myself|come quick|send help)\b/i;
+
+const HELP_ONLY_PATTERN = /^\s*(?:help|help!+|sos|no)\s*[.!]*\s*$/i;
+
+/**
+ * Decide whether a reply to a check-in means the senior is okay
+ */
+export function classifyCheckInReply(text: string): CheckInReply {
+  const concern = detectSafetyConcern([text]);
+
+  if (concern && (concern.severity === "high" || concern.severity === "critical")) {
+    return { kind: "needs_help", concern };
+  }
+
+  if (NOT_OK_PATTERN.test(text) || HELP_ONLY_PATTERN.test(text)) {
+    return {
+      kind: "needs_help",
+      concern: concern ?? { type: "distress", severity: "high", details: `Senior replied: "${text.trim().slice(0, 200)}"` },
+    };
+  }
+
+  return { kind: "ok", concern };
+}
@@ -0,0 +1,134 @@
+/**
+ * Crisis Detection Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { detectCrisis, formatCrisisResponse, getCrisisResources, type CrisisCategory } from './crisis-detection';
+
+/**
+ * Phrases a senior might say that must raise a crisis alert
+ */
+const CRISIS_PHRASES: Array<[string, CrisisCategory]> = [
+  ["I don't want to be here anymore", 'suicidal_ideation'],
+  ['I just want to die.', 'suicidal_ideation'],
+  ['Sometimes I think about killing myself', 'suicidal_ideation'],
+  ["I'm going to kill myself", 'suicidal_ideation'],
+  ["I've been thinking about ending my life", 'suicidal_ideation'],
+  ["I'm ready to end it all", 'suicidal_ideation'],
+  ['I feel suicidal', 'suicidal_ideation'],
+  ['I have thoughts of suicide', 'suicidal_ideation'],
+  ["I don't want to wake up tomorrow", 'suicidal_ideation'],
+  ["I don’t want to live anymore", 'suicidal_ideation'],
+  ["There's no reason to go on", 'suicidal_ideation'],
+  ['I have nothing left to live for since Frank passed', 'suicidal_ideation'],
+  ['Everyone would be better off without me', 'suicidal_ideation'],
+  ['I wish I was dead', 'suicidal_ideation'],
+  ["I can't go on anymore", 'suicidal_ideation'],
+  ["No, I'm not fine. I want to die", 'suicidal_ideation'],
+  ["I just want to die because I'm so lonely", 'suicidal_ideation'],
+  ['I want to die so badly', 'suicidal_ideation'],
+  ["I don't even want to live anymore", 'suicidal_ideation'],
+  ["I'm not sure I want to live anymore", 'suicidal_ideation'],
+  ["I don't care I want to die", 'suicidal_ideation'],
+  ["I'm not suicidal, but honestly I want to die", 'suicidal_ideation'],
+  ['I want to go to sleep and never wake up', 'suicidal_ideation'],
+  ['I hope I never wake up', 'suicidal_ideation'],
+  ['I want to hurt myself', 'self_harm'],
+  ["I've been cutting myself again", 'self_harm'],
+  ["I'm thinking about taking the whole bottle of sleeping pills", 'self_harm'],
+  ['I could swallow all my pills at once', 'self_harm'],
+  ["I'm going to take all my pills", 'self_harm'],
+  ["I've been thinking about taking an overdose", 'self_harm'],
+  ['I could overdose on my sleeping pills', 'self_harm'],
+];
+
+/**
+ * Everyday phrases that must not raise one
+ */
+const SAFE_PHRASES = [
+  'My back is killing me today',
+  "I'm dying to see the grandkids this weekend",
+  'I nearly died laughing at that show',
+  "I don't want to die",
+  "I'm not suicidal, just tired",
+  'I would never hurt myself',
+  "I'm not going to kill myself, don't worry",
+  'I hurt myself when I fell in the garden',
+  "I don't want to live in a nursing home",
+  "I don't want to be here at the hospital all day",
+  'I want to die in my own bed when my time comes',
+  'I want to die of old age with my family around me',
+  "I'm going to take all my pills with breakfast",
+  "I'm not going to hurt myself",
+  'Did I take all my pills this morning?',
+  'I took my tablets with breakfast',
+  "What's the end of the story?",
+];
+
+describe('detectCrisis', () => {
+  it.each(CRISIS_PHRASES)('should flag "%s" as %s', (text, category) => {
+    expect(detectCrisis(text)).toMatchObject({ category });
+  });
+
+  it.each(SAFE_PHRASES)('should not flag "%s"', (text) => {
+    expect(detectCrisis(text)).toBeNull();
+  });
+
+  it('should report the phrase that matched', () => {
+    expect(detectCrisis('Honestly I want to END IT ALL.')).toEqual({
+      category: 'suicidal_ideation',
+      matched: 'END IT ALL',
+    });
+  });
+
+  it('should only treat a denial in the same sentence as negating', () => {
+    expect(detectCrisis("I'm not okay. I want to kill myself")).toMatchObject({ category: 'suicidal_ideation' });
+  });
+});
+
+describe('getCrisisResources', () => {
+  it('should pick the crisis line for the time zone', () => {
+    expect(getCrisisResources('America/Chicago')).toMatchObject({ country: 'US', emergencyNumber: '911' });
+    expect(getCrisisResources('America/Indiana/Indianapolis')).toMatchObject({ country: 'US' });
+    expect(getCrisisResources('America/Toronto')).toMatchObject({ country: 'CA' });
+    expect(getCrisisResources('Europe/London')).toMatchObject({
+      country: 'GB',
+      hotline: { name: 'Samaritans', contact: 'call 116 123' },
+      emergencyNumber: '999',
+    });
+    expect(getCrisisResources('Australia/Sydney')).toMatchObject({ country: 'AU', emergencyNumber: '000' });
+  });
+
+  it('should have no crisis line for a time zone it does not know', () => {
+    expect(getCrisisResources('Asia/Tokyo')).toEqual({ country: null, hotline: null, emergencyNumber: null });
+  });
+});
+
+describe('formatCrisisResponse', () => {
+  it('should give the crisis line and emergency number', () => {
+    const response = formatCrisisResponse(getCrisisResources('America/New_York'), {
+      patientName: 'Margaret',
+      caregiverName: 'Sarah',
+    });
+
+    expect(response).toMatch(/^Margaret, I'm really glad you told me/);
+    expect(response).toContain("I've let Sarah and your care team know");
+    expect(response).toContain('call or text 988 to reach the 988 Suicide & Crisis Lifeline');
+    expect(response).toContain('please call 911');
+  });
+
+  it('should fall back to a helpline directory and the local emergency number', () => {
+    const response = formatCrisisResponse(getCrisisResources('Asia/Tokyo'));
+
+    expect(response).toContain('findahelpline.com');
+    expect(response).toContain('your local emergency number');
+    expect(response).toContain("I've let your care team know");
+  });
+
+  it('should not claim the care team was told when the alert failed', () => {
+    const response = formatCrisisResponse(getCrisisResources('America/New_York'), { careTeamAlerted: false });
+
+    expect(response).not.toContain("I've let");
+    expect(response).toContain('Please let your care team or someone you trust know');
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Crisis Detection
+ *
+ * Deterministic check for suicidal ideation and self-harm in what a senior
+ * says to Parra. It runs on every inbound message (senior-chat, voice-chat
+ * and whatsapp-webhook) before the model is called, so a crisis is never
+ * left to the model's judgement: a match raises a critical distress_signal
+ * alert, notifies caregivers immediately, and Parra replies with crisis
+ * resources for the patient's country instead of a generated message.
+ *
+ * The rules favour catching a crisis over avoiding false alarms. They skip
+ * common figures of speech ("my back is killing me", "I'm dying to see
+ * them"), explicit talk of a natural death ("when my time comes"), and
+ * denials where the negation is on the matched verb itself ("I'd never hurt
+ * myself"). A negation elsewhere in the sentence ("I don't care, I want to
+ * die", "I'm not sure I want to live anymore") does not cancel a match.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/crisis-detection
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CrisisCategory = "suicidal_ideation" | "self_harm";
+
+export interface CrisisSignal {
+  category: CrisisCategory;
+  /** The phrase that matched, as the senior wrote it */
+  matched: string;
+}
+
+export interface CrisisResources {
+  /** ISO country code, or null when the time zone doesn't identify one */
+  country: string | null;
+  /** Crisis line offered to the patient, if the country has one we know */
+  hotline: { name: string; contact: string } | null;
+  emergencyNumber: string | null;
+}
+
+export const CRISIS_LABELS: Record<CrisisCategory, string> = {
+  suicidal_ideation: "Possible suicidal thoughts",
+  self_harm: "Possible self-harm",
+};
+
+// ============================================================================
+// Rules
+// ============================================================================
+
+interface CrisisRule {
+  category: CrisisCategory;
+  pattern: RegExp;
+  /** Not a crisis when the rest of the sentence matches ("when my time comes") */
+  unless?: RegExp;
+}
+
+/**
+ * Ends a phrase that is only a crisis at the end of the clause: "I don't want
+ * to live anymore", but not "I don't want to live in a home"
+ */
+const CLAUSE_END = String.raw`(?=\s*(?:[.!?,;]|$|\b(?:anymore|any more|any longer|again|now|today|tonight|tomorrow)\b))`;
+
+const MEDICATION = String.raw`(?:pills|tablets|meds|medications?|medicine|sleeping pills)`;
+
+/** Talking about dying of natural causes, not wanting to die now */
+const NATURAL_DEATH = /\b(?:when|once) (?:my|the) time (?:comes|is up|has come)\b|\bof old age\b|\bnaturally\b|\bin my own (?:bed|home)\b/i;
+
+/** Taking the day's medication as usual */
+const ROUTINE_DOSE = /\b(?:with|after|before) (?:my )?(?:breakfast|lunch|dinner|supper|food|a meal|water)\b|\bas (?:prescribed|usual)\b/i;
+
+const CRISIS_RULES: CrisisRule[] = [
+  { category: "suicidal_ideation", pattern: /\b(?:kill|killing|hang|hanging|shoot|shooting|drown|drowning) myself\b/i },
+  { category: "suicidal_ideation", pattern: /\b(?:end|ending|take|taking) my (?:own )?life\b/i },
+  { category: "suicidal_ideation", pattern: /\bend(?:ing)? it all\b/i },
+  { category: "suicidal_ideation", pattern: /\bsuicidal\b|\b(?:commit|committing|thinking about|thought about|thoughts of|considering) suicide\b/i },
+  {
+    category: "suicidal_ideation",
+    pattern: /\bi (?:just |really |only |sometimes |honestly |still )?(?:want|wanna) to die\b/i,
+    unless: NATURAL_DEATH,
+  },
+  {
+    category: "suicidal_ideation",
+    pattern: new RegExp(
+      String.raw`\b(?:don'?t|do not|no longer) (?:even |really |honestly )?want to (?:live|be alive|be here|wake up|go on)${CLAUSE_END}`,
+      "i"
+    ),
+  },
+  {
+    category: "suicidal_ideation",
+    pattern: new RegExp(
+      String.raw`\b(?:not sure|unsure|don'?t know)(?: if| whether)? i (?:still |even )?want to (?:live|be alive|be here|go on|keep going)${CLAUSE_END}`,
+      "i"
+    ),
+  },
+  {
+    category: "suicidal_ideation",
+    pattern: /\b(?:go|went) to sleep and (?:never|not) wake up\b|\b(?:hope|wish|want)(?: that)? i (?:never|don'?t|won'?t) wake up\b/i,
+  },
+  { category: "suicidal_ideation", pattern: /\b(?:nothing|no one|nobody) (?:left )?to live for\b|\bno (?:reason|point) (?:to|in) (?:live|living|go on|going on|keep going)\b/i },
+  { category: "suicidal_ideation", pattern: /\bbetter off (?:dead|without me)\b/i },
+  {
+    category: "suicidal_ideation",
+    pattern: /\bwish i (?:was|were|had) (?:dead|died|never been born)\b|\bwish i (?:could|would) (?:just )?(?:die|not wake up)\b/i,
+  },
+  { category: "suicidal_ideation", pattern: /\bcan'?t go on (?:anymore|any more|any longer|living)\b/i },
+  {
+    category: "self_harm",
+    pattern: /\b(?:want|wanna|going|gonna|thinking about|thought about|feel like|urge to|tempted to)(?: to)? (?:hurt|harm|cut|burn)(?:ing)? myself\b/i,
+  },
+  { category: "self_harm", pattern: /\b(?:i'?ve been|i have been|i keep|i started) (?:hurting|harming|cutting|burning) myself\b|\bself[- ]harm(?:ing)?\b/i },
+  {
+    category: "self_harm",
+    pattern: new RegExp(
+      String.raw`\b(?:take|taking|swallow|swallowing) (?:(?:the|a) whole bottle of (?:my )?${MEDICATION}|all (?:of )?my ${MEDICATION} at once)\b|\b(?:want|going|gonna|thinking about|thought about|planning)(?: to)? (?:overdos(?:e|ing)|take an overdose|taking an overdose)\b|\boverdos(?:e|ing) on (?:my )?${MEDICATION}\b`,
+      "i"
+    ),
+  },
+  {
+    category: "self_harm",
+    pattern: new RegExp(
+      String.raw`\b(?:want|going|gonna|thinking about|thought about|planning)(?: to)? (?:take|taking|swallow|swallowing) (?:all|every one) (?:of )?my ${MEDICATION}\b`,
+      "i"
+    ),
+    unless: ROUTINE_DOSE,
+  },
+];
+
+/**
+ * A match directly after a negator, with at most the verb's auxiliaries in
+ * between, is a denial ("I'm not suicidal", "I would never kill myself",
+ * "I'm not going to hurt myself"). "I don't care, I want to die" is not.
+ */
+const NEGATION_PATTERN =
+  /\b(?:not|never|don'?t|didn'?t|wouldn'?t|won'?t|isn'?t|wasn'?t|ain'?t)(?:\s+(?:ever|really|actually|going to|gonna|trying to|try to|want to|wanna|be|feeling|feel))*\s+$/i;
+
+// ============================================================================
+// Crisis Resources
+// ============================================================================
+
+const US_TIME_ZONES = new Set([
+  "America/New_York", "America/Chicago", "America/Denver", "America/Phoenix", "America/Los_Angeles",
+  "America/Anchorage", "America/Juneau", "America/Sitka", "America/Nome", "America/Adak", "America/Boise",
+  "America/Detroit", "America/Menominee", "America/Puerto_Rico", "Pacific/Honolulu",
+]);
+
+const CANADA_TIME_ZONES = new Set([
+  "America/Toronto", "America/Montreal", "America/Vancouver", "America/Edmonton", "America/Winnipeg",
+  "America/Regina", "America/Halifax", "America/St_Johns", "America/Moncton", "America/Whitehorse",
+  "America/Yellowknife", "America/Iqaluit",
+]);
+
+const RESOURCES_BY_COUNTRY: Record<string, Omit<CrisisResources, "country">> = {
+  US: { hotline: { name: "the 988 Suicide & Crisis Lifeline", contact: "call or text 988" }, emergencyNumber: "911" },
+  CA: { hotline: { name: "the 9-8-8 Suicide Crisis Helpline", contact: "call or text 988" }, emergencyNumber: "911" },
+  GB: { hotline: { name: "Samaritans", contact: "call 116 123" }, emergencyNumber: "999" },
+  IE: { hotline: { name: "Samaritans", contact: "call 116 123" }, emergencyNumber: "112" },
+  AU: { hotline: { name: "Lifeline", contact: "call 13 11 14" }, emergencyNumber: "000" },
+  NZ: { hotline: { name: "Need to Talk?", contact: "call or text 1737" }, emergencyNumber: "111" },
+};
+
+function countryForTimeZone(timeZone: string): string | null {
+  if (
+    US_TIME_ZONES.has(timeZone) ||
+    /^America\/(?:Indiana|Kentucky|North_Dakota)\//.test(timeZone) ||
+    timeZone.startsWith("US/")
+  ) {
+    return "US";
+  }
+  if (CANADA_TIME_ZONES.has(timeZone) || timeZone.startsWith("Canada/")) return "CA";
+  if (timeZone === "Europe/London" || timeZone === "Europe/Belfast") return "GB";
+  if (timeZone === "Europe/Dublin") return "IE";
+  if (timeZone.startsWith("Australia/")) return "AU";
+  if (timeZone === "Pacific/Auckland" || timeZone === "Pacific/Chatham") return "NZ";
+  return null;
+}
+
+// ============================================================================
+// Detection
+// ============================================================================
+
+const SENTENCE_MARKS = /[.!?\n]/;
+
+function isNegated(text: string, matchIndex: number): boolean {
+  const sentenceStart = Math.max(...[".", "!", "?", "\n"].map((mark) => text.lastIndexOf(mark, matchIndex - 1))) + 1;
+  return NEGATION_PATTERN.test(text.slice(sentenceStart, matchIndex));
+}
+
+function restOfSentence(text: string, matchEnd: number): string {
+  const rest = text.slice(matchEnd);
+  const end = rest.search(SENTENCE_MARKS);
+  return end === -1 ? rest : rest.slice(0, end);
+}
+
+/**
+ * Check a message from the senior for suicidal ideation or self-harm
+ *
+ * @returns The first rule that matched, or null
+ */
+export function detectCrisis(text: string): CrisisSignal | null {
+  const normalized = text.replace(/[‘’]/g, "'");
+
+  for (const rule of CRISIS_RULES) {
+    // Every occurrence: "I'm not suicidal, but I want to die" still counts
+    for (const match of normalized.matchAll(new RegExp(rule.pattern.source, "gi"))) {
+      const index = match.index ?? 0;
+      if (isNegated(normalized, index)) continue;
+      if (rule.unless?.test(restOfSentence(normalized, index + match[0].length))) continue;
+      return { category: rule.category, matched: match[0] };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Crisis line and emergency number for the patient's country, taken from
+ * their time zone
+ */
+export function getCrisisResources(timeZone: string): CrisisResources {
+  const country = countryForTimeZone(timeZone);
+  if (!country) return { country: null, hotline: null, emergencyNumber: null };
+
+  return { country, ...RESOURCES_BY_COUNTRY[country] };
+}
+
+/**
+ * Parra's reply to a crisis message: how to reach help now, and whether the
+ * care team was told, whatever the model would have said
+ */
+export function formatCrisisResponse(
+  resources: CrisisResources,
+  {
+    patientName,
+    caregiverName,
+    careTeamAlerted = true,
+  }: { patientName?: string | null; caregiverName?: string | null; careTeamAlerted?: boolean } = {}
+): string {
+  const opening = patientName
+    ? `${patientName}, I'm really glad you told me, and I'm so sorry you're feeling this way.`
+    : "I'm really glad you told me, and I'm so sorry you're feeling this way.";
+  const careTeam = caregiverName ? `${caregiverName} and your care team` : "your care team";
+
+  const help = resources.hotline
+    ? `You can talk to someone right now, any time of day or night: ${resources.hotline.contact} to reach ${resources.hotline.name}.`
+    : "You can talk to someone right now at a local crisis line; findahelpline.com lists free, confidential ones near you.";
+  const emergency = resources.emergencyNumber
+    ? `If you might act on these thoughts or are in danger, please call ${resources.emergencyNumber}.`
+    : "If you might act on these thoughts or are in danger, please call your local emergency number.";
+
+  return [
+    opening,
+    "You don't have to go through this alone.",
+    careTeamAlerted
+      ? `I've let ${careTeam} know so someone can be with you.`
+      : `Please let ${careTeam} or someone you trust know how you're feeling.`,
+    help,
+    emergency,
+    "I'm here with you. Would you like to keep talking?",
+  ].join(" ");
+}
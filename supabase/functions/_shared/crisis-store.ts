@@ -0,0 +1,78 @@
+/**
+ * Crisis Store
+ *
+ * Raises the alert for a crisis message (see crisis-detection.ts) and starts
+ * caregiver escalation straight away. Expects a service role client.
+ *
+ * @module edge-functions/crisis-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { CONCERN_ALERT_TYPES } from "./checkin-analysis.ts";
+import { CRISIS_LABELS, type CrisisSignal } from "./crisis-detection.ts";
+import { notifyCaregivers } from "./notifications.ts";
+
+export interface CrisisAlert {
+  supabaseUrl: string;
+  serviceKey: string;
+  patientId: string;
+  patientName: string;
+  signal: CrisisSignal;
+  /** What the patient said */
+  text: string;
+  /** Channel the message came in on, recorded in alert_details */
+  source: "senior_chat" | "voice_chat" | "whatsapp";
+  /** Conversation the message belongs to, flagged with the concern */
+  checkInId?: string | null;
+}
+
+/**
+ * Create a critical distress_signal alert and notify caregivers immediately
+ *
+ * @returns The alert id and whether caregivers were notified
+ */
+export async function raiseCrisisAlert(
+  supabase: SupabaseClient,
+  { supabaseUrl, serviceKey, patientId, patientName, signal, text, source, checkInId = null }: CrisisAlert
+): Promise<{ alertId: string; caregiversNotified: boolean }> {
+  const excerpt = text.trim().slice(0, 200);
+  const alertMessage = `${CRISIS_LABELS[signal.category]}: ${patientName} said "${excerpt}" to Parra. Please contact them now.`;
+
+  const { data: alert, error } = await supabase
+    .from("alerts")
+    .insert({
+      patient_id: patientId,
+      check_in_id: checkInId,
+      alert_type: CONCERN_ALERT_TYPES.distress,
+      severity: "critical",
+      status: "active",
+      alert_message: alertMessage,
+      alert_details: {
+        source,
+        crisis_category: signal.category,
+        matched: signal.matched,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (error || !alert) throw new Error(`Failed to create crisis alert: ${error?.message ?? "no row returned"}`);
+
+  if (checkInId) {
+    const { error: checkInError } = await supabase
+      .from("check_ins")
+      .update({
+        safety_concern_detected: true,
+        safety_concern_type: "distress",
+        safety_concern_details: alertMessage,
+        alert_sent: true,
+        alert_sent_at: new Date().toISOString(),
+      })
+      .eq("id", checkInId);
+
+    if (checkInError) console.error("Error flagging check-in with crisis:", checkInError);
+  }
+
+  const caregiversNotified = await notifyCaregivers(supabaseUrl, serviceKey, alert.id, alertMessage);
+  return { alertId: alert.id, caregiversNotified };
+}
@@ -0,0 +1,175 @@
+/**
+ * Daily Summaries Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  aggregateMood,
+  buildDailySummary,
+  countConversations,
+  rateSleep,
+  totalStepsForDay,
+  type DaySources,
+  type HealthMetricRow,
+} from './daily-summaries';
+
+const patient = { id: 'patient-1', full_name: 'Margaret Smith', display_name: 'Margaret' };
+
+const emptyDay: DaySources = {
+  checkIns: [],
+  voiceCheckIns: [],
+  alerts: [],
+  healthMetrics: [],
+  motionEvents: [],
+  medicationDoses: [],
+};
+
+const steps = (value: number, source: string | null): HealthMetricRow => ({
+  metric_type: 'steps',
+  data_source: source,
+  value_numeric: value,
+  value_json: null,
+  is_anomaly: false,
+  anomaly_reason: null,
+});
+
+const checkIn = (overrides: Partial<DaySources['checkIns'][number]> = {}): DaySources['checkIns'][number] => ({
+  started_at: '2025-11-03T14:00:00Z',
+  duration_seconds: 300,
+  mood_detected: 'happy',
+  sentiment_score: 0.6,
+  topics_discussed: [],
+  safety_concern_detected: false,
+  safety_concern_type: null,
+  ...overrides,
+});
+
+describe('aggregateMood', () => {
+  it('should call a day with good and bad moments mixed', () => {
+    expect(aggregateMood(['happy', 'sad'])).toBe('mixed');
+  });
+
+  it('should let negative moods win ties', () => {
+    expect(aggregateMood(['neutral', 'anxious'])).toBe('anxious');
+    expect(aggregateMood([])).toBeNull();
+  });
+});
+
+describe('rateSleep', () => {
+  it('should prefer the sleep score over hours', () => {
+    expect(rateSleep(8, 55)).toBe('poor');
+    expect(rateSleep(6, null)).toBe('fair');
+    expect(rateSleep(null, null)).toBe('not_reported');
+  });
+});
+
+describe('totalStepsForDay', () => {
+  it('should take the latest running total of each source, not the sum', () => {
+    expect(totalStepsForDay([steps(1200, 'google_fit'), steps(3400, 'google_fit'), steps(5100, 'google_fit')])).toBe(5100);
+  });
+
+  it('should not add overlapping sources together', () => {
+    expect(totalStepsForDay([steps(4000, 'samsung_health'), steps(4300, 'google_fit')])).toBe(4300);
+  });
+
+  it('should return null without step readings', () => {
+    expect(totalStepsForDay([])).toBeNull();
+  });
+});
+
+describe('countConversations', () => {
+  const message = (created_at: string) => ({ created_at, duration_seconds: null, transcript: 'Hello' });
+
+  it('should count messages close together as one conversation', () => {
+    expect(
+      countConversations([
+        message('2025-11-03T09:20:00Z'),
+        message('2025-11-03T09:00:00Z'),
+        message('2025-11-03T09:45:00Z'),
+        message('2025-11-03T18:00:00Z'),
+        message('2025-11-03T18:05:00Z'),
+      ])
+    ).toBe(2);
+  });
+
+  it('should count no conversations without messages', () => {
+    expect(countConversations([])).toBe(0);
+  });
+});
+
+describe('buildDailySummary', () => {
+  it('should summarize a quiet day with no check-ins', () => {
+    const summary = buildDailySummary(patient, '2025-11-03', emptyDay);
+
+    expect(summary).toMatchObject({
+      patient_id: 'patient-1',
+      summary_date: '2025-11-03',
+      check_in_count: 0,
+      medication_taken: null,
+      total_steps: null,
+      overall_status: 'ok',
+      summary_text: 'Margaret did not check in with Parra.',
+    });
+    expect(summary.concerns).toContain('No check-ins today');
+  });
+
+  it('should roll up check-ins, steps and alerts', () => {
+    const summary = buildDailySummary(patient, '2025-11-03', {
+      ...emptyDay,
+      checkIns: [checkIn(), checkIn({ duration_seconds: 600, sentiment_score: 0.2 })],
+      voiceCheckIns: [
+        { created_at: '2025-11-03T18:00:00Z', duration_seconds: 60, transcript: 'Lovely day' },
+        { created_at: '2025-11-03T18:02:00Z', duration_seconds: null, transcript: 'The garden looks nice' },
+      ],
+      healthMetrics: [steps(2500, 'google_fit'), steps(6200, 'google_fit')],
+      alerts: [{ alert_type: 'prolonged_inactivity', severity: 'high', status: 'active', resolved_at: null }],
+    });
+
+    expect(summary).toMatchObject({
+      check_in_count: 3,
+      total_conversation_minutes: 16,
+      overall_mood: 'happy',
+      average_sentiment_score: 0.4,
+      total_steps: 6200,
+      activity_reported: true,
+      alerts_triggered: 1,
+      overall_status: 'alert',
+      status_reason: '1 high-priority alert',
+    });
+    expect(summary.highlights).toContain('6,200 steps');
+    expect(summary.concerns).toContain('1 unresolved alert');
+  });
+
+  it('should not count talking about medication as taking it', () => {
+    const summary = buildDailySummary(patient, '2025-11-03', {
+      ...emptyDay,
+      checkIns: [checkIn({ topics_discussed: ['medication'] })],
+      voiceCheckIns: [{ created_at: '2025-11-03T18:00:00Z', duration_seconds: 30, transcript: 'I need to take my pills later' }],
+    });
+
+    expect(summary.medication_taken).toBeNull();
+  });
+
+  it('should count confirmed doses and "took my pills" messages as taken', () => {
+    expect(
+      buildDailySummary(patient, '2025-11-03', { ...emptyDay, medicationDoses: [{ status: 'taken' }] }).medication_taken
+    ).toBe(true);
+    expect(
+      buildDailySummary(patient, '2025-11-03', {
+        ...emptyDay,
+        voiceCheckIns: [{ created_at: '2025-11-03T18:00:00Z', duration_seconds: 30, transcript: 'I took my pills' }],
+      }).medication_taken
+    ).toBe(true);
+  });
+
+  it('should report medication missed when a dose was missed', () => {
+    const summary = buildDailySummary(patient, '2025-11-03', {
+      ...emptyDay,
+      medicationDoses: [{ status: 'taken' }, { status: 'missed' }],
+    });
+
+    expect(summary.medication_taken).toBe(false);
+    expect(summary.concerns).toContain('Medication missed');
+    expect(summary.overall_status).toBe('warning');
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Daily Summaries
+ *
+ * Rolls up the raw records of one patient's local day (check-ins, voice
+ * check-ins, alerts, health metrics, motion events and medication doses)
+ * into a daily_summaries row. generate-daily-summaries loads the records
+ * and stores the result.
+ *
+ * Each WhatsApp message is its own voice_checkins row, so messages are
+ * grouped into conversations before they are counted as check-ins.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/daily-summaries
+ */
+
+import { isMedicationConfirmation } from "./medications.ts";
+import { CHAT_SESSION_IDLE_MINUTES } from "./chat-sessions.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface CheckInRow {
+  started_at: string;
+  duration_seconds: number | null;
+  mood_detected: string | null;
+  sentiment_score: number | null;
+  topics_discussed: string[] | null;
+  safety_concern_detected: boolean | null;
+  safety_concern_type: string | null;
+}
+
+export interface VoiceCheckInRow {
+  created_at: string;
+  duration_seconds: number | null;
+  transcript: string;
+}
+
+export interface AlertRow {
+  alert_type: string;
+  severity: "low" | "medium" | "high" | "critical";
+  status: string;
+  resolved_at: string | null;
+}
+
+export interface HealthMetricRow {
+  metric_type: string;
+  data_source: string | null;
+  value_numeric: number | null;
+  value_json: Record<string, unknown> | null;
+  is_anomaly: boolean | null;
+  anomaly_reason: string | null;
+}
+
+export interface MotionEventRow {
+  detection_state: "DETECTED" | "NOT_DETECTED";
+}
+
+export interface MedicationDoseRow {
+  status: "taken" | "skipped" | "missed";
+}
+
+export interface DaySources {
+  checkIns: CheckInRow[];
+  voiceCheckIns: VoiceCheckInRow[];
+  alerts: AlertRow[];
+  healthMetrics: HealthMetricRow[];
+  motionEvents: MotionEventRow[];
+  /** Scheduled doses recorded for the day (medication_doses) */
+  medicationDoses: MedicationDoseRow[];
+}
+
+export interface SummaryPatient {
+  id: string;
+  full_name: string | null;
+  display_name: string | null;
+}
+
+export type SummaryMood = "happy" | "neutral" | "sad" | "concerned" | "anxious" | "confused" | "mixed";
+export type SleepQuality = "good" | "fair" | "poor" | "not_reported";
+export type SummaryStatus = "ok" | "warning" | "alert";
+
+// ============================================================================
+// Aggregation Rules
+// ============================================================================
+
+const NEGATIVE_MOODS = new Set(["sad", "concerned", "anxious", "confused"]);
+
+/**
+ * Combine individual check-in moods into one daily mood
+ */
+export function aggregateMood(moods: string[]): SummaryMood | null {
+  if (moods.length === 0) return null;
+
+  const counts = new Map<string, number>();
+  for (const mood of moods) {
+    counts.set(mood, (counts.get(mood) || 0) + 1);
+  }
+
+  const hasPositive = counts.has("happy");
+  const negatives = moods.filter((mood) => NEGATIVE_MOODS.has(mood));
+
+  // Good and bad moments on the same day are worth surfacing as "mixed"
+  if (hasPositive && negatives.length > 0) return "mixed";
+
+  // Otherwise the most frequent mood wins, with negative moods winning ties
+  let best: string | null = null;
+  let bestCount = 0;
+  for (const [mood, count] of counts) {
+    if (count > bestCount || (count === bestCount && NEGATIVE_MOODS.has(mood))) {
+      best = mood;
+      bestCount = count;
+    }
+  }
+
+  return best as SummaryMood;
+}
+
+/**
+ * Rate sleep from a sleep score or, failing that, the hours slept
+ */
+export function rateSleep(hours: number | null, score: number | null): SleepQuality {
+  if (score !== null) {
+    if (score >= 75) return "good";
+    if (score >= 60) return "fair";
+    return "poor";
+  }
+  if (hours === null) return "not_reported";
+  if (hours >= 7) return "good";
+  if (hours >= 5.5) return "fair";
+  return "poor";
+}
+
+/**
+ * Steps for the day. Each source reports a running daily total, so the
+ * latest (largest) reading of a source is its total; sources overlap
+ * (a phone and a watch count the same walk), so the busiest source wins.
+ */
+export function totalStepsForDay(readings: HealthMetricRow[]): number | null {
+  const bySource = new Map<string, number>();
+  for (const reading of readings) {
+    if (reading.metric_type !== "steps") continue;
+    const value = toNumber(reading.value_numeric);
+    if (value === null) continue;
+    const source = reading.data_source || "unknown";
+    bySource.set(source, Math.max(bySource.get(source) ?? 0, value));
+  }
+  return bySource.size > 0 ? Math.max(...bySource.values()) : null;
+}
+
+/**
+ * Conversations in a day of WhatsApp messages: like a chat session, a
+ * message more than CHAT_SESSION_IDLE_MINUTES after the previous one starts
+ * a new conversation.
+ */
+export function countConversations(messages: VoiceCheckInRow[]): number {
+  const times = messages.map((m) => new Date(m.created_at).getTime()).sort((a, b) => a - b);
+  const idleMs = CHAT_SESSION_IDLE_MINUTES * 60 * 1000;
+  return times.filter((time, index) => index === 0 || time - times[index - 1] > idleMs).length;
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) return value;
+  if (typeof value === "string" && value.trim() !== "" && Number.isFinite(Number(value))) {
+    return Number(value);
+  }
+  return null;
+}
+
+/**
+ * Build a daily_summaries row from the raw records of one local day
+ */
+export function buildDailySummary(
+  patient: SummaryPatient,
+  summaryDate: string,
+  sources: DaySources
+) {
+  const { checkIns, voiceCheckIns, alerts, healthMetrics, motionEvents, medicationDoses } = sources;
+  const patientName = patient.display_name || patient.full_name || "The patient";
+
+  const highlights: string[] = [];
+  const concerns: string[] = [];
+
+  // Conversation activity
+  const checkInCount = checkIns.length + countConversations(voiceCheckIns);
+  const conversationSeconds =
+    checkIns.reduce((sum, c) => sum + (c.duration_seconds || 0), 0) +
+    voiceCheckIns.reduce((sum, v) => sum + (v.duration_seconds || 0), 0);
+
+  const moods = checkIns.map((c) => c.mood_detected).filter((m): m is string => !!m);
+  const overallMood = aggregateMood(moods);
+  const sentimentScores = checkIns
+    .map((c) => toNumber(c.sentiment_score))
+    .filter((s): s is number => s !== null);
+  const averageSentiment = average(sentimentScores);
+
+  // Medication: taken only on a confirmed dose or the senior saying so, not
+  // because medication came up in conversation
+  const medicationMissed =
+    alerts.some((a) => a.alert_type === "medication_missed") ||
+    medicationDoses.some((dose) => dose.status === "missed");
+  const medicationConfirmed =
+    medicationDoses.some((dose) => dose.status === "taken") ||
+    voiceCheckIns.some((v) => isMedicationConfirmation(v.transcript));
+  const medicationTaken = medicationMissed ? false : medicationConfirmed ? true : null;
+
+  // Health metrics
+  const metricsOfType = (type: string) => healthMetrics.filter((m) => m.metric_type === type);
+
+  const heartRates = metricsOfType("heart_rate")
+    .map((m) => toNumber(m.value_numeric))
+    .filter((v): v is number => v !== null);
+  const avgHeartRate = average(heartRates);
+
+  const systolic: number[] = [];
+  const diastolic: number[] = [];
+  for (const reading of metricsOfType("blood_pressure")) {
+    const sys = toNumber(reading.value_json?.systolic);
+    const dia = toNumber(reading.value_json?.diastolic);
+    if (sys !== null) systolic.push(sys);
+    if (dia !== null) diastolic.push(dia);
+  }
+  const avgSystolic = average(systolic);
+  const avgDiastolic = average(diastolic);
+
+  const totalSteps = totalStepsForDay(healthMetrics);
+
+  let sleepMinutes: number | null = null;
+  let sleepScore: number | null = null;
+  for (const session of metricsOfType("sleep_session")) {
+    const minutes = toNumber(session.value_json?.duration_minutes) ?? toNumber(session.value_numeric);
+    if (minutes !== null) sleepMinutes = (sleepMinutes || 0) + minutes;
+    const score = toNumber(session.value_json?.sleep_score);
+    if (score !== null) sleepScore = score;
+  }
+  const sleepHours = sleepMinutes !== null ? Math.round((sleepMinutes / 60) * 100) / 100 : null;
+  const sleepQuality = rateSleep(sleepHours, sleepScore);
+
+  const anomalies = healthMetrics.filter((m) => m.is_anomaly);
+
+  // Movement
+  const motionDetected = motionEvents.some((e) => e.detection_state === "DETECTED");
+  const activityReported = motionDetected || (totalSteps !== null && totalSteps > 0);
+
+  // Alerts
+  const alertTypes = [...new Set(alerts.map((a) => a.alert_type))];
+  const seriousAlerts = alerts.filter((a) => a.severity === "high" || a.severity === "critical");
+  const openAlerts = alerts.filter((a) => a.status === "active" && !a.resolved_at);
+  const safetyConcerns = checkIns.filter((c) => c.safety_concern_detected);
+
+  // Highlights
+  if (checkInCount > 0) {
+    highlights.push(`${checkInCount} check-in${checkInCount === 1 ? "" : "s"} with Parra`);
+  }
+  if (overallMood === "happy") highlights.push("In good spirits");
+  if (medicationTaken === true) highlights.push("Medication taken");
+  if (totalSteps !== null && totalSteps >= 5000) {
+    highlights.push(`${Math.round(totalSteps).toLocaleString("en-US")} steps`);
+  }
+  if (sleepQuality === "good") highlights.push("Slept well");
+  if (alerts.length === 0) highlights.push("No alerts");
+
+  // Concerns
+  if (checkInCount === 0) concerns.push("No check-ins today");
+  if (overallMood && (NEGATIVE_MOODS.has(overallMood) || overallMood === "mixed")) {
+    concerns.push(`Mood was ${overallMood}`);
+  }
+  if (medicationMissed) concerns.push("Medication missed");
+  if (sleepQuality === "poor") concerns.push("Poor sleep");
+  if (totalSteps !== null && totalSteps < 2000) concerns.push("Low step count");
+  for (const anomaly of anomalies) {
+    if (anomaly.anomaly_reason && !concerns.includes(anomaly.anomaly_reason)) {
+      concerns.push(anomaly.anomaly_reason);
+    }
+  }
+  for (const checkIn of safetyConcerns) {
+    const label = `Safety concern raised in conversation${checkIn.safety_concern_type ? ` (${checkIn.safety_concern_type})` : ""}`;
+    if (!concerns.includes(label)) concerns.push(label);
+  }
+  if (openAlerts.length > 0) {
+    concerns.push(`${openAlerts.length} unresolved alert${openAlerts.length === 1 ? "" : "s"}`);
+  }
+
+  // Overall status
+  let overallStatus: SummaryStatus = "ok";
+  let statusReason: string | null = null;
+
+  if (seriousAlerts.length > 0 || safetyConcerns.length > 0) {
+    overallStatus = "alert";
+    statusReason = seriousAlerts.length > 0
+      ? `${seriousAlerts.length} high-priority alert${seriousAlerts.length === 1 ? "" : "s"}`
+      : "Safety concern raised in conversation";
+  } else if (alerts.length > 0 || anomalies.length > 0 || medicationMissed ||
+      (overallMood !== null && NEGATIVE_MOODS.has(overallMood))) {
+    overallStatus = "warning";
+    statusReason = concerns[0] || "Needs attention";
+  }
+
+  // Summary text
+  const sentences: string[] = [];
+  sentences.push(
+    checkInCount > 0
+      ? `${patientName} checked in ${checkInCount} time${checkInCount === 1 ? "" : "s"}${overallMood ? ` and seemed ${overallMood}` : ""}.`
+      : `${patientName} did not check in with Parra.`
+  );
+  if (totalSteps !== null) {
+    sentences.push(`Steps: ${Math.round(totalSteps).toLocaleString("en-US")}.`);
+  }
+  if (sleepHours !== null) {
+    sentences.push(`Sleep: ${sleepHours.toFixed(1)} hours (${sleepQuality}).`);
+  }
+  if (avgSystolic !== null && avgDiastolic !== null) {
+    sentences.push(`Blood pressure: ${Math.round(avgSystolic)}/${Math.round(avgDiastolic)} mmHg.`);
+  }
+  if (avgHeartRate !== null) {
+    sentences.push(`Average heart rate: ${Math.round(avgHeartRate)} bpm.`);
+  }
+  if (alerts.length > 0) {
+    sentences.push(`${alerts.length} alert${alerts.length === 1 ? " was" : "s were"} raised.`);
+  }
+
+  return {
+    patient_id: patient.id,
+    summary_date: summaryDate,
+    check_in_count: checkInCount,
+    total_conversation_minutes: Math.round(conversationSeconds / 60),
+    overall_mood: overallMood,
+    average_sentiment_score: averageSentiment !== null ? Math.round(averageSentiment * 100) / 100 : null,
+    medication_taken: medicationTaken,
+    activity_reported: activityReported,
+    sleep_quality: sleepQuality,
+    overall_status: overallStatus,
+    status_reason: statusReason,
+    summary_text: sentences.join(" "),
+    highlights,
+    concerns,
+    alerts_triggered: alerts.length,
+    alert_types: alertTypes.length > 0 ? alertTypes : null,
+    health_metrics_synced: healthMetrics.length > 0,
+    health_metrics_count: healthMetrics.length,
+    avg_heart_rate: avgHeartRate !== null ? Math.round(avgHeartRate) : null,
+    avg_systolic_bp: avgSystolic !== null ? Math.round(avgSystolic) : null,
+    avg_diastolic_bp: avgDiastolic !== null ? Math.round(avgDiastolic) : null,
+    total_steps: totalSteps !== null ? Math.round(totalSteps) : null,
+    sleep_hours: sleepHours,
+  };
+}
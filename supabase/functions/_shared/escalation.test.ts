@@ -0,0 +1,118 @@
+/**
+ * Alert Escalation Ladder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildEscalationPlan,
+  DEFAULT_ESCALATION_LADDER,
+  getNextEscalationAt,
+  getNextEscalationStep,
+  getReachableChannels,
+  isEscalationStopped,
+  type AlertRecipient,
+} from './escalation';
+
+const PRIMARY: AlertRecipient = {
+  id: 'caregiver-1',
+  name: 'Anna',
+  relationship_type: 'primary_caregiver',
+  email: 'anna@example.com',
+  phone: '+491701234567',
+};
+
+const FAMILY: AlertRecipient = {
+  id: 'caregiver-2',
+  name: 'Ben',
+  relationship_type: 'family_member',
+  email: 'ben@example.com',
+  phone: null,
+};
+
+const FAMILY_UNREACHABLE: AlertRecipient = {
+  id: 'caregiver-3',
+  name: 'Clara',
+  relationship_type: 'family_member',
+  email: null,
+  phone: null,
+};
+
+describe('getReachableChannels', () => {
+  it('should need an email address for email and a phone number otherwise', () => {
+    expect(getReachableChannels(['email', 'whatsapp', 'sms'], { email: 'a@example.com', phone: null })).toEqual([
+      'email',
+    ]);
+    expect(getReachableChannels(['email', 'whatsapp', 'sms'], { email: null, phone: '+49170' })).toEqual([
+      'whatsapp',
+      'sms',
+    ]);
+  });
+});
+
+describe('buildEscalationPlan', () => {
+  it('should resolve each step to the people it contacts', () => {
+    const plan = buildEscalationPlan(DEFAULT_ESCALATION_LADDER, [FAMILY, PRIMARY, FAMILY_UNREACHABLE], {
+      name: 'Neighbour',
+      phone: '+491709999999',
+    });
+
+    expect(plan.map((step) => step.step_order)).toEqual([1, 2, 3]);
+    expect(plan[0].contacts).toEqual([
+      {
+        recipient_id: 'caregiver-1',
+        name: 'Anna',
+        email: 'anna@example.com',
+        phone: '+491701234567',
+        channels: ['email', 'whatsapp'],
+      },
+    ]);
+    // Clara has no email or phone, so only Ben is contacted
+    expect(plan[1].contacts.map((contact) => contact.name)).toEqual(['Ben']);
+    expect(plan[2].contacts).toEqual([
+      { recipient_id: null, name: 'Neighbour', email: null, phone: '+491709999999', channels: ['whatsapp', 'sms'] },
+    ]);
+  });
+
+  it('should skip steps nobody can be reached for', () => {
+    const plan = buildEscalationPlan(DEFAULT_ESCALATION_LADDER, [FAMILY], { name: null, phone: null });
+
+    expect(plan.map((step) => step.step_order)).toEqual([2]);
+  });
+
+  it('should order steps by step_order', () => {
+    const plan = buildEscalationPlan([...DEFAULT_ESCALATION_LADDER].reverse(), [PRIMARY, FAMILY], null);
+
+    expect(plan.map((step) => step.target)).toEqual(['primary_caregiver', 'family_member']);
+  });
+});
+
+describe('escalation timing', () => {
+  const plan = buildEscalationPlan(DEFAULT_ESCALATION_LADDER, [PRIMARY, FAMILY], {
+    name: 'Neighbour',
+    phone: '+491709999999',
+  });
+  const contactedAt = new Date('2025-11-03T10:00:00Z');
+
+  it('should move to the next step after the one last contacted', () => {
+    expect(getNextEscalationStep(plan, 0)?.step_order).toBe(1);
+    expect(getNextEscalationStep(plan, 1)?.step_order).toBe(2);
+    expect(getNextEscalationStep(plan, 3)).toBeNull();
+  });
+
+  it("should wait the next step's wait_minutes after contacting a step", () => {
+    expect(getNextEscalationAt(plan, plan[0], contactedAt)).toEqual(new Date('2025-11-03T10:10:00Z'));
+    expect(getNextEscalationAt(plan, plan[1], contactedAt)).toEqual(new Date('2025-11-03T10:15:00Z'));
+    expect(getNextEscalationAt(plan, plan[2], contactedAt)).toBeNull();
+  });
+});
+
+describe('isEscalationStopped', () => {
+  it('should stop once the alert is acknowledged, resolved or a false alarm', () => {
+    expect(isEscalationStopped({ status: 'active', acknowledged_at: null, resolved_at: null })).toBe(false);
+    expect(isEscalationStopped({ status: 'acknowledged', acknowledged_at: '2025-11-03T10:05:00Z' })).toBe(true);
+    expect(isEscalationStopped({ status: 'active', acknowledged_at: null, resolved_at: '2025-11-03T10:05:00Z' })).toBe(
+      true
+    );
+    expect(isEscalationStopped({ status: 'false_alarm', acknowledged_at: null })).toBe(true);
+  });
+});
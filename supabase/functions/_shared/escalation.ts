@@ -0,0 +1,135 @@
+/**
+ * Alert Escalation Ladder
+ *
+ * Who is contacted about an alert, in what order and over which channels
+ * (escalation_steps). The first step is contacted as soon as the alert is
+ * raised; each later step waits its wait_minutes after the previous one
+ * and only goes out while nobody has acknowledged the alert. Steps with
+ * nobody to contact (no family members, no emergency contact number) are
+ * skipped.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/escalation
+ */
+
+export type EscalationTarget =
+  | "primary_caregiver"
+  | "family_member"
+  | "healthcare_provider"
+  | "friend"
+  | "other"
+  | "emergency_contact";
+
+export type EscalationChannel = "email" | "whatsapp" | "sms";
+
+export interface EscalationStep {
+  step_order: number;
+  target: EscalationTarget;
+  wait_minutes: number;
+  channels: EscalationChannel[];
+}
+
+/** A caregiver allowed to receive the patient's alerts */
+export interface AlertRecipient {
+  id: string;
+  name: string;
+  relationship_type: string;
+  email: string | null;
+  phone: string | null;
+}
+
+export interface EmergencyContact {
+  name: string | null;
+  phone: string | null;
+}
+
+export interface EscalationContact {
+  recipient_id: string | null;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  /** The step's channels this contact can actually be reached on */
+  channels: EscalationChannel[];
+}
+
+export interface PlannedStep extends EscalationStep {
+  contacts: EscalationContact[];
+}
+
+/** Used for patients who have not set up their own ladder */
+export const DEFAULT_ESCALATION_LADDER: EscalationStep[] = [
+  { step_order: 1, target: "primary_caregiver", wait_minutes: 0, channels: ["email", "whatsapp"] },
+  { step_order: 2, target: "family_member", wait_minutes: 10, channels: ["email", "whatsapp"] },
+  { step_order: 3, target: "emergency_contact", wait_minutes: 15, channels: ["whatsapp", "sms"] },
+];
+
+/**
+ * Channels a contact can be reached on: email needs an address, WhatsApp
+ * and SMS a phone number
+ */
+export function getReachableChannels(
+  channels: EscalationChannel[],
+  contact: { email: string | null; phone: string | null }
+): EscalationChannel[] {
+  return channels.filter((channel) => (channel === "email" ? !!contact.email : !!contact.phone));
+}
+
+/**
+ * Resolve each step of the ladder to the people it contacts, in step
+ * order. Steps nobody can be reached for are left out.
+ */
+export function buildEscalationPlan(
+  ladder: EscalationStep[],
+  recipients: AlertRecipient[],
+  emergencyContact: EmergencyContact | null
+): PlannedStep[] {
+  return [...ladder]
+    .sort((a, b) => a.step_order - b.step_order)
+    .map((step) => {
+      const candidates: Omit<EscalationContact, "channels">[] =
+        step.target === "emergency_contact"
+          ? emergencyContact?.phone
+            ? [{ recipient_id: null, name: emergencyContact.name || "Emergency contact", email: null, phone: emergencyContact.phone }]
+            : []
+          : recipients
+              .filter((recipient) => recipient.relationship_type === step.target)
+              .map(({ id, name, email, phone }) => ({ recipient_id: id, name, email, phone }));
+
+      const contacts = candidates
+        .map((contact) => ({ ...contact, channels: getReachableChannels(step.channels, contact) }))
+        .filter((contact) => contact.channels.length > 0);
+
+      return { ...step, contacts };
+    })
+    .filter((step) => step.contacts.length > 0);
+}
+
+/**
+ * The step after the one last contacted (0 before anyone was contacted)
+ */
+export function getNextEscalationStep(plan: PlannedStep[], lastStepOrder: number): PlannedStep | null {
+  return plan.find((step) => step.step_order > lastStepOrder) ?? null;
+}
+
+/**
+ * When the step after `step` is due, or null if `step` is the last one
+ */
+export function getNextEscalationAt(plan: PlannedStep[], step: PlannedStep, contactedAt: Date): Date | null {
+  const following = getNextEscalationStep(plan, step.step_order);
+  if (!following) return null;
+  return new Date(contactedAt.getTime() + following.wait_minutes * 60000);
+}
+
+/**
+ * Whether the ladder should stop: someone acknowledged or resolved the
+ * alert, or it was marked a false alarm
+ */
+export function isEscalationStopped(alert: {
+  status: string;
+  acknowledged_at: string | null;
+  resolved_at?: string | null;
+}): boolean {
+  return alert.status !== "active" || !!alert.acknowledged_at || !!alert.resolved_at;
+}
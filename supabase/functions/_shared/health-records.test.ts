@@ -0,0 +1,132 @@
+/**
+ * Health Record Validation Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { summarizeSync, validateHealthRecord, type RecordResult } from './health-records';
+
+const NOW = new Date('2025-10-27T12:00:00Z');
+
+function record(overrides: Record<string, unknown> = {}) {
+  return {
+    metricType: 'heart_rate',
+    recordedAt: '2025-10-27T08:00:00Z',
+    healthConnectId: 'hc-1',
+    value: 72,
+    ...overrides,
+  };
+}
+
+describe('validateHealthRecord', () => {
+  it('should accept a numeric reading in the canonical unit', () => {
+    const result = validateHealthRecord(record({ unit: 'bpm', dataSource: 'Samsung Health' }), NOW);
+    expect(result).toEqual({
+      ok: true,
+      row: expect.objectContaining({
+        metric_type: 'heart_rate',
+        recorded_at: '2025-10-27T08:00:00.000Z',
+        health_connect_id: 'hc-1',
+        value_numeric: 72,
+        value_json: null,
+        unit: 'bpm',
+        data_source: 'Samsung Health',
+      }),
+    });
+  });
+
+  it('should convert accepted units to the canonical unit', () => {
+    expect(validateHealthRecord(record({ metricType: 'weight', value: 150, unit: 'lb' }), NOW)).toMatchObject({
+      ok: true,
+      row: { value_numeric: 68.04, unit: 'kg' },
+    });
+    expect(validateHealthRecord(record({ metricType: 'body_temperature', value: 98.6, unit: '°F' }), NOW)).toMatchObject({
+      ok: true,
+      row: { value_numeric: 37, unit: '°C' },
+    });
+    expect(validateHealthRecord(record({ metricType: 'blood_glucose', value: 5.5, unit: 'mmol/L' }), NOW)).toMatchObject({
+      ok: true,
+      row: { value_numeric: 99.09, unit: 'mg/dL' },
+    });
+  });
+
+  it('should reject unknown metric types and units', () => {
+    expect(validateHealthRecord(record({ metricType: 'mood' }), NOW)).toEqual({
+      ok: false,
+      error: 'Unknown metricType: mood',
+    });
+    expect(validateHealthRecord(record({ unit: 'Hz' }), NOW)).toEqual({
+      ok: false,
+      error: 'Unsupported unit for heart_rate: Hz',
+    });
+  });
+
+  it('should reject implausible values', () => {
+    expect(validateHealthRecord(record({ value: 400 }), NOW)).toMatchObject({ ok: false });
+    expect(validateHealthRecord(record({ metricType: 'oxygen_saturation', value: 101, unit: '%' }), NOW)).toMatchObject({
+      ok: false,
+    });
+  });
+
+  it('should require an id, a timestamp that is not in the future, and a value', () => {
+    expect(validateHealthRecord(record({ healthConnectId: ' ' }), NOW)).toEqual({
+      ok: false,
+      error: 'healthConnectId is required',
+    });
+    expect(validateHealthRecord(record({ recordedAt: 'yesterday' }), NOW)).toMatchObject({ ok: false });
+    expect(validateHealthRecord(record({ recordedAt: '2025-10-28T08:00:00Z' }), NOW)).toEqual({
+      ok: false,
+      error: 'recordedAt is in the future',
+    });
+    expect(validateHealthRecord(record({ value: '72' }), NOW)).toEqual({
+      ok: false,
+      error: 'heart_rate requires a numeric value',
+    });
+    expect(validateHealthRecord(null, NOW)).toEqual({ ok: false, error: 'Record must be an object' });
+  });
+
+  it('should validate blood pressure stored in valueJson', () => {
+    const bp = record({ metricType: 'blood_pressure', value: undefined, valueJson: { systolic: 128, diastolic: 82 } });
+    expect(validateHealthRecord(bp, NOW)).toMatchObject({
+      ok: true,
+      row: { value_numeric: null, value_json: { systolic: 128, diastolic: 82 }, unit: 'mmHg' },
+    });
+
+    expect(validateHealthRecord({ ...bp, valueJson: { systolic: 128 } }, NOW)).toMatchObject({ ok: false });
+    expect(validateHealthRecord({ ...bp, valueJson: { systolic: 80, diastolic: 120 } }, NOW)).toMatchObject({
+      ok: false,
+    });
+    expect(validateHealthRecord({ ...bp, unit: 'kPa' }, NOW)).toMatchObject({ ok: false });
+  });
+
+  it('should require a sleep duration in minutes', () => {
+    const sleep = record({ metricType: 'sleep_session', valueJson: { duration_minutes: 420, stages: [] } });
+    expect(validateHealthRecord(sleep, NOW)).toMatchObject({ ok: true, row: { unit: 'minutes' } });
+    expect(validateHealthRecord({ ...sleep, valueJson: { stages: [] } }, NOW)).toMatchObject({ ok: false });
+  });
+
+  it('should reject invalid recording methods', () => {
+    expect(validateHealthRecord(record({ recordingMethod: 'guessed' }), NOW)).toMatchObject({ ok: false });
+    expect(validateHealthRecord(record({ recordingMethod: 'manual' }), NOW)).toMatchObject({
+      ok: true,
+      row: { recording_method: 'manual' },
+    });
+  });
+});
+
+describe('summarizeSync', () => {
+  const result = (status: RecordResult['status']): RecordResult => ({ index: 0, healthConnectId: null, status });
+
+  it('should report success when nothing was rejected', () => {
+    expect(summarizeSync([result('accepted'), result('duplicate')])).toBe('success');
+    expect(summarizeSync([])).toBe('success');
+  });
+
+  it('should report partial when some records were rejected', () => {
+    expect(summarizeSync([result('accepted'), result('rejected')])).toBe('partial');
+    expect(summarizeSync([result('duplicate'), result('rejected')])).toBe('partial');
+  });
+
+  it('should report failed when every record was rejected', () => {
+    expect(summarizeSync([result('rejected'), result('rejected')])).toBe('failed');
+  });
+});
@@ -0,0 +1,281 @@
+/**
+ * Health Records
+ *
+ * Validation and normalization for health metric records posted to the
+ * health-sync Edge Function by the phone app (Health Connect) or by data
+ * importers. Each record is checked on its own so a batch can be partly
+ * accepted; values are converted to the unit the dashboard and anomaly
+ * thresholds expect (e.g. lb -> kg, mmol/L -> mg/dL).
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/health-records
+ */
+
+export const HEALTH_METRIC_TYPES = [
+  "heart_rate", "blood_pressure", "blood_glucose", "oxygen_saturation",
+  "steps", "distance", "floors_climbed", "active_calories", "total_calories",
+  "weight", "height", "body_temperature", "respiratory_rate",
+  "sleep_session", "sleep_stage", "heart_rate_variability",
+  "hydration", "nutrition", "exercise_session",
+  "resting_heart_rate", "vo2_max",
+] as const;
+
+export type HealthMetricType = (typeof HEALTH_METRIC_TYPES)[number];
+
+/** Maximum records accepted in one request */
+export const MAX_RECORDS_PER_SYNC = 500;
+
+/** Readings further in the future than this are rejected (clock skew allowance) */
+const MAX_FUTURE_SKEW_MS = 10 * 60 * 1000;
+
+interface UnitRule {
+  /** Unit stored in health_metrics */
+  canonical: string;
+  /** Accepted units and their conversion to the canonical unit */
+  accepted: Record<string, (value: number) => number>;
+  /** Plausible range in the canonical unit */
+  min: number;
+  max: number;
+}
+
+const same = (value: number) => value;
+
+const UNIT_RULES: Partial<Record<HealthMetricType, UnitRule>> = {
+  heart_rate: { canonical: "bpm", accepted: { bpm: same }, min: 20, max: 250 },
+  resting_heart_rate: { canonical: "bpm", accepted: { bpm: same }, min: 20, max: 200 },
+  heart_rate_variability: { canonical: "ms", accepted: { ms: same }, min: 0, max: 500 },
+  blood_glucose: {
+    canonical: "mg/dL",
+    accepted: { "mg/dL": same, "mmol/L": (v) => v * 18.016 },
+    min: 10,
+    max: 1000,
+  },
+  oxygen_saturation: { canonical: "%", accepted: { "%": same }, min: 50, max: 100 },
+  steps: { canonical: "steps", accepted: { steps: same, count: same }, min: 0, max: 100000 },
+  distance: { canonical: "m", accepted: { m: same, km: (v) => v * 1000, mi: (v) => v * 1609.344 }, min: 0, max: 200000 },
+  floors_climbed: { canonical: "floors", accepted: { floors: same, count: same }, min: 0, max: 1000 },
+  active_calories: { canonical: "kcal", accepted: { kcal: same, kJ: (v) => v / 4.184 }, min: 0, max: 20000 },
+  total_calories: { canonical: "kcal", accepted: { kcal: same, kJ: (v) => v / 4.184 }, min: 0, max: 20000 },
+  weight: { canonical: "kg", accepted: { kg: same, lb: (v) => v * 0.45359237 }, min: 20, max: 350 },
+  height: { canonical: "cm", accepted: { cm: same, m: (v) => v * 100, in: (v) => v * 2.54 }, min: 50, max: 250 },
+  body_temperature: {
+    canonical: "°C",
+    accepted: { "°C": same, C: same, "°F": (v) => ((v - 32) * 5) / 9, F: (v) => ((v - 32) * 5) / 9 },
+    min: 30,
+    max: 45,
+  },
+  respiratory_rate: { canonical: "breaths/min", accepted: { "breaths/min": same, rpm: same }, min: 4, max: 60 },
+  hydration: { canonical: "mL", accepted: { mL: same, L: (v) => v * 1000 }, min: 0, max: 10000 },
+  vo2_max: { canonical: "mL/kg/min", accepted: { "mL/kg/min": same }, min: 5, max: 100 },
+};
+
+/** Metrics whose value is structured and stored in value_json */
+const JSON_METRICS: HealthMetricType[] = [
+  "blood_pressure", "sleep_session", "sleep_stage", "nutrition", "exercise_session",
+];
+
+/**
+ * Record as posted by a client (camelCase)
+ */
+export interface HealthRecordInput {
+  metricType: string;
+  recordedAt: string;
+  /** Stable identifier from the source, used to skip records already synced */
+  healthConnectId: string;
+  value?: number;
+  valueJson?: Record<string, unknown>;
+  unit?: string;
+  dataSource?: string;
+  recordingMethod?: "automatic" | "manual";
+  deviceInfo?: Record<string, unknown>;
+  syncedFromDeviceAt?: string;
+  measurementContext?: string;
+  bodyPosition?: string;
+  measurementLocation?: string;
+}
+
+/**
+ * Row ready to insert into health_metrics (without patient_id)
+ */
+export interface HealthMetricRow {
+  metric_type: HealthMetricType;
+  recorded_at: string;
+  health_connect_id: string;
+  value_numeric: number | null;
+  value_json: Record<string, unknown> | null;
+  unit: string | null;
+  data_source: string | null;
+  recording_method: "automatic" | "manual" | null;
+  device_info: Record<string, unknown> | null;
+  synced_from_device_at: string | null;
+  measurement_context: string | null;
+  body_position: string | null;
+  measurement_location: string | null;
+}
+
+export type HealthRecordValidation =
+  | { ok: true; row: HealthMetricRow }
+  | { ok: false; error: string };
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown, max = 200): string | null {
+  return typeof value === "string" && value.trim() ? value.trim().slice(0, max) : null;
+}
+
+function parseTimestamp(value: unknown): Date | null {
+  if (typeof value !== "string") return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function validateBloodPressure(json: Record<string, unknown>): string | null {
+  const { systolic, diastolic } = json;
+  if (typeof systolic !== "number" || typeof diastolic !== "number") {
+    return "blood_pressure requires numeric systolic and diastolic";
+  }
+  if (systolic < 50 || systolic > 300 || diastolic < 20 || diastolic > 200) {
+    return "blood_pressure is outside the plausible range";
+  }
+  if (diastolic >= systolic) {
+    return "blood_pressure diastolic must be lower than systolic";
+  }
+  return null;
+}
+
+/**
+ * Validate and normalize one posted record
+ */
+export function validateHealthRecord(raw: unknown, now: Date = new Date()): HealthRecordValidation {
+  if (!isObject(raw)) {
+    return { ok: false, error: "Record must be an object" };
+  }
+
+  const metricType = raw.metricType;
+  if (typeof metricType !== "string" || !HEALTH_METRIC_TYPES.includes(metricType as HealthMetricType)) {
+    return { ok: false, error: `Unknown metricType: ${String(metricType)}` };
+  }
+  const type = metricType as HealthMetricType;
+
+  const healthConnectId = optionalString(raw.healthConnectId);
+  if (!healthConnectId) {
+    return { ok: false, error: "healthConnectId is required" };
+  }
+
+  const recordedAt = parseTimestamp(raw.recordedAt);
+  if (!recordedAt) {
+    return { ok: false, error: "recordedAt must be an ISO timestamp" };
+  }
+  if (recordedAt.getTime() - now.getTime() > MAX_FUTURE_SKEW_MS) {
+    return { ok: false, error: "recordedAt is in the future" };
+  }
+
+  const recordingMethod = raw.recordingMethod;
+  if (recordingMethod !== undefined && recordingMethod !== "automatic" && recordingMethod !== "manual") {
+    return { ok: false, error: "recordingMethod must be automatic or manual" };
+  }
+
+  const syncedFromDeviceAt = raw.syncedFromDeviceAt === undefined ? null : parseTimestamp(raw.syncedFromDeviceAt);
+  if (raw.syncedFromDeviceAt !== undefined && !syncedFromDeviceAt) {
+    return { ok: false, error: "syncedFromDeviceAt must be an ISO timestamp" };
+  }
+
+  let valueNumeric: number | null = null;
+  let valueJson: Record<string, unknown> | null = null;
+  let unit = optionalString(raw.unit, 20);
+
+  if (JSON_METRICS.includes(type)) {
+    if (!isObject(raw.valueJson)) {
+      return { ok: false, error: `${type} requires valueJson` };
+    }
+    valueJson = raw.valueJson;
+
+    if (type === "blood_pressure") {
+      const error = validateBloodPressure(valueJson);
+      if (error) return { ok: false, error };
+      if (unit && unit !== "mmHg") {
+        return { ok: false, error: `Unsupported unit for blood_pressure: ${unit}` };
+      }
+      unit = "mmHg";
+    }
+
+    if (type === "sleep_session") {
+      const minutes = valueJson.duration_minutes;
+      if (typeof minutes !== "number" || minutes <= 0 || minutes > 24 * 60) {
+        return { ok: false, error: "sleep_session requires duration_minutes between 1 and 1440" };
+      }
+      unit = "minutes";
+    }
+  } else {
+    const value = raw.value;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      return { ok: false, error: `${type} requires a numeric value` };
+    }
+
+    const rule = UNIT_RULES[type];
+    if (rule) {
+      const sourceUnit = unit ?? rule.canonical;
+      const convert = rule.accepted[sourceUnit];
+      if (!convert) {
+        return { ok: false, error: `Unsupported unit for ${type}: ${sourceUnit}` };
+      }
+
+      valueNumeric = round(convert(value));
+      if (valueNumeric < rule.min || valueNumeric > rule.max) {
+        return { ok: false, error: `${type} value ${valueNumeric} ${rule.canonical} is outside the plausible range` };
+      }
+      unit = rule.canonical;
+    } else {
+      valueNumeric = round(value);
+    }
+  }
+
+  return {
+    ok: true,
+    row: {
+      metric_type: type,
+      recorded_at: recordedAt.toISOString(),
+      health_connect_id: healthConnectId,
+      value_numeric: valueNumeric,
+      value_json: valueJson,
+      unit,
+      data_source: optionalString(raw.dataSource, 100),
+      recording_method: recordingMethod ?? null,
+      device_info: isObject(raw.deviceInfo) ? raw.deviceInfo : null,
+      synced_from_device_at: syncedFromDeviceAt ? syncedFromDeviceAt.toISOString() : null,
+      measurement_context: optionalString(raw.measurementContext, 50),
+      body_position: optionalString(raw.bodyPosition, 50),
+      measurement_location: optionalString(raw.measurementLocation, 50),
+    },
+  };
+}
+
+export type RecordResultStatus = "accepted" | "duplicate" | "rejected";
+
+export interface RecordResult {
+  index: number;
+  healthConnectId: string | null;
+  status: RecordResultStatus;
+  id?: string;
+  error?: string;
+}
+
+export type SyncOutcome = "success" | "partial" | "failed";
+
+/**
+ * Overall sync status for health_sync_status.last_sync_status.
+ * Duplicates count as synced: the data is already on the server.
+ */
+export function summarizeSync(results: RecordResult[]): SyncOutcome {
+  const rejected = results.filter((r) => r.status === "rejected").length;
+  if (rejected === 0) return "success";
+  return rejected < results.length ? "partial" : "failed";
+}
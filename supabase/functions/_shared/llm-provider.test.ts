@@ -0,0 +1,215 @@
+/**
+ * LLM Provider Tests
+ *
+ * Providers are exercised with a recording fetch, so nothing leaves the
+ * machine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createAzureOpenAIProvider,
+  createLLMProviderFromEnv,
+  createLocalProvider,
+  createMockProvider,
+  createOpenAIProvider,
+  encodeCompletionStream,
+} from './llm-provider';
+import { accumulateToolCallDeltas, type ToolCall, type ToolCallDelta } from './chat-tools';
+
+interface RecordedRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+const recordingFetch = (reply: unknown) => {
+  const requests: RecordedRequest[] = [];
+  const fetchFn = (async (input: RequestInfo | URL, init?: RequestInit) => {
+    requests.push({
+      url: String(input),
+      headers: (init?.headers ?? {}) as Record<string, string>,
+      body: typeof init?.body === 'string' ? JSON.parse(init.body) : init?.body,
+    });
+    return new Response(JSON.stringify(reply), { headers: { 'Content-Type': 'application/json' } });
+  }) as typeof fetch;
+
+  return { requests, fetchFn };
+};
+
+const env = (values: Record<string, string>) => (name: string) => values[name];
+
+/**
+ * Rebuild the content and tool calls from OpenAI-style server-sent events
+ */
+const readStream = (events: string) => {
+  let content = '';
+  const toolCalls: ToolCall[] = [];
+
+  for (const line of events.split('\n')) {
+    if (!line.startsWith('data: ') || line === 'data: [DONE]') continue;
+    const delta = JSON.parse(line.slice(6)).choices[0].delta;
+    if (delta.content) content += delta.content;
+    if (delta.tool_calls) accumulateToolCallDeltas(toolCalls, delta.tool_calls as ToolCallDelta[]);
+  }
+
+  return { content, toolCalls };
+};
+
+describe('createLLMProviderFromEnv', () => {
+  it('should default to OpenAI and require its API key', () => {
+    expect(createLLMProviderFromEnv(env({ OPENAI_API_KEY: 'sk-test' })).type).toBe('openai');
+    expect(() => createLLMProviderFromEnv(env({}))).toThrow('OPENAI_API_KEY not configured');
+  });
+
+  it('should let a function override the provider and models for itself', () => {
+    const getEnv = env({
+      LLM_PROVIDER: 'openai',
+      OPENAI_API_KEY: 'sk-test',
+      LLM_CHAT_MODEL: 'gpt-4o',
+      VOICE_CHAT_LLM_PROVIDER: 'mock',
+      VOICE_CHAT_LLM_SPEECH_VOICE: 'alloy',
+    });
+
+    const voiceChat = createLLMProviderFromEnv(getEnv, { scope: 'VOICE_CHAT', defaults: { chat: 'gpt-4' } });
+    const seniorChat = createLLMProviderFromEnv(getEnv, { scope: 'SENIOR_CHAT' });
+
+    expect(voiceChat.type).toBe('mock');
+    expect(voiceChat.models.chat).toBe('gpt-4o');
+    expect(voiceChat.models.voice).toBe('alloy');
+    expect(seniorChat.type).toBe('openai');
+    expect(seniorChat.models.voice).toBe('nova');
+  });
+
+  it("should use the function's default models unless configured", () => {
+    const openai = createLLMProviderFromEnv(env({ OPENAI_API_KEY: 'sk-test' }), { defaults: { chat: 'gpt-4' } });
+    const local = createLLMProviderFromEnv(env({ LLM_PROVIDER: 'local', LOCAL_LLM_BASE_URL: 'http://localhost:11434/v1' }), {
+      defaults: { chat: 'gpt-4' },
+    });
+
+    expect(openai.models.chat).toBe('gpt-4');
+    expect(local.models.chat).toBe('llama3.1');
+  });
+
+  it('should reject unknown providers and missing Azure settings', () => {
+    expect(() => createLLMProviderFromEnv(env({ LLM_PROVIDER: 'acme' }))).toThrow('Unknown LLM_PROVIDER');
+    expect(() => createLLMProviderFromEnv(env({ LLM_PROVIDER: 'azure', AZURE_OPENAI_API_KEY: 'key' }))).toThrow(
+      'AZURE_OPENAI_ENDPOINT not configured'
+    );
+  });
+});
+
+describe('OpenAI-compatible providers', () => {
+  const completion = {
+    choices: [
+      {
+        message: {
+          content: 'Hello Margaret',
+          tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'record_commitment', arguments: '{}' } }],
+        },
+      },
+    ],
+  };
+
+  it('should send OpenAI chat requests and read the reply and tool calls', async () => {
+    const { requests, fetchFn } = recordingFetch(completion);
+    const llm = createOpenAIProvider({ apiKey: 'sk-test', fetch: fetchFn });
+
+    const result = await llm.chat({
+      messages: [{ role: 'user', content: 'Hi' }],
+      temperature: 0.7,
+      maxTokens: 150,
+      tools: [{ type: 'function' }],
+      toolChoice: 'auto',
+    });
+
+    expect(result).toEqual({
+      content: 'Hello Margaret',
+      toolCalls: [{ id: 'call_1', name: 'record_commitment', arguments: '{}' }],
+    });
+    expect(requests[0].url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(requests[0].headers.Authorization).toBe('Bearer sk-test');
+    expect(requests[0].body).toMatchObject({
+      model: 'gpt-4o-mini',
+      stream: false,
+      temperature: 0.7,
+      max_tokens: 150,
+      tool_choice: 'auto',
+    });
+  });
+
+  it('should send Azure requests to the deployment with an api-key header', async () => {
+    const { requests, fetchFn } = recordingFetch(completion);
+    const llm = createAzureOpenAIProvider({
+      endpoint: 'https://parra.openai.azure.com/',
+      apiKey: 'azure-key',
+      models: { chat: 'parra-chat' },
+      fetch: fetchFn,
+    });
+
+    await llm.chat({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(requests[0].url).toBe(
+      'https://parra.openai.azure.com/openai/deployments/parra-chat/chat/completions?api-version=2024-06-01'
+    );
+    expect(requests[0].headers['api-key']).toBe('azure-key');
+    expect(requests[0].headers.Authorization).toBeUndefined();
+  });
+
+  it('should call a local server without an API key', async () => {
+    const { requests, fetchFn } = recordingFetch({ text: 'I took my pills' });
+    const llm = createLocalProvider({ baseUrl: 'http://localhost:8080/v1', fetch: fetchFn });
+
+    const transcript = await llm.transcribe({ audio: new Blob(['audio']), fileName: 'audio.ogg', language: 'en' });
+
+    expect(transcript).toBe('I took my pills');
+    expect(requests[0].url).toBe('http://localhost:8080/v1/audio/transcriptions');
+    expect(requests[0].headers.Authorization).toBeUndefined();
+    expect((requests[0].body as FormData).get('language')).toBe('en');
+  });
+
+  it('should throw with the status when a request fails', async () => {
+    const fetchFn = (async () => new Response('quota exceeded', { status: 429 })) as typeof fetch;
+    const llm = createOpenAIProvider({ apiKey: 'sk-test', fetch: fetchFn });
+
+    await expect(llm.chat({ messages: [{ role: 'user', content: 'Hi' }] })).rejects.toThrow(
+      'Chat request failed: 429 - quota exceeded'
+    );
+    expect((await llm.streamChat({ messages: [] })).status).toBe(429);
+  });
+});
+
+describe('Mock provider', () => {
+  it('should reply deterministically without a network', async () => {
+    const llm = createMockProvider({ transcript: 'I slept well' });
+
+    const reply = await llm.chat({ messages: [{ role: 'user', content: 'Good morning' }] });
+    const audio = await llm.speak({ text: 'Hello' });
+
+    expect(reply.content).toBe('You said: "Good morning"');
+    expect(await llm.transcribe({ audio: new Blob() })).toBe('I slept well');
+    expect(new TextDecoder().decode(audio)).toBe('Hello');
+  });
+
+  it('should stream replies and tool calls in the OpenAI event format', async () => {
+    const llm = createMockProvider({
+      reply: () => ({
+        content: 'Noted, I will remind you.',
+        toolCalls: [{ id: 'call_1', name: 'record_commitment', arguments: '{"action":"Walk"}' }],
+      }),
+    });
+
+    const response = await llm.streamChat({ messages: [] });
+    const events = await response.text();
+
+    expect(response.ok).toBe(true);
+    expect(events.endsWith('data: [DONE]\n\n')).toBe(true);
+    expect(readStream(events)).toEqual({
+      content: 'Noted, I will remind you.',
+      toolCalls: [{ id: 'call_1', name: 'record_commitment', arguments: '{"action":"Walk"}' }],
+    });
+  });
+
+  it('should encode an empty reply as just the finish chunk', () => {
+    expect(readStream(encodeCompletionStream({ content: '', toolCalls: [] }))).toEqual({ content: '', toolCalls: [] });
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * LLM Provider
+ *
+ * Chat, transcription and text-to-speech behind one interface, so the AI
+ * edge functions don't call a vendor directly. Providers:
+ * - openai: api.openai.com (or OPENAI_BASE_URL)
+ * - azure: Azure OpenAI, where each model setting names a deployment
+ * - local: any OpenAI-compatible server such as Ollama or llama.cpp
+ * - mock: deterministic replies with no network access, for running the
+ *   conversation stack offline and in tests
+ *
+ * Every provider speaks the OpenAI wire format: streamed chat comes back as
+ * OpenAI-style server-sent events whichever provider produced it, so
+ * handlers and the app parse one format.
+ *
+ * Functions pick their provider from the environment with
+ * createLLMProviderFromEnv(). LLM_PROVIDER selects the provider for all
+ * functions and <SCOPE>_LLM_PROVIDER (e.g. VOICE_CHAT_LLM_PROVIDER) for one;
+ * model settings follow the same pattern.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/llm-provider
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LLMProviderType = "openai" | "azure" | "local" | "mock";
+
+export const LLM_PROVIDER_TYPES: LLMProviderType[] = ["openai", "azure", "local", "mock"];
+
+export interface LLMChatMessage {
+  role: "system" | "user" | "assistant" | "tool";
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: "function"; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+/**
+ * A tool call requested by the model (same shape as chat-tools ToolCall)
+ */
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+export interface ChatRequest {
+  messages: LLMChatMessage[];
+  /** Overrides the provider's chat model for this request */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** OpenAI function tool definitions */
+  tools?: unknown[];
+  toolChoice?: "auto" | "none";
+  /** Ask for a JSON object reply */
+  json?: boolean;
+}
+
+export interface ChatCompletion {
+  content: string;
+  toolCalls: LLMToolCall[];
+}
+
+export interface TranscriptionRequest {
+  audio: Blob;
+  /** The extension tells the provider the audio format */
+  fileName?: string;
+  language?: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice?: string;
+  speed?: number;
+}
+
+export interface LLMModels {
+  chat: string;
+  transcription: string;
+  speech: string;
+  /** Text-to-speech voice */
+  voice: string;
+}
+
+export interface LLMProvider {
+  type: LLMProviderType;
+  /** e.g. "openai:gpt-4o-mini", for logs */
+  name: string;
+  models: LLMModels;
+  /** Complete a conversation. Throws if the request fails. */
+  chat(request: ChatRequest): Promise<ChatCompletion>;
+  /**
+   * Stream a completion as OpenAI-style server-sent events ending with
+   * "data: [DONE]". The response is returned as received, so check
+   * response.ok (e.g. 429 when rate limited).
+   */
+  streamChat(request: ChatRequest): Promise<Response>;
+  /** Speech to text. Throws if the request fails. */
+  transcribe(request: TranscriptionRequest): Promise<string>;
+  /** Text to speech, as audio bytes (MP3 for the hosted providers). Throws if the request fails. */
+  speak(request: SpeechRequest): Promise<ArrayBuffer>;
+}
+
+type FetchFn = typeof fetch;
+
+// ============================================================================
+// Defaults
+// ============================================================================
+
+export const DEFAULT_LLM_MODELS: LLMModels = {
+  chat: "gpt-4o-mini",
+  transcription: "whisper-1",
+  speech: "tts-1",
+  voice: "nova",
+};
+
+/** Local servers name models after what was pulled, not OpenAI's names */
+export const DEFAULT_LOCAL_LLM_MODELS: LLMModels = {
+  chat: "llama3.1",
+  transcription: "whisper-1",
+  speech: "tts-1",
+  voice: "nova",
+};
+
+const DEFAULT_AZURE_API_VERSION = "2024-06-01";
+
+// ============================================================================
+// OpenAI-Compatible Providers
+// ============================================================================
+
+type Endpoint = "chat/completions" | "audio/transcriptions" | "audio/speech";
+
+interface OpenAIStyleOptions {
+  type: LLMProviderType;
+  models: LLMModels;
+  /** Full URL of an endpoint for the given model */
+  url: (endpoint: Endpoint, model: string) => string;
+  headers: Record<string, string>;
+  fetch?: FetchFn;
+}
+
+function buildChatBody(request: ChatRequest, model: string, stream: boolean): Record<string, unknown> {
+  return {
+    model,
+    messages: request.messages,
+    stream,
+    ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+    ...(request.maxTokens !== undefined ? { max_tokens: request.maxTokens } : {}),
+    ...(request.tools && request.toolChoice ? { tools: request.tools, tool_choice: request.toolChoice } : {}),
+    ...(request.json ? { response_format: { type: "json_object" } } : {}),
+  };
+}
+
+async function describeFailure(response: Response): Promise<string> {
+  const text = await response.text().catch(() => "");
+  return text ? `${response.status} - ${text}` : String(response.status);
+}
+
+function createOpenAIStyleProvider(options: OpenAIStyleOptions): LLMProvider {
+  const { type, models, url, headers } = options;
+  const fetchFn = options.fetch ?? fetch;
+
+  const postJson = (endpoint: Endpoint, model: string, body: Record<string, unknown>) =>
+    fetchFn(url(endpoint, model), {
+      method: "POST",
+      headers: { ...headers, "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+    });
+
+  return {
+    type,
+    name: `${type}:${models.chat}`,
+    models,
+
+    async chat(request) {
+      const model = request.model || models.chat;
+      const response = await postJson("chat/completions", model, buildChatBody(request, model, false));
+
+      if (!response.ok) {
+        throw new Error(`Chat request failed: ${await describeFailure(response)}`);
+      }
+
+      const data = await response.json();
+      const message = data?.choices?.[0]?.message;
+      const toolCalls = Array.isArray(message?.tool_calls) ? message.tool_calls : [];
+
+      return {
+        content: typeof message?.content === "string" ? message.content : "",
+        toolCalls: toolCalls.map((call: { id: string; function: { name: string; arguments: string } }) => ({
+          id: call.id,
+          name: call.function.name,
+          arguments: call.function.arguments,
+        })),
+      };
+    },
+
+    streamChat(request) {
+      const model = request.model || models.chat;
+      return postJson("chat/completions", model, buildChatBody(request, model, true));
+    },
+
+    async transcribe(request) {
+      const formData = new FormData();
+      formData.append("file", request.audio, request.fileName || "audio.webm");
+      formData.append("model", models.transcription);
+      if (request.language) formData.append("language", request.language);
+
+      const response = await fetchFn(url("audio/transcriptions", models.transcription), {
+        method: "POST",
+        headers,
+        body: formData,
+      });
+
+      if (!response.ok) {
+        throw new Error(`Transcription request failed: ${await describeFailure(response)}`);
+      }
+
+      const data = await response.json();
+      return typeof data?.text === "string" ? data.text : "";
+    },
+
+    async speak(request) {
+      const response = await postJson("audio/speech", models.speech, {
+        model: models.speech,
+        voice: request.voice || models.voice,
+        input: request.text,
+        ...(request.speed !== undefined ? { speed: request.speed } : {}),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Speech request failed: ${await describeFailure(response)}`);
+      }
+
+      return response.arrayBuffer();
+    },
+  };
+}
+
+const trimSlash = (value: string) => value.replace(/\/+$/, "");
+
+export interface OpenAIProviderOptions {
+  apiKey: string;
+  /** Defaults to https://api.openai.com/v1 */
+  baseUrl?: string;
+  models?: Partial<LLMModels>;
+  fetch?: FetchFn;
+}
+
+/**
+ * OpenAI's hosted API
+ */
+export function createOpenAIProvider(options: OpenAIProviderOptions): LLMProvider {
+  const baseUrl = trimSlash(options.baseUrl || "https://api.openai.com/v1");
+
+  return createOpenAIStyleProvider({
+    type: "openai",
+    models: { ...DEFAULT_LLM_MODELS, ...options.models },
+    url: (endpoint) => `${baseUrl}/${endpoint}`,
+    headers: { Authorization: `Bearer ${options.apiKey}` },
+    fetch: options.fetch,
+  });
+}
+
+export interface AzureOpenAIProviderOptions {
+  /** e.g. https://my-resource.openai.azure.com */
+  endpoint: string;
+  apiKey: string;
+  apiVersion?: string;
+  /** Deployment names; they default to the OpenAI model names */
+  models?: Partial<LLMModels>;
+  fetch?: FetchFn;
+}
+
+/**
+ * Azure OpenAI. Requests go to the deployment named by each model setting.
+ */
+export function createAzureOpenAIProvider(options: AzureOpenAIProviderOptions): LLMProvider {
+  const endpoint = trimSlash(options.endpoint);
+  const apiVersion = options.apiVersion || DEFAULT_AZURE_API_VERSION;
+
+  return createOpenAIStyleProvider({
+    type: "azure",
+    models: { ...DEFAULT_LLM_MODELS, ...options.models },
+    url: (path, deployment) =>
+      `${endpoint}/openai/deployments/${encodeURIComponent(deployment)}/${path}?api-version=${encodeURIComponent(apiVersion)}`,
+    headers: { "api-key": options.apiKey },
+    fetch: options.fetch,
+  });
+}
+
+export interface LocalProviderOptions {
+  /** OpenAI-compatible base URL, e.g. http://localhost:11434/v1 for Ollama */
+  baseUrl: string;
+  /** Only if the server checks one */
+  apiKey?: string;
+  models?: Partial<LLMModels>;
+  fetch?: FetchFn;
+}
+
+/**
+ * A self-hosted OpenAI-compatible server. Ollama and llama.cpp serve chat
+ * only; transcription and speech need a server that implements the audio
+ * endpoints too.
+ */
+export function createLocalProvider(options: LocalProviderOptions): LLMProvider {
+  const baseUrl = trimSlash(options.baseUrl);
+
+  return createOpenAIStyleProvider({
+    type: "local",
+    models: { ...DEFAULT_LOCAL_LLM_MODELS, ...options.models },
+    url: (endpoint) => `${baseUrl}/${endpoint}`,
+    headers: options.apiKey ? { Authorization: `Bearer ${options.apiKey}` } : {},
+    fetch: options.fetch,
+  });
+}
+
+// ============================================================================
+// Mock Provider
+// ============================================================================
+
+export interface MockProviderOptions {
+  /** Reply to each chat request. Defaults to repeating the last user message back. */
+  reply?: (request: ChatRequest) => string | ChatCompletion;
+  /** Returned by every transcription */
+  transcript?: string;
+  models?: Partial<LLMModels>;
+}
+
+export const MOCK_TRANSCRIPT = "This is a mock transcript.";
+
+function defaultMockReply(request: ChatRequest): string {
+  const lastUser = [...request.messages].reverse().find((message) => message.role === "user");
+  return lastUser?.content ? `You said: "${lastUser.content}"` : "Hello from the mock provider.";
+}
+
+/**
+ * Encode a completion as the OpenAI server-sent events a streamed request
+ * would produce: content in word-sized chunks, then any tool calls, then
+ * [DONE]
+ */
+export function encodeCompletionStream(completion: ChatCompletion): string {
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+    `data: ${JSON.stringify({ choices: [{ index: 0, delta, finish_reason: finishReason }] })}\n\n`;
+
+  const contentChunks = completion.content.match(/\S+\s*|\s+/g) ?? [];
+  const toolChunks = completion.toolCalls.map((call, index) =>
+    chunk({
+      tool_calls: [{ index, id: call.id, type: "function", function: { name: call.name, arguments: call.arguments } }],
+    })
+  );
+
+  return [
+    ...contentChunks.map((content) => chunk({ content })),
+    ...toolChunks,
+    chunk({}, completion.toolCalls.length > 0 ? "tool_calls" : "stop"),
+    "data: [DONE]\n\n",
+  ].join("");
+}
+
+/**
+ * Deterministic provider that never touches the network. Speech is the
+ * UTF-8 bytes of the text, not playable audio.
+ */
+export function createMockProvider(options: MockProviderOptions = {}): LLMProvider {
+  const models = { ...DEFAULT_LLM_MODELS, ...options.models };
+  const reply = options.reply ?? defaultMockReply;
+
+  const complete = (request: ChatRequest): ChatCompletion => {
+    const result = reply(request);
+    return typeof result === "string" ? { content: result, toolCalls: [] } : result;
+  };
+
+  return {
+    type: "mock",
+    name: "mock",
+    models,
+
+    chat(request) {
+      return Promise.resolve(complete(request));
+    },
+
+    streamChat(request) {
+      return Promise.resolve(
+        new Response(encodeCompletionStream(complete(request)), {
+          headers: { "Content-Type": "text/event-stream" },
+        })
+      );
+    },
+
+    transcribe() {
+      return Promise.resolve(options.transcript ?? MOCK_TRANSCRIPT);
+    },
+
+    speak(request) {
+      return Promise.resolve(new TextEncoder().encode(request.text).buffer as ArrayBuffer);
+    },
+  };
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+export interface LLMProviderEnvOptions {
+  /**
+   * Prefix for function-specific settings, e.g. "VOICE_CHAT" reads
+   * VOICE_CHAT_LLM_PROVIDER before LLM_PROVIDER
+   */
+  scope?: string;
+  /** Models this function uses unless configured (openai and azure only) */
+  defaults?: Partial<LLMModels>;
+  fetch?: FetchFn;
+}
+
+/**
+ * Create the provider configured in the environment.
+ *
+ * | Variable | Used for |
+ * |----------|----------|
+ * | LLM_PROVIDER | openai (default), azure, local or mock |
+ * | LLM_CHAT_MODEL, LLM_TRANSCRIPTION_MODEL, LLM_SPEECH_MODEL, LLM_SPEECH_VOICE | Models (Azure: deployment names) |
+ * | OPENAI_API_KEY, OPENAI_BASE_URL | openai |
+ * | AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_API_VERSION | azure |
+ * | LOCAL_LLM_BASE_URL, LOCAL_LLM_API_KEY | local |
+ *
+ * LLM_* settings can be prefixed with options.scope to apply to one
+ * function only.
+ *
+ * @param getEnv - Reads an environment variable, e.g. (name) => Deno.env.get(name)
+ * @throws Error naming the missing or invalid setting
+ */
+export function createLLMProviderFromEnv(
+  getEnv: (name: string) => string | undefined,
+  options: LLMProviderEnvOptions = {}
+): LLMProvider {
+  const setting = (name: string) => (options.scope && getEnv(`${options.scope}_${name}`)) || getEnv(name) || undefined;
+
+  const type = (setting("LLM_PROVIDER") || "openai").toLowerCase();
+  if (!LLM_PROVIDER_TYPES.includes(type as LLMProviderType)) {
+    throw new Error(`Unknown LLM_PROVIDER "${type}" (expected ${LLM_PROVIDER_TYPES.join(", ")})`);
+  }
+
+  const configured: Partial<LLMModels> = {};
+  const chat = setting("LLM_CHAT_MODEL");
+  const transcription = setting("LLM_TRANSCRIPTION_MODEL");
+  const speech = setting("LLM_SPEECH_MODEL");
+  const voice = setting("LLM_SPEECH_VOICE");
+  if (chat) configured.chat = chat;
+  if (transcription) configured.transcription = transcription;
+  if (speech) configured.speech = speech;
+  if (voice) configured.voice = voice;
+
+  const models = { ...options.defaults, ...configured };
+  const required = (name: string) => {
+    const value = getEnv(name);
+    if (!value) throw new Error(`${name} not configured`);
+    return value;
+  };
+
+  switch (type as LLMProviderType) {
+    case "azure":
+      return createAzureOpenAIProvider({
+        endpoint: required("AZURE_OPENAI_ENDPOINT"),
+        apiKey: required("AZURE_OPENAI_API_KEY"),
+        apiVersion: getEnv("AZURE_OPENAI_API_VERSION"),
+        models,
+        fetch: options.fetch,
+      });
+    case "local":
+      return createLocalProvider({
+        baseUrl: required("LOCAL_LLM_BASE_URL"),
+        apiKey: getEnv("LOCAL_LLM_API_KEY"),
+        models: configured,
+        fetch: options.fetch,
+      });
+    case "mock":
+      return createMockProvider({ models });
+    default:
+      return createOpenAIProvider({
+        apiKey: required("OPENAI_API_KEY"),
+        baseUrl: getEnv("OPENAI_BASE_URL"),
+        models,
+        fetch: options.fetch,
+      });
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Medication Store
+ *
+ * Reads medication schedules and records confirmed doses in
+ * medication_doses for the chat and WhatsApp functions. Expects a service
+ * role client.
+ *
+ * @module edge-functions/medication-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+  getDosesToConfirm,
+  getScheduledDoses,
+  type DoseConfirmationSource,
+  type DoseRecord,
+  type MedicationSchedule,
+  type ScheduledDose,
+} from "./medications.ts";
+import { getLocalDateString } from "./timezone.ts";
+
+/**
+ * Active medication schedules for a patient
+ */
+export async function loadActiveMedications(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<MedicationSchedule[]> {
+  const { data, error } = await supabase
+    .from("medications")
+    .select("id, name, dose, dose_times, grace_minutes")
+    .eq("patient_id", patientId)
+    .eq("is_active", true)
+    .order("name");
+
+  if (error) throw new Error(`Failed to load medications: ${error.message}`);
+  return (data || []) as MedicationSchedule[];
+}
+
+/**
+ * Mark the doses a "took my medication" message refers to as taken.
+ *
+ * @returns The doses confirmed; empty when the patient has no schedule or
+ * nothing is due
+ */
+export async function confirmDosesTaken(
+  supabase: SupabaseClient,
+  patientId: string,
+  timeZone: string,
+  medicationName: string | null,
+  source: DoseConfirmationSource,
+  now: Date = new Date()
+): Promise<ScheduledDose[]> {
+  const medications = await loadActiveMedications(supabase, patientId);
+  if (medications.length === 0) return [];
+
+  const today = getLocalDateString(now, timeZone);
+  const { data: records, error: recordsError } = await supabase
+    .from("medication_doses")
+    .select("medication_id, scheduled_date, scheduled_time, status")
+    .eq("patient_id", patientId)
+    .eq("scheduled_date", today);
+
+  if (recordsError) throw new Error(`Failed to load doses: ${recordsError.message}`);
+
+  const scheduled = getScheduledDoses(medications, today, timeZone);
+  const doses = getDosesToConfirm(scheduled, (records || []) as DoseRecord[], now, medicationName);
+  if (doses.length === 0) return [];
+
+  const { error } = await supabase
+    .from("medication_doses")
+    .upsert(
+      doses.map((dose) => ({
+        medication_id: dose.medicationId,
+        patient_id: patientId,
+        scheduled_date: dose.scheduledDate,
+        scheduled_time: dose.scheduledTime,
+        status: "taken",
+        taken_at: now.toISOString(),
+        confirmed_via: source,
+        confirmed_by: patientId,
+      })),
+      { onConflict: "medication_id,scheduled_date,scheduled_time" }
+    );
+
+  if (error) throw new Error(`Failed to record doses: ${error.message}`);
+  return doses;
+}
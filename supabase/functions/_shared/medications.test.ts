@@ -0,0 +1,131 @@
+/**
+ * Medication Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  calculateAdherence,
+  describeDose,
+  formatMedicationPrompt,
+  formatMissedDoseMessage,
+  getDosesToConfirm,
+  getOverdueDoses,
+  getScheduledDoses,
+  isMedicationConfirmation,
+  type MedicationSchedule,
+} from './medications';
+
+const TZ = 'America/New_York';
+
+const MEDICATIONS: MedicationSchedule[] = [
+  { id: 'lisinopril', name: 'Lisinopril', dose: '10 mg', dose_times: ['08:00:00', '20:00:00'], grace_minutes: 60 },
+  { id: 'metformin', name: 'Metformin', dose: null, dose_times: ['08:00', '8:00'], grace_minutes: 120 },
+];
+
+const scheduled = getScheduledDoses(MEDICATIONS, '2025-10-20', TZ);
+
+describe('getScheduledDoses', () => {
+  it('should list each dose once, in local time order', () => {
+    expect(scheduled.map((d) => `${d.name} ${d.scheduledTime} ${d.scheduledAt.toISOString()}`)).toEqual([
+      'Lisinopril 08:00 2025-10-20T12:00:00.000Z',
+      'Metformin 08:00 2025-10-20T12:00:00.000Z',
+      'Lisinopril 20:00 2025-10-21T00:00:00.000Z',
+    ]);
+  });
+});
+
+describe('getDosesToConfirm', () => {
+  const morning = new Date('2025-10-20T12:30:00Z');
+
+  it('should confirm the whole latest slot when no medication is named', () => {
+    expect(getDosesToConfirm(scheduled, [], morning, null).map((d) => d.medicationId)).toEqual([
+      'lisinopril',
+      'metformin',
+    ]);
+  });
+
+  it('should confirm only the named medication', () => {
+    expect(getDosesToConfirm(scheduled, [], morning, 'metformin 500')).toEqual([
+      expect.objectContaining({ medicationId: 'metformin', scheduledTime: '08:00' }),
+    ]);
+  });
+
+  it('should allow early confirmation but skip doses already taken', () => {
+    const evening = new Date('2025-10-20T22:30:00Z');
+    const records = [
+      { medication_id: 'lisinopril', scheduled_date: '2025-10-20', scheduled_time: '08:00:00', status: 'taken' as const },
+      { medication_id: 'metformin', scheduled_date: '2025-10-20', scheduled_time: '08:00:00', status: 'missed' as const },
+    ];
+
+    expect(getDosesToConfirm(scheduled, records, evening, null)).toEqual([
+      expect.objectContaining({ medicationId: 'lisinopril', scheduledTime: '20:00' }),
+    ]);
+    expect(getDosesToConfirm(scheduled, records, evening, 'Metformin')).toEqual([
+      expect.objectContaining({ medicationId: 'metformin', scheduledTime: '08:00' }),
+    ]);
+  });
+
+  it('should confirm nothing before the first dose window', () => {
+    expect(getDosesToConfirm(scheduled, [], new Date('2025-10-20T09:00:00Z'), null)).toEqual([]);
+  });
+});
+
+describe('getOverdueDoses', () => {
+  it('should use each medication grace window', () => {
+    const overdue = getOverdueDoses(scheduled, [], new Date('2025-10-20T13:30:00Z'));
+    expect(overdue.map((d) => d.medicationId)).toEqual(['lisinopril']);
+  });
+
+  it('should ignore doses with a recorded outcome', () => {
+    const records = [
+      { medication_id: 'lisinopril', scheduled_date: '2025-10-20', scheduled_time: '08:00', status: 'taken' as const },
+    ];
+    expect(getOverdueDoses(scheduled, records, new Date('2025-10-20T14:00:00Z')).map((d) => d.medicationId)).toEqual([
+      'metformin',
+    ]);
+  });
+});
+
+describe('calculateAdherence', () => {
+  it('should not count skipped doses against adherence', () => {
+    expect(
+      calculateAdherence([{ status: 'taken' }, { status: 'taken' }, { status: 'missed' }, { status: 'skipped' }])
+    ).toEqual({ taken: 2, missed: 1, skipped: 1, percentage: 67 });
+    expect(calculateAdherence([])).toMatchObject({ percentage: null });
+  });
+});
+
+describe('isMedicationConfirmation', () => {
+  it('should recognise doses that were taken', () => {
+    expect(isMedicationConfirmation('I took my pills')).toBe(true);
+    expect(isMedicationConfirmation('Just had my morning meds with breakfast')).toBe(true);
+  });
+
+  it('should ignore plans and doses that were not taken', () => {
+    expect(isMedicationConfirmation("I didn't take my pills")).toBe(false);
+    expect(isMedicationConfirmation('I will take my medication after lunch')).toBe(false);
+    expect(isMedicationConfirmation('Time to take my tablets')).toBe(false);
+  });
+});
+
+describe('formatMissedDoseMessage', () => {
+  it('should describe each dose with its time', () => {
+    expect(describeDose(scheduled[2])).toBe('Lisinopril 10 mg (8:00 PM)');
+    expect(formatMissedDoseMessage('Dorothy', scheduled.slice(0, 2))).toBe(
+      'Dorothy has not confirmed taking Lisinopril 10 mg (8:00 AM), Metformin (8:00 AM).'
+    );
+  });
+});
+
+describe('formatMedicationPrompt', () => {
+  it("should list today's doses with their status", () => {
+    const records = [
+      { medication_id: 'lisinopril', scheduled_date: '2025-10-20', scheduled_time: '08:00:00', status: 'taken' as const },
+    ];
+    const prompt = formatMedicationPrompt(scheduled, records);
+
+    expect(prompt).toContain('- Lisinopril 10 mg (8:00 AM): taken');
+    expect(prompt).toContain('- Metformin (8:00 AM): not confirmed yet');
+    expect(formatMedicationPrompt([], [])).toBe('');
+  });
+});
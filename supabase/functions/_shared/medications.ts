@@ -0,0 +1,232 @@
+/**
+ * Medications
+ *
+ * Dose scheduling and adherence rules for medication schedules
+ * (medications / medication_doses). Dose times are wall-clock times in the
+ * patient's timezone; a dose without a medication_doses row is either not
+ * due yet, still within its grace window, or waiting to be marked missed.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/medications
+ */
+
+import { formatClockTime, zonedTimeToUtc } from "./timezone.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DoseStatus = "taken" | "skipped" | "missed";
+
+export type DoseConfirmationSource = "chat" | "whatsapp" | "app" | "caregiver";
+
+export interface MedicationSchedule {
+  id: string;
+  name: string;
+  dose: string | null;
+  /** HH:MM or HH:MM:SS, patient's local time */
+  dose_times: string[];
+  grace_minutes: number;
+}
+
+export interface DoseRecord {
+  medication_id: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  status: DoseStatus;
+}
+
+export interface ScheduledDose {
+  medicationId: string;
+  name: string;
+  dose: string | null;
+  scheduledDate: string;
+  /** HH:MM */
+  scheduledTime: string;
+  scheduledAt: Date;
+  graceMinutes: number;
+}
+
+export interface Adherence {
+  taken: number;
+  missed: number;
+  skipped: number;
+  /** Taken out of taken + missed, or null when no dose has been due */
+  percentage: number | null;
+}
+
+/** A dose can be confirmed this long before its scheduled time */
+export const EARLY_CONFIRM_MINUTES = 120;
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * "8:00:00" / "08:00" -> "08:00"
+ */
+export function normalizeDoseTime(time: string): string {
+  const [hour = "0", minute = "0"] = time.split(":");
+  return `${hour.padStart(2, "0")}:${minute.padStart(2, "0")}`;
+}
+
+/**
+ * Every dose of the given medications scheduled on a local date, in time order
+ */
+export function getScheduledDoses(
+  medications: MedicationSchedule[],
+  localDate: string,
+  timeZone: string
+): ScheduledDose[] {
+  const doses: ScheduledDose[] = [];
+
+  for (const medication of medications) {
+    const times = [...new Set(medication.dose_times.map(normalizeDoseTime))];
+    for (const time of times) {
+      doses.push({
+        medicationId: medication.id,
+        name: medication.name,
+        dose: medication.dose,
+        scheduledDate: localDate,
+        scheduledTime: time,
+        scheduledAt: zonedTimeToUtc(localDate, time, timeZone),
+        graceMinutes: medication.grace_minutes,
+      });
+    }
+  }
+
+  return doses.sort((a, b) => a.scheduledAt.getTime() - b.scheduledAt.getTime() || a.name.localeCompare(b.name));
+}
+
+/**
+ * The recorded outcome of a scheduled dose, if any
+ */
+export function findDoseRecord(records: DoseRecord[], dose: ScheduledDose): DoseRecord | undefined {
+  return records.find(
+    (record) =>
+      record.medication_id === dose.medicationId &&
+      record.scheduled_date === dose.scheduledDate &&
+      normalizeDoseTime(record.scheduled_time) === dose.scheduledTime
+  );
+}
+
+/**
+ * Doses a "took my medication" confirmation applies to.
+ *
+ * A named medication confirms its latest dose that is due (or due within
+ * EARLY_CONFIRM_MINUTES). Without a name, or when the name matches nothing,
+ * every dose in the latest due time slot is confirmed ("my morning pills").
+ * Doses already marked missed can still be confirmed late.
+ */
+export function getDosesToConfirm(
+  scheduled: ScheduledDose[],
+  records: DoseRecord[],
+  now: Date,
+  medicationName: string | null
+): ScheduledDose[] {
+  const cutoff = now.getTime() + EARLY_CONFIRM_MINUTES * 60000;
+  const confirmable = scheduled.filter((dose) => {
+    const status = findDoseRecord(records, dose)?.status;
+    return dose.scheduledAt.getTime() <= cutoff && status !== "taken" && status !== "skipped";
+  });
+
+  if (confirmable.length === 0) return [];
+
+  const name = medicationName?.trim().toLowerCase();
+  if (name) {
+    const matches = confirmable.filter((dose) => {
+      const medication = dose.name.toLowerCase();
+      return medication.includes(name) || name.includes(medication);
+    });
+    if (matches.length > 0) return [matches[matches.length - 1]];
+  }
+
+  const latest = confirmable[confirmable.length - 1].scheduledAt.getTime();
+  return confirmable.filter((dose) => dose.scheduledAt.getTime() === latest);
+}
+
+/**
+ * Doses past their grace window with no recorded outcome
+ */
+export function getOverdueDoses(scheduled: ScheduledDose[], records: DoseRecord[], now: Date): ScheduledDose[] {
+  return scheduled.filter(
+    (dose) =>
+      !findDoseRecord(records, dose) &&
+      dose.scheduledAt.getTime() + dose.graceMinutes * 60000 <= now.getTime()
+  );
+}
+
+// ============================================================================
+// Adherence
+// ============================================================================
+
+/**
+ * Share of due doses that were taken. Skipped doses (on purpose) are not
+ * counted against adherence.
+ */
+export function calculateAdherence(records: Pick<DoseRecord, "status">[]): Adherence {
+  const taken = records.filter((r) => r.status === "taken").length;
+  const missed = records.filter((r) => r.status === "missed").length;
+  const skipped = records.filter((r) => r.status === "skipped").length;
+  const due = taken + missed;
+
+  return {
+    taken,
+    missed,
+    skipped,
+    percentage: due > 0 ? Math.round((taken / due) * 100) : null,
+  };
+}
+
+// ============================================================================
+// Wording
+// ============================================================================
+
+const MEDICATION_TAKEN_PATTERN =
+  /\b(?:took|taken|had|swallowed|done with)\b[^.!?]{0,30}\b(?:pills?|meds|medications?|medicine|tablets?|dose|doses)\b/i;
+
+const NOT_TAKEN_PATTERN =
+  /\b(?:not|didn'?t|did not|haven'?t|have not|forgot|forget|won'?t|can'?t|will|going to|gonna|need to|should)\b/i;
+
+/**
+ * Whether a WhatsApp message says the senior has taken their medication
+ */
+export function isMedicationConfirmation(text: string): boolean {
+  return MEDICATION_TAKEN_PATTERN.test(text) && !NOT_TAKEN_PATTERN.test(text);
+}
+
+/**
+ * "Lisinopril 10 mg (8:00 AM)"
+ */
+export function describeDose(dose: Pick<ScheduledDose, "name" | "dose" | "scheduledTime">): string {
+  return `${dose.name}${dose.dose ? ` ${dose.dose}` : ""} (${formatClockTime(dose.scheduledTime)})`;
+}
+
+/**
+ * Alert message for doses that were not confirmed in time
+ */
+export function formatMissedDoseMessage(patientName: string, doses: ScheduledDose[]): string {
+  const list = doses.map(describeDose).join(", ");
+  return `${patientName} has not confirmed taking ${list}.`;
+}
+
+/**
+ * System prompt section with today's doses, so Parra can confirm them with
+ * log_medication_taken
+ */
+export function formatMedicationPrompt(scheduled: ScheduledDose[], records: DoseRecord[]): string {
+  if (scheduled.length === 0) return "";
+
+  const lines = scheduled.map((dose) => {
+    const status = findDoseRecord(records, dose)?.status;
+    return `- ${describeDose(dose)}: ${status ?? "not confirmed yet"}`;
+  });
+
+  return `# TODAY'S MEDICATIONS
+
+Their care team set up this schedule. When they tell you they took a dose, call log_medication_taken with the medication name. Don't quiz them about it.
+
+${lines.join("\n")}`;
+}
@@ -0,0 +1,159 @@
+/**
+ * Patient Memory Store
+ *
+ * Reads and writes the patient_memories table and gathers the rest of the
+ * conversation context (recent daily summaries and open commitments) used
+ * by the chat functions. Expects a service role client.
+ *
+ * @module edge-functions/memory-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import type {
+  ConversationContext,
+  ExtractedMemory,
+  OpenCommitment,
+  RecentSummary,
+  StoredMemory,
+} from "./patient-memory.ts";
+
+const MEMORY_LIMIT = 40;
+const SUMMARY_DAYS = 3;
+const COMMITMENT_LOOKBACK_DAYS = 7;
+const COMMITMENT_LIMIT = 10;
+
+interface CommitmentCheckInRow {
+  started_at: string;
+  commitments: Array<{ action?: unknown; time?: unknown; completed?: unknown }> | null;
+}
+
+/**
+ * Save memories extracted from a check-in. Memories already on file are
+ * refreshed (times_mentioned, last_mentioned_at) instead of duplicated;
+ * re-analyzing the same check-in does not count as another mention.
+ *
+ * @returns Number of memories inserted or refreshed
+ */
+export async function saveMemories(
+  supabase: SupabaseClient,
+  patientId: string,
+  memories: ExtractedMemory[],
+  checkInId: string | null
+): Promise<number> {
+  let saved = 0;
+  const now = new Date().toISOString();
+
+  for (const memory of memories) {
+    const contentKey = memory.content.trim().toLowerCase();
+
+    // Only one preferred name is kept
+    if (memory.category === "preferred_name") {
+      await supabase
+        .from("patient_memories")
+        .delete()
+        .eq("patient_id", patientId)
+        .eq("category", "preferred_name")
+        .neq("content_key", contentKey);
+    }
+
+    const { data: existing, error: lookupError } = await supabase
+      .from("patient_memories")
+      .select("id, times_mentioned, source_check_in_id")
+      .eq("patient_id", patientId)
+      .eq("category", memory.category)
+      .eq("content_key", contentKey)
+      .maybeSingle();
+
+    if (lookupError) {
+      console.error("Error looking up memory:", lookupError);
+      continue;
+    }
+
+    if (existing && checkInId && existing.source_check_in_id === checkInId) {
+      continue;
+    }
+
+    const { error } = existing
+      ? await supabase
+          .from("patient_memories")
+          .update({
+            times_mentioned: existing.times_mentioned + 1,
+            last_mentioned_at: now,
+            source_check_in_id: checkInId,
+          })
+          .eq("id", existing.id)
+      : await supabase
+          .from("patient_memories")
+          .insert({
+            patient_id: patientId,
+            category: memory.category,
+            content: memory.content,
+            source_check_in_id: checkInId,
+            last_mentioned_at: now,
+          });
+
+    if (error) {
+      console.error("Error saving memory:", error);
+    } else {
+      saved++;
+    }
+  }
+
+  return saved;
+}
+
+/**
+ * Load memories, the last few daily summaries and open commitments for a patient
+ */
+export async function loadConversationContext(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<ConversationContext> {
+  const since = new Date(Date.now() - COMMITMENT_LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+  const [memories, summaries, checkIns] = await Promise.all([
+    supabase
+      .from("patient_memories")
+      .select("id, category, content, times_mentioned, last_mentioned_at")
+      .eq("patient_id", patientId)
+      .order("times_mentioned", { ascending: false })
+      .order("last_mentioned_at", { ascending: false })
+      .limit(MEMORY_LIMIT),
+    supabase
+      .from("daily_summaries")
+      .select("summary_date, overall_mood, summary_text, concerns")
+      .eq("patient_id", patientId)
+      .order("summary_date", { ascending: false })
+      .limit(SUMMARY_DAYS),
+    supabase
+      .from("check_ins")
+      .select("started_at, commitments")
+      .eq("patient_id", patientId)
+      .gte("started_at", since)
+      .order("started_at", { ascending: false })
+      .limit(20),
+  ]);
+
+  if (memories.error) console.error("Error loading memories:", memories.error);
+  if (summaries.error) console.error("Error loading daily summaries:", summaries.error);
+  if (checkIns.error) console.error("Error loading commitments:", checkIns.error);
+
+  const commitments: OpenCommitment[] = [];
+  for (const checkIn of (checkIns.data || []) as CommitmentCheckInRow[]) {
+    for (const commitment of checkIn.commitments || []) {
+      if (commitment.completed === true || typeof commitment.action !== "string") continue;
+      if (commitments.some((c) => c.action.toLowerCase() === (commitment.action as string).toLowerCase())) continue;
+      commitments.push({
+        action: commitment.action,
+        time: typeof commitment.time === "string" ? commitment.time : null,
+        made_at: checkIn.started_at,
+      });
+    }
+  }
+
+  return {
+    memories: (memories.data || []) as StoredMemory[],
+    summaries: (summaries.data || []) as RecentSummary[],
+    commitments: commitments.slice(0, COMMITMENT_LIMIT),
+  };
+}
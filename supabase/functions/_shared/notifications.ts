@@ -0,0 +1,50 @@
+/**
+ * Edge Function Notification Helpers
+ *
+ * Thin wrapper around the send-whatsapp-notification Edge Function so other
+ * functions can notify caregivers about an alert they just created.
+ *
+ * @module edge-functions/notifications
+ */
+
+/**
+ * Ask send-whatsapp-notification to notify the patient's caregivers.
+ * Failures are logged and reported, never thrown.
+ *
+ * @param supabaseUrl - Project URL
+ * @param serviceKey - Service role key used to call the function
+ * @param alertId - Alert the notification is about
+ * @param message - Message text sent to caregivers
+ * @returns Whether the notification request succeeded
+ */
+export async function notifyCaregivers(
+  supabaseUrl: string,
+  serviceKey: string,
+  alertId: string,
+  message: string
+): Promise<boolean> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/send-whatsapp-notification`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({
+        alertId,
+        recipientType: "caregiver",
+        message,
+      }),
+    });
+
+    if (!response.ok) {
+      console.error("Caregiver notification failed:", await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error notifying caregivers:", error);
+    return false;
+  }
+}
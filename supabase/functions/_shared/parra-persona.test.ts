@@ -0,0 +1,70 @@
+/**
+ * Parra Persona Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildPersonaPrompt, getPersonaLocalTime, PERSONA_PROMPT_VERSION } from './parra-persona';
+
+describe('buildPersonaPrompt', () => {
+  it('should include the voice section only in voice conversations', () => {
+    const voice = buildPersonaPrompt({ channel: 'voice' });
+    const text = buildPersonaPrompt({ channel: 'text' });
+
+    expect(voice.sections).toContain('voice_mode');
+    expect(voice.content).toContain('VOICE & SPEECH CHARACTERISTICS');
+    expect(text.sections).not.toContain('voice_mode');
+    expect(text.content).toContain('TEXT conversation');
+  });
+
+  it('should record the prompt version', () => {
+    expect(buildPersonaPrompt({ channel: 'whatsapp' }).version).toBe(PERSONA_PROMPT_VERSION);
+  });
+
+  it('should fill in the patient, caregiver and known conditions', () => {
+    const { content } = buildPersonaPrompt({
+      channel: 'whatsapp',
+      patientName: 'Margaret',
+      caregiverName: 'Sarah',
+      knownConditions: ['type 2 diabetes', ' ', 'arthritis'],
+    });
+
+    expect(content).toContain('You are talking with Margaret.');
+    expect(content).toContain('Can I let Sarah know?');
+    expect(content).toContain('**When to alert Sarah**');
+    expect(content).toContain('Known conditions: type 2 diabetes, arthritis.');
+  });
+
+  it('should fall back to a neutral caregiver reference', () => {
+    const { content } = buildPersonaPrompt({ channel: 'text' });
+
+    expect(content).toContain('Can I let their caregiver know?');
+    expect(content).not.toContain('[caregiver name]');
+    expect(content).not.toContain('You are talking with');
+  });
+
+  it('should anchor the daily structure to the local time', () => {
+    const { content } = buildPersonaPrompt({
+      channel: 'text',
+      now: new Date('2025-11-07T14:30:00Z'),
+      timeZone: 'America/New_York',
+    });
+
+    expect(content).toContain('It is 9:30 AM (morning) where the user is. Follow Morning Check-In.');
+  });
+
+  it('should build only the requested sections, in prompt order', () => {
+    const prompt = buildPersonaPrompt({ channel: 'voice' }, ['escalation_protocol', 'identity']);
+
+    expect(prompt.sections).toEqual(['identity', 'escalation_protocol']);
+    expect(prompt.content.startsWith('You are Parra')).toBe(true);
+  });
+});
+
+describe('getPersonaLocalTime', () => {
+  it('should need both a clock and a timezone', () => {
+    expect(getPersonaLocalTime({ channel: 'text', now: new Date() })).toBeNull();
+    expect(
+      getPersonaLocalTime({ channel: 'text', now: new Date('2025-11-07T04:05:00Z'), timeZone: 'Europe/London' })
+    ).toEqual({ time: '4:05 AM', dayPart: 'night' });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Patient Memory Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { extractMemories, formatMemoryContext, normalizeMemories } from './patient-memory';
+
+describe('extractMemories', () => {
+  it('should extract a preferred name', () => {
+    expect(extractMemories(['Oh please, call me Dottie. Everyone does.'])).toEqual([
+      { category: 'preferred_name', content: 'Prefers to be called Dottie' },
+    ]);
+  });
+
+  it('should extract family members', () => {
+    expect(extractMemories(["My daughter Susan visited today. My grandson's name is Leo."])).toEqual([
+      { category: 'family', content: 'Daughter: Susan' },
+      { category: 'family', content: 'Grandson: Leo' },
+    ]);
+  });
+
+  it('should not mistake ordinary words for family names', () => {
+    expect(extractMemories(['My son is coming over later'])).toEqual([]);
+  });
+
+  it('should extract hobbies, medication and routines', () => {
+    expect(
+      extractMemories([
+        'I really love gardening.',
+        'I take my metformin twice a day with meals.',
+        'I usually walk to the park after lunch.',
+      ])
+    ).toEqual([
+      { category: 'hobby', content: 'Enjoys gardening' },
+      { category: 'medication', content: 'Takes metformin twice a day with meals' },
+      { category: 'routine', content: 'Usually walk to the park after lunch' },
+    ]);
+  });
+
+  it('should extract dislikes and ongoing health issues', () => {
+    expect(extractMemories(["I can't stand cold weather", 'My knee has been acting up again'])).toEqual([
+      { category: 'preference', content: 'Dislikes cold weather' },
+      { category: 'health', content: 'Mentions knee acting up' },
+    ]);
+  });
+
+  it('should not duplicate memories', () => {
+    expect(extractMemories(['I love knitting.', 'I love knitting!'])).toHaveLength(1);
+  });
+
+  it('should return nothing for small talk', () => {
+    expect(extractMemories(['Fine thanks, how are you?', 'It is sunny today'])).toEqual([]);
+  });
+});
+
+describe('normalizeMemories', () => {
+  it('should keep valid memories and default unknown categories', () => {
+    expect(
+      normalizeMemories([
+        { category: 'hobby', content: '  Enjoys   bridge ' },
+        { category: 'pets', content: 'Has a cat named Milo' },
+        { category: 'hobby', content: 'enjoys bridge' },
+        { category: 'family' },
+        'nonsense',
+      ])
+    ).toEqual([
+      { category: 'hobby', content: 'Enjoys bridge' },
+      { category: 'other', content: 'Has a cat named Milo' },
+    ]);
+  });
+
+  it('should return an empty list for non-arrays', () => {
+    expect(normalizeMemories(undefined)).toEqual([]);
+    expect(normalizeMemories({ content: 'x' })).toEqual([]);
+  });
+});
+
+describe('formatMemoryContext', () => {
+  it('should return an empty string when there is nothing to remember', () => {
+    expect(formatMemoryContext({ memories: [], summaries: [], commitments: [] })).toBe('');
+  });
+
+  it('should group memories and include summaries and commitments', () => {
+    const prompt = formatMemoryContext({
+      memories: [
+        { id: '1', category: 'hobby', content: 'Enjoys gardening', times_mentioned: 3, last_mentioned_at: '2025-10-20T10:00:00Z' },
+        { id: '2', category: 'preferred_name', content: 'Prefers to be called Dottie', times_mentioned: 1, last_mentioned_at: '2025-10-19T10:00:00Z' },
+      ],
+      summaries: [
+        { summary_date: '2025-10-20', overall_mood: 'happy', summary_text: 'Good day.', concerns: ['Low step count'] },
+      ],
+      commitments: [
+        { action: 'call Susan tonight', time: 'tonight', made_at: '2025-10-20T18:00:00Z' },
+      ],
+    });
+
+    expect(prompt).toContain('# MEMORY FROM PREVIOUS CONVERSATIONS');
+    expect(prompt.indexOf('Name:')).toBeLessThan(prompt.indexOf('Hobbies & interests:'));
+    expect(prompt).toContain('- Prefers to be called Dottie');
+    expect(prompt).toContain('- 2025-10-20 (mood: happy): Good day. Concerns: Low step count.');
+    expect(prompt).toContain('- call Susan tonight (tonight) — said on 2025-10-20');
+  });
+});
@@ -0,0 +1,272 @@
+/**
+ * Patient Memory
+ *
+ * What Parra remembers about a patient between conversations: preferred
+ * name, family, hobbies, medication schedule, routines and likes/dislikes.
+ * Memories are extracted after each check-in and injected into the chat
+ * prompt together with recent daily summaries and open commitments.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite. Database access lives in
+ * memory-store.ts.
+ *
+ * @module edge-functions/patient-memory
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Mirrors the patient_memories.category CHECK constraint
+ */
+export type MemoryCategory =
+  | "preferred_name"
+  | "family"
+  | "hobby"
+  | "medication"
+  | "routine"
+  | "preference"
+  | "health"
+  | "other";
+
+export interface ExtractedMemory {
+  category: MemoryCategory;
+  content: string;
+}
+
+export interface StoredMemory extends ExtractedMemory {
+  id: string;
+  times_mentioned: number;
+  last_mentioned_at: string;
+}
+
+export interface RecentSummary {
+  summary_date: string;
+  overall_mood: string | null;
+  summary_text: string | null;
+  concerns: string[] | null;
+}
+
+export interface OpenCommitment {
+  action: string;
+  time: string | null;
+  made_at: string;
+}
+
+export interface ConversationContext {
+  memories: StoredMemory[];
+  summaries: RecentSummary[];
+  commitments: OpenCommitment[];
+}
+
+export const MEMORY_CATEGORIES: readonly MemoryCategory[] = [
+  "preferred_name",
+  "family",
+  "hobby",
+  "medication",
+  "routine",
+  "preference",
+  "health",
+  "other",
+];
+
+const CATEGORY_HEADINGS: Record<MemoryCategory, string> = {
+  preferred_name: "Name",
+  family: "Family",
+  hobby: "Hobbies & interests",
+  medication: "Medication schedule",
+  routine: "Routines",
+  preference: "Likes & dislikes",
+  health: "Health",
+  other: "Other",
+};
+
+export const MAX_MEMORY_LENGTH = 500;
+
+// ============================================================================
+// Extraction Rules
+// ============================================================================
+
+const FAMILY_RELATIONS =
+  "daughter|son|granddaughter|grandson|grandchild|husband|wife|partner|sister|brother|niece|nephew|cousin|friend|neighbou?r";
+
+interface MemoryRule {
+  category: MemoryCategory;
+  pattern: RegExp;
+  format: (match: RegExpMatchArray) => string | null;
+}
+
+const STOP_WORDS = new Set(["it", "that", "this", "you", "them", "him", "her", "to", "the", "a"]);
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function clean(value: string): string {
+  return value.trim().replace(/\s+/g, " ").replace(/[,;:]+$/, "");
+}
+
+const MEMORY_RULES: MemoryRule[] = [
+  {
+    category: "preferred_name",
+    pattern: /\b(?:please call me|call me|i go by|everyone calls me|my friends call me)\s+([A-Z][a-z]+)\b/,
+    format: (match) => `Prefers to be called ${match[1]}`,
+  },
+  {
+    category: "family",
+    pattern: new RegExp(`\\bmy (${FAMILY_RELATIONS})(?:'s name is|,)?\\s+(?:is called |named )?([A-Z][a-z]+)\\b`, "i"),
+    format: (match) => /^[A-Z]/.test(match[2]) ? `${capitalize(match[1].toLowerCase())}: ${match[2]}` : null,
+  },
+  {
+    category: "hobby",
+    pattern: /\bi (?:really |just )?(?:love|enjoy|like) ((?:[a-z]+ing)(?: (?:my|the|a|with|on|in|at)? ?[a-z]+){0,2})/i,
+    format: (match) => `Enjoys ${clean(match[1]).toLowerCase()}`,
+  },
+  {
+    category: "medication",
+    pattern: /\bi take (?:my )?([a-z][a-z0-9 -]{1,40}?) ((?:every|each|twice a|once a|in the|at|before|after|with) [^.!?,]{2,40})/i,
+    format: (match) => `Takes ${clean(match[1])} ${clean(match[2])}`,
+  },
+  {
+    category: "routine",
+    pattern: /\bi (?:usually|always|normally|often) ([a-z][^.!?]{4,60})/i,
+    format: (match) => `Usually ${clean(match[1])}`,
+  },
+  {
+    category: "preference",
+    pattern: /\bi (?:don'?t like|do not like|hate|can'?t stand|dislike) ([^.!?,]{3,40})/i,
+    format: (match) => `Dislikes ${clean(match[1])}`,
+  },
+  {
+    category: "health",
+    pattern: /\bmy (knees?|hips?|back|shoulders?|hands?|feet|eyes|hearing|arthritis|diabetes|blood pressure|heart)\b[^.!?]{0,20}\b(hurts?|aches?|acting up|bothering me|is bad|is worse|is better)/i,
+    format: (match) => `Mentions ${match[1].toLowerCase()} ${match[2].toLowerCase()}`,
+  },
+];
+
+// ============================================================================
+// Extraction & Normalization
+// ============================================================================
+
+/**
+ * Extract memories from what the senior said in a conversation
+ *
+ * @param texts - The senior's messages
+ * @returns Unique memories, in the order they were found
+ */
+export function extractMemories(texts: string[]): ExtractedMemory[] {
+  const memories: ExtractedMemory[] = [];
+  const seen = new Set<string>();
+
+  for (const text of texts) {
+    // Rules are applied per sentence so one sentence can't bleed into the next
+    for (const sentence of text.split(/(?<=[.!?])\s+/)) {
+      for (const rule of MEMORY_RULES) {
+        const match = sentence.match(rule.pattern);
+        if (!match) continue;
+
+        const content = rule.format(match);
+        if (!content) continue;
+
+        const lastWord = content.split(" ").pop()?.toLowerCase() ?? "";
+        if (STOP_WORDS.has(lastWord)) continue;
+
+        const key = `${rule.category}:${content.toLowerCase()}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          memories.push({ category: rule.category, content: content.slice(0, MAX_MEMORY_LENGTH) });
+        }
+      }
+    }
+  }
+
+  return memories;
+}
+
+/**
+ * Coerce untrusted memory output (e.g. LLM JSON) into valid memories
+ */
+export function normalizeMemories(raw: unknown): ExtractedMemory[] {
+  if (!Array.isArray(raw)) return [];
+
+  const memories: ExtractedMemory[] = [];
+  const seen = new Set<string>();
+
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const value = item as Record<string, unknown>;
+    if (typeof value.content !== "string") continue;
+
+    const content = value.content.trim().replace(/\s+/g, " ").slice(0, MAX_MEMORY_LENGTH);
+    if (!content) continue;
+
+    const category = MEMORY_CATEGORIES.includes(value.category as MemoryCategory)
+      ? (value.category as MemoryCategory)
+      : "other";
+
+    const key = `${category}:${content.toLowerCase()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      memories.push({ category, content });
+    }
+  }
+
+  return memories.slice(0, 20);
+}
+
+// ============================================================================
+// Prompt Formatting
+// ============================================================================
+
+/**
+ * Render memories, recent days and open commitments as a system prompt section.
+ * Returns an empty string when there is nothing to remember.
+ *
+ * @param context - Conversation context loaded for the patient
+ * @returns Prompt text
+ */
+export function formatMemoryContext(context: ConversationContext): string {
+  const sections: string[] = [];
+
+  if (context.memories.length > 0) {
+    const lines: string[] = [];
+    for (const category of MEMORY_CATEGORIES) {
+      const items = context.memories.filter((memory) => memory.category === category);
+      if (items.length === 0) continue;
+      lines.push(`${CATEGORY_HEADINGS[category]}:`);
+      for (const item of items) {
+        lines.push(`- ${item.content}`);
+      }
+    }
+    sections.push(`## What you remember about them\n${lines.join("\n")}`);
+  }
+
+  if (context.summaries.length > 0) {
+    const lines = context.summaries.map((summary) => {
+      const mood = summary.overall_mood ? ` (mood: ${summary.overall_mood})` : "";
+      const text = summary.summary_text || "No summary recorded.";
+      const concerns = summary.concerns && summary.concerns.length > 0
+        ? ` Concerns: ${summary.concerns.join("; ")}.`
+        : "";
+      return `- ${summary.summary_date}${mood}: ${text}${concerns}`;
+    });
+    sections.push(`## Recent days\n${lines.join("\n")}`);
+  }
+
+  if (context.commitments.length > 0) {
+    const lines = context.commitments.map((commitment) => {
+      const when = commitment.time ? ` (${commitment.time})` : "";
+      return `- ${commitment.action}${when} — said on ${commitment.made_at.split("T")[0]}`;
+    });
+    sections.push(`## Things they said they would do\nAsk about these gently, not like a checklist.\n${lines.join("\n")}`);
+  }
+
+  if (sections.length === 0) return "";
+
+  return `# MEMORY FROM PREVIOUS CONVERSATIONS
+
+Use this naturally to make the conversation feel continuous. Don't recite it back, and don't mention that it is stored.
+
+${sections.join("\n\n")}`;
+}
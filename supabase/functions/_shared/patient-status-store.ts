@@ -0,0 +1,105 @@
+/**
+ * Patient Status Store
+ *
+ * Loads the patient's day so far (see patient-status.ts) and the care
+ * details the Parra persona is filled in with. Expects a service role
+ * client.
+ *
+ * @module edge-functions/patient-status-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+  RECENT_MOTION_HOURS,
+  type OpenAlert,
+  type PatientStatus,
+  type RecentMotionEvent,
+  type TodaySummary,
+} from "./patient-status.ts";
+import { getLocalDateString } from "./timezone.ts";
+
+const ALERT_LIMIT = 5;
+const MOTION_EVENT_LIMIT = 50;
+
+interface MotionEventRow {
+  detection_state: RecentMotionEvent["detection_state"];
+  recorded_at: string;
+  device: { location: string | null; device_name: string | null } | null;
+}
+
+/**
+ * Today's summary, unacknowledged alerts and recent motion for a patient
+ */
+export async function loadPatientStatus(
+  supabase: SupabaseClient,
+  patientId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<PatientStatus> {
+  const today = getLocalDateString(now, timeZone);
+  const motionSince = new Date(now.getTime() - RECENT_MOTION_HOURS * 60 * 60 * 1000).toISOString();
+
+  const [summary, alerts, sensors, motionEvents] = await Promise.all([
+    supabase
+      .from("daily_summaries")
+      .select(
+        "overall_status, status_reason, summary_text, check_in_count, medication_taken, meals_reported, activity_reported, concerns"
+      )
+      .eq("patient_id", patientId)
+      .eq("summary_date", today)
+      .maybeSingle(),
+    supabase
+      .from("alerts")
+      .select("alert_type, severity, alert_message, created_at")
+      .eq("patient_id", patientId)
+      .eq("status", "active")
+      .order("created_at", { ascending: false })
+      .limit(ALERT_LIMIT),
+    supabase
+      .from("switchbot_devices")
+      .select("id", { count: "exact", head: true })
+      .eq("patient_id", patientId)
+      .eq("is_active", true),
+    supabase
+      .from("motion_sensor_events")
+      .select("detection_state, recorded_at, device:switchbot_devices(location, device_name)")
+      .eq("patient_id", patientId)
+      .gte("recorded_at", motionSince)
+      .order("recorded_at", { ascending: false })
+      .limit(MOTION_EVENT_LIMIT),
+  ]);
+
+  for (const result of [summary, alerts, sensors, motionEvents]) {
+    if (result.error) throw new Error(`Failed to load patient status: ${result.error.message}`);
+  }
+
+  return {
+    summary: (summary.data as TodaySummary | null) ?? null,
+    alerts: (alerts.data || []) as OpenAlert[],
+    hasMotionSensors: (sensors.count ?? 0) > 0,
+    motionEvents: ((motionEvents.data || []) as unknown as MotionEventRow[]).map((row) => ({
+      detection_state: row.detection_state,
+      recorded_at: row.recorded_at,
+      location: row.device?.location || row.device?.device_name || null,
+    })),
+  };
+}
+
+/**
+ * Name of the patient's active primary caregiver, if they have one
+ */
+export async function loadPrimaryCaregiverName(supabase: SupabaseClient, patientId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("care_relationships")
+    .select("caregiver:profiles!care_relationships_caregiver_id_fkey(full_name, display_name)")
+    .eq("patient_id", patientId)
+    .eq("relationship_type", "primary_caregiver")
+    .eq("status", "active")
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load primary caregiver: ${error.message}`);
+
+  const caregiver = data?.caregiver as { full_name: string | null; display_name: string | null } | null | undefined;
+  return caregiver?.display_name || caregiver?.full_name || null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Patient Status Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeRecentMotion, formatPatientStatusPrompt, type PatientStatus } from './patient-status';
+
+const TZ = 'America/New_York';
+
+const emptyStatus: PatientStatus = {
+  summary: null,
+  alerts: [],
+  hasMotionSensors: false,
+  motionEvents: [],
+};
+
+describe('describeRecentMotion', () => {
+  it('should say nothing without motion sensors', () => {
+    expect(describeRecentMotion(emptyStatus, TZ)).toBeNull();
+  });
+
+  it('should report no movement when sensors saw none', () => {
+    const status: PatientStatus = {
+      ...emptyStatus,
+      hasMotionSensors: true,
+      motionEvents: [{ detection_state: 'NOT_DETECTED', recorded_at: '2025-11-07T14:00:00Z', location: 'Kitchen' }],
+    };
+
+    expect(describeRecentMotion(status, TZ)).toBe('No movement detected in the last 6 hours.');
+  });
+
+  it('should give the latest movement in local time and the rooms', () => {
+    const status: PatientStatus = {
+      ...emptyStatus,
+      hasMotionSensors: true,
+      motionEvents: [
+        { detection_state: 'DETECTED', recorded_at: '2025-11-07T14:20:00Z', location: 'Kitchen' },
+        { detection_state: 'NOT_DETECTED', recorded_at: '2025-11-07T13:00:00Z', location: 'Bathroom' },
+        { detection_state: 'DETECTED', recorded_at: '2025-11-07T12:10:00Z', location: 'Bedroom' },
+      ],
+    };
+
+    expect(describeRecentMotion(status, TZ)).toBe(
+      'Last movement detected 9:20 AM in the Kitchen. Movement in: Kitchen, Bedroom.'
+    );
+  });
+});
+
+describe('formatPatientStatusPrompt', () => {
+  it('should return an empty string when there is nothing to report', () => {
+    expect(formatPatientStatusPrompt(emptyStatus, TZ)).toBe('');
+  });
+
+  it("should include today's summary, open alerts and motion", () => {
+    const prompt = formatPatientStatusPrompt(
+      {
+        summary: {
+          overall_status: 'warning',
+          status_reason: 'Medication not confirmed',
+          summary_text: 'Quiet morning.',
+          check_in_count: 1,
+          medication_taken: false,
+          meals_reported: 0,
+          activity_reported: false,
+          concerns: ['Skipped breakfast'],
+        },
+        alerts: [
+          {
+            alert_type: 'no_activity',
+            severity: 'high',
+            alert_message: 'No motion in the bathroom for 30 minutes',
+            created_at: '2025-11-07T13:45:00Z',
+          },
+        ],
+        hasMotionSensors: true,
+        motionEvents: [],
+      },
+      TZ
+    );
+
+    expect(prompt).toContain('# TODAY SO FAR');
+    expect(prompt).toContain('- Status: warning (Medication not confirmed)');
+    expect(prompt).toContain('- Medication: not confirmed');
+    expect(prompt).toContain('- Concerns: Skipped breakfast');
+    expect(prompt).toContain('- 8:45 AM, high: No motion in the bathroom for 30 minutes');
+    expect(prompt).toContain('No movement detected in the last 6 hours.');
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Patient Status
+ *
+ * What Parra knows about the patient's day before they say anything: today's
+ * daily summary, alerts the care team hasn't acknowledged and recent motion
+ * sensor activity. senior-chat adds it to the system prompt so the "I'm fine"
+ * signal detection has behavioral data to compare against.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/patient-status
+ */
+
+import { formatClockTime, getLocalParts } from "./timezone.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Motion sensor activity this far back is described to Parra */
+export const RECENT_MOTION_HOURS = 6;
+
+export interface TodaySummary {
+  overall_status: "ok" | "warning" | "alert";
+  status_reason: string | null;
+  summary_text: string | null;
+  check_in_count: number;
+  medication_taken: boolean | null;
+  meals_reported: number;
+  activity_reported: boolean;
+  concerns: string[] | null;
+}
+
+export interface OpenAlert {
+  alert_type: string;
+  severity: "low" | "medium" | "high" | "critical";
+  alert_message: string;
+  created_at: string;
+}
+
+export interface RecentMotionEvent {
+  detection_state: "DETECTED" | "NOT_DETECTED";
+  recorded_at: string;
+  /** Room of the sensor, e.g. "Kitchen" */
+  location: string | null;
+}
+
+export interface PatientStatus {
+  summary: TodaySummary | null;
+  alerts: OpenAlert[];
+  /** Whether the patient has an active motion sensor at all */
+  hasMotionSensors: boolean;
+  /** Events from the last RECENT_MOTION_HOURS, newest first */
+  motionEvents: RecentMotionEvent[];
+}
+
+// ============================================================================
+// Wording
+// ============================================================================
+
+function formatLocalTime(iso: string, timeZone: string): string {
+  const { hour, minute } = getLocalParts(new Date(iso), timeZone);
+  return formatClockTime(`${hour}:${minute}`);
+}
+
+function describeSummary(summary: TodaySummary): string[] {
+  const lines = [`- Status: ${summary.overall_status}${summary.status_reason ? ` (${summary.status_reason})` : ""}`];
+
+  if (summary.summary_text) lines.push(`- ${summary.summary_text}`);
+  lines.push(`- Check-ins so far: ${summary.check_in_count}`);
+
+  if (summary.medication_taken !== null) {
+    lines.push(`- Medication: ${summary.medication_taken ? "taken" : "not confirmed"}`);
+  }
+
+  lines.push(`- Meals mentioned: ${summary.meals_reported}`);
+  lines.push(`- Activity mentioned: ${summary.activity_reported ? "yes" : "no"}`);
+
+  if (summary.concerns && summary.concerns.length > 0) {
+    lines.push(`- Concerns: ${summary.concerns.join("; ")}`);
+  }
+
+  return lines;
+}
+
+/**
+ * Describe recent motion: when and where movement was last detected, or that
+ * none was
+ */
+export function describeRecentMotion(status: PatientStatus, timeZone: string): string | null {
+  if (!status.hasMotionSensors) return null;
+
+  const detections = status.motionEvents.filter((event) => event.detection_state === "DETECTED");
+  if (detections.length === 0) {
+    return `No movement detected in the last ${RECENT_MOTION_HOURS} hours.`;
+  }
+
+  const latest = detections[0];
+  const where = latest.location ? ` in the ${latest.location}` : "";
+  const rooms = [...new Set(detections.map((event) => event.location).filter(Boolean))];
+  const around = rooms.length > 1 ? ` Movement in: ${rooms.join(", ")}.` : "";
+
+  return `Last movement detected ${formatLocalTime(latest.recorded_at, timeZone)}${where}.${around}`;
+}
+
+/**
+ * System prompt section with the patient's day so far. Returns an empty
+ * string when there is nothing to report.
+ *
+ * @param status - Status loaded for the patient
+ * @param timeZone - Patient's timezone, for event times
+ * @returns Prompt text
+ */
+export function formatPatientStatusPrompt(status: PatientStatus, timeZone: string): string {
+  const sections: string[] = [];
+
+  if (status.summary) {
+    sections.push(`## Today's summary\n${describeSummary(status.summary).join("\n")}`);
+  }
+
+  if (status.alerts.length > 0) {
+    const lines = status.alerts.map(
+      (alert) => `- ${formatLocalTime(alert.created_at, timeZone)}, ${alert.severity}: ${alert.alert_message}`
+    );
+    sections.push(`## Open alerts\nThe care team has not acknowledged these yet.\n${lines.join("\n")}`);
+  }
+
+  const motion = describeRecentMotion(status, timeZone);
+  if (motion) {
+    sections.push(`## Motion sensors\n${motion}`);
+  }
+
+  if (sections.length === 0) return "";
+
+  return `# TODAY SO FAR
+
+Use this for Level 3 signal detection: if what they tell you doesn't match it, mention the difference gently once. Don't read it out or say how you know unless they ask.
+
+${sections.join("\n\n")}`;
+}
@@ -0,0 +1,90 @@
+/**
+ * Reminder Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatReminderMessage,
+  formatReminderPrompt,
+  getReminderDueAt,
+  getReminderState,
+  isReminderAcknowledgement,
+} from './reminders';
+
+describe('getReminderDueAt', () => {
+  it('should read the reminder time in the patient timezone', () => {
+    expect(getReminderDueAt({ reminder_date: '2025-10-20', reminder_time: '14:30:00' }, 'America/New_York').toISOString())
+      .toBe('2025-10-20T18:30:00.000Z');
+    expect(getReminderDueAt({ reminder_date: '2025-10-20', reminder_time: '14:30' }, 'Europe/London').toISOString())
+      .toBe('2025-10-20T13:30:00.000Z');
+  });
+
+  it('should default date-only reminders to the morning', () => {
+    expect(getReminderDueAt({ reminder_date: '2025-10-20', reminder_time: null }, 'America/New_York').toISOString())
+      .toBe('2025-10-20T13:00:00.000Z');
+  });
+});
+
+describe('getReminderState', () => {
+  const reminder = { reminder_date: '2025-10-20', reminder_time: '14:30' };
+
+  it('should wait until the local time has passed', () => {
+    expect(getReminderState(reminder, 'America/New_York', new Date('2025-10-20T18:29:00Z'))).toBe('pending');
+    expect(getReminderState(reminder, 'America/New_York', new Date('2025-10-20T18:30:00Z'))).toBe('due');
+  });
+
+  it('should expire reminders that are long overdue', () => {
+    expect(getReminderState(reminder, 'America/New_York', new Date('2025-10-21T06:00:00Z'))).toBe('due');
+    expect(getReminderState(reminder, 'America/New_York', new Date('2025-10-21T07:00:00Z'))).toBe('expired');
+  });
+});
+
+describe('formatReminderMessage', () => {
+  const input = {
+    noteText: ' Take your blood pressure pill with lunch ',
+    createdBy: 'caregiver' as const,
+    patientName: 'Dorothy Williams',
+    fromName: 'Susan Williams',
+  };
+
+  it('should say who the reminder is from and ask for a reply on WhatsApp', () => {
+    expect(formatReminderMessage(input, 'whatsapp')).toBe(
+      'Hi Dorothy, a reminder from Susan: Take your blood pressure pill with lunch\n\nReply "done" or "ok" so they know you got it.'
+    );
+    expect(formatReminderMessage({ ...input, fromName: null }, 'email')).toBe(
+      'Hi Dorothy, a reminder from your care team: Take your blood pressure pill with lunch'
+    );
+  });
+
+  it('should word Parra follow-ups as a check-in', () => {
+    expect(formatReminderMessage({ ...input, createdBy: 'parra' }, 'whatsapp')).toBe(
+      "Hi Dorothy, it's Parra checking back in like I said I would. How are you doing?"
+    );
+  });
+});
+
+describe('formatReminderPrompt', () => {
+  it('should list reminders with their ids', () => {
+    const prompt = formatReminderPrompt([
+      { id: 'r1', note_text: 'Dentist at 3pm', from_name: 'Susan', reminder_sent_at: '2025-10-20T12:00:00Z' },
+    ]);
+
+    expect(prompt).toContain('acknowledge_reminder');
+    expect(prompt).toContain('- [r1] From Susan: Dentist at 3pm');
+    expect(formatReminderPrompt([])).toBe('');
+  });
+});
+
+describe('isReminderAcknowledgement', () => {
+  it('should accept short confirmations', () => {
+    for (const reply of ['ok', 'Okay thanks!', 'Done', 'will do', 'Yes dear', 'Got it, thank you', '👍']) {
+      expect(isReminderAcknowledgement(reply)).toBe(true);
+    }
+  });
+
+  it('should not treat other messages as confirmations', () => {
+    for (const reply of ["I didn't get to it", 'What reminder?', 'Not yet', 'ok but I forgot my pills']) {
+      expect(isReminderAcknowledgement(reply)).toBe(false);
+    }
+  });
+});
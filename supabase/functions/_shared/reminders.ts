@@ -0,0 +1,143 @@
+/**
+ * Reminders
+ *
+ * Scheduling and wording for reminder notes (caregiver_notes with
+ * is_reminder = true) that dispatch-reminders delivers to the senior over
+ * WhatsApp, email or the next Parra chat, plus recognising the senior's
+ * acknowledgement of one.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/reminders
+ */
+
+import { zonedTimeToUtc } from "./timezone.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export const REMINDER_CHANNELS = ["whatsapp", "email", "chat"] as const;
+
+export type ReminderChannel = (typeof REMINDER_CHANNELS)[number];
+
+export type ReminderState = "pending" | "due" | "expired";
+
+export interface ScheduledReminder {
+  reminder_date: string;
+  reminder_time: string | null;
+}
+
+export interface ReminderMessageInput {
+  noteText: string;
+  createdBy: "caregiver" | "parra";
+  patientName: string;
+  /** Caregiver who wrote the reminder */
+  fromName: string | null;
+}
+
+/**
+ * A delivered chat reminder waiting for the senior's next conversation
+ */
+export interface ChatReminder {
+  id: string;
+  note_text: string;
+  from_name: string | null;
+  reminder_sent_at: string;
+}
+
+/** Time used for reminders scheduled for a date only */
+export const DEFAULT_REMINDER_TIME = "09:00";
+
+/** Failed deliveries are retried on later runs up to this many attempts */
+export const MAX_REMINDER_ATTEMPTS = 3;
+
+/** Reminders this far past their time are not sent at all */
+export const REMINDER_EXPIRY_HOURS = 12;
+
+/** How long after delivery a reply or chat can still acknowledge a reminder */
+export const REMINDER_ACK_WINDOW_HOURS = 12;
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * UTC instant a reminder is due, from its local date and time
+ */
+export function getReminderDueAt(reminder: ScheduledReminder, timeZone: string): Date {
+  return zonedTimeToUtc(reminder.reminder_date, reminder.reminder_time || DEFAULT_REMINDER_TIME, timeZone);
+}
+
+/**
+ * Whether a reminder should be sent now, later, or has been missed
+ */
+export function getReminderState(reminder: ScheduledReminder, timeZone: string, now: Date): ReminderState {
+  const dueAt = getReminderDueAt(reminder, timeZone).getTime();
+  if (dueAt > now.getTime()) return "pending";
+  if (now.getTime() - dueAt > REMINDER_EXPIRY_HOURS * 60 * 60 * 1000) return "expired";
+  return "due";
+}
+
+// ============================================================================
+// Wording
+// ============================================================================
+
+function firstName(name: string): string {
+  return name.trim().split(/\s+/)[0] || name;
+}
+
+/**
+ * Message sent to the senior over WhatsApp or email
+ */
+export function formatReminderMessage(input: ReminderMessageInput, channel: "whatsapp" | "email"): string {
+  const name = firstName(input.patientName);
+
+  // Parra's own follow-ups are a check-in, not a task
+  if (input.createdBy === "parra") {
+    return `Hi ${name}, it's Parra checking back in like I said I would. How are you doing?`;
+  }
+
+  const from = input.fromName ? `a reminder from ${firstName(input.fromName)}` : "a reminder from your care team";
+  const message = `Hi ${name}, ${from}: ${input.noteText.trim()}`;
+
+  return channel === "whatsapp"
+    ? `${message}\n\nReply "done" or "ok" so they know you got it.`
+    : message;
+}
+
+/**
+ * System prompt section asking Parra to pass on chat reminders
+ */
+export function formatReminderPrompt(reminders: ChatReminder[]): string {
+  if (reminders.length === 0) return "";
+
+  const lines = reminders.map((reminder) => {
+    const from = reminder.from_name ? `From ${reminder.from_name}` : "From their care team";
+    return `- [${reminder.id}] ${from}: ${reminder.note_text}`;
+  });
+
+  return `# REMINDERS FROM THEIR CARE TEAM
+
+Pass these on early in the conversation, in your own words and one at a time. When they confirm they've got one, call acknowledge_reminder with its id.
+
+${lines.join("\n")}`;
+}
+
+// ============================================================================
+// Acknowledgement
+// ============================================================================
+
+const ACKNOWLEDGEMENT_PATTERN =
+  /^\s*(?:ok(?:ay)?|k|done|did it|all done|got it|will do|yes|yep|yeah|sure|thanks?|thank you|ty|noted|on it|i will|i did|already did)\b|👍|✅|👌/i;
+
+const NEGATED_PATTERN = /\b(?:not|didn'?t|can'?t|won'?t|haven'?t|don'?t|forgot)\b/i;
+
+/**
+ * Whether a WhatsApp reply confirms the senior got a reminder
+ */
+export function isReminderAcknowledgement(text: string): boolean {
+  if (NEGATED_PATTERN.test(text)) return false;
+  return ACKNOWLEDGEMENT_PATTERN.test(text);
+}
@@ -0,0 +1,51 @@
+/**
+ * Data Retention Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getRetentionCutoff, parseRetentionCounts, RETENTION_POLICIES } from './retention';
+
+describe('RETENTION_POLICIES', () => {
+  it('should anonymize conversations and delete raw readings', () => {
+    const actions = Object.fromEntries(RETENTION_POLICIES.map((policy) => [policy.table, policy.action]));
+
+    expect(actions).toEqual({
+      check_ins: 'anonymize',
+      voice_checkins: 'anonymize',
+      motion_sensor_events: 'delete',
+      health_metrics: 'delete',
+    });
+  });
+
+  it('should never purge aggregates', () => {
+    const tables = RETENTION_POLICIES.map((policy) => policy.table as string);
+
+    expect(tables).not.toContain('daily_summaries');
+    expect(tables).not.toContain('health_metric_aggregates');
+  });
+});
+
+describe('getRetentionCutoff', () => {
+  it('should go back the configured number of days', () => {
+    const cutoff = getRetentionCutoff(new Date('2025-11-06T03:00:00Z'), 30);
+
+    expect(cutoff.toISOString()).toBe('2025-10-07T03:00:00.000Z');
+  });
+});
+
+describe('parseRetentionCounts', () => {
+  it('should read each table count and default missing ones to 0', () => {
+    expect(parseRetentionCounts({ check_ins: 12, health_metrics: 340, voice_checkins: 'x' })).toEqual({
+      check_ins: 12,
+      voice_checkins: 0,
+      motion_sensor_events: 0,
+      health_metrics: 340,
+    });
+    expect(parseRetentionCounts(null)).toEqual({
+      check_ins: 0,
+      voice_checkins: 0,
+      motion_sensor_events: 0,
+      health_metrics: 0,
+    });
+  });
+});
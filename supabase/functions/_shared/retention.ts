@@ -0,0 +1,99 @@
+/**
+ * Data Retention
+ *
+ * What the purge-expired-data job does with rows older than the
+ * dataRetentionDays system setting, table by table. Conversation content is
+ * anonymized: the row stays, so counts, moods and alerts that point at it
+ * keep working, but what was said is cleared. Raw sensor and health readings
+ * are deleted. Roll-ups (daily_summaries, health_metric_aggregates) are never
+ * touched.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/retention
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RetentionTable = "check_ins" | "voice_checkins" | "motion_sensor_events" | "health_metrics";
+
+export type RetentionAction = "anonymize" | "delete";
+
+export interface RetentionPolicy {
+  table: RetentionTable;
+  action: RetentionAction;
+  /** Column the row's age is measured from */
+  ageColumn: string;
+  /** What is removed, for the dry-run report and activity log */
+  description: string;
+}
+
+/** Rows past the window, per table (counted or purged) */
+export type RetentionCounts = Record<RetentionTable, number>;
+
+// ============================================================================
+// Policies
+// ============================================================================
+
+export const RETENTION_POLICIES: RetentionPolicy[] = [
+  {
+    table: "check_ins",
+    action: "anonymize",
+    ageColumn: "started_at",
+    description: "Conversation messages, commitments and safety concern details cleared",
+  },
+  {
+    table: "voice_checkins",
+    action: "anonymize",
+    ageColumn: "created_at",
+    description: "Audio links, transcripts and replies cleared",
+  },
+  {
+    table: "motion_sensor_events",
+    action: "delete",
+    ageColumn: "recorded_at",
+    description: "Motion sensor events deleted",
+  },
+  {
+    table: "health_metrics",
+    action: "delete",
+    ageColumn: "recorded_at",
+    description: "Individual health readings deleted (aggregates are kept)",
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// Retention Window
+// ============================================================================
+
+/**
+ * Oldest moment still inside the retention window. Rows recorded before it
+ * are purged.
+ *
+ * @param now - Current time
+ * @param retentionDays - dataRetentionDays system setting
+ */
+export function getRetentionCutoff(now: Date, retentionDays: number): Date {
+  return new Date(now.getTime() - retentionDays * DAY_MS);
+}
+
+/**
+ * Read per-table counts from the purge_expired_data() result, treating
+ * anything missing as 0
+ */
+export function parseRetentionCounts(raw: unknown): RetentionCounts {
+  const stored = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const counts = {} as RetentionCounts;
+
+  for (const { table } of RETENTION_POLICIES) {
+    const value = stored[table];
+    counts[table] = typeof value === "number" && Number.isFinite(value) ? value : 0;
+  }
+
+  return counts;
+}
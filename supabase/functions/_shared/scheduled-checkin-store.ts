@@ -0,0 +1,48 @@
+/**
+ * Scheduled Check-in Store
+ *
+ * Records the senior's answer to check-ins dispatch-checkins started, for
+ * senior-chat and whatsapp-webhook. Expects a service role client.
+ *
+ * @module edge-functions/scheduled-checkin-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import type { CheckInChannel } from "./scheduled-checkins.ts";
+
+export interface AnsweredCheckIn {
+  id: string;
+  channel: CheckInChannel;
+  message: string | null;
+  scheduled_time: string;
+}
+
+/**
+ * Mark every check-in still waiting for the patient as answered. Any
+ * message counts, on any channel.
+ *
+ * @returns The check-ins answered, oldest first
+ */
+export async function markCheckInsAnswered(
+  supabase: SupabaseClient,
+  patientId: string,
+  checkInId: string | null = null,
+  now: Date = new Date()
+): Promise<AnsweredCheckIn[]> {
+  const { data, error } = await supabase
+    .from("scheduled_checkins")
+    .update({
+      status: "answered",
+      answered_at: now.toISOString(),
+      ...(checkInId ? { check_in_id: checkInId } : {}),
+    })
+    .eq("patient_id", patientId)
+    .eq("status", "sent")
+    .select("id, channel, message, scheduled_time, sent_at");
+
+  if (error) throw new Error(`Failed to record check-in answer: ${error.message}`);
+
+  return ((data || []) as (AnsweredCheckIn & { sent_at: string | null })[])
+    .sort((a, b) => (a.sent_at ?? "").localeCompare(b.sent_at ?? ""))
+    .map(({ id, channel, message, scheduled_time }) => ({ id, channel, message, scheduled_time }));
+}
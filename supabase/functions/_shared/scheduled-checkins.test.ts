@@ -0,0 +1,50 @@
+/**
+ * Scheduled Check-in Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatCheckInGreeting,
+  formatMissedCheckInMessage,
+  getCheckInSlotState,
+  isTooSoonForCheckIn,
+} from './scheduled-checkins';
+
+describe('getCheckInSlotState', () => {
+  const scheduledAt = new Date('2025-10-30T13:00:00Z');
+
+  it('should send a check-in from its time until the send window closes', () => {
+    expect(getCheckInSlotState(scheduledAt, new Date('2025-10-30T12:59:00Z'))).toBe('pending');
+    expect(getCheckInSlotState(scheduledAt, new Date('2025-10-30T13:00:00Z'))).toBe('due');
+    expect(getCheckInSlotState(scheduledAt, new Date('2025-10-30T13:30:00Z'))).toBe('due');
+    expect(getCheckInSlotState(scheduledAt, new Date('2025-10-30T13:31:00Z'))).toBe('expired');
+  });
+});
+
+describe('isTooSoonForCheckIn', () => {
+  const now = new Date('2025-10-30T15:00:00Z');
+
+  it('should space check-ins at least 3 hours after the last conversation', () => {
+    expect(isTooSoonForCheckIn(new Date('2025-10-30T12:30:00Z'), now)).toBe(true);
+    expect(isTooSoonForCheckIn(new Date('2025-10-30T12:00:00Z'), now)).toBe(false);
+    expect(isTooSoonForCheckIn(null, now)).toBe(false);
+  });
+});
+
+describe('formatCheckInGreeting', () => {
+  it('should follow the touchpoint for the local time of day', () => {
+    expect(formatCheckInGreeting('Dorothy', '08:30')).toContain('Good morning, Dorothy!');
+    expect(formatCheckInGreeting('Dorothy', '13:00:00')).toBe("Hey there, Dorothy! How's your day going?");
+    expect(formatCheckInGreeting('Dorothy', '18:00')).toContain('How was your day?');
+    expect(formatCheckInGreeting('Dorothy', '22:30')).toContain('before bed');
+  });
+});
+
+describe('formatMissedCheckInMessage', () => {
+  it('should name the time and channel', () => {
+    expect(formatMissedCheckInMessage('Dorothy', '09:00:00', 'whatsapp')).toBe(
+      "Dorothy has not answered Parra's 9:00 AM check-in on WhatsApp."
+    );
+    expect(formatMissedCheckInMessage('Dorothy', '18:30', 'app')).toContain('6:30 PM check-in in the Parra app');
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Scheduled Check-ins
+ *
+ * Timing and wording rules for the check-ins Parra starts on its own
+ * (checkin_schedules / scheduled_checkins). Check-in times are wall-clock
+ * times in the patient's timezone and follow the morning / afternoon /
+ * evening touchpoints in the senior-chat prompt, including its rule that
+ * check-ins are spaced at least MIN_CHECKIN_SPACING_HOURS apart.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/scheduled-checkins
+ */
+
+import { formatClockTime, getDayPart, type DayPart } from "./timezone.ts";
+
+export type CheckInChannel = "whatsapp" | "app";
+
+export type CheckInSlotState = "pending" | "due" | "expired";
+
+/** Matches the "space check-ins by at least 3 hours" rule in the prompt */
+export const MIN_CHECKIN_SPACING_HOURS = 3;
+
+/** A check-in not sent within this long of its time is skipped */
+export const CHECKIN_SEND_WINDOW_MINUTES = 30;
+
+/**
+ * Whether a check-in slot should be sent now
+ */
+export function getCheckInSlotState(scheduledAt: Date, now: Date): CheckInSlotState {
+  if (now.getTime() < scheduledAt.getTime()) return "pending";
+  if (now.getTime() - scheduledAt.getTime() > CHECKIN_SEND_WINDOW_MINUTES * 60000) return "expired";
+  return "due";
+}
+
+/**
+ * Whether the last conversation was too recent to start another one
+ */
+export function isTooSoonForCheckIn(lastInteractionAt: Date | null, now: Date): boolean {
+  if (!lastInteractionAt) return false;
+  return now.getTime() - lastInteractionAt.getTime() < MIN_CHECKIN_SPACING_HOURS * 60 * 60 * 1000;
+}
+
+const GREETINGS: Record<DayPart, (name: string) => string> = {
+  morning: (name) => `Good morning, ${name}! How did you sleep? What's on deck for today?`,
+  afternoon: (name) => `Hey there, ${name}! How's your day going?`,
+  evening: (name) => `Good evening, ${name}! How was your day?`,
+  night: (name) => `Hi ${name}, just checking in before bed. How are you feeling?`,
+};
+
+/**
+ * Opening message for a check-in at a local time (HH:MM)
+ */
+export function formatCheckInGreeting(patientName: string, localTime: string): string {
+  const hour = Number(localTime.split(":")[0]);
+  return GREETINGS[getDayPart(hour)](patientName);
+}
+
+/**
+ * Alert message for a check-in the senior did not answer
+ */
+export function formatMissedCheckInMessage(
+  patientName: string,
+  localTime: string,
+  channel: CheckInChannel
+): string {
+  const where = channel === "whatsapp" ? "on WhatsApp" : "in the Parra app";
+  return `${patientName} has not answered Parra's ${formatClockTime(localTime)} check-in ${where}.`;
+}
@@ -0,0 +1,71 @@
+/**
+ * System Settings Store
+ *
+ * Reads the current system settings version and counts what the settings
+ * limit, for the edge functions that apply them. Expects a service role
+ * client.
+ *
+ * @module edge-functions/system-settings-store
+ */
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { DEFAULT_SYSTEM_SETTINGS, normalizeSystemSettings, type SystemSettings } from "./system-settings.ts";
+import { getLocalDateString, getZonedDayBounds } from "./timezone.ts";
+
+export interface StoredSystemSettings {
+  /** 0 when nothing has been saved yet */
+  version: number;
+  settings: SystemSettings;
+  updatedAt: string | null;
+}
+
+/**
+ * Load the latest settings version. Falls back to the defaults when none is
+ * stored or it can't be read, so a settings problem never stops the
+ * scheduled safety jobs.
+ */
+export async function loadSystemSettings(supabase: SupabaseClient): Promise<StoredSystemSettings> {
+  const { data, error } = await supabase
+    .from("system_settings")
+    .select("version, settings, created_at")
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error loading system settings, using defaults:", error);
+  }
+
+  if (error || !data) {
+    return { version: 0, settings: { ...DEFAULT_SYSTEM_SETTINGS }, updatedAt: null };
+  }
+
+  return {
+    version: data.version,
+    settings: normalizeSystemSettings(data.settings),
+    updatedAt: data.created_at,
+  };
+}
+
+/**
+ * Count the patient's conversations (check_ins) started today in their
+ * timezone
+ */
+export async function countCheckInsToday(
+  supabase: SupabaseClient,
+  patientId: string,
+  timeZone: string,
+  now: Date = new Date()
+): Promise<number> {
+  const { start, end } = getZonedDayBounds(getLocalDateString(now, timeZone), timeZone);
+
+  const { count, error } = await supabase
+    .from("check_ins")
+    .select("id", { count: "exact", head: true })
+    .eq("patient_id", patientId)
+    .gte("started_at", start.toISOString())
+    .lt("started_at", end.toISOString());
+
+  if (error) throw new Error(`Failed to count today's check-ins: ${error.message}`);
+  return count ?? 0;
+}
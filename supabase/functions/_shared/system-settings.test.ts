@@ -0,0 +1,86 @@
+/**
+ * System Settings Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SYSTEM_SETTINGS,
+  getChangedSettingKeys,
+  getSummaryDatesToRefresh,
+  isBlockedByMaintenance,
+  isCheckInLimitReached,
+  normalizeSystemSettings,
+} from './system-settings';
+
+describe('normalizeSystemSettings', () => {
+  it('should keep valid stored values', () => {
+    const settings = normalizeSystemSettings({
+      ...DEFAULT_SYSTEM_SETTINGS,
+      maintenanceMode: true,
+      escalationThreshold: 15,
+      dailySummaryTime: '06:30',
+    });
+
+    expect(settings.maintenanceMode).toBe(true);
+    expect(settings.escalationThreshold).toBe(15);
+    expect(settings.dailySummaryTime).toBe('06:30');
+  });
+
+  it('should use the default for missing, mistyped or out-of-range values', () => {
+    const settings = normalizeSystemSettings({
+      maintenanceMode: 'yes',
+      maxCheckInsPerDay: 500,
+      dataRetentionDays: 90.5,
+      dailySummaryTime: '25:00',
+    });
+
+    expect(settings).toEqual(DEFAULT_SYSTEM_SETTINGS);
+  });
+
+  it('should return the defaults for anything that is not an object', () => {
+    expect(normalizeSystemSettings(null)).toEqual(DEFAULT_SYSTEM_SETTINGS);
+    expect(normalizeSystemSettings([1, 2])).toEqual(DEFAULT_SYSTEM_SETTINGS);
+  });
+});
+
+describe('getChangedSettingKeys', () => {
+  it('should list the settings that differ, in settings order', () => {
+    const next = { ...DEFAULT_SYSTEM_SETTINGS, maintenanceMode: true, enableBetaFeatures: true };
+
+    expect(getChangedSettingKeys(DEFAULT_SYSTEM_SETTINGS, next)).toEqual(['enableBetaFeatures', 'maintenanceMode']);
+    expect(getChangedSettingKeys(DEFAULT_SYSTEM_SETTINGS, { ...DEFAULT_SYSTEM_SETTINGS })).toEqual([]);
+  });
+});
+
+describe('isBlockedByMaintenance', () => {
+  it('should block everyone but admins while maintenance mode is on', () => {
+    const maintenance = { ...DEFAULT_SYSTEM_SETTINGS, maintenanceMode: true };
+
+    expect(isBlockedByMaintenance(maintenance, 'senior')).toBe(true);
+    expect(isBlockedByMaintenance(maintenance, null)).toBe(true);
+    expect(isBlockedByMaintenance(maintenance, 'admin')).toBe(false);
+    expect(isBlockedByMaintenance(DEFAULT_SYSTEM_SETTINGS, 'senior')).toBe(false);
+  });
+});
+
+describe('isCheckInLimitReached', () => {
+  it('should allow conversations up to the daily maximum', () => {
+    const settings = { ...DEFAULT_SYSTEM_SETTINGS, maxCheckInsPerDay: 3 };
+
+    expect(isCheckInLimitReached(settings, 2)).toBe(false);
+    expect(isCheckInLimitReached(settings, 3)).toBe(true);
+  });
+});
+
+describe('getSummaryDatesToRefresh', () => {
+  it("should refresh yesterday until the summary time in the patient's timezone", () => {
+    // 07:30 and 08:30 in Berlin (UTC+1 in November)
+    expect(getSummaryDatesToRefresh(new Date('2025-11-05T06:30:00Z'), 'Europe/Berlin', '08:00')).toEqual([
+      '2025-11-04',
+      '2025-11-05',
+    ]);
+    expect(getSummaryDatesToRefresh(new Date('2025-11-05T07:30:00Z'), 'Europe/Berlin', '08:00')).toEqual([
+      '2025-11-05',
+    ]);
+  });
+});
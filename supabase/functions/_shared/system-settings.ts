@@ -0,0 +1,156 @@
+/**
+ * System Settings
+ *
+ * The admin-managed settings stored in system_settings and the rules edge
+ * functions apply from them: maintenance mode, the daily check-in limit,
+ * the escalation threshold for unanswered fall check-ins and when yesterday's
+ * daily summary is final. Each save is a new version; the latest one
+ * applies.
+ *
+ * Stored settings are read defensively: a missing or out-of-range value
+ * falls back to its default rather than failing the caller.
+ *
+ * This module has no runtime dependencies so it can be imported from both
+ * Deno edge functions and the Vitest suite.
+ *
+ * @module edge-functions/system-settings
+ */
+
+import { addDaysToDateString, getLocalDateString, getLocalParts } from "./timezone.ts";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SystemSettings {
+  // Feature flags
+  enableBetaFeatures: boolean;
+  enableVoiceCheckins: boolean;
+  enableWhatsAppIntegration: boolean;
+
+  // Notification settings
+  alertNotificationDelay: number; // minutes
+  escalationThreshold: number; // minutes
+  dailySummaryTime: string; // HH:MM
+
+  // Security settings
+  sessionTimeout: number; // minutes
+  requireMFA: boolean;
+  passwordMinLength: number;
+
+  // System settings
+  maintenanceMode: boolean;
+  maxCheckInsPerDay: number;
+  dataRetentionDays: number;
+}
+
+export type SystemSettingKey = keyof SystemSettings;
+
+export const DEFAULT_SYSTEM_SETTINGS: SystemSettings = {
+  enableBetaFeatures: false,
+  enableVoiceCheckins: true,
+  enableWhatsAppIntegration: false,
+  alertNotificationDelay: 5,
+  escalationThreshold: 30,
+  dailySummaryTime: "08:00",
+  sessionTimeout: 60,
+  requireMFA: false,
+  passwordMinLength: 8,
+  maintenanceMode: false,
+  maxCheckInsPerDay: 20,
+  dataRetentionDays: 365,
+};
+
+/** Allowed range of each numeric setting (same as the admin form) */
+export const SYSTEM_SETTING_RANGES: Record<string, { min: number; max: number }> = {
+  alertNotificationDelay: { min: 0, max: 60 },
+  escalationThreshold: { min: 1, max: 1440 },
+  sessionTimeout: { min: 15, max: 1440 },
+  passwordMinLength: { min: 8, max: 128 },
+  maxCheckInsPerDay: { min: 1, max: 100 },
+  dataRetentionDays: { min: 30, max: 3650 },
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+/** Shown to non-admins while maintenance mode is on */
+export const MAINTENANCE_MESSAGE =
+  "Parra is down for scheduled maintenance and will be back shortly. Your care team is still notified about alerts.";
+
+// ============================================================================
+// Reading Settings
+// ============================================================================
+
+/**
+ * Turn a stored settings object into complete settings, keeping each valid
+ * value and using the default for anything missing, mistyped or out of range
+ *
+ * @param raw - system_settings.settings (any JSON)
+ * @returns Complete settings
+ */
+export function normalizeSystemSettings(raw: unknown): SystemSettings {
+  const stored = raw && typeof raw === "object" && !Array.isArray(raw) ? (raw as Record<string, unknown>) : {};
+  const settings: Record<string, unknown> = { ...DEFAULT_SYSTEM_SETTINGS };
+
+  for (const key of Object.keys(DEFAULT_SYSTEM_SETTINGS) as SystemSettingKey[]) {
+    const value = stored[key];
+    const fallback = DEFAULT_SYSTEM_SETTINGS[key];
+
+    if (typeof fallback === "boolean") {
+      if (typeof value === "boolean") settings[key] = value;
+    } else if (typeof fallback === "number") {
+      const range = SYSTEM_SETTING_RANGES[key];
+      if (typeof value === "number" && Number.isInteger(value) && value >= range.min && value <= range.max) {
+        settings[key] = value;
+      }
+    } else if (typeof value === "string" && TIME_PATTERN.test(value)) {
+      settings[key] = value;
+    }
+  }
+
+  return settings as unknown as SystemSettings;
+}
+
+/**
+ * Keys whose values differ between two versions, in settings order
+ */
+export function getChangedSettingKeys(previous: SystemSettings, next: SystemSettings): SystemSettingKey[] {
+  return (Object.keys(DEFAULT_SYSTEM_SETTINGS) as SystemSettingKey[]).filter((key) => previous[key] !== next[key]);
+}
+
+// ============================================================================
+// Applying Settings
+// ============================================================================
+
+/**
+ * Whether maintenance mode keeps this user out. Admins are never blocked,
+ * so they can switch it off again.
+ */
+export function isBlockedByMaintenance(settings: SystemSettings, role: string | null | undefined): boolean {
+  return settings.maintenanceMode && role !== "admin";
+}
+
+/**
+ * Whether the patient may start another conversation today
+ *
+ * @param checkInsToday - check_ins started today in the patient's timezone
+ */
+export function isCheckInLimitReached(settings: SystemSettings, checkInsToday: number): boolean {
+  return checkInsToday >= settings.maxCheckInsPerDay;
+}
+
+/**
+ * Local dates whose daily summary should be (re)generated now. Yesterday's
+ * summary keeps being refreshed, for health data that syncs late, until
+ * dailySummaryTime in the patient's timezone; from then on it is final.
+ *
+ * @returns Local dates (YYYY-MM-DD), oldest first
+ */
+export function getSummaryDatesToRefresh(now: Date, timeZone: string, dailySummaryTime: string): string[] {
+  const today = getLocalDateString(now, timeZone);
+  const { hour, minute } = getLocalParts(now, timeZone);
+  const [summaryHour, summaryMinute] = dailySummaryTime.split(":").map(Number);
+
+  const beforeSummaryTime = hour * 60 + minute < summaryHour * 60 + summaryMinute;
+  return beforeSummaryTime ? [addDaysToDateString(today, -1), today] : [today];
+}
@@ -0,0 +1,76 @@
+/**
+ * Timezone Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTimeZoneOffsetMinutes, getZonedDayBounds, zonedTimeToUtc } from './timezone';
+
+const NY = 'America/New_York';
+
+describe('zonedTimeToUtc', () => {
+  it('should convert ordinary times with the offset in force', () => {
+    expect(zonedTimeToUtc('2025-01-15', '08:00', NY).toISOString()).toBe('2025-01-15T13:00:00.000Z');
+    expect(zonedTimeToUtc('2025-07-15', '08:00:30', NY).toISOString()).toBe('2025-07-15T12:00:30.000Z');
+  });
+
+  it('should convert times either side of the spring-forward gap', () => {
+    expect(zonedTimeToUtc('2025-03-09', '01:59', NY).toISOString()).toBe('2025-03-09T06:59:00.000Z');
+    expect(zonedTimeToUtc('2025-03-09', '03:00', NY).toISOString()).toBe('2025-03-09T07:00:00.000Z');
+  });
+
+  it('should move a skipped time forward past the gap', () => {
+    expect(zonedTimeToUtc('2025-03-09', '02:30', NY).toISOString()).toBe('2025-03-09T07:30:00.000Z');
+  });
+
+  it('should use the first occurrence of a repeated fall-back time', () => {
+    expect(zonedTimeToUtc('2025-11-02', '01:30', NY).toISOString()).toBe('2025-11-02T05:30:00.000Z');
+    expect(zonedTimeToUtc('2025-11-02', '02:00', NY).toISOString()).toBe('2025-11-02T07:00:00.000Z');
+  });
+
+  it('should handle zones whose clocks change at midnight', () => {
+    // Santiago skips 00:00-01:00 when daylight saving starts
+    expect(zonedTimeToUtc('2025-09-07', '00:00', 'America/Santiago').toISOString()).toBe('2025-09-07T04:00:00.000Z');
+  });
+});
+
+describe('getZonedDayBounds', () => {
+  const hours = ({ start, end }: { start: Date; end: Date }) => (end.getTime() - start.getTime()) / 3600000;
+
+  it('should span 24 hours on an ordinary day', () => {
+    const bounds = getZonedDayBounds('2025-06-01', NY);
+
+    expect(bounds.start.toISOString()).toBe('2025-06-01T04:00:00.000Z');
+    expect(hours(bounds)).toBe(24);
+  });
+
+  it('should span 23 hours on the spring-forward day', () => {
+    const bounds = getZonedDayBounds('2025-03-09', NY);
+
+    expect(bounds.start.toISOString()).toBe('2025-03-09T05:00:00.000Z');
+    expect(bounds.end.toISOString()).toBe('2025-03-10T04:00:00.000Z');
+    expect(hours(bounds)).toBe(23);
+  });
+
+  it('should span 25 hours on the fall-back day', () => {
+    const bounds = getZonedDayBounds('2025-11-02', NY);
+
+    expect(bounds.start.toISOString()).toBe('2025-11-02T04:00:00.000Z');
+    expect(bounds.end.toISOString()).toBe('2025-11-03T05:00:00.000Z');
+    expect(hours(bounds)).toBe(25);
+  });
+
+  it('should use the local calendar day in the southern hemisphere', () => {
+    // Sydney falls back on 2025-04-06
+    const bounds = getZonedDayBounds('2025-04-06', 'Australia/Sydney');
+
+    expect(bounds.start.toISOString()).toBe('2025-04-05T13:00:00.000Z');
+    expect(hours(bounds)).toBe(25);
+  });
+});
+
+describe('getTimeZoneOffsetMinutes', () => {
+  it('should follow daylight saving time', () => {
+    expect(getTimeZoneOffsetMinutes(new Date('2025-01-15T12:00:00Z'), NY)).toBe(-300);
+    expect(getTimeZoneOffsetMinutes(new Date('2025-07-15T12:00:00Z'), NY)).toBe(-240);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Edge Function Timezone Utilities
+ *
+ * Helpers for working with a patient's local time using the IANA
+ * timezone stored in profiles.timezone. Deno ships full ICU data,
+ * so everything here is built on Intl.DateTimeFormat.
+ *
+ * @module edge-functions/timezone
+ */
+
+/**
+ * Timezone used when a profile has none (matches the profiles column default)
+ */
+export const DEFAULT_TIMEZONE = "America/New_York";
+
+/**
+ * Broken-down local wall-clock time
+ */
+export interface LocalDateParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+export type DayPart = "morning" | "afternoon" | "evening" | "night";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Return a usable IANA timezone, falling back to the default
+ *
+ * @param timeZone - Timezone from the profile (may be null or invalid)
+ * @returns Valid IANA timezone name
+ */
+export function resolveTimeZone(timeZone: string | null | undefined): string {
+  if (!timeZone) {
+    return DEFAULT_TIMEZONE;
+  }
+
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return timeZone;
+  } catch {
+    console.warn(`Invalid timezone "${timeZone}", using ${DEFAULT_TIMEZONE}`);
+    return DEFAULT_TIMEZONE;
+  }
+}
+
+/**
+ * Get the local wall-clock parts of an instant in a timezone
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA timezone
+ * @returns Local date parts
+ */
+export function getLocalParts(date: Date, timeZone: string): LocalDateParts {
+  const formatter = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+    hourCycle: "h23",
+  });
+
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(date)) {
+    parts[part.type] = part.value;
+  }
+
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+  };
+}
+
+/**
+ * Get the local calendar date (YYYY-MM-DD) of an instant in a timezone
+ *
+ * @param date - Instant to convert
+ * @param timeZone - IANA timezone
+ * @returns Local date string
+ */
+export function getLocalDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getLocalParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Offset of a timezone from UTC at a given instant, in minutes
+ * (e.g. -240 for America/New_York during daylight saving time)
+ *
+ * @param date - Instant to evaluate (offsets change with DST)
+ * @param timeZone - IANA timezone
+ * @returns Offset in minutes
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const local = getLocalParts(date, timeZone);
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const truncated = Math.floor(date.getTime() / 60000) * 60000;
+  return Math.round((asUtc - truncated) / 60000);
+}
+
+/**
+ * Convert a local wall-clock time in a timezone to a UTC instant.
+ *
+ * Around a DST transition a wall-clock time can happen twice (clocks go
+ * back) or not at all (clocks go forward). A repeated time resolves to its
+ * first occurrence; a skipped time is read with the offset from before the
+ * transition, so 02:30 on a spring-forward night becomes 03:30.
+ *
+ * @param localDate - Local date (YYYY-MM-DD)
+ * @param localTime - Local time (HH:MM or HH:MM:SS)
+ * @param timeZone - IANA timezone
+ * @returns UTC instant
+ */
+export function zonedTimeToUtc(localDate: string, localTime: string, timeZone: string): Date {
+  const [year, month, day] = localDate.split("-").map(Number);
+  const [hour, minute, second = 0] = localTime.split(":").map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+
+  // Offsets a day either side cover any transition next to this time
+  const offsetBefore = getTimeZoneOffsetMinutes(new Date(wallClock - DAY_MS), timeZone);
+  const offsetAfter = getTimeZoneOffsetMinutes(new Date(wallClock + DAY_MS), timeZone);
+
+  // A candidate is valid when the zone really has that offset at that instant
+  const valid = [offsetBefore, offsetAfter]
+    .map((offset) => ({ offset, instant: wallClock - offset * 60000 }))
+    .filter(({ offset, instant }) => getTimeZoneOffsetMinutes(new Date(instant), timeZone) === offset)
+    .map(({ instant }) => instant)
+    .sort((a, b) => a - b);
+
+  return new Date(valid[0] ?? wallClock - offsetBefore * 60000);
+}
+
+/**
+ * UTC bounds of a local calendar day, as a half-open [start, end) range
+ *
+ * @param localDate - Local date (YYYY-MM-DD)
+ * @param timeZone - IANA timezone
+ * @returns Start and end instants
+ */
+export function getZonedDayBounds(localDate: string, timeZone: string): { start: Date; end: Date } {
+  const start = zonedTimeToUtc(localDate, "00:00", timeZone);
+  const end = zonedTimeToUtc(addDaysToDateString(localDate, 1), "00:00", timeZone);
+  return { start, end };
+}
+
+/**
+ * Add a number of days to a YYYY-MM-DD date string
+ *
+ * @param dateString - Date (YYYY-MM-DD)
+ * @param days - Days to add (may be negative)
+ * @returns New date string
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split("-").map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Map a local hour to the conversation structure used in the Parra prompt
+ *
+ * @param hour - Local hour (0-23)
+ * @returns Part of the day
+ */
+export function getDayPart(hour: number): DayPart {
+  if (hour >= 5 && hour < 12) return "morning";
+  if (hour >= 12 && hour < 17) return "afternoon";
+  if (hour >= 17 && hour < 22) return "evening";
+  return "night";
+}
+
+/**
+ * Format a local wall-clock time for messages ("08:00:00" -> "8:00 AM")
+ *
+ * @param time - Time (HH:MM or HH:MM:SS)
+ * @returns 12-hour time
+ */
+export function formatClockTime(time: string): string {
+  const [hour, minute] = time.split(":").map(Number);
+  const suffix = hour < 12 ? "AM" : "PM";
+  return `${hour % 12 || 12}:${String(minute).padStart(2, "0")} ${suffix}`;
+}
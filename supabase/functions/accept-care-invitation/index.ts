@@ -0,0 +1,350 @@
+/**
+ * Accept Care Invitation Edge Function
+ *
+ * Backs the public /invite page. Given the signed token from an invitation
+ * link it can:
+ * - preview: return who sent the invitation, for whose care circle, and the
+ *   permissions it grants
+ * - accept: link the invitation to the signed-in account, or create a new
+ *   family_member account from the details sent, and activate the care
+ *   relationship with the invitation's permissions (an existing pending or
+ *   inactive relationship between the two is updated)
+ *
+ * Expired, revoked and already accepted invitations are refused, and so is
+ * an invitee who is already in the care circle: their active relationship
+ * keeps its type and permissions, and the invitation stays pending.
+ *
+ * Security Features:
+ * - Tokens are checked against their HMAC signature and expiry before the
+ *   invitation is read
+ * - Email invitations can only be accepted by an account with the invited
+ *   email address
+ * - Input validation with Zod
+ *
+ * @module edge-functions/accept-care-invitation
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { verifyInvitationToken } from "../_shared/care-invitations.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const acceptSchema = z.object({
+  token: z.string().min(1).max(300),
+  action: z.enum(["preview", "accept"]).default("preview"),
+  // New account for invitees who are not signed in
+  account: z
+    .object({
+      fullName: z.string().trim().min(1).max(100),
+      email: z.string().trim().toLowerCase().email(),
+      password: z.string().min(8).max(128),
+    })
+    .optional(),
+});
+
+interface InvitationRow {
+  id: string;
+  patient_id: string;
+  channel: "email" | "whatsapp";
+  invitee_email: string | null;
+  relationship_type: string;
+  relationship_label: string | null;
+  can_view_health_data: boolean;
+  can_receive_alerts: boolean;
+  can_modify_settings: boolean;
+  status: "pending" | "accepted" | "revoked";
+  expires_at: string;
+  created_at: string;
+  patient: { full_name: string | null; display_name: string | null } | null;
+  inviter: { full_name: string | null; display_name: string | null } | null;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * The signed-in user, or null for the anon key and invalid tokens
+ */
+async function getSignedInUser(
+  supabase: SupabaseClient,
+  token: string | null
+): Promise<{ id: string; email: string | null } | null> {
+  if (!token) return null;
+  const { data: { user } } = await supabase.auth.getUser(token);
+  return user ? { id: user.id, email: user.email?.toLowerCase() ?? null } : null;
+}
+
+/**
+ * Create a family_member account for the invitee. The email is confirmed
+ * when the invitation link was sent to it.
+ */
+async function createInviteeAccount(
+  supabase: SupabaseClient,
+  account: { fullName: string; email: string; password: string },
+  emailVerified: boolean
+): Promise<string> {
+  const { data, error } = await supabase.auth.admin.createUser({
+    email: account.email,
+    password: account.password,
+    email_confirm: emailVerified,
+    user_metadata: {
+      full_name: account.fullName,
+      role: "family_member",
+    },
+  });
+
+  if (error || !data.user) {
+    throw new Error(error?.message || "Failed to create account");
+  }
+
+  return data.user.id;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const signingSecret = Deno.env.get("INVITATION_SIGNING_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey || !signingSecret) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = acceptSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const { token, action, account } = validation.data;
+    const now = new Date();
+
+    const check = await verifyInvitationToken(signingSecret, token, now);
+    if (!check.ok) {
+      return check.reason === "expired"
+        ? jsonResponse({ error: "This invitation has expired", status: "expired" }, 410)
+        : jsonResponse({ error: "Invalid invitation link" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data, error: invitationError } = await supabase
+      .from("care_invitations")
+      .select(`
+        id, patient_id, channel, invitee_email, relationship_type, relationship_label,
+        can_view_health_data, can_receive_alerts, can_modify_settings, status, expires_at, created_at,
+        patient:profiles!care_invitations_patient_id_fkey(full_name, display_name),
+        inviter:profiles!care_invitations_invited_by_fkey(full_name, display_name)
+      `)
+      .eq("id", check.invitationId)
+      .maybeSingle();
+
+    if (invitationError) {
+      throw new Error(`Failed to load invitation: ${invitationError.message}`);
+    }
+
+    const invitation = data as unknown as InvitationRow | null;
+    if (!invitation) {
+      return jsonResponse({ error: "Invalid invitation link" }, 400);
+    }
+
+    if (invitation.status !== "pending") {
+      const message = invitation.status === "accepted"
+        ? "This invitation has already been accepted"
+        : "This invitation was cancelled";
+      return jsonResponse({ error: message, status: invitation.status }, 410);
+    }
+
+    const patientName = invitation.patient?.display_name || invitation.patient?.full_name || "your family member";
+
+    if (action === "preview") {
+      return jsonResponse({
+        invitation: {
+          patientName,
+          inviterName: invitation.inviter?.display_name || invitation.inviter?.full_name || null,
+          channel: invitation.channel,
+          email: invitation.invitee_email,
+          relationshipType: invitation.relationship_type,
+          relationshipLabel: invitation.relationship_label,
+          canViewHealthData: invitation.can_view_health_data,
+          canReceiveAlerts: invitation.can_receive_alerts,
+          canModifySettings: invitation.can_modify_settings,
+          expiresAt: invitation.expires_at,
+        },
+      });
+    }
+
+    // Accept as the signed-in user, or create their account
+    let userId: string;
+    let accountCreated = false;
+    const signedIn = await getSignedInUser(supabase, extractAuthToken(req));
+
+    if (signedIn) {
+      if (invitation.channel === "email" && signedIn.email !== invitation.invitee_email) {
+        return jsonResponse({
+          error: `This invitation was sent to ${invitation.invitee_email}. Sign in with that account to accept it.`,
+        }, 403);
+      }
+      userId = signedIn.id;
+    } else {
+      if (!account) {
+        return jsonResponse({ error: "Sign in or create an account to accept this invitation" }, 401);
+      }
+      if (invitation.channel === "email" && account.email !== invitation.invitee_email) {
+        return jsonResponse({
+          error: `This invitation was sent to ${invitation.invitee_email}. Use that email address for your account.`,
+        }, 403);
+      }
+
+      const { data: existing } = await supabase
+        .from("profiles")
+        .select("id")
+        .eq("email", account.email)
+        .maybeSingle();
+
+      if (existing) {
+        return jsonResponse({ error: "An account with this email already exists. Sign in to accept." }, 409);
+      }
+
+      userId = await createInviteeAccount(supabase, account, invitation.channel === "email");
+      accountCreated = true;
+    }
+
+    if (userId === invitation.patient_id) {
+      return jsonResponse({ error: "You cannot join your own care circle" }, 400);
+    }
+
+    const { data: existingRelationship, error: existingError } = await supabase
+      .from("care_relationships")
+      .select("id, status")
+      .eq("patient_id", invitation.patient_id)
+      .eq("caregiver_id", userId)
+      .maybeSingle();
+
+    if (existingError) {
+      throw new Error(`Failed to load care relationship: ${existingError.message}`);
+    }
+    if (existingRelationship?.status === "active") {
+      return jsonResponse({ error: `You are already in ${patientName}'s care circle` }, 409);
+    }
+
+    // Claim the invitation first so it can only be accepted once
+    const { data: claimed, error: claimError } = await supabase
+      .from("care_invitations")
+      .update({ status: "accepted", accepted_by: userId, accepted_at: now.toISOString() })
+      .eq("id", invitation.id)
+      .eq("status", "pending")
+      .select("id")
+      .maybeSingle();
+
+    if (claimError) {
+      throw new Error(`Failed to accept invitation: ${claimError.message}`);
+    }
+    if (!claimed) {
+      return jsonResponse({ error: "This invitation is no longer available", status: "accepted" }, 410);
+    }
+
+    const relationshipFields = {
+      relationship_type: invitation.relationship_type,
+      relationship_label: invitation.relationship_label,
+      can_view_health_data: invitation.can_view_health_data,
+      can_receive_alerts: invitation.can_receive_alerts,
+      can_modify_settings: invitation.can_modify_settings,
+      status: "active",
+      invited_at: invitation.created_at,
+      accepted_at: now.toISOString(),
+    };
+
+    // Never touch a relationship that became active in the meantime
+    const { data: relationship, error: relationshipError } = existingRelationship
+      ? await supabase
+        .from("care_relationships")
+        .update(relationshipFields)
+        .eq("id", existingRelationship.id)
+        .neq("status", "active")
+        .select("id")
+        .maybeSingle()
+      : await supabase
+        .from("care_relationships")
+        .insert({ patient_id: invitation.patient_id, caregiver_id: userId, ...relationshipFields })
+        .select("id")
+        .maybeSingle();
+
+    if (relationshipError || !relationship) {
+      // Put the invitation back so the link can be used again
+      await supabase
+        .from("care_invitations")
+        .update({ status: "pending", accepted_by: null, accepted_at: null })
+        .eq("id", invitation.id);
+
+      if (!relationship && (!relationshipError || relationshipError.code === "23505")) {
+        return jsonResponse({ error: `You are already in ${patientName}'s care circle` }, 409);
+      }
+      throw new Error(`Failed to activate care relationship: ${relationshipError?.message}`);
+    }
+
+    await supabase
+      .from("care_invitations")
+      .update({ relationship_id: relationship.id })
+      .eq("id", invitation.id);
+
+    console.log(`Invitation ${invitation.id} accepted by ${userId}${accountCreated ? " (new account)" : ""}`);
+
+    return jsonResponse({
+      success: true,
+      relationshipId: relationship.id,
+      patientName,
+      accountCreated,
+    });
+  } catch (error) {
+    console.error("Accept care invitation error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
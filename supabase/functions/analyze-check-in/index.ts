@@ -0,0 +1,326 @@
+/**
+ * Analyze Check-In Edge Function
+ *
+ * Runs post-conversation analysis on a saved check-in and writes the results
+ * back to check_ins:
+ * - mood_detected, sentiment_score, topics_discussed
+ * - safety_concern_detected / safety_concern_type / safety_concern_details
+ * - commitments (keeping any recorded by senior-chat tools)
+ *
+ * Memories extracted from the conversation are saved to patient_memories so
+ * senior-chat can bring them into later conversations.
+ *
+ * When a safety concern is found an alert is created and caregivers are
+ * notified for high and critical concerns. SeniorChat re-runs the analysis
+ * as a conversation goes on, so a check-in that already has an alert (from
+ * an earlier analysis, a Parra tool or crisis detection) only alerts again
+ * when the new concern is more severe.
+ *
+ * CHECKIN_ANALYZER=local always uses the deterministic local analyzer.
+ * Otherwise the analysis uses the configured LLM provider (see
+ * _shared/llm-provider.ts; CHECKIN_ANALYZER_LLM_PROVIDER or LLM_PROVIDER) and
+ * falls back to the local analyzer when no provider is configured, the
+ * provider is the mock, or the LLM call fails.
+ *
+ * Security Features:
+ * - Requires the patient's JWT (or an admin's, or the service role key)
+ * - Input validation with Zod
+ * - Idempotent alert creation (per severity)
+ *
+ * @module edge-functions/analyze-check-in
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  CONCERN_ALERT_TYPES,
+  CONCERN_LABELS,
+  createLocalAnalyzer,
+  createLLMAnalyzer,
+  isMoreSevere,
+  mergeCommitments,
+  type CheckInAnalysis,
+  type CheckInAnalyzer,
+  type ConcernSeverity,
+  type ConversationMessage,
+  type SafetyConcern,
+} from "../_shared/checkin-analysis.ts";
+import { saveMemories } from "../_shared/memory-store.ts";
+import { notifyCaregivers } from "../_shared/notifications.ts";
+import { createLLMProviderFromEnv, type LLMProvider } from "../_shared/llm-provider.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const analyzeCheckInSchema = z.object({
+  checkInId: z.string().uuid(),
+});
+
+interface CheckInRow {
+  id: string;
+  patient_id: string;
+  messages: ConversationMessage[] | null;
+  commitments: unknown;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Pick the analyzer from environment configuration
+ */
+function selectAnalyzer(): CheckInAnalyzer {
+  if (Deno.env.get("CHECKIN_ANALYZER") === "local") {
+    return createLocalAnalyzer();
+  }
+
+  let llm: LLMProvider;
+  try {
+    llm = createLLMProviderFromEnv((name) => Deno.env.get(name), { scope: "CHECKIN_ANALYZER" });
+  } catch {
+    return createLocalAnalyzer();
+  }
+
+  // The mock's replies aren't analyses; the local analyzer is the offline one
+  if (llm.type === "mock") {
+    return createLocalAnalyzer();
+  }
+
+  return createLLMAnalyzer(llm, {
+    model: Deno.env.get("CHECKIN_ANALYZER_MODEL") || undefined,
+  });
+}
+
+/**
+ * Run the configured analyzer, falling back to the local analyzer on failure
+ */
+async function runAnalysis(messages: ConversationMessage[]): Promise<CheckInAnalysis> {
+  const analyzer = selectAnalyzer();
+
+  try {
+    return await analyzer.analyze(messages);
+  } catch (error) {
+    if (analyzer.name === "local") throw error;
+    console.error(`Analyzer ${analyzer.name} failed, using local analyzer:`, error);
+    return createLocalAnalyzer().analyze(messages);
+  }
+}
+
+/**
+ * Most severe alert already raised for the check-in, by any source
+ */
+async function loadAlertedSeverity(supabase: SupabaseClient, checkInId: string): Promise<ConcernSeverity | null> {
+  const { data, error } = await supabase
+    .from("alerts")
+    .select("severity")
+    .eq("check_in_id", checkInId);
+
+  if (error) throw new Error(`Failed to load check-in alerts: ${error.message}`);
+
+  return ((data || []) as Array<{ severity: ConcernSeverity }>).reduce<ConcernSeverity | null>(
+    (highest, alert) => (isMoreSevere(alert.severity, highest) ? alert.severity : highest),
+    null
+  );
+}
+
+function buildAlertMessage(patientName: string, concern: SafetyConcern): string {
+  return `${CONCERN_LABELS[concern.type]} reported by ${patientName} during a check-in with Parra.${concern.details ? ` ${concern.details}` : ""}`;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    const token = extractAuthToken(req);
+    if (!token) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = analyzeCheckInSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const { checkInId } = validation.data;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: checkIn, error: checkInError } = await supabase
+      .from("check_ins")
+      .select("id, patient_id, messages, commitments")
+      .eq("id", checkInId)
+      .single();
+
+    if (checkInError || !checkIn) {
+      return jsonResponse({ error: "Check-in not found" }, 404);
+    }
+
+    const row = checkIn as CheckInRow;
+
+    // Only the patient, an admin, or a server-side caller may analyze a check-in
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !user) {
+        return jsonResponse({ error: "Invalid authentication token" }, 401);
+      }
+
+      if (user.id !== row.patient_id) {
+        const { data: profile } = await supabase
+          .from("profiles")
+          .select("role")
+          .eq("id", user.id)
+          .single();
+
+        if (profile?.role !== "admin") {
+          return jsonResponse({ error: "Forbidden" }, 403);
+        }
+      }
+    }
+
+    const messages = Array.isArray(row.messages) ? row.messages : [];
+    const analysis = await runAnalysis(messages);
+    const concern = analysis.safetyConcern;
+    const alertedSeverity = await loadAlertedSeverity(supabase, row.id);
+    const escalates = concern !== null && isMoreSevere(concern.severity, alertedSeverity);
+
+    const { error: updateError } = await supabase
+      .from("check_ins")
+      .update({
+        mood_detected: analysis.mood,
+        sentiment_score: analysis.sentimentScore,
+        topics_discussed: analysis.topics,
+        // Keep the concern behind an alert already sent unless this one is worse
+        ...(escalates || alertedSeverity === null
+          ? {
+              safety_concern_detected: concern !== null,
+              safety_concern_type: concern?.type ?? null,
+              safety_concern_details: concern?.details ?? null,
+            }
+          : {}),
+        commitments: mergeCommitments(row.commitments, analysis.commitments),
+      })
+      .eq("id", row.id);
+
+    if (updateError) {
+      console.error("Error saving analysis:", updateError);
+      return jsonResponse({ error: "Failed to save analysis" }, 500);
+    }
+
+    const memoriesSaved = await saveMemories(supabase, row.patient_id, analysis.memories, row.id);
+
+    // Raise an alert the first time a concern is found, and again when it escalates
+    let alertId: string | null = null;
+
+    if (concern && escalates) {
+      const { data: patient } = await supabase
+        .from("profiles")
+        .select("full_name, display_name")
+        .eq("id", row.patient_id)
+        .single();
+
+      const patientName = patient?.display_name || patient?.full_name || "Your loved one";
+      const alertMessage = buildAlertMessage(patientName, concern);
+
+      const { data: alert, error: alertError } = await supabase
+        .from("alerts")
+        .insert({
+          patient_id: row.patient_id,
+          check_in_id: row.id,
+          alert_type: CONCERN_ALERT_TYPES[concern.type],
+          severity: concern.severity,
+          status: "active",
+          alert_message: alertMessage,
+          alert_details: {
+            source: "check_in_analysis",
+            analyzer: analysis.analyzer,
+            concern_type: concern.type,
+            details: concern.details,
+          },
+        })
+        .select("id")
+        .single();
+
+      if (alertError || !alert) {
+        console.error("Error creating alert:", alertError);
+        return jsonResponse({ error: "Failed to create alert" }, 500);
+      }
+
+      alertId = alert.id;
+
+      await supabase
+        .from("check_ins")
+        .update({ alert_sent: true, alert_sent_at: new Date().toISOString() })
+        .eq("id", row.id);
+
+      console.log(`Alert ${alert.id} created for check-in ${row.id} (${concern.type}, ${concern.severity})`);
+
+      // Notify caregivers straight away for serious concerns
+      if (concern.severity === "high" || concern.severity === "critical") {
+        await notifyCaregivers(supabaseUrl, supabaseServiceKey, alert.id, alertMessage);
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      checkInId: row.id,
+      analysis,
+      alertId,
+      memoriesSaved,
+    });
+  } catch (error) {
+    console.error("Analyze check-in error:", error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
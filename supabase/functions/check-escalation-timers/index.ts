@@ -4,9 +4,15 @@
  * Scheduled function that runs periodically to:
  * - Check for inactivity threshold breaches
  * - Send check-in messages to patients
- * - Send escalation alerts to caregivers
+ * - Start the escalation ladder for unanswered check-ins
+ * - Contact the next escalation step of every unacknowledged alert whose
+ *   next_escalation_at has passed
  * - Trigger WhatsApp notifications
  *
+ * Unanswered check-ins escalate after the device's escalation time or the
+ * escalationThreshold system setting, whichever is sooner. Maintenance mode
+ * does not pause this function.
+ *
  * Should be invoked via cron job every 10-30 seconds.
  *
  * Security Features:
@@ -19,6 +25,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { loadSystemSettings } from "../_shared/system-settings-store.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -29,6 +36,9 @@ const corsHeaders = {
 // Types
 // ============================================================================
 
+/** Most due escalation steps handled per run */
+const ESCALATION_BATCH_SIZE = 50;
+
 interface CheckResult {
   success: boolean;
   alerts_created: number;
@@ -126,8 +136,12 @@ serve(async (req) => {
 
     console.log("Starting escalation timer check...");
 
+    const { settings } = await loadSystemSettings(supabase);
+
     // Call database function to check thresholds
-    const { data: checkResult, error: checkError } = await supabase.rpc("check_inactivity_thresholds");
+    const { data: checkResult, error: checkError } = await supabase.rpc("check_inactivity_thresholds", {
+      p_escalation_threshold_minutes: settings.escalationThreshold,
+    });
 
     if (checkError) {
       console.error("Error checking inactivity thresholds:", checkError);
@@ -155,7 +169,7 @@ serve(async (req) => {
       const { data: checkInAlerts, error: checkInAlertsError } = await supabase
         .from("alerts")
         .select("id")
-        .eq("alert_type", "prolonged_inactivity")
+        .eq("alert_type", "motion_inactivity_detected")
         .is("resolved_at", null)
         .gte("created_at", new Date(Date.now() - 60000).toISOString()) // Created in last minute
         .limit(10);
@@ -176,13 +190,13 @@ serve(async (req) => {
       }
     }
 
-    // If escalations were sent, trigger WhatsApp notifications to caregivers
+    // If escalations were raised, start the escalation ladder for each
     if (result.escalations_sent > 0) {
       // Fetch alerts that need escalation notifications
       const { data: escalationAlerts, error: escalationAlertsError } = await supabase
         .from("alerts")
         .select("id")
-        .eq("alert_type", "fall_detected")
+        .eq("alert_type", "fall_escalation_required")
         .is("resolved_at", null)
         .gte("created_at", new Date(Date.now() - 60000).toISOString()) // Created in last minute
         .limit(10);
@@ -203,6 +217,32 @@ serve(async (req) => {
       }
     }
 
+    // Contact the next step for alerts nobody has acknowledged in time
+    let escalationStepsSent = 0;
+    const { data: dueAlerts, error: dueAlertsError } = await supabase
+      .from("alerts")
+      .select("id")
+      .eq("status", "active")
+      .is("acknowledged_at", null)
+      .is("resolved_at", null)
+      .lte("next_escalation_at", new Date().toISOString())
+      .order("next_escalation_at")
+      .limit(ESCALATION_BATCH_SIZE);
+
+    if (dueAlertsError) {
+      console.error("Error fetching due escalations:", dueAlertsError);
+      errors.push(`Failed to fetch due escalations: ${dueAlertsError.message}`);
+    } else {
+      for (const alert of dueAlerts || []) {
+        const sent = await sendWhatsAppNotification(supabaseUrl, supabaseServiceKey, alert.id, "caregiver");
+        if (sent) {
+          escalationStepsSent++;
+        } else {
+          errors.push(`Failed to send next escalation step for alert ${alert.id}`);
+        }
+      }
+    }
+
     // Return summary
     return new Response(
       JSON.stringify({
@@ -212,6 +252,7 @@ serve(async (req) => {
           check_ins_sent: result.check_ins_sent,
           escalations_sent: result.escalations_sent,
           whatsapp_notifications_sent: whatsappNotificationsSent,
+          escalation_steps_sent: escalationStepsSent,
           errors: errors,
         },
         checked_at: new Date().toISOString(),
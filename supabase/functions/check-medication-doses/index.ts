@@ -0,0 +1,352 @@
+/**
+ * Check Medication Doses Edge Function
+ *
+ * Scheduled function that finds scheduled medication doses nobody confirmed
+ * within the medication's grace_minutes, records them as missed in
+ * medication_doses and raises one medication_missed alert per patient so
+ * their caregivers are notified on WhatsApp.
+ *
+ * Doses are checked for the patient's local today and yesterday, so a late
+ * evening dose with a long grace window is still caught after midnight.
+ * Doses scheduled before the medication was added are ignored.
+ *
+ * Should be invoked via cron job every 15 minutes.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Missed doses are inserted once per dose, so overlapping runs do not
+ *   alert twice
+ * - Error handling
+ *
+ * @module edge-functions/check-medication-doses
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  describeDose,
+  formatMissedDoseMessage,
+  getOverdueDoses,
+  getScheduledDoses,
+  type DoseRecord,
+  type MedicationSchedule,
+} from "../_shared/medications.ts";
+import { notifyCaregivers } from "../_shared/notifications.ts";
+import { addDaysToDateString, getLocalDateString, resolveTimeZone } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const checkMedicationDosesSchema = z.object({
+  patientId: z.string().uuid().optional(),
+});
+
+interface MedicationRow extends MedicationSchedule {
+  patient_id: string;
+  created_at: string;
+  patient: {
+    full_name: string | null;
+    display_name: string | null;
+    timezone: string | null;
+  } | null;
+}
+
+interface PatientResult {
+  patient_id: string;
+  missed_doses: string[];
+  alert_id: string | null;
+  notified: boolean;
+  error?: string;
+}
+
+// ============================================================================
+// Missed Dose Handling
+// ============================================================================
+
+/**
+ * Record a patient's overdue doses as missed and alert their caregivers
+ */
+async function checkPatientDoses(
+  supabase: SupabaseClient,
+  patientId: string,
+  medications: MedicationRow[],
+  now: Date,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<PatientResult> {
+  const patient = medications[0].patient;
+  const timeZone = resolveTimeZone(patient?.timezone);
+  const today = getLocalDateString(now, timeZone);
+  const yesterday = addDaysToDateString(today, -1);
+
+  const addedAt = new Map(medications.map((m) => [m.id, new Date(m.created_at).getTime()]));
+  const scheduled = [yesterday, today]
+    .flatMap((date) => getScheduledDoses(medications, date, timeZone))
+    .filter((dose) => dose.scheduledAt.getTime() >= (addedAt.get(dose.medicationId) ?? 0));
+
+  const { data: records, error: recordsError } = await supabase
+    .from("medication_doses")
+    .select("medication_id, scheduled_date, scheduled_time, status")
+    .eq("patient_id", patientId)
+    .gte("scheduled_date", yesterday);
+
+  if (recordsError) throw new Error(`Failed to load doses: ${recordsError.message}`);
+
+  const overdue = getOverdueDoses(scheduled, (records || []) as DoseRecord[], now);
+  if (overdue.length === 0) {
+    return { patient_id: patientId, missed_doses: [], alert_id: null, notified: false };
+  }
+
+  // Only rows this run inserted are alerted on; a dose confirmed or marked
+  // missed in the meantime is left alone
+  const { data: inserted, error: insertError } = await supabase
+    .from("medication_doses")
+    .upsert(
+      overdue.map((dose) => ({
+        medication_id: dose.medicationId,
+        patient_id: patientId,
+        scheduled_date: dose.scheduledDate,
+        scheduled_time: dose.scheduledTime,
+        status: "missed",
+      })),
+      { onConflict: "medication_id,scheduled_date,scheduled_time", ignoreDuplicates: true }
+    )
+    .select("id, medication_id, scheduled_date, scheduled_time");
+
+  if (insertError) throw new Error(`Failed to record missed doses: ${insertError.message}`);
+
+  const insertedIds = (inserted || []).map((row) => row.id as string);
+  const missed = overdue.filter((dose) =>
+    (inserted || []).some(
+      (row) =>
+        row.medication_id === dose.medicationId &&
+        row.scheduled_date === dose.scheduledDate &&
+        String(row.scheduled_time).startsWith(dose.scheduledTime)
+    )
+  );
+
+  if (missed.length === 0) {
+    return { patient_id: patientId, missed_doses: [], alert_id: null, notified: false };
+  }
+
+  const patientName = patient?.display_name || patient?.full_name || "Your loved one";
+  const alertMessage = formatMissedDoseMessage(patientName, missed);
+
+  const { data: alert, error: alertError } = await supabase
+    .from("alerts")
+    .insert({
+      patient_id: patientId,
+      alert_type: "medication_missed",
+      severity: "medium",
+      status: "active",
+      alert_message: alertMessage,
+      alert_details: {
+        doses: missed.map((dose) => ({
+          medication_id: dose.medicationId,
+          name: dose.name,
+          dose: dose.dose,
+          scheduled_date: dose.scheduledDate,
+          scheduled_time: dose.scheduledTime,
+        })),
+      },
+    })
+    .select("id")
+    .single();
+
+  if (alertError || !alert) {
+    throw new Error(`Failed to create alert: ${alertError?.message ?? "no alert returned"}`);
+  }
+
+  const { error: linkError } = await supabase
+    .from("medication_doses")
+    .update({ alert_id: alert.id })
+    .in("id", insertedIds);
+
+  if (linkError) console.error(`Failed to link doses to alert ${alert.id}:`, linkError);
+
+  const notified = await notifyCaregivers(supabaseUrl, supabaseServiceKey, alert.id, alertMessage);
+
+  return {
+    patient_id: patientId,
+    missed_doses: missed.map(describeDose),
+    alert_id: alert.id,
+    notified,
+  };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get environment variables
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(
+        JSON.stringify({ error: "Service configuration error" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Optional body: { patientId } to check one patient's doses
+    let body: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: "Invalid JSON" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const parsed = checkMedicationDosesSchema.safeParse(body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Validation failed",
+          details: parsed.error.errors.map((err) => err.message),
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { patientId } = parsed.data;
+
+    // Create Supabase client with service role
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let medicationsQuery = supabase
+      .from("medications")
+      .select(`
+        id,
+        patient_id,
+        name,
+        dose,
+        dose_times,
+        grace_minutes,
+        created_at,
+        patient:profiles!medications_patient_id_fkey(full_name, display_name, timezone)
+      `)
+      .eq("is_active", true);
+
+    if (patientId) {
+      medicationsQuery = medicationsQuery.eq("patient_id", patientId);
+    }
+
+    const { data: medications, error: medicationsError } = await medicationsQuery;
+
+    if (medicationsError) {
+      console.error("Error fetching medications:", medicationsError);
+      return new Response(
+        JSON.stringify({
+          error: "Failed to fetch medications",
+          details: medicationsError.message,
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const byPatient = new Map<string, MedicationRow[]>();
+    for (const medication of (medications || []) as unknown as MedicationRow[]) {
+      const list = byPatient.get(medication.patient_id) || [];
+      list.push(medication);
+      byPatient.set(medication.patient_id, list);
+    }
+
+    const now = new Date();
+    const results: PatientResult[] = [];
+
+    for (const [id, patientMedications] of byPatient) {
+      try {
+        results.push(
+          await checkPatientDoses(supabase, id, patientMedications, now, supabaseUrl, supabaseServiceKey)
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to check doses for patient ${id}:`, message);
+        results.push({ patient_id: id, missed_doses: [], alert_id: null, notified: false, error: message });
+      }
+    }
+
+    const alerted = results.filter((r) => r.alert_id);
+    const failed = results.filter((r) => r.error);
+
+    console.log(`Checked ${byPatient.size} patients: ${alerted.length} missed-dose alerts (${failed.length} failed)`);
+
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        summary: {
+          patients_checked: byPatient.size,
+          doses_missed: results.reduce((sum, r) => sum + r.missed_doses.length, 0),
+          alerts_created: alerted.length,
+          errors: failed.map((r) => `${r.patient_id}: ${r.error}`),
+        },
+        results: results.filter((r) => r.alert_id || r.error),
+        checked_at: now.toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Check medication doses error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,122 @@
+/**
+ * Close Idle Chat Sessions Edge Function
+ *
+ * Scheduled function that ends senior-chat sessions nobody has written to
+ * for CHAT_SESSION_IDLE_MINUTES (see _shared/chat-sessions.ts). ended_at is
+ * set to the session's last message, which fills in duration_seconds and
+ * the daily summary, and each closed session is sent to analyze-check-in.
+ *
+ * Should be invoked via cron job every 10 minutes.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Idempotent operations (closed sessions are not closed again)
+ * - Error handling
+ *
+ * @module edge-functions/close-idle-chat-sessions
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { getIdleCutoff } from "../_shared/chat-sessions.ts";
+import { closeIdleSessions } from "../_shared/chat-session-store.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Ask analyze-check-in to analyze a closed session
+ *
+ * @returns Whether the analysis request succeeded
+ */
+async function analyzeSession(supabaseUrl: string, serviceKey: string, checkInId: string): Promise<boolean> {
+  try {
+    const response = await fetch(`${supabaseUrl}/functions/v1/analyze-check-in`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${serviceKey}`,
+      },
+      body: JSON.stringify({ checkInId }),
+    });
+
+    if (!response.ok) {
+      console.error(`Analysis of session ${checkInId} failed:`, await response.text());
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error(`Error analyzing session ${checkInId}:`, error);
+    return false;
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+    const idleBefore = getIdleCutoff(now);
+
+    const closed = await closeIdleSessions(supabase, idleBefore);
+    console.log(`Closed ${closed.length} chat sessions idle since ${idleBefore.toISOString()}`);
+
+    let analyzed = 0;
+    for (const checkInId of closed) {
+      if (await analyzeSession(supabaseUrl, supabaseServiceKey, checkInId)) {
+        analyzed++;
+      }
+    }
+
+    return jsonResponse({
+      success: true,
+      closed: closed.length,
+      analyzed,
+      idle_before: idleBefore.toISOString(),
+      checked_at: now.toISOString(),
+    });
+  } catch (error) {
+    console.error("Close idle chat sessions error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,550 @@
+/**
+ * Dispatch Check-ins Edge Function
+ *
+ * Scheduled function that lets Parra start a conversation on its own at the
+ * times in checkin_schedules (the patient's local time):
+ * - whatsapp: the opening message is sent through Evolution API and the
+ *   senior's reply continues the conversation in whatsapp-webhook
+ * - app: the opening message waits in the app and becomes Parra's first
+ *   message the next time the senior opens Parra chat. Nothing is sent to
+ *   the device, so the senior only sees it when they open the app.
+ *
+ * WhatsApp check-ins for a senior without a WhatsApp number fall back to the
+ * app, and the check-in's status_reason says so. A check-in less than
+ * MIN_CHECKIN_SPACING_HOURS after the last conversation is skipped. A
+ * WhatsApp check-in nobody answers within the schedule's
+ * response_window_minutes is marked missed and raises a missed_checkin alert
+ * for the care team; a late reply resolves it. App check-ins have no reply
+ * window and never raise a missed alert, since the senior was never told
+ * about them.
+ *
+ * Should be invoked via cron job every 5 minutes.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Each check-in slot is claimed with a unique row before sending, so
+ *   overlapping runs do not send it twice
+ * - Error handling
+ *
+ * @module edge-functions/dispatch-checkins
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { notifyCaregivers } from "../_shared/notifications.ts";
+import {
+  MIN_CHECKIN_SPACING_HOURS,
+  formatCheckInGreeting,
+  formatMissedCheckInMessage,
+  getCheckInSlotState,
+  isTooSoonForCheckIn,
+  type CheckInChannel,
+} from "../_shared/scheduled-checkins.ts";
+import { addDaysToDateString, getLocalDateString, resolveTimeZone, zonedTimeToUtc } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const dispatchCheckInsSchema = z.object({
+  patientId: z.string().uuid().optional(),
+});
+
+interface PatientProfile {
+  full_name: string | null;
+  display_name: string | null;
+  whatsapp_phone: string | null;
+  timezone: string | null;
+}
+
+interface ScheduleRow {
+  id: string;
+  patient_id: string;
+  check_in_time: string;
+  channel: CheckInChannel;
+  response_window_minutes: number;
+  patient: PatientProfile | null;
+}
+
+interface OpenCheckInRow {
+  id: string;
+  patient_id: string;
+  channel: CheckInChannel;
+  scheduled_date: string;
+  scheduled_time: string;
+  patient: Pick<PatientProfile, "full_name" | "display_name"> | null;
+}
+
+interface CheckInResult {
+  patient_id: string;
+  schedule_id?: string;
+  scheduled_checkin_id?: string;
+  status: "sent" | "skipped" | "failed" | "missed";
+  channel?: CheckInChannel;
+  alert_id?: string | null;
+  error?: string;
+}
+
+interface WhatsAppConfig {
+  evolutionBaseUrl: string | undefined;
+  evolutionApiKey: string | undefined;
+  evolutionInstance: string | undefined;
+}
+
+// ============================================================================
+// Sending
+// ============================================================================
+
+async function sendWhatsApp(config: WhatsAppConfig, phoneNumber: string, message: string): Promise<void> {
+  const { evolutionBaseUrl, evolutionApiKey, evolutionInstance } = config;
+  if (!evolutionBaseUrl || !evolutionApiKey || !evolutionInstance) {
+    throw new Error("WhatsApp is not configured");
+  }
+
+  // Evolution API expects the international number without + and the WhatsApp suffix
+  const whatsappJid = `${phoneNumber.replace(/[^\d]/g, "")}@s.whatsapp.net`;
+  const url = `${evolutionBaseUrl}/message/sendText/${encodeURIComponent(evolutionInstance)}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: evolutionApiKey,
+    },
+    body: JSON.stringify({ number: whatsappJid, text: message }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Evolution API error: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+}
+
+/**
+ * When the patient last talked with Parra (any channel), or was last sent a
+ * scheduled check-in
+ */
+async function getLastInteractionAt(supabase: SupabaseClient, patientId: string): Promise<Date | null> {
+  const [checkIns, whatsapp, scheduled] = await Promise.all([
+    supabase
+      .from("check_ins")
+      .select("started_at")
+      .eq("patient_id", patientId)
+      .order("started_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("voice_checkins")
+      .select("created_at")
+      .eq("patient_id", patientId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+    supabase
+      .from("scheduled_checkins")
+      .select("sent_at")
+      .eq("patient_id", patientId)
+      .not("sent_at", "is", null)
+      .order("sent_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const times = [checkIns.data?.started_at, whatsapp.data?.created_at, scheduled.data?.sent_at]
+    .filter((value): value is string => !!value)
+    .map((value) => new Date(value).getTime());
+
+  return times.length > 0 ? new Date(Math.max(...times)) : null;
+}
+
+/**
+ * Send the due check-ins for one patient
+ */
+async function dispatchPatientCheckIns(
+  supabase: SupabaseClient,
+  patientId: string,
+  schedules: ScheduleRow[],
+  config: WhatsAppConfig,
+  now: Date
+): Promise<CheckInResult[]> {
+  const patient = schedules[0].patient;
+  const timeZone = resolveTimeZone(patient?.timezone);
+  const today = getLocalDateString(now, timeZone);
+  const yesterday = addDaysToDateString(today, -1);
+
+  // Yesterday covers a late-evening slot whose send window runs past midnight
+  const due = [yesterday, today].flatMap((date) =>
+    schedules
+      .filter((schedule) => getCheckInSlotState(zonedTimeToUtc(date, schedule.check_in_time, timeZone), now) === "due")
+      .map((schedule) => ({ schedule, date }))
+  );
+  if (due.length === 0) return [];
+
+  const { data: existing, error: existingError } = await supabase
+    .from("scheduled_checkins")
+    .select("schedule_id, scheduled_date")
+    .eq("patient_id", patientId)
+    .gte("scheduled_date", yesterday);
+
+  if (existingError) throw new Error(`Failed to load check-ins: ${existingError.message}`);
+
+  const pending = due.filter(
+    ({ schedule, date }) =>
+      !(existing || []).some((row) => row.schedule_id === schedule.id && row.scheduled_date === date)
+  );
+  if (pending.length === 0) return [];
+
+  let lastInteractionAt = await getLastInteractionAt(supabase, patientId);
+  const patientName = patient?.display_name || patient?.full_name?.split(" ")[0] || "there";
+  const results: CheckInResult[] = [];
+
+  for (const { schedule, date } of pending) {
+    const tooSoon = isTooSoonForCheckIn(lastInteractionAt, now);
+    const fellBackToApp = schedule.channel === "whatsapp" && !patient?.whatsapp_phone;
+    const channel: CheckInChannel = fellBackToApp ? "app" : schedule.channel;
+    const message = formatCheckInGreeting(patientName, schedule.check_in_time);
+
+    // Claim the slot; a unique violation means another run already has it
+    const { data: claimed, error: claimError } = await supabase
+      .from("scheduled_checkins")
+      .insert({
+        schedule_id: schedule.id,
+        patient_id: patientId,
+        scheduled_date: date,
+        scheduled_time: schedule.check_in_time,
+        channel,
+        ...(tooSoon
+          ? {
+            status: "skipped",
+            status_reason: `Last conversation was less than ${MIN_CHECKIN_SPACING_HOURS} hours ago`,
+          }
+          : {
+            status: "sent",
+            message,
+            sent_at: now.toISOString(),
+            // Only a check-in that reached the senior's phone can be missed
+            respond_by: channel === "whatsapp"
+              ? new Date(now.getTime() + schedule.response_window_minutes * 60000).toISOString()
+              : null,
+            ...(fellBackToApp ? { status_reason: "No WhatsApp number; waiting in the Parra app" } : {}),
+          }),
+      })
+      .select("id")
+      .single();
+
+    if (claimError) {
+      if (claimError.code === "23505") continue;
+      throw new Error(`Failed to record check-in: ${claimError.message}`);
+    }
+
+    if (tooSoon) {
+      results.push({ patient_id: patientId, schedule_id: schedule.id, scheduled_checkin_id: claimed.id, status: "skipped", channel });
+      continue;
+    }
+
+    try {
+      if (channel === "whatsapp") {
+        await sendWhatsApp(config, patient!.whatsapp_phone!, message);
+      }
+      // app check-ins are picked up by Parra chat
+      lastInteractionAt = now;
+      results.push({ patient_id: patientId, schedule_id: schedule.id, scheduled_checkin_id: claimed.id, status: "sent", channel });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send check-in ${claimed.id}:`, reason);
+
+      await supabase
+        .from("scheduled_checkins")
+        .update({ status: "failed", status_reason: reason, respond_by: null })
+        .eq("id", claimed.id);
+
+      results.push({
+        patient_id: patientId,
+        schedule_id: schedule.id,
+        scheduled_checkin_id: claimed.id,
+        status: "failed",
+        channel,
+        error: reason,
+      });
+    }
+  }
+
+  return results;
+}
+
+// ============================================================================
+// Missed Check-ins
+// ============================================================================
+
+/**
+ * Mark an unanswered check-in missed and alert the care team
+ */
+async function markCheckInMissed(
+  supabase: SupabaseClient,
+  checkIn: OpenCheckInRow,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<CheckInResult | null> {
+  // Only the run that moves it out of 'sent' raises the alert; an answer in
+  // the meantime wins
+  const { data: updated, error: updateError } = await supabase
+    .from("scheduled_checkins")
+    .update({ status: "missed" })
+    .eq("id", checkIn.id)
+    .eq("status", "sent")
+    .select("id");
+
+  if (updateError) throw new Error(`Failed to mark check-in missed: ${updateError.message}`);
+  if (!updated || updated.length === 0) return null;
+
+  const patientName = checkIn.patient?.display_name || checkIn.patient?.full_name || "Your loved one";
+  const alertMessage = formatMissedCheckInMessage(patientName, checkIn.scheduled_time, checkIn.channel);
+
+  const { data: alert, error: alertError } = await supabase
+    .from("alerts")
+    .insert({
+      patient_id: checkIn.patient_id,
+      alert_type: "missed_checkin",
+      severity: "medium",
+      status: "active",
+      alert_message: alertMessage,
+      alert_details: {
+        scheduled_checkin_id: checkIn.id,
+        scheduled_date: checkIn.scheduled_date,
+        scheduled_time: checkIn.scheduled_time,
+        channel: checkIn.channel,
+      },
+    })
+    .select("id")
+    .single();
+
+  if (alertError || !alert) {
+    throw new Error(`Failed to create alert: ${alertError?.message ?? "no alert returned"}`);
+  }
+
+  await supabase.from("scheduled_checkins").update({ alert_id: alert.id }).eq("id", checkIn.id);
+  await notifyCaregivers(supabaseUrl, supabaseServiceKey, alert.id, alertMessage);
+
+  return {
+    patient_id: checkIn.patient_id,
+    scheduled_checkin_id: checkIn.id,
+    status: "missed",
+    channel: checkIn.channel,
+    alert_id: alert.id,
+  };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get environment variables
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(
+        JSON.stringify({ error: "Service configuration error" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Optional body: { patientId } to dispatch one patient's check-ins
+    let body: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: "Invalid JSON" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const parsed = dispatchCheckInsSchema.safeParse(body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Validation failed",
+          details: parsed.error.errors.map((err) => err.message),
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { patientId } = parsed.data;
+
+    // Create Supabase client with service role
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const now = new Date();
+
+    let schedulesQuery = supabase
+      .from("checkin_schedules")
+      .select(`
+        id,
+        patient_id,
+        check_in_time,
+        channel,
+        response_window_minutes,
+        patient:profiles!checkin_schedules_patient_id_fkey(full_name, display_name, whatsapp_phone, timezone)
+      `)
+      .eq("is_active", true)
+      .order("check_in_time", { ascending: true });
+
+    let openQuery = supabase
+      .from("scheduled_checkins")
+      .select(`
+        id,
+        patient_id,
+        channel,
+        scheduled_date,
+        scheduled_time,
+        patient:profiles!scheduled_checkins_patient_id_fkey(full_name, display_name)
+      `)
+      .eq("status", "sent")
+      .eq("channel", "whatsapp")
+      .lt("respond_by", now.toISOString());
+
+    if (patientId) {
+      schedulesQuery = schedulesQuery.eq("patient_id", patientId);
+      openQuery = openQuery.eq("patient_id", patientId);
+    }
+
+    const [{ data: schedules, error: schedulesError }, { data: overdue, error: overdueError }] = await Promise.all([
+      schedulesQuery,
+      openQuery,
+    ]);
+
+    if (schedulesError || overdueError) {
+      const error = schedulesError || overdueError;
+      console.error("Error fetching check-ins:", error);
+      return new Response(
+        JSON.stringify({
+          error: "Failed to fetch check-ins",
+          details: error?.message,
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const config: WhatsAppConfig = {
+      evolutionBaseUrl: Deno.env.get("EVOLUTION_BASE_URL"),
+      evolutionApiKey: Deno.env.get("EVOLUTION_API_KEY"),
+      evolutionInstance: Deno.env.get("EVOLUTION_INSTANCE_NAME"),
+    };
+
+    const results: CheckInResult[] = [];
+
+    // Unanswered check-ins first, so a new check-in is not spaced against
+    // one that just went unanswered
+    for (const checkIn of (overdue || []) as unknown as OpenCheckInRow[]) {
+      try {
+        const result = await markCheckInMissed(supabase, checkIn, supabaseUrl, supabaseServiceKey);
+        if (result) results.push(result);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to handle missed check-in ${checkIn.id}:`, message);
+        results.push({ patient_id: checkIn.patient_id, scheduled_checkin_id: checkIn.id, status: "failed", error: message });
+      }
+    }
+
+    const byPatient = new Map<string, ScheduleRow[]>();
+    for (const schedule of (schedules || []) as unknown as ScheduleRow[]) {
+      const list = byPatient.get(schedule.patient_id) || [];
+      list.push(schedule);
+      byPatient.set(schedule.patient_id, list);
+    }
+
+    for (const [id, patientSchedules] of byPatient) {
+      try {
+        results.push(...(await dispatchPatientCheckIns(supabase, id, patientSchedules, config, now)));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Failed to dispatch check-ins for patient ${id}:`, message);
+        results.push({ patient_id: id, status: "failed", error: message });
+      }
+    }
+
+    const count = (status: CheckInResult["status"]) => results.filter((r) => r.status === status).length;
+    const failed = results.filter((r) => r.status === "failed");
+
+    console.log(
+      `Check-ins: ${count("sent")} sent, ${count("skipped")} skipped, ${count("missed")} missed, ${failed.length} failed`
+    );
+
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        summary: {
+          patients_checked: byPatient.size,
+          checkins_sent: count("sent"),
+          checkins_skipped: count("skipped"),
+          checkins_missed: count("missed"),
+          checkins_failed: failed.length,
+          errors: failed.map((r) => `${r.scheduled_checkin_id ?? r.patient_id}: ${r.error}`),
+        },
+        results,
+        dispatched_at: now.toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Dispatch check-ins error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
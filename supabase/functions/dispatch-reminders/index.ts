@@ -0,0 +1,452 @@
+/**
+ * Dispatch Reminders Edge Function
+ *
+ * Scheduled function that delivers reminder notes (caregiver_notes with
+ * is_reminder = true) to the senior once their reminder_date / reminder_time
+ * has passed in the patient's profile timezone:
+ * - whatsapp: sent through Evolution API; the senior can reply "ok" / "done"
+ *   and whatsapp-webhook marks the reminder acknowledged
+ * - email: sent through Resend
+ * - chat: queued for the senior's next Parra conversation, where senior-chat
+ *   passes it on and acknowledges it with the acknowledge_reminder tool
+ *
+ * WhatsApp reminders for a senior without a WhatsApp number fall back to chat.
+ * Failed deliveries are retried on later runs up to MAX_REMINDER_ATTEMPTS;
+ * reminders more than REMINDER_EXPIRY_HOURS late are not sent.
+ *
+ * Should be invoked via cron job every 5 minutes.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Reminders are marked sent on delivery, so later runs do not resend them
+ * - Error handling
+ *
+ * @module edge-functions/dispatch-reminders
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  MAX_REMINDER_ATTEMPTS,
+  REMINDER_EXPIRY_HOURS,
+  formatReminderMessage,
+  getReminderState,
+  type ReminderChannel,
+} from "../_shared/reminders.ts";
+import { addDaysToDateString, resolveTimeZone } from "../_shared/timezone.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const dispatchRemindersSchema = z.object({
+  patientId: z.string().uuid().optional(),
+});
+
+/**
+ * Reminders are stored in local dates; this many days either side of the
+ * UTC date covers every timezone plus the expiry window
+ */
+const DATE_WINDOW_DAYS = 2;
+
+const BATCH_LIMIT = 200;
+
+interface ReminderRow {
+  id: string;
+  patient_id: string;
+  created_by: "caregiver" | "parra";
+  note_text: string;
+  reminder_date: string;
+  reminder_time: string | null;
+  reminder_channel: ReminderChannel;
+  reminder_attempts: number;
+  caregiver: { full_name: string | null; display_name: string | null } | null;
+  patient: {
+    full_name: string | null;
+    display_name: string | null;
+    email: string | null;
+    whatsapp_phone: string | null;
+    timezone: string | null;
+  } | null;
+}
+
+interface DispatchResult {
+  reminder_id: string;
+  patient_id: string;
+  status: "sent" | "failed" | "expired";
+  channel: ReminderChannel;
+  error?: string;
+}
+
+interface DeliveryConfig {
+  resendApiKey: string | undefined;
+  evolutionBaseUrl: string | undefined;
+  evolutionApiKey: string | undefined;
+  evolutionInstance: string | undefined;
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+async function sendWhatsApp(config: DeliveryConfig, phoneNumber: string, message: string): Promise<void> {
+  const { evolutionBaseUrl, evolutionApiKey, evolutionInstance } = config;
+  if (!evolutionBaseUrl || !evolutionApiKey || !evolutionInstance) {
+    throw new Error("WhatsApp is not configured");
+  }
+
+  // Evolution API expects the international number without + and the WhatsApp suffix
+  const whatsappJid = `${phoneNumber.replace(/[^\d]/g, "")}@s.whatsapp.net`;
+  const url = `${evolutionBaseUrl}/message/sendText/${encodeURIComponent(evolutionInstance)}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: evolutionApiKey,
+    },
+    body: JSON.stringify({ number: whatsappJid, text: message }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Evolution API error: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+}
+
+async function sendEmail(config: DeliveryConfig, toEmail: string, subject: string, message: string): Promise<void> {
+  if (!config.resendApiKey) {
+    throw new Error("Email is not configured");
+  }
+
+  const html = `<div style="font-family: sans-serif; font-size: 18px; line-height: 1.5;">${
+    escapeHtml(message).replace(/\n/g, "<br>")
+  }</div>`;
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.resendApiKey}`,
+    },
+    body: JSON.stringify({
+      from: "Parra <onboarding@resend.dev>",
+      to: [toEmail],
+      subject,
+      html,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Resend API error: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+}
+
+/**
+ * Deliver one reminder. Returns the channel it actually went out on.
+ */
+async function deliverReminder(reminder: ReminderRow, config: DeliveryConfig): Promise<ReminderChannel> {
+  const patient = reminder.patient;
+  if (!patient) throw new Error("Patient profile not found");
+
+  const patientName = patient.display_name || patient.full_name || "there";
+  const fromName = reminder.caregiver?.display_name || reminder.caregiver?.full_name || null;
+  const messageInput = {
+    noteText: reminder.note_text,
+    createdBy: reminder.created_by,
+    patientName,
+    fromName,
+  };
+
+  switch (reminder.reminder_channel) {
+    case "whatsapp":
+      if (!patient.whatsapp_phone) return "chat";
+      await sendWhatsApp(config, patient.whatsapp_phone, formatReminderMessage(messageInput, "whatsapp"));
+      return "whatsapp";
+
+    case "email": {
+      if (!patient.email) throw new Error("No email address on file");
+      const subject = reminder.created_by === "parra"
+        ? "Parra is checking in"
+        : `A reminder from ${fromName || "your care team"}`;
+      await sendEmail(config, patient.email, subject, formatReminderMessage(messageInput, "email"));
+      return "email";
+    }
+
+    case "chat":
+      // senior-chat picks up sent chat reminders on the next conversation
+      return "chat";
+  }
+}
+
+/**
+ * Deliver a due reminder and record the outcome on the note
+ */
+async function dispatchReminder(
+  supabase: SupabaseClient,
+  reminder: ReminderRow,
+  config: DeliveryConfig,
+  now: Date
+): Promise<DispatchResult> {
+  const attempts = reminder.reminder_attempts + 1;
+
+  try {
+    const channel = await deliverReminder(reminder, config);
+
+    const { error } = await supabase
+      .from("caregiver_notes")
+      .update({
+        reminder_sent: true,
+        reminder_sent_at: now.toISOString(),
+        reminder_channel: channel,
+        reminder_attempts: attempts,
+        reminder_error: null,
+      })
+      .eq("id", reminder.id);
+
+    if (error) throw error;
+
+    return { reminder_id: reminder.id, patient_id: reminder.patient_id, status: "sent", channel };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Failed to send reminder ${reminder.id}:`, message);
+
+    await supabase
+      .from("caregiver_notes")
+      .update({ reminder_attempts: attempts, reminder_error: message })
+      .eq("id", reminder.id);
+
+    return {
+      reminder_id: reminder.id,
+      patient_id: reminder.patient_id,
+      status: "failed",
+      channel: reminder.reminder_channel,
+      error: message,
+    };
+  }
+}
+
+/**
+ * Retire a reminder that is too late to send
+ */
+async function expireReminder(supabase: SupabaseClient, reminder: ReminderRow): Promise<DispatchResult> {
+  const message = `Not sent: more than ${REMINDER_EXPIRY_HOURS} hours past its time`;
+
+  // Using up the attempts keeps it out of later runs
+  const { error } = await supabase
+    .from("caregiver_notes")
+    .update({ reminder_attempts: MAX_REMINDER_ATTEMPTS, reminder_error: message })
+    .eq("id", reminder.id);
+
+  if (error) console.error(`Failed to expire reminder ${reminder.id}:`, error);
+
+  return {
+    reminder_id: reminder.id,
+    patient_id: reminder.patient_id,
+    status: "expired",
+    channel: reminder.reminder_channel,
+    error: message,
+  };
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get environment variables
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(
+        JSON.stringify({ error: "Service configuration error" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Optional body: { patientId } to dispatch one patient's reminders
+    let body: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: "Invalid JSON" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const parsed = dispatchRemindersSchema.safeParse(body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Validation failed",
+          details: parsed.error.errors.map((err) => err.message),
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { patientId } = parsed.data;
+
+    // Create Supabase client with service role
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const now = new Date();
+    const utcToday = now.toISOString().split("T")[0];
+
+    let remindersQuery = supabase
+      .from("caregiver_notes")
+      .select(`
+        id,
+        patient_id,
+        created_by,
+        note_text,
+        reminder_date,
+        reminder_time,
+        reminder_channel,
+        reminder_attempts,
+        caregiver:profiles!caregiver_notes_caregiver_id_fkey(full_name, display_name),
+        patient:profiles!caregiver_notes_patient_id_fkey(full_name, display_name, email, whatsapp_phone, timezone)
+      `)
+      .eq("is_reminder", true)
+      .eq("reminder_sent", false)
+      .lt("reminder_attempts", MAX_REMINDER_ATTEMPTS)
+      .gte("reminder_date", addDaysToDateString(utcToday, -DATE_WINDOW_DAYS))
+      .lte("reminder_date", addDaysToDateString(utcToday, 1))
+      .order("reminder_date", { ascending: true })
+      .order("reminder_time", { ascending: true })
+      .limit(BATCH_LIMIT);
+
+    if (patientId) {
+      remindersQuery = remindersQuery.eq("patient_id", patientId);
+    }
+
+    const { data: reminders, error: remindersError } = await remindersQuery;
+
+    if (remindersError) {
+      console.error("Error fetching reminders:", remindersError);
+      return new Response(
+        JSON.stringify({
+          error: "Failed to fetch reminders",
+          details: remindersError.message,
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const config: DeliveryConfig = {
+      resendApiKey: Deno.env.get("RESEND_API_KEY"),
+      evolutionBaseUrl: Deno.env.get("EVOLUTION_BASE_URL"),
+      evolutionApiKey: Deno.env.get("EVOLUTION_API_KEY"),
+      evolutionInstance: Deno.env.get("EVOLUTION_INSTANCE_NAME"),
+    };
+
+    const results: DispatchResult[] = [];
+
+    for (const reminder of (reminders || []) as unknown as ReminderRow[]) {
+      if (!reminder.reminder_date) continue;
+
+      const timeZone = resolveTimeZone(reminder.patient?.timezone);
+      const state = getReminderState(
+        { reminder_date: reminder.reminder_date, reminder_time: reminder.reminder_time },
+        timeZone,
+        now
+      );
+
+      if (state === "due") {
+        results.push(await dispatchReminder(supabase, reminder, config, now));
+      } else if (state === "expired") {
+        results.push(await expireReminder(supabase, reminder));
+      }
+    }
+
+    const sent = results.filter((r) => r.status === "sent");
+    const failed = results.filter((r) => r.status === "failed");
+
+    console.log(`Dispatched ${sent.length} reminders (${failed.length} failed) of ${reminders?.length || 0} pending`);
+
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        summary: {
+          reminders_checked: reminders?.length || 0,
+          reminders_sent: sent.length,
+          reminders_failed: failed.length,
+          reminders_expired: results.length - sent.length - failed.length,
+          errors: failed.map((r) => `${r.reminder_id}: ${r.error}`),
+        },
+        results,
+        dispatched_at: now.toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Dispatch reminders error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,351 @@
+/**
+ * Generate Daily Summaries Edge Function
+ *
+ * Scheduled function that rolls up each patient's day into daily_summaries:
+ * - Check-ins (app chat) and voice check-ins (WhatsApp)
+ * - Alerts raised during the day
+ * - Health metrics (heart rate, blood pressure, steps, sleep)
+ * - Motion sensor events
+ * - Medication doses
+ *
+ * The rollup itself is in _shared/daily-summaries.ts.
+ * Days are computed in each patient's profile timezone. Every run recomputes
+ * the summary from source rows and upserts it, so re-running for a date that
+ * is already summarized simply refreshes it. Yesterday's summary is refreshed
+ * until the dailySummaryTime system setting (patient's local time) and is
+ * final after that. Days that start before the dataRetentionDays window
+ * are skipped: their source rows have been purged, and recomputing would
+ * overwrite the summary with an empty one.
+ *
+ * Should be invoked via cron job every hour.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Idempotent operations
+ * - Error handling
+ *
+ * @module edge-functions/generate-daily-summaries
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getZonedDayBounds, resolveTimeZone } from "../_shared/timezone.ts";
+import { getSummaryDatesToRefresh } from "../_shared/system-settings.ts";
+import { loadSystemSettings } from "../_shared/system-settings-store.ts";
+import { getRetentionCutoff } from "../_shared/retention.ts";
+import {
+  buildDailySummary,
+  type AlertRow,
+  type CheckInRow,
+  type DaySources,
+  type HealthMetricRow,
+  type MedicationDoseRow,
+  type MotionEventRow,
+  type SummaryStatus,
+  type VoiceCheckInRow,
+} from "../_shared/daily-summaries.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const generateSummariesSchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date format (YYYY-MM-DD)").optional(),
+  patientId: z.string().uuid().optional(),
+});
+
+interface PatientRow {
+  id: string;
+  full_name: string | null;
+  display_name: string | null;
+  timezone: string | null;
+}
+
+interface SummaryResult {
+  patient_id: string;
+  summary_date: string;
+  status: "generated" | "skipped" | "failed";
+  overall_status?: SummaryStatus;
+  error?: string;
+}
+
+// ============================================================================
+// Data Access
+// ============================================================================
+
+/**
+ * Load every source record for one patient's local day
+ */
+async function fetchDaySources(
+  supabase: SupabaseClient,
+  patientId: string,
+  summaryDate: string,
+  start: Date,
+  end: Date
+): Promise<DaySources> {
+  const from = start.toISOString();
+  const to = end.toISOString();
+
+  const [checkIns, voiceCheckIns, alerts, healthMetrics, motionEvents, medicationDoses] = await Promise.all([
+    supabase
+      .from("check_ins")
+      .select("started_at, duration_seconds, mood_detected, sentiment_score, topics_discussed, safety_concern_detected, safety_concern_type")
+      .eq("patient_id", patientId)
+      .gte("started_at", from)
+      .lt("started_at", to),
+    supabase
+      .from("voice_checkins")
+      .select("created_at, duration_seconds, transcript")
+      .eq("patient_id", patientId)
+      .gte("created_at", from)
+      .lt("created_at", to),
+    supabase
+      .from("alerts")
+      .select("alert_type, severity, status, resolved_at")
+      .eq("patient_id", patientId)
+      .gte("created_at", from)
+      .lt("created_at", to),
+    supabase
+      .from("health_metrics")
+      .select("metric_type, data_source, value_numeric, value_json, is_anomaly, anomaly_reason")
+      .eq("patient_id", patientId)
+      .gte("recorded_at", from)
+      .lt("recorded_at", to),
+    supabase
+      .from("motion_sensor_events")
+      .select("detection_state")
+      .eq("patient_id", patientId)
+      .gte("recorded_at", from)
+      .lt("recorded_at", to),
+    // Doses are scheduled on the patient's local date
+    supabase
+      .from("medication_doses")
+      .select("status")
+      .eq("patient_id", patientId)
+      .eq("scheduled_date", summaryDate),
+  ]);
+
+  for (const result of [checkIns, voiceCheckIns, alerts, healthMetrics, motionEvents, medicationDoses]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    checkIns: (checkIns.data || []) as CheckInRow[],
+    voiceCheckIns: (voiceCheckIns.data || []) as VoiceCheckInRow[],
+    alerts: (alerts.data || []) as AlertRow[],
+    healthMetrics: (healthMetrics.data || []) as HealthMetricRow[],
+    motionEvents: (motionEvents.data || []) as MotionEventRow[],
+    medicationDoses: (medicationDoses.data || []) as MedicationDoseRow[],
+  };
+}
+
+/**
+ * Generate and store the summary for one patient and local date
+ */
+async function generateSummary(
+  supabase: SupabaseClient,
+  patient: PatientRow,
+  summaryDate: string
+): Promise<SummaryResult> {
+  try {
+    const timeZone = resolveTimeZone(patient.timezone);
+    const { start, end } = getZonedDayBounds(summaryDate, timeZone);
+
+    const sources = await fetchDaySources(supabase, patient.id, summaryDate, start, end);
+    const summary = buildDailySummary(patient, summaryDate, sources);
+
+    const { error } = await supabase
+      .from("daily_summaries")
+      .upsert(summary, { onConflict: "patient_id,summary_date" });
+
+    if (error) throw error;
+
+    return {
+      patient_id: patient.id,
+      summary_date: summaryDate,
+      status: "generated",
+      overall_status: summary.overall_status,
+    };
+  } catch (error) {
+    console.error(`Failed to summarize ${summaryDate} for patient ${patient.id}:`, error);
+    return {
+      patient_id: patient.id,
+      summary_date: summaryDate,
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Get environment variables
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return new Response(
+        JSON.stringify({ error: "Service configuration error" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return new Response(
+          JSON.stringify({ error: "Unauthorized" }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    // Optional body: { date, patientId } to (re)generate a specific day
+    let body: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return new Response(
+          JSON.stringify({ error: "Invalid JSON" }),
+          {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          }
+        );
+      }
+    }
+
+    const parsed = generateSummariesSchema.safeParse(body);
+    if (!parsed.success) {
+      return new Response(
+        JSON.stringify({
+          error: "Validation failed",
+          details: parsed.error.errors.map((err) => err.message),
+        }),
+        {
+          status: 400,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { date, patientId } = parsed.data;
+
+    // Create Supabase client with service role
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let patientsQuery = supabase
+      .from("profiles")
+      .select("id, full_name, display_name, timezone")
+      .eq("role", "senior");
+
+    if (patientId) {
+      patientsQuery = patientsQuery.eq("id", patientId);
+    }
+
+    const { data: patients, error: patientsError } = await patientsQuery;
+
+    if (patientsError) {
+      console.error("Error fetching patients:", patientsError);
+      return new Response(
+        JSON.stringify({
+          error: "Failed to fetch patients",
+          details: patientsError.message,
+        }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    const { settings } = await loadSystemSettings(supabase);
+
+    console.log(`Generating daily summaries for ${patients?.length || 0} patients...`);
+
+    const now = new Date();
+    const retentionCutoff = getRetentionCutoff(now, settings.dataRetentionDays);
+    const results: SummaryResult[] = [];
+
+    for (const patient of (patients || []) as PatientRow[]) {
+      // Without an explicit date, refresh today so far, and yesterday until
+      // it is final, both in the patient's local timezone
+      const timeZone = resolveTimeZone(patient.timezone);
+      const dates = date ? [date] : getSummaryDatesToRefresh(now, timeZone, settings.dailySummaryTime);
+
+      for (const summaryDate of dates) {
+        if (getZonedDayBounds(summaryDate, timeZone).start < retentionCutoff) {
+          results.push({
+            patient_id: patient.id,
+            summary_date: summaryDate,
+            status: "skipped",
+            error: "Source data for this date is past the retention window",
+          });
+          continue;
+        }
+
+        results.push(await generateSummary(supabase, patient, summaryDate));
+      }
+    }
+
+    const failed = results.filter((r) => r.status === "failed");
+    const skipped = results.filter((r) => r.status === "skipped");
+
+    return new Response(
+      JSON.stringify({
+        success: failed.length === 0,
+        summary: {
+          patients_processed: patients?.length || 0,
+          summaries_generated: results.length - failed.length - skipped.length,
+          summaries_skipped: skipped.length,
+          summaries_failed: failed.length,
+          errors: failed.map((r) => `${r.patient_id} ${r.summary_date}: ${r.error}`),
+        },
+        results,
+        generated_at: now.toISOString(),
+      }),
+      {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  } catch (error) {
+    console.error("Generate daily summaries error:", error);
+    return new Response(
+      JSON.stringify({
+        error: error instanceof Error ? error.message : "Unknown error",
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
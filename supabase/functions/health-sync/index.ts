@@ -0,0 +1,382 @@
+/**
+ * Health Sync Edge Function
+ *
+ * Ingestion endpoint for Health Connect / wearable data. The Parra phone app
+ * (or an importer) posts a batch of metric records for one device:
+ * - Each record is validated on its own against the allowed metric types,
+ *   units and plausible ranges; values are stored in canonical units
+ * - Records whose health_connect_id is already stored for the patient (or
+ *   repeated within the batch) are reported as duplicates and skipped
+ * - health_sync_status for the device is updated: last attempt, status
+ *   (success / partial / failed), record counts and consecutive failures
+ *
+ * Anomaly flagging and caregiver alerts happen in the database when the
+ * readings are inserted.
+ *
+ * With dryRun the per-record results are returned without storing anything,
+ * so the export importer can preview new, duplicate and rejected records.
+ *
+ * Security Features:
+ * - Requires the patient's JWT, a caregiver's with can_view_health_data and
+ *   can_modify_settings for the patient (or an admin's, or the service role
+ *   key). Stored readings can raise alerts, so a caregiver who can only view
+ *   health data may preview an import (dryRun) but not store it.
+ * - Input validation with Zod and per-record validation
+ * - Batch size limit
+ *
+ * @module edge-functions/health-sync
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  MAX_RECORDS_PER_SYNC,
+  summarizeSync,
+  validateHealthRecord,
+  type HealthMetricRow,
+  type RecordResult,
+  type SyncOutcome,
+} from "../_shared/health-records.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+// Records are validated individually so one bad record does not fail the batch
+const healthSyncSchema = z.object({
+  patientId: z.string().uuid().optional(),
+  deviceId: z.string().trim().min(1).max(200),
+  deviceName: z.string().trim().max(200).optional(),
+  records: z.array(z.unknown()).max(MAX_RECORDS_PER_SYNC, `At most ${MAX_RECORDS_PER_SYNC} records per sync`),
+  dryRun: z.boolean().optional(),
+});
+
+interface SyncStatusRow {
+  id: string;
+  total_syncs: number | null;
+  total_records_synced: number | null;
+  consecutive_failures: number | null;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * health_connect_ids from the batch that are already stored for the patient
+ */
+async function findExistingIds(
+  supabase: SupabaseClient,
+  patientId: string,
+  ids: string[]
+): Promise<Set<string>> {
+  const existing = new Set<string>();
+
+  // Keep the IN list (and the request URL) a reasonable size
+  for (let i = 0; i < ids.length; i += 100) {
+    const { data, error } = await supabase
+      .from("health_metrics")
+      .select("health_connect_id")
+      .eq("patient_id", patientId)
+      .in("health_connect_id", ids.slice(i, i + 100));
+
+    if (error) throw error;
+    for (const row of data || []) {
+      if (row.health_connect_id) existing.add(row.health_connect_id);
+    }
+  }
+
+  return existing;
+}
+
+/**
+ * Insert accepted rows, updating their results with the new ids.
+ * Falls back to row-by-row inserts when the batch insert fails so a single
+ * bad row is reported against its own record.
+ */
+async function insertRows(
+  supabase: SupabaseClient,
+  patientId: string,
+  pending: Array<{ result: RecordResult; row: HealthMetricRow }>
+): Promise<void> {
+  if (pending.length === 0) return;
+
+  const { data, error } = await supabase
+    .from("health_metrics")
+    .insert(pending.map(({ row }) => ({ ...row, patient_id: patientId })))
+    .select("id, health_connect_id");
+
+  if (!error) {
+    const idsByConnectId = new Map((data || []).map((row) => [row.health_connect_id, row.id]));
+    for (const { result, row } of pending) {
+      result.id = idsByConnectId.get(row.health_connect_id);
+    }
+    return;
+  }
+
+  console.error("Batch insert failed, inserting records individually:", error);
+
+  for (const { result, row } of pending) {
+    const { data: inserted, error: rowError } = await supabase
+      .from("health_metrics")
+      .insert({ ...row, patient_id: patientId })
+      .select("id")
+      .single();
+
+    if (rowError) {
+      if (rowError.code === "23505") {
+        result.status = "duplicate";
+      } else {
+        result.status = "rejected";
+        result.error = rowError.message;
+      }
+    } else {
+      result.id = inserted.id;
+    }
+  }
+}
+
+/**
+ * Record the outcome of this sync on the device's health_sync_status row
+ */
+async function updateSyncStatus(
+  supabase: SupabaseClient,
+  patientId: string,
+  deviceId: string,
+  deviceName: string | undefined,
+  outcome: SyncOutcome,
+  acceptedCount: number,
+  error: string | null
+): Promise<void> {
+  const { data: current } = await supabase
+    .from("health_sync_status")
+    .select("id, total_syncs, total_records_synced, consecutive_failures")
+    .eq("patient_id", patientId)
+    .eq("device_id", deviceId)
+    .maybeSingle();
+
+  const previous = current as SyncStatusRow | null;
+  const now = new Date().toISOString();
+
+  const update: Record<string, unknown> = {
+    patient_id: patientId,
+    device_id: deviceId,
+    last_sync_attempt_at: now,
+    last_sync_status: outcome,
+    last_sync_error: error,
+    last_records_count: acceptedCount,
+    total_syncs: (previous?.total_syncs ?? 0) + 1,
+    total_records_synced: (previous?.total_records_synced ?? 0) + acceptedCount,
+    consecutive_failures: outcome === "failed" ? (previous?.consecutive_failures ?? 0) + 1 : 0,
+  };
+
+  if (deviceName) update.device_name = deviceName;
+  if (outcome !== "failed") update.last_successful_sync_at = now;
+
+  const { error: upsertError } = await supabase
+    .from("health_sync_status")
+    .upsert(update, { onConflict: "patient_id,device_id" });
+
+  if (upsertError) {
+    console.error("Failed to update health sync status:", upsertError);
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    const token = extractAuthToken(req);
+    if (!token) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = healthSyncSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const { deviceId, deviceName, records, dryRun } = validation.data;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // Patients sync their own data; caregivers, admins and server-side importers name the patient
+    let patientId = validation.data.patientId;
+
+    if (token === supabaseServiceKey) {
+      if (!patientId) {
+        return jsonResponse({ error: "patientId is required" }, 400);
+      }
+    } else {
+      const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !user) {
+        return jsonResponse({ error: "Invalid authentication token" }, 401);
+      }
+
+      if (patientId && patientId !== user.id) {
+        const { data: relationship } = await supabase
+          .from("care_relationships")
+          .select("can_modify_settings")
+          .eq("patient_id", patientId)
+          .eq("caregiver_id", user.id)
+          .eq("status", "active")
+          .eq("can_view_health_data", true)
+          .maybeSingle();
+
+        if (!relationship || (!dryRun && !relationship.can_modify_settings)) {
+          const { data: profile } = await supabase
+            .from("profiles")
+            .select("role")
+            .eq("id", user.id)
+            .single();
+
+          if (profile?.role !== "admin") {
+            return jsonResponse({ error: "Forbidden" }, 403);
+          }
+        }
+      }
+
+      patientId = patientId || user.id;
+    }
+
+    const { data: patient } = await supabase
+      .from("profiles")
+      .select("id")
+      .eq("id", patientId)
+      .maybeSingle();
+
+    if (!patient) {
+      return jsonResponse({ error: "Patient not found" }, 404);
+    }
+
+    // Validate each record
+    const now = new Date();
+    const results: RecordResult[] = [];
+    const valid: Array<{ result: RecordResult; row: HealthMetricRow }> = [];
+
+    records.forEach((raw, index) => {
+      const checked = validateHealthRecord(raw, now);
+      if (checked.ok) {
+        const result: RecordResult = { index, healthConnectId: checked.row.health_connect_id, status: "accepted" };
+        results.push(result);
+        valid.push({ result, row: checked.row });
+      } else {
+        const healthConnectId = (raw as { healthConnectId?: unknown } | null)?.healthConnectId;
+        results.push({
+          index,
+          healthConnectId: typeof healthConnectId === "string" ? healthConnectId : null,
+          status: "rejected",
+          error: checked.error,
+        });
+      }
+    });
+
+    // Skip records already stored or repeated within this batch
+    const existing = await findExistingIds(
+      supabase,
+      patientId,
+      [...new Set(valid.map(({ row }) => row.health_connect_id))]
+    );
+    const seen = new Set<string>();
+    const pending = valid.filter(({ result, row }) => {
+      if (existing.has(row.health_connect_id) || seen.has(row.health_connect_id)) {
+        result.status = "duplicate";
+        return false;
+      }
+      seen.add(row.health_connect_id);
+      return true;
+    });
+
+    if (!dryRun) {
+      await insertRows(supabase, patientId, pending);
+    }
+
+    const outcome = summarizeSync(results);
+    const accepted = results.filter((r) => r.status === "accepted").length;
+    const duplicates = results.filter((r) => r.status === "duplicate").length;
+    const rejected = results.length - accepted - duplicates;
+
+    // A preview reports what would happen without recording a sync
+    if (dryRun) {
+      return jsonResponse({ success: true, dryRun: true, status: outcome, accepted, duplicates, rejected, results });
+    }
+
+    const firstError = results.find((r) => r.status === "rejected")?.error ?? null;
+
+    await updateSyncStatus(
+      supabase,
+      patientId,
+      deviceId,
+      deviceName,
+      outcome,
+      accepted,
+      rejected > 0 ? `${rejected} of ${results.length} records rejected: ${firstError}` : null
+    );
+
+    console.log(
+      `Health sync for ${patientId} (${deviceId}): ${outcome}, ${accepted} accepted, ${duplicates} duplicate, ${rejected} rejected`
+    );
+
+    return jsonResponse({
+      success: outcome !== "failed",
+      status: outcome,
+      accepted,
+      duplicates,
+      rejected,
+      results,
+    });
+  } catch (error) {
+    console.error("Health sync error:", error);
+    return jsonResponse({
+      error: error instanceof Error ? error.message : "Unknown error",
+    }, 500);
+  }
+});
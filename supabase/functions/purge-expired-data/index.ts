@@ -0,0 +1,173 @@
+/**
+ * Purge Expired Data Edge Function
+ *
+ * Scheduled function that applies the dataRetentionDays system setting.
+ * Rows recorded before the retention window are handled per table (see
+ * _shared/retention.ts):
+ * - check_ins and voice_checkins are anonymized: what was said is cleared,
+ *   the row stays
+ * - motion_sensor_events and health_metrics are deleted
+ * - daily_summaries and health_metric_aggregates are kept
+ *
+ * With { "dryRun": true } nothing is changed and the response reports how
+ * many rows each table would lose. Each table actually purged is logged to
+ * activity_log.
+ *
+ * Should be invoked via cron job once a day.
+ *
+ * Security Features:
+ * - Service role authentication (cron jobs only)
+ * - Idempotent operations (purged rows are not purged again)
+ * - Error handling
+ *
+ * @module edge-functions/purge-expired-data
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getRetentionCutoff, parseRetentionCounts, RETENTION_POLICIES } from "../_shared/retention.ts";
+import { loadSystemSettings } from "../_shared/system-settings-store.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const purgeSchema = z.object({
+  dryRun: z.boolean().optional().default(false),
+});
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const cronSecret = Deno.env.get("CRON_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    // Verify cron secret if configured (for external cron services)
+    if (cronSecret) {
+      const providedSecret = req.headers.get("X-Cron-Secret") || req.headers.get("Authorization")?.replace("Bearer ", "");
+      if (providedSecret !== cronSecret) {
+        console.error("Invalid cron secret");
+        return jsonResponse({ error: "Unauthorized" }, 401);
+      }
+    }
+
+    // Optional body: { dryRun } to report without purging
+    let body: unknown = {};
+    const rawBody = await req.text();
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return jsonResponse({ error: "Invalid JSON" }, 400);
+      }
+    }
+
+    const parsed = purgeSchema.safeParse(body);
+    if (!parsed.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: parsed.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const { dryRun } = parsed.data;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { settings } = await loadSystemSettings(supabase);
+    const now = new Date();
+    const cutoff = getRetentionCutoff(now, settings.dataRetentionDays);
+
+    console.log(
+      `${dryRun ? "Dry run: counting" : "Purging"} data recorded before ${cutoff.toISOString()} ` +
+        `(${settings.dataRetentionDays} day retention)...`
+    );
+
+    const { data, error } = await supabase.rpc("purge_expired_data", {
+      p_cutoff: cutoff.toISOString(),
+      p_dry_run: dryRun,
+    });
+
+    if (error) {
+      console.error("Error purging expired data:", error);
+      return jsonResponse({ error: "Failed to purge expired data", details: error.message }, 500);
+    }
+
+    const counts = parseRetentionCounts(data);
+    const tables = RETENTION_POLICIES.map((policy) => ({
+      table: policy.table,
+      action: policy.action,
+      description: policy.description,
+      rows: counts[policy.table],
+    }));
+
+    if (!dryRun) {
+      const purged = tables.filter((table) => table.rows > 0);
+
+      if (purged.length > 0) {
+        const { error: logError } = await supabase.from("activity_log").insert(
+          purged.map((table) => ({
+            user_id: null,
+            activity_type: "data_purged",
+            activity_description: `${table.description}: ${table.rows} ${table.table} rows older than ${settings.dataRetentionDays} days`,
+            activity_metadata: {
+              table: table.table,
+              action: table.action,
+              rows: table.rows,
+              cutoff: cutoff.toISOString(),
+              retention_days: settings.dataRetentionDays,
+            },
+          }))
+        );
+
+        if (logError) {
+          console.error("Error logging purge to activity_log:", logError);
+        }
+      }
+
+      console.log(`Purge complete: ${tables.map((table) => `${table.table} ${table.rows}`).join(", ")}`);
+    }
+
+    return jsonResponse({
+      success: true,
+      dryRun,
+      retentionDays: settings.dataRetentionDays,
+      cutoff: cutoff.toISOString(),
+      tables,
+      checked_at: now.toISOString(),
+    });
+  } catch (error) {
+    console.error("Purge expired data error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
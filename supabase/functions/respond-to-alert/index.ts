@@ -0,0 +1,145 @@
+/**
+ * Respond To Alert Edge Function
+ *
+ * Backs the public /alert-response page that the links in alert emails open.
+ * Given the signed token from a link, it acknowledges, resolves or
+ * dismisses the alert on behalf of the caregiver the email was sent to,
+ * through respond_to_alert(), and returns the alert as it now stands.
+ *
+ * Security Features:
+ * - Tokens are checked against their HMAC signature and expiry before the
+ *   alert is read
+ * - A token only acts for the caregiver it was issued to, and only while
+ *   they may still receive the patient's alerts
+ * - Input validation with Zod
+ *
+ * @module edge-functions/respond-to-alert
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { ALERT_RESPONSE_ACTIONS, getAlertReference, verifyAlertResponseToken } from "../_shared/alert-responses.ts";
+import { respondToAlert, type RespondedAlert } from "../_shared/alert-response-store.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const respondSchema = z.object({
+  token: z.string().min(1).max(300),
+  action: z.enum(ALERT_RESPONSE_ACTIONS),
+  note: z.string().trim().max(500).optional(),
+});
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const signingSecret = Deno.env.get("ALERT_SIGNING_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey || !signingSecret) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = respondSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const { token, action, note } = validation.data;
+
+    const check = await verifyAlertResponseToken(signingSecret, token, new Date());
+    if (!check.ok) {
+      return check.reason === "expired"
+        ? jsonResponse({ error: "This link has expired. Open the Parra dashboard to respond.", status: "expired" }, 410)
+        : jsonResponse({ error: "Invalid alert link" }, 400);
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let alert: RespondedAlert;
+    try {
+      alert = await respondToAlert(supabase, {
+        alertId: check.alertId,
+        responderId: check.responderId,
+        action,
+        channel: "email",
+        note: note || null,
+      });
+    } catch (error) {
+      const code = (error as { code?: string }).code;
+      if (code === "42501") {
+        return jsonResponse({ error: "You no longer receive alerts for this person" }, 403);
+      }
+      if (code === "P0002") {
+        return jsonResponse({ error: "This alert no longer exists" }, 404);
+      }
+      throw error;
+    }
+
+    const { data: patient } = await supabase
+      .from("profiles")
+      .select("full_name, display_name")
+      .eq("id", alert.patient_id)
+      .maybeSingle();
+
+    console.log(`Alert ${alert.id} answered from email: ${action} → ${alert.status}`);
+
+    return jsonResponse({
+      success: true,
+      alert: {
+        reference: getAlertReference(alert.id),
+        patientName: patient?.display_name || patient?.full_name || "your family member",
+        message: alert.alert_message,
+        status: alert.status,
+        createdAt: alert.created_at,
+        acknowledgedAt: alert.acknowledged_at,
+        resolvedAt: alert.resolved_at,
+      },
+    });
+  } catch (error) {
+    console.error("Respond to alert error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
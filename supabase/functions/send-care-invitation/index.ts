@@ -0,0 +1,336 @@
+/**
+ * Send Care Invitation Edge Function
+ *
+ * Invites someone to a patient's care circle. Creates a care_invitations row
+ * with the permissions the inviter chose and sends a signed link to
+ * /invite, valid for INVITATION_TTL_DAYS, by email (Resend) or WhatsApp
+ * (Evolution API). Earlier pending invitations to the same address are
+ * revoked so only the newest link works. If sending fails the invitation is
+ * removed again.
+ *
+ * Security Features:
+ * - Requires the JWT of the patient, their active primary caregiver or an
+ *   admin
+ * - Input validation with Zod
+ * - Tokens are HMAC-signed with INVITATION_SIGNING_SECRET
+ *
+ * @module edge-functions/send-care-invitation
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  formatInvitationMessage,
+  getInvitationExpiry,
+  signInvitationToken,
+  type InvitationChannel,
+} from "../_shared/care-invitations.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types & Validation Schemas
+// ============================================================================
+
+const invitationSchema = z
+  .object({
+    patientId: z.string().uuid(),
+    channel: z.enum(["email", "whatsapp"]),
+    email: z.string().trim().toLowerCase().email().optional(),
+    phone: z
+      .string()
+      .trim()
+      .regex(/^\+?[\d\s()-]{7,20}$/, "Invalid phone number")
+      .transform((phone) => phone.replace(/[^\d+]/g, ""))
+      .optional(),
+    relationshipType: z
+      .enum(["primary_caregiver", "family_member", "healthcare_provider", "friend", "other"])
+      .default("family_member"),
+    relationshipLabel: z.string().trim().max(50).optional(),
+    canViewHealthData: z.boolean().default(true),
+    canReceiveAlerts: z.boolean().default(true),
+    canModifySettings: z.boolean().default(false),
+  })
+  .refine((input) => (input.channel === "email" ? !!input.email : !!input.phone), {
+    message: "An email address or WhatsApp number is required for the chosen channel",
+  });
+
+interface DeliveryConfig {
+  resendApiKey: string | undefined;
+  evolutionBaseUrl: string | undefined;
+  evolutionApiKey: string | undefined;
+  evolutionInstance: string | undefined;
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Patients, their active primary caregivers and admins manage the care circle
+ * (mirrors public.can_manage_care_circle)
+ */
+async function canManageCareCircle(supabase: SupabaseClient, userId: string, patientId: string): Promise<boolean> {
+  if (userId === patientId) return true;
+
+  const { data: relationship } = await supabase
+    .from("care_relationships")
+    .select("id")
+    .eq("patient_id", patientId)
+    .eq("caregiver_id", userId)
+    .eq("status", "active")
+    .eq("relationship_type", "primary_caregiver")
+    .maybeSingle();
+
+  if (relationship) return true;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("id", userId)
+    .single();
+
+  return profile?.role === "admin";
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+async function sendWhatsApp(config: DeliveryConfig, phoneNumber: string, message: string): Promise<void> {
+  const { evolutionBaseUrl, evolutionApiKey, evolutionInstance } = config;
+  if (!evolutionBaseUrl || !evolutionApiKey || !evolutionInstance) {
+    throw new Error("WhatsApp is not configured");
+  }
+
+  // Evolution API expects the international number without + and the WhatsApp suffix
+  const whatsappJid = `${phoneNumber.replace(/[^\d]/g, "")}@s.whatsapp.net`;
+  const url = `${evolutionBaseUrl}/message/sendText/${encodeURIComponent(evolutionInstance)}`;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      apikey: evolutionApiKey,
+    },
+    body: JSON.stringify({ number: whatsappJid, text: message }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Evolution API error: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+}
+
+async function sendEmail(config: DeliveryConfig, toEmail: string, subject: string, message: string): Promise<void> {
+  if (!config.resendApiKey) {
+    throw new Error("Email is not configured");
+  }
+
+  const html = `<div style="font-family: sans-serif; font-size: 18px; line-height: 1.5;">${
+    escapeHtml(message).replace(/\n/g, "<br>")
+  }</div>`;
+
+  const response = await fetch("https://api.resend.com/emails", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${config.resendApiKey}`,
+    },
+    body: JSON.stringify({
+      from: "Parra <onboarding@resend.dev>",
+      to: [toEmail],
+      subject,
+      html,
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Resend API error: ${response.status} - ${errorText.slice(0, 200)}`);
+  }
+}
+
+async function deliverInvitation(
+  config: DeliveryConfig,
+  channel: InvitationChannel,
+  contact: string,
+  patientName: string,
+  message: string
+): Promise<void> {
+  if (channel === "email") {
+    await sendEmail(config, contact, `Join ${patientName}'s care circle on Parra`, message);
+  } else {
+    await sendWhatsApp(config, contact, message);
+  }
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const signingSecret = Deno.env.get("INVITATION_SIGNING_SECRET");
+    const appUrl = Deno.env.get("APP_URL");
+
+    if (!supabaseUrl || !supabaseServiceKey || !signingSecret || !appUrl) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    const token = extractAuthToken(req);
+    if (!token) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = invitationSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => err.message),
+      }, 400);
+    }
+
+    const input = validation.data;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: "Invalid authentication token" }, 401);
+    }
+
+    if (!(await canManageCareCircle(supabase, user.id, input.patientId))) {
+      return jsonResponse({ error: "Only the patient or their primary caregiver can send invitations" }, 403);
+    }
+
+    const [{ data: patient }, { data: inviter }] = await Promise.all([
+      supabase.from("profiles").select("id, full_name, display_name, email").eq("id", input.patientId).maybeSingle(),
+      supabase.from("profiles").select("full_name, display_name").eq("id", user.id).maybeSingle(),
+    ]);
+
+    if (!patient) {
+      return jsonResponse({ error: "Patient not found" }, 404);
+    }
+
+    if (input.channel === "email" && input.email === patient.email?.toLowerCase()) {
+      return jsonResponse({ error: "A patient cannot be invited to their own care circle" }, 400);
+    }
+
+    const patientName = patient.display_name || patient.full_name || "your family member";
+    const inviterName = inviter?.display_name || inviter?.full_name || "Someone";
+    const contact = input.channel === "email" ? input.email! : input.phone!;
+    const contactColumn = input.channel === "email" ? "invitee_email" : "invitee_phone";
+    const now = new Date();
+    const expiresAt = getInvitationExpiry(now);
+
+    // Only the newest link to an address should work
+    const { error: replaceError } = await supabase
+      .from("care_invitations")
+      .update({ status: "revoked", revoked_by: user.id, revoked_at: now.toISOString() })
+      .eq("patient_id", input.patientId)
+      .eq(contactColumn, contact)
+      .eq("status", "pending");
+
+    if (replaceError) {
+      throw new Error(`Failed to replace earlier invitations: ${replaceError.message}`);
+    }
+
+    const { data: invitation, error: insertError } = await supabase
+      .from("care_invitations")
+      .insert({
+        patient_id: input.patientId,
+        invited_by: user.id,
+        channel: input.channel,
+        invitee_email: input.channel === "email" ? contact : null,
+        invitee_phone: input.channel === "whatsapp" ? contact : null,
+        relationship_type: input.relationshipType,
+        relationship_label: input.relationshipLabel || null,
+        can_view_health_data: input.canViewHealthData,
+        can_receive_alerts: input.canReceiveAlerts,
+        can_modify_settings: input.canModifySettings,
+        expires_at: expiresAt.toISOString(),
+      })
+      .select("id, channel, invitee_email, invitee_phone, status, expires_at, created_at")
+      .single();
+
+    if (insertError || !invitation) {
+      throw new Error(`Failed to create invitation: ${insertError?.message}`);
+    }
+
+    const invitationToken = await signInvitationToken(signingSecret, invitation.id, expiresAt);
+    const acceptUrl = `${appUrl.replace(/\/$/, "")}/invite?token=${encodeURIComponent(invitationToken)}`;
+    const message = formatInvitationMessage({ patientName, inviterName, acceptUrl, expiresAt });
+
+    try {
+      await deliverInvitation(
+        {
+          resendApiKey: Deno.env.get("RESEND_API_KEY"),
+          evolutionBaseUrl: Deno.env.get("EVOLUTION_BASE_URL"),
+          evolutionApiKey: Deno.env.get("EVOLUTION_API_KEY"),
+          evolutionInstance: Deno.env.get("EVOLUTION_INSTANCE_NAME"),
+        },
+        input.channel,
+        contact,
+        patientName,
+        message
+      );
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`Failed to send invitation ${invitation.id}:`, reason);
+      await supabase.from("care_invitations").delete().eq("id", invitation.id);
+      return jsonResponse({ error: "Failed to send the invitation", details: reason }, 502);
+    }
+
+    console.log(`Invitation ${invitation.id} sent by ${input.channel} for patient ${input.patientId}`);
+
+    return jsonResponse({ success: true, invitation });
+  } catch (error) {
+    console.error("Send care invitation error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
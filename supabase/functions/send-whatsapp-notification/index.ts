@@ -3,11 +3,24 @@
  *
  * Sends notifications via Email (primary) and WhatsApp (optional) for:
  * - Fall detection check-ins to patients
- * - Escalation alerts to caregivers
+ * - Escalation alerts to caregivers: each call contacts the next step of
+ *   the patient's escalation ladder (escalation_steps, or the default
+ *   ladder) over that step's channels, records who was contacted in
+ *   alert_escalations and schedules the following step, which
+ *   check-escalation-timers sends. Only caregivers whose care relationship
+ *   has can_receive_alerts are contacted, and nothing is sent once the
+ *   alert is acknowledged.
+ * - Caregivers can answer the alert from the message: emails carry signed
+ *   acknowledge / resolve / false alarm links (respond-to-alert), and
+ *   WhatsApp and Telegram messages say which keywords to reply with
+ *   (whatsapp-webhook, telegram-webhook). Ladder steps reach caregivers on
+ *   Telegram only through the account they connected (telegram_links).
  *
- * Dual notification approach:
- * 1. Email always sent (via Resend API - gracefully handles missing credentials)
+ * Notification channels:
+ * 1. Email (via Resend API - gracefully handles missing credentials)
  * 2. WhatsApp sent if Evolution API credentials configured
+ * 3. SMS via Twilio for escalation steps that use it
+ * Patient notifications and explicit recipients use email and WhatsApp.
  *
  * @module edge-functions/send-whatsapp-notification
  */
@@ -15,6 +28,27 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
 import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import {
+  buildEscalationPlan,
+  DEFAULT_ESCALATION_LADDER,
+  getNextEscalationAt,
+  getNextEscalationStep,
+  isEscalationStopped,
+  type AlertRecipient,
+  type EscalationChannel,
+  type EscalationStep,
+  type PlannedStep,
+} from "../_shared/escalation.ts";
+import {
+  ALERT_LINK_TTL_HOURS,
+  buildAlertResponseUrl,
+  formatReplyInstructions,
+  formatTelegramReplyInstructions,
+  getAlertLinkExpiry,
+  getAlertReference,
+  signAlertResponseToken,
+  type AlertResponseAction,
+} from "../_shared/alert-responses.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -38,9 +72,33 @@ type SendNotificationInput = z.infer<typeof sendNotificationSchema>;
 interface NotificationResult {
   emailSent: boolean;
   whatsappSent: boolean;
+  smsSent: boolean;
   errors: string[];
 }
 
+interface NotificationTarget {
+  email: string | null;
+  phone: string | null;
+  channels: EscalationChannel[];
+  /** Set for escalation ladder contacts */
+  recipientId?: string | null;
+  name?: string;
+}
+
+interface AlertRecipientRow {
+  relationship_type: string;
+  caregiver: {
+    id: string;
+    full_name: string | null;
+    display_name: string | null;
+    email: string | null;
+    whatsapp_phone: string | null;
+  } | null;
+}
+
+/** Patient check-ins and manual resends go out by email and WhatsApp */
+const DIRECT_CHANNELS: EscalationChannel[] = ["email", "whatsapp"];
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -85,6 +143,14 @@ function hasValidAuth(req: Request): boolean {
   return token !== null && token.length > 0;
 }
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
 /**
  * Send email via Resend (free tier available)
  */
@@ -464,6 +530,24 @@ Just checking in - are you okay? Please reply to this message if everything is f
   return { subject, text, html };
 }
 
+/**
+ * Response buttons appended to a caregiver's alert email
+ */
+function generateResponseLinksHtml(links: Record<AlertResponseAction, string>): string {
+  const button = (href: string, label: string, color: string) =>
+    `<a href="${href}" style="display: inline-block; background-color: ${color}; color: #FFFFFF; padding: 10px 16px; border-radius: 5px; text-decoration: none; margin: 0 8px 8px 0;">${label}</a>`;
+
+  return `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 20px auto 0;">
+      <p><strong>Let everyone know where things stand:</strong></p>
+      ${button(links.acknowledge, "I'm handling it", "#4F46E5")}
+      ${button(links.resolve, "Resolved", "#059669")}
+      ${button(links.false_alarm, "False alarm", "#6B7280")}
+      <p style="color: #6B7280; font-size: 12px;">Acknowledging stops Parra from contacting anyone else. These links work for ${ALERT_LINK_TTL_HOURS} hours.</p>
+    </div>
+  `;
+}
+
 /**
  * Generate escalation message for caregivers
  */
@@ -555,6 +639,10 @@ serve(async (req) => {
     // Email credentials (optional - will log if not configured)
     const resendApiKey = Deno.env.get("RESEND_API_KEY");
 
+    // Response links in caregiver emails (optional - left out if not configured)
+    const alertSigningSecret = Deno.env.get("ALERT_SIGNING_SECRET");
+    const appUrl = Deno.env.get("APP_URL");
+
     // SMS/WhatsApp/Notification credentials
     // Telegram Bot (fastest, most reliable, FREE!)
     const telegramBotToken = Deno.env.get("TELEGRAM_BOT_TOKEN");
@@ -625,7 +713,14 @@ serve(async (req) => {
       .from("alerts")
       .select(`
         *,
-        patient:profiles!alerts_patient_id_fkey(id, full_name, email, whatsapp_phone),
+        patient:profiles!alerts_patient_id_fkey(
+          id,
+          full_name,
+          email,
+          whatsapp_phone,
+          emergency_contact_name,
+          emergency_contact_phone
+        ),
         device:switchbot_devices!alerts_motion_device_id_fkey(device_name, location),
         monitoring:inactivity_monitoring!alerts_inactivity_monitoring_id_fkey(
           inactivity_started_at,
@@ -648,20 +743,21 @@ serve(async (req) => {
       );
     }
 
-    let targetEmail: string;
-    let targetPhone: string | null = null;
+    let targets: NotificationTarget[];
+    let escalationStep: PlannedStep | null = null;
+    let nextEscalationAt: Date | null = null;
     let messageContent: { subject: string; text: string; html: string };
 
     const result: NotificationResult = {
       emailSent: false,
       whatsappSent: false,
+      smsSent: false,
       errors: [],
     };
 
     if (recipientType === "patient") {
       // Send check-in to patient
-      targetEmail = email || alert.patient.email;
-      targetPhone = phoneNumber || alert.patient.whatsapp_phone;
+      const targetEmail = email || alert.patient.email;
 
       if (!targetEmail) {
         return new Response(
@@ -673,11 +769,13 @@ serve(async (req) => {
         );
       }
 
+      targets = [{ email: targetEmail, phone: phoneNumber || alert.patient.whatsapp_phone, channels: DIRECT_CHANNELS }];
+
       if (message) {
         messageContent = {
           subject: "Parra Check-In",
           text: message,
-          html: `<div style="font-family: Arial, sans-serif;">${message.replace(/\n/g, "<br>")}</div>`,
+          html: `<div style="font-family: Arial, sans-serif;">${escapeHtml(message).replace(/\n/g, "<br>")}</div>`,
         };
       } else {
         const inactivityMinutes = alert.monitoring
@@ -690,49 +788,157 @@ serve(async (req) => {
         );
       }
     } else {
-      // Send escalation to caregivers
-      const { data: caregivers, error: caregiversError } = await supabase
-        .from("care_relationships")
-        .select(`
-          caregiver:profiles!care_relationships_caregiver_id_fkey(
-            id,
-            full_name,
-            email,
-            whatsapp_phone
-          )
-        `)
-        .eq("patient_id", alert.patient_id)
-        .eq("status", "active");
-
-      if (caregiversError || !caregivers || caregivers.length === 0) {
-        console.error("No active caregivers found:", caregiversError);
-        return new Response(
-          JSON.stringify({ error: "No active caregivers configured" }),
-          {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
-          }
-        );
-      }
+      // An explicit address overrides the ladder (manual resend)
+      if (email || phoneNumber) {
+        targets = [{ email: email || null, phone: phoneNumber || null, channels: DIRECT_CHANNELS }];
+      } else {
+        if (isEscalationStopped(alert)) {
+          return new Response(
+            JSON.stringify({ success: true, skipped: true, message: "Alert already acknowledged", alertId }),
+            {
+              status: 200,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
 
-      targetEmail = email || caregivers[0].caregiver.email;
-      targetPhone = phoneNumber || caregivers[0].caregiver.whatsapp_phone;
+        // Caregivers allowed to receive alerts
+        const { data: caregivers, error: caregiversError } = await supabase
+          .from("care_relationships")
+          .select(`
+            relationship_type,
+            caregiver:profiles!care_relationships_caregiver_id_fkey(
+              id,
+              full_name,
+              display_name,
+              email,
+              whatsapp_phone
+            )
+          `)
+          .eq("patient_id", alert.patient_id)
+          .eq("status", "active")
+          .eq("can_receive_alerts", true);
+
+        if (caregiversError) {
+          console.error("Error fetching caregivers:", caregiversError);
+        }
 
-      if (!targetEmail) {
-        return new Response(
-          JSON.stringify({ error: "Caregiver email not configured" }),
-          {
-            status: 400,
-            headers: { ...corsHeaders, "Content-Type": "application/json" },
+        const recipients: AlertRecipient[] = ((caregivers || []) as unknown as AlertRecipientRow[])
+          .filter((row) => row.caregiver)
+          .map(({ relationship_type, caregiver }) => ({
+            id: caregiver!.id,
+            name: caregiver!.display_name || caregiver!.full_name || caregiver!.email || "Caregiver",
+            relationship_type,
+            email: caregiver!.email,
+            phone: caregiver!.whatsapp_phone,
+          }));
+
+        const { data: ladderRows } = await supabase
+          .from("escalation_steps")
+          .select("step_order, target, wait_minutes, channels")
+          .eq("patient_id", alert.patient_id)
+          .order("step_order");
+
+        const ladder = ladderRows && ladderRows.length > 0
+          ? (ladderRows as EscalationStep[])
+          : DEFAULT_ESCALATION_LADDER;
+
+        const plan = buildEscalationPlan(ladder, recipients, {
+          name: alert.patient.emergency_contact_name,
+          phone: alert.patient.emergency_contact_phone,
+        });
+
+        escalationStep = getNextEscalationStep(plan, alert.escalation_step ?? 0);
+
+        if (!escalationStep) {
+          if ((alert.escalation_step ?? 0) > 0) {
+            // The ladder may have been shortened since the last step was scheduled
+            await supabase.from("alerts").update({ next_escalation_at: null }).eq("id", alertId);
+
+            return new Response(
+              JSON.stringify({ success: true, skipped: true, message: "Escalation ladder finished", alertId }),
+              {
+                status: 200,
+                headers: { ...corsHeaders, "Content-Type": "application/json" },
+              }
+            );
           }
-        );
+
+          console.error("No one in the escalation ladder can be contacted for alert:", alertId);
+          return new Response(
+            JSON.stringify({ error: "No active caregivers configured to receive alerts" }),
+            {
+              status: 400,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        // Claim the step so overlapping runs don't contact it twice
+        const contactedAt = new Date();
+        nextEscalationAt = getNextEscalationAt(plan, escalationStep, contactedAt);
+        const contactedIds = escalationStep.contacts
+          .map((contact) => contact.recipient_id)
+          .filter((id): id is string => !!id);
+
+        const { data: claimed, error: claimError } = await supabase
+          .from("alerts")
+          .update({
+            escalation_step: escalationStep.step_order,
+            next_escalation_at: nextEscalationAt?.toISOString() ?? null,
+            notification_sent_at: alert.notification_sent_at ?? contactedAt.toISOString(),
+            notified_caregivers: [...new Set([...(alert.notified_caregivers || []), ...contactedIds])],
+            ...(escalationStep.step_order > 1 && !alert.escalated
+              ? { escalated: true, escalated_at: contactedAt.toISOString() }
+              : {}),
+          })
+          .eq("id", alertId)
+          .eq("escalation_step", alert.escalation_step ?? 0)
+          .eq("status", "active")
+          .is("acknowledged_at", null)
+          .select("id");
+
+        if (claimError) {
+          console.error("Error recording escalation step:", claimError);
+          return new Response(
+            JSON.stringify({ error: "Failed to record escalation step" }),
+            {
+              status: 500,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        if (!claimed || claimed.length === 0) {
+          return new Response(
+            JSON.stringify({ success: true, skipped: true, message: "Escalation step already sent", alertId }),
+            {
+              status: 200,
+              headers: { ...corsHeaders, "Content-Type": "application/json" },
+            }
+          );
+        }
+
+        targets = escalationStep.contacts.map((contact) => ({
+          email: contact.email,
+          phone: contact.phone,
+          channels: contact.channels,
+          recipientId: contact.recipient_id,
+          name: contact.name,
+        }));
       }
 
-      if (message) {
+      // Later steps are sent by check-escalation-timers without a message
+      const alertText = message || (alert.monitoring ? null : alert.alert_message);
+
+      if (alertText) {
+        const text = escalationStep && (alert.escalation_step ?? 0) > 0
+          ? `No one has responded to this alert yet.\n\n${alertText}`
+          : alertText;
         messageContent = {
           subject: "🚨 Parra Fall Detection Alert",
-          text: message,
-          html: `<div style="font-family: Arial, sans-serif;">${message.replace(/\n/g, "<br>")}</div>`,
+          text,
+          html: `<div style="font-family: Arial, sans-serif;">${escapeHtml(text).replace(/\n/g, "<br>")}</div>`,
         };
       } else {
         const now = new Date();
@@ -750,31 +956,37 @@ serve(async (req) => {
       }
     }
 
-    // Send Email (Primary - Always attempt)
-    console.log("Sending email notification to:", targetEmail);
-    const emailResult = await sendEmail(
-      resendApiKey,
-      targetEmail,
-      messageContent.subject,
-      messageContent.html
-    );
-
-    if (emailResult.success) {
-      result.emailSent = true;
-      console.log("✅ Email sent successfully");
-    } else {
-      result.errors.push(`Email failed: ${emailResult.error}`);
-      console.error("❌ Email failed:", emailResult.error);
-    }
+    // Quoted in replies to the alert
+    const alertReference = getAlertReference(alertId);
+    const telegramText = `<b>🚨 ${escapeHtml(messageContent.subject)}</b>\n\n${escapeHtml(messageContent.text)}`;
+
+    // Ladder contacts get Telegram on the account they connected; the
+    // shared TELEGRAM_CHAT_ID only sees patient check-ins and manual resends
+    const telegramChats = new Map<string, string>();
+    if (escalationStep && telegramBotToken) {
+      const recipientIds = targets
+        .map((target) => target.recipientId)
+        .filter((id): id is string => !!id);
+
+      if (recipientIds.length > 0) {
+        const { data: links, error: linksError } = await supabase
+          .from("telegram_links")
+          .select("user_id, telegram_user_id")
+          .in("user_id", recipientIds)
+          .not("telegram_user_id", "is", null);
+
+        if (linksError) {
+          console.error("Error fetching Telegram links:", linksError);
+        }
 
-    // Send Telegram notification (instant, reliable, always works!)
-    if (telegramBotToken && telegramChatId) {
+        for (const link of links || []) {
+          telegramChats.set(link.user_id, String(link.telegram_user_id));
+        }
+      }
+    } else if (telegramBotToken && telegramChatId) {
+      // Send Telegram notification (instant, reliable, always works!)
       console.log("📱 Sending Telegram notification...");
-      const telegramResult = await sendTelegramMessage(
-        telegramBotToken,
-        telegramChatId,
-        `<b>🚨 ${messageContent.subject}</b>\n\n${messageContent.text}`
-      );
+      const telegramResult = await sendTelegramMessage(telegramBotToken, telegramChatId, telegramText);
 
       if (telegramResult.success) {
         result.whatsappSent = true; // Using this field for all messaging
@@ -787,83 +999,179 @@ serve(async (req) => {
       console.log("⚠️ Telegram not configured");
     }
 
-    // Send SMS/WhatsApp/Notification (Try ALL configured methods)
-    if (targetPhone) {
-      // Try n8n webhook (no regulatory BS, works immediately)
-      if (n8nWebhookUrl) {
-        console.log("📢 Sending notification via n8n webhook...");
-        const n8nResult = await sendN8nWebhook(
-          n8nWebhookUrl,
-          targetPhone,
-          messageContent.text,
-          {
-            alertId,
-            recipientType,
-            patient: alert.patient?.full_name,
-            location: alert.device?.location,
-          }
+    // Email and phone notifications go to each recipient, over their channels
+    const deliveries: { target: NotificationTarget; delivered: EscalationChannel[] }[] = [];
+
+    for (const target of targets) {
+      const { email: targetEmail, phone: targetPhone, channels } = target;
+      const delivered: EscalationChannel[] = [];
+
+      // Caregivers can answer the alert from the message itself
+      const canRespond = recipientType === "caregiver" && !!target.recipientId;
+      let emailHtml = messageContent.html;
+      if (canRespond && alertSigningSecret && appUrl) {
+        const token = await signAlertResponseToken(
+          alertSigningSecret,
+          alertId,
+          target.recipientId!,
+          getAlertLinkExpiry(new Date())
+        );
+        emailHtml += generateResponseLinksHtml({
+          acknowledge: buildAlertResponseUrl(appUrl, token, "acknowledge"),
+          resolve: buildAlertResponseUrl(appUrl, token, "resolve"),
+          false_alarm: buildAlertResponseUrl(appUrl, token, "false_alarm"),
+        });
+      }
+      const whatsappText = canRespond
+        ? `${messageContent.text}\n\n${formatReplyInstructions(alertReference)}`
+        : messageContent.text;
+
+      // Telegram, when this caregiver connected their account
+      const telegramChatIdForTarget = target.recipientId ? telegramChats.get(target.recipientId) : undefined;
+      if (telegramBotToken && telegramChatIdForTarget) {
+        console.log("📱 Sending Telegram notification to linked account...");
+        const telegramResult = await sendTelegramMessage(
+          telegramBotToken,
+          telegramChatIdForTarget,
+          `${telegramText}\n\n${formatTelegramReplyInstructions(alertReference)}`
         );
 
-        if (n8nResult.success) {
-          result.whatsappSent = true; // Using this field for all SMS/messaging
-          console.log("✅ n8n webhook triggered successfully");
+        if (telegramResult.success) {
+          result.whatsappSent = true; // Using this field for all messaging
+          console.log("✅ Telegram notification sent successfully");
         } else {
-          result.errors.push(`n8n webhook failed: ${n8nResult.error}`);
-          console.error("❌ n8n webhook failed:", n8nResult.error);
+          result.errors.push(`Telegram failed: ${telegramResult.error}`);
+          console.error("❌ Telegram failed:", telegramResult.error);
         }
-      } else {
-        console.log("⚠️ n8n webhook not configured");
       }
 
-      // Also try Evolution API WhatsApp (send to ALL channels)
-      if (evolutionBaseUrl && evolutionApiKey && evolutionInstanceName) {
-        console.log("🔄 Trying Evolution API WhatsApp...");
-        const whatsappResult = await sendWhatsAppMessage(
-          evolutionBaseUrl,
-          evolutionApiKey,
-          evolutionInstanceName,
-          targetPhone,
-          messageContent.text
+      // Send Email (Primary - always attempted when the channel is enabled)
+      if (targetEmail && channels.includes("email")) {
+        console.log("Sending email notification to:", targetEmail);
+        const emailResult = await sendEmail(
+          resendApiKey,
+          targetEmail,
+          messageContent.subject,
+          emailHtml
         );
 
-        if (whatsappResult.success) {
-          result.whatsappSent = true;
-          console.log("✅ WhatsApp sent successfully via Evolution API");
+        if (emailResult.success) {
+          result.emailSent = true;
+          delivered.push("email");
+          console.log("✅ Email sent successfully");
         } else {
-          result.errors.push(`WhatsApp failed: ${whatsappResult.error}`);
-          console.error("❌ WhatsApp failed:", whatsappResult.error);
+          result.errors.push(`Email failed: ${emailResult.error}`);
+          console.error("❌ Email failed:", emailResult.error);
         }
-      } else {
-        console.log("⚠️ Evolution API not configured");
       }
 
-      // Twilio SMS as additional fallback
-      if (twilioAccountSid && twilioAuthToken && twilioPhoneNumber) {
-        console.log("📱 Sending SMS via Twilio...");
-        const smsResult = await sendTwilioSMS(
-          twilioAccountSid,
-          twilioAuthToken,
-          twilioPhoneNumber,
-          targetPhone,
-          messageContent.text
-        );
+      // Send WhatsApp/SMS (Try ALL configured methods for the enabled channels)
+      if (targetPhone && channels.includes("whatsapp")) {
+        // Try n8n webhook (no regulatory BS, works immediately)
+        if (n8nWebhookUrl) {
+          console.log("📢 Sending notification via n8n webhook...");
+          const n8nResult = await sendN8nWebhook(
+            n8nWebhookUrl,
+            targetPhone,
+            whatsappText,
+            {
+              alertId,
+              recipientType,
+              patient: alert.patient?.full_name,
+              location: alert.device?.location,
+            }
+          );
+
+          if (n8nResult.success) {
+            result.whatsappSent = true; // Using this field for all SMS/messaging
+            if (!delivered.includes("whatsapp")) delivered.push("whatsapp");
+            console.log("✅ n8n webhook triggered successfully");
+          } else {
+            result.errors.push(`n8n webhook failed: ${n8nResult.error}`);
+            console.error("❌ n8n webhook failed:", n8nResult.error);
+          }
+        } else {
+          console.log("⚠️ n8n webhook not configured");
+        }
 
-        if (smsResult.success) {
-          result.whatsappSent = true;
-          console.log("✅ SMS sent successfully via Twilio");
+        // Also try Evolution API WhatsApp (send to ALL channels)
+        if (evolutionBaseUrl && evolutionApiKey && evolutionInstanceName) {
+          console.log("🔄 Trying Evolution API WhatsApp...");
+          const whatsappResult = await sendWhatsAppMessage(
+            evolutionBaseUrl,
+            evolutionApiKey,
+            evolutionInstanceName,
+            targetPhone,
+            whatsappText
+          );
+
+          if (whatsappResult.success) {
+            result.whatsappSent = true;
+            if (!delivered.includes("whatsapp")) delivered.push("whatsapp");
+            console.log("✅ WhatsApp sent successfully via Evolution API");
+          } else {
+            result.errors.push(`WhatsApp failed: ${whatsappResult.error}`);
+            console.error("❌ WhatsApp failed:", whatsappResult.error);
+          }
         } else {
-          result.errors.push(`SMS failed: ${smsResult.error}`);
-          console.error("❌ Twilio SMS failed:", smsResult.error);
+          console.log("⚠️ Evolution API not configured");
         }
-      } else {
-        console.log("⚠️ Twilio not configured");
       }
-    } else {
-      console.log("⚠️ No target phone number - skipping phone notifications");
+
+      // Twilio SMS
+      if (targetPhone && channels.includes("sms")) {
+        if (twilioAccountSid && twilioAuthToken && twilioPhoneNumber) {
+          console.log("📱 Sending SMS via Twilio...");
+          const smsResult = await sendTwilioSMS(
+            twilioAccountSid,
+            twilioAuthToken,
+            twilioPhoneNumber,
+            targetPhone,
+            messageContent.text
+          );
+
+          if (smsResult.success) {
+            result.smsSent = true;
+            delivered.push("sms");
+            console.log("✅ SMS sent successfully via Twilio");
+          } else {
+            result.errors.push(`SMS failed: ${smsResult.error}`);
+            console.error("❌ Twilio SMS failed:", smsResult.error);
+          }
+        } else {
+          console.log("⚠️ Twilio not configured");
+        }
+      }
+
+      if (!targetPhone) {
+        console.log("⚠️ No target phone number - skipping phone notifications");
+      }
+
+      deliveries.push({ target, delivered });
+    }
+
+    // Record who this escalation step contacted for the alert timeline
+    if (escalationStep) {
+      const { error: escalationLogError } = await supabase.from("alert_escalations").insert(
+        deliveries.map(({ target, delivered }) => ({
+          alert_id: alertId,
+          patient_id: alert.patient_id,
+          step_order: escalationStep!.step_order,
+          target: escalationStep!.target,
+          recipient_id: target.recipientId ?? null,
+          recipient_name: target.name ?? "Unknown",
+          channels: target.channels,
+          delivered_channels: delivered,
+        }))
+      );
+
+      if (escalationLogError) {
+        console.error("Failed to record escalation contacts:", escalationLogError);
+      }
     }
 
     // Consider it a success if at least one notification was sent
-    const overallSuccess = result.emailSent || result.whatsappSent;
+    const overallSuccess = result.emailSent || result.whatsappSent || result.smsSent;
 
     return new Response(
       JSON.stringify({
@@ -873,9 +1181,13 @@ serve(async (req) => {
           : "Failed to send notifications",
         alertId,
         recipientType,
+        recipients: targets.length,
+        escalationStep: escalationStep?.step_order,
+        nextEscalationAt: nextEscalationAt?.toISOString() ?? null,
         notifications: {
           email: result.emailSent ? "sent" : "failed",
           whatsapp: result.whatsappSent ? "sent" : result.errors.some(e => e.includes("WhatsApp")) ? "failed" : "not_configured",
+          sms: result.smsSent ? "sent" : result.errors.some(e => e.includes("SMS")) ? "failed" : "not_sent",
         },
         errors: result.errors.length > 0 ? result.errors : undefined,
       }),
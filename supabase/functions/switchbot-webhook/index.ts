@@ -91,6 +91,16 @@ function isValidSwitchBotPayload(payload: unknown): payload is SwitchBotWebhookP
   );
 }
 
+/**
+ * Normalize a MAC address to the stored AA:BB:CC:DD:EE:FF form.
+ * Values that are not 12 hex digits are returned unchanged.
+ */
+function normalizeMacAddress(mac: string): string {
+  const hex = mac.replace(/[^0-9a-f]/gi, "").toUpperCase();
+  if (hex.length !== 12) return mac;
+  return hex.match(/.{2}/g)!.join(":");
+}
+
 /**
  * Safely parse JSON
  */
@@ -270,7 +280,7 @@ serve(async (req) => {
 
     // Process motion event via database function
     const { data, error } = await supabase.rpc("process_motion_event", {
-      p_device_mac: payload.context.deviceMac,
+      p_device_mac: normalizeMacAddress(payload.context.deviceMac),
       p_detection_state: payload.context.detectionState,
       p_time_of_sample: payload.context.timeOfSample,
       p_raw_payload: payload,
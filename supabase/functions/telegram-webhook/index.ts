@@ -0,0 +1,231 @@
+/**
+ * Telegram Webhook Edge Function
+ *
+ * Receives messages sent to the Parra Telegram bot, which posts fall alerts
+ * to the care team's chat (see send-whatsapp-notification):
+ * - "/link ABCD1234" connects the sender's Telegram account to the Parra
+ *   account that created the code (create_telegram_link_code()), so their
+ *   replies can be attributed
+ * - /ack, /resolved and /falsealarm (or ACK / RESOLVED / FALSE ALARM)
+ *   acknowledge, resolve or dismiss an alert, named by its reference or by
+ *   replying to the alert message
+ *
+ * Everything else is ignored.
+ *
+ * Security Features:
+ * - X-Telegram-Bot-Api-Secret-Token must match TELEGRAM_WEBHOOK_SECRET
+ *   (pass it as secret_token to setWebhook), compared in constant time;
+ *   without the secret configured every update is rejected
+ * - Responses are only accepted from connected accounts, and
+ *   respond_to_alert() checks the caregiver may receive the patient's alerts
+ *
+ * @module edge-functions/telegram-webhook
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import {
+  findAlertReference,
+  formatAmbiguousReply,
+  formatResponseConfirmation,
+  parseAlertReply,
+  parseTelegramLinkCommand,
+} from "../_shared/alert-responses.ts";
+import { findAlertForReply, respondToAlert } from "../_shared/alert-response-store.ts";
+import { safeEqual } from "../_shared/signing.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * The parts of a Telegram message update this function reads
+ */
+interface TelegramMessage {
+  message_id: number;
+  from?: { id: number; first_name?: string };
+  chat: { id: number };
+  text?: string;
+  reply_to_message?: { text?: string };
+}
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+/**
+ * Reply in the chat the message came from, as a reply to it
+ */
+async function sendTelegramReply(botToken: string, message: TelegramMessage, text: string): Promise<void> {
+  const response = await fetch(`https://api.telegram.org/bot${botToken}/sendMessage`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      chat_id: message.chat.id,
+      text,
+      reply_to_message_id: message.message_id,
+    }),
+  });
+
+  if (!response.ok) {
+    console.error("Telegram API error:", response.status, await response.text());
+  }
+}
+
+/**
+ * Connect the sender's Telegram account to the Parra account that created
+ * `code`. A Telegram account belongs to one Parra account at a time.
+ */
+async function linkTelegramAccount(
+  supabase: SupabaseClient,
+  code: string,
+  telegramUserId: number
+): Promise<boolean> {
+  const { data: link, error } = await supabase
+    .from("telegram_links")
+    .select("user_id")
+    .eq("link_code", code)
+    .gt("link_code_expires_at", new Date().toISOString())
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load link code: ${error.message}`);
+  if (!link) return false;
+
+  await supabase
+    .from("telegram_links")
+    .update({ telegram_user_id: null, linked_at: null })
+    .eq("telegram_user_id", telegramUserId)
+    .neq("user_id", link.user_id);
+
+  const { error: linkError } = await supabase
+    .from("telegram_links")
+    .update({
+      telegram_user_id: telegramUserId,
+      link_code: null,
+      link_code_expires_at: null,
+      linked_at: new Date().toISOString(),
+    })
+    .eq("user_id", link.user_id);
+
+  if (linkError) throw new Error(`Failed to connect Telegram account: ${linkError.message}`);
+  return true;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    const botToken = Deno.env.get("TELEGRAM_BOT_TOKEN");
+    const webhookSecret = Deno.env.get("TELEGRAM_WEBHOOK_SECRET");
+
+    if (!supabaseUrl || !supabaseServiceKey || !botToken || !webhookSecret) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    const providedSecret = req.headers.get("X-Telegram-Bot-Api-Secret-Token");
+    if (providedSecret === null || !safeEqual(providedSecret, webhookSecret)) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const update = await req.json();
+    const message = update.message as TelegramMessage | undefined;
+
+    if (!message?.text || !message.from) {
+      return jsonResponse({ success: true, ignored: true });
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // 1. Connecting a Telegram account
+    const linkCode = parseTelegramLinkCommand(message.text);
+    if (linkCode) {
+      const linked = await linkTelegramAccount(supabase, linkCode, message.from.id);
+      await sendTelegramReply(
+        botToken,
+        message,
+        linked
+          ? "Your Telegram account is now connected to Parra. Reply /ack, /resolved or /falsealarm to an alert to answer it."
+          : "That code is not valid or has expired. Get a new one from the alerts section of your Parra dashboard."
+      );
+      return jsonResponse({ success: true, outcome: linked ? "linked" : "invalid_code" });
+    }
+
+    // 2. Answering an alert
+    const reply = parseAlertReply(message.text);
+    if (!reply) {
+      return jsonResponse({ success: true, ignored: true });
+    }
+
+    const { data: link } = await supabase
+      .from("telegram_links")
+      .select("user_id")
+      .eq("telegram_user_id", message.from.id)
+      .maybeSingle();
+
+    if (!link) {
+      await sendTelegramReply(
+        botToken,
+        message,
+        "I don't know who you are yet. Connect Telegram from the alerts section of your Parra dashboard, then try again."
+      );
+      return jsonResponse({ success: true, outcome: "not_linked" });
+    }
+
+    const reference = reply.reference ?? findAlertReference(message.reply_to_message?.text ?? "");
+    const match = await findAlertForReply(supabase, link.user_id, reference);
+
+    if (match.status !== "found") {
+      await sendTelegramReply(
+        botToken,
+        message,
+        match.status === "ambiguous"
+          ? formatAmbiguousReply(match.references)
+          : reference
+          ? `I couldn't find an open alert ${reference} for you.`
+          : "You have no open alerts right now."
+      );
+      return jsonResponse({ success: true, outcome: "alert_reply_unmatched" });
+    }
+
+    const alert = await respondToAlert(supabase, {
+      alertId: match.alertId,
+      responderId: link.user_id,
+      action: reply.action,
+      channel: "telegram",
+      note: reply.note,
+    });
+
+    console.log(`✅ Alert ${match.alertId} answered on Telegram: ${reply.action} → ${alert.status}`);
+    await sendTelegramReply(botToken, message, formatResponseConfirmation(match.reference, alert.status));
+
+    return jsonResponse({ success: true, outcome: "alert_response", alertId: match.alertId, status: alert.status });
+  } catch (error) {
+    console.error("Telegram webhook error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,189 @@
+/**
+ * Update System Settings Edge Function
+ *
+ * Saves the admin System Settings page as a new system_settings version.
+ * Versions are never changed in place, so the table keeps the full history
+ * of who changed which settings and when. The request names the version
+ * the admin was editing; if someone saved in the meantime the save is
+ * refused (409) with the current settings, instead of silently undoing
+ * their change.
+ *
+ * Security Features:
+ * - Requires an authenticated admin
+ * - Input validation with Zod, with the same ranges as the admin form
+ * - Each change is logged to activity_log
+ *
+ * @module edge-functions/update-system-settings
+ */
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { z } from "https://deno.land/x/zod@v3.22.4/mod.ts";
+import { getChangedSettingKeys } from "../_shared/system-settings.ts";
+import { loadSystemSettings } from "../_shared/system-settings-store.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ============================================================================
+// Validation Schemas
+// ============================================================================
+
+const settingsSchema = z.object({
+  enableBetaFeatures: z.boolean(),
+  enableVoiceCheckins: z.boolean(),
+  enableWhatsAppIntegration: z.boolean(),
+  alertNotificationDelay: z.number().int().min(0).max(60),
+  escalationThreshold: z.number().int().min(1).max(1440),
+  dailySummaryTime: z.string().regex(/^([01]\d|2[0-3]):([0-5]\d)$/, "Invalid time format (HH:MM)"),
+  sessionTimeout: z.number().int().min(15).max(1440),
+  requireMFA: z.boolean(),
+  passwordMinLength: z.number().int().min(8).max(128),
+  maintenanceMode: z.boolean(),
+  maxCheckInsPerDay: z.number().int().min(1).max(100),
+  dataRetentionDays: z.number().int().min(30).max(3650),
+});
+
+const updateSettingsSchema = z.object({
+  settings: settingsSchema,
+  /** The version the admin was editing */
+  expectedVersion: z.number().int().min(0),
+});
+
+// ============================================================================
+// Utility Functions
+// ============================================================================
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function extractAuthToken(req: Request): string | null {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+  const match = authHeader.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1] : null;
+}
+
+// ============================================================================
+// Main Handler
+// ============================================================================
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL");
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error("Missing required environment variables");
+      return jsonResponse({ error: "Service configuration error" }, 500);
+    }
+
+    const token = extractAuthToken(req);
+    if (!token) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return jsonResponse({ error: "Invalid JSON" }, 400);
+    }
+
+    const validation = updateSettingsSchema.safeParse(body);
+    if (!validation.success) {
+      return jsonResponse({
+        error: "Validation failed",
+        details: validation.error.errors.map((err) => `${err.path.join(".")}: ${err.message}`),
+      }, 400);
+    }
+
+    const { settings, expectedVersion } = validation.data;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: { user }, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !user) {
+      return jsonResponse({ error: "Invalid authentication token" }, 401);
+    }
+
+    const { data: profile } = await supabase.from("profiles").select("role").eq("id", user.id).maybeSingle();
+    if (profile?.role !== "admin") {
+      return jsonResponse({ error: "Admin privileges required" }, 403);
+    }
+
+    const current = await loadSystemSettings(supabase);
+    if (current.version !== expectedVersion) {
+      return jsonResponse({
+        error: "Settings were changed by someone else. Review the current settings and save again.",
+        current,
+      }, 409);
+    }
+
+    const changedKeys = getChangedSettingKeys(current.settings, settings);
+    if (changedKeys.length === 0) {
+      return jsonResponse({ success: true, changedKeys, ...current });
+    }
+
+    const { data: saved, error: insertError } = await supabase
+      .from("system_settings")
+      .insert({
+        version: current.version + 1,
+        settings,
+        changed_keys: changedKeys,
+        updated_by: user.id,
+      })
+      .select("version, created_at")
+      .single();
+
+    if (insertError || !saved) {
+      // Unique violation: another admin saved the same version first
+      if (insertError?.code === "23505") {
+        return jsonResponse({
+          error: "Settings were changed by someone else. Review the current settings and save again.",
+          current: await loadSystemSettings(supabase),
+        }, 409);
+      }
+      throw new Error(`Failed to save system settings: ${insertError?.message}`);
+    }
+
+    await supabase.from("activity_log").insert({
+      user_id: user.id,
+      activity_type: "settings_changed",
+      activity_description: `System settings updated to version ${saved.version}: ${changedKeys.join(", ")}`,
+      activity_metadata: {
+        version: saved.version,
+        changed_keys: changedKeys,
+        previous: Object.fromEntries(changedKeys.map((key) => [key, current.settings[key]])),
+        updated: Object.fromEntries(changedKeys.map((key) => [key, settings[key]])),
+      },
+    });
+
+    console.log(`System settings version ${saved.version} saved by ${user.id}: ${changedKeys.join(", ")}`);
+
+    return jsonResponse({
+      success: true,
+      version: saved.version,
+      settings,
+      updatedAt: saved.created_at,
+      changedKeys,
+    });
+  } catch (error) {
+    console.error("Update system settings error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -1,16 +1,47 @@
 /**
  * Voice Chat Edge Function
  *
- * Handles voice conversations using OpenAI pipeline:
- * 1. Whisper API (speech-to-text)
- * 2. GPT-4 (conversation)
- * 3. TTS API (text-to-speech)
+ * Handles voice conversations as a three-step pipeline:
+ * 1. Speech-to-text
+ * 2. Conversation (GPT-4 by default)
+ * 3. Text-to-speech
  *
  * This replaces the problematic Realtime API with a proven, reliable approach.
+ * Each step goes through the configured LLM provider (see
+ * _shared/llm-provider.ts; VOICE_CHAT_LLM_PROVIDER or LLM_PROVIDER).
+ *
+ * Parra speaks with the shared persona (_shared/parra-persona.ts); the
+ * response includes its promptVersion for the check-in.
+ *
+ * Only admins can use it while maintenance mode is on (503) or voice
+ * check-ins are switched off in the system settings (403).
+ *
+ * The transcript is checked for suicidal ideation and self-harm (see
+ * _shared/crisis-detection.ts) before the system settings and the model. A
+ * match raises a critical distress_signal alert, notifies caregivers
+ * immediately and Parra speaks a fixed reply with crisis resources; the
+ * response has crisis: true. The reply is returned even if it can't be saved
+ * or spoken (audio: null).
+ *
+ * Conversations are saved server-side as sessions, like senior-chat (see
+ * _shared/chat-sessions.ts). The client sends the recording and the
+ * sessionId it was given; each transcript and reply is appended to the
+ * session and only its latest turns go to the model. A missing or closed
+ * session starts a new one, and the response carries its sessionId.
  */
 
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { MAINTENANCE_MESSAGE, isBlockedByMaintenance } from '../_shared/system-settings.ts';
+import { loadSystemSettings } from '../_shared/system-settings-store.ts';
+import { createLLMProviderFromEnv, type LLMChatMessage } from '../_shared/llm-provider.ts';
+import { buildPersonaPrompt } from '../_shared/parra-persona.ts';
+import { resolveTimeZone } from '../_shared/timezone.ts';
+import { detectCrisis, formatCrisisResponse, getCrisisResources } from '../_shared/crisis-detection.ts';
+import { raiseCrisisAlert } from '../_shared/crisis-store.ts';
+import { loadPrimaryCaregiverName } from '../_shared/patient-status-store.ts';
+import { createSessionMessage, getSessionHistory, type ChatSession } from '../_shared/chat-sessions.ts';
+import { appendSessionMessages, createSession, loadOpenSession } from '../_shared/chat-session-store.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -29,11 +60,11 @@ serve(async (req) => {
   }
 
   try {
-    // Get OpenAI API key
-    const OPENAI_API_KEY = Deno.env.get('OPENAI_API_KEY');
-    if (!OPENAI_API_KEY) {
-      throw new Error('OPENAI_API_KEY not configured');
-    }
+    // Get the configured LLM provider (throws if it isn't configured)
+    const llm = createLLMProviderFromEnv((name) => Deno.env.get(name), {
+      scope: 'VOICE_CHAT',
+      defaults: { chat: 'gpt-4' },
+    });
 
     // Get Supabase client
     const supabaseClient = createClient(
@@ -58,10 +89,26 @@ serve(async (req) => {
       });
     }
 
+    // System settings, sessions and crisis alerts need the service role
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+    if (!supabaseServiceKey) {
+      console.error('Missing required environment variables');
+      return new Response(JSON.stringify({ error: 'Service configuration error' }), {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', supabaseServiceKey);
+
+    const [{ settings }, { data: profile }] = await Promise.all([
+      loadSystemSettings(supabaseAdmin),
+      supabaseAdmin.from('profiles').select('role, full_name, display_name, timezone').eq('id', user.id).maybeSingle(),
+    ]);
+
     // Parse request
     const formData = await req.formData();
     const audioFile = formData.get('audio') as File;
-    const conversationHistory = formData.get('history');
+    const sessionId = formData.get('sessionId');
 
     if (!audioFile) {
       return new Response(JSON.stringify({ error: 'No audio file provided' }), {
@@ -73,140 +120,147 @@ serve(async (req) => {
     console.log('🎤 Processing voice input from user:', user.id);
     console.log('📊 Audio file size:', audioFile.size, 'bytes');
 
-    // Parse conversation history
-    let messages = [];
-    if (conversationHistory) {
-      try {
-        messages = JSON.parse(conversationHistory as string);
-      } catch (e) {
-        console.error('Failed to parse history:', e);
+    // Step 1: Transcribe audio
+    console.log(`🔊 Transcribing audio with ${llm.type}:${llm.models.transcription}...`);
+    const transcript = await llm.transcribe({ audio: audioFile, fileName: audioFile.name });
+    console.log('📝 Transcript:', transcript);
+
+    // A crisis is answered whatever the system settings are
+    const crisis = detectCrisis(transcript);
+    if (!crisis) {
+      if (isBlockedByMaintenance(settings, profile?.role)) {
+        return new Response(JSON.stringify({ error: MAINTENANCE_MESSAGE, maintenance: true }), {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
       }
-    }
 
-    // Step 1: Transcribe audio with Whisper
-    console.log('🔊 Transcribing audio with Whisper...');
-    const whisperFormData = new FormData();
-    whisperFormData.append('file', audioFile);
-    whisperFormData.append('model', 'whisper-1');
-
-    const whisperResponse = await fetch('https://api.openai.com/v1/audio/transcriptions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-      },
-      body: whisperFormData,
-    });
+      if (!settings.enableVoiceCheckins && profile?.role !== 'admin') {
+        return new Response(JSON.stringify({ error: 'Voice check-ins are turned off. Please type your message instead.' }), {
+          status: 403,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+    }
 
-    if (!whisperResponse.ok) {
-      const error = await whisperResponse.text();
-      console.error('Whisper API error:', error);
-      throw new Error(`Whisper transcription failed: ${error}`);
+    // Continue the patient's open session, or start one. A crisis is answered
+    // even if the session can't be opened.
+    let session: ChatSession | null = null;
+    try {
+      const existingSession = typeof sessionId === 'string' && sessionId
+        ? await loadOpenSession(supabaseAdmin, user.id, sessionId)
+        : null;
+      session = existingSession ?? (await createSession(supabaseAdmin, user.id, { interactionType: 'voice' }));
+    } catch (error) {
+      if (!crisis) throw error;
+      console.error('Error opening chat session for a crisis message:', error);
     }
 
-    const { text: transcript } = await whisperResponse.json();
-    console.log('📝 Transcript:', transcript);
+    // Build conversation with Parra's personality
+    const persona = buildPersonaPrompt({ channel: 'voice' });
+    let responseText: string;
 
-    // Step 2: Get GPT-4 response
-    console.log('🤖 Getting GPT-4 response...');
+    if (crisis) {
+      // Step 2: A crisis always gets crisis resources, whatever the model would say
+      console.warn('🚨 Crisis detected in voice message:', crisis.category);
+      const patientName = profile?.display_name || profile?.full_name || null;
+      let careTeamAlerted = false;
+      let caregiverName: string | null = null;
 
-    // Build conversation with Parra's personality
-    const systemMessage = {
-      role: 'system',
-      content: `You are Parra, a friendly and supportive companion for seniors.
-
-Your personality:
-- Warm, caring, and patient
-- Speaks in short, clear sentences
-- Uses simple language
-- Shows genuine interest in the senior's wellbeing
-- Occasionally uses gentle humor
-- Asks follow-up questions to keep conversation flowing
-- Remembers context from earlier in the conversation
-
-Topics you help with:
-- Daily wellness check-ins
-- Medication reminders
-- Meal planning and nutrition
-- Exercise and activity suggestions
-- Social connection and emotional support
-- Memory and cognitive exercises
-- Entertainment recommendations
-
-Important:
-- Keep responses concise (2-3 sentences max)
-- Be encouraging and positive
-- Validate their feelings
-- Offer help proactively
-- If they seem distressed, suggest contacting their caregiver`
-    };
-
-    const userMessage = {
-      role: 'user',
-      content: transcript
-    };
-
-    const chatMessages = [
-      systemMessage,
-      ...messages,
-      userMessage
-    ];
-
-    const gptResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'gpt-4',
+      try {
+        const [{ caregiversNotified }, primaryCaregiver] = await Promise.all([
+          raiseCrisisAlert(supabaseAdmin, {
+            supabaseUrl: Deno.env.get('SUPABASE_URL') ?? '',
+            serviceKey: supabaseServiceKey,
+            patientId: user.id,
+            patientName: patientName || 'The patient',
+            signal: crisis,
+            text: transcript,
+            source: 'voice_chat',
+            checkInId: session?.id,
+          }),
+          loadPrimaryCaregiverName(supabaseAdmin, user.id).catch(() => null),
+        ]);
+        careTeamAlerted = caregiversNotified;
+        caregiverName = primaryCaregiver;
+      } catch (error) {
+        console.error('Error raising crisis alert:', error);
+      }
+
+      responseText = formatCrisisResponse(getCrisisResources(resolveTimeZone(profile?.timezone)), {
+        patientName,
+        caregiverName,
+        careTeamAlerted,
+      });
+    } else {
+      // Step 2: Get the model's response
+      console.log(`🤖 Getting ${llm.name} response...`);
+
+      const systemMessage: LLMChatMessage = {
+        role: 'system',
+        content: persona.content,
+      };
+
+      const userMessage: LLMChatMessage = {
+        role: 'user',
+        content: transcript
+      };
+
+      const chatMessages = [
+        systemMessage,
+        ...getSessionHistory(session?.messages ?? []),
+        userMessage
+      ];
+
+      const completion = await llm.chat({
         messages: chatMessages,
         temperature: 0.8,
-        max_tokens: 150, // Keep responses concise
-      }),
-    });
-
-    if (!gptResponse.ok) {
-      const error = await gptResponse.text();
-      console.error('GPT-4 API error:', error);
-      throw new Error(`GPT-4 failed: ${error}`);
+        maxTokens: 150, // Keep responses concise
+      });
+      responseText = completion.content;
     }
-
-    const gptData = await gptResponse.json();
-    const responseText = gptData.choices[0].message.content;
     console.log('💬 Parra says:', responseText);
 
-    // Step 3: Convert response to speech with TTS
-    console.log('🔊 Converting to speech with TTS...');
-    const ttsResponse = await fetch('https://api.openai.com/v1/audio/speech', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${OPENAI_API_KEY}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        model: 'tts-1',
-        voice: 'nova', // Warm female voice for Parra
-        input: responseText,
-        speed: 0.95, // Slightly slower for seniors
-      }),
-    });
-
-    if (!ttsResponse.ok) {
-      const error = await ttsResponse.text();
-      console.error('TTS API error:', error);
-      throw new Error(`TTS failed: ${error}`);
+    if (session) {
+      try {
+        await appendSessionMessages(
+          supabaseAdmin,
+          session.id,
+          [createSessionMessage('user', transcript), createSessionMessage('assistant', responseText)],
+          persona.version
+        );
+      } catch (error) {
+        if (!crisis) throw error;
+        console.error('Error saving the crisis conversation:', error);
+      }
     }
 
-    const audioBuffer = await ttsResponse.arrayBuffer();
+    // Step 3: Convert response to speech. The crisis reply is sent as text
+    // if it can't be spoken.
+    console.log(`🔊 Converting to speech with ${llm.type}:${llm.models.speech}...`);
+    let audio: number[] | null = null;
+    try {
+      const audioBuffer = await llm.speak({
+        text: responseText,
+        speed: 0.95, // Slightly slower for seniors
+      });
+      console.log('📊 Response audio size:', audioBuffer.byteLength, 'bytes');
+      audio = Array.from(new Uint8Array(audioBuffer));
+    } catch (error) {
+      if (!crisis) throw error;
+      console.error('Error speaking the crisis reply:', error);
+    }
     console.log('✅ Voice chat completed successfully');
-    console.log('📊 Response audio size:', audioBuffer.byteLength, 'bytes');
 
     // Return both transcript and audio
     return new Response(
       JSON.stringify({
         transcript,
         responseText,
-        audio: Array.from(new Uint8Array(audioBuffer)),
+        promptVersion: persona.version,
+        sessionId: session?.id ?? null,
+        crisis: crisis !== null,
+        audio,
       }),
       {
         headers: {
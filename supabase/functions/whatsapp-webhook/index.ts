@@ -2,25 +2,134 @@
  * WhatsApp Webhook Edge Function
  *
  * Receives incoming WhatsApp messages from Evolution API.
- * Processes voice messages: downloads → transcribes (Whisper) → generates response (GPT-4) → replies
+ * Processes voice messages: downloads → transcribes → generates response (GPT-4 by default) → replies
+ * Transcription and replies go through the configured LLM provider (see
+ * _shared/llm-provider.ts; WHATSAPP_LLM_PROVIDER or LLM_PROVIDER), with the
+ * shared Parra persona (_shared/parra-persona.ts).
+ *
+ * Every message, text or voice transcript, is first checked for suicidal
+ * ideation and self-harm (see _shared/crisis-detection.ts). A match raises a
+ * critical distress_signal alert, notifies caregivers immediately and replies
+ * with crisis resources for the patient's country instead of asking the model.
+ *
+ * Other text messages are matched against an open safety check-in for the
+ * sender (an unresolved inactivity_monitoring row or a recent check-in alert):
+ * - "I'm fine" style replies call record_patient_response, acknowledge the
+ *   alert and stop escalation
+ * - Replies asking for help escalate the alert to caregivers immediately
+ * Otherwise an "ok" / "done" style reply to a reminder sent by
+ * dispatch-reminders in the last few hours marks it acknowledged, and a
+ * "took my pills" style message marks the patient's current scheduled doses
+ * as taken in medication_doses.
+ *
+ * Any message, text or voice, answers a scheduled check-in Parra started
+ * (see dispatch-checkins), and Parra's opening message is passed to the
+ * model so the reply follows on from it.
+ * Any other text continues a normal Parra conversation. Text messages are
+ * logged to voice_checkins with message_type = 'whatsapp_text'.
+ *
+ * Caregivers answer alerts they were sent by replying ACK, RESOLVED or
+ * FALSE ALARM with the alert reference (see alert-responses). The sender is
+ * matched to their profile by WhatsApp number.
+ *
+ * Security Features:
+ * - Every request must carry EVOLUTION_WEBHOOK_SECRET (X-Webhook-Secret or
+ *   apikey header, set in the Evolution API webhook's headers), compared in
+ *   constant time; without the secret configured every request is rejected
  *
  * @module edge-functions/whatsapp-webhook
  */
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.39.7";
+import { CONCERN_ALERT_TYPES } from "../_shared/checkin-analysis.ts";
+import { classifyCheckInReply } from "../_shared/checkin-replies.ts";
+import { notifyCaregivers } from "../_shared/notifications.ts";
+import { REMINDER_ACK_WINDOW_HOURS, isReminderAcknowledgement } from "../_shared/reminders.ts";
+import { confirmDosesTaken } from "../_shared/medication-store.ts";
+import { isMedicationConfirmation, type ScheduledDose } from "../_shared/medications.ts";
+import { resolveTimeZone } from "../_shared/timezone.ts";
+import { markCheckInsAnswered } from "../_shared/scheduled-checkin-store.ts";
+import { createLLMProviderFromEnv, type LLMProvider } from "../_shared/llm-provider.ts";
+import { buildPersonaPrompt } from "../_shared/parra-persona.ts";
+import { detectCrisis, formatCrisisResponse, getCrisisResources, type CrisisSignal } from "../_shared/crisis-detection.ts";
+import { raiseCrisisAlert } from "../_shared/crisis-store.ts";
+import { loadPrimaryCaregiverName } from "../_shared/patient-status-store.ts";
+import {
+  formatAmbiguousReply,
+  formatResponseConfirmation,
+  parseAlertReply,
+  type AlertReply,
+} from "../_shared/alert-responses.ts";
+import { findAlertForReply, respondToAlert } from "../_shared/alert-response-store.ts";
+import { safeEqual } from "../_shared/signing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+/**
+ * Alerts that send the patient a check-in message and wait for a reply
+ */
+const CHECK_IN_ALERT_TYPES = ["prolonged_inactivity", "fall_detected", "missed_checkin"];
+
+/**
+ * How long an unanswered check-in alert still accepts a reply
+ */
+const CHECK_IN_REPLY_WINDOW_HOURS = 12;
+
+interface WhatsAppPatient {
+  id: string;
+  full_name: string;
+  whatsapp_phone: string;
+  timezone: string | null;
+}
+
+/**
+ * Text-bearing parts of an Evolution API message payload
+ */
+interface EvolutionMessage {
+  conversation?: string;
+  extendedTextMessage?: { text?: string };
+}
+
+interface OpenCheckIn {
+  monitoringId: string | null;
+  alertId: string | null;
+}
+
+interface SentReminder {
+  id: string;
+  created_by: "caregiver" | "parra";
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
+    // Only Evolution API, which sends the shared secret, may change state here
+    const webhookSecret = Deno.env.get("EVOLUTION_WEBHOOK_SECRET");
+    if (!webhookSecret) {
+      console.error("EVOLUTION_WEBHOOK_SECRET is not configured");
+      return new Response(
+        JSON.stringify({ error: "Service configuration error" }),
+        {
+          status: 500,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        }
+      );
+    }
+
+    if (!hasWebhookSecret(req, webhookSecret)) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     console.log("📱 Received WhatsApp webhook");
 
     // 1. Parse webhook from Evolution API
@@ -55,9 +164,17 @@ serve(async (req) => {
       });
     }
 
-    // 2. Check if it's a voice message
-    if (data.messageType !== "audioMessage") {
-      console.log(`Message type is ${data.messageType}, not audio - ignoring`);
+    // Evolution API also reports the messages we send
+    if (data.key?.fromMe) {
+      return new Response(JSON.stringify({ success: true, ignored: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // 2. Check if it's a voice or text message
+    const messageText = extractMessageText(data.message);
+    if (data.messageType !== "audioMessage" && messageText === null) {
+      console.log(`Message type is ${data.messageType}, not audio or text - ignoring`);
       return new Response(JSON.stringify({ success: true, ignored: true }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
       });
@@ -68,14 +185,22 @@ serve(async (req) => {
     const senderPhone = senderJid.split("@")[0]; // "13039279468"
     const senderName = data.pushName || "Patient";
 
-    console.log(`Voice message from ${senderName} (${senderPhone.substring(0, 5)}***)`);
+    console.log(`${messageText === null ? "Voice" : "Text"} message from ${senderName} (${senderPhone.substring(0, 5)}***)`);
 
     // 4. Initialize Supabase
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
-    const openaiApiKey = Deno.env.get("OPENAI_API_KEY");
+    let llm: LLMProvider | null = null;
+    try {
+      llm = createLLMProviderFromEnv((name) => Deno.env.get(name), {
+        scope: "WHATSAPP",
+        defaults: { chat: "gpt-4" },
+      });
+    } catch (error) {
+      console.error("LLM provider not configured:", error);
+    }
 
-    if (!supabaseUrl || !supabaseServiceKey || !openaiApiKey) {
+    if (!supabaseUrl || !supabaseServiceKey || !llm) {
       console.error("Missing required environment variables");
       return new Response(
         JSON.stringify({ error: "Service configuration error" }),
@@ -88,12 +213,29 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // 5. Find patient by phone number
+    // Caregivers answering an alert they were sent
+    const alertReply = messageText !== null ? parseAlertReply(messageText) : null;
+    if (alertReply) {
+      const { data: caregiver } = await supabase
+        .from("profiles")
+        .select("id")
+        .in("whatsapp_phone", [senderPhone, `+${senderPhone}`])
+        .neq("role", "senior")
+        .limit(1)
+        .maybeSingle();
+
+      if (caregiver) {
+        return await handleAlertReply(supabase, caregiver.id, senderPhone, alertReply);
+      }
+    }
+
+    // 5. Find patient by phone number (stored with or without a leading +)
     const { data: patient, error: patientError } = await supabase
       .from("profiles")
-      .select("id, full_name, whatsapp_phone")
-      .eq("whatsapp_phone", senderPhone)
-      .eq("role", "patient")
+      .select("id, full_name, whatsapp_phone, timezone")
+      .in("whatsapp_phone", [senderPhone, `+${senderPhone}`])
+      .eq("role", "senior")
+      .limit(1)
       .single();
 
     if (patientError || !patient) {
@@ -116,23 +258,49 @@ serve(async (req) => {
 
     console.log(`✅ Found patient: ${patient.full_name}`);
 
+    const openingMessage = await answerScheduledCheckIn(supabase, patient.id);
+
+    if (messageText !== null) {
+      return await handleTextMessage(
+        supabase,
+        patient,
+        senderPhone,
+        messageText,
+        llm,
+        supabaseUrl,
+        supabaseServiceKey,
+        openingMessage
+      );
+    }
+
     // 6. Download and transcribe voice message
     const audioUrl = data.message.audioMessage.url;
     const durationSeconds = data.message.audioMessage.seconds || 0;
 
     console.log(`🎤 Transcribing ${durationSeconds}s voice message...`);
-    const transcript = await transcribeAudio(audioUrl, openaiApiKey);
+    const transcript = await transcribeAudio(audioUrl, llm);
     console.log(`📝 Transcript: "${transcript}"`);
 
-    // 7. Generate intelligent response with GPT-4
-    console.log(`🤖 Generating response...`);
-    const aiResponse = await generateResponse(
-      transcript,
-      patient.id,
-      patient.full_name,
-      openaiApiKey,
-      supabase
-    );
+    // 7. Generate intelligent response; a crisis always gets crisis resources
+    const crisis = detectCrisis(transcript);
+    let aiResponse: string;
+    let relatedAlertId: string | null = null;
+
+    if (crisis) {
+      const crisisReply = await respondToCrisis(supabase, patient, transcript, crisis, supabaseUrl, supabaseServiceKey);
+      aiResponse = crisisReply.reply;
+      relatedAlertId = crisisReply.alertId;
+    } else {
+      console.log(`🤖 Generating response with ${llm.name}...`);
+      aiResponse = await generateResponse(
+        transcript,
+        patient.id,
+        patient.full_name,
+        llm,
+        supabase,
+        openingMessage
+      );
+    }
     console.log(`💬 Response: "${aiResponse}"`);
 
     // 8. Send reply via Evolution API
@@ -149,6 +317,7 @@ serve(async (req) => {
         ai_response: aiResponse,
         duration_seconds: durationSeconds,
         message_type: "whatsapp_voice",
+        related_alert_id: relatedAlertId,
       });
 
     if (insertError) {
@@ -163,6 +332,7 @@ serve(async (req) => {
         patient: patient.full_name,
         transcript: transcript,
         response: aiResponse,
+        crisis: crisis !== null,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -182,16 +352,470 @@ serve(async (req) => {
   }
 });
 
+// ============================================================================
+// Authentication
+// ============================================================================
+
+/**
+ * Whether the request carries the webhook secret
+ */
+function hasWebhookSecret(req: Request, secret: string): boolean {
+  const provided = req.headers.get("X-Webhook-Secret") ?? req.headers.get("apikey");
+  return provided !== null && safeEqual(provided, secret);
+}
+
+// ============================================================================
+// Text Messages
+// ============================================================================
+
+/**
+ * Text of a plain or extended (reply/link preview) text message, or null
+ */
+function extractMessageText(message: EvolutionMessage | undefined): string | null {
+  const text = message?.conversation ?? message?.extendedTextMessage?.text;
+  if (typeof text !== "string" || text.trim().length === 0) return null;
+  return text.trim().slice(0, 2000);
+}
+
+/**
+ * Find the check-in the patient is most likely replying to: an inactivity
+ * monitoring record waiting for a response, or a recent unresolved check-in alert
+ */
+async function findOpenCheckIn(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<OpenCheckIn | null> {
+  const { data: monitoring } = await supabase
+    .from("inactivity_monitoring")
+    .select("id, related_alert_id")
+    .eq("patient_id", patientId)
+    .is("resolved_at", null)
+    .not("check_in_sent_at", "is", null)
+    .is("check_in_response_at", null)
+    .order("inactivity_started_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (monitoring) {
+    return { monitoringId: monitoring.id, alertId: monitoring.related_alert_id };
+  }
+
+  const since = new Date(Date.now() - CHECK_IN_REPLY_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const { data: alert } = await supabase
+    .from("alerts")
+    .select("id")
+    .eq("patient_id", patientId)
+    .eq("status", "active")
+    .is("resolved_at", null)
+    .in("alert_type", CHECK_IN_ALERT_TYPES)
+    .gte("created_at", since)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  return alert ? { monitoringId: null, alertId: alert.id } : null;
+}
+
+/**
+ * Record that the patient is okay: resolve monitoring, acknowledge the
+ * alert(s) and stop any escalation countdown
+ */
+async function resolveCheckIn(
+  supabase: SupabaseClient,
+  openCheckIn: OpenCheckIn,
+  patientId: string,
+  text: string
+): Promise<void> {
+  if (openCheckIn.monitoringId) {
+    const { data: result, error } = await supabase.rpc("record_patient_response", {
+      p_patient_id: patientId,
+      p_response_text: text,
+    });
+
+    if (error) {
+      throw new Error(`Failed to record patient response: ${error.message}`);
+    }
+    console.log("Patient response recorded:", result);
+  }
+
+  const now = new Date().toISOString();
+  const acknowledgement = {
+    status: "acknowledged",
+    acknowledged_by: patientId,
+    acknowledged_at: now,
+    resolved_at: now,
+    resolved_by: patientId,
+    resolution_notes: `Patient replied on WhatsApp: ${text}`,
+    escalation_countdown_started: false,
+  };
+
+  if (openCheckIn.alertId) {
+    const { error } = await supabase
+      .from("alerts")
+      .update(acknowledgement)
+      .eq("id", openCheckIn.alertId);
+
+    if (error) console.error("Error acknowledging alert:", error);
+  }
+
+  // Escalation alerts raised for the same inactivity period
+  if (openCheckIn.monitoringId) {
+    const { error } = await supabase
+      .from("alerts")
+      .update(acknowledgement)
+      .eq("inactivity_monitoring_id", openCheckIn.monitoringId)
+      .is("resolved_at", null);
+
+    if (error) console.error("Error acknowledging escalation alerts:", error);
+  }
+}
+
+/**
+ * The patient replied to a check-in asking for help: escalate to caregivers now
+ */
+async function escalateCheckIn(
+  supabase: SupabaseClient,
+  openCheckIn: OpenCheckIn,
+  patient: WhatsAppPatient,
+  text: string,
+  concernType: keyof typeof CONCERN_ALERT_TYPES,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<string | null> {
+  const now = new Date().toISOString();
+  const alertMessage = `${patient.full_name} replied to a check-in asking for help: "${text}"`;
+  let alertId = openCheckIn.alertId;
+
+  if (alertId) {
+    const { error } = await supabase
+      .from("alerts")
+      .update({ severity: "critical", escalated: true, escalated_at: now })
+      .eq("id", alertId);
+
+    if (error) console.error("Error escalating alert:", error);
+  } else {
+    const { data: alert, error } = await supabase
+      .from("alerts")
+      .insert({
+        patient_id: patient.id,
+        alert_type: CONCERN_ALERT_TYPES[concernType],
+        severity: "critical",
+        status: "active",
+        alert_message: alertMessage,
+        escalated: true,
+        escalated_at: now,
+        inactivity_monitoring_id: openCheckIn.monitoringId,
+      })
+      .select("id")
+      .single();
+
+    if (error || !alert) {
+      console.error("Error creating escalation alert:", error);
+      return null;
+    }
+    alertId = alert.id;
+  }
+
+  await notifyCaregivers(supabaseUrl, supabaseServiceKey, alertId!, alertMessage);
+  return alertId;
+}
+
+/**
+ * Most recent reminder sent to the patient on WhatsApp that they have not
+ * acknowledged yet
+ */
+async function findUnacknowledgedReminder(
+  supabase: SupabaseClient,
+  patientId: string
+): Promise<SentReminder | null> {
+  const since = new Date(Date.now() - REMINDER_ACK_WINDOW_HOURS * 60 * 60 * 1000).toISOString();
+  const { data, error } = await supabase
+    .from("caregiver_notes")
+    .select("id, created_by")
+    .eq("patient_id", patientId)
+    .eq("is_reminder", true)
+    .eq("reminder_sent", true)
+    .eq("reminder_channel", "whatsapp")
+    .eq("reminder_acknowledged", false)
+    .gte("reminder_sent_at", since)
+    .order("reminder_sent_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Error looking up sent reminders:", error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Record that the patient answered any scheduled check-in waiting for them.
+ *
+ * @returns Parra's opening message of the most recent one, if any
+ */
+async function answerScheduledCheckIn(supabase: SupabaseClient, patientId: string): Promise<string | null> {
+  try {
+    const answered = await markCheckInsAnswered(supabase, patientId);
+    if (answered.length > 0) console.log(`👋 Answered ${answered.length} scheduled check-in(s)`);
+    return answered[answered.length - 1]?.message ?? null;
+  } catch (error) {
+    console.error("Error recording check-in answer:", error);
+    return null;
+  }
+}
+
+/**
+ * Mark the doses a "took my pills" message refers to as taken. Failures are
+ * logged so the message still gets a conversational reply.
+ */
+async function confirmMedicationFromText(
+  supabase: SupabaseClient,
+  patient: WhatsAppPatient
+): Promise<ScheduledDose[]> {
+  try {
+    return await confirmDosesTaken(supabase, patient.id, resolveTimeZone(patient.timezone), null, "whatsapp");
+  } catch (error) {
+    console.error("Error confirming medication doses:", error);
+    return [];
+  }
+}
+
+/**
+ * Alert caregivers about a crisis message and build the reply with crisis
+ * resources. The reply is sent even if the alert fails.
+ */
+async function respondToCrisis(
+  supabase: SupabaseClient,
+  patient: WhatsAppPatient,
+  text: string,
+  signal: CrisisSignal,
+  supabaseUrl: string,
+  supabaseServiceKey: string
+): Promise<{ reply: string; alertId: string | null }> {
+  console.log(`🚨 Crisis detected (${signal.category}) - alerting caregivers`);
+
+  let alertId: string | null = null;
+  let careTeamAlerted = false;
+  try {
+    const alert = await raiseCrisisAlert(supabase, {
+      supabaseUrl,
+      serviceKey: supabaseServiceKey,
+      patientId: patient.id,
+      patientName: patient.full_name,
+      signal,
+      text,
+      source: "whatsapp",
+    });
+    alertId = alert.alertId;
+    careTeamAlerted = alert.caregiversNotified;
+  } catch (error) {
+    console.error("Error raising crisis alert:", error);
+  }
+
+  const caregiverName = await loadPrimaryCaregiverName(supabase, patient.id).catch((error) => {
+    console.error("Error loading primary caregiver:", error);
+    return null;
+  });
+
+  const reply = formatCrisisResponse(getCrisisResources(resolveTimeZone(patient.timezone)), {
+    patientName: patient.full_name.split(" ")[0] || patient.full_name,
+    caregiverName,
+    careTeamAlerted,
+  });
+
+  return { reply, alertId };
+}
+
+/**
+ * Handle a text message: respond to a crisis, answer an open check-in,
+ * acknowledge a reminder, confirm scheduled medication doses, or continue
+ * the conversation
+ */
+async function handleTextMessage(
+  supabase: SupabaseClient,
+  patient: WhatsAppPatient,
+  senderPhone: string,
+  text: string,
+  llm: LLMProvider,
+  supabaseUrl: string,
+  supabaseServiceKey: string,
+  openingMessage: string | null
+): Promise<Response> {
+  const firstName = patient.full_name.split(" ")[0] || patient.full_name;
+  const crisis = detectCrisis(text);
+  const openCheckIn = crisis ? null : await findOpenCheckIn(supabase, patient.id);
+
+  let reply: string;
+  let outcome:
+    | "crisis_escalated"
+    | "check_in_resolved"
+    | "check_in_escalated"
+    | "reminder_acknowledged"
+    | "medication_confirmed"
+    | "conversation";
+  let relatedAlertId: string | null = null;
+
+  if (crisis) {
+    const crisisReply = await respondToCrisis(supabase, patient, text, crisis, supabaseUrl, supabaseServiceKey);
+    reply = crisisReply.reply;
+    relatedAlertId = crisisReply.alertId;
+    outcome = "crisis_escalated";
+  } else if (openCheckIn) {
+    const { kind, concern } = classifyCheckInReply(text);
+
+    if (kind === "needs_help") {
+      console.log("🚨 Check-in reply asks for help - escalating");
+      relatedAlertId = await escalateCheckIn(
+        supabase,
+        openCheckIn,
+        patient,
+        text,
+        concern?.type ?? "distress",
+        supabaseUrl,
+        supabaseServiceKey
+      );
+      reply = `${firstName}, I'm letting your care team know right now so someone can check on you. If you're hurt or it's an emergency, please call 911.`;
+      outcome = "check_in_escalated";
+    } else {
+      console.log("✅ Check-in reply received - resolving");
+      await resolveCheckIn(supabase, openCheckIn, patient.id, text);
+      relatedAlertId = openCheckIn.alertId;
+      reply = `Thanks for getting back to me, ${firstName}! Glad you're okay - I'll let your care team know so nobody worries.`;
+      outcome = "check_in_resolved";
+    }
+  } else {
+    const reminder = await findUnacknowledgedReminder(supabase, patient.id);
+
+    if (reminder && isReminderAcknowledgement(text)) {
+      console.log("✅ Reminder acknowledged");
+      const { error } = await supabase
+        .from("caregiver_notes")
+        .update({ reminder_acknowledged: true, reminder_acknowledged_at: new Date().toISOString() })
+        .eq("id", reminder.id);
+
+      if (error) console.error("Error acknowledging reminder:", error);
+
+      reply = reminder.created_by === "parra"
+        ? `Good to hear, ${firstName}. I'm here if you need anything.`
+        : `Thanks, ${firstName}! I'll let your care team know you got it.`;
+      outcome = "reminder_acknowledged";
+    } else {
+      const doses = isMedicationConfirmation(text) ? await confirmMedicationFromText(supabase, patient) : [];
+
+      if (doses.length > 0) {
+        console.log(`💊 Confirmed ${doses.length} scheduled dose(s)`);
+        const names = [...new Set(doses.map((dose) => dose.name))].join(" and ");
+        reply = `Thanks, ${firstName}! I've noted that you took your ${names}.`;
+        outcome = "medication_confirmed";
+      } else {
+        reply = await generateResponse(text, patient.id, patient.full_name, llm, supabase, openingMessage);
+        outcome = "conversation";
+      }
+    }
+  }
+
+  console.log(`💬 Response: "${reply}"`);
+
+  // The check-in is already handled; a failed reply should not make Evolution API retry
+  try {
+    await sendWhatsAppReply(senderPhone, reply);
+  } catch (error) {
+    console.error("Error sending WhatsApp reply:", error);
+  }
+
+  const { error: insertError } = await supabase
+    .from("voice_checkins")
+    .insert({
+      patient_id: patient.id,
+      audio_url: null,
+      transcript: text,
+      ai_response: reply,
+      message_type: "whatsapp_text",
+      related_alert_id: relatedAlertId,
+    });
+
+  if (insertError) {
+    console.error("Error logging text check-in:", insertError);
+  }
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      patient: patient.full_name,
+      outcome,
+      alertId: relatedAlertId,
+      response: reply,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
+// ============================================================================
+// Alert Replies
+// ============================================================================
+
+/**
+ * Acknowledge, resolve or dismiss the alert a caregiver replied to, and
+ * tell them the outcome
+ */
+async function handleAlertReply(
+  supabase: SupabaseClient,
+  caregiverId: string,
+  senderPhone: string,
+  reply: AlertReply
+): Promise<Response> {
+  const match = await findAlertForReply(supabase, caregiverId, reply.reference);
+
+  let status: string | null = null;
+  let message: string;
+
+  if (match.status === "found") {
+    const alert = await respondToAlert(supabase, {
+      alertId: match.alertId,
+      responderId: caregiverId,
+      action: reply.action,
+      channel: "whatsapp",
+      note: reply.note,
+    });
+    status = alert.status;
+    message = formatResponseConfirmation(match.reference, alert.status);
+    console.log(`✅ Alert ${match.alertId} answered by caregiver: ${reply.action} → ${alert.status}`);
+  } else if (match.status === "ambiguous") {
+    message = formatAmbiguousReply(match.references);
+  } else {
+    message = reply.reference
+      ? `I couldn't find an open alert ${reply.reference} for you.`
+      : "You have no open alerts right now.";
+  }
+
+  await sendWhatsAppReply(senderPhone, message);
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      outcome: match.status === "found" ? "alert_response" : "alert_reply_unmatched",
+      alertId: match.status === "found" ? match.alertId : null,
+      status,
+    }),
+    {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    }
+  );
+}
+
 // ============================================================================
 // Helper Functions
 // ============================================================================
 
 /**
- * Transcribe audio using OpenAI Whisper API
+ * Download a voice message and transcribe it
  */
 async function transcribeAudio(
   audioUrl: string,
-  openaiApiKey: string
+  llm: LLMProvider
 ): Promise<string> {
   try {
     // Download audio file from Evolution API
@@ -205,30 +829,11 @@ async function transcribeAudio(
     const audioBlob = await audioResponse.blob();
     console.log(`Audio downloaded: ${audioBlob.size} bytes`);
 
-    // Send to OpenAI Whisper
-    const formData = new FormData();
-    formData.append("file", audioBlob, "audio.ogg");
-    formData.append("model", "whisper-1");
-    formData.append("language", "en"); // Helps accuracy
-
-    const response = await fetch(
-      "https://api.openai.com/v1/audio/transcriptions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${openaiApiKey}`,
-        },
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Whisper API error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    return result.text;
+    return await llm.transcribe({
+      audio: audioBlob,
+      fileName: "audio.ogg",
+      language: "en", // Helps accuracy
+    });
   } catch (error) {
     console.error("Error transcribing audio:", error);
     throw error;
@@ -236,14 +841,15 @@ async function transcribeAudio(
 }
 
 /**
- * Generate response using GPT-4
+ * Generate Parra's reply with the configured model
  */
 async function generateResponse(
   transcript: string,
   patientId: string,
   patientName: string,
-  openaiApiKey: string,
-  supabase: any
+  llm: LLMProvider,
+  supabase: any,
+  openingMessage: string | null = null
 ): Promise<string> {
   try {
     // Get recent context about patient (last few check-ins, medications, etc.)
@@ -264,49 +870,25 @@ async function generateResponse(
       ]);
     }
 
-    // Call GPT-4
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${openaiApiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "gpt-4",
-        messages: [
-          {
-            role: "system",
-            content: `You are Parra, a caring AI assistant for ${patientName}, an elderly person living independently.
-
-Your role:
-- Respond warmly and naturally to their voice messages
-- Keep responses brief (1-3 sentences max)
-- If they mention taking medications, confirm and ask how they're feeling
-- If they mention activities (walking, eating, etc.), show interest and encourage them
-- If they sound distressed or mention falling/injury, express concern and suggest contacting their caregiver
-- Always be supportive, kind, and use a friendly tone
-- Use their name occasionally to make it personal
-
-Remember: This is a voice message conversation on WhatsApp, so keep it casual and conversational.`,
-          },
-          ...contextMessages,
-          {
-            role: "user",
-            content: transcript,
-          },
-        ],
-        temperature: 0.7,
-        max_tokens: 150,
-      }),
+    const { content } = await llm.chat({
+      messages: [
+        {
+          role: "system",
+          content: buildPersonaPrompt({ channel: "whatsapp", patientName }).content,
+        },
+        ...contextMessages,
+        // The scheduled check-in this message answers
+        ...(openingMessage ? [{ role: "assistant", content: openingMessage }] : []),
+        {
+          role: "user",
+          content: transcript,
+        },
+      ],
+      temperature: 0.7,
+      maxTokens: 150,
     });
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`GPT-4 API error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    return result.choices[0].message.content;
+    return content;
   } catch (error) {
     console.error("Error generating response:", error);
     // Fallback response
@@ -0,0 +1,112 @@
+-- =====================================================
+-- PATIENT MEMORIES MIGRATION
+-- =====================================================
+-- Per-patient memory store for Parra conversations.
+-- Memories (preferred name, family, hobbies, medication
+-- schedule, routines, likes/dislikes) are extracted from
+-- check-ins by the analyze-check-in Edge Function and
+-- injected into the senior-chat system prompt.
+--
+-- Patients and their caregivers can view and delete memories.
+-- Only the service role writes them.
+--
+-- Date: 2025-10-21
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE PATIENT_MEMORIES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.patient_memories (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  -- Memory content
+  category TEXT NOT NULL CHECK (category IN (
+    'preferred_name', 'family', 'hobby', 'medication', 'routine', 'preference', 'health', 'other'
+  )),
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  content_key TEXT GENERATED ALWAYS AS (lower(btrim(content))) STORED,
+
+  -- Provenance
+  source_check_in_id UUID REFERENCES public.check_ins(id) ON DELETE SET NULL,
+  times_mentioned INTEGER NOT NULL DEFAULT 1 CHECK (times_mentioned > 0),
+  last_mentioned_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT patient_memories_unique_content UNIQUE (patient_id, category, content_key)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_patient_memories_patient ON public.patient_memories(patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_memories_recent ON public.patient_memories(patient_id, last_mentioned_at DESC);
+
+-- =====================================================
+-- 2. RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.patient_memories ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view their own memories"
+  ON public.patient_memories FOR SELECT
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Patients can delete their own memories"
+  ON public.patient_memories FOR DELETE
+  USING (auth.uid() = patient_id);
+
+CREATE POLICY "Caregivers can view patient memories"
+  ON public.patient_memories FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.care_relationships
+      WHERE care_relationships.patient_id = patient_memories.patient_id
+        AND care_relationships.caregiver_id = auth.uid()
+        AND care_relationships.status = 'active'
+    )
+  );
+
+CREATE POLICY "Caregivers can delete patient memories"
+  ON public.patient_memories FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.care_relationships
+      WHERE care_relationships.patient_id = patient_memories.patient_id
+        AND care_relationships.caregiver_id = auth.uid()
+        AND care_relationships.status = 'active'
+    )
+  );
+
+CREATE POLICY "Admins can manage all memories"
+  ON public.patient_memories FOR ALL
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.profiles
+      WHERE profiles.id = auth.uid()
+        AND profiles.role = 'admin'
+    )
+  );
+
+-- =====================================================
+-- 3. TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER set_patient_memories_updated_at
+  BEFORE UPDATE ON public.patient_memories
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 4. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.patient_memories IS 'Facts Parra remembers about a patient, extracted from check-ins';
+COMMENT ON COLUMN public.patient_memories.content_key IS 'Normalized content used to de-duplicate memories';
+COMMENT ON COLUMN public.patient_memories.times_mentioned IS 'How many check-ins have mentioned this memory';
+
+GRANT SELECT, DELETE ON public.patient_memories TO authenticated;
+
+-- Migration complete
+SELECT 'Patient memories table created successfully' as status;
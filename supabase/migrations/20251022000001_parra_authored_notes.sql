@@ -0,0 +1,41 @@
+-- =====================================================
+-- PARRA-AUTHORED CAREGIVER NOTES
+-- =====================================================
+-- senior-chat tools write to caregiver_notes on the patient's
+-- behalf (medication taken, follow-up check-ins). Those notes
+-- have no caregiver author, so caregiver_id becomes optional
+-- and a created_by column records who wrote the note.
+--
+-- Existing RLS policies already cover these notes: patients see
+-- them when shared_with_patient, caregivers when
+-- shared_with_care_team. Only the service role inserts them.
+--
+-- Date: 2025-10-22
+-- =====================================================
+
+ALTER TABLE public.caregiver_notes
+ALTER COLUMN caregiver_id DROP NOT NULL;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS created_by TEXT NOT NULL DEFAULT 'caregiver'
+  CHECK (created_by IN ('caregiver', 'parra'));
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS check_in_id UUID REFERENCES public.check_ins(id) ON DELETE SET NULL;
+
+-- Caregiver notes must still have an author
+ALTER TABLE public.caregiver_notes
+DROP CONSTRAINT IF EXISTS caregiver_notes_author_check;
+
+ALTER TABLE public.caregiver_notes
+ADD CONSTRAINT caregiver_notes_author_check
+CHECK (created_by = 'parra' OR caregiver_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_caregiver_notes_created_by ON public.caregiver_notes(created_by);
+CREATE INDEX IF NOT EXISTS idx_caregiver_notes_check_in ON public.caregiver_notes(check_in_id);
+
+COMMENT ON COLUMN public.caregiver_notes.created_by IS 'caregiver = written by caregiver_id; parra = written by a senior-chat tool';
+COMMENT ON COLUMN public.caregiver_notes.check_in_id IS 'Conversation a Parra-authored note came from';
+
+-- Migration complete
+SELECT 'Caregiver notes can now be authored by Parra' as status;
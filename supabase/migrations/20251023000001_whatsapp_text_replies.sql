@@ -0,0 +1,32 @@
+-- =====================================================
+-- WHATSAPP TEXT REPLIES
+-- =====================================================
+-- whatsapp-webhook now handles text messages as well as voice
+-- notes. Text messages have no audio, and a reply to a safety
+-- check-in is linked to the alert it answered.
+--
+-- Date: 2025-10-23
+-- =====================================================
+
+ALTER TABLE public.voice_checkins
+ALTER COLUMN audio_url DROP NOT NULL;
+
+ALTER TABLE public.voice_checkins
+ADD COLUMN IF NOT EXISTS related_alert_id UUID REFERENCES public.alerts(id) ON DELETE SET NULL;
+
+ALTER TABLE public.voice_checkins
+DROP CONSTRAINT IF EXISTS voice_checkins_audio_required;
+
+ALTER TABLE public.voice_checkins
+ADD CONSTRAINT voice_checkins_audio_required
+CHECK (message_type = 'whatsapp_text' OR audio_url IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_voice_checkins_related_alert ON public.voice_checkins(related_alert_id)
+  WHERE related_alert_id IS NOT NULL;
+
+COMMENT ON COLUMN public.voice_checkins.audio_url IS 'URL to the voice message audio file from Evolution API (NULL for text messages)';
+COMMENT ON COLUMN public.voice_checkins.transcript IS 'Whisper API transcription of the voice message, or the text of a text message';
+COMMENT ON COLUMN public.voice_checkins.related_alert_id IS 'Check-in alert this message answered, if any';
+
+-- Migration complete
+SELECT 'WhatsApp text replies supported' as status;
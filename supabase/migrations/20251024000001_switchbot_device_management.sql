@@ -0,0 +1,76 @@
+-- =====================================================
+-- SWITCHBOT DEVICE MANAGEMENT
+-- =====================================================
+-- Devices are now registered from the app (admin Devices page
+-- and the caregiver dashboard) instead of with SQL.
+--
+-- - Caregivers with can_modify_settings on an active care
+--   relationship can register, edit, pause and remove their
+--   patient's sensors. Admins already have full access.
+-- - MAC addresses are stored as uppercase AA:BB:CC:DD:EE:FF;
+--   switchbot-webhook normalizes incoming MACs the same way.
+--
+-- Date: 2025-10-24
+-- =====================================================
+
+-- Normalize existing MAC addresses
+UPDATE public.switchbot_devices
+SET device_mac = regexp_replace(
+    upper(regexp_replace(device_mac, '[^0-9A-Fa-f]', '', 'g')),
+    '(..)(?!$)', '\1:', 'g'
+)
+WHERE length(regexp_replace(device_mac, '[^0-9A-Fa-f]', '', 'g')) = 12;
+
+ALTER TABLE public.switchbot_devices
+DROP CONSTRAINT IF EXISTS switchbot_devices_device_mac_format;
+
+ALTER TABLE public.switchbot_devices
+ADD CONSTRAINT switchbot_devices_device_mac_format
+CHECK (device_mac ~ '^([0-9A-F]{2}:){5}[0-9A-F]{2}$') NOT VALID;
+
+-- Caregiver write access
+DROP POLICY IF EXISTS "Caregivers can register devices for their patients" ON public.switchbot_devices;
+DROP POLICY IF EXISTS "Caregivers can update devices of their patients" ON public.switchbot_devices;
+DROP POLICY IF EXISTS "Caregivers can delete devices of their patients" ON public.switchbot_devices;
+
+CREATE POLICY "Caregivers can register devices for their patients"
+    ON public.switchbot_devices FOR INSERT
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.care_relationships cr
+        WHERE cr.patient_id = switchbot_devices.patient_id
+        AND cr.caregiver_id = auth.uid()
+        AND cr.status = 'active'
+        AND cr.can_modify_settings = true
+    ));
+
+CREATE POLICY "Caregivers can update devices of their patients"
+    ON public.switchbot_devices FOR UPDATE
+    USING (EXISTS (
+        SELECT 1 FROM public.care_relationships cr
+        WHERE cr.patient_id = switchbot_devices.patient_id
+        AND cr.caregiver_id = auth.uid()
+        AND cr.status = 'active'
+        AND cr.can_modify_settings = true
+    ))
+    WITH CHECK (EXISTS (
+        SELECT 1 FROM public.care_relationships cr
+        WHERE cr.patient_id = switchbot_devices.patient_id
+        AND cr.caregiver_id = auth.uid()
+        AND cr.status = 'active'
+        AND cr.can_modify_settings = true
+    ));
+
+CREATE POLICY "Caregivers can delete devices of their patients"
+    ON public.switchbot_devices FOR DELETE
+    USING (EXISTS (
+        SELECT 1 FROM public.care_relationships cr
+        WHERE cr.patient_id = switchbot_devices.patient_id
+        AND cr.caregiver_id = auth.uid()
+        AND cr.status = 'active'
+        AND cr.can_modify_settings = true
+    ));
+
+COMMENT ON COLUMN public.switchbot_devices.device_mac IS 'SwitchBot MAC address, uppercase and colon-separated (AA:BB:CC:DD:EE:FF)';
+
+-- Migration complete
+SELECT 'SwitchBot devices can be managed by caregivers and admins' as status;
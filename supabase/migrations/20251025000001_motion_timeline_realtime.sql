@@ -0,0 +1,35 @@
+-- =====================================================
+-- MOTION TIMELINE REALTIME
+-- =====================================================
+-- The caregiver motion timeline subscribes to Supabase realtime
+-- for new motion events, inactivity episodes and device status
+-- changes. Realtime only broadcasts tables in the
+-- supabase_realtime publication; RLS still limits each
+-- subscriber to rows they can select.
+--
+-- Date: 2025-10-25
+-- =====================================================
+
+DO $$
+DECLARE
+    t TEXT;
+BEGIN
+    FOREACH t IN ARRAY ARRAY['motion_sensor_events', 'inactivity_monitoring', 'switchbot_devices']
+    LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime'
+            AND schemaname = 'public'
+            AND tablename = t
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+        END IF;
+    END LOOP;
+END $$;
+
+-- The timeline loads one patient's events for a day
+CREATE INDEX IF NOT EXISTS idx_motion_events_patient_recorded
+    ON public.motion_sensor_events(patient_id, recorded_at DESC);
+
+-- Migration complete
+SELECT 'Motion timeline realtime enabled' as status;
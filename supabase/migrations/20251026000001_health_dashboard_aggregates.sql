@@ -0,0 +1,135 @@
+-- =====================================================
+-- HEALTH DASHBOARD AGGREGATES
+-- =====================================================
+-- The health dashboard charts daily values from
+-- health_metric_aggregates. update_health_aggregates() only
+-- aggregated value_numeric, so blood pressure and sleep (stored
+-- in value_json) produced empty aggregates, and anomaly_count
+-- was never filled in.
+--
+-- - health_metric_value() extracts the chartable number for a
+--   reading: systolic for blood pressure, duration_minutes for
+--   sleep sessions, value_numeric otherwise.
+-- - Blood pressure aggregates keep diastolic min/max/avg in
+--   distribution->'diastolic'.
+-- - anomaly_count counts readings flagged is_anomaly.
+-- - Existing aggregates are rebuilt.
+-- - Caregivers need can_view_health_data to see sync status,
+--   matching the other health tables.
+--
+-- Date: 2025-10-26
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.health_metric_value(
+  p_metric_type TEXT,
+  p_value_numeric DECIMAL,
+  p_value_json JSONB
+)
+RETURNS DECIMAL AS $$
+  SELECT CASE p_metric_type
+    WHEN 'blood_pressure' THEN (p_value_json->>'systolic')::DECIMAL
+    WHEN 'sleep_session' THEN COALESCE(p_value_numeric, (p_value_json->>'duration_minutes')::DECIMAL)
+    ELSE p_value_numeric
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+COMMENT ON FUNCTION public.health_metric_value IS 'Chartable value of a health reading: systolic for blood pressure, minutes for sleep, value_numeric otherwise';
+
+-- Upsert the daily aggregate for one patient, metric and day
+CREATE OR REPLACE FUNCTION public.refresh_daily_health_aggregate(
+  p_patient_id UUID,
+  p_metric_type TEXT,
+  p_date DATE
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO public.health_metric_aggregates (
+    patient_id,
+    metric_type,
+    aggregation_period,
+    period_start,
+    period_end,
+    count,
+    min_value,
+    max_value,
+    avg_value,
+    sum_value,
+    distribution,
+    anomaly_count
+  )
+  SELECT
+    p_patient_id,
+    p_metric_type,
+    'daily',
+    p_date::TIMESTAMPTZ,
+    p_date::TIMESTAMPTZ + INTERVAL '1 day',
+    COUNT(*),
+    MIN(public.health_metric_value(metric_type, value_numeric, value_json)),
+    MAX(public.health_metric_value(metric_type, value_numeric, value_json)),
+    AVG(public.health_metric_value(metric_type, value_numeric, value_json)),
+    SUM(public.health_metric_value(metric_type, value_numeric, value_json)),
+    CASE WHEN p_metric_type = 'blood_pressure' THEN
+      jsonb_build_object('diastolic', jsonb_build_object(
+        'min', MIN((value_json->>'diastolic')::DECIMAL),
+        'max', MAX((value_json->>'diastolic')::DECIMAL),
+        'avg', ROUND(AVG((value_json->>'diastolic')::DECIMAL), 2)
+      ))
+    END,
+    COUNT(*) FILTER (WHERE is_anomaly)
+  FROM public.health_metrics
+  WHERE patient_id = p_patient_id
+  AND metric_type = p_metric_type
+  AND recorded_date = p_date
+  HAVING COUNT(*) > 0
+  ON CONFLICT (patient_id, metric_type, aggregation_period, period_start)
+  DO UPDATE SET
+    count = EXCLUDED.count,
+    min_value = EXCLUDED.min_value,
+    max_value = EXCLUDED.max_value,
+    avg_value = EXCLUDED.avg_value,
+    sum_value = EXCLUDED.sum_value,
+    distribution = EXCLUDED.distribution,
+    anomaly_count = EXCLUDED.anomaly_count,
+    updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION update_health_aggregates()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.refresh_daily_health_aggregate(NEW.patient_id, NEW.metric_type, NEW.recorded_date);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuild existing daily aggregates
+DO $$
+DECLARE
+  r RECORD;
+BEGIN
+  FOR r IN
+    SELECT DISTINCT patient_id, metric_type, recorded_date
+    FROM public.health_metrics
+  LOOP
+    PERFORM public.refresh_daily_health_aggregate(r.patient_id, r.metric_type, r.recorded_date);
+  END LOOP;
+END $$;
+
+-- Caregiver access to sync status follows can_view_health_data
+DROP POLICY IF EXISTS "Caregivers can view their patients' sync status" ON public.health_sync_status;
+
+CREATE POLICY "Caregivers can view their patients' sync status"
+  ON public.health_sync_status FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.care_relationships
+      WHERE patient_id = health_sync_status.patient_id
+      AND caregiver_id = auth.uid()
+      AND status = 'active'
+      AND can_view_health_data = true
+    )
+  );
+
+-- Migration complete
+SELECT 'Health aggregates cover blood pressure, sleep and anomalies' as status;
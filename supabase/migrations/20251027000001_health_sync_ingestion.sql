@@ -0,0 +1,137 @@
+-- =====================================================
+-- HEALTH SYNC INGESTION
+-- =====================================================
+-- Support for the health-sync Edge Function, which stores
+-- batches of Health Connect / wearable readings.
+--
+-- - health_connect_id is unique per patient, so a record synced
+--   twice (or by two devices) is stored once.
+-- - Readings are classified on insert with detect_health_anomaly(),
+--   which nothing called before, so is_anomaly / anomaly_reason
+--   are filled in for synced data.
+-- - create_health_alert() ran BEFORE INSERT and inserted an alert
+--   referencing the reading's id before the reading existed,
+--   which violated alerts.health_metric_id's foreign key. It now
+--   runs AFTER INSERT / UPDATE and marks alert_generated itself.
+--   Severity comes from the anomaly reason ("critically ...").
+--
+-- Date: 2025-10-27
+-- =====================================================
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_health_metrics_patient_connect_id
+  ON public.health_metrics(patient_id, health_connect_id)
+  WHERE health_connect_id IS NOT NULL;
+
+-- Flag anomalies on insert unless the caller already classified the reading
+CREATE OR REPLACE FUNCTION public.classify_health_anomaly()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_result RECORD;
+BEGIN
+  SELECT * INTO v_result
+  FROM detect_health_anomaly(NEW.patient_id, NEW.metric_type, NEW.value_numeric, NEW.value_json)
+  LIMIT 1;
+
+  IF v_result.is_anomaly THEN
+    NEW.is_anomaly := true;
+    NEW.anomaly_reason := v_result.reason;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS classify_health_anomaly ON public.health_metrics;
+CREATE TRIGGER classify_health_anomaly
+  BEFORE INSERT ON public.health_metrics
+  FOR EACH ROW
+  WHEN (NEW.is_anomaly IS NOT TRUE AND NEW.anomaly_reason IS NULL)
+  EXECUTE FUNCTION public.classify_health_anomaly();
+
+CREATE OR REPLACE FUNCTION create_health_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_alert_type TEXT;
+  v_alert_message TEXT;
+  v_caregivers UUID[];
+BEGIN
+  -- Only proceed if anomaly detected
+  IF NOT NEW.is_anomaly THEN
+    RETURN NEW;
+  END IF;
+
+  -- Map metric type to alert type
+  CASE NEW.metric_type
+    WHEN 'blood_pressure' THEN
+      v_alert_type := 'high_blood_pressure';
+      v_alert_message := format('Blood pressure reading: %s/%s mmHg',
+        NEW.value_json->>'systolic', NEW.value_json->>'diastolic');
+    WHEN 'heart_rate' THEN
+      v_alert_type := CASE
+        WHEN NEW.value_numeric > 100 THEN 'high_heart_rate'
+        ELSE 'low_heart_rate'
+      END;
+      v_alert_message := format('Heart rate: %s bpm', NEW.value_numeric);
+    WHEN 'oxygen_saturation' THEN
+      v_alert_type := 'low_oxygen_saturation';
+      v_alert_message := format('Oxygen saturation: %s%%', NEW.value_numeric);
+    WHEN 'blood_glucose' THEN
+      v_alert_type := CASE
+        WHEN NEW.value_numeric > 180 THEN 'high_blood_glucose'
+        ELSE 'low_blood_glucose'
+      END;
+      v_alert_message := format('Blood glucose: %s mg/dL', NEW.value_numeric);
+    ELSE
+      v_alert_type := 'health_concern';
+      v_alert_message := format('%s anomaly detected', NEW.metric_type);
+  END CASE;
+
+  -- Get list of caregivers to notify
+  SELECT ARRAY_AGG(caregiver_id)
+  INTO v_caregivers
+  FROM public.care_relationships
+  WHERE patient_id = NEW.patient_id
+  AND status = 'active'
+  AND can_receive_alerts = true;
+
+  -- Insert alert
+  INSERT INTO public.alerts (
+    patient_id,
+    alert_type,
+    severity,
+    alert_message,
+    alert_details,
+    health_metric_id,
+    notified_caregivers
+  ) VALUES (
+    NEW.patient_id,
+    v_alert_type,
+    CASE WHEN NEW.anomaly_reason ILIKE '%critically%' THEN 'critical' ELSE 'high' END,
+    v_alert_message,
+    jsonb_build_object(
+      'metric_type', NEW.metric_type,
+      'recorded_at', NEW.recorded_at,
+      'anomaly_reason', NEW.anomaly_reason,
+      'value', COALESCE(NEW.value_json, to_jsonb(NEW.value_numeric))
+    ),
+    NEW.id,
+    v_caregivers
+  );
+
+  -- Mark alert as generated (the trigger's WHEN clause stops it re-firing)
+  UPDATE public.health_metrics
+  SET alert_generated = true
+  WHERE id = NEW.id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS create_alert_on_health_anomaly ON public.health_metrics;
+CREATE TRIGGER create_alert_on_health_anomaly
+  AFTER INSERT OR UPDATE ON public.health_metrics
+  FOR EACH ROW
+  WHEN (NEW.is_anomaly = true AND NEW.alert_generated = false)
+  EXECUTE FUNCTION create_health_alert();
+
+COMMENT ON COLUMN public.health_metrics.health_connect_id IS 'Original Health Connect (or importer) record ID, unique per patient';
@@ -0,0 +1,67 @@
+-- =====================================================
+-- CAREGIVER REMINDER DELIVERY
+-- =====================================================
+-- Reminder notes (is_reminder = true) are delivered to the
+-- senior by the dispatch-reminders Edge Function at
+-- reminder_date / reminder_time in the patient's timezone.
+--
+-- - reminder_channel picks WhatsApp, email or a Parra chat turn
+-- - reminder_sent_at / reminder_attempts / reminder_error record
+--   delivery; reminder_sent was already on the table
+-- - reminder_acknowledged(_at) is set when the senior replies on
+--   WhatsApp or confirms in chat
+--
+-- Date: 2025-10-28
+-- =====================================================
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_channel TEXT
+  CHECK (reminder_channel IN ('whatsapp', 'email', 'chat'));
+
+-- Notes written before reminders were delivered stay inside Parra:
+-- nobody chose WhatsApp for them, and Parra's own follow-ups
+-- (schedule_follow_up) are chat turns
+UPDATE public.caregiver_notes
+SET reminder_channel = 'chat'
+WHERE reminder_channel IS NULL;
+
+-- New caregiver reminders go out on WhatsApp unless they pick another channel
+ALTER TABLE public.caregiver_notes
+ALTER COLUMN reminder_channel SET DEFAULT 'whatsapp';
+
+ALTER TABLE public.caregiver_notes
+ALTER COLUMN reminder_channel SET NOT NULL;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_sent_at TIMESTAMPTZ;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_attempts INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_error TEXT;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_acknowledged BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.caregiver_notes
+ADD COLUMN IF NOT EXISTS reminder_acknowledged_at TIMESTAMPTZ;
+
+-- Reminders still waiting to be sent, in the order the dispatcher reads them
+CREATE INDEX IF NOT EXISTS idx_caregiver_notes_reminder_pending
+  ON public.caregiver_notes(reminder_date, reminder_time)
+  WHERE is_reminder = true AND reminder_sent = false;
+
+-- Sent reminders waiting for the senior to acknowledge them
+CREATE INDEX IF NOT EXISTS idx_caregiver_notes_reminder_unacknowledged
+  ON public.caregiver_notes(patient_id, reminder_sent_at DESC)
+  WHERE is_reminder = true AND reminder_sent = true AND reminder_acknowledged = false;
+
+COMMENT ON COLUMN public.caregiver_notes.reminder_channel IS 'How the reminder reaches the senior: whatsapp, email or chat (next Parra conversation)';
+COMMENT ON COLUMN public.caregiver_notes.reminder_sent_at IS 'When dispatch-reminders delivered the reminder';
+COMMENT ON COLUMN public.caregiver_notes.reminder_attempts IS 'Delivery attempts made by dispatch-reminders';
+COMMENT ON COLUMN public.caregiver_notes.reminder_error IS 'Why the last delivery attempt failed';
+COMMENT ON COLUMN public.caregiver_notes.reminder_acknowledged IS 'Senior confirmed the reminder (WhatsApp reply or in chat)';
+
+-- Migration complete
+SELECT 'Caregiver reminders can now be delivered' as status;
@@ -0,0 +1,181 @@
+-- =====================================================
+-- MEDICATION SCHEDULES & ADHERENCE
+-- =====================================================
+-- Per-patient medication schedules (name, dose, daily times)
+-- and a record of each scheduled dose that was taken, skipped
+-- or missed.
+--
+-- - Caregivers with can_modify_settings manage schedules;
+--   patients and their care team can view them.
+-- - Doses are confirmed from senior-chat (log_medication_taken),
+--   WhatsApp replies or the senior dashboard. Times are the
+--   patient's local time (profiles.timezone).
+-- - check-medication-doses marks doses not confirmed within the
+--   medication's grace_minutes as missed and raises a
+--   medication_missed alert.
+--
+-- Date: 2025-10-29
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE MEDICATIONS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.medications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  -- What to take
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 200),
+  dose TEXT CHECK (dose IS NULL OR char_length(dose) <= 100),
+  instructions TEXT CHECK (instructions IS NULL OR char_length(instructions) <= 500),
+
+  -- When to take it (patient's local time)
+  dose_times TIME[] NOT NULL CHECK (cardinality(dose_times) BETWEEN 1 AND 8),
+  grace_minutes INTEGER NOT NULL DEFAULT 60 CHECK (grace_minutes BETWEEN 15 AND 720),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_medications_patient ON public.medications(patient_id);
+CREATE INDEX IF NOT EXISTS idx_medications_active ON public.medications(patient_id) WHERE is_active = true;
+
+-- =====================================================
+-- 2. CREATE MEDICATION_DOSES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.medication_doses (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  medication_id UUID REFERENCES public.medications(id) ON DELETE CASCADE NOT NULL,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  -- The scheduled dose (patient's local date and time)
+  scheduled_date DATE NOT NULL,
+  scheduled_time TIME NOT NULL,
+
+  status TEXT NOT NULL CHECK (status IN ('taken', 'skipped', 'missed')),
+  taken_at TIMESTAMPTZ,
+  confirmed_via TEXT CHECK (confirmed_via IN ('chat', 'whatsapp', 'app', 'caregiver')),
+  confirmed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  -- medication_missed alert raised for this dose
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT medication_doses_unique_dose UNIQUE (medication_id, scheduled_date, scheduled_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_medication_doses_patient_date
+  ON public.medication_doses(patient_id, scheduled_date DESC);
+
+-- =====================================================
+-- 3. RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.medications ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.medication_doses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "medications_select_authorized"
+  ON public.medications FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.has_active_care_relationship(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "medications_insert_settings_managers"
+  ON public.medications FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "medications_update_settings_managers"
+  ON public.medications FOR UPDATE
+  TO authenticated
+  USING (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  )
+  WITH CHECK (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "medications_delete_settings_managers"
+  ON public.medications FOR DELETE
+  TO authenticated
+  USING (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "medication_doses_select_authorized"
+  ON public.medication_doses FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.has_active_care_relationship(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- Patients confirm their own doses; caregivers who manage settings can correct them
+CREATE POLICY "medication_doses_insert_patient_or_manager"
+  ON public.medication_doses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() = patient_id
+    OR public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "medication_doses_update_patient_or_manager"
+  ON public.medication_doses FOR UPDATE
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  )
+  WITH CHECK (
+    auth.uid() = patient_id
+    OR public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER set_medications_updated_at
+  BEFORE UPDATE ON public.medications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_medication_doses_updated_at
+  BEFORE UPDATE ON public.medication_doses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 5. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.medications IS 'Medication schedules: what a patient takes and at which local times';
+COMMENT ON COLUMN public.medications.dose_times IS 'Daily dose times in the patient''s timezone';
+COMMENT ON COLUMN public.medications.grace_minutes IS 'Minutes after a dose time before it is marked missed and caregivers are alerted';
+COMMENT ON TABLE public.medication_doses IS 'Outcome of each scheduled dose; doses without a row are not yet due or still within their grace window';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.medications TO authenticated;
+GRANT SELECT, INSERT, UPDATE ON public.medication_doses TO authenticated;
+
+-- Migration complete
+SELECT 'Medication schedules and dose tracking created successfully' as status;
@@ -0,0 +1,164 @@
+-- =====================================================
+-- SCHEDULED PROACTIVE CHECK-INS
+-- =====================================================
+-- Per-patient check-in times at which Parra opens the
+-- conversation itself, and a log of each scheduled check-in.
+--
+-- - Caregivers with can_modify_settings manage schedules;
+--   patients and their care team can view them.
+-- - dispatch-checkins sends the opening message at the local
+--   time (profiles.timezone) over WhatsApp, or queues it in the
+--   app for the senior's next Parra chat. A check-in within 3
+--   hours of the last conversation is skipped.
+-- - Any message from the senior answers the check-in; without
+--   one inside response_window_minutes it is marked missed and
+--   a missed_checkin alert is raised.
+--
+-- Date: 2025-10-30
+-- =====================================================
+
+-- =====================================================
+-- 1. CREATE CHECKIN_SCHEDULES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.checkin_schedules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  -- Patient's local time
+  check_in_time TIME NOT NULL,
+  channel TEXT NOT NULL DEFAULT 'whatsapp' CHECK (channel IN ('whatsapp', 'app')),
+  response_window_minutes INTEGER NOT NULL DEFAULT 60 CHECK (response_window_minutes BETWEEN 15 AND 240),
+
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT checkin_schedules_unique_time UNIQUE (patient_id, check_in_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_checkin_schedules_active
+  ON public.checkin_schedules(patient_id) WHERE is_active = true;
+
+-- =====================================================
+-- 2. CREATE SCHEDULED_CHECKINS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_checkins (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID REFERENCES public.checkin_schedules(id) ON DELETE CASCADE NOT NULL,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  -- The scheduled slot (patient's local date and time)
+  scheduled_date DATE NOT NULL,
+  scheduled_time TIME NOT NULL,
+
+  status TEXT NOT NULL CHECK (status IN ('sent', 'answered', 'missed', 'skipped', 'failed')),
+  channel TEXT NOT NULL CHECK (channel IN ('whatsapp', 'app')),
+  message TEXT,
+  sent_at TIMESTAMPTZ,
+  respond_by TIMESTAMPTZ,
+  answered_at TIMESTAMPTZ,
+  -- Why a check-in was skipped or failed
+  status_reason TEXT,
+
+  check_in_id UUID REFERENCES public.check_ins(id) ON DELETE SET NULL,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT scheduled_checkins_unique_slot UNIQUE (schedule_id, scheduled_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_checkins_patient
+  ON public.scheduled_checkins(patient_id, created_at DESC);
+
+-- Check-ins waiting for an answer
+CREATE INDEX IF NOT EXISTS idx_scheduled_checkins_open
+  ON public.scheduled_checkins(respond_by) WHERE status = 'sent';
+
+-- =====================================================
+-- 3. RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.checkin_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.scheduled_checkins ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "checkin_schedules_select_authorized"
+  ON public.checkin_schedules FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.has_active_care_relationship(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "checkin_schedules_insert_settings_managers"
+  ON public.checkin_schedules FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "checkin_schedules_update_settings_managers"
+  ON public.checkin_schedules FOR UPDATE
+  TO authenticated
+  USING (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  )
+  WITH CHECK (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+CREATE POLICY "checkin_schedules_delete_settings_managers"
+  ON public.checkin_schedules FOR DELETE
+  TO authenticated
+  USING (
+    public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- Written only by edge functions (service role)
+CREATE POLICY "scheduled_checkins_select_authorized"
+  ON public.scheduled_checkins FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.has_active_care_relationship(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER set_checkin_schedules_updated_at
+  BEFORE UPDATE ON public.checkin_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER set_scheduled_checkins_updated_at
+  BEFORE UPDATE ON public.scheduled_checkins
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 5. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.checkin_schedules IS 'Local times at which Parra starts a check-in with the patient';
+COMMENT ON COLUMN public.checkin_schedules.channel IS 'whatsapp: message sent through Evolution API; app: greeting waiting in Parra chat';
+COMMENT ON COLUMN public.checkin_schedules.response_window_minutes IS 'Minutes to answer before the check-in is missed and caregivers are alerted';
+COMMENT ON TABLE public.scheduled_checkins IS 'One row per scheduled check-in slot: sent, answered, missed, skipped (too close to another conversation) or failed';
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON public.checkin_schedules TO authenticated;
+GRANT SELECT ON public.scheduled_checkins TO authenticated;
+
+-- Migration complete
+SELECT 'Scheduled check-ins created successfully' as status;
@@ -0,0 +1,92 @@
+-- =====================================================
+-- ADD CARE CIRCLE MEMBER
+-- =====================================================
+-- Lets the caregiver overview add a family member to a
+-- patient's care circle as a pending care relationship.
+--
+-- - care_relationships INSERT is limited to the patient and
+--   admins by RLS, and profiles by email are not visible to
+--   caregivers, so this goes through a SECURITY DEFINER
+--   function.
+-- - Callers must be the patient, an admin, or a caregiver
+--   with can_modify_settings for the patient.
+-- - The member needs an existing account. The relationship
+--   stays pending (no access) until the member accepts it.
+--
+-- Date: 2025-10-31
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.add_care_circle_member(
+  p_patient_id uuid,
+  p_email text,
+  p_relationship_label text DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_member_id uuid;
+  v_relationship_id uuid;
+BEGIN
+  IF p_email IS NULL OR trim(p_email) = '' THEN
+    RAISE EXCEPTION 'Email is required';
+  END IF;
+
+  IF NOT (
+    auth.uid() = p_patient_id
+    OR public.is_admin(auth.uid())
+    OR public.can_modify_patient_settings(auth.uid(), p_patient_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to add members to this care circle'
+      USING ERRCODE = '42501';
+  END IF;
+
+  SELECT id INTO v_member_id
+  FROM public.profiles
+  WHERE lower(email) = lower(trim(p_email));
+
+  IF v_member_id IS NULL THEN
+    RAISE EXCEPTION 'No Parra account uses this email'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_member_id = p_patient_id THEN
+    RAISE EXCEPTION 'A patient cannot be added to their own care circle';
+  END IF;
+
+  INSERT INTO public.care_relationships (
+    patient_id,
+    caregiver_id,
+    relationship_type,
+    relationship_label,
+    can_view_health_data,
+    can_receive_alerts,
+    can_modify_settings,
+    status,
+    invited_at
+  )
+  VALUES (
+    p_patient_id,
+    v_member_id,
+    'family_member',
+    NULLIF(trim(p_relationship_label), ''),
+    true,
+    true,
+    false,
+    'pending',
+    NOW()
+  )
+  RETURNING id INTO v_relationship_id;
+
+  RETURN v_relationship_id;
+END;
+$$;
+
+COMMENT ON FUNCTION public.add_care_circle_member IS 'Add a family member (by account email) to a patient care circle as a pending relationship';
+
+GRANT EXECUTE ON FUNCTION public.add_care_circle_member TO authenticated;
+
+-- Migration complete
+SELECT 'add_care_circle_member created successfully' as status;
@@ -0,0 +1,165 @@
+-- =====================================================
+-- CARE CIRCLE INVITATIONS
+-- =====================================================
+-- Invitations to join a patient's care circle, sent by email
+-- or WhatsApp with a signed link that expires after 7 days.
+--
+-- - The patient or their primary caregiver (or an admin)
+--   invites someone and chooses the permissions they get.
+-- - send-care-invitation creates the row and sends the link;
+--   accept-care-invitation checks the signed token, links or
+--   creates the invitee's account and activates the care
+--   relationship with the invitation's permissions.
+-- - Pending invitations can be revoked with
+--   revoke_care_invitation().
+-- - Invitations live in their own table rather than as pending
+--   care_relationships rows (invitation_token): caregiver_id is
+--   NOT NULL there, and most invitees don't have an account
+--   until they accept.
+--
+-- Date: 2025-11-01
+-- =====================================================
+
+-- =====================================================
+-- 1. HELPER FUNCTION
+-- =====================================================
+
+-- Patients, their active primary caregivers and admins manage the care circle
+CREATE OR REPLACE FUNCTION public.can_manage_care_circle(user_id UUID, patient_user_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN user_id = patient_user_id
+    OR public.is_admin(user_id)
+    OR EXISTS (
+      SELECT 1 FROM public.care_relationships
+      WHERE caregiver_id = user_id
+      AND patient_id = patient_user_id
+      AND status = 'active'
+      AND relationship_type = 'primary_caregiver'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER STABLE;
+
+COMMENT ON FUNCTION public.can_manage_care_circle IS 'Check if a user can invite to and revoke invitations for a patient care circle';
+
+-- =====================================================
+-- 2. CREATE CARE_INVITATIONS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.care_invitations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  invited_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  -- Where the invitation link was sent
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  invitee_email TEXT,
+  invitee_phone TEXT,
+
+  -- Relationship created on acceptance
+  relationship_type TEXT NOT NULL DEFAULT 'family_member'
+    CHECK (relationship_type IN ('primary_caregiver', 'family_member', 'healthcare_provider', 'friend', 'other')),
+  relationship_label TEXT CHECK (char_length(relationship_label) <= 50),
+  can_view_health_data BOOLEAN NOT NULL DEFAULT true,
+  can_receive_alerts BOOLEAN NOT NULL DEFAULT true,
+  can_modify_settings BOOLEAN NOT NULL DEFAULT false,
+
+  -- Lifecycle (a pending invitation past expires_at is expired)
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  accepted_at TIMESTAMPTZ,
+  relationship_id UUID REFERENCES public.care_relationships(id) ON DELETE SET NULL,
+  revoked_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  revoked_at TIMESTAMPTZ,
+
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+
+  CONSTRAINT care_invitations_contact CHECK (
+    (channel = 'email' AND invitee_email IS NOT NULL)
+    OR (channel = 'whatsapp' AND invitee_phone IS NOT NULL)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_care_invitations_patient
+  ON public.care_invitations(patient_id, created_at DESC);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY
+-- =====================================================
+-- Rows are created and accepted by the edge functions with
+-- the service role; revoking goes through
+-- revoke_care_invitation().
+
+ALTER TABLE public.care_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "care_invitations_select_managers"
+  ON public.care_invitations
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = invited_by
+    OR public.can_manage_care_circle(auth.uid(), patient_id)
+  );
+
+-- =====================================================
+-- 4. REVOKE FUNCTION
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.revoke_care_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation public.care_invitations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM public.care_invitations
+  WHERE id = p_invitation_id;
+
+  IF v_invitation.id IS NULL THEN
+    RAISE EXCEPTION 'Invitation not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT (
+    auth.uid() = v_invitation.invited_by
+    OR public.can_manage_care_circle(auth.uid(), v_invitation.patient_id)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to revoke this invitation'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_invitation.status <> 'pending' THEN
+    RAISE EXCEPTION 'Only pending invitations can be revoked';
+  END IF;
+
+  UPDATE public.care_invitations
+  SET status = 'revoked',
+      revoked_by = auth.uid(),
+      revoked_at = NOW()
+  WHERE id = p_invitation_id;
+END;
+$$;
+
+-- =====================================================
+-- 5. TRIGGERS, COMMENTS & GRANTS
+-- =====================================================
+
+CREATE TRIGGER set_care_invitations_updated_at
+  BEFORE UPDATE ON public.care_invitations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+COMMENT ON TABLE public.care_invitations IS 'Invitations to join a patient care circle, accepted through a signed expiring link';
+COMMENT ON COLUMN public.care_invitations.expires_at IS 'Also signed into the invitation token; a pending invitation past this time is expired';
+COMMENT ON FUNCTION public.revoke_care_invitation IS 'Revoke a pending care circle invitation';
+
+GRANT SELECT ON public.care_invitations TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_care_invitation TO authenticated;
+
+-- Migration complete
+SELECT 'Care circle invitations created successfully' as status;
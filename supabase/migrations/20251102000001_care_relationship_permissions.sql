@@ -0,0 +1,303 @@
+-- =====================================================
+-- CARE RELATIONSHIP PERMISSIONS
+-- =====================================================
+-- Enforces the three care_relationships permission flags
+-- consistently and makes every change to them auditable:
+--
+-- - can_view_health_data: required to read summaries, dose
+--   and check-in history, voice check-ins, memories and
+--   inactivity monitoring (check_ins, health metrics and
+--   motion data already required it)
+-- - can_receive_alerts: already required for alerts; caregiver
+--   notifications now honour it too (send-whatsapp-notification)
+-- - can_modify_settings: required to delete memories (other
+--   settings tables already required it); also enough to see
+--   the medication and check-in schedules it lets you change
+--
+-- Permissions and relationship_type can only be changed by
+-- the patient, their active primary caregiver or an admin
+-- (previously a caregiver could update their own flags), and
+-- never by a primary caregiver on their own relationship.
+-- get_care_circle_members() and update_care_permissions()
+-- back the permission editor, so primary caregivers can see
+-- and edit the other relationships, which RLS doesn't allow
+-- directly.
+-- Every change is written to activity_log.
+--
+-- Date: 2025-11-02
+-- =====================================================
+
+-- =====================================================
+-- 1. GUARD PERMISSION CHANGES
+-- =====================================================
+-- The service role (auth.uid() IS NULL) is not restricted:
+-- accept-care-invitation sets the permissions chosen by
+-- the inviter.
+
+CREATE OR REPLACE FUNCTION public.guard_care_relationship_permissions()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL
+    OR (
+      NEW.can_view_health_data IS NOT DISTINCT FROM OLD.can_view_health_data
+      AND NEW.can_receive_alerts IS NOT DISTINCT FROM OLD.can_receive_alerts
+      AND NEW.can_modify_settings IS NOT DISTINCT FROM OLD.can_modify_settings
+      AND NEW.relationship_type IS NOT DISTINCT FROM OLD.relationship_type
+    ) THEN
+    RETURN NEW;
+  END IF;
+
+  IF auth.uid() = OLD.caregiver_id
+    AND auth.uid() <> OLD.patient_id
+    AND NOT public.is_admin(auth.uid()) THEN
+    RAISE EXCEPTION 'Caregivers cannot change their own permissions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT public.can_manage_care_circle(auth.uid(), OLD.patient_id) THEN
+    RAISE EXCEPTION 'Not allowed to change permissions for this care circle'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER guard_care_relationship_permissions
+  BEFORE UPDATE ON public.care_relationships
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_care_relationship_permissions();
+
+-- =====================================================
+-- 2. LOG PERMISSION CHANGES
+-- =====================================================
+-- One settings_changed entry per update, attributed to the
+-- user who made it (NULL for the service role), with the
+-- old and new value of each changed flag.
+
+CREATE OR REPLACE FUNCTION public.log_care_permission_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_changes JSONB := '{}'::jsonb;
+BEGIN
+  IF NEW.can_view_health_data IS DISTINCT FROM OLD.can_view_health_data THEN
+    v_changes := v_changes || jsonb_build_object('can_view_health_data',
+      jsonb_build_object('from', OLD.can_view_health_data, 'to', NEW.can_view_health_data));
+  END IF;
+  IF NEW.can_receive_alerts IS DISTINCT FROM OLD.can_receive_alerts THEN
+    v_changes := v_changes || jsonb_build_object('can_receive_alerts',
+      jsonb_build_object('from', OLD.can_receive_alerts, 'to', NEW.can_receive_alerts));
+  END IF;
+  IF NEW.can_modify_settings IS DISTINCT FROM OLD.can_modify_settings THEN
+    v_changes := v_changes || jsonb_build_object('can_modify_settings',
+      jsonb_build_object('from', OLD.can_modify_settings, 'to', NEW.can_modify_settings));
+  END IF;
+  IF NEW.relationship_type IS DISTINCT FROM OLD.relationship_type THEN
+    v_changes := v_changes || jsonb_build_object('relationship_type',
+      jsonb_build_object('from', OLD.relationship_type, 'to', NEW.relationship_type));
+  END IF;
+
+  IF v_changes = '{}'::jsonb THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.activity_log (user_id, activity_type, activity_description, activity_metadata)
+  VALUES (
+    auth.uid(),
+    'settings_changed',
+    'Care relationship permissions changed',
+    jsonb_build_object(
+      'relationship_id', NEW.id,
+      'patient_id', NEW.patient_id,
+      'caregiver_id', NEW.caregiver_id,
+      'changes', v_changes
+    )
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_care_permission_change
+  AFTER UPDATE ON public.care_relationships
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_care_permission_change();
+
+-- =====================================================
+-- 3. PERMISSION EDITOR FUNCTIONS
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.update_care_permissions(
+  p_relationship_id uuid,
+  p_can_view_health_data boolean,
+  p_can_receive_alerts boolean,
+  p_can_modify_settings boolean
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_relationship public.care_relationships%ROWTYPE;
+BEGIN
+  SELECT * INTO v_relationship
+  FROM public.care_relationships
+  WHERE id = p_relationship_id;
+
+  IF v_relationship.id IS NULL THEN
+    RAISE EXCEPTION 'Care relationship not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Checked again by guard_care_relationship_permissions
+  IF NOT public.can_manage_care_circle(auth.uid(), v_relationship.patient_id)
+    OR (auth.uid() = v_relationship.caregiver_id AND NOT public.is_admin(auth.uid())) THEN
+    RAISE EXCEPTION 'Not allowed to change these permissions'
+      USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.care_relationships
+  SET can_view_health_data = p_can_view_health_data,
+      can_receive_alerts = p_can_receive_alerts,
+      can_modify_settings = p_can_modify_settings
+  WHERE id = p_relationship_id;
+END;
+$$;
+
+-- Members of a care circle for the permission editor. Profiles
+-- of other caregivers aren't readable through RLS.
+CREATE OR REPLACE FUNCTION public.get_care_circle_members(p_patient_id uuid)
+RETURNS TABLE (
+  relationship_id uuid,
+  caregiver_id uuid,
+  caregiver_name text,
+  caregiver_email text,
+  relationship_type text,
+  relationship_label text,
+  status text,
+  can_view_health_data boolean,
+  can_receive_alerts boolean,
+  can_modify_settings boolean
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.can_manage_care_circle(auth.uid(), p_patient_id) THEN
+    RAISE EXCEPTION 'Not allowed to view this care circle'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    cr.id,
+    cr.caregiver_id,
+    COALESCE(p.display_name, p.full_name),
+    p.email,
+    cr.relationship_type,
+    cr.relationship_label,
+    cr.status,
+    COALESCE(cr.can_view_health_data, false),
+    COALESCE(cr.can_receive_alerts, false),
+    COALESCE(cr.can_modify_settings, false)
+  FROM public.care_relationships cr
+  JOIN public.profiles p ON p.id = cr.caregiver_id
+  WHERE cr.patient_id = p_patient_id
+    AND cr.status IN ('active', 'pending')
+  ORDER BY cr.relationship_type = 'primary_caregiver' DESC, cr.created_at;
+END;
+$$;
+
+-- =====================================================
+-- 4. HEALTH DATA POLICIES
+-- =====================================================
+
+DROP POLICY IF EXISTS "daily_summaries_select_patient_caregiver_admin" ON public.daily_summaries;
+CREATE POLICY "daily_summaries_select_patient_caregiver_admin"
+  ON public.daily_summaries
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_view_patient_health_data(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- Caregivers who manage medications still see the list they manage
+DROP POLICY IF EXISTS "medications_select_authorized" ON public.medications;
+CREATE POLICY "medications_select_authorized"
+  ON public.medications
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_view_patient_health_data(auth.uid(), patient_id)
+    OR public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "medication_doses_select_authorized" ON public.medication_doses;
+CREATE POLICY "medication_doses_select_authorized"
+  ON public.medication_doses
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_view_patient_health_data(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- Likewise for the check-in schedule
+DROP POLICY IF EXISTS "scheduled_checkins_select_authorized" ON public.scheduled_checkins;
+CREATE POLICY "scheduled_checkins_select_authorized"
+  ON public.scheduled_checkins
+  FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_view_patient_health_data(auth.uid(), patient_id)
+    OR public.can_modify_patient_settings(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Caregivers can view patient voice check-ins" ON public.voice_checkins;
+CREATE POLICY "Caregivers can view patient voice check-ins"
+  ON public.voice_checkins
+  FOR SELECT
+  USING (public.can_view_patient_health_data(auth.uid(), patient_id));
+
+DROP POLICY IF EXISTS "Caregivers can view inactivity monitoring of their patients" ON public.inactivity_monitoring;
+CREATE POLICY "Caregivers can view inactivity monitoring of their patients"
+  ON public.inactivity_monitoring
+  FOR SELECT
+  USING (public.can_view_patient_health_data(auth.uid(), patient_id));
+
+DROP POLICY IF EXISTS "Caregivers can view patient memories" ON public.patient_memories;
+CREATE POLICY "Caregivers can view patient memories"
+  ON public.patient_memories
+  FOR SELECT
+  USING (public.can_view_patient_health_data(auth.uid(), patient_id));
+
+DROP POLICY IF EXISTS "Caregivers can delete patient memories" ON public.patient_memories;
+CREATE POLICY "Caregivers can delete patient memories"
+  ON public.patient_memories
+  FOR DELETE
+  USING (public.can_modify_patient_settings(auth.uid(), patient_id));
+
+-- =====================================================
+-- 5. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON FUNCTION public.guard_care_relationship_permissions IS 'Only care circle managers may change care relationship permissions, and not their own';
+COMMENT ON FUNCTION public.log_care_permission_change IS 'Write care relationship permission changes to activity_log';
+COMMENT ON FUNCTION public.update_care_permissions IS 'Change the permissions of a care relationship (patient, primary caregiver or admin)';
+COMMENT ON FUNCTION public.get_care_circle_members IS 'Active and pending members of a care circle with their permissions';
+
+GRANT EXECUTE ON FUNCTION public.update_care_permissions TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_care_circle_members TO authenticated;
+
+-- Migration complete
+SELECT 'Care relationship permissions enforced successfully' as status;
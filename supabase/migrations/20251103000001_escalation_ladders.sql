@@ -0,0 +1,356 @@
+-- =====================================================
+-- ALERT ESCALATION LADDERS
+-- =====================================================
+-- An ordered, per-patient escalation ladder for alerts, and
+-- a record of everyone contacted about each alert.
+--
+-- - escalation_steps: who to contact at each step (a care
+--   relationship type, or the emergency contact from
+--   profiles.emergency_contact_phone), how long to wait after
+--   the previous step and which channels to use. Patients
+--   without steps use the default ladder: primary caregiver,
+--   then family members after 10 minutes, then the emergency
+--   contact after another 15.
+-- - send-whatsapp-notification contacts the next step of the
+--   ladder and sets alerts.next_escalation_at;
+--   check-escalation-timers contacts the following steps when
+--   they fall due. Only caregivers with can_receive_alerts are
+--   contacted.
+-- - The ladder stops as soon as the alert is acknowledged,
+--   resolved or marked a false alarm.
+-- - alert_escalations records each contact for the alert
+--   timeline.
+-- - check_inactivity_thresholds() now creates alerts the
+--   alerts table accepts; its escalation alert starts the
+--   ladder.
+--
+-- Date: 2025-11-03
+-- =====================================================
+
+-- =====================================================
+-- 1. EXTEND ALERTS
+-- =====================================================
+
+ALTER TABLE public.alerts
+ADD COLUMN IF NOT EXISTS escalation_step INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_escalation_at TIMESTAMPTZ;
+
+-- Alerts waiting for their next escalation step
+CREATE INDEX IF NOT EXISTS idx_alerts_next_escalation
+  ON public.alerts(next_escalation_at) WHERE next_escalation_at IS NOT NULL;
+
+-- Motion sensor alert types created by check_inactivity_thresholds()
+ALTER TABLE public.alerts
+DROP CONSTRAINT IF EXISTS alerts_alert_type_check;
+
+ALTER TABLE public.alerts
+ADD CONSTRAINT alerts_alert_type_check
+CHECK (alert_type IN (
+  'fall_detected', 'distress_signal', 'missed_checkin', 'medication_missed',
+  'prolonged_inactivity', 'health_concern', 'manual',
+  'high_blood_pressure', 'low_blood_pressure', 'high_heart_rate', 'low_heart_rate',
+  'low_oxygen_saturation', 'high_blood_glucose', 'low_blood_glucose',
+  'insufficient_steps', 'insufficient_sleep', 'rapid_weight_change',
+  'health_sync_failure', 'missing_health_data',
+  'motion_inactivity_detected', 'fall_check_in_needed', 'fall_escalation_required'
+));
+
+-- =====================================================
+-- 2. CREATE ESCALATION_STEPS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.escalation_steps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  step_order INTEGER NOT NULL CHECK (step_order BETWEEN 1 AND 6),
+  target TEXT NOT NULL CHECK (target IN (
+    'primary_caregiver', 'family_member', 'healthcare_provider', 'friend', 'other', 'emergency_contact'
+  )),
+  -- Minutes after the previous step; the first step goes out immediately
+  wait_minutes INTEGER NOT NULL DEFAULT 0 CHECK (wait_minutes BETWEEN 0 AND 240),
+  channels TEXT[] NOT NULL DEFAULT ARRAY['email', 'whatsapp']::TEXT[],
+
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+  CONSTRAINT escalation_steps_unique_order UNIQUE (patient_id, step_order),
+  CONSTRAINT escalation_steps_first_immediate CHECK (step_order > 1 OR wait_minutes = 0),
+  CONSTRAINT escalation_steps_channels CHECK (
+    cardinality(channels) > 0
+    AND channels <@ ARRAY['email', 'whatsapp', 'sms']::TEXT[]
+  ),
+  -- Only a phone number is known for the emergency contact
+  CONSTRAINT escalation_steps_emergency_contact_phone CHECK (
+    target <> 'emergency_contact' OR NOT ('email' = ANY(channels))
+  )
+);
+
+-- =====================================================
+-- 3. CREATE ALERT_ESCALATIONS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.alert_escalations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  alert_id UUID REFERENCES public.alerts(id) ON DELETE CASCADE NOT NULL,
+  patient_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+
+  step_order INTEGER NOT NULL,
+  target TEXT NOT NULL,
+  -- NULL for the emergency contact
+  recipient_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  recipient_name TEXT NOT NULL,
+
+  channels TEXT[] NOT NULL,
+  delivered_channels TEXT[] NOT NULL DEFAULT ARRAY[]::TEXT[],
+  notified_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_alert_escalations_alert
+  ON public.alert_escalations(alert_id, notified_at);
+
+-- =====================================================
+-- 4. RLS POLICIES
+-- =====================================================
+
+ALTER TABLE public.escalation_steps ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.alert_escalations ENABLE ROW LEVEL SECURITY;
+
+-- Changed through save_escalation_ladder()
+CREATE POLICY "escalation_steps_select_authorized"
+  ON public.escalation_steps FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.has_active_care_relationship(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- Written only by edge functions (service role)
+CREATE POLICY "alert_escalations_select_authorized"
+  ON public.alert_escalations FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = patient_id
+    OR public.can_receive_patient_alerts(auth.uid(), patient_id)
+    OR public.is_admin(auth.uid())
+  );
+
+-- =====================================================
+-- 5. FUNCTIONS
+-- =====================================================
+
+-- Replace a patient's ladder; an empty array restores the default ladder
+CREATE OR REPLACE FUNCTION public.save_escalation_ladder(
+  p_patient_id UUID,
+  p_steps JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT (
+    public.can_modify_patient_settings(auth.uid(), p_patient_id)
+    OR public.is_admin(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to change this escalation ladder'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF jsonb_typeof(p_steps) <> 'array' OR jsonb_array_length(p_steps) > 6 THEN
+    RAISE EXCEPTION 'An escalation ladder has at most 6 steps'
+      USING ERRCODE = '22023';
+  END IF;
+
+  DELETE FROM public.escalation_steps WHERE patient_id = p_patient_id;
+
+  INSERT INTO public.escalation_steps (patient_id, step_order, target, wait_minutes, channels, created_by)
+  SELECT
+    p_patient_id,
+    step.ordinality,
+    step.value->>'target',
+    CASE WHEN step.ordinality = 1 THEN 0 ELSE COALESCE((step.value->>'wait_minutes')::INTEGER, 0) END,
+    ARRAY(SELECT jsonb_array_elements_text(step.value->'channels')),
+    auth.uid()
+  FROM jsonb_array_elements(p_steps) WITH ORDINALITY AS step(value, ordinality);
+END;
+$$;
+
+-- Stop escalating once anyone acknowledges or resolves an alert
+CREATE OR REPLACE FUNCTION public.stop_alert_escalation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status <> 'active' OR NEW.acknowledged_at IS NOT NULL OR NEW.resolved_at IS NOT NULL THEN
+    NEW.next_escalation_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Same checks as before, with alerts that satisfy the alerts table's
+-- columns and constraints
+CREATE OR REPLACE FUNCTION public.check_inactivity_thresholds()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_monitoring_record RECORD;
+    v_alert_id UUID;
+    v_escalation_alert_id UUID;
+    v_alerts_created INTEGER := 0;
+    v_escalations_sent INTEGER := 0;
+    v_check_ins_sent INTEGER := 0;
+    v_message TEXT;
+BEGIN
+    FOR v_monitoring_record IN
+        SELECT
+            im.*,
+            sd.device_name,
+            sd.location,
+            COALESCE(p.display_name, p.full_name, 'The patient') as patient_name,
+            EXTRACT(EPOCH FROM (NOW() - im.inactivity_started_at)) as seconds_inactive,
+            EXTRACT(EPOCH FROM (NOW() - im.check_in_sent_at)) / 60 as minutes_since_check_in
+        FROM public.inactivity_monitoring im
+        JOIN public.switchbot_devices sd ON im.device_id = sd.id
+        JOIN public.profiles p ON im.patient_id = p.id
+        WHERE im.resolved_at IS NULL
+        AND sd.is_active = true
+    LOOP
+        -- Inactivity threshold reached: check in with the patient
+        IF v_monitoring_record.seconds_inactive >= v_monitoring_record.inactivity_threshold_seconds
+           AND v_monitoring_record.alert_created_at IS NULL THEN
+
+            v_message := format('No motion detected in %s for %s seconds. Initiating check-in protocol.',
+                COALESCE(v_monitoring_record.location, v_monitoring_record.device_name),
+                v_monitoring_record.inactivity_threshold_seconds);
+
+            INSERT INTO public.alerts (
+                patient_id,
+                alert_type,
+                severity,
+                alert_message,
+                title,
+                description,
+                motion_device_id,
+                inactivity_monitoring_id
+            ) VALUES (
+                v_monitoring_record.patient_id,
+                'motion_inactivity_detected',
+                'medium',
+                v_message,
+                'Motion Inactivity Detected',
+                v_message,
+                v_monitoring_record.device_id,
+                v_monitoring_record.id
+            )
+            RETURNING id INTO v_alert_id;
+
+            UPDATE public.inactivity_monitoring
+            SET alert_created_at = NOW(),
+                check_in_sent_at = NOW(),
+                status = 'check_in_sent',
+                related_alert_id = v_alert_id,
+                updated_at = NOW()
+            WHERE id = v_monitoring_record.id;
+
+            v_alerts_created := v_alerts_created + 1;
+            v_check_ins_sent := v_check_ins_sent + 1;
+
+            -- check-escalation-timers sends the check-in to the patient
+        END IF;
+
+        -- No answer within escalation_threshold_minutes: alert the care circle
+        IF v_monitoring_record.check_in_sent_at IS NOT NULL
+           AND v_monitoring_record.check_in_response_at IS NULL
+           AND v_monitoring_record.escalation_sent_at IS NULL
+           AND v_monitoring_record.minutes_since_check_in >= v_monitoring_record.escalation_threshold_minutes THEN
+
+            v_message := format('%s has not responded to check-in after %s minutes of inactivity in %s. Immediate attention required.',
+                v_monitoring_record.patient_name,
+                v_monitoring_record.escalation_threshold_minutes,
+                COALESCE(v_monitoring_record.location, v_monitoring_record.device_name));
+
+            INSERT INTO public.alerts (
+                patient_id,
+                alert_type,
+                severity,
+                alert_message,
+                title,
+                description,
+                motion_device_id,
+                inactivity_monitoring_id
+            ) VALUES (
+                v_monitoring_record.patient_id,
+                'fall_escalation_required',
+                'critical',
+                v_message,
+                'URGENT: No Response to Fall Detection Check-In',
+                v_message,
+                v_monitoring_record.device_id,
+                v_monitoring_record.id
+            )
+            RETURNING id INTO v_escalation_alert_id;
+
+            UPDATE public.inactivity_monitoring
+            SET escalation_sent_at = NOW(),
+                status = 'escalated',
+                updated_at = NOW()
+            WHERE id = v_monitoring_record.id;
+
+            v_escalations_sent := v_escalations_sent + 1;
+
+            -- check-escalation-timers starts the escalation ladder for this alert
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'alerts_created', v_alerts_created,
+        'check_ins_sent', v_check_ins_sent,
+        'escalations_sent', v_escalations_sent,
+        'checked_at', NOW()
+    );
+END;
+$$;
+
+-- =====================================================
+-- 6. TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER set_escalation_steps_updated_at
+  BEFORE UPDATE ON public.escalation_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER stop_alert_escalation_on_acknowledge
+  BEFORE UPDATE ON public.alerts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.stop_alert_escalation();
+
+-- =====================================================
+-- 7. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.escalation_steps IS 'Ordered escalation ladder per patient: who is contacted about an alert, when and how';
+COMMENT ON COLUMN public.escalation_steps.target IS 'A care relationship type, or emergency_contact for profiles.emergency_contact_phone';
+COMMENT ON COLUMN public.escalation_steps.wait_minutes IS 'Minutes after the previous step before this step is contacted';
+COMMENT ON TABLE public.alert_escalations IS 'Everyone contacted about an alert, per escalation step, with the channels that reached them';
+COMMENT ON COLUMN public.alerts.escalation_step IS 'Last escalation step contacted (0 before anyone was contacted)';
+COMMENT ON COLUMN public.alerts.next_escalation_at IS 'When the next escalation step is due; NULL once acknowledged or the ladder is finished';
+COMMENT ON FUNCTION public.save_escalation_ladder IS 'Replace a patient escalation ladder (empty array restores the default)';
+
+GRANT SELECT ON public.escalation_steps TO authenticated;
+GRANT SELECT ON public.alert_escalations TO authenticated;
+GRANT EXECUTE ON FUNCTION public.save_escalation_ladder TO authenticated;
+
+-- Migration complete
+SELECT 'Alert escalation ladders created successfully' as status;
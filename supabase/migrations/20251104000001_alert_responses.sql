@@ -0,0 +1,208 @@
+-- =====================================================
+-- ALERT RESPONSES FROM NOTIFICATIONS
+-- =====================================================
+-- Lets caregivers acknowledge, resolve or dismiss an alert
+-- from wherever they were told about it:
+--
+-- - respond_to_alert(): the one place alerts are answered.
+--   Sets status, acknowledged_by, acknowledged_at and
+--   resolution_notes (which records how the caregiver
+--   answered), and logs the response. Escalation stops
+--   through the stop_alert_escalation trigger.
+-- - Called by caregivers from the dashboard alerts inbox,
+--   and by edge functions (service role) for signed email
+--   links, WhatsApp replies and Telegram replies, on behalf
+--   of the caregiver the link or reply belongs to.
+-- - telegram_links: connects a Telegram account to a Parra
+--   account, so Telegram replies can be attributed. The
+--   caregiver gets a short-lived code from
+--   create_telegram_link_code() and sends "/link <code>" to
+--   the Parra bot.
+--
+-- Date: 2025-11-04
+-- =====================================================
+
+-- =====================================================
+-- 1. TELEGRAM LINKS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.telegram_links (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  telegram_user_id BIGINT UNIQUE,
+  link_code TEXT UNIQUE,
+  link_code_expires_at TIMESTAMPTZ,
+  linked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.telegram_links ENABLE ROW LEVEL SECURITY;
+
+-- Codes are created through create_telegram_link_code() and
+-- redeemed by the telegram-webhook function (service role)
+CREATE POLICY "telegram_links_select_own"
+  ON public.telegram_links FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Disconnecting Telegram
+CREATE POLICY "telegram_links_delete_own"
+  ON public.telegram_links FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- Acknowledge, resolve or dismiss an alert. Signed-in users answer
+-- as themselves; the service role names the caregiver in
+-- p_responder_id. Answering a closed alert, or acknowledging an
+-- acknowledged one, changes nothing.
+CREATE OR REPLACE FUNCTION public.respond_to_alert(
+  p_alert_id UUID,
+  p_action TEXT,
+  p_channel TEXT DEFAULT 'dashboard',
+  p_notes TEXT DEFAULT NULL,
+  p_responder_id UUID DEFAULT NULL
+)
+RETURNS public.alerts
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_responder UUID;
+  v_alert public.alerts;
+  v_note TEXT;
+BEGIN
+  v_responder := CASE WHEN auth.role() = 'service_role' THEN p_responder_id ELSE auth.uid() END;
+
+  IF p_action NOT IN ('acknowledge', 'resolve', 'false_alarm') THEN
+    RAISE EXCEPTION 'Unknown alert response: %', p_action
+      USING ERRCODE = '22023';
+  END IF;
+
+  IF p_channel NOT IN ('dashboard', 'email', 'whatsapp', 'telegram') THEN
+    RAISE EXCEPTION 'Unknown alert response channel: %', p_channel
+      USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_alert FROM public.alerts WHERE id = p_alert_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Alert not found'
+      USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_responder IS NULL OR NOT (
+    public.can_receive_patient_alerts(v_responder, v_alert.patient_id)
+    OR public.is_admin(v_responder)
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to respond to this alert'
+      USING ERRCODE = '42501';
+  END IF;
+
+  IF v_alert.status IN ('resolved', 'false_alarm')
+    OR (p_action = 'acknowledge' AND v_alert.status = 'acknowledged') THEN
+    RETURN v_alert;
+  END IF;
+
+  v_note := CASE p_action
+      WHEN 'acknowledge' THEN 'Acknowledged'
+      WHEN 'resolve' THEN 'Resolved'
+      ELSE 'Marked as a false alarm'
+    END
+    || CASE p_channel
+      WHEN 'dashboard' THEN ' on the dashboard'
+      WHEN 'email' THEN ' from the alert email'
+      WHEN 'whatsapp' THEN ' by WhatsApp reply'
+      ELSE ' by Telegram reply'
+    END
+    || COALESCE(': ' || NULLIF(btrim(p_notes), ''), '');
+
+  UPDATE public.alerts
+  SET
+    status = CASE p_action
+      WHEN 'acknowledge' THEN 'acknowledged'
+      WHEN 'resolve' THEN 'resolved'
+      ELSE 'false_alarm'
+    END,
+    acknowledged_by = COALESCE(acknowledged_by, v_responder),
+    acknowledged_at = COALESCE(acknowledged_at, NOW()),
+    resolved_at = CASE WHEN p_action = 'acknowledge' THEN resolved_at ELSE NOW() END,
+    resolution_notes = concat_ws(E'\n', resolution_notes, v_note)
+  WHERE id = p_alert_id
+  RETURNING * INTO v_alert;
+
+  INSERT INTO public.activity_log (user_id, activity_type, activity_description, activity_metadata)
+  VALUES (
+    v_responder,
+    'alert_acknowledged',
+    v_note,
+    jsonb_build_object(
+      'alert_id', v_alert.id,
+      'patient_id', v_alert.patient_id,
+      'action', p_action,
+      'channel', p_channel
+    )
+  );
+
+  RETURN v_alert;
+END;
+$$;
+
+-- A fresh code for connecting the caller's Telegram account,
+-- valid for 30 minutes
+CREATE OR REPLACE FUNCTION public.create_telegram_link_code()
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code TEXT := upper(substr(replace(gen_random_uuid()::TEXT, '-', ''), 1, 8));
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sign in to connect Telegram'
+      USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.telegram_links (user_id, link_code, link_code_expires_at)
+  VALUES (auth.uid(), v_code, NOW() + INTERVAL '30 minutes')
+  ON CONFLICT (user_id) DO UPDATE
+  SET link_code = EXCLUDED.link_code,
+      link_code_expires_at = EXCLUDED.link_code_expires_at;
+
+  RETURN v_code;
+END;
+$$;
+
+-- =====================================================
+-- 4. TRIGGERS
+-- =====================================================
+
+CREATE TRIGGER set_telegram_links_updated_at
+  BEFORE UPDATE ON public.telegram_links
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 5. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.telegram_links IS 'Telegram accounts connected to Parra accounts, for answering alerts by Telegram reply';
+COMMENT ON COLUMN public.telegram_links.link_code IS 'One-time code sent to the Parra bot as "/link <code>"';
+COMMENT ON FUNCTION public.respond_to_alert IS 'Acknowledge, resolve or dismiss an alert and record who did it and how';
+COMMENT ON FUNCTION public.create_telegram_link_code IS 'Create a code for connecting the caller''s Telegram account';
+
+GRANT SELECT, DELETE ON public.telegram_links TO authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_alert TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.create_telegram_link_code TO authenticated;
+
+-- Migration complete
+SELECT 'Alert responses created successfully' as status;
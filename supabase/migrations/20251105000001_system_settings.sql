@@ -0,0 +1,221 @@
+-- =====================================================
+-- PERSISTED SYSTEM SETTINGS
+-- =====================================================
+-- Stores the admin System Settings page instead of
+-- discarding it:
+--
+-- - system_settings: one row per saved version, never
+--   updated in place, so every change is kept with who
+--   made it and which settings it changed. The highest
+--   version applies.
+-- - Saved by the update-system-settings edge function
+--   (admins only), which refuses a save based on an older
+--   version than the current one.
+-- - Read by the edge functions that apply the settings
+--   (senior-chat, voice-chat, check-escalation-timers,
+--   generate-daily-summaries).
+-- - check_inactivity_thresholds() takes the escalation
+--   threshold: an unanswered fall check-in escalates after
+--   the device's own escalation_minutes or the threshold,
+--   whichever is sooner.
+--
+-- Date: 2025-11-05
+-- =====================================================
+
+-- =====================================================
+-- 1. SYSTEM SETTINGS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.system_settings (
+  version INTEGER PRIMARY KEY CHECK (version > 0),
+  settings JSONB NOT NULL,
+  changed_keys TEXT[] NOT NULL DEFAULT '{}',
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Defaults, matching the admin settings form
+INSERT INTO public.system_settings (version, settings)
+VALUES (1, '{
+  "enableBetaFeatures": false,
+  "enableVoiceCheckins": true,
+  "enableWhatsAppIntegration": false,
+  "alertNotificationDelay": 5,
+  "escalationThreshold": 30,
+  "dailySummaryTime": "08:00",
+  "sessionTimeout": 60,
+  "requireMFA": false,
+  "passwordMinLength": 8,
+  "maintenanceMode": false,
+  "maxCheckInsPerDay": 20,
+  "dataRetentionDays": 365
+}'::jsonb)
+ON CONFLICT (version) DO NOTHING;
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY
+-- =====================================================
+
+ALTER TABLE public.system_settings ENABLE ROW LEVEL SECURITY;
+
+-- New versions are only written by update-system-settings
+-- (service role); versions are never updated or deleted
+CREATE POLICY "system_settings_select_admin"
+  ON public.system_settings FOR SELECT
+  TO authenticated
+  USING (public.is_admin(auth.uid()));
+
+-- =====================================================
+-- 3. FUNCTIONS
+-- =====================================================
+
+-- Adds p_escalation_threshold_minutes; the old signature is
+-- dropped so calls without it aren't ambiguous
+DROP FUNCTION IF EXISTS public.check_inactivity_thresholds();
+
+CREATE OR REPLACE FUNCTION public.check_inactivity_thresholds(
+    p_escalation_threshold_minutes INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_monitoring_record RECORD;
+    v_alert_id UUID;
+    v_escalation_alert_id UUID;
+    v_alerts_created INTEGER := 0;
+    v_escalations_sent INTEGER := 0;
+    v_check_ins_sent INTEGER := 0;
+    v_escalation_minutes INTEGER;
+    v_message TEXT;
+BEGIN
+    FOR v_monitoring_record IN
+        SELECT
+            im.*,
+            sd.device_name,
+            sd.location,
+            COALESCE(p.display_name, p.full_name, 'The patient') as patient_name,
+            EXTRACT(EPOCH FROM (NOW() - im.inactivity_started_at)) as seconds_inactive,
+            EXTRACT(EPOCH FROM (NOW() - im.check_in_sent_at)) / 60 as minutes_since_check_in
+        FROM public.inactivity_monitoring im
+        JOIN public.switchbot_devices sd ON im.device_id = sd.id
+        JOIN public.profiles p ON im.patient_id = p.id
+        WHERE im.resolved_at IS NULL
+        AND sd.is_active = true
+    LOOP
+        -- Inactivity threshold reached: check in with the patient
+        IF v_monitoring_record.seconds_inactive >= v_monitoring_record.inactivity_threshold_seconds
+           AND v_monitoring_record.alert_created_at IS NULL THEN
+
+            v_message := format('No motion detected in %s for %s seconds. Initiating check-in protocol.',
+                COALESCE(v_monitoring_record.location, v_monitoring_record.device_name),
+                v_monitoring_record.inactivity_threshold_seconds);
+
+            INSERT INTO public.alerts (
+                patient_id,
+                alert_type,
+                severity,
+                alert_message,
+                title,
+                description,
+                motion_device_id,
+                inactivity_monitoring_id
+            ) VALUES (
+                v_monitoring_record.patient_id,
+                'motion_inactivity_detected',
+                'medium',
+                v_message,
+                'Motion Inactivity Detected',
+                v_message,
+                v_monitoring_record.device_id,
+                v_monitoring_record.id
+            )
+            RETURNING id INTO v_alert_id;
+
+            UPDATE public.inactivity_monitoring
+            SET alert_created_at = NOW(),
+                check_in_sent_at = NOW(),
+                status = 'check_in_sent',
+                related_alert_id = v_alert_id,
+                updated_at = NOW()
+            WHERE id = v_monitoring_record.id;
+
+            v_alerts_created := v_alerts_created + 1;
+            v_check_ins_sent := v_check_ins_sent + 1;
+
+            -- check-escalation-timers sends the check-in to the patient
+        END IF;
+
+        -- The device's escalation time, capped by the system threshold
+        v_escalation_minutes := LEAST(
+            v_monitoring_record.escalation_threshold_minutes,
+            COALESCE(p_escalation_threshold_minutes, v_monitoring_record.escalation_threshold_minutes)
+        );
+
+        -- No answer in time: alert the care circle
+        IF v_monitoring_record.check_in_sent_at IS NOT NULL
+           AND v_monitoring_record.check_in_response_at IS NULL
+           AND v_monitoring_record.escalation_sent_at IS NULL
+           AND v_monitoring_record.minutes_since_check_in >= v_escalation_minutes THEN
+
+            v_message := format('%s has not responded to check-in after %s minutes of inactivity in %s. Immediate attention required.',
+                v_monitoring_record.patient_name,
+                v_escalation_minutes,
+                COALESCE(v_monitoring_record.location, v_monitoring_record.device_name));
+
+            INSERT INTO public.alerts (
+                patient_id,
+                alert_type,
+                severity,
+                alert_message,
+                title,
+                description,
+                motion_device_id,
+                inactivity_monitoring_id
+            ) VALUES (
+                v_monitoring_record.patient_id,
+                'fall_escalation_required',
+                'critical',
+                v_message,
+                'URGENT: No Response to Fall Detection Check-In',
+                v_message,
+                v_monitoring_record.device_id,
+                v_monitoring_record.id
+            )
+            RETURNING id INTO v_escalation_alert_id;
+
+            UPDATE public.inactivity_monitoring
+            SET escalation_sent_at = NOW(),
+                status = 'escalated',
+                updated_at = NOW()
+            WHERE id = v_monitoring_record.id;
+
+            v_escalations_sent := v_escalations_sent + 1;
+
+            -- check-escalation-timers starts the escalation ladder for this alert
+        END IF;
+    END LOOP;
+
+    RETURN jsonb_build_object(
+        'success', true,
+        'alerts_created', v_alerts_created,
+        'check_ins_sent', v_check_ins_sent,
+        'escalations_sent', v_escalations_sent,
+        'checked_at', NOW()
+    );
+END;
+$$;
+
+-- =====================================================
+-- 4. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON TABLE public.system_settings IS 'Versioned admin system settings; the highest version applies';
+COMMENT ON COLUMN public.system_settings.changed_keys IS 'Settings this version changed from the one before';
+COMMENT ON FUNCTION public.check_inactivity_thresholds IS 'Checks all active monitoring for threshold breaches and creates alerts; escalates unanswered check-ins after the device escalation time or p_escalation_threshold_minutes, whichever is sooner';
+
+GRANT SELECT ON public.system_settings TO authenticated;
+
+-- Migration complete
+SELECT 'System settings created successfully' as status;
@@ -0,0 +1,131 @@
+-- =====================================================
+-- DATA RETENTION
+-- =====================================================
+-- Applies the dataRetentionDays system setting. The
+-- purge-expired-data edge function runs daily and calls
+-- purge_expired_data() with the cutoff:
+--
+-- - check_ins: messages, commitments and safety concern
+--   details are cleared; the row (mood, topics, alert
+--   links) stays. purged_at records when.
+-- - voice_checkins: audio link, transcript and reply are
+--   cleared the same way.
+-- - motion_sensor_events, health_metrics: deleted.
+-- - daily_summaries and health_metric_aggregates are
+--   kept.
+--
+-- Each purge is logged to activity_log as 'data_purged'.
+--
+-- Date: 2025-11-06
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS & CONSTRAINTS
+-- =====================================================
+
+ALTER TABLE public.check_ins
+ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ;
+
+ALTER TABLE public.voice_checkins
+ADD COLUMN IF NOT EXISTS purged_at TIMESTAMPTZ;
+
+-- A purged voice message no longer has its audio link
+ALTER TABLE public.voice_checkins
+DROP CONSTRAINT IF EXISTS voice_checkins_audio_required;
+
+ALTER TABLE public.voice_checkins
+ADD CONSTRAINT voice_checkins_audio_required
+CHECK (message_type = 'whatsapp_text' OR audio_url IS NOT NULL OR purged_at IS NOT NULL);
+
+ALTER TABLE public.activity_log
+DROP CONSTRAINT IF EXISTS activity_log_activity_type_check;
+
+ALTER TABLE public.activity_log
+ADD CONSTRAINT activity_log_activity_type_check
+CHECK (activity_type IN ('login', 'logout', 'profile_update', 'check_in', 'alert_sent', 'alert_acknowledged', 'note_created', 'settings_changed', 'export_data', 'data_purged'));
+
+-- =====================================================
+-- 2. FUNCTIONS
+-- =====================================================
+
+-- Purges (or with p_dry_run only counts) rows recorded before
+-- p_cutoff. Rows already anonymized are not counted again.
+CREATE OR REPLACE FUNCTION public.purge_expired_data(
+    p_cutoff TIMESTAMPTZ,
+    p_dry_run BOOLEAN DEFAULT true
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+    v_check_ins INTEGER;
+    v_voice_checkins INTEGER;
+    v_motion_sensor_events INTEGER;
+    v_health_metrics INTEGER;
+BEGIN
+    IF p_dry_run THEN
+        SELECT COUNT(*) INTO v_check_ins
+        FROM public.check_ins
+        WHERE started_at < p_cutoff AND purged_at IS NULL;
+
+        SELECT COUNT(*) INTO v_voice_checkins
+        FROM public.voice_checkins
+        WHERE created_at < p_cutoff AND purged_at IS NULL;
+
+        SELECT COUNT(*) INTO v_motion_sensor_events
+        FROM public.motion_sensor_events
+        WHERE recorded_at < p_cutoff;
+
+        SELECT COUNT(*) INTO v_health_metrics
+        FROM public.health_metrics
+        WHERE recorded_at < p_cutoff;
+    ELSE
+        UPDATE public.check_ins
+        SET messages = '[]'::jsonb,
+            commitments = '[]'::jsonb,
+            safety_concern_details = NULL,
+            purged_at = NOW()
+        WHERE started_at < p_cutoff AND purged_at IS NULL;
+        GET DIAGNOSTICS v_check_ins = ROW_COUNT;
+
+        UPDATE public.voice_checkins
+        SET audio_url = NULL,
+            transcript = '',
+            ai_response = '',
+            purged_at = NOW()
+        WHERE created_at < p_cutoff AND purged_at IS NULL;
+        GET DIAGNOSTICS v_voice_checkins = ROW_COUNT;
+
+        DELETE FROM public.motion_sensor_events
+        WHERE recorded_at < p_cutoff;
+        GET DIAGNOSTICS v_motion_sensor_events = ROW_COUNT;
+
+        DELETE FROM public.health_metrics
+        WHERE recorded_at < p_cutoff;
+        GET DIAGNOSTICS v_health_metrics = ROW_COUNT;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'check_ins', v_check_ins,
+        'voice_checkins', v_voice_checkins,
+        'motion_sensor_events', v_motion_sensor_events,
+        'health_metrics', v_health_metrics
+    );
+END;
+$$;
+
+-- =====================================================
+-- 3. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON COLUMN public.check_ins.purged_at IS 'When the conversation content was cleared by the retention job';
+COMMENT ON COLUMN public.voice_checkins.purged_at IS 'When the audio link, transcript and reply were cleared by the retention job';
+COMMENT ON FUNCTION public.purge_expired_data IS 'Anonymizes check-ins and voice check-ins and deletes motion events and health readings recorded before p_cutoff; with p_dry_run only counts them';
+
+-- Only the purge-expired-data edge function (service role) runs the purge
+REVOKE EXECUTE ON FUNCTION public.purge_expired_data(TIMESTAMPTZ, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.purge_expired_data(TIMESTAMPTZ, BOOLEAN) TO service_role;
+
+-- Migration complete
+SELECT 'Data retention created successfully' as status;
@@ -0,0 +1,30 @@
+-- =====================================================
+-- PROMPT VERSIONS
+-- =====================================================
+-- Records which version of the Parra persona prompt
+-- (PERSONA_PROMPT_VERSION in _shared/parra-persona.ts)
+-- produced each check-in. Conversations saved before
+-- this migration have no version.
+--
+-- Date: 2025-11-07
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS
+-- =====================================================
+
+ALTER TABLE public.check_ins
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+COMMENT ON COLUMN public.check_ins.prompt_version IS 'Parra persona prompt version that produced this conversation';
+
+-- =====================================================
+-- 2. INDEXES
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_prompt_version
+ON public.check_ins(prompt_version)
+WHERE prompt_version IS NOT NULL;
+
+-- Migration complete
+SELECT 'Prompt versions created successfully' as status;
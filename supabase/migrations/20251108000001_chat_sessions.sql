@@ -0,0 +1,100 @@
+-- =====================================================
+-- CHAT SESSIONS
+-- =====================================================
+-- senior-chat and voice-chat save conversations
+-- server-side. A session is a check_ins row created on the
+-- first message; every user and assistant turn is appended
+-- to messages as it happens and last_message_at records
+-- when.
+--
+-- The close-idle-chat-sessions edge function closes
+-- sessions with no new message for 30 minutes: ended_at
+-- is set to the last message, which fills in
+-- duration_seconds and the daily summary through the
+-- existing check_ins triggers.
+--
+-- Check-ins saved before sessions existed have no
+-- last_message_at and are not touched.
+--
+-- Date: 2025-11-08
+-- =====================================================
+
+-- =====================================================
+-- 1. COLUMNS & INDEXES
+-- =====================================================
+
+ALTER TABLE public.check_ins
+ADD COLUMN IF NOT EXISTS last_message_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_check_ins_open_sessions
+ON public.check_ins(last_message_at)
+WHERE ended_at IS NULL AND last_message_at IS NOT NULL;
+
+-- =====================================================
+-- 2. FUNCTIONS
+-- =====================================================
+
+-- Appends turns to an open session in one statement so
+-- concurrent requests can't overwrite each other.
+-- Returns false when the session is closed or missing.
+CREATE OR REPLACE FUNCTION public.append_check_in_messages(
+    p_check_in_id UUID,
+    p_messages JSONB,
+    p_prompt_version TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.check_ins
+    SET messages = COALESCE(messages, '[]'::jsonb) || p_messages,
+        last_message_at = NOW(),
+        prompt_version = COALESCE(p_prompt_version, prompt_version)
+    WHERE id = p_check_in_id AND ended_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$;
+
+-- Closes sessions last written to before p_idle_before and
+-- returns their ids for analysis.
+CREATE OR REPLACE FUNCTION public.close_idle_check_ins(
+    p_idle_before TIMESTAMPTZ
+)
+RETURNS TABLE (check_in_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH closed AS (
+        UPDATE public.check_ins
+        SET ended_at = last_message_at
+        WHERE ended_at IS NULL
+          AND last_message_at IS NOT NULL
+          AND last_message_at < p_idle_before
+        RETURNING id
+    )
+    SELECT closed.id FROM closed;
+END;
+$$;
+
+-- =====================================================
+-- 3. COMMENTS & GRANTS
+-- =====================================================
+
+COMMENT ON COLUMN public.check_ins.last_message_at IS 'When a turn was last saved to this chat session; NULL for check-ins saved before sessions';
+COMMENT ON FUNCTION public.append_check_in_messages IS 'Appends turns to an open chat session and refreshes last_message_at';
+COMMENT ON FUNCTION public.close_idle_check_ins IS 'Sets ended_at to the last message for chat sessions idle since p_idle_before';
+
+-- Only edge functions (service role) write sessions
+REVOKE EXECUTE ON FUNCTION public.append_check_in_messages(UUID, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.append_check_in_messages(UUID, JSONB, TEXT) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.close_idle_check_ins(TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.close_idle_check_ins(TIMESTAMPTZ) TO service_role;
+
+-- Migration complete
+SELECT 'Chat sessions created successfully' as status;
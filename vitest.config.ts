@@ -47,7 +47,7 @@ export default defineConfig({
     },
 
     // Test include/exclude patterns
-    include: ['src/**/*.{test,spec}.{ts,tsx}'],
+    include: ['src/**/*.{test,spec}.{ts,tsx}', 'supabase/functions/**/*.{test,spec}.ts'],
     exclude: ['node_modules', 'dist', '.idea', '.git', '.cache'],
 
     // Test execution